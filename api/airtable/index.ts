@@ -5,16 +5,68 @@
  * 1. Store buyer criteria and property data
  * 2. Retrieve matched properties for buyers
  * 3. Support bulk operations for sending property PDFs
+ * 4. Read the append-only audit log (action=audit-log)
  *
  * Route: /api/airtable?action=<action>&table=<table>
+ *
+ * The generic record actions (list-records, get-record, batch-get,
+ * update-record) only reach STAFF_TABLES for non-admins; every other table
+ * (Users, System Cache, Saved Searches, the audit log...) and list-tables are
+ * admin-only.
  */
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { ADMIN_ROLE, hasRole, requireSession, type SessionUser } from '../../lib/auth/session';
+import { AUDIT_TABLE, diffFields, listAuditEntries, recordAudit, type AuditSource } from '../../lib/audit/auditLog';
+import { AUTOMATION_ACTOR, runAutomationEvent, type AutomationResult } from '../../lib/deals/automation';
 
 const AIRTABLE_API_KEY = process.env.AIRTABLE_API_KEY;
 const AIRTABLE_BASE_ID = process.env.AIRTABLE_BASE_ID;
 const AIRTABLE_API_URL = 'https://api.airtable.com/v0';
 
+// Tables non-admins may use through the generic record actions
+const STAFF_TABLES = ['Properties', 'Buyers', 'Property-Buyer Matches'];
+
+const TABLE_ACTIONS = ['list-records', 'get-record', 'batch-get', 'update-record'];
+
+// Table ID (tbl…) -> name, from the base schema; reloaded when an ID is missing
+let tableNamesById: Map<string, string> | null = null;
+
+async function loadTableNames(headers: Record<string, string>): Promise<Map<string, string>> {
+  const response = await fetchWithRetry(`${AIRTABLE_API_URL}/meta/bases/${AIRTABLE_BASE_ID}/tables`, { headers });
+  if (!response.ok) {
+    throw new Error(`Failed to load table names: ${response.status}`);
+  }
+  const data = await response.json();
+  return new Map((data.tables || []).map((t: { id: string; name: string }) => [t.id, t.name]));
+}
+
+/**
+ * The table a `table` parameter refers to, by name (IDs are looked up in the
+ * base schema). Null when an ID doesn't belong to the base.
+ */
+async function resolveTableName(table: string, headers: Record<string, string>): Promise<string | null> {
+  const value = table.trim();
+  if (!/^tbl[A-Za-z0-9]+$/.test(value)) return value;
+
+  if (!tableNamesById?.has(value)) {
+    tableNamesById = await loadTableNames(headers);
+  }
+  return tableNamesById.get(value) ?? null;
+}
+
+/**
+ * Canonical spelling of a resolved table name when it is one the handler
+ * checks for (STAFF_TABLES, the audit log), so "audit log" is the Audit Log
+ */
+function canonicalTableName(tableName: string): string {
+  return [...STAFF_TABLES, AUDIT_TABLE].find((name) => name.toLowerCase() === tableName.toLowerCase()) || tableName;
+}
+
+function canUseTable(session: SessionUser, tableName: string): boolean {
+  return hasRole(session, [ADMIN_ROLE]) || STAFF_TABLES.includes(tableName);
+}
+
 /**
  * Fetch with automatic retry on rate limit errors (429)
  */
@@ -70,12 +122,18 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   // CORS
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
 
   if (req.method === 'OPTIONS') {
     return res.status(200).end();
   }
 
+  // Audit entries and the base's table list are admin-only (the audit table is
+  // outside STAFF_TABLES, so the generic record actions are checked below)
+  const adminOnly = req.query.action === 'audit-log' || req.query.action === 'list-tables';
+  const session = await requireSession(req, res, { roles: adminOnly ? [ADMIN_ROLE] : undefined });
+  if (!session) return;
+
   console.log('[Airtable API] Environment check:', {
     hasApiKey: !!AIRTABLE_API_KEY,
     apiKeyPrefix: AIRTABLE_API_KEY?.substring(0, 8) + '...',
@@ -103,9 +161,22 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     'Content-Type': 'application/json',
   };
 
-  const { action, table } = req.query;
+  const { action } = req.query;
+  let table = req.query.table as string;
 
   try {
+    if (TABLE_ACTIONS.includes(action as string)) {
+      if (!table) {
+        return res.status(400).json({ error: 'table parameter is required' });
+      }
+
+      const tableName = await resolveTableName(table, headers);
+      if (!tableName || !canUseTable(session, canonicalTableName(tableName))) {
+        return res.status(403).json({ error: 'Insufficient permissions', table });
+      }
+      table = canonicalTableName(tableName);
+    }
+
     switch (action) {
       case 'list-tables':
         // List all tables in the base (for debugging)
@@ -113,15 +184,15 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
       case 'list-records':
         // List records from a specific table
-        return handleListRecords(req, res, headers, table as string);
+        return handleListRecords(req, res, headers, table);
 
       case 'get-record':
         // Get a single record by ID from a specific table
-        return handleGetRecord(req, res, headers, table as string);
+        return handleGetRecord(req, res, headers, table);
 
       case 'batch-get':
         // Get multiple records by IDs from a specific table in one call
-        return handleBatchGetRecords(req, res, headers, table as string);
+        return handleBatchGetRecords(req, res, headers, table);
 
       case 'get-buyer-matches':
         // Get property matches for a buyer
@@ -137,11 +208,15 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
       case 'update-record':
         // Update a single record by ID
-        return handleUpdateRecord(req, res, headers, table as string);
+        return handleUpdateRecord(req, res, headers, table);
 
       case 'get-record':
         // Get a single record by ID
-        return handleGetRecord(req, res, headers, table as string);
+        return handleGetRecord(req, res, headers, table);
+
+      case 'audit-log':
+        // Filtered, newest-first audit entries (read-only)
+        return handleAuditLog(req, res);
 
       default:
         return res.status(400).json({ error: 'Unknown action', action });
@@ -535,9 +610,23 @@ async function handleUpdateRecord(
     return res.status(400).json({ error: 'fields object is required in request body' });
   }
 
+  // The audit log is append-only (tableName is already resolved from an ID)
+  if (tableName === AUDIT_TABLE) {
+    return res.status(403).json({ error: 'The audit log cannot be modified' });
+  }
+
   console.log(`[Airtable] Updating record ${recordId} in table: ${tableName}`, { fields });
 
   try {
+    // Current values, for the audit entry's before/after
+    const beforeResponse = await fetchWithRetry(
+      `${AIRTABLE_API_URL}/${AIRTABLE_BASE_ID}/${encodeURIComponent(tableName)}/${recordId}`,
+      { headers }
+    );
+    const beforeFields: Record<string, unknown> = beforeResponse.ok
+      ? (await beforeResponse.json()).fields || {}
+      : {};
+
     const response = await fetchWithRetry(
       `${AIRTABLE_API_URL}/${AIRTABLE_BASE_ID}/${encodeURIComponent(tableName)}/${recordId}`,
       {
@@ -572,7 +661,50 @@ async function handleUpdateRecord(
 
     const data = await response.json();
     console.log(`[Airtable] Successfully updated record ${recordId} in ${tableName}`);
-    return res.status(200).json({ record: data });
+
+    const changes = diffFields(beforeFields, fields);
+    const isStageChange = tableName === 'Property-Buyer Matches' && 'Match Stage' in changes.after;
+    if (Object.keys(changes.after).length > 0) {
+      await recordAudit(req, {
+        action: isStageChange ? 'match.stage-changed' : 'record.updated',
+        source: 'airtable',
+        targetType: tableName,
+        targetId: recordId as string,
+        targetLabel: ['Address', 'Name', 'Property Code']
+          .map((key) => data.fields?.[key])
+          .find((value): value is string => typeof value === 'string'),
+        before: changes.before,
+        after: changes.after,
+      });
+    }
+
+    // Stage-entered automation rules run before responding so their activities
+    // are on the record when the caller reads it back
+    let automation: AutomationResult[] = [];
+    if (isStageChange && data.fields?.['Match Stage']) {
+      try {
+        automation = await runAutomationEvent({
+          type: 'stage-entered',
+          dealId: recordId as string,
+          stage: String(data.fields['Match Stage']),
+        });
+        if (automation.length > 0) {
+          await recordAudit(req, {
+            action: 'automation.ran',
+            source: 'airtable',
+            targetType: tableName,
+            targetId: recordId as string,
+            details: automation.map((r) => r.ruleName).join(', '),
+            after: automation,
+            actor: AUTOMATION_ACTOR,
+          });
+        }
+      } catch (error) {
+        console.error(`[Airtable] Stage automation failed for ${recordId}:`, error);
+      }
+    }
+
+    return res.status(200).json({ record: data, automation });
   } catch (error: any) {
     console.error(`[Airtable] Exception in handleUpdateRecord:`, error);
     return res.status(500).json({
@@ -647,3 +779,25 @@ async function handleGetRecord(
     });
   }
 }
+
+async function handleAuditLog(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { actor, source, auditAction, targetId, since, until, search, pageSize, offset } = req.query;
+
+  const result = await listAuditEntries({
+    actor: actor as string | undefined,
+    source: source as AuditSource | undefined,
+    action: auditAction as string | undefined,
+    targetId: targetId as string | undefined,
+    since: since as string | undefined,
+    until: until as string | undefined,
+    search: search as string | undefined,
+    pageSize: pageSize ? parseInt(pageSize as string, 10) : undefined,
+    offset: offset as string | undefined,
+  });
+
+  return res.status(200).json(result);
+}
@@ -1,61 +1,58 @@
 /**
  * Authentication API Handler
  *
- * Handles user authentication with Airtable Users table:
- * - signup: Register new users with hashed passwords
- * - login: Authenticate users and return user data
+ * Single login backend for the app. Users live in a pluggable store
+ * (AUTH_USER_STORE=airtable|sheets, see lib/auth/userStore.ts) and passwords
+ * are always stored as bcrypt hashes.
+ *
+ * - signup: Create a user account with a hashed password (admin)
+ * - login: Authenticate users and return user data with a signed session token
+ * - session: Return the user for the request's session token
+ * - change-password: Change the signed-in user's password
+ * - request-password-reset: Email a single-use reset link
+ * - reset-password: Set a new password with a reset token
+ * - migrate-users: Import Google Sheet users into the configured store (admin)
+ * - locked-accounts / unlock: List and clear login lockouts (admin)
+ *
+ * Failed logins, reset requests and invalid reset tokens are throttled per
+ * email and per IP (lib/auth/loginThrottle.ts). Changing or resetting a
+ * password revokes every session token issued before it.
  *
  * Route: /api/auth?action=<action>
  */
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import bcrypt from 'bcryptjs';
-
-const AIRTABLE_API_KEY = process.env.AIRTABLE_API_KEY;
-const AIRTABLE_BASE_ID = process.env.AIRTABLE_BASE_ID;
-const AIRTABLE_API_URL = 'https://api.airtable.com/v0';
-
-const SALT_ROUNDS = 10;
-
-/**
- * Fetch with automatic retry on rate limit errors (429)
- */
-async function fetchWithRetry(
-  url: string,
-  options: RequestInit,
-  maxRetries = 3
-): Promise<Response> {
-  let lastError: any = null;
-
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
-    try {
-      if (attempt > 0) {
-        const delay = Math.min(1000 * Math.pow(2, attempt - 1), 5000);
-        console.log(`[Auth] Retry ${attempt}/${maxRetries} after ${delay}ms...`);
-        await new Promise(resolve => setTimeout(resolve, delay));
-      }
-
-      const response = await fetch(url, options);
-
-      if (response.status === 429 && attempt < maxRetries) {
-        console.warn(`[Auth] Rate limited (429) on attempt ${attempt + 1}/${maxRetries + 1}, will retry...`);
-        lastError = new Error(`Rate limited: ${response.statusText}`);
-        continue;
-      }
-
-      return response;
-    } catch (error: any) {
-      console.error(`[Auth] Fetch error on attempt ${attempt + 1}:`, error.message);
-      lastError = error;
-
-      if (attempt === maxRetries) {
-        throw error;
-      }
-    }
-  }
-
-  throw lastError || new Error('Failed after retries');
-}
+import {
+  ADMIN_ROLE,
+  SESSION_TTL_LONG_MS,
+  SESSION_TTL_SHORT_MS,
+  getBearerToken,
+  requireSession,
+  signSessionToken,
+  verifySessionToken,
+} from '../../lib/auth/session';
+import { createSheetsUserStore, getUserStore, type UserStore } from '../../lib/auth/userStore';
+import {
+  authenticate,
+  createPasswordReset,
+  hashPassword,
+  migrateUsers,
+  newPasswordUpdate,
+  resetPassword,
+  toSessionUser,
+  validatePassword,
+} from '../../lib/auth/passwords';
+import {
+  attemptLogin,
+  checkLoginAllowed,
+  clearLoginThrottle,
+  getClientIp,
+  listBlockedLogins,
+  maskEmail,
+  recordLoginFailure,
+  recordLoginSuccess,
+  sendThrottled,
+} from '../../lib/auth/loginThrottle';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   console.log('[Auth API] Request:', {
@@ -67,37 +64,70 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   // CORS
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
 
   if (req.method === 'OPTIONS') {
     return res.status(200).end();
   }
 
-  if (!AIRTABLE_API_KEY || !AIRTABLE_BASE_ID) {
-    console.error('[Auth API] Missing credentials!');
+  let store: UserStore;
+  try {
+    store = getUserStore();
+  } catch (error) {
+    console.error('[Auth API] User store not configured:', error);
     return res.status(500).json({
-      error: 'Airtable credentials not configured',
+      error: error instanceof Error ? error.message : 'User store not configured',
     });
   }
 
-  const headers = {
-    'Authorization': `Bearer ${AIRTABLE_API_KEY}`,
-    'Content-Type': 'application/json',
-  };
-
   const { action } = req.query;
 
   try {
     switch (action) {
-      case 'signup':
-        return handleSignup(req, res, headers);
+      case 'signup': {
+        // Accounts are created by admins - there is no public registration
+        if (!(await requireSession(req, res, { roles: [ADMIN_ROLE] }))) return;
+        return handleSignup(req, res, store);
+      }
 
       case 'login':
-        return handleLogin(req, res, headers);
+        return handleLogin(req, res, store);
+
+      case 'session': {
+        const session = await requireSession(req, res);
+        if (!session) return;
+        return res.status(200).json({ success: true, user: session });
+      }
+
+      case 'change-password':
+        return handleChangePassword(req, res, store);
+
+      case 'request-password-reset':
+        return handleRequestPasswordReset(req, res, store);
 
-      case 'hash-password':
-        // Utility endpoint to hash an existing plain text password
+      case 'reset-password':
+        return handleResetPassword(req, res, store);
+
+      case 'migrate-users': {
+        if (!(await requireSession(req, res, { roles: [ADMIN_ROLE] }))) return;
+        return handleMigrateUsers(req, res, store);
+      }
+
+      case 'locked-accounts': {
+        if (!(await requireSession(req, res, { roles: [ADMIN_ROLE] }))) return;
+        return res.status(200).json({ success: true, entries: await listBlockedLogins() });
+      }
+
+      case 'unlock': {
+        if (!(await requireSession(req, res, { roles: [ADMIN_ROLE] }))) return;
+        return handleUnlock(req, res);
+      }
+
+      case 'hash-password': {
+        // Utility endpoint to hash an existing plain text password (admins only)
+        if (!(await requireSession(req, res, { roles: [ADMIN_ROLE] }))) return;
         return handleHashPassword(req, res);
+      }
 
       default:
         return res.status(400).json({ error: 'Unknown action', action });
@@ -110,12 +140,12 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 }
 
-async function handleSignup(req: VercelRequest, res: VercelResponse, headers: any) {
+async function handleSignup(req: VercelRequest, res: VercelResponse, store: UserStore) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  const { email, password, name, role } = req.body;
+  const { email, password, name, role = 'User' } = req.body;
 
   if (!email || !password || !name) {
     return res.status(400).json({
@@ -130,171 +160,233 @@ async function handleSignup(req: VercelRequest, res: VercelResponse, headers: an
     return res.status(400).json({ error: 'Invalid email format' });
   }
 
-  // Validate password length
-  if (password.length < 8) {
-    return res.status(400).json({ error: 'Password must be at least 8 characters' });
+  const passwordError = validatePassword(password);
+  if (passwordError) {
+    return res.status(400).json({ error: passwordError });
   }
 
-  console.log(`[Auth] Signup attempt for: ${email}`);
+  console.log(`[Auth] Signup attempt for: ${email} (${store.kind})`);
 
-  try {
-    // Check if user already exists
-    const checkFormula = encodeURIComponent(`{Email} = "${email}"`);
-    const checkResponse = await fetchWithRetry(
-      `${AIRTABLE_API_URL}/${AIRTABLE_BASE_ID}/Users?filterByFormula=${checkFormula}`,
-      { headers }
-    );
-
-    if (!checkResponse.ok) {
-      throw new Error(`Failed to check existing user: ${checkResponse.status}`);
-    }
+  if (await store.findByEmail(email)) {
+    return res.status(409).json({ error: 'User with this email already exists' });
+  }
 
-    const checkData = await checkResponse.json();
+  const user = await store.create({
+    email: email.trim(),
+    password: await hashPassword(password),
+    name,
+    role,
+  });
 
-    if (checkData.records && checkData.records.length > 0) {
-      return res.status(409).json({ error: 'User with this email already exists' });
-    }
+  console.log(`[Auth] User created successfully: ${email}`);
 
-    // Hash the password
-    const hashedPassword = await bcrypt.hash(password, SALT_ROUNDS);
-
-    // Create the user in Airtable
-    const createResponse = await fetchWithRetry(
-      `${AIRTABLE_API_URL}/${AIRTABLE_BASE_ID}/Users`,
-      {
-        method: 'POST',
-        headers,
-        body: JSON.stringify({
-          fields: {
-            Email: email,
-            Password: hashedPassword,
-            Name: name,
-            Role: role || 'User',
-          },
-        }),
-      }
-    );
+  // Return user data (without password)
+  return res.status(201).json({
+    success: true,
+    user: toSessionUser(user),
+  });
+}
 
-    if (!createResponse.ok) {
-      const errorText = await createResponse.text();
-      console.error('[Auth] Create user error:', errorText);
-      throw new Error(`Failed to create user: ${createResponse.status}`);
-    }
+async function handleLogin(req: VercelRequest, res: VercelResponse, store: UserStore) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
 
-    const userData = await createResponse.json();
+  const { email, password, rememberMe = false } = req.body;
 
-    console.log(`[Auth] User created successfully: ${email}`);
+  if (!email || !password) {
+    return res.status(400).json({
+      error: 'Missing required fields',
+      required: ['email', 'password'],
+    });
+  }
 
-    // Return user data (without password)
-    return res.status(201).json({
-      success: true,
-      user: {
-        id: userData.id,
-        email: userData.fields.Email,
-        name: userData.fields.Name,
-        role: userData.fields.Role,
-      },
+  const { user, status } = await attemptLogin(store, email, password, getClientIp(req));
+  if (!user) {
+    if (!status.allowed) {
+      return sendThrottled(res, status);
+    }
+    return res.status(401).json({
+      error: 'Invalid email or password',
+      retryAt: status.retryAt,
     });
-  } catch (error: any) {
-    console.error('[Auth] Signup error:', error);
-    throw error;
   }
+
+  const sessionUser = toSessionUser(user);
+  const { token, expiresAt } = signSessionToken(
+    sessionUser,
+    rememberMe ? SESSION_TTL_LONG_MS : SESSION_TTL_SHORT_MS,
+    user.passwordChangedAt
+  );
+
+  // Return user data (without password) and the signed session token
+  return res.status(200).json({
+    success: true,
+    user: sessionUser,
+    token,
+    expiresAt,
+  });
 }
 
-async function handleLogin(req: VercelRequest, res: VercelResponse, headers: any) {
+async function handleChangePassword(req: VercelRequest, res: VercelResponse, store: UserStore) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  const { email, password } = req.body;
+  const session = await requireSession(req, res);
+  if (!session) return;
 
-  if (!email || !password) {
+  const { currentPassword, newPassword } = req.body;
+
+  if (!currentPassword || !newPassword) {
     return res.status(400).json({
       error: 'Missing required fields',
-      required: ['email', 'password'],
+      required: ['currentPassword', 'newPassword'],
     });
   }
 
-  console.log(`[Auth] Login attempt for: ${email}`);
+  const passwordError = validatePassword(newPassword);
+  if (passwordError) {
+    return res.status(400).json({ error: passwordError });
+  }
 
-  try {
-    // Find user by email
-    const formula = encodeURIComponent(`{Email} = "${email}"`);
-    const response = await fetchWithRetry(
-      `${AIRTABLE_API_URL}/${AIRTABLE_BASE_ID}/Users?filterByFormula=${formula}`,
-      { headers }
-    );
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch user: ${response.status}`);
-    }
+  // 400 rather than 401 - a wrong current password must not end the session
+  const user = await authenticate(store, session.email, currentPassword);
+  if (!user) {
+    return res.status(400).json({ error: 'Current password is incorrect' });
+  }
 
-    const data = await response.json();
+  const update = await newPasswordUpdate(newPassword);
+  await store.update(user, update);
 
-    if (!data.records || data.records.length === 0) {
-      console.log(`[Auth] User not found: ${email}`);
-      return res.status(401).json({ error: 'Invalid email or password' });
-    }
+  // The change revokes the caller's token too - hand back one for the rest of its lifetime
+  const claims = verifySessionToken(getBearerToken(req));
+  const ttlMs = claims ? claims.exp * 1000 - Date.now() : SESSION_TTL_SHORT_MS;
+  const { token, expiresAt } = signSessionToken(toSessionUser(user), ttlMs, update.passwordChangedAt);
+
+  console.log(`[Auth] Password changed for: ${session.email}`);
+  return res.status(200).json({ success: true, token, expiresAt });
+}
 
-    const user = data.records[0];
-    const storedPassword = user.fields.Password;
+async function handleRequestPasswordReset(req: VercelRequest, res: VercelResponse, store: UserStore) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
 
-    if (!storedPassword) {
-      console.log(`[Auth] No password set for user: ${email}`);
-      return res.status(401).json({ error: 'Invalid email or password' });
-    }
+  const { email } = req.body;
 
-    // Compare passwords
-    // Check if password is hashed (bcrypt hashes start with $2)
-    let isValidPassword = false;
-
-    if (storedPassword.startsWith('$2')) {
-      // Password is hashed, use bcrypt compare
-      isValidPassword = await bcrypt.compare(password, storedPassword);
-    } else {
-      // Password is plain text (legacy) - compare directly
-      // Note: This is for backward compatibility during migration
-      isValidPassword = password === storedPassword;
-
-      if (isValidPassword) {
-        // Upgrade to hashed password
-        console.log(`[Auth] Upgrading plain text password to hashed for: ${email}`);
-        const hashedPassword = await bcrypt.hash(password, SALT_ROUNDS);
-
-        await fetchWithRetry(
-          `${AIRTABLE_API_URL}/${AIRTABLE_BASE_ID}/Users/${user.id}`,
-          {
-            method: 'PATCH',
-            headers,
-            body: JSON.stringify({
-              fields: { Password: hashedPassword },
-            }),
-          }
-        );
-      }
-    }
+  if (!email) {
+    return res.status(400).json({ error: 'email is required' });
+  }
 
-    if (!isValidPassword) {
-      console.log(`[Auth] Invalid password for: ${email}`);
-      return res.status(401).json({ error: 'Invalid email or password' });
-    }
+  // Reset links are only ever built from APP_URL - never from request headers
+  const appUrl = process.env.APP_URL?.replace(/\/+$/, '');
+  if (!appUrl) {
+    console.error('[Auth] APP_URL not configured, refusing to send a password reset link');
+    return res.status(500).json({ error: 'Password reset is not configured' });
+  }
+
+  // Each request counts as a failed attempt, so reset emails can't be used to spam an inbox
+  const ip = getClientIp(req);
+  const throttle = await checkLoginAllowed(email, ip);
+  if (!throttle.allowed) {
+    console.log(`[Auth] Password reset throttled for: ${maskEmail(email)}`);
+    return sendThrottled(res, throttle);
+  }
+  await recordLoginFailure(email, ip);
+
+  // Same response whether or not the account exists, so emails can't be probed
+  const response = {
+    success: true,
+    message: 'If an account exists for that email, a reset link has been sent',
+  };
+
+  const user = await store.findByEmail(email);
+  if (!user) {
+    console.log(`[Auth] Password reset requested for unknown email: ${maskEmail(email)}`);
+    return res.status(200).json(response);
+  }
+
+  const token = await createPasswordReset(store, user);
+  const resetUrl = `${appUrl}/auth?reset=${token}&email=${encodeURIComponent(user.email)}`;
 
-    console.log(`[Auth] Login successful: ${email}`);
-
-    // Return user data (without password)
-    return res.status(200).json({
-      success: true,
-      user: {
-        id: user.id,
-        email: user.fields.Email,
-        name: user.fields.Name,
-        role: user.fields.Role,
-      },
+  await sendPasswordResetEmail(user.email, user.name, resetUrl);
+
+  return res.status(200).json(response);
+}
+
+async function handleResetPassword(req: VercelRequest, res: VercelResponse, store: UserStore) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { email, token, newPassword } = req.body;
+
+  if (!email || !token || !newPassword) {
+    return res.status(400).json({
+      error: 'Missing required fields',
+      required: ['email', 'token', 'newPassword'],
     });
-  } catch (error: any) {
-    console.error('[Auth] Login error:', error);
-    throw error;
   }
+
+  const passwordError = validatePassword(newPassword);
+  if (passwordError) {
+    return res.status(400).json({ error: passwordError });
+  }
+
+  const ip = getClientIp(req);
+  const throttle = await checkLoginAllowed(email, ip);
+  if (!throttle.allowed) {
+    console.log(`[Auth] Password reset throttled for: ${maskEmail(email)}`);
+    return sendThrottled(res, throttle);
+  }
+
+  const user = await store.findByEmail(email);
+  if (!user || !(await resetPassword(store, user, token, newPassword))) {
+    const status = await recordLoginFailure(email, ip);
+    if (status.locked) return sendThrottled(res, status);
+    return res.status(400).json({ error: 'Reset link is invalid or has expired' });
+  }
+
+  await recordLoginSuccess(email);
+  console.log(`[Auth] Password reset for: ${email}`);
+  return res.status(200).json({ success: true });
+}
+
+async function handleMigrateUsers(req: VercelRequest, res: VercelResponse, store: UserStore) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (store.kind === 'sheets') {
+    return res.status(400).json({
+      error: 'AUTH_USER_STORE is already sheets - set it to airtable to migrate Sheet users',
+    });
+  }
+
+  const { dryRun = false } = req.body || {};
+  const result = await migrateUsers(createSheetsUserStore(), store, { dryRun });
+
+  return res.status(200).json({ success: true, ...result });
+}
+
+async function handleUnlock(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { key } = req.body;
+
+  if (!key) {
+    return res.status(400).json({ error: 'key is required' });
+  }
+
+  if (!(await clearLoginThrottle(key))) {
+    return res.status(404).json({ error: 'No lockout found', key });
+  }
+
+  console.log(`[Auth] Login lockout cleared: ${key}`);
+  return res.status(200).json({ success: true });
 }
 
 async function handleHashPassword(req: VercelRequest, res: VercelResponse) {
@@ -308,7 +400,7 @@ async function handleHashPassword(req: VercelRequest, res: VercelResponse) {
     return res.status(400).json({ error: 'password is required' });
   }
 
-  const hashedPassword = await bcrypt.hash(password, SALT_ROUNDS);
+  const hashedPassword = await hashPassword(password);
 
   return res.status(200).json({
     original: password,
@@ -316,3 +408,38 @@ async function handleHashPassword(req: VercelRequest, res: VercelResponse) {
     message: 'Use this hashed password in your Airtable Users table',
   });
 }
+
+/**
+ * Email the reset link via Resend (logged instead when RESEND_API_KEY is unset)
+ */
+async function sendPasswordResetEmail(email: string, name: string, resetUrl: string): Promise<void> {
+  const RESEND_API_KEY = process.env.RESEND_API_KEY;
+
+  if (!RESEND_API_KEY) {
+    console.warn(`[Auth] RESEND_API_KEY not configured, reset email not sent to ${maskEmail(email)}`);
+    return;
+  }
+
+  const response = await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${RESEND_API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      from: 'PropertyPro <onboarding@resend.dev>',
+      to: [email],
+      subject: 'Reset your PropertyPro password',
+      html: `
+        <p>Hi ${name || 'there'},</p>
+        <p>We received a request to reset your PropertyPro password. This link expires in 1 hour.</p>
+        <p><a href="${resetUrl}">Reset your password</a></p>
+        <p>If you didn't ask for this, you can ignore this email.</p>
+      `,
+    }),
+  });
+
+  if (!response.ok) {
+    console.error('[Auth] Failed to send reset email:', response.status, await response.text());
+  }
+}
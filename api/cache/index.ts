@@ -4,22 +4,60 @@
  *
  * Actions:
  * - action=status (GET) - Get cache status for all caches
+ * - action=check (GET/POST) - Compare each cache with its table (Vercel Cron or staff)
  * - action=get (GET) - Get cached data by cacheKey
  * - action=sync (POST) - Sync cache by cacheKey (properties, buyers, matches, or all)
+ *
+ * A cache is stale when records in its table were modified (Airtable
+ * LAST_MODIFIED_TIME) after its last sync, or were added or deleted. `check`
+ * counts those and stores them with the cache metadata; `status` (polled by
+ * the app) only reads that metadata. `sync` patches just the changed records
+ * into the cache (`full=true`, or an unreadable cache, re-downloads the table).
+ *
+ * Payloads are stored compressed and sharded by lib/cache/systemCache.ts. If a
+ * cached dataset can't be rebuilt (missing shard, bad checksum) `get` re-syncs
+ * it from the source table instead of failing.
  */
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { isCronRequest, requireSession } from '../../lib/auth/session';
+import { recordAudit } from '../../lib/audit/auditLog';
+import {
+  CACHE_TABLE,
+  listCacheMeta,
+  readCache,
+  recordCacheChanges,
+  writeCache,
+} from '../../lib/cache/systemCache';
+import type { CacheChanges, CacheMeta } from '../../lib/cache/systemCache';
+import {
+  applyRecordChanges,
+  diffRecords,
+  isEmptyDiff,
+  modifiedSinceFormula,
+} from '../../lib/cache/recordDiff';
+import type { RecordDiff } from '../../lib/cache/recordDiff';
 
 const AIRTABLE_API_KEY = process.env.AIRTABLE_API_KEY;
 const AIRTABLE_BASE_ID = process.env.AIRTABLE_BASE_ID;
 const AIRTABLE_API_URL = 'https://api.airtable.com/v0';
 
 // Table names
-const CACHE_TABLE = 'System Cache';
 const PROPERTIES_TABLE = 'Properties';
 const BUYERS_TABLE = 'Buyers';
 const MATCHES_TABLE = 'Property-Buyer Matches';
 
+type SourceCacheKey = 'properties' | 'buyers' | 'matches';
+
+const SOURCE_TABLES: Record<SourceCacheKey, string> = {
+  properties: PROPERTIES_TABLE,
+  buyers: BUYERS_TABLE,
+  matches: MATCHES_TABLE,
+};
+
+// RECORD_ID() lookups per request when fetching added records by id
+const ID_LOOKUP_BATCH = 50;
+
 const headers = {
   Authorization: `Bearer ${AIRTABLE_API_KEY}`,
   'Content-Type': 'application/json',
@@ -28,10 +66,14 @@ const headers = {
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
 
   if (req.method === 'OPTIONS') return res.status(200).end();
 
+  // Scheduled: the cache check runs from Vercel Cron without a user session
+  const isCronJob = req.query.action === 'check' && isCronRequest(req);
+  if (!isCronJob && !(await requireSession(req, res))) return;
+
   if (!AIRTABLE_API_KEY || !AIRTABLE_BASE_ID) {
     return res.status(500).json({ error: 'Airtable credentials not configured' });
   }
@@ -39,71 +81,79 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   const { action, cacheKey } = req.query;
 
   try {
-    // GET CACHE STATUS - Quick check of all caches + source counts
+    // GET CACHE STATUS - Per-table changes as of the last check (metadata only)
     if (action === 'status' && req.method === 'GET') {
-      // Fetch cache metadata (without full data)
-      const cacheRes = await fetch(
-        `${AIRTABLE_API_URL}/${AIRTABLE_BASE_ID}/${encodeURIComponent(CACHE_TABLE)}?fields[]=cache_key&fields[]=record_count&fields[]=source_count&fields[]=last_synced&fields[]=version&fields[]=is_valid`,
-        { headers }
-      );
-      const cacheData = await cacheRes.json();
-
-      // Get current counts from source tables (just counts, not full data)
-      const [propertiesCount, buyersCount, matchesCount] = await Promise.all([
-        getTableCount(PROPERTIES_TABLE),
-        getTableCount(BUYERS_TABLE),
-        getTableCount(MATCHES_TABLE),
-      ]);
-
-      // Build status response
-      const cacheRecords = cacheData.records || [];
+      const cacheRecords = await listCacheMeta();
+
+      const [properties, buyers, matches] = (Object.keys(SOURCE_TABLES) as SourceCacheKey[])
+        .map((key) => getCacheStatus(key, cacheRecords));
+      const checkedAt = cacheRecords
+        .filter((r) => r.cacheKey in SOURCE_TABLES && r.changes)
+        .map((r) => r.changes!.checkedAt)
+        .sort();
+
       const status = {
-        properties: extractCacheMetadata(cacheRecords, 'properties', propertiesCount),
-        buyers: extractCacheMetadata(cacheRecords, 'buyers', buyersCount),
-        matches: extractCacheMetadata(cacheRecords, 'matches', matchesCount),
-        lastChecked: new Date().toISOString(),
+        properties: properties.metadata,
+        buyers: buyers.metadata,
+        matches: matches.metadata,
+        changes: {
+          properties: properties.changes,
+          buyers: buyers.changes,
+          matches: matches.changes,
+        },
+        newPropertiesAvailable: properties.changes.added,
+        newBuyersAvailable: buyers.changes.added,
+        isStale: properties.changes.isStale || buyers.changes.isStale || matches.changes.isStale,
+        lastChecked: checkedAt[0] || null,
       };
 
-      // Calculate new available
-      status.newPropertiesAvailable = Math.max(0, propertiesCount - status.properties.recordCount);
-      status.newBuyersAvailable = Math.max(0, buyersCount - status.buyers.recordCount);
-      status.isStale = !status.properties.isValid || !status.buyers.isValid ||
-                       status.newPropertiesAvailable > 0 || status.newBuyersAvailable > 0;
-
       return res.status(200).json(status);
     }
 
+    // CHECK CACHES - Diff each cache against its table and store the counts for `status`
+    if (action === 'check' && (req.method === 'GET' || req.method === 'POST')) {
+      const cacheRecords = await listCacheMeta();
+      const changes: Partial<Record<SourceCacheKey, CacheChanges>> = {};
+
+      for (const key of Object.keys(SOURCE_TABLES) as SourceCacheKey[]) {
+        const meta = cacheRecords.find((r) => r.cacheKey === key);
+        const result = await checkCacheChanges(key, meta);
+        if (meta) await recordCacheChanges(key, result.sourceCount, result.changes);
+        changes[key] = result.changes;
+      }
+
+      return res.status(200).json({ checkedAt: new Date().toISOString(), changes });
+    }
+
     // GET CACHED DATA - Returns full cached dataset
     if (action === 'get' && req.method === 'GET' && cacheKey) {
-      const formula = `{cache_key}="${cacheKey}"`;
-      const cacheRes = await fetch(
-        `${AIRTABLE_API_URL}/${AIRTABLE_BASE_ID}/${encodeURIComponent(CACHE_TABLE)}?filterByFormula=${encodeURIComponent(formula)}`,
-        { headers }
-      );
-      const cacheData = await cacheRes.json();
-      const record = cacheData.records?.[0];
-
-      if (!record) {
+      // Other keys (geocodes, matching state) are passed through as stored
+      const cached = await readCache<CachedTable | Record<string, unknown>>(cacheKey as string);
+
+      if (!cached) {
         return res.status(404).json({ error: `Cache not found: ${cacheKey}` });
       }
 
-      // Parse the JSON data field
-      let parsedData = { records: [] };
-      try {
-        parsedData = JSON.parse(record.fields.data || '{"records":[]}');
-      } catch (e) {
-        console.error('Failed to parse cache data:', e);
+      let { meta, data } = cached;
+
+      // A shard went missing or the checksum failed - rebuild from the source table
+      if (data === null) {
+        if (!(cacheKey as string in SOURCE_TABLES)) {
+          return res.status(500).json({ error: `Cache unreadable: ${cacheKey}`, details: cached.error });
+        }
+        console.warn(`[Cache] Rebuilding ${cacheKey} after unreadable cache: ${cached.error}`);
+        ({ meta, data } = await syncCache(cacheKey as SourceCacheKey, true));
       }
 
       return res.status(200).json({
-        cacheKey: record.fields.cache_key,
-        data: parsedData,
-        recordCount: record.fields.record_count || 0,
-        sourceCount: record.fields.source_count || 0,
-        lastSynced: record.fields.last_synced || null,
-        version: record.fields.version || 1,
-        isValid: record.fields.is_valid || false,
-        airtableRecordId: record.id,
+        cacheKey: meta.cacheKey,
+        data,
+        recordCount: meta.recordCount,
+        sourceCount: meta.sourceCount,
+        lastSynced: meta.lastSynced,
+        version: meta.version,
+        isValid: meta.isValid,
+        airtableRecordId: meta.recordId,
       });
     }
 
@@ -115,19 +165,35 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         return res.status(400).json({ error: 'Invalid cacheKey. Use: properties, buyers, matches, or all' });
       }
 
-      const results: Record<string, any> = {};
+      // Record counts before the sync, for the audit trail
+      const beforeRecords = await listCacheMeta().catch((): CacheMeta[] => []);
 
-      if (cacheKey === 'properties' || cacheKey === 'all') {
-        results.properties = await syncProperties();
-      }
+      const full = req.query.full === 'true';
+      const keys = cacheKey === 'all' ? (Object.keys(SOURCE_TABLES) as SourceCacheKey[]) : [cacheKey as SourceCacheKey];
+      const results: Record<string, SyncOutcome['result']> = {};
 
-      if (cacheKey === 'buyers' || cacheKey === 'all') {
-        results.buyers = await syncBuyers();
+      for (const key of keys) {
+        results[key] = (await syncCache(key, full)).result;
       }
 
-      if (cacheKey === 'matches' || cacheKey === 'all') {
-        results.matches = await syncMatches();
-      }
+      const syncedKeys = Object.keys(results);
+      await recordAudit(req, {
+        action: 'cache.synced',
+        source: 'cache',
+        targetType: CACHE_TABLE,
+        targetId: cacheKey as string,
+        before: Object.fromEntries(syncedKeys.map((key) => [
+          key,
+          beforeRecords.find((r) => r.cacheKey === key)?.recordCount ?? null,
+        ])),
+        after: Object.fromEntries(syncedKeys.map((key) => [key, results[key].recordCount])),
+        details: syncedKeys
+          .map((key) => {
+            const { mode, added, changed, removed } = results[key];
+            return mode === 'full' ? `${key}: full` : `${key}: +${added} ~${changed} -${removed}`;
+          })
+          .join(', '),
+      });
 
       return res.status(200).json({
         success: true,
@@ -144,37 +210,79 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 }
 
-async function getTableCount(tableName: string): Promise<number> {
+async function listRecordIds(tableName: string): Promise<string[]> {
   // Airtable doesn't have a direct count endpoint, so we fetch with minimal fields
-  // and use pagination to count. For better performance, consider storing counts separately.
-  let count = 0;
-  let offset: string | undefined;
-
-  do {
-    const url = new URL(`${AIRTABLE_API_URL}/${AIRTABLE_BASE_ID}/${encodeURIComponent(tableName)}`);
-    url.searchParams.set('pageSize', '100');
-    url.searchParams.set('fields[]', 'Created'); // Minimal field
-    if (offset) url.searchParams.set('offset', offset);
+  const records = await fetchAllRecords(tableName, ['Created']);
+  return records.map((r) => r.id);
+}
 
-    const response = await fetch(url.toString(), { headers });
-    const data = await response.json();
+function extractCacheMetadata(records: CacheMeta[], key: string) {
+  const record = records.find(r => r.cacheKey === key);
+  return {
+    cacheKey: key,
+    recordCount: record?.recordCount || 0,
+    sourceCount: record?.sourceCount || 0,
+    lastSynced: record?.lastSynced || null,
+    version: record?.version || 1,
+    isValid: record?.isValid || false,
+  };
+}
 
-    count += (data.records || []).length;
-    offset = data.offset;
-  } while (offset);
+/**
+ * A cache's metadata and its changes as of the last check
+ * A cache with no check since its last write counts as unchanged.
+ */
+function getCacheStatus(key: SourceCacheKey, cacheRecords: CacheMeta[]) {
+  const meta = cacheRecords.find((r) => r.cacheKey === key);
+  const changes = meta?.changes;
+  const added = changes?.added || 0;
+  const changed = changes?.changed || 0;
+  const removed = changes?.removed || 0;
 
-  return count;
+  return {
+    metadata: extractCacheMetadata(cacheRecords, key),
+    changes: {
+      added,
+      changed,
+      removed,
+      isStale: !meta?.isValid || added + changed + removed > 0,
+    },
+  };
 }
 
-function extractCacheMetadata(records: any[], key: string, sourceCount: number) {
-  const record = records.find(r => r.fields.cache_key === key);
+/**
+ * Count what changed in a table since its cache was synced
+ * Records created after the sync are added, older ones modified since it are
+ * changed, and removed is the cached count the table no longer accounts for.
+ */
+async function checkCacheChanges(
+  key: SourceCacheKey,
+  meta: CacheMeta | undefined
+): Promise<{ sourceCount: number; changes: CacheChanges }> {
+  const table = SOURCE_TABLES[key];
+  const lastSynced = meta?.lastSynced;
+  const checkedAt = new Date().toISOString();
+
+  const [current, modified] = await Promise.all([
+    fetchAllRecords(table, ['Created']),
+    lastSynced ? fetchAllRecords(table, ['Created'], modifiedSinceFormula(lastSynced)) : Promise.resolve([]),
+  ]);
+  if (!meta || !lastSynced) {
+    return { sourceCount: current.length, changes: { added: current.length, changed: 0, removed: 0, checkedAt } };
+  }
+
+  const syncedAt = new Date(lastSynced).getTime();
+  const isNew = (record: SourceRecord) => !!record.createdTime && new Date(record.createdTime).getTime() > syncedAt;
+  const added = current.filter(isNew).length;
+
   return {
-    cacheKey: key,
-    recordCount: record?.fields.record_count || 0,
-    sourceCount: sourceCount,
-    lastSynced: record?.fields.last_synced || null,
-    version: record?.fields.version || 1,
-    isValid: record?.fields.is_valid || false,
+    sourceCount: current.length,
+    changes: {
+      added,
+      changed: modified.filter((record) => !isNew(record)).length,
+      removed: Math.max(0, meta.recordCount + added - current.length),
+      checkedAt,
+    },
   };
 }
 
@@ -182,7 +290,7 @@ function extractCacheMetadata(records: any[], key: string, sourceCount: number)
 // SYNC FUNCTIONS (merged from sync.ts)
 // ============================================================================
 
-async function fetchAllRecords(tableName: string, fields?: string[]): Promise<any[]> {
+async function fetchAllRecords(tableName: string, fields?: string[], filterByFormula?: string): Promise<any[]> {
   const allRecords: any[] = [];
   let offset: string | undefined;
 
@@ -192,9 +300,13 @@ async function fetchAllRecords(tableName: string, fields?: string[]): Promise<an
     if (fields) {
       fields.forEach(f => url.searchParams.append('fields[]', f));
     }
+    if (filterByFormula) url.searchParams.set('filterByFormula', filterByFormula);
     if (offset) url.searchParams.set('offset', offset);
 
     const response = await fetch(url.toString(), { headers });
+    if (!response.ok) {
+      throw new Error(`Failed to read ${tableName}: ${response.status} ${(await response.text()).slice(0, 200)}`);
+    }
     const data = await response.json();
 
     allRecords.push(...(data.records || []));
@@ -204,123 +316,55 @@ async function fetchAllRecords(tableName: string, fields?: string[]): Promise<an
   return allRecords;
 }
 
-async function updateCache(cacheKey: string, data: any, recordCount: number): Promise<void> {
-  // First, try to find existing cache record
-  const formula = `{cache_key}="${cacheKey}"`;
-  const findRes = await fetch(
-    `${AIRTABLE_API_URL}/${AIRTABLE_BASE_ID}/${encodeURIComponent(CACHE_TABLE)}?filterByFormula=${encodeURIComponent(formula)}&fields[]=cache_key`,
-    { headers }
-  );
-  const findData = await findRes.json();
-  const recordId = findData.records?.[0]?.id;
-
-  const jsonData = JSON.stringify(data);
-  const dataSize = jsonData.length;
-  console.log(`[Sync] Cache data size for ${cacheKey}: ${dataSize} characters (${(dataSize / 1024).toFixed(2)} KB)`);
-
-  if (dataSize > 100000) {
-    console.warn(`[Sync] WARNING: Cache data for ${cacheKey} exceeds Airtable's 100KB limit! Size: ${dataSize}`);
-  }
-
-  const cacheFields = {
-    cache_key: cacheKey,
-    data: jsonData,
-    record_count: recordCount,
-    source_count: recordCount,
-    last_synced: new Date().toISOString(),
-    is_valid: true,
-    version: 1,
-  };
-
-  if (recordId) {
-    // Update existing record
-    console.log(`[Sync] Updating existing cache record for ${cacheKey} (recordId: ${recordId})`);
-    const updateRes = await fetch(
-      `${AIRTABLE_API_URL}/${AIRTABLE_BASE_ID}/${encodeURIComponent(CACHE_TABLE)}/${recordId}`,
-      {
-        method: 'PATCH',
-        headers,
-        body: JSON.stringify({
-          fields: cacheFields,
-        }),
-      }
-    );
-
-    if (!updateRes.ok) {
-      const errorText = await updateRes.text();
-      console.error(`[Sync] Failed to update cache for ${cacheKey}:`, errorText);
-      throw new Error(`Failed to update cache: ${errorText}`);
-    }
-
-    const result = await updateRes.json();
-    console.log(`[Sync] Successfully updated cache for ${cacheKey}. Record ID: ${result.id}`);
-  } else {
-    // Create new record
-    console.log(`[Sync] Creating new cache record for ${cacheKey}`);
-    const createRes = await fetch(
-      `${AIRTABLE_API_URL}/${AIRTABLE_BASE_ID}/${encodeURIComponent(CACHE_TABLE)}`,
-      {
-        method: 'POST',
-        headers,
-        body: JSON.stringify({
-          fields: cacheFields,
-        }),
-      }
-    );
-
-    if (!createRes.ok) {
-      const errorText = await createRes.text();
-      console.error(`[Sync] Failed to create cache for ${cacheKey}:`, errorText);
-      throw new Error(`Failed to create cache: ${errorText}`);
-    }
-
-    const result = await createRes.json();
-    console.log(`[Sync] Successfully created cache for ${cacheKey}. Record ID: ${result.id}`);
+async function fetchRecordsById(tableName: string, ids: string[]): Promise<SourceRecord[]> {
+  const records: SourceRecord[] = [];
+  for (let i = 0; i < ids.length; i += ID_LOOKUP_BATCH) {
+    const formula = `OR(${ids.slice(i, i + ID_LOOKUP_BATCH).map((id) => `RECORD_ID()='${id}'`).join(',')})`;
+    records.push(...(await fetchAllRecords(tableName, undefined, formula)));
   }
+  return records;
 }
 
-async function syncProperties() {
-  console.log('Syncing properties cache...');
-
-  const records = await fetchAllRecords(PROPERTIES_TABLE);
-
-  // Store the full Airtable record structure with 'fields' property
-  const cacheData = {
-    records: records,
-  };
-
-  await updateCache('properties', cacheData, records.length);
-
-  return { recordCount: records.length };
+interface SourceRecord {
+  id: string;
+  createdTime?: string;
+  fields: Record<string, unknown>;
 }
 
-async function syncBuyers() {
-  console.log('Syncing buyers cache...');
-
-  const records = await fetchAllRecords(BUYERS_TABLE);
+/**
+ * Cached payload for a source table; matches also carry buyer/property indexes
+ */
+interface CachedTable {
+  records: SourceRecord[];
+  buyerIndex?: Record<string, string[]>;    // Buyer record ID → match IDs
+  propertyIndex?: Record<string, string[]>; // Property record ID → match IDs
+}
 
-  // Store the full Airtable record structure with 'fields' property
-  const cacheData = {
-    records: records,
+interface SyncOutcome {
+  result: {
+    recordCount: number;
+    mode: 'full' | 'incremental' | 'unchanged';
+    added: number;
+    changed: number;
+    removed: number;
   };
-
-  await updateCache('buyers', cacheData, records.length);
-
-  return { recordCount: records.length };
+  meta: CacheMeta;
+  data: CachedTable;
 }
 
-async function syncMatches() {
-  console.log('Syncing matches cache...');
-
-  const records = await fetchAllRecords(MATCHES_TABLE);
+function buildCacheData(key: SourceCacheKey, records: SourceRecord[]): CachedTable {
+  if (key !== 'matches') {
+    // Store the full Airtable record structure with 'fields' property
+    return { records };
+  }
 
   // Build indexes for fast lookup
   const buyerIndex: Record<string, string[]> = {};
   const propertyIndex: Record<string, string[]> = {};
 
   records.forEach(r => {
-    const buyerRecordId = r.fields['Contact ID']?.[0] || '';
-    const propertyRecordId = r.fields['Property Code']?.[0] || '';
+    const buyerRecordId = (r.fields['Contact ID'] as string[] | undefined)?.[0] || '';
+    const propertyRecordId = (r.fields['Property Code'] as string[] | undefined)?.[0] || '';
 
     // Build buyer index
     if (buyerRecordId) {
@@ -335,14 +379,61 @@ async function syncMatches() {
     }
   });
 
-  // Store the full Airtable record structure with 'fields' property
-  const cacheData = {
-    records: records,
-    buyerIndex,
-    propertyIndex,
-  };
+  return { records, buyerIndex, propertyIndex };
+}
+
+/**
+ * Bring a cache up to date with its table
+ * Applies only the added, changed and removed records when the cache is
+ * readable; otherwise (or with `full`) reloads the whole table.
+ */
+async function syncCache(key: SourceCacheKey, full = false): Promise<SyncOutcome> {
+  const table = SOURCE_TABLES[key];
+  const syncedAt = new Date().toISOString();
+  const cached = full ? null : await readCache<CachedTable>(key);
+  const lastSynced = cached?.meta.lastSynced;
+
+  if (!cached?.data?.records || !lastSynced) {
+    console.log(`[Sync] Full sync of ${key} cache...`);
+    const records = await fetchAllRecords(table);
+    const data = buildCacheData(key, records);
+    const meta = await writeCache(key, data, records.length, { syncedAt });
+    console.log(`[Sync] Cache ${key} saved as version ${meta.version} (${meta.shards || 'no'} shards)`);
+    return {
+      result: { recordCount: records.length, mode: 'full', added: records.length, changed: 0, removed: 0 },
+      meta,
+      data,
+    };
+  }
 
-  await updateCache('matches', cacheData, records.length);
+  const [currentIds, modified] = await Promise.all([
+    listRecordIds(table),
+    fetchAllRecords(table, undefined, modifiedSinceFormula(lastSynced)),
+  ]);
+  const diff: RecordDiff = diffRecords(cached.data.records.map((r) => r.id), currentIds, modified.map((r) => r.id));
+  const counts = { added: diff.added.length, changed: diff.changed.length, removed: diff.removed.length };
+
+  if (isEmptyDiff(diff) && cached.meta.isValid) {
+    console.log(`[Sync] Cache ${key} is up to date`);
+    return {
+      result: { recordCount: cached.data.records.length, mode: 'unchanged', ...counts },
+      meta: cached.meta,
+      data: cached.data,
+    };
+  }
+
+  // Added records created before the last sync (e.g. missed by it) aren't in `modified`
+  const modifiedIds = new Set(modified.map((r) => r.id));
+  const missing = diff.added.filter((id) => !modifiedIds.has(id));
+  const updates = [...modified, ...(await fetchRecordsById(table, missing))];
+
+  const records = applyRecordChanges(cached.data.records, updates, currentIds);
+  const data = buildCacheData(key, records);
+  const meta = await writeCache(key, data, records.length, { syncedAt });
+  console.log(
+    `[Sync] Cache ${key} patched: +${counts.added} ~${counts.changed} -${counts.removed} ` +
+    `(version ${meta.version}, ${meta.shards || 'no'} shards)`
+  );
 
-  return { recordCount: records.length };
+  return { result: { recordCount: records.length, mode: 'incremental', ...counts }, meta, data };
 }
@@ -14,6 +14,9 @@
  */
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { ADMIN_ROLE, requireSession } from '../../lib/auth/session';
+import { diffFields, recordAudit } from '../../lib/audit/auditLog';
+import { DEFAULT_BUY_BOXES } from '../../src/types/calculator';
 
 const AIRTABLE_API_KEY = process.env.AIRTABLE_API_KEY;
 const AIRTABLE_BASE_ID = process.env.AIRTABLE_BASE_ID;
@@ -61,12 +64,20 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   // CORS headers
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
 
   if (req.method === 'OPTIONS') {
     return res.status(200).end();
   }
 
+  const { action } = req.query;
+
+  // Calculator defaults apply to every user, so only admins may change them
+  const session = await requireSession(req, res, {
+    roles: action === 'update-defaults' ? [ADMIN_ROLE] : undefined,
+  });
+  if (!session) return;
+
   if (!AIRTABLE_API_KEY || !AIRTABLE_BASE_ID) {
     return res.status(500).json({
       error: 'Airtable credentials not configured',
@@ -79,8 +90,6 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     'Content-Type': 'application/json',
   };
 
-  const { action } = req.query;
-
   try {
     switch (action) {
       case 'list':
@@ -287,6 +296,15 @@ async function handleCreate(
 
   const record = await response.json();
 
+  await recordAudit(req, {
+    action: 'calculation.created',
+    source: 'calculator',
+    targetType: CALCULATIONS_TABLE,
+    targetId: record.id,
+    targetLabel: String(fields['Name']),
+    after: inputs,
+  });
+
   return res.status(201).json({
     success: true,
     calculation: recordToCalculation(record),
@@ -324,6 +342,11 @@ async function handleUpdate(
   if (notes !== undefined) fields['Notes'] = notes;
 
   const url = `${AIRTABLE_API_URL}/${AIRTABLE_BASE_ID}/${encodeURIComponent(CALCULATIONS_TABLE)}/${recordId}`;
+
+  // Current values, for the audit entry's before/after
+  const beforeResponse = await fetchWithRetry(url, { headers });
+  const before = beforeResponse.ok ? recordToCalculation(await beforeResponse.json()) : null;
+
   const response = await fetchWithRetry(url, {
     method: 'PATCH',
     headers,
@@ -341,6 +364,27 @@ async function handleUpdate(
 
   const record = await response.json();
 
+  // Outputs are derived from inputs, so only inputs, name and notes are compared
+  const changes = diffFields(
+    { name: before?.name, notes: before?.notes, ...(before?.inputs as Record<string, unknown>) },
+    {
+      ...(name !== undefined && { name }),
+      ...(notes !== undefined && { notes }),
+      ...(inputs || {}),
+    }
+  );
+  if (Object.keys(changes.after).length > 0) {
+    await recordAudit(req, {
+      action: 'calculation.updated',
+      source: 'calculator',
+      targetType: CALCULATIONS_TABLE,
+      targetId: recordId as string,
+      targetLabel: String(record.fields?.['Name'] || ''),
+      before: changes.before,
+      after: changes.after,
+    });
+  }
+
   return res.status(200).json({
     success: true,
     calculation: recordToCalculation(record),
@@ -362,6 +406,11 @@ async function handleDelete(
   }
 
   const url = `${AIRTABLE_API_URL}/${AIRTABLE_BASE_ID}/${encodeURIComponent(CALCULATIONS_TABLE)}/${recordId}`;
+
+  // Keep what was deleted in the audit trail
+  const beforeResponse = await fetchWithRetry(url, { headers });
+  const before = beforeResponse.ok ? recordToCalculation(await beforeResponse.json()) : null;
+
   const response = await fetchWithRetry(url, {
     method: 'DELETE',
     headers,
@@ -376,6 +425,15 @@ async function handleDelete(
     });
   }
 
+  await recordAudit(req, {
+    action: 'calculation.deleted',
+    source: 'calculator',
+    targetType: CALCULATIONS_TABLE,
+    targetId: recordId as string,
+    targetLabel: before ? String(before.name) : undefined,
+    before,
+  });
+
   return res.status(200).json({
     success: true,
     deletedId: recordId,
@@ -403,6 +461,7 @@ const SYSTEM_DEFAULTS = {
   appraisalCost: 500,
   llcCost: 200,
   servicingFee: 100,
+  buyBoxes: DEFAULT_BUY_BOXES,
 };
 
 /**
@@ -493,6 +552,19 @@ async function handleUpdateDefaults(
       });
     }
 
+    const previousDefaults = listData.records?.[0]
+      ? parseJSON(listData.records[0].fields['Defaults'], {}) as Record<string, unknown>
+      : {};
+    const changes = diffFields({ ...SYSTEM_DEFAULTS, ...previousDefaults }, newDefaults || {});
+    await recordAudit(req, {
+      action: 'calculator.defaults-updated',
+      source: 'calculator',
+      targetType: DEFAULTS_TABLE,
+      targetId: listData.records?.[0]?.id,
+      before: changes.before,
+      after: changes.after,
+    });
+
     return res.status(200).json({
       success: true,
       defaults: newDefaults,
@@ -14,14 +14,67 @@
  * - custom-fields: Location custom fields
  * - custom-values: Location custom values
  * - tags: Location tags management
- * - calendars: Calendar management (calendars, groups, events, resources)
+ * - calendars: Calendar management (calendars, groups, events, resources),
+ *   deal showings and their buyer reminders
  * - forms: Forms listing
  * - documents: Document templates and contracts
- * - messages: Email/SMS messaging
+ * - messages: Email/SMS messaging (opt-out, quiet hours and daily cap checks),
+ *   server-side bulk email jobs, inbound buyer reply webhook
  * - ai-caption: AI-powered caption generation
  */
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import {
+  isCronRequest,
+  isWebhookRequest,
+  peekSession,
+  requireSession,
+  signSessionToken,
+  SESSION_TTL_LONG_MS,
+  SESSION_TTL_SHORT_MS,
+} from '../../lib/auth/session';
+import { getUserStore } from '../../lib/auth/userStore';
+import { toSessionUser } from '../../lib/auth/passwords';
+import { attemptLogin, getClientIp, sendThrottled } from '../../lib/auth/loginThrottle';
+import { diffFields, getAuditActor, recordAudit } from '../../lib/audit/auditLog';
+import {
+  createShowing,
+  dueReminders,
+  getShowing,
+  listShowings,
+  sendShowingReminder,
+  showingEndTime,
+  syncShowingAppointment,
+  updateShowing,
+  DEFAULT_SHOWING_MINUTES,
+  type Showing,
+  type ShowingStatus,
+} from '../../lib/deals/showings';
+import {
+  attachReplyToMatches,
+  findContactIdByPhone,
+  optOutContactSms,
+  parseInboundMessage,
+  parseReplyIntent,
+} from '../../lib/deals/replies';
+import { AUTOMATION_ACTOR, loadAutomationRules, runAutomationEvent, type AutomationResult } from '../../lib/deals/automation';
+import {
+  checkContactConsent,
+  checkMessageConsent,
+  consentChannel,
+  MESSAGE_BLOCKED_ACTION,
+  MESSAGE_SENT_ACTION,
+  type ConsentDecision,
+} from '../../lib/messaging/consent';
+import {
+  cancelSendJob,
+  createSendJob,
+  getSendJob,
+  listSendJobs,
+  processSendJobs,
+  sendJobError,
+  type SendJobRecipient,
+} from '../../lib/messaging/sendQueue';
 
 const GHL_API_URL = 'https://services.leadconnectorhq.com';
 const GHL_API_KEY = process.env.GHL_API_KEY;
@@ -40,9 +93,9 @@ const SELLER_ACQUISITION_PIPELINE_ID = process.env.GHL_SELLER_ACQUISITION_PIPELI
 const BUYER_ACQUISITION_PIPELINE_ID = process.env.GHL_BUYER_ACQUISITION_PIPELINE_ID || 'FRw9XPyTSnPv8ct0cWcm';
 const DEAL_ACQUISITION_PIPELINE_ID = process.env.GHL_DEAL_ACQUISITION_PIPELINE_ID || '2NeLTlKaeMyWOnLXdTCS';
 
-// Google Sheets Auth Configuration
-const GOOGLE_SHEET_ID = process.env.GOOGLE_SHEET_ID;
-const GOOGLE_SHEET_CREDENTIALS = process.env.GOOGLE_SHEET_CREDENTIALS;
+// Bulk send processing budgets (the function's maxDuration is 60s)
+const BULK_CRON_BUDGET_MS = 45 * 1000;
+const BULK_DIALOG_BUDGET_MS = 15 * 1000;
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
@@ -65,6 +118,20 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(200).end();
   }
 
+  // Public: form submissions from the /listings page and the login itself
+  const isPublicRequest =
+    (req.query.resource === 'forms' && req.query.action === 'submit' && req.method === 'POST') ||
+    (req.query.resource === 'auth' && req.query.action === 'login');
+  // Scheduled: showing reminders and bulk send jobs run from Vercel Cron without a user session
+  const isCronJob =
+    ((req.query.resource === 'calendars' && req.query.action === 'showing-reminders') ||
+      (req.query.resource === 'messages' && req.query.action === 'bulk-process')) &&
+    isCronRequest(req);
+  // Webhook: GHL posts inbound buyer messages with the shared webhook secret
+  const isWebhook =
+    req.query.resource === 'messages' && req.query.action === 'inbound' && isWebhookRequest(req);
+  if (!isPublicRequest && !isCronJob && !isWebhook && !(await requireSession(req, res))) return;
+
   console.log('[GHL API] Environment check:', {
     GHL_API_KEY_exists: !!GHL_API_KEY,
     GHL_API_KEY_length: GHL_API_KEY?.length,
@@ -76,7 +143,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     GHL_LOCATION_ID_exists: !!GHL_LOCATION_ID,
     GHL_LOCATION_ID: GHL_LOCATION_ID,
     OPENAI_API_KEY_exists: !!OPENAI_API_KEY,
-    GOOGLE_SHEET_ID_exists: !!GOOGLE_SHEET_ID,
+    GOOGLE_SHEET_ID_exists: !!process.env.GOOGLE_SHEET_ID,
     SELLER_PIPELINE: SELLER_ACQUISITION_PIPELINE_ID,
     BUYER_PIPELINE: BUYER_ACQUISITION_PIPELINE_ID,
     DEAL_PIPELINE: DEAL_ACQUISITION_PIPELINE_ID
@@ -305,6 +372,15 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           const data = await response.json();
           if (!response.ok) {
             console.error('[CONTACTS] ❌ Create failed:', data);
+          } else {
+            await recordAudit(req, {
+              action: 'contact.created',
+              source: 'ghl',
+              targetType: 'contact',
+              targetId: data.contact?.id,
+              targetLabel: contactLabel(data.contact),
+              after: body,
+            });
           }
           
           return res.status(response.ok ? 201 : response.status).json(data);
@@ -317,6 +393,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       if (method === 'PUT' && id) {
         console.log('[CONTACTS] PUT - Updating contact:', id);
         try {
+          // Current values, for the audit entry's before/after
+          const beforeResponse = await fetch(`${GHL_API_URL}/contacts/${id}`, { headers });
+          const beforeContact = beforeResponse.ok ? (await beforeResponse.json()).contact || {} : {};
+
           const response = await fetch(`${GHL_API_URL}/contacts/${id}`, {
             method: 'PUT', headers, body: JSON.stringify(body)
           });
@@ -325,6 +405,17 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           const data = await response.json();
           if (!response.ok) {
             console.error('[CONTACTS] ❌ Update failed:', data);
+          } else {
+            const changes = diffFields(beforeContact, body || {});
+            await recordAudit(req, {
+              action: 'contact.updated',
+              source: 'ghl',
+              targetType: 'contact',
+              targetId: id,
+              targetLabel: contactLabel(data.contact || beforeContact),
+              before: changes.before,
+              after: changes.after,
+            });
           }
           
           return res.status(response.ok ? 200 : response.status).json(data);
@@ -337,12 +428,25 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       if (method === 'DELETE' && id) {
         console.log('[CONTACTS] DELETE - Deleting contact:', id);
         try {
+          // Keep what was deleted in the audit trail
+          const beforeResponse = await fetch(`${GHL_API_URL}/contacts/${id}`, { headers });
+          const beforeContact = beforeResponse.ok ? (await beforeResponse.json()).contact : undefined;
+
           const response = await fetch(`${GHL_API_URL}/contacts/${id}`, { method: 'DELETE', headers });
           console.log('[CONTACTS] Delete response:', response.status);
           
           if (!response.ok) {
             const error = await response.text();
             console.error('[CONTACTS] ❌ Delete failed:', error);
+          } else {
+            await recordAudit(req, {
+              action: 'contact.deleted',
+              source: 'ghl',
+              targetType: 'contact',
+              targetId: id,
+              targetLabel: contactLabel(beforeContact),
+              before: beforeContact,
+            });
           }
           
           return res.status(response.ok ? 204 : response.status).end();
@@ -507,7 +611,18 @@ if (resource === 'opportunities') {
         const response = await fetch(`${GHL_API_URL}/opportunities`, {
           method: 'POST', headers, body: JSON.stringify(payload)
         });
-        return res.status(response.ok ? 201 : response.status).json(await response.json());
+        const data = await response.json();
+        if (response.ok) {
+          await recordAudit(req, {
+            action: 'opportunity.created',
+            source: 'ghl',
+            targetType: 'opportunity',
+            targetId: data.opportunity?.id,
+            targetLabel: data.opportunity?.name || body?.name,
+            after: body,
+          });
+        }
+        return res.status(response.ok ? 201 : response.status).json(data);
       }
       
       if (method === 'PUT' && id) {
@@ -524,14 +639,45 @@ if (resource === 'opportunities') {
           };
         }
         
+        // Current values, for the audit entry's before/after
+        const beforeResponse = await fetch(`${GHL_API_URL}/opportunities/${id}`, { headers });
+        const beforeOpportunity = beforeResponse.ok ? (await beforeResponse.json()).opportunity || {} : {};
+
         const response = await fetch(`${GHL_API_URL}/opportunities/${id}`, {
           method: 'PUT', headers, body: JSON.stringify(payload)
         });
-        return res.status(response.ok ? 200 : response.status).json(await response.json());
+        const data = await response.json();
+        if (response.ok) {
+          const changes = diffFields(beforeOpportunity, payload || {});
+          await recordAudit(req, {
+            action: 'pipelineStageId' in changes.after ? 'opportunity.stage-changed' : 'opportunity.updated',
+            source: 'ghl',
+            targetType: 'opportunity',
+            targetId: id,
+            targetLabel: data.opportunity?.name || beforeOpportunity.name,
+            before: changes.before,
+            after: changes.after,
+          });
+        }
+        return res.status(response.ok ? 200 : response.status).json(data);
       }
       
       if (method === 'DELETE' && id) {
+        // Keep what was deleted in the audit trail
+        const beforeResponse = await fetch(`${GHL_API_URL}/opportunities/${id}`, { headers });
+        const beforeOpportunity = beforeResponse.ok ? (await beforeResponse.json()).opportunity : undefined;
+
         const response = await fetch(`${GHL_API_URL}/opportunities/${id}`, { method: 'DELETE', headers });
+        if (response.ok) {
+          await recordAudit(req, {
+            action: 'opportunity.deleted',
+            source: 'ghl',
+            targetType: 'opportunity',
+            targetId: id,
+            targetLabel: beforeOpportunity?.name,
+            before: beforeOpportunity,
+          });
+        }
         return res.status(response.ok ? 204 : response.status).end();
       }
     }
@@ -757,6 +903,170 @@ if (resource === 'opportunities') {
         }
       }
       
+      // Deal Showings - stored in Airtable, mirrored as GHL appointments
+      if (action === 'showings') {
+        const calendarId = (body?.calendarId as string) || process.env.GHL_SHOWING_CALENDAR_ID;
+
+        // Keep the GHL appointment in step; a sync failure never loses the showing
+        const syncAppointment = async (showing: Showing) => {
+          if (!showing.appointmentId && !calendarId) {
+            return { showing, calendarSynced: false, calendarError: 'No showing calendar configured (GHL_SHOWING_CALENDAR_ID)' };
+          }
+          try {
+            const appointmentId = await syncShowingAppointment(showing, calendarId || '');
+            const synced = appointmentId && appointmentId !== showing.appointmentId
+              ? await updateShowing(showing.id, { 'Appointment ID': appointmentId })
+              : showing;
+            return { showing: synced, calendarSynced: true };
+          } catch (error) {
+            console.error('[CALENDARS] Showing appointment sync failed:', error);
+            return { showing, calendarSynced: false, calendarError: error instanceof Error ? error.message : 'Sync failed' };
+          }
+        };
+
+        if (method === 'GET') {
+          const showings = await listShowings({
+            dealId: query.dealId as string | undefined,
+            status: query.status as ShowingStatus | undefined,
+            from: query.from as string | undefined,
+          });
+          return res.status(200).json({ showings });
+        }
+
+        if (method === 'POST') {
+          const { dealId, contactId, buyerName, propertyAddress, startTime } = body || {};
+          if (!dealId || !contactId || !propertyAddress || !startTime) {
+            return res.status(400).json({ error: 'dealId, contactId, propertyAddress and startTime are required' });
+          }
+          if (Number.isNaN(new Date(startTime).getTime())) {
+            return res.status(400).json({ error: 'startTime must be an ISO date' });
+          }
+
+          const created = await createShowing({
+            dealId,
+            contactId,
+            buyerName: buyerName || '',
+            propertyCode: body.propertyCode,
+            propertyAddress,
+            startTime,
+            durationMinutes: Number(body.durationMinutes) || DEFAULT_SHOWING_MINUTES,
+            agentName: body.agentName,
+            agentUserId: body.agentUserId,
+            accessNotes: body.accessNotes,
+          }, peekSession(req)?.name);
+          const result = await syncAppointment(created);
+
+          await recordAudit(req, {
+            action: 'showing.scheduled',
+            source: 'ghl',
+            targetType: 'showing',
+            targetId: created.id,
+            targetLabel: `${propertyAddress} - ${buyerName || contactId}`,
+            after: { startTime: created.startTime, agentName: created.agentName, dealId },
+          });
+
+          return res.status(201).json(result);
+        }
+
+        if (method === 'PUT' && id) {
+          const existing = await getShowing(id);
+          if (!existing) {
+            return res.status(404).json({ error: 'Showing not found' });
+          }
+
+          const fields: Record<string, unknown> = {};
+          if (body.startTime) {
+            if (Number.isNaN(new Date(body.startTime).getTime())) {
+              return res.status(400).json({ error: 'startTime must be an ISO date' });
+            }
+            const minutes = Number(body.durationMinutes) ||
+              Math.round((new Date(existing.endTime).getTime() - new Date(existing.startTime).getTime()) / 60000) ||
+              DEFAULT_SHOWING_MINUTES;
+            fields['Start Time'] = new Date(body.startTime).toISOString();
+            fields['End Time'] = showingEndTime(body.startTime, minutes);
+            // A rescheduled showing gets its reminders again
+            if (fields['Start Time'] !== existing.startTime) fields['Reminders Sent'] = '[]';
+          }
+          if (body.agentName !== undefined) fields['Agent Name'] = body.agentName;
+          if (body.agentUserId !== undefined) fields['Agent User ID'] = body.agentUserId;
+          if (body.accessNotes !== undefined) fields['Access Notes'] = body.accessNotes;
+          if (body.status) fields['Status'] = body.status;
+
+          const updated = await updateShowing(id, fields);
+          const timeOrStatusChanged =
+            updated.startTime !== existing.startTime ||
+            updated.status !== existing.status ||
+            updated.agentUserId !== existing.agentUserId;
+          const result = timeOrStatusChanged && (updated.appointmentId || updated.status === 'scheduled')
+            ? await syncAppointment(updated)
+            : { showing: updated, calendarSynced: !!updated.appointmentId };
+
+          await recordAudit(req, {
+            action: updated.status === 'cancelled' && existing.status !== 'cancelled'
+              ? 'showing.cancelled'
+              : updated.startTime !== existing.startTime ? 'showing.rescheduled' : 'showing.updated',
+            source: 'ghl',
+            targetType: 'showing',
+            targetId: id,
+            targetLabel: `${existing.propertyAddress} - ${existing.buyerName || existing.contactId}`,
+            ...diffFields(auditedShowingFields(existing), auditedShowingFields(updated)),
+          });
+
+          return res.status(200).json(result);
+        }
+      }
+
+      // Showing reminders - run by Vercel Cron, or on demand by staff
+      if (action === 'showing-reminders' && (method === 'GET' || method === 'POST')) {
+        const now = new Date();
+        const showings = await listShowings({ status: 'scheduled', from: now.toISOString() });
+        const results: Array<{
+          showingId: string;
+          reminder: string;
+          channels?: string[];
+          skipped?: string[];
+          error?: string;
+        }> = [];
+        const actor = getAuditActor(req);
+
+        for (const showing of showings) {
+          const due = dueReminders(showing, now);
+          if (due.length === 0) continue;
+
+          // Only the most imminent reminder is sent; earlier ones it supersedes are marked done
+          const reminder = due[due.length - 1];
+          try {
+            const { channels, skipped } = await sendShowingReminder(showing, reminder, actor);
+            await updateShowing(showing.id, {
+              'Reminders Sent': JSON.stringify([...showing.remindersSent, ...due]),
+            });
+            results.push({ showingId: showing.id, reminder, channels, skipped });
+          } catch (error) {
+            console.error('[CALENDARS] Showing reminder failed:', showing.id, error);
+            results.push({
+              showingId: showing.id,
+              reminder,
+              error: error instanceof Error ? error.message : 'Failed to send reminder',
+            });
+          }
+        }
+
+        const sent = results.filter((r) => r.channels?.length).length;
+        const failed = results.filter((r) => r.error).length;
+        const skipped = results.length - sent - failed;
+        if (results.length > 0) {
+          await recordAudit(req, {
+            action: 'showing.reminders-sent',
+            source: 'ghl',
+            targetType: 'showing',
+            details: `${sent} reminder(s) sent, ${skipped} blocked by consent, ${failed} failed`,
+            after: results,
+          });
+        }
+
+        return res.status(200).json({ checked: showings.length, sent, skipped, failed, results });
+      }
+
       // Base Calendars
       if (!action || action === 'list') {
         if (method === 'GET') {
@@ -1220,6 +1530,15 @@ if (resource === 'opportunities') {
           const text = await response.text();
           const data = text ? JSON.parse(text) : {};
           console.log('[DOCUMENTS] Send template response:', response.status, response.ok);
+          if (response.ok) {
+            await recordAudit(req, {
+              action: 'document.template-sent',
+              source: 'ghl',
+              targetType: 'document-template',
+              targetId: id,
+              after: body,
+            });
+          }
           return res.status(response.ok ? 200 : response.status).json(data);
         }
       }
@@ -1284,6 +1603,15 @@ if (resource === 'opportunities') {
           const text = await response.text();
           const data = text ? JSON.parse(text) : {};
           console.log('[DOCUMENTS] Send document response:', response.status, response.ok);
+          if (response.ok) {
+            await recordAudit(req, {
+              action: 'document.sent',
+              source: 'ghl',
+              targetType: 'document',
+              targetId: id,
+              after: body,
+            });
+          }
           return res.status(response.ok ? 200 : response.status).json(data);
         }
       }
@@ -1306,6 +1634,15 @@ if (resource === 'opportunities') {
             });
             const text = await response.text();
             const data = text ? JSON.parse(text) : {};
+            if (response.ok) {
+              await recordAudit(req, {
+                action: 'document.sent',
+                source: 'ghl',
+                targetType: 'document',
+                targetId: id,
+                after: body,
+              });
+            }
             return res.status(response.ok ? 200 : response.status).json(data);
           }
           
@@ -1314,6 +1651,16 @@ if (resource === 'opportunities') {
           });
           const text = await response.text();
           const data = text ? JSON.parse(text) : {};
+          if (response.ok) {
+            await recordAudit(req, {
+              action: 'document.created',
+              source: 'ghl',
+              targetType: 'document',
+              targetId: data.id || data.document?.id,
+              targetLabel: body?.name,
+              after: body,
+            });
+          }
           return res.status(response.ok ? 201 : response.status).json(data);
         }
       }
@@ -1323,6 +1670,185 @@ if (resource === 'opportunities') {
     // For sending emails and SMS via Conversations API
     // Docs: https://marketplace.gohighlevel.com/docs/ghl/conversations/send-a-new-message
     if (resource === 'messages') {
+      // Inbound buyer SMS (GHL webhook): attach the reply to the property SMS it
+      // answers, act on its intent, and honor STOP
+      if (method === 'POST' && action === 'inbound') {
+        const reply = parseInboundMessage(body || {});
+        if (!reply) {
+          return res.status(200).json({ ignored: true, reason: 'Not an inbound SMS' });
+        }
+
+        try {
+          const contactId = reply.contactId || (reply.phone ? await findContactIdByPhone(reply.phone) : null);
+          if (!contactId) {
+            console.warn('[MESSAGES] Inbound reply from unknown sender:', reply.phone);
+            return res.status(200).json({ ignored: true, reason: 'Unknown sender' });
+          }
+
+          const intent = parseReplyIntent(reply.message);
+          const attached = await attachReplyToMatches(contactId, reply, intent);
+          console.log('[MESSAGES] Inbound reply:', { contactId, intent, matches: attached.length });
+
+          let optedOut = false;
+          if (intent === 'stop') {
+            await optOutContactSms(contactId);
+            optedOut = true;
+          }
+
+          // Retries of an already-attached message find nothing new to act on
+          const automation: AutomationResult[] = [];
+          if (attached.length > 0) {
+            const rules = await loadAutomationRules();
+            for (const { matchId } of attached) {
+              automation.push(...(await runAutomationEvent(
+                { type: 'reply-received', dealId: matchId, message: reply.message, intent },
+                rules
+              )));
+            }
+          }
+
+          if (attached.length > 0 || optedOut) {
+            await recordAudit(req, {
+              action: 'message.reply-received',
+              source: 'ghl',
+              targetType: 'contact',
+              targetId: contactId,
+              details: `Buyer replied "${reply.message.slice(0, 100)}" (${intent})${optedOut ? ' - opted out of SMS' : ''}`,
+              after: { intent, matches: attached.map((a) => a.matchId), automation },
+              actor: AUTOMATION_ACTOR,
+            });
+          }
+
+          return res.status(200).json({ contactId, intent, matches: attached, optedOut, automation });
+        } catch (error) {
+          console.error('[MESSAGES] Inbound reply failed:', error);
+          // Non-2xx makes GHL retry; a reply already attached is skipped
+          return res.status(500).json({
+            error: 'Failed to process inbound message',
+            details: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+
+      // Queue a bulk property email job (sent server-side, see lib/messaging/sendQueue.ts)
+      if (method === 'POST' && action === 'bulk-send') {
+        const { name, recipients, options } = body || {};
+        const validationError = sendJobError(recipients);
+        if (validationError) {
+          return res.status(400).json({ error: validationError });
+        }
+
+        try {
+          const actor = getAuditActor(req);
+          const job = await createSendJob(
+            name || `Property email to ${recipients.length} buyers`,
+            recipients as SendJobRecipient[],
+            options || {},
+            actor
+          );
+          await recordAudit(req, {
+            action: 'message.bulk-queued',
+            source: 'ghl',
+            targetType: 'Send Jobs',
+            targetId: job.id,
+            targetLabel: job.name,
+            details: `Queued property email to ${recipients.length} recipients`,
+            after: { recipients: recipients.length, options: job.options },
+          });
+          return res.status(201).json({ job });
+        } catch (error) {
+          console.error('[MESSAGES] Failed to queue bulk send:', error);
+          return res.status(500).json({
+            error: 'Failed to queue bulk send',
+            details: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+
+      // Bulk send jobs: recent (or only active, for reattaching) and one job's recipients
+      if (method === 'GET' && (action === 'bulk-jobs' || action === 'bulk-job')) {
+        try {
+          if (action === 'bulk-jobs') {
+            const limit = Math.min(parseInt(query.limit as string) || 20, 100);
+            const jobs = await listSendJobs(query.active === 'true', limit);
+            return res.status(200).json({ jobs });
+          }
+
+          const result = id ? await getSendJob(id) : null;
+          if (!result) {
+            return res.status(404).json({ error: 'Send job not found' });
+          }
+          return res.status(200).json(result);
+        } catch (error) {
+          console.error('[MESSAGES] Failed to load bulk send jobs:', error);
+          return res.status(500).json({
+            error: 'Failed to load bulk send jobs',
+            details: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+
+      if (method === 'POST' && action === 'bulk-cancel') {
+        try {
+          const job = id ? await cancelSendJob(id) : null;
+          if (!job) {
+            return res.status(404).json({ error: 'Send job not found' });
+          }
+          await recordAudit(req, {
+            action: 'message.bulk-cancelled',
+            source: 'ghl',
+            targetType: 'Send Jobs',
+            targetId: job.id,
+            targetLabel: job.name,
+            details: `Cancelled with ${job.counts.sent} of ${job.counts.total} sent`,
+          });
+          return res.status(200).json({ job });
+        } catch (error) {
+          console.error('[MESSAGES] Failed to cancel bulk send:', error);
+          return res.status(500).json({
+            error: 'Failed to cancel bulk send',
+            details: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+
+      // Work queued jobs: every 5 minutes from cron (all jobs), or one job from an
+      // open progress dialog with a shorter budget
+      if ((method === 'GET' || method === 'POST') && action === 'bulk-process') {
+        try {
+          const result = await processSendJobs(
+            isCronJob ? BULK_CRON_BUDGET_MS : BULK_DIALOG_BUDGET_MS,
+            isCronJob ? undefined : id || undefined
+          );
+          return res.status(200).json(result);
+        } catch (error) {
+          console.error('[MESSAGES] Bulk send processing failed:', error);
+          return res.status(500).json({
+            error: 'Bulk send processing failed',
+            details: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+
+      // Whether a contact can be messaged right now, per channel
+      if (method === 'GET' && action === 'consent') {
+        const contactId = query.contactId as string;
+        if (!contactId) {
+          return res.status(400).json({ error: 'contactId is required' });
+        }
+
+        try {
+          const consent = await checkContactConsent(contactId);
+          return res.status(200).json({ contactId, consent });
+        } catch (error) {
+          console.error('[MESSAGES] Consent check failed:', error);
+          return res.status(502).json({
+            error: 'Failed to check messaging consent',
+            details: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+
       // Send email or SMS with optional attachments
       if (method === 'POST' && action === 'send') {
         const {
@@ -1365,6 +1891,41 @@ if (resource === 'opportunities') {
           return res.status(400).json({ error: 'message or html content is required' });
         }
 
+        // Opt-outs, quiet hours and the daily cap. Fails closed: a send that
+        // can't be checked doesn't go out.
+        const channel = consentChannel(type);
+        if (channel) {
+          let consent: ConsentDecision;
+          try {
+            consent = await checkMessageConsent(contactId, channel);
+          } catch (error) {
+            console.error('[MESSAGES] Consent check failed:', error);
+            return res.status(502).json({
+              error: 'Failed to check messaging consent',
+              details: error instanceof Error ? error.message : String(error),
+            });
+          }
+
+          if (!consent.allowed) {
+            console.log('[MESSAGES] Blocked:', { contactId, channel, reason: consent.reason });
+            await recordAudit(req, {
+              action: MESSAGE_BLOCKED_ACTION,
+              source: 'ghl',
+              targetType: 'contact',
+              targetId: contactId,
+              details: `${channel === 'sms' ? 'SMS' : 'Email'} blocked: ${consent.message}`,
+              after: { channel, reason: consent.reason, retryAfter: consent.retryAfter },
+            });
+            return res.status(409).json({
+              error: consent.message,
+              blocked: true,
+              channel,
+              reason: consent.reason,
+              retryAfter: consent.retryAfter,
+            });
+          }
+        }
+
         // Build message payload for Conversations API
         // Schema: https://marketplace.gohighlevel.com/docs/ghl/conversations/send-a-new-message
         const messagePayload: any = {
@@ -1441,6 +2002,16 @@ if (resource === 'opportunities') {
           }
 
           console.log('[MESSAGES] ✅ Message sent successfully');
+          if (channel) {
+            await recordAudit(req, {
+              action: MESSAGE_SENT_ACTION,
+              source: 'ghl',
+              targetType: 'contact',
+              targetId: contactId,
+              details: channel === 'sms' ? 'SMS sent' : `Email sent${subject ? `: ${subject}` : ''}`,
+              after: { channel, messageId: data.messageId },
+            });
+          }
           return res.status(200).json({
             success: true,
             message: 'Message sent successfully',
@@ -2125,61 +2696,37 @@ Output ONLY the enhanced caption, nothing else.`;
       }
     }
 
-    // ============ AUTH (Google Sheets) ============
+    // ============ AUTH (legacy alias of /api/auth?action=login) ============
     if (resource === 'auth') {
       if (action === 'login' && method === 'POST') {
-        const { email, password } = body;
+        const { email, password, rememberMe = false } = body;
         
         if (!email || !password) {
           return res.status(400).json({ error: 'Email and password required' });
         }
 
-        if (!GOOGLE_SHEET_ID || !GOOGLE_SHEET_CREDENTIALS) {
-          return res.status(500).json({ error: 'Google Sheets not configured' });
-        }
-
         try {
-          // Parse credentials
-          const credentials = JSON.parse(GOOGLE_SHEET_CREDENTIALS);
-          
-          // Create JWT for Google Sheets API
-          const jwt = await createGoogleJWT(credentials);
-          const accessToken = await getGoogleAccessToken(jwt, credentials);
-          
-          // Fetch users from Google Sheet
-          const sheetResponse = await fetch(
-            `https://sheets.googleapis.com/v4/spreadsheets/${GOOGLE_SHEET_ID}/values/Users!A:D`,
-            {
-              headers: { 'Authorization': `Bearer ${accessToken}` }
+          // Same hashed user store and throttling as /api/auth (AUTH_USER_STORE)
+          const { user, status } = await attemptLogin(getUserStore(), email, password, getClientIp(req));
+          if (!user) {
+            if (!status.allowed) {
+              return sendThrottled(res, status);
             }
-          );
-          
-          if (!sheetResponse.ok) {
-            const errorData = await sheetResponse.json();
-            console.error('Google Sheets error:', errorData);
-            return res.status(500).json({ error: 'Failed to fetch users from sheet', details: errorData });
+            return res.status(401).json({ authenticated: false, error: 'Invalid email or password', retryAt: status.retryAt });
           }
-          
-          const sheetData = await sheetResponse.json();
-          const rows = sheetData.values || [];
-          
-          // Skip header row, find matching user
-          // Expected columns: Email, Password, Name, Role
-          for (let i = 1; i < rows.length; i++) {
-            const [userEmail, userPassword, userName, userRole] = rows[i];
-            if (userEmail?.toLowerCase() === email.toLowerCase() && userPassword === password) {
-              return res.status(200).json({
-                authenticated: true,
-                user: {
-                  email: userEmail,
-                  name: userName || userEmail.split('@')[0],
-                  role: userRole || 'user'
-                }
-              });
-            }
-          }
-          
-          return res.status(401).json({ authenticated: false, error: 'Invalid email or password' });
+
+          const sessionUser = toSessionUser(user);
+          const { token, expiresAt } = signSessionToken(
+            sessionUser,
+            rememberMe ? SESSION_TTL_LONG_MS : SESSION_TTL_SHORT_MS,
+            user.passwordChangedAt
+          );
+          return res.status(200).json({
+            authenticated: true,
+            user: sessionUser,
+            token,
+            expiresAt
+          });
         } catch (error) {
           console.error('Auth error:', error);
           return res.status(500).json({ error: 'Authentication failed', details: error instanceof Error ? error.message : 'Unknown error' });
@@ -2373,40 +2920,24 @@ Output ONLY the enhanced caption, nothing else.`;
   }
 }
 
-// Helper functions for Google Sheets auth
-async function createGoogleJWT(credentials: any): Promise<string> {
-  const header = { alg: 'RS256', typ: 'JWT' };
-  const now = Math.floor(Date.now() / 1000);
-  const claim = {
-    iss: credentials.client_email,
-    scope: 'https://www.googleapis.com/auth/spreadsheets.readonly',
-    aud: 'https://oauth2.googleapis.com/token',
-    iat: now,
-    exp: now + 3600,
+/**
+ * Showing fields staff can change, for before/after audit diffs
+ */
+function auditedShowingFields(showing: Showing): Record<string, unknown> {
+  return {
+    startTime: showing.startTime,
+    endTime: showing.endTime,
+    agentName: showing.agentName,
+    agentUserId: showing.agentUserId,
+    accessNotes: showing.accessNotes,
+    status: showing.status,
   };
-
-  const encode = (obj: any) => Buffer.from(JSON.stringify(obj)).toString('base64url');
-  const signInput = `${encode(header)}.${encode(claim)}`;
-  
-  // Use Node.js crypto for signing
-  const crypto = await import('crypto');
-  const sign = crypto.createSign('RSA-SHA256');
-  sign.update(signInput);
-  const signature = sign.sign(credentials.private_key, 'base64url');
-  
-  return `${signInput}.${signature}`;
 }
 
-async function getGoogleAccessToken(jwt: string, credentials: any): Promise<string> {
-  const response = await fetch('https://oauth2.googleapis.com/token', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-    body: new URLSearchParams({
-      grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
-      assertion: jwt,
-    }),
-  });
-  
-  const data = await response.json();
-  return data.access_token;
-}
\ No newline at end of file
+/**
+ * Display name for a GHL contact in audit entries
+ */
+function contactLabel(contact: { firstName?: string; lastName?: string; email?: string } | undefined): string | undefined {
+  if (!contact) return undefined;
+  return [contact.firstName, contact.lastName].filter(Boolean).join(' ') || contact.email || undefined;
+}
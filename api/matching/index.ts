@@ -4,7 +4,7 @@
  * Uses hybrid location scoring: ZIP codes + Mapbox geocoding
  *
  * Consolidated endpoints:
- * - action=run - Run full matching
+ * - action=run - Run full matching (body incremental=true for delta mode)
  * - action=run-buyer - Run matching for single buyer
  * - action=run-property - Run matching for single property
  * - action=health - Health check
@@ -12,21 +12,127 @@
  * - action=aggregated-buyers - Fetch buyers with matches (aggregated)
  * - action=aggregated-properties - Fetch properties with matches (aggregated)
  * - action=clear - Clear all matches (DELETE method)
+ * - action=get-profiles - Get scoring profiles
+ * - action=update-profiles - Save custom scoring profiles
+ * - action=update-exclusions - Save a buyer's exclusion rules and remove violating matches
+ * - action=update-anchors - Geocode and save a buyer's anchor points (work, school, family)
+ * - action=start-job - Start a chunked matching job (POST)
+ * - action=continue-job - Process the next buyer batches of the running job (POST)
+ * - action=job-status - Poll matching job progress
+ * - action=save-search - Save a /listings search and send its confirmation links (public POST)
+ * - action=confirm-search - Confirm a saved search's channel from its link (public POST)
+ * - action=saved-searches - List saved searches
+ * - action=search-alerts - New inventory per active saved search
+ * - action=send-search-alerts - Send listing alerts (daily cron, or searchIds from staff)
+ * - action=update-saved-search - Pause or resume a saved search's alerts (POST)
+ * - action=deals - Pipeline deals with DealFilters, DealSort and offset/limit pagination
+ * - action=automation-rules - Get deal stage automation rules
+ * - action=update-automation-rules - Save automation rules (PUT)
+ * - action=automation-run - Fire idle-stage automations (daily cron or on demand)
+ *
+ * Scoring actions accept an optional profileId; without one, each buyer is
+ * scored with the profile matching their Deal Type. Buyer exclusion rules
+ * (deal-breakers) are applied before scoring and drop pairs entirely. Buyers
+ * with anchor points are scored on drive time to them (ROUTING_PROVIDER).
+ *
+ * Delta mode re-scores only pairs whose buyer or property changed (Airtable
+ * LAST_MODIFIED_TIME) since the watermark saved in System Cache by the last run.
  */
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { generateMatchScore } from '../../lib/matching/scorer';
 import type { MatchScore } from '../../lib/matching/scorer';
 import {
-  geocodeBuyerLocation,
-  geocodePropertyLocation,
-  isMapboxConfigured,
-  geocode,
-} from '../../lib/mapbox';
+  mergeScoringProfiles,
+  resolveScoringProfile,
+  SYSTEM_SCORING_PROFILES,
+} from '../../lib/matching/profiles';
+import type { ScoringProfile } from '../../lib/matching/profiles';
+import { findExclusion, parseExclusionRules } from '../../lib/matching/exclusions';
+import {
+  buildMatchFields,
+  emptyScoringTotals,
+  scoreBuyerMatches,
+  type BuyerScoringContext,
+  type MatchingDelta,
+} from '../../lib/matching/matchRun';
+import type { ExclusionRule } from '../../lib/matching/exclusions';
+import { computeAnchorTravelTimes, parseAnchorPoints } from '../../lib/matching/anchors';
+import type { AnchorPoint, AnchorTravelTimes } from '../../lib/matching/anchors';
+import { ADMIN_ROLE, isCronRequest, requireSession } from '../../lib/auth/session';
+import { getClientIp } from '../../lib/auth/loginThrottle';
+import { consumeRateLimit } from '../../lib/auth/rateLimit';
+import { getAuditActor, recordAudit } from '../../lib/audit/auditLog';
+import { invalidateCache as invalidateCacheEntry, readCache, writeCache } from '../../lib/cache/systemCache';
+import {
+  confirmSavedSearch,
+  describeFilters,
+  findOrCreateSearchContact,
+  isSearchConfirmed,
+  linkSearchBuyer,
+  listingMatchesSearch,
+  listSavedSearches,
+  normalizeFilters,
+  sendSearchAlerts,
+  sendSearchConfirmations,
+  setSavedSearchActive,
+  storeSavedSearch,
+  tagConfirmedContact,
+  upsertSearchBuyer,
+  type AlertChannel,
+  type ListingCandidate,
+  type SaveSearchInput,
+  type SavedSearch,
+} from '../../lib/matching/savedSearches';
+import type { SendJobProperty } from '../../lib/messaging/sendQueue';
+import {
+  attachShowings,
+  filterDeals,
+  paginate,
+  parseDealFilters,
+  parseDealSort,
+  sortDeals,
+  toDeal,
+  type Deal,
+  type DealBuyer,
+  type DealProperty,
+} from '../../lib/deals/pipeline';
+import { listShowings } from '../../lib/deals/showings';
+import {
+  AUTOMATION_ACTOR,
+  AUTOMATION_RULES_TABLE,
+  AUTOMATION_STAGES,
+  loadAutomationRules,
+  normalizeAutomationRules,
+  runIdleAutomations,
+  saveAutomationRules,
+  type AutomationRule,
+} from '../../lib/deals/automation';
+import { REPLY_INTENTS } from '../../lib/deals/replies';
+import {
+  flushGeocodeCache,
+  geocodeLocation,
+  getGeocodeProviders,
+} from '../../lib/geocoding/geocoder';
+import { getZipCentroidCount } from '../../src/lib/zipCentroids';
+import { ZIP_CENTROIDS_SOURCE } from '../../src/data/zipCentroids';
 
 const AIRTABLE_API_KEY = process.env.AIRTABLE_API_KEY;
 const AIRTABLE_BASE_ID = process.env.AIRTABLE_BASE_ID;
 const AIRTABLE_API_URL = 'https://api.airtable.com/v0';
+const PROFILES_TABLE = 'Matching Profiles';
+const MATCHING_WATERMARK_KEY = 'matching-watermark';
+
+// Actions reachable without a session (the public /listings page reads properties, saves and confirms searches)
+const PUBLIC_ACTIONS = ['health', 'listing-properties', 'save-search', 'confirm-search'];
+// Destructive or global-settings actions
+const ADMIN_ACTIONS = ['clear', 'update-profiles', 'update-automation-rules'];
+
+interface AirtableRecord {
+  id: string;
+  createdTime?: string;
+  fields: Record<string, unknown>;
+}
 
 // In-memory cache for aggregated endpoints (semi-static data)
 const aggregatedBuyersCache = new Map<string, { data: any[], timestamp: number }>();
@@ -49,12 +155,24 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   // CORS
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
 
   if (req.method === 'OPTIONS') {
     return res.status(200).end();
   }
 
+  const { action } = req.query;
+
+  // Scheduled: idle-stage automations and listing alerts run from Vercel Cron without a user session
+  const isCronJob = (action === 'automation-run' || action === 'send-search-alerts') && isCronRequest(req);
+
+  if (!PUBLIC_ACTIONS.includes(action as string) && !isCronJob) {
+    const session = await requireSession(req, res, {
+      roles: ADMIN_ACTIONS.includes(action as string) ? [ADMIN_ROLE] : undefined,
+    });
+    if (!session) return;
+  }
+
   if (!AIRTABLE_API_KEY || !AIRTABLE_BASE_ID) {
     return res.status(500).json({
       error: 'Airtable credentials not configured',
@@ -66,8 +184,6 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     'Content-Type': 'application/json',
   };
 
-  const { action } = req.query;
-
   try {
     switch (action) {
       case 'health':
@@ -107,6 +223,13 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         }
         return await handleAggregatedProperties(req, res, headers);
 
+      // Property fields only (no matches or buyer details) - public
+      case 'listing-properties':
+        if (req.method !== 'GET') {
+          return res.status(405).json({ error: 'Method not allowed' });
+        }
+        return await handleListingProperties(req, res, headers);
+
       // Clear matches endpoint (merged from clear.ts)
       case 'clear':
         if (req.method !== 'DELETE') {
@@ -128,6 +251,91 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         }
         return await handlePropertyBuyers(req, res, headers);
 
+      // Scoring profiles (weights, distance tiers, priority radius)
+      case 'get-profiles':
+        return await handleGetProfiles(req, res, headers);
+
+      case 'update-profiles':
+        if (req.method !== 'PUT' && req.method !== 'PATCH' && req.method !== 'POST') {
+          return res.status(405).json({ error: 'Method not allowed. Use PUT, PATCH, or POST.' });
+        }
+        return await handleUpdateProfiles(req, res, headers);
+
+      // Buyer exclusion rules (deal-breakers)
+      case 'update-exclusions':
+        if (req.method !== 'PUT' && req.method !== 'PATCH' && req.method !== 'POST') {
+          return res.status(405).json({ error: 'Method not allowed. Use PUT, PATCH, or POST.' });
+        }
+        return await handleUpdateExclusions(req, res, headers);
+
+      // Buyer anchor points (drive-time scoring)
+      case 'update-anchors':
+        if (req.method !== 'PUT' && req.method !== 'PATCH' && req.method !== 'POST') {
+          return res.status(405).json({ error: 'Method not allowed. Use PUT, PATCH, or POST.' });
+        }
+        return await handleUpdateAnchors(req, res, headers);
+
+      // Chunked, resumable full matching
+      case 'start-job':
+        if (req.method !== 'POST') {
+          return res.status(405).json({ error: 'Method not allowed. Use POST.' });
+        }
+        return await handleStartMatchingJob(req, res, headers);
+
+      case 'continue-job':
+        if (req.method !== 'POST') {
+          return res.status(405).json({ error: 'Method not allowed. Use POST.' });
+        }
+        return await handleContinueMatchingJob(req, res, headers);
+
+      case 'job-status':
+        return await handleMatchingJobStatus(req, res, headers);
+
+      // Saved searches & listing alerts
+      case 'save-search':
+        if (req.method !== 'POST') {
+          return res.status(405).json({ error: 'Method not allowed. Use POST.' });
+        }
+        return await handleSaveSearch(req, res, headers);
+
+      case 'confirm-search':
+        if (req.method !== 'POST') {
+          return res.status(405).json({ error: 'Method not allowed. Use POST.' });
+        }
+        return await handleConfirmSearch(req, res, headers);
+
+      case 'saved-searches':
+        return await handleListSavedSearches(req, res);
+
+      case 'search-alerts':
+        return await handleSearchAlerts(req, res, headers);
+
+      case 'send-search-alerts':
+        return await handleSendSearchAlerts(req, res, headers);
+
+      case 'update-saved-search':
+        if (req.method !== 'POST') {
+          return res.status(405).json({ error: 'Method not allowed. Use POST.' });
+        }
+        return await handleUpdateSavedSearch(req, res);
+
+      // Deal pipeline (matches with a Match Stage)
+      case 'deals':
+        return await handleDeals(req, res, headers);
+
+      // Deal stage automation rules (trigger → conditions → actions)
+      case 'automation-rules':
+        return await handleGetAutomationRules(req, res);
+
+      case 'update-automation-rules':
+        if (req.method !== 'PUT' && req.method !== 'PATCH' && req.method !== 'POST') {
+          return res.status(405).json({ error: 'Method not allowed. Use PUT, PATCH, or POST.' });
+        }
+        return await handleUpdateAutomationRules(req, res);
+
+      case 'automation-run':
+        return await handleRunAutomations(req, res);
+
       default:
         return res.status(400).json({ error: 'Unknown action', action });
     }
@@ -142,18 +350,15 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
 /**
  * Geocode buyers and properties that are missing coordinates
- * Updates Airtable records with geocoded coordinates
+ * Updates Airtable records with geocoded coordinates. Buyers only need
+ * ZIP-level accuracy, so a preferred ZIP is placed offline; properties try
+ * their street address first.
  */
 async function geocodeRecordsWithMissingCoordinates(
   buyers: any[],
   properties: any[],
   headers: any
 ): Promise<{ geocodedBuyers: number; geocodedProperties: number }> {
-  if (!isMapboxConfigured()) {
-    console.log('[Matching] Mapbox not configured, skipping geocoding');
-    return { geocodedBuyers: 0, geocodedProperties: 0 };
-  }
-
   let geocodedBuyers = 0;
   let geocodedProperties = 0;
 
@@ -167,12 +372,14 @@ async function geocodeRecordsWithMissingCoordinates(
 
     for (const buyer of buyersToGeocode) {
       try {
-        const result = await geocodeBuyerLocation({
-          city: buyer.fields['City'],
-          preferredLocation: buyer.fields['Preferred Location'],
-          state: buyer.fields['State'],
-          preferredZipCodes: parseZipCodes(buyer.fields['Preferred Zip Codes']),
-        });
+        const result = await geocodeLocation(
+          {
+            city: buyer.fields['City'] || buyer.fields['Preferred Location'],
+            state: buyer.fields['State'],
+            zip: parseZipCodes(buyer.fields['Preferred Zip Codes'])[0],
+          },
+          { precision: 'zip' }
+        );
 
         if (result) {
           // Update buyer record with coordinates
@@ -192,9 +399,6 @@ async function geocodeRecordsWithMissingCoordinates(
 
           geocodedBuyers++;
         }
-
-        // Rate limit: 10 requests per second
-        await delay(100);
       } catch (error) {
         console.error(`[Matching] Error geocoding buyer ${buyer.id}:`, error);
       }
@@ -211,11 +415,11 @@ async function geocodeRecordsWithMissingCoordinates(
 
     for (const property of propertiesToGeocode) {
       try {
-        const result = await geocodePropertyLocation({
+        const result = await geocodeLocation({
           address: property.fields['Address'],
           city: property.fields['City'],
           state: property.fields['State'],
-          zipCode: property.fields['Zip Code'] || property.fields['ZIP Code'],
+          zip: property.fields['Zip Code'] || property.fields['ZIP Code'],
         });
 
         if (result) {
@@ -236,15 +440,14 @@ async function geocodeRecordsWithMissingCoordinates(
 
           geocodedProperties++;
         }
-
-        // Rate limit: 10 requests per second
-        await delay(100);
       } catch (error) {
         console.error(`[Matching] Error geocoding property ${property.id}:`, error);
       }
     }
   }
 
+  await flushGeocodeCache();
+
   console.log(`[Matching] Geocoding complete: ${geocodedBuyers} buyers, ${geocodedProperties} properties`);
   return { geocodedBuyers, geocodedProperties };
 }
@@ -288,13 +491,6 @@ function parseZipCodes(value: any): string[] {
   return [];
 }
 
-/**
- * Simple delay helper
- */
-function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
 /**
  * Helper to collect supporting images from Airtable fields
  * Supporting images are stored in individual fields: Supporting Image 1 through Supporting Image 25
@@ -317,28 +513,20 @@ function collectSupportingImages(propertyFields: any): string[] {
  */
 async function fetchCachedData(cacheKey: string, headers: any): Promise<any | null> {
   try {
-    const formula = encodeURIComponent(`{cache_key} = "${cacheKey}"`);
-    const cacheRes = await fetch(
-      `${AIRTABLE_API_URL}/${AIRTABLE_BASE_ID}/System%20Cache?filterByFormula=${formula}`,
-      { headers }
-    );
+    const cached = await readCache<any>(cacheKey);
 
-    if (!cacheRes.ok) {
-      console.warn(`[Matching] Failed to fetch cache for ${cacheKey}, will use direct Airtable query`);
+    if (!cached || !cached.meta.isValid) {
+      console.warn(`[Matching] Cache not found or invalid for ${cacheKey}, will use direct Airtable query`);
       return null;
     }
 
-    const cacheData = await cacheRes.json();
-    const record = cacheData.records?.[0];
-
-    if (!record || !record.fields.is_valid) {
-      console.warn(`[Matching] Cache not found or invalid for ${cacheKey}, will use direct Airtable query`);
+    if (cached.data === null) {
+      console.warn(`[Matching] Cache unreadable for ${cacheKey} (${cached.error}), will use direct Airtable query`);
       return null;
     }
 
-    const data = JSON.parse(record.fields.data || '{"records":[]}');
-    console.log(`[Matching] Loaded ${data.records?.length || 0} records from cache: ${cacheKey}`);
-    return data;
+    console.log(`[Matching] Loaded ${cached.data.records?.length || 0} records from cache: ${cacheKey}`);
+    return cached.data;
 
   } catch (error) {
     console.error(`[Matching] Error fetching cache for ${cacheKey}:`, error);
@@ -351,57 +539,8 @@ async function fetchCachedData(cacheKey: string, headers: any): Promise<any | nu
  */
 async function updateCacheRecord(cacheKey: string, data: any, recordCount: number, headers: any): Promise<void> {
   try {
-    const formula = encodeURIComponent(`{cache_key} = "${cacheKey}"`);
-    const findRes = await fetch(
-      `${AIRTABLE_API_URL}/${AIRTABLE_BASE_ID}/System%20Cache?filterByFormula=${formula}`,
-      { headers }
-    );
-
-    if (!findRes.ok) {
-      console.warn(`[Matching] Failed to find cache record for ${cacheKey}`);
-      return;
-    }
-
-    const findData = await findRes.json();
-    const recordId = findData.records?.[0]?.id;
-
-    const cacheFields = {
-      cache_key: cacheKey,
-      data: JSON.stringify(data),
-      record_count: recordCount,
-      source_count: recordCount,
-      last_synced: new Date().toISOString(),
-      is_valid: true,
-      version: 1,
-    };
-
-    if (recordId) {
-      // Update existing record
-      await fetch(
-        `${AIRTABLE_API_URL}/${AIRTABLE_BASE_ID}/System%20Cache/${recordId}`,
-        {
-          method: 'PATCH',
-          headers,
-          body: JSON.stringify({
-            fields: cacheFields,
-          }),
-        }
-      );
-      console.log(`[Matching] Updated cache record for ${cacheKey}`);
-    } else {
-      // Create new record
-      await fetch(
-        `${AIRTABLE_API_URL}/${AIRTABLE_BASE_ID}/System%20Cache`,
-        {
-          method: 'POST',
-          headers,
-          body: JSON.stringify({
-            fields: cacheFields,
-          }),
-        }
-      );
-      console.log(`[Matching] Created cache record for ${cacheKey}`);
-    }
+    const meta = await writeCache(cacheKey, data, recordCount);
+    console.log(`[Matching] Updated cache record for ${cacheKey} (version ${meta.version})`);
   } catch (error) {
     console.error(`[Matching] Error updating cache for ${cacheKey}:`, error);
   }
@@ -411,13 +550,14 @@ async function updateCacheRecord(cacheKey: string, data: any, recordCount: numbe
  * Fetches all records from a table with pagination support
  * Used to refresh cache when a record is not found
  */
-async function fetchAllRecordsFromTable(tableName: string, headers: any): Promise<any[]> {
+async function fetchAllRecordsFromTable(tableName: string, headers: any, filterByFormula?: string): Promise<any[]> {
   const allRecords: any[] = [];
   let offset: string | undefined;
 
   do {
     const url = new URL(`${AIRTABLE_API_URL}/${AIRTABLE_BASE_ID}/${encodeURIComponent(tableName)}`);
     url.searchParams.set('pageSize', '100');
+    if (filterByFormula) url.searchParams.set('filterByFormula', filterByFormula);
     if (offset) url.searchParams.set('offset', offset);
 
     const response = await fetch(url.toString(), { headers });
@@ -430,6 +570,59 @@ async function fetchAllRecordsFromTable(tableName: string, headers: any): Promis
   return allRecords;
 }
 
+/**
+ * Fetches records modified since a timestamp using Airtable LAST_MODIFIED_TIME()
+ * Returns null on failure so callers can fall back to a full run
+ */
+async function fetchRecordsModifiedSince(
+  tableName: string,
+  since: string,
+  headers: Record<string, string>
+): Promise<AirtableRecord[] | null> {
+  const records: AirtableRecord[] = [];
+  let offset: string | undefined;
+
+  try {
+    do {
+      const url = new URL(`${AIRTABLE_API_URL}/${AIRTABLE_BASE_ID}/${encodeURIComponent(tableName)}`);
+      url.searchParams.set('pageSize', '100');
+      url.searchParams.set('filterByFormula', `IS_AFTER(LAST_MODIFIED_TIME(), DATETIME_PARSE('${since}'))`);
+      if (offset) url.searchParams.set('offset', offset);
+
+      const response = await fetch(url.toString(), { headers });
+      if (!response.ok) {
+        console.warn(`[Matching] Failed to fetch modified ${tableName}: ${response.status}`);
+        return null;
+      }
+
+      const data = await response.json();
+      records.push(...(data.records || []));
+      offset = data.offset;
+    } while (offset);
+
+    return records;
+  } catch (error) {
+    console.error(`[Matching] Error fetching modified ${tableName}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Replaces (or appends) records by id so cached lists carry the latest changes
+ */
+function mergeChangedRecords<T extends { id: string }>(records: T[], changed: T[]): T[] {
+  if (changed.length === 0) return records;
+
+  const changedById = new Map(changed.map((r) => [r.id, r]));
+  const merged = records.map((r) => changedById.get(r.id) || r);
+  const existingIds = new Set(records.map((r) => r.id));
+
+  for (const record of changed) {
+    if (!existingIds.has(record.id)) merged.push(record);
+  }
+  return merged;
+}
+
 /**
  * Syncs the buyers cache by fetching all records from Airtable
  * Returns the fresh records array
@@ -465,30 +658,8 @@ async function syncPropertiesCache(headers: any): Promise<any[]> {
  */
 async function invalidateCache(cacheKey: string, headers: any): Promise<void> {
   try {
-    const formula = encodeURIComponent(`{cache_key} = "${cacheKey}"`);
-    const findRes = await fetch(
-      `${AIRTABLE_API_URL}/${AIRTABLE_BASE_ID}/System%20Cache?filterByFormula=${formula}`,
-      { headers }
-    );
-
-    if (!findRes.ok) return;
-
-    const findData = await findRes.json();
-    const recordId = findData.records?.[0]?.id;
-
-    if (recordId) {
-      await fetch(
-        `${AIRTABLE_API_URL}/${AIRTABLE_BASE_ID}/System%20Cache/${recordId}`,
-        {
-          method: 'PATCH',
-          headers,
-          body: JSON.stringify({
-            fields: { is_valid: false }
-          })
-        }
-      );
-      console.log(`[Matching] Invalidated cache: ${cacheKey}`);
-    }
+    await invalidateCacheEntry(cacheKey);
+    console.log(`[Matching] Invalidated cache: ${cacheKey}`);
   } catch (error) {
     console.error(`[Matching] Error invalidating cache for ${cacheKey}:`, error);
   }
@@ -497,37 +668,27 @@ async function invalidateCache(cacheKey: string, headers: any): Promise<void> {
 /**
  * Fetches existing matches and builds both a skip set and a match ID map
  * Returns { skipSet, matchMap } where matchMap is "contactId:propertyCode" -> matchRecordId
+ * refreshAll empties the skip set so every pair is rescored; the match map is
+ * still loaded so existing matches are updated (or deleted when now excluded).
+ * skipCache reads Airtable directly, for when the cache may miss recent writes.
  */
-async function fetchExistingMatches(headers: any, refreshAll: boolean): Promise<{
+async function fetchExistingMatches(headers: any, refreshAll: boolean, skipCache = false): Promise<{
   skipSet: Set<string>;
   matchMap: Map<string, string>;
 }> {
   if (refreshAll) {
-    console.log('[Matching] refreshAll=true, will re-create all matches');
-    return { skipSet: new Set(), matchMap: new Map() };
+    console.log('[Matching] refreshAll=true, will rescore all pairs');
   }
 
   try {
     // Try to fetch from cache first
-    console.log('[Matching] Attempting to fetch existing matches from cache...');
-    const cachedMatches = await fetchCachedData('matches', headers);
+    const cachedMatches = skipCache ? null : await fetchCachedData('matches', headers);
     let matchRecords = cachedMatches?.records || [];
 
     // Fallback to direct Airtable query if cache unavailable
     if (!cachedMatches || matchRecords.length === 0) {
-      console.log('[Matching] Cache miss - fetching matches from Airtable...');
-      const res = await fetch(
-        `${AIRTABLE_API_URL}/${AIRTABLE_BASE_ID}/Property-Buyer%20Matches`,
-        { headers }
-      );
-
-      if (!res.ok) {
-        console.warn('[Matching] Failed to fetch existing matches, proceeding without skip set');
-        return { skipSet: new Set(), matchMap: new Map() };
-      }
-
-      const data = await res.json();
-      matchRecords = data.records || [];
+      console.log('[Matching] Fetching existing matches from Airtable...');
+      matchRecords = await fetchAllRecordsFromTable('Property-Buyer Matches', headers);
     }
 
     const skipSet = new Set<string>();
@@ -547,8 +708,8 @@ async function fetchExistingMatches(headers: any, refreshAll: boolean): Promise<
       }
     }
 
-    console.log(`[Matching] Loaded ${skipSet.size} existing matches into memory`);
-    return { skipSet, matchMap };
+    console.log(`[Matching] Loaded ${matchMap.size} existing matches into memory`);
+    return { skipSet: refreshAll ? new Set() : skipSet, matchMap };
 
   } catch (error) {
     console.error('[Matching] Error loading existing matches:', error);
@@ -653,19 +814,170 @@ async function batchUpdateMatches(updates: any[], headers: any): Promise<number>
   return parallelBatchExecute(updates, BATCH_SIZE, CONCURRENCY, executeBatch);
 }
 
+/**
+ * Batch delete matches in Airtable (up to 10 per request, 5 concurrent)
+ */
+async function batchDeleteMatches(matchIds: string[], headers: Record<string, string>): Promise<number> {
+  if (matchIds.length === 0) return 0;
+
+  const BATCH_SIZE = 10;
+  const CONCURRENCY = 5;
+
+  const executeBatch = async (batch: string[]): Promise<number> => {
+    try {
+      const deleteUrl = new URL(`${AIRTABLE_API_URL}/${AIRTABLE_BASE_ID}/Property-Buyer%20Matches`);
+      batch.forEach(id => deleteUrl.searchParams.append('records[]', id));
+
+      const deleteRes = await fetch(deleteUrl.toString(), { method: 'DELETE', headers });
+      if (!deleteRes.ok) {
+        const errorText = await deleteRes.text();
+        console.error(`[Matching] Batch delete failed:`, deleteRes.status, errorText);
+        return 0;
+      }
+      return batch.length;
+    } catch (error) {
+      console.error(`[Matching] Error in batch delete:`, error);
+      return 0;
+    }
+  };
+
+  return parallelBatchExecute(matchIds, BATCH_SIZE, CONCURRENCY, executeBatch);
+}
+
+/**
+ * Resolve delta mode: load the watermark and the records modified since it
+ * Returns a full-run delta without a watermark or when the run settings differ.
+ * Changed records are merged into the buyer/property lists in place.
+ */
+async function resolveMatchingDelta(
+  buyers: AirtableRecord[],
+  properties: AirtableRecord[],
+  settings: { minScore: number; profileId?: string },
+  headers: Record<string, string>
+): Promise<MatchingDelta> {
+  const delta: MatchingDelta = {
+    previousRunAt: null,
+    changedBuyerIds: new Set<string>(),
+    changedPropertyIds: new Set<string>(),
+  };
+
+  const watermark = await fetchCachedData(MATCHING_WATERMARK_KEY, headers);
+  const settingsMatch = watermark?.lastRunAt &&
+    watermark.minScore === settings.minScore &&
+    (watermark.profileId || null) === (settings.profileId || null);
+
+  if (!settingsMatch) {
+    console.log('[Matching] No usable watermark for delta mode, running full matching');
+    return delta;
+  }
+
+  const [changedBuyers, changedProperties] = await Promise.all([
+    fetchRecordsModifiedSince('Buyers', watermark.lastRunAt, headers),
+    fetchRecordsModifiedSince('Properties', watermark.lastRunAt, headers),
+  ]);
+
+  if (!changedBuyers || !changedProperties) return delta;
+
+  buyers.splice(0, buyers.length, ...mergeChangedRecords(buyers, changedBuyers));
+  properties.splice(0, properties.length, ...mergeChangedRecords(properties, changedProperties));
+  changedBuyers.forEach((r) => delta.changedBuyerIds.add(r.id));
+  changedProperties.forEach((r) => delta.changedPropertyIds.add(r.id));
+  delta.previousRunAt = watermark.lastRunAt;
+
+  console.log(`[Matching] Delta mode since ${delta.previousRunAt}: ${delta.changedBuyerIds.size} changed buyers, ${delta.changedPropertyIds.size} changed properties`);
+  return delta;
+}
+
+/**
+ * Rebuild the matches cache (records plus buyer/property indexes) from Airtable
+ * Invalidates the cache if the refresh fails
+ */
+async function refreshMatchesCache(headers: Record<string, string>): Promise<void> {
+  console.log('[Matching] Auto-refreshing matches cache with new data...');
+  try {
+    // Fetch all matches from Airtable to refresh the cache
+    const allMatchesRes = await fetch(
+      `${AIRTABLE_API_URL}/${AIRTABLE_BASE_ID}/Property-Buyer%20Matches`,
+      { headers }
+    );
+
+    if (allMatchesRes.ok) {
+      const allMatchesData = await allMatchesRes.json();
+      const allMatches = allMatchesData.records || [];
+
+      // Build indexes for fast lookup
+      const buyerIndex: Record<string, string[]> = {};
+      const propertyIndex: Record<string, string[]> = {};
+
+      allMatches.forEach((r: any) => {
+        const buyerRecordId = r.fields['Contact ID']?.[0] || '';
+        const propertyRecordId = r.fields['Property Code']?.[0] || '';
+
+        if (buyerRecordId) {
+          if (!buyerIndex[buyerRecordId]) buyerIndex[buyerRecordId] = [];
+          buyerIndex[buyerRecordId].push(r.id);
+        }
+
+        if (propertyRecordId) {
+          if (!propertyIndex[propertyRecordId]) propertyIndex[propertyRecordId] = [];
+          propertyIndex[propertyRecordId].push(r.id);
+        }
+      });
+
+      // Update the cache with fresh data
+      const cacheData = {
+        records: allMatches,
+        buyerIndex,
+        propertyIndex,
+      };
+
+      await updateCacheRecord('matches', cacheData, allMatches.length, headers);
+      console.log('[Matching] Successfully auto-refreshed matches cache with new data');
+    } else {
+      console.warn('[Matching] Failed to fetch matches for cache refresh, will invalidate');
+      await invalidateCache('matches', headers);
+    }
+  } catch (error) {
+    console.error('[Matching] Error auto-refreshing matches cache:', error);
+    await invalidateCache('matches', headers);
+  }
+}
+
+/**
+ * Save the run watermark once every buyer has been scored
+ * Excluded pairs are not stored: runs only count them, and the buyer view
+ * (buyer-properties) evaluates each buyer's rules live with their reasons.
+ */
+async function saveMatchingWatermark(
+  delta: MatchingDelta,
+  settings: { minScore: number; profileId?: string; runStartedAt: string },
+  headers: Record<string, string>
+): Promise<void> {
+  const isDelta = delta.previousRunAt !== null;
+
+  // The next delta run picks up changes made after this run started
+  await updateCacheRecord(
+    MATCHING_WATERMARK_KEY,
+    { lastRunAt: settings.runStartedAt, minScore: settings.minScore, profileId: settings.profileId || null, mode: isDelta ? 'delta' : 'full' },
+    0,
+    headers
+  );
+}
+
 /**
  * Run matching for all buyers against all properties
  */
 async function handleRunMatching(req: VercelRequest, res: VercelResponse, headers: any) {
   const startTime = Date.now();
-  const { minScore = 30, refreshAll = false } = req.body || {};
+  const { minScore = 30, refreshAll = false, profileId, incremental = false } = req.body || {};
+  const runStartedAt = new Date().toISOString();
 
-  console.log('[Matching] Starting full matching', { minScore, refreshAll, timestamp: new Date().toISOString() });
+  console.log('[Matching] Starting full matching', { minScore, refreshAll, profileId, incremental, timestamp: runStartedAt });
 
   try {
     // Try to fetch buyers from cache first
     console.log('[Matching] Attempting to fetch buyers from cache...');
-    let buyersData = await fetchCachedData('buyers', headers);
+    const buyersData = await fetchCachedData('buyers', headers);
     let buyers = buyersData?.records || [];
 
     // Fallback to direct Airtable query if cache unavailable
@@ -684,7 +996,7 @@ async function handleRunMatching(req: VercelRequest, res: VercelResponse, header
 
     // Try to fetch properties from cache first
     console.log('[Matching] Attempting to fetch properties from cache...');
-    let propertiesData = await fetchCachedData('properties', headers);
+    const propertiesData = await fetchCachedData('properties', headers);
     let properties = propertiesData?.records || [];
 
     // Fallback to direct Airtable query if cache unavailable
@@ -701,12 +1013,19 @@ async function handleRunMatching(req: VercelRequest, res: VercelResponse, header
     }
     console.log(`[Matching] Loaded ${properties.length} properties in ${Date.now() - startTime}ms`);
 
+    // Delta mode: only re-score pairs where the buyer or property changed since the last run.
+    // Falls back to a full run without a watermark or when the run settings differ.
+    const delta: MatchingDelta = incremental && !refreshAll
+      ? await resolveMatchingDelta(buyers, properties, { minScore, profileId }, headers)
+      : { previousRunAt: null, changedBuyerIds: new Set<string>(), changedPropertyIds: new Set<string>() };
+    const isDelta = delta.previousRunAt !== null;
+
     if (buyers.length === 0 || properties.length === 0) {
       console.warn('[Matching] No buyers or properties found, skipping matching');
       return res.status(200).json({
         success: true,
         message: 'No buyers or properties found to match',
-        stats: { buyersProcessed: 0, propertiesProcessed: 0, matchesCreated: 0, matchesUpdated: 0, duplicatesSkipped: 0, withinRadius: 0, geocodedBuyers: 0, geocodedProperties: 0 },
+        stats: { buyersProcessed: 0, propertiesProcessed: 0, matchesCreated: 0, matchesUpdated: 0, duplicatesSkipped: 0, withinRadius: 0, excludedByRule: 0, matchesRemoved: 0, mode: isDelta ? 'delta' : 'full', pairsRescored: 0, pairsSkipped: 0, geocodedBuyers: 0, geocodedProperties: 0 },
       });
     }
 
@@ -717,15 +1036,9 @@ async function handleRunMatching(req: VercelRequest, res: VercelResponse, header
 
     console.log(`[Matching] Processing ${buyers.length} buyers × ${properties.length} properties = ${buyers.length * properties.length} combinations`);
 
-    // Load existing matches into memory
+    // Load existing matches and scoring profiles into memory
     const { skipSet, matchMap } = await fetchExistingMatches(headers, refreshAll);
-
-    let duplicatesSkipped = 0;
-    let withinRadius = 0;
-
-    // Collect matches to create/update in memory
-    const matchesToCreate: any[] = [];
-    const matchesToUpdate: any[] = [];
+    const profiles = await fetchScoringProfiles(headers);
 
     // Log sample data for debugging
     if (buyers.length > 0 && properties.length > 0) {
@@ -741,160 +1054,68 @@ async function handleRunMatching(req: VercelRequest, res: VercelResponse, header
       });
     }
 
-    // Process each buyer
+    // Process each buyer, collecting matches to create/update/delete in memory
     console.log('[Matching] Starting matching loop...');
-    const totalCombinations = buyers.length * properties.length;
-    let processed = 0;
-    let scoredMatches = 0;
-    const progressInterval = Math.max(1, Math.floor(totalCombinations / 10)); // Log every 10%
-
-    for (const buyer of buyers) {
-      for (const property of properties) {
-        processed++;
-
-        // Log progress periodically
-        if (processed % progressInterval === 0 || processed === totalCombinations) {
-          const elapsed = Date.now() - startTime;
-          const progress = (processed / totalCombinations * 100).toFixed(1);
-          console.log(`[Matching] Progress: ${progress}% (${processed}/${totalCombinations}) - ${elapsed}ms elapsed - ${scoredMatches} matches above threshold`);
-        }
-
-        // Check skip set
-        const pairKey = `${buyer.id}:${property.id}`;
-        if (skipSet.has(pairKey) && !refreshAll) {
-          duplicatesSkipped++;
-          continue;
-        }
-
-        // Generate match score
-        const score = generateMatchScore(buyer, property);
-
-        // Log first match for debugging
-        if (scoredMatches === 0 && score.score >= minScore) {
-          console.log('[Matching] First match found:', {
-            buyerId: buyer.id,
-            propertyId: property.id,
-            score: score.score,
-            reasoning: score.reasoning,
-            highlights: score.highlights
-          });
-        }
-
-        scoredMatches++;
-
-        if (score.score >= minScore) {
-          // Build match notes
-          let matchNotes = score.reasoning;
-          matchNotes += `\n\nHighlights: ${score.highlights.join(', ')}`;
-          if (score.concerns && score.concerns.length > 0) {
-            matchNotes += `\n\nConcerns: ${score.concerns.join(', ')}`;
-          }
-
-          // Build fields object
-          const matchFields: any = {
-            'Match Score': score.score,
-            'Match Notes': matchNotes,
-            'Match Status': 'Active',
-            'Is Priority': score.isPriority,
-            'Distance': score.distanceMiles,
-          };
-
-          // Check if this is an update or create
-          const existingMatchId = matchMap.get(pairKey);
-          if (existingMatchId) {
-            // Queue for batch update
-            matchesToUpdate.push({
-              id: existingMatchId,
-              fields: matchFields,
-            });
-          } else {
-            // Queue for batch create
-            // Linked record fields need Airtable record IDs
-            matchFields['Property Code'] = [property.id];
-            matchFields['Contact ID'] = [buyer.id];
-            // Text fields for GHL identifiers
-            matchFields['Contact ID (for GHL)'] = buyer.fields['Contact ID'];
-            matchFields['Opportunity ID (for GHL) '] = property.fields['Property Code'];
-            matchesToCreate.push({
-              fields: matchFields,
-            });
-          }
-
-          if (score.isPriority) {
-            withinRadius++;
-          }
-        }
+    const travelTimes = await computeAnchorTravelTimes(buyers, properties);
+    const ctx: BuyerScoringContext = { minScore, refreshAll, profileId, profiles, skipSet, matchMap, delta, travelTimes };
+    const totals = emptyScoringTotals();
+    const progressInterval = Math.max(1, Math.floor(buyers.length / 10)); // Log every 10%
+
+    buyers.forEach((buyer: AirtableRecord, index: number) => {
+      scoreBuyerMatches(buyer, properties, ctx, totals);
+
+      // Log progress periodically
+      const processed = index + 1;
+      if (processed % progressInterval === 0 || processed === buyers.length) {
+        const elapsed = Date.now() - startTime;
+        const progress = (processed / buyers.length * 100).toFixed(1);
+        console.log(`[Matching] Progress: ${progress}% (${processed}/${buyers.length} buyers) - ${elapsed}ms elapsed - ${totals.matchesToCreate.length + totals.matchesToUpdate.length} matches above threshold`);
       }
-    }
+    });
+
+    const { matchesToCreate, matchesToUpdate, matchesToDelete, excludedPairs, duplicatesSkipped, withinRadius, pairsRescored, pairsSkipped } = totals;
 
     // Execute batch operations
-    console.log(`[Matching] Executing batch operations: ${matchesToCreate.length} creates, ${matchesToUpdate.length} updates`);
+    console.log(`[Matching] Executing batch operations: ${matchesToCreate.length} creates, ${matchesToUpdate.length} updates, ${matchesToDelete.length} deletes`);
     const matchesCreated = await batchCreateMatches(matchesToCreate, headers);
     const matchesUpdated = await batchUpdateMatches(matchesToUpdate, headers);
+    const matchesRemoved = await batchDeleteMatches(matchesToDelete, headers);
 
-    // Auto-refresh matches cache if we created or updated any matches
-    if (matchesCreated > 0 || matchesUpdated > 0) {
-      console.log('[Matching] Auto-refreshing matches cache with new data...');
-      try {
-        // Fetch all matches from Airtable to refresh the cache
-        const allMatchesRes = await fetch(
-          `${AIRTABLE_API_URL}/${AIRTABLE_BASE_ID}/Property-Buyer%20Matches`,
-          { headers }
-        );
-
-        if (allMatchesRes.ok) {
-          const allMatchesData = await allMatchesRes.json();
-          const allMatches = allMatchesData.records || [];
-
-          // Build indexes for fast lookup
-          const buyerIndex: Record<string, string[]> = {};
-          const propertyIndex: Record<string, string[]> = {};
-
-          allMatches.forEach((r: any) => {
-            const buyerRecordId = r.fields['Contact ID']?.[0] || '';
-            const propertyRecordId = r.fields['Property Code']?.[0] || '';
-
-            if (buyerRecordId) {
-              if (!buyerIndex[buyerRecordId]) buyerIndex[buyerRecordId] = [];
-              buyerIndex[buyerRecordId].push(r.id);
-            }
-
-            if (propertyRecordId) {
-              if (!propertyIndex[propertyRecordId]) propertyIndex[propertyRecordId] = [];
-              propertyIndex[propertyRecordId].push(r.id);
-            }
-          });
-
-          // Update the cache with fresh data
-          const cacheData = {
-            records: allMatches,
-            buyerIndex,
-            propertyIndex,
-          };
-
-          await updateCacheRecord('matches', cacheData, allMatches.length, headers);
-          console.log('[Matching] Successfully auto-refreshed matches cache with new data');
-        } else {
-          console.warn('[Matching] Failed to fetch matches for cache refresh, will invalidate');
-          await invalidateCache('matches', headers);
-        }
-      } catch (error) {
-        console.error('[Matching] Error auto-refreshing matches cache:', error);
-        await invalidateCache('matches', headers);
-      }
+    // Auto-refresh matches cache if we created, updated or removed any matches
+    if (matchesCreated > 0 || matchesUpdated > 0 || matchesRemoved > 0) {
+      await refreshMatchesCache(headers);
     }
 
+    await saveMatchingWatermark(delta, { minScore, profileId, runStartedAt }, headers);
+
     const totalTime = Date.now() - startTime;
     console.log(`[Matching] Completed in ${totalTime}ms`, {
+      mode: isDelta ? 'delta' : 'full',
       matchesCreated,
       matchesUpdated,
       duplicatesSkipped,
       withinRadius,
+      excludedByRule: excludedPairs.length,
+      matchesRemoved,
+      pairsRescored,
+      pairsSkipped,
     });
 
+    await recordAudit(req, {
+      action: 'matching.run',
+      source: 'matching',
+      targetType: 'Property-Buyer Matches',
+      after: { mode: isDelta ? 'delta' : 'full', minScore, profileId, matchesCreated, matchesUpdated, matchesRemoved },
+      details: `${isDelta ? 'Delta' : 'Full'} run: ${matchesCreated} created, ${matchesUpdated} updated, ${matchesRemoved} removed`,
+    });
+
+    const summary = isDelta
+      ? `Delta matching complete! Re-scored ${pairsRescored} pairs for ${delta.changedBuyerIds.size} changed buyers and ${delta.changedPropertyIds.size} changed properties, skipped ${pairsSkipped} unchanged.`
+      : 'Matching complete!';
+
     return res.status(200).json({
       success: true,
-      message: `Matching complete! Created ${matchesCreated} new matches, updated ${matchesUpdated}, skipped ${duplicatesSkipped} duplicates. Geocoded ${geocodingResult.geocodedBuyers} buyers and ${geocodingResult.geocodedProperties} properties.`,
+      message: `${summary} Created ${matchesCreated} new matches, updated ${matchesUpdated}, skipped ${duplicatesSkipped} duplicates, excluded ${excludedPairs.length} by rule. Geocoded ${geocodingResult.geocodedBuyers} buyers and ${geocodingResult.geocodedProperties} properties.`,
       stats: {
         buyersProcessed: buyers.length,
         propertiesProcessed: properties.length,
@@ -902,6 +1123,14 @@ async function handleRunMatching(req: VercelRequest, res: VercelResponse, header
         matchesUpdated,
         duplicatesSkipped,
         withinRadius,
+        excludedByRule: excludedPairs.length,
+        matchesRemoved,
+        mode: isDelta ? 'delta' : 'full',
+        pairsRescored,
+        pairsSkipped,
+        changedBuyers: isDelta ? delta.changedBuyerIds.size : undefined,
+        changedProperties: isDelta ? delta.changedPropertyIds.size : undefined,
+        watermark: delta.previousRunAt,
         geocodedBuyers: geocodingResult.geocodedBuyers,
         geocodedProperties: geocodingResult.geocodedProperties,
         timeMs: totalTime,
@@ -919,7 +1148,7 @@ async function handleRunMatching(req: VercelRequest, res: VercelResponse, header
  */
 async function handleRunBuyerMatching(req: VercelRequest, res: VercelResponse, headers: any) {
   const { contactId } = req.query;
-  const { minScore = 30 } = req.body || {};
+  const { minScore = 30, profileId } = req.body || {};
 
   if (!contactId) {
     return res.status(400).json({ error: 'contactId is required' });
@@ -978,60 +1207,65 @@ async function handleRunBuyerMatching(req: VercelRequest, res: VercelResponse, h
     properties = directPropertiesData.records || [];
   }
 
-  // Load existing matches for this buyer
+  // Load existing matches and the buyer's scoring profile
   const { matchMap } = await fetchExistingMatches(headers, false);
+  const profile = resolveScoringProfile(await fetchScoringProfiles(headers), profileId, buyer);
 
   const matchesToCreate: any[] = [];
   const matchesToUpdate: any[] = [];
+  const matchesToDelete: string[] = [];
+  const exclusionRules = parseExclusionRules(buyer.fields['Exclusion Rules']);
+  const travelTimes = await computeAnchorTravelTimes([buyer], properties);
+  let excludedByRule = 0;
   let withinRadius = 0;
 
   // Match against all properties
   for (const property of properties) {
-    const score = generateMatchScore(buyer, property);
-
-    if (score.score >= minScore) {
-      // Build match notes
-      let matchNotes = score.reasoning;
-      matchNotes += `\n\nHighlights: ${score.highlights.join(', ')}`;
-      if (score.concerns && score.concerns.length > 0) {
-        matchNotes += `\n\nConcerns: ${score.concerns.join(', ')}`;
-      }
+    // Deal-breakers: drop the pair entirely, including any existing match
+    if (findExclusion(exclusionRules, property)) {
+      excludedByRule++;
+      const excludedMatchId = matchMap.get(`${buyer.id}:${property.id}`);
+      if (excludedMatchId) matchesToDelete.push(excludedMatchId);
+      continue;
+    }
 
-      const matchFields: any = {
-        'Match Score': score.score,
-        'Match Notes': matchNotes,
-        'Match Status': 'Active',
-        'Is Priority': score.isPriority,
-        'Distance': score.distanceMiles,
-      };
+    const score = generateMatchScore(buyer, property, profile, {
+      travelMinutes: travelTimes.get(`${buyer.id}:${property.id}`),
+    });
 
-      const pairKey = `${buyer.id}:${property.id}`;
-      const existingMatchId = matchMap.get(pairKey);
+    const matchFields = buildMatchFields(score);
+    const existingMatchId = matchMap.get(`${buyer.id}:${property.id}`);
 
-      if (existingMatchId) {
-        matchesToUpdate.push({ id: existingMatchId, fields: matchFields });
-      } else {
-        // Linked record fields need Airtable record IDs
-        matchFields['Property Code'] = [property.id];
-        matchFields['Contact ID'] = [buyer.id];
-        // Text fields for GHL identifiers
-        matchFields['Contact ID (for GHL)'] = buyer.fields['Contact ID'];
-        matchFields['Opportunity ID (for GHL) '] = property.fields['Property Code'];
-        matchesToCreate.push({ fields: matchFields });
-      }
+    if (score.score < minScore) {
+      // No longer a match: store the lower score so views stop showing it
+      if (existingMatchId) matchesToUpdate.push({ id: existingMatchId, fields: matchFields });
+      continue;
+    }
 
-      if (score.isPriority) {
-        withinRadius++;
-      }
+    if (existingMatchId) {
+      matchesToUpdate.push({ id: existingMatchId, fields: matchFields });
+    } else {
+      // Linked record fields need Airtable record IDs
+      matchFields['Property Code'] = [property.id];
+      matchFields['Contact ID'] = [buyer.id];
+      // Text fields for GHL identifiers
+      matchFields['Contact ID (for GHL)'] = buyer.fields['Contact ID'];
+      matchFields['Opportunity ID (for GHL) '] = property.fields['Property Code'];
+      matchesToCreate.push({ fields: matchFields });
+    }
+
+    if (score.isPriority) {
+      withinRadius++;
     }
   }
 
   // Execute batch operations
   const matchesCreated = await batchCreateMatches(matchesToCreate, headers);
   const matchesUpdated = await batchUpdateMatches(matchesToUpdate, headers);
+  const matchesRemoved = await batchDeleteMatches(matchesToDelete, headers);
 
-  // Auto-refresh matches cache if we created or updated any matches
-  if (matchesCreated > 0 || matchesUpdated > 0) {
+  // Auto-refresh matches cache if we created, updated or removed any matches
+  if (matchesCreated > 0 || matchesUpdated > 0 || matchesRemoved > 0) {
     console.log('[Matching] Auto-refreshing matches cache with new data...');
     try {
       const allMatchesRes = await fetch(
@@ -1082,6 +1316,8 @@ async function handleRunBuyerMatching(req: VercelRequest, res: VercelResponse, h
       matchesCreated,
       matchesUpdated,
       withinRadius,
+      excludedByRule,
+      matchesRemoved,
     },
   });
 }
@@ -1091,7 +1327,7 @@ async function handleRunBuyerMatching(req: VercelRequest, res: VercelResponse, h
  */
 async function handleRunPropertyMatching(req: VercelRequest, res: VercelResponse, headers: any) {
   const { propertyCode } = req.query;
-  const { minScore = 30 } = req.body || {};
+  const { minScore = 30, profileId } = req.body || {};
 
   if (!propertyCode) {
     return res.status(400).json({ error: 'propertyCode is required' });
@@ -1150,60 +1386,64 @@ async function handleRunPropertyMatching(req: VercelRequest, res: VercelResponse
     buyers = directBuyersData.records || [];
   }
 
-  // Load existing matches for this property
+  // Load existing matches and scoring profiles
   const { matchMap } = await fetchExistingMatches(headers, false);
+  const profiles = await fetchScoringProfiles(headers);
 
   const matchesToCreate: any[] = [];
   const matchesToUpdate: any[] = [];
+  const matchesToDelete: string[] = [];
+  const travelTimes = await computeAnchorTravelTimes(buyers, [property]);
+  let excludedByRule = 0;
   let withinRadius = 0;
 
   // Match against all buyers
   for (const buyer of buyers) {
-    const score = generateMatchScore(buyer, property);
-
-    if (score.score >= minScore) {
-      // Build match notes
-      let matchNotes = score.reasoning;
-      matchNotes += `\n\nHighlights: ${score.highlights.join(', ')}`;
-      if (score.concerns && score.concerns.length > 0) {
-        matchNotes += `\n\nConcerns: ${score.concerns.join(', ')}`;
-      }
+    // Deal-breakers: drop the pair entirely, including any existing match
+    if (findExclusion(parseExclusionRules(buyer.fields['Exclusion Rules']), property)) {
+      excludedByRule++;
+      const excludedMatchId = matchMap.get(`${buyer.id}:${property.id}`);
+      if (excludedMatchId) matchesToDelete.push(excludedMatchId);
+      continue;
+    }
 
-      const matchFields: any = {
-        'Match Score': score.score,
-        'Match Notes': matchNotes,
-        'Match Status': 'Active',
-        'Is Priority': score.isPriority,
-        'Distance': score.distanceMiles,
-      };
+    const score = generateMatchScore(buyer, property, resolveScoringProfile(profiles, profileId, buyer), {
+      travelMinutes: travelTimes.get(`${buyer.id}:${property.id}`),
+    });
 
-      const pairKey = `${buyer.id}:${property.id}`;
-      const existingMatchId = matchMap.get(pairKey);
+    const matchFields = buildMatchFields(score);
+    const existingMatchId = matchMap.get(`${buyer.id}:${property.id}`);
 
-      if (existingMatchId) {
-        matchesToUpdate.push({ id: existingMatchId, fields: matchFields });
-      } else {
-        // Linked record fields need Airtable record IDs
-        matchFields['Property Code'] = [property.id];
-        matchFields['Contact ID'] = [buyer.id];
-        // Text fields for GHL identifiers
-        matchFields['Contact ID (for GHL)'] = buyer.fields['Contact ID'];
-        matchFields['Opportunity ID (for GHL) '] = property.fields['Property Code'];
-        matchesToCreate.push({ fields: matchFields });
-      }
+    if (score.score < minScore) {
+      // No longer a match: store the lower score so views stop showing it
+      if (existingMatchId) matchesToUpdate.push({ id: existingMatchId, fields: matchFields });
+      continue;
+    }
 
-      if (score.isPriority) {
-        withinRadius++;
-      }
+    if (existingMatchId) {
+      matchesToUpdate.push({ id: existingMatchId, fields: matchFields });
+    } else {
+      // Linked record fields need Airtable record IDs
+      matchFields['Property Code'] = [property.id];
+      matchFields['Contact ID'] = [buyer.id];
+      // Text fields for GHL identifiers
+      matchFields['Contact ID (for GHL)'] = buyer.fields['Contact ID'];
+      matchFields['Opportunity ID (for GHL) '] = property.fields['Property Code'];
+      matchesToCreate.push({ fields: matchFields });
+    }
+
+    if (score.isPriority) {
+      withinRadius++;
     }
   }
 
   // Execute batch operations
   const matchesCreated = await batchCreateMatches(matchesToCreate, headers);
   const matchesUpdated = await batchUpdateMatches(matchesToUpdate, headers);
+  const matchesRemoved = await batchDeleteMatches(matchesToDelete, headers);
 
-  // Auto-refresh matches cache if we created or updated any matches
-  if (matchesCreated > 0 || matchesUpdated > 0) {
+  // Auto-refresh matches cache if we created, updated or removed any matches
+  if (matchesCreated > 0 || matchesUpdated > 0 || matchesRemoved > 0) {
     console.log('[Matching] Auto-refreshing matches cache with new data...');
     try {
       const allMatchesRes = await fetch(
@@ -1254,6 +1494,8 @@ async function handleRunPropertyMatching(req: VercelRequest, res: VercelResponse
       matchesCreated,
       matchesUpdated,
       withinRadius,
+      excludedByRule,
+      matchesRemoved,
     },
   });
 }
@@ -1262,17 +1504,25 @@ async function handleRunPropertyMatching(req: VercelRequest, res: VercelResponse
  * Debug endpoint to check geocoding configuration
  */
 async function handleDebugGeocode(req: VercelRequest, res: VercelResponse, headers: any) {
-  const mapboxConfigured = isMapboxConfigured();
+  const providers = getGeocodeProviders().map((provider) => ({
+    name: provider.name,
+    configured: provider.isConfigured(),
+  }));
+  const networkConfigured = providers.some((provider) => provider.configured);
   const mapboxTokenLength = process.env.MAPBOX_ACCESS_TOKEN?.length || 0;
 
-  // Test geocoding with a known location
+  // Test geocoding with a known location, offline and through the network chain
   let geocodeTest = null;
-  if (mapboxConfigured) {
-    try {
-      geocodeTest = await geocode('New Orleans, LA');
-    } catch (error: any) {
-      geocodeTest = { error: error.message };
-    }
+  try {
+    geocodeTest = {
+      zip: await geocodeLocation({ city: 'New Orleans', state: 'LA', zip: '70112' }, { precision: 'zip' }),
+      city: networkConfigured
+        ? await geocodeLocation({ city: 'New Orleans', state: 'LA' }, { precision: 'city' })
+        : null,
+    };
+    await flushGeocodeCache();
+  } catch (error: any) {
+    geocodeTest = { error: error.message };
   }
 
   // Check a sample buyer and property for Lat/Lng
@@ -1315,16 +1565,20 @@ async function handleDebugGeocode(req: VercelRequest, res: VercelResponse, heade
     status: 'ok',
     timestamp: new Date().toISOString(),
     configuration: {
-      mapboxConfigured,
+      providers,
+      zipCentroids: getZipCentroidCount(),
+      zipCentroidSource: ZIP_CENTROIDS_SOURCE,
       mapboxTokenLength,
       mapboxTokenPrefix: process.env.MAPBOX_ACCESS_TOKEN?.substring(0, 10) + '...',
     },
     geocodeTest,
     sampleData,
-    diagnosis: !mapboxConfigured
-      ? '❌ MAPBOX_ACCESS_TOKEN is not set in Vercel environment variables'
-      : geocodeTest && typeof geocodeTest === 'object' && 'error' in geocodeTest
-      ? '❌ Mapbox token is invalid or API error'
+    diagnosis: geocodeTest && 'error' in geocodeTest
+      ? '❌ Geocoding error'
+      : !networkConfigured
+      ? '⚠️ No network geocoding provider configured - only ZIP-level locations can be placed'
+      : geocodeTest && !geocodeTest.city
+      ? '❌ Network geocoding returned no result - check provider keys'
       : '✅ Geocoding is configured and working',
   });
 }
@@ -1536,6 +1790,7 @@ async function handleAggregatedBuyers(
       preferredLocation: buyer.fields['Preferred Location'] || buyer.fields['Location'],
       preferredZipCodes,
       buyerType: buyer.fields['Buyer Type'],
+      dealType: buyer.fields['Deal Type'],
       qualified: ['Yes', 'yes', 'YES', 'true', true, 1, '1'].includes(buyer.fields['Qualified']),
       language: buyer.fields['Language'] === 'Spanish' ? 'Spanish' : 'English',
       matches: buyerMatches,
@@ -1559,9 +1814,100 @@ async function handleAggregatedBuyers(
 }
 
 /**
- * Fetch properties with their matches in an optimized way
+ * One page of Properties, kept in memory for AGGREGATED_CACHE_TTL
+ * Cached pages don't carry Airtable's next-page offset.
  */
-async function handleAggregatedProperties(
+async function fetchAggregatedPropertyPage(
+  limitNum: number,
+  offsetStr: string,
+  headers: any
+): Promise<{ records: any[]; offset?: string }> {
+  console.log(`[Aggregated] Fetching properties with limit=${limitNum}, offset=${offsetStr}`);
+
+  const propertiesCacheKey = `properties-${limitNum}-${offsetStr}`;
+  const cachedProperties = aggregatedPropertiesCache.get(propertiesCacheKey);
+
+  if (cachedProperties && Date.now() - cachedProperties.timestamp < AGGREGATED_CACHE_TTL) {
+    console.log(`[Aggregated] Using cached properties (age: ${Math.floor((Date.now() - cachedProperties.timestamp) / 1000)}s)`);
+    return { records: cachedProperties.data, offset: undefined };
+  }
+
+  const propertiesUrl = `${AIRTABLE_API_URL}/${AIRTABLE_BASE_ID}/Properties?maxRecords=${limitNum}${offsetStr ? `&offset=${offsetStr}` : ''}`;
+
+  const propertiesRes = await fetch(propertiesUrl, { headers });
+  if (!propertiesRes.ok) {
+    throw new Error(`Failed to fetch properties: ${propertiesRes.status} ${propertiesRes.statusText}`);
+  }
+
+  const propertiesData = await propertiesRes.json();
+  const properties = propertiesData.records || [];
+
+  aggregatedPropertiesCache.set(propertiesCacheKey, { data: properties, timestamp: Date.now() });
+  console.log(`[Aggregated] Cached properties data`);
+
+  return { records: properties, offset: propertiesData.offset };
+}
+
+/**
+ * Property fields shared by the aggregated and public listing responses
+ */
+function toPropertySummary(property: any) {
+  return {
+    recordId: property.id,
+    propertyCode: property.fields['Property Code'] || '',
+    opportunityId: property.fields['Opportunity ID'],
+    address: property.fields['Address'] || '',
+    city: property.fields['City'] || '',
+    state: property.fields['State'],
+    zipCode: property.fields['Zip Code'] || property.fields['Zip'] || extractZipFromCity(property.fields['City']),
+    price: property.fields['Property Total Price'] || property.fields['Price'],
+    beds: property.fields['Beds'] || 0,
+    baths: property.fields['Baths'] || 0,
+    sqft: property.fields['Sqft'],
+    stage: property.fields['Stage'],
+    heroImage: property.fields['Hero Image']?.[0]?.url || property.fields['Hero Image'],
+    notes: property.fields['Notes'] || property.fields['Description'] || '',
+    propertyLat: property.fields['Lat'],
+    propertyLng: property.fields['Lng'],
+    monthlyPayment: property.fields['Monthly Payment'],
+    downPayment: property.fields['Down Payment'],
+    images: collectSupportingImages(property.fields),
+    propertyType: property.fields['Property Type'],
+    condition: property.fields['Property Current Condition'],
+    source: property.fields['Source'],
+    zillowUrl: property.fields['Zillow URL'] || property.fields['Zillow Link'],
+    daysOnMarket: property.fields['Days on Market'],
+    createdAt: property.fields['Created At'] || property.createdTime,
+  };
+}
+
+/**
+ * Properties for the public /listings page - property fields only
+ * Query: limit, offset
+ */
+async function handleListingProperties(
+  req: VercelRequest,
+  res: VercelResponse,
+  headers: any
+) {
+  const { limit = '50', offset = '' } = req.query;
+
+  const propertiesData = await fetchAggregatedPropertyPage(
+    parseInt(limit as string),
+    offset as string,
+    headers
+  );
+
+  return res.status(200).json({
+    data: propertiesData.records.map(toPropertySummary),
+    nextOffset: propertiesData.offset || null,
+  });
+}
+
+/**
+ * Fetch properties with their matches in an optimized way
+ */
+async function handleAggregatedProperties(
   req: VercelRequest,
   res: VercelResponse,
   headers: any
@@ -1586,36 +1932,13 @@ async function handleAggregatedProperties(
     dateRange: dateRange as string,
   };
 
-  const limitNum = parseInt(limit as string);
-  const offsetStr = offset as string;
-
   // Step 1: Fetch properties (paginated) with caching
-  console.log(`[Aggregated] Fetching properties with limit=${limitNum}, offset=${offsetStr}`);
-
-  const propertiesCacheKey = `properties-${limitNum}-${offsetStr}`;
-  const cachedProperties = aggregatedPropertiesCache.get(propertiesCacheKey);
-
-  let properties: any[];
-  let propertiesData: any;
-
-  if (cachedProperties && Date.now() - cachedProperties.timestamp < AGGREGATED_CACHE_TTL) {
-    console.log(`[Aggregated] Using cached properties (age: ${Math.floor((Date.now() - cachedProperties.timestamp) / 1000)}s)`);
-    properties = cachedProperties.data;
-    propertiesData = { records: properties, offset: undefined };
-  } else {
-    const propertiesUrl = `${AIRTABLE_API_URL}/${AIRTABLE_BASE_ID}/Properties?maxRecords=${limitNum}${offsetStr ? `&offset=${offsetStr}` : ''}`;
-
-    const propertiesRes = await fetch(propertiesUrl, { headers });
-    if (!propertiesRes.ok) {
-      throw new Error(`Failed to fetch properties: ${propertiesRes.status} ${propertiesRes.statusText}`);
-    }
-
-    propertiesData = await propertiesRes.json();
-    properties = propertiesData.records || [];
-
-    aggregatedPropertiesCache.set(propertiesCacheKey, { data: properties, timestamp: Date.now() });
-    console.log(`[Aggregated] Cached properties data`);
-  }
+  const propertiesData = await fetchAggregatedPropertyPage(
+    parseInt(limit as string),
+    offset as string,
+    headers
+  );
+  const properties = propertiesData.records;
 
   console.log(`[Aggregated] Fetched ${properties.length} properties in ${Date.now() - startTime}ms`);
 
@@ -1729,6 +2052,7 @@ async function handleAggregatedProperties(
             city: buyer.fields['City'],
             location: buyer.fields['Location'],
             buyerType: buyer.fields['Buyer Type'],
+            dealType: buyer.fields['Deal Type'],
             qualified: ['Yes', 'yes', 'YES', 'true', true, 1, '1'].includes(buyer.fields['Qualified']),
             language: buyer.fields['Language'] === 'Spanish' ? 'Spanish' : 'English',
           } : null,
@@ -1736,31 +2060,7 @@ async function handleAggregatedProperties(
       });
 
     return {
-      recordId: property.id,
-      propertyCode: property.fields['Property Code'] || '',
-      opportunityId: property.fields['Opportunity ID'],
-      address: property.fields['Address'] || '',
-      city: property.fields['City'] || '',
-      state: property.fields['State'],
-      zipCode: property.fields['Zip Code'] || property.fields['Zip'] || extractZipFromCity(property.fields['City']),
-      price: property.fields['Property Total Price'] || property.fields['Price'],
-      beds: property.fields['Beds'] || 0,
-      baths: property.fields['Baths'] || 0,
-      sqft: property.fields['Sqft'],
-      stage: property.fields['Stage'],
-      heroImage: property.fields['Hero Image']?.[0]?.url || property.fields['Hero Image'],
-      notes: property.fields['Notes'] || property.fields['Description'] || '',
-      propertyLat: property.fields['Lat'],
-      propertyLng: property.fields['Lng'],
-      monthlyPayment: property.fields['Monthly Payment'],
-      downPayment: property.fields['Down Payment'],
-      images: collectSupportingImages(property.fields),
-      propertyType: property.fields['Property Type'],
-      condition: property.fields['Property Current Condition'],
-      source: property.fields['Source'],
-      zillowUrl: property.fields['Zillow URL'] || property.fields['Zillow Link'],
-      daysOnMarket: property.fields['Days on Market'],
-      createdAt: property.fields['Created At'] || property.createdTime,
+      ...toPropertySummary(property),
       matches: propertyMatches,
       totalMatches: propertyMatches.length,
     };
@@ -1789,7 +2089,7 @@ async function handleAggregatedProperties(
  * Clear all matches - deletes all records from Property-Buyer Matches table
  */
 async function handleClearMatches(
-  _req: VercelRequest,
+  req: VercelRequest,
   res: VercelResponse,
   headers: any
 ) {
@@ -1856,6 +2156,15 @@ async function handleClearMatches(
 
     console.log(`[Clear Matches] Successfully deleted all ${deletedCount} matches`);
 
+    await recordAudit(req, {
+      action: 'matching.cleared',
+      source: 'matching',
+      targetType: 'Property-Buyer Matches',
+      before: { matchCount: allRecordIds.length },
+      after: { matchCount: 0 },
+      details: `Deleted ${deletedCount} matches`,
+    });
+
     return res.status(200).json({
       success: true,
       message: `Deleted ${deletedCount} matches`,
@@ -1885,7 +2194,7 @@ async function handleBuyerProperties(
   headers: any
 ) {
   const startTime = Date.now();
-  const { buyerId } = req.query;
+  const { buyerId, profileId } = req.query;
 
   if (!buyerId || typeof buyerId !== 'string') {
     return res.status(400).json({ error: 'buyerId is required' });
@@ -1968,12 +2277,38 @@ async function handleBuyerProperties(
       }
     }
 
+    const profile = resolveScoringProfile(
+      await fetchScoringProfiles(headers),
+      typeof profileId === 'string' ? profileId : undefined,
+      buyer
+    );
+
     console.log(`[Buyer Properties] Found ${matchesByPropertyId.size} existing matches for buyer`);
-    console.log(`[Buyer Properties] Scoring ${properties.length} properties for buyer`);
+    console.log(`[Buyer Properties] Scoring ${properties.length} properties for buyer with profile ${profile.id}`);
+
+    // Step 2.75: Hide properties that trip the buyer's exclusion rules
+    const exclusionRules = parseExclusionRules(buyer.fields['Exclusion Rules']);
+    const excluded: Array<{ propertyId: string; address: string; ruleId: string; reason: string }> = [];
+    const allowedProperties = properties.filter((property) => {
+      const exclusion = findExclusion(exclusionRules, property);
+      if (exclusion) {
+        excluded.push({
+          propertyId: property.id,
+          address: property.fields['Address'] || '',
+          ruleId: exclusion.ruleId,
+          reason: exclusion.reason,
+        });
+        return false;
+      }
+      return true;
+    });
 
-    // Step 3: Score all properties for this buyer
-    const scoredProperties = properties.map((property: any) => {
-      const score = generateMatchScore(buyer, property);
+    // Step 3: Score all remaining properties for this buyer
+    const travelTimes = await computeAnchorTravelTimes([buyer], allowedProperties);
+    const scoredProperties = allowedProperties.map((property: any) => {
+      const score = generateMatchScore(buyer, property, profile, {
+        travelMinutes: travelTimes.get(`${buyer.id}:${property.id}`),
+      });
 
       // Look up existing match record for this property
       const existingMatch = matchesByPropertyId.get(property.id);
@@ -2012,12 +2347,17 @@ async function handleBuyerProperties(
           bedsScore: score.bedsScore,
           bathsScore: score.bathsScore,
           budgetScore: score.budgetScore,
+          propertyTypeScore: score.propertyTypeScore,
+          conditionScore: score.conditionScore,
+          sqftScore: score.sqftScore,
           reasoning: score.reasoning,
           locationReason: score.locationReason,
           highlights: score.highlights,
           concerns: score.concerns || [],
           isPriority: score.isPriority,
           distanceMiles: score.distanceMiles,
+          travelTimes: score.travelTimes,
+          profileId: score.profileId,
         },
         // Include match record info if it exists
         matchId: existingMatch?.id || undefined,
@@ -2058,6 +2398,7 @@ async function handleBuyerProperties(
       preferredLocation: buyer.fields['Preferred Location'] || buyer.fields['Location'],
       preferredZipCodes,
       buyerType: buyer.fields['Buyer Type'],
+      dealType: buyer.fields['Deal Type'],
       qualified: ['Yes', 'yes', 'YES', 'true', true, 1, '1'].includes(buyer.fields['Qualified']),
       language: buyer.fields['Language'] === 'Spanish' ? 'Spanish' as const : 'English' as const,
       lat: buyer.fields['Lat'],
@@ -2065,6 +2406,8 @@ async function handleBuyerProperties(
       locationLat: buyer.fields['Lat'],
       locationLng: buyer.fields['Lng'],
       locationSource: buyer.fields['Lat'] && buyer.fields['Lng'] ? 'city' as const : undefined,
+      exclusionRules,
+      anchorPoints: parseAnchorPoints(buyer.fields['Anchor Points']),
     };
 
     const totalTime = Date.now() - startTime;
@@ -2073,12 +2416,15 @@ async function handleBuyerProperties(
 
     return res.status(200).json({
       buyer: buyerInfo,
+      profile: { id: profile.id, name: profile.name },
       priorityMatches,
       exploreMatches,
+      excluded,
       totalCount: scoredProperties.length,
       stats: {
         priorityCount: priorityMatches.length,
         exploreCount: exploreMatches.length,
+        excludedCount: excluded.length,
         timeMs: totalTime,
       },
     });
@@ -2103,7 +2449,7 @@ async function handlePropertyBuyers(
   headers: any
 ) {
   const startTime = Date.now();
-  const { propertyCode } = req.query;
+  const { propertyCode, profileId } = req.query;
 
   if (!propertyCode || typeof propertyCode !== 'string') {
     return res.status(400).json({ error: 'propertyCode is required' });
@@ -2163,9 +2509,20 @@ async function handlePropertyBuyers(
 
     console.log(`[Property Buyers] Scoring ${buyers.length} buyers for property`);
 
-    // Step 3: Score all buyers for this property
-    const scoredBuyers = buyers.map((buyer: any) => {
-      const score = generateMatchScore(buyer, property);
+    const profiles = await fetchScoringProfiles(headers);
+    const requestedProfileId = typeof profileId === 'string' ? profileId : undefined;
+
+    // Step 2.5: Drop buyers whose exclusion rules rule this property out
+    const allowedBuyers = buyers.filter(
+      (buyer) => !findExclusion(parseExclusionRules(buyer.fields['Exclusion Rules']), property)
+    );
+
+    // Step 3: Score all remaining buyers for this property
+    const travelTimes = await computeAnchorTravelTimes(allowedBuyers, [property]);
+    const scoredBuyers = allowedBuyers.map((buyer: any) => {
+      const score = generateMatchScore(buyer, property, resolveScoringProfile(profiles, requestedProfileId, buyer), {
+        travelMinutes: travelTimes.get(`${buyer.id}:${property.id}`),
+      });
 
       const zipCodesRaw = buyer.fields['Preferred Zip Codes'] || buyer.fields['Zip Codes'] || '';
       const preferredZipCodes = typeof zipCodesRaw === 'string'
@@ -2191,6 +2548,7 @@ async function handlePropertyBuyers(
           preferredLocation: buyer.fields['Preferred Location'] || buyer.fields['Location'],
           preferredZipCodes,
           buyerType: buyer.fields['Buyer Type'],
+          dealType: buyer.fields['Deal Type'],
           qualified: ['Yes', 'yes', 'YES', 'true', true, 1, '1'].includes(buyer.fields['Qualified']),
           language: buyer.fields['Language'] === 'Spanish' ? 'Spanish' as const : 'English' as const,
           lat: buyer.fields['Lat'],
@@ -2202,12 +2560,17 @@ async function handlePropertyBuyers(
           bedsScore: score.bedsScore,
           bathsScore: score.bathsScore,
           budgetScore: score.budgetScore,
+          propertyTypeScore: score.propertyTypeScore,
+          conditionScore: score.conditionScore,
+          sqftScore: score.sqftScore,
           reasoning: score.reasoning,
           locationReason: score.locationReason,
           highlights: score.highlights,
           concerns: score.concerns || [],
           isPriority: score.isPriority,
           distanceMiles: score.distanceMiles,
+          travelTimes: score.travelTimes,
+          profileId: score.profileId,
         },
       };
     });
@@ -2255,6 +2618,7 @@ async function handlePropertyBuyers(
       buyers: qualifiedBuyers,
       totalCount: qualifiedBuyers.length,
       stats: {
+        excludedCount: buyers.length - allowedBuyers.length,
         timeMs: totalTime,
       },
     });
@@ -2265,3 +2629,1192 @@ async function handlePropertyBuyers(
   }
 }
 
+// ============================================================================
+// SCORING PROFILES ENDPOINTS
+// ============================================================================
+
+/**
+ * Load scoring profiles from the Matching Profiles table
+ * Falls back to the system profiles if the table is missing or empty
+ */
+async function fetchScoringProfiles(headers: Record<string, string>): Promise<ScoringProfile[]> {
+  try {
+    const response = await fetch(
+      `${AIRTABLE_API_URL}/${AIRTABLE_BASE_ID}/${encodeURIComponent(PROFILES_TABLE)}?maxRecords=1`,
+      { headers }
+    );
+
+    if (!response.ok) {
+      return SYSTEM_SCORING_PROFILES;
+    }
+
+    const data = await response.json();
+    const raw = data.records?.[0]?.fields['Profiles'];
+    if (!raw) {
+      return SYSTEM_SCORING_PROFILES;
+    }
+
+    const stored = typeof raw === 'string' ? JSON.parse(raw) : raw;
+    return mergeScoringProfiles(Array.isArray(stored) ? stored : []);
+  } catch (error) {
+    console.error('[Matching] Error loading scoring profiles, using system profiles:', error);
+    return SYSTEM_SCORING_PROFILES;
+  }
+}
+
+/**
+ * Get all scoring profiles (system profiles merged with saved overrides)
+ */
+async function handleGetProfiles(
+  _req: VercelRequest,
+  res: VercelResponse,
+  headers: Record<string, string>
+) {
+  const profiles = await fetchScoringProfiles(headers);
+  return res.status(200).json({ profiles });
+}
+
+/**
+ * Save custom scoring profiles
+ * Body: { profiles: ScoringProfile[] } - entries override system profiles by id
+ */
+async function handleUpdateProfiles(
+  req: VercelRequest,
+  res: VercelResponse,
+  headers: Record<string, string>
+) {
+  const { profiles } = req.body || {};
+
+  if (!Array.isArray(profiles) || profiles.some((p: Partial<ScoringProfile>) => !p?.id)) {
+    return res.status(400).json({ error: 'profiles must be an array of profiles with an id' });
+  }
+
+  try {
+    // Check for existing record
+    const listUrl = `${AIRTABLE_API_URL}/${AIRTABLE_BASE_ID}/${encodeURIComponent(PROFILES_TABLE)}?maxRecords=1`;
+    const listResponse = await fetch(listUrl, { headers });
+    const listData = await listResponse.json();
+    const recordId = listData.records?.[0]?.id;
+
+    const fields = {
+      'Profiles': JSON.stringify(profiles),
+      'Updated At': new Date().toISOString(),
+    };
+
+    const response = await fetch(
+      recordId
+        ? `${AIRTABLE_API_URL}/${AIRTABLE_BASE_ID}/${encodeURIComponent(PROFILES_TABLE)}/${recordId}`
+        : `${AIRTABLE_API_URL}/${AIRTABLE_BASE_ID}/${encodeURIComponent(PROFILES_TABLE)}`,
+      {
+        method: recordId ? 'PATCH' : 'POST',
+        headers,
+        body: JSON.stringify({ fields }),
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.json();
+      return res.status(response.status).json({
+        error: 'Failed to update scoring profiles',
+        details: error,
+      });
+    }
+
+    // Scores depend on profile weights, so the next delta run must re-score everything
+    await invalidateCache(MATCHING_WATERMARK_KEY, headers);
+
+    const previousProfiles = listData.records?.[0]?.fields?.['Profiles'];
+    await recordAudit(req, {
+      action: 'matching.profiles-updated',
+      source: 'matching',
+      targetType: PROFILES_TABLE,
+      targetId: recordId,
+      before: previousProfiles ? JSON.parse(previousProfiles) : null,
+      after: profiles,
+    });
+
+    return res.status(200).json({
+      success: true,
+      profiles: mergeScoringProfiles(profiles),
+    });
+  } catch (error) {
+    console.error('[Matching] Update profiles error:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to update scoring profiles',
+    });
+  }
+}
+
+// ============================================================================
+// EXCLUSION RULES ENDPOINT
+// ============================================================================
+
+/**
+ * Save a buyer's exclusion rules and delete existing matches that violate them
+ * Query: buyerId (Airtable record ID) - Body: { rules: ExclusionRule[] }
+ */
+async function handleUpdateExclusions(
+  req: VercelRequest,
+  res: VercelResponse,
+  headers: Record<string, string>
+) {
+  const { buyerId } = req.query;
+  const { rules } = req.body || {};
+
+  if (!buyerId || typeof buyerId !== 'string') {
+    return res.status(400).json({ error: 'buyerId is required' });
+  }
+  if (!Array.isArray(rules)) {
+    return res.status(400).json({ error: 'rules must be an array' });
+  }
+
+  const exclusionRules: ExclusionRule[] = parseExclusionRules(rules);
+
+  // Previous rules, for the audit trail
+  const buyerRes = await fetch(`${AIRTABLE_API_URL}/${AIRTABLE_BASE_ID}/Buyers/${buyerId}`, { headers });
+  const buyerFields: Record<string, unknown> = buyerRes.ok ? (await buyerRes.json()).fields || {} : {};
+
+  // Step 1: Save rules on the buyer record
+  const updateRes = await fetch(
+    `${AIRTABLE_API_URL}/${AIRTABLE_BASE_ID}/Buyers/${buyerId}`,
+    {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify({ fields: { 'Exclusion Rules': JSON.stringify(exclusionRules) } }),
+    }
+  );
+
+  if (!updateRes.ok) {
+    const error = await updateRes.json().catch(() => ({}));
+    return res.status(updateRes.status).json({
+      error: 'Failed to save exclusion rules',
+      details: error,
+    });
+  }
+
+  // Buyers cache now holds stale rules
+  await invalidateCache('buyers', headers);
+
+  // Step 2: Find existing matches for this buyer that the new rules exclude
+  const propertiesData = await fetchCachedData('properties', headers);
+  let properties = propertiesData?.records || [];
+  if (!propertiesData || properties.length === 0) {
+    properties = await fetchAllRecordsFromTable('Properties', headers);
+  }
+  const propertiesById = new Map(properties.map((p) => [p.id, p]));
+
+  const { matchMap } = await fetchExistingMatches(headers, false);
+  const matchesToDelete: string[] = [];
+
+  for (const [pairKey, matchId] of matchMap) {
+    const [matchBuyerId, propertyId] = pairKey.split(':');
+    if (matchBuyerId !== buyerId) continue;
+
+    const property = propertiesById.get(propertyId);
+    if (property && findExclusion(exclusionRules, property)) {
+      matchesToDelete.push(matchId);
+    }
+  }
+
+  // Step 3: Clean up violating matches
+  const matchesRemoved = await batchDeleteMatches(matchesToDelete, headers);
+  if (matchesRemoved > 0) {
+    await invalidateCache('matches', headers);
+  }
+
+  console.log(`[Matching] Saved ${exclusionRules.length} exclusion rules for buyer ${buyerId}, removed ${matchesRemoved} matches`);
+
+  await recordAudit(req, {
+    action: 'buyer.exclusions-updated',
+    source: 'matching',
+    targetType: 'Buyers',
+    targetId: buyerId,
+    targetLabel: [buyerFields['First Name'], buyerFields['Last Name']].filter(Boolean).join(' ') || undefined,
+    before: parseExclusionRules(buyerFields['Exclusion Rules']),
+    after: exclusionRules,
+    details: matchesRemoved > 0 ? `Removed ${matchesRemoved} matches` : undefined,
+  });
+
+  return res.status(200).json({
+    success: true,
+    rules: exclusionRules,
+    matchesRemoved,
+  });
+}
+
+// ============================================================================
+// ANCHOR POINTS ENDPOINT
+// ============================================================================
+
+/**
+ * Geocode and save a buyer's anchor points
+ * Query: buyerId (Airtable record ID) - Body: { anchors: AnchorPoint[] }
+ * Anchors keep their stored coordinates while the address is unchanged.
+ * Existing matches are re-scored on the next matching run.
+ */
+async function handleUpdateAnchors(
+  req: VercelRequest,
+  res: VercelResponse,
+  headers: Record<string, string>
+) {
+  const { buyerId } = req.query;
+  const { anchors } = req.body || {};
+
+  if (!buyerId || typeof buyerId !== 'string') {
+    return res.status(400).json({ error: 'buyerId is required' });
+  }
+  if (!Array.isArray(anchors)) {
+    return res.status(400).json({ error: 'anchors must be an array' });
+  }
+
+  // Previous anchors, for their coordinates and the audit trail
+  const buyerRes = await fetch(`${AIRTABLE_API_URL}/${AIRTABLE_BASE_ID}/Buyers/${buyerId}`, { headers });
+  const buyerFields: Record<string, unknown> = buyerRes.ok ? (await buyerRes.json()).fields || {} : {};
+  const previous = new Map(parseAnchorPoints(buyerFields['Anchor Points']).map((anchor) => [anchor.id, anchor]));
+
+  // Step 1: Locate each anchor
+  const anchorPoints: AnchorPoint[] = [];
+  const unresolved: string[] = [];
+
+  for (const anchor of parseAnchorPoints(anchors)) {
+    const address = anchor.address.trim();
+    const stored = previous.get(anchor.id);
+    const maxMinutes = Number(anchor.maxMinutes) > 0 ? Number(anchor.maxMinutes) : undefined;
+    const base = { id: anchor.id, type: anchor.type, label: anchor.label?.trim() || anchor.type, address, maxMinutes, createdAt: anchor.createdAt };
+
+    if (stored && stored.address === address && typeof stored.lat === 'number' && typeof stored.lng === 'number') {
+      anchorPoints.push({ ...base, lat: stored.lat, lng: stored.lng });
+      continue;
+    }
+
+    const location = await geocodeLocation({ address, state: buyerFields['State'] as string | undefined });
+    if (location) {
+      anchorPoints.push({ ...base, lat: location.lat, lng: location.lng });
+    } else {
+      unresolved.push(address);
+    }
+  }
+  await flushGeocodeCache();
+
+  if (unresolved.length > 0) {
+    return res.status(400).json({
+      error: `Could not locate ${unresolved.join('; ')}`,
+      details: { unresolved },
+    });
+  }
+
+  // Step 2: Save anchors on the buyer record
+  const updateRes = await fetch(
+    `${AIRTABLE_API_URL}/${AIRTABLE_BASE_ID}/Buyers/${buyerId}`,
+    {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify({ fields: { 'Anchor Points': JSON.stringify(anchorPoints) } }),
+    }
+  );
+
+  if (!updateRes.ok) {
+    const error = await updateRes.json().catch(() => ({}));
+    return res.status(updateRes.status).json({
+      error: 'Failed to save anchor points',
+      details: error,
+    });
+  }
+
+  // Buyers cache now holds stale anchors
+  await invalidateCache('buyers', headers);
+
+  console.log(`[Matching] Saved ${anchorPoints.length} anchor points for buyer ${buyerId}`);
+
+  await recordAudit(req, {
+    action: 'buyer.anchors-updated',
+    source: 'matching',
+    targetType: 'Buyers',
+    targetId: buyerId,
+    targetLabel: [buyerFields['First Name'], buyerFields['Last Name']].filter(Boolean).join(' ') || undefined,
+    before: [...previous.values()],
+    after: anchorPoints,
+  });
+
+  return res.status(200).json({
+    success: true,
+    anchors: anchorPoints,
+  });
+}
+
+// ============================================================================
+// MATCHING JOBS (chunked, resumable full matching)
+// ============================================================================
+
+const MATCHING_JOB_KEY = 'matching-job';
+const JOB_BUYER_BATCH_SIZE = 10;
+const JOB_TIME_BUDGET_MS = 40 * 1000; // Stop starting new batches well before the 60s limit
+const JOB_LEASE_MS = 55 * 1000; // Another invocation may take over after this
+
+/**
+ * Job state persisted in System Cache between invocations
+ * Buyers are scored in record id order; lastBuyerId is the cursor, so the
+ * state stays small and survives buyers being added to the cache mid-job.
+ * writesPending is set while a batch's match writes are in flight - if the
+ * invocation dies there, the next one re-reads matches from Airtable so the
+ * re-run batch updates the matches it already created instead of duplicating them.
+ */
+interface MatchingJobState {
+  jobId: string;
+  status: 'running' | 'completed' | 'error';
+  minScore: number;
+  refreshAll: boolean;
+  profileId?: string;
+  runStartedAt: string;
+  updatedAt: string;
+  totalBuyers: number;
+  processedBuyers: number;
+  lastBuyerId: string | null;
+  writesPending?: boolean;
+  totalProperties: number;
+  previousRunAt: string | null;
+  changedBuyerIds: string[];
+  changedPropertyIds: string[];
+  excludedByRule: number;
+  matchesCreated: number;
+  matchesUpdated: number;
+  matchesRemoved: number;
+  duplicatesSkipped: number;
+  withinRadius: number;
+  pairsRescored: number;
+  pairsSkipped: number;
+  geocodedBuyers: number;
+  geocodedProperties: number;
+  lockedUntil?: number;
+  error?: string;
+}
+
+/**
+ * Shape returned to the client (MatchingJobStatus in src/types/matching.ts)
+ */
+function toJobStatus(state: MatchingJobState | null) {
+  if (!state) return { status: 'idle' as const };
+
+  const { totalBuyers, processedBuyers } = state;
+  return {
+    jobId: state.jobId,
+    status: state.status,
+    mode: state.previousRunAt ? 'delta' as const : 'full' as const,
+    progress: state.status === 'completed' || totalBuyers === 0
+      ? 100
+      : Math.min(99, Math.round((processedBuyers / totalBuyers) * 100)),
+    totalBuyers,
+    totalProperties: state.totalProperties,
+    processedBuyers,
+    createdMatches: state.matchesCreated,
+    updatedMatches: state.matchesUpdated,
+    removedMatches: state.matchesRemoved,
+    excludedByRule: state.excludedByRule,
+    pairsRescored: state.pairsRescored,
+    pairsSkipped: state.pairsSkipped,
+    startedAt: state.runStartedAt,
+    updatedAt: state.updatedAt,
+    error: state.error,
+  };
+}
+
+async function saveJobState(state: MatchingJobState, headers: Record<string, string>): Promise<void> {
+  state.updatedAt = new Date().toISOString();
+  await updateCacheRecord(MATCHING_JOB_KEY, state, state.totalBuyers, headers);
+}
+
+/**
+ * Buyers a job scores, in record id order
+ * Delta jobs skip buyers that cannot produce re-scored pairs.
+ */
+function selectJobBuyers(buyers: AirtableRecord[], delta: MatchingDelta): AirtableRecord[] {
+  return buyers
+    .filter((b) => !delta.previousRunAt || delta.changedBuyerIds.has(b.id) || delta.changedPropertyIds.size > 0)
+    .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+}
+
+/**
+ * Load buyers or properties from System Cache, syncing the cache on a miss
+ */
+async function loadCachedRecords(cacheKey: 'buyers' | 'properties', headers: Record<string, string>): Promise<AirtableRecord[]> {
+  const cached = await fetchCachedData(cacheKey, headers);
+  if (cached?.records?.length) return cached.records;
+  return cacheKey === 'buyers' ? syncBuyersCache(headers) : syncPropertiesCache(headers);
+}
+
+/**
+ * Start a matching job
+ * Body: { minScore?, refreshAll?, profileId?, incremental? }
+ * Returns 409 with the current job if one is already running.
+ */
+async function handleStartMatchingJob(
+  req: VercelRequest,
+  res: VercelResponse,
+  headers: Record<string, string>
+) {
+  const { minScore = 30, refreshAll = false, profileId, incremental = false } = req.body || {};
+  const runStartedAt = new Date().toISOString();
+
+  const existing: MatchingJobState | null = await fetchCachedData(MATCHING_JOB_KEY, headers);
+  if (existing?.status === 'running') {
+    return res.status(409).json({
+      error: 'A matching job is already running',
+      job: toJobStatus(existing),
+    });
+  }
+
+  const buyers = await loadCachedRecords('buyers', headers);
+  const properties = await loadCachedRecords('properties', headers);
+
+  const delta: MatchingDelta = incremental && !refreshAll
+    ? await resolveMatchingDelta(buyers, properties, { minScore, profileId }, headers)
+    : { previousRunAt: null, changedBuyerIds: new Set<string>(), changedPropertyIds: new Set<string>() };
+
+  const geocodingResult = await geocodeRecordsWithMissingCoordinates(buyers, properties, headers);
+
+  // Later invocations read records from the cache, so store merged changes and new coordinates
+  if (delta.changedBuyerIds.size > 0 || geocodingResult.geocodedBuyers > 0) {
+    await updateCacheRecord('buyers', { records: buyers }, buyers.length, headers);
+  }
+  if (delta.changedPropertyIds.size > 0 || geocodingResult.geocodedProperties > 0) {
+    await updateCacheRecord('properties', { records: properties }, properties.length, headers);
+  }
+
+  const state: MatchingJobState = {
+    jobId: `job-${Date.now()}`,
+    status: 'running',
+    minScore,
+    refreshAll,
+    profileId,
+    runStartedAt,
+    updatedAt: runStartedAt,
+    totalBuyers: selectJobBuyers(buyers, delta).length,
+    processedBuyers: 0,
+    lastBuyerId: null,
+    totalProperties: properties.length,
+    previousRunAt: delta.previousRunAt,
+    changedBuyerIds: Array.from(delta.changedBuyerIds),
+    changedPropertyIds: Array.from(delta.changedPropertyIds),
+    excludedByRule: 0,
+    matchesCreated: 0,
+    matchesUpdated: 0,
+    matchesRemoved: 0,
+    duplicatesSkipped: 0,
+    withinRadius: 0,
+    pairsRescored: 0,
+    pairsSkipped: 0,
+    geocodedBuyers: geocodingResult.geocodedBuyers,
+    geocodedProperties: geocodingResult.geocodedProperties,
+  };
+
+  await saveJobState(state, headers);
+  console.log(`[Matching] Started job ${state.jobId}: ${state.totalBuyers} buyers × ${properties.length} properties`);
+
+  return res.status(200).json({ success: true, job: toJobStatus(state) });
+}
+
+/**
+ * Process the next buyer batches of the running job until the time budget is spent
+ * Progress is saved after every batch so a timed-out invocation re-runs at most one batch.
+ */
+async function handleContinueMatchingJob(
+  req: VercelRequest,
+  res: VercelResponse,
+  headers: Record<string, string>
+) {
+  const startTime = Date.now();
+  const state: MatchingJobState | null = await fetchCachedData(MATCHING_JOB_KEY, headers);
+
+  if (!state || state.status !== 'running') {
+    return res.status(200).json({ success: true, job: toJobStatus(state) });
+  }
+  if (state.lockedUntil && state.lockedUntil > Date.now()) {
+    return res.status(409).json({
+      error: 'Job is being processed by another request',
+      job: toJobStatus(state),
+    });
+  }
+
+  state.lockedUntil = Date.now() + JOB_LEASE_MS;
+  await saveJobState(state, headers);
+
+  try {
+    const buyers = await loadCachedRecords('buyers', headers);
+    const properties = await loadCachedRecords('properties', headers);
+    // The matches cache is only refreshed when the job completes, so after an
+    // interrupted batch read Airtable to see the matches it already wrote
+    const { skipSet, matchMap } = await fetchExistingMatches(headers, state.refreshAll, state.writesPending);
+    const profiles = await fetchScoringProfiles(headers);
+
+    const delta: MatchingDelta = {
+      previousRunAt: state.previousRunAt,
+      changedBuyerIds: new Set(state.changedBuyerIds),
+      changedPropertyIds: new Set(state.changedPropertyIds),
+    };
+    const remainingBuyers = selectJobBuyers(buyers, delta)
+      .filter((b) => state.lastBuyerId === null || b.id > state.lastBuyerId);
+    let next = 0;
+    const ctx: BuyerScoringContext = {
+      minScore: state.minScore,
+      refreshAll: state.refreshAll,
+      profileId: state.profileId,
+      profiles,
+      skipSet,
+      matchMap,
+      delta,
+      travelTimes: new Map(),
+    };
+
+    while (next < remainingBuyers.length && Date.now() - startTime < JOB_TIME_BUDGET_MS) {
+      const batchBuyers = remainingBuyers.slice(next, next + JOB_BUYER_BATCH_SIZE);
+      const totals = emptyScoringTotals();
+      ctx.travelTimes = await computeAnchorTravelTimes(batchBuyers, properties);
+
+      for (const buyer of batchBuyers) {
+        scoreBuyerMatches(buyer, properties, ctx, totals);
+      }
+
+      state.writesPending = true;
+      state.lockedUntil = Date.now() + JOB_LEASE_MS;
+      await saveJobState(state, headers);
+
+      state.matchesCreated += await batchCreateMatches(totals.matchesToCreate, headers);
+      state.matchesUpdated += await batchUpdateMatches(totals.matchesToUpdate, headers);
+      state.matchesRemoved += await batchDeleteMatches(totals.matchesToDelete, headers);
+      state.excludedByRule += totals.excludedPairs.length;
+      state.duplicatesSkipped += totals.duplicatesSkipped;
+      state.withinRadius += totals.withinRadius;
+      state.pairsRescored += totals.pairsRescored;
+      state.pairsSkipped += totals.pairsSkipped;
+      state.processedBuyers += batchBuyers.length;
+      state.lastBuyerId = batchBuyers[batchBuyers.length - 1].id;
+      state.writesPending = false;
+      state.lockedUntil = Date.now() + JOB_LEASE_MS;
+      next += batchBuyers.length;
+
+      await saveJobState(state, headers);
+      console.log(`[Matching] Job ${state.jobId}: ${state.processedBuyers}/${state.totalBuyers} buyers, ${state.matchesCreated} created`);
+    }
+
+    if (next >= remainingBuyers.length) {
+      if (state.matchesCreated > 0 || state.matchesUpdated > 0 || state.matchesRemoved > 0) {
+        await refreshMatchesCache(headers);
+      }
+      await saveMatchingWatermark(
+        delta,
+        { minScore: state.minScore, profileId: state.profileId, runStartedAt: state.runStartedAt },
+        headers
+      );
+      state.status = 'completed';
+      await recordAudit(req, {
+        action: 'matching.run',
+        source: 'matching',
+        targetType: 'Property-Buyer Matches',
+        targetId: state.jobId,
+        after: {
+          mode: state.previousRunAt ? 'delta' : 'full',
+          minScore: state.minScore,
+          profileId: state.profileId,
+          matchesCreated: state.matchesCreated,
+          matchesUpdated: state.matchesUpdated,
+          matchesRemoved: state.matchesRemoved,
+        },
+        details: `Background job: ${state.matchesCreated} created, ${state.matchesUpdated} updated, ${state.matchesRemoved} removed`,
+      });
+      console.log(`[Matching] Job ${state.jobId} completed in ${Date.now() - new Date(state.runStartedAt).getTime()}ms`);
+    }
+
+    state.lockedUntil = undefined;
+    await saveJobState(state, headers);
+
+    return res.status(200).json({ success: true, job: toJobStatus(state) });
+  } catch (error) {
+    console.error(`[Matching] Job ${state.jobId} failed:`, error);
+    state.status = 'error';
+    state.error = error instanceof Error ? error.message : 'Matching job failed';
+    state.lockedUntil = undefined;
+    await saveJobState(state, headers);
+
+    return res.status(500).json({
+      error: 'Matching job failed',
+      details: state.error,
+      job: toJobStatus(state),
+    });
+  }
+}
+
+/**
+ * Current matching job status (idle when no job has run)
+ */
+async function handleMatchingJobStatus(
+  _req: VercelRequest,
+  res: VercelResponse,
+  headers: Record<string, string>
+) {
+  const state: MatchingJobState | null = await fetchCachedData(MATCHING_JOB_KEY, headers);
+  return res.status(200).json(toJobStatus(state));
+}
+
+// ============ SAVED SEARCHES ============
+
+const ALERT_CHANNELS: AlertChannel[] = ['email', 'sms', 'both'];
+
+// save-search is public: per client IP and per email/phone, per hour
+const SAVE_SEARCH_LIMIT_WINDOW_MS = 60 * 60 * 1000;
+const SAVE_SEARCH_LIMIT_PER_IP = 10;
+const SAVE_SEARCH_LIMIT_PER_CONTACT = 5;
+
+/**
+ * All properties (System Cache first, Airtable on a cache miss)
+ */
+async function loadAllProperties(headers: Record<string, string>): Promise<AirtableRecord[]> {
+  const cached = await fetchCachedData('properties', headers);
+  if (cached?.records?.length) return cached.records;
+  return fetchAllRecordsFromTable('Properties', headers);
+}
+
+type ListingDetails = ReturnType<typeof toListingDetails>;
+
+/**
+ * Property fields needed to evaluate and alert on saved searches
+ */
+function toListingDetails(property: AirtableRecord) {
+  const fields = property.fields;
+  const text = (name: string) => (fields[name] ? String(fields[name]) : undefined);
+  const num = (name: string) => (typeof fields[name] === 'number' ? (fields[name] as number) : undefined);
+  const heroImage = fields['Hero Image'];
+
+  return {
+    recordId: property.id,
+    propertyCode: text('Property Code') || '',
+    opportunityId: text('Opportunity ID'),
+    address: text('Address') || '',
+    city: text('City') || '',
+    state: text('State'),
+    zipCode: text('Zip Code') || text('ZIP Code') || extractZipFromCity(text('City')),
+    price: num('Property Total Price') ?? num('Price'),
+    beds: num('Beds') || 0,
+    baths: num('Baths') || 0,
+    sqft: num('Sqft'),
+    heroImage: Array.isArray(heroImage) ? heroImage[0]?.url : text('Hero Image'),
+    notes: text('Notes') || text('Description') || '',
+    monthlyPayment: num('Monthly Payment'),
+    downPayment: num('Down Payment'),
+    propertyType: text('Property Type'),
+    condition: text('Property Current Condition'),
+    createdAt: text('Created At') || property.createdTime,
+  };
+}
+
+function toListingCandidate(property: AirtableRecord): ListingCandidate {
+  const details = toListingDetails(property);
+  return { ...details, id: details.recordId };
+}
+
+/**
+ * Save a visitor's /listings search and send a confirmation link per channel
+ * Nothing is alerted and no buyer is linked until the visitor confirms
+ * (confirm-search). Properties matching at save time count as already seen,
+ * so only new inventory produces an alert.
+ */
+async function handleSaveSearch(
+  req: VercelRequest,
+  res: VercelResponse,
+  headers: Record<string, string>
+) {
+  const body = req.body || {};
+  const email = typeof body.email === 'string' ? body.email.trim().toLowerCase() : '';
+  const phone = typeof body.phone === 'string' ? body.phone.trim() : '';
+  const firstName = typeof body.firstName === 'string' ? body.firstName.trim() : '';
+
+  if (!firstName) {
+    return res.status(400).json({ error: 'First name is required' });
+  }
+  if (!email && !phone) {
+    return res.status(400).json({ error: 'An email or phone number is required' });
+  }
+  if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    return res.status(400).json({ error: 'Invalid email address' });
+  }
+
+  const channel: AlertChannel = ALERT_CHANNELS.includes(body.channel) ? body.channel : (email ? 'email' : 'sms');
+  if ((channel === 'email' || channel === 'both') && !email) {
+    return res.status(400).json({ error: 'Email alerts need an email address' });
+  }
+  if ((channel === 'sms' || channel === 'both') && !phone) {
+    return res.status(400).json({ error: 'Text alerts need a phone number' });
+  }
+
+  // Confirmation links are only ever built from APP_URL - never from request headers
+  const appUrl = process.env.APP_URL?.replace(/\/+$/, '');
+  if (!appUrl) {
+    console.error('[Matching] APP_URL not configured, refusing to save a search without a confirmation link');
+    return res.status(500).json({ error: 'Saved searches are not configured' });
+  }
+
+  const ip = getClientIp(req);
+  const limit = await consumeRateLimit([
+    ...(ip ? [{ key: `save-search:ip:${ip}`, limit: SAVE_SEARCH_LIMIT_PER_IP, windowMs: SAVE_SEARCH_LIMIT_WINDOW_MS }] : []),
+    { key: `save-search:contact:${email || phone}`, limit: SAVE_SEARCH_LIMIT_PER_CONTACT, windowMs: SAVE_SEARCH_LIMIT_WINDOW_MS },
+  ]);
+  if (!limit.allowed) {
+    const retryAfterSeconds = Math.max(1, Math.ceil(((limit.retryAt || Date.now()) - Date.now()) / 1000));
+    res.setHeader('Retry-After', String(retryAfterSeconds));
+    return res.status(429).json({ error: 'Too many saved searches. Please try again later.', retryAfterSeconds });
+  }
+
+  const input: SaveSearchInput = {
+    firstName,
+    lastName: typeof body.lastName === 'string' ? body.lastName.trim() : '',
+    email: email || undefined,
+    phone: phone || undefined,
+    channel,
+    filters: normalizeFilters(body.filters),
+    favorites: Array.isArray(body.favorites)
+      ? body.favorites.filter((id: unknown): id is string => typeof id === 'string').slice(0, 200)
+      : [],
+    language: body.language === 'Spanish' ? 'Spanish' : 'English',
+  };
+
+  // Confirmations and alerts go to the contact's own email/phone
+  const contact = await findOrCreateSearchContact(input);
+
+  const properties = await loadAllProperties(headers);
+  const alreadyMatching = properties
+    .filter((property) => listingMatchesSearch(input.filters, toListingCandidate(property)))
+    .map((property) => property.id);
+
+  const { search, confirmations } = await storeSavedSearch(
+    { ...input, email: contact.email, phone: contact.phone },
+    contact.id,
+    alreadyMatching
+  );
+
+  const actor = { email: email || phone, name: firstName, role: 'visitor' };
+  const confirmationSentTo = await sendSearchConfirmations(search, confirmations, appUrl, actor);
+
+  await recordAudit(req, {
+    action: 'saved-search.saved',
+    source: 'matching',
+    targetType: 'saved-search',
+    targetId: search.id,
+    targetLabel: `${firstName} ${input.lastName || ''}`.trim(),
+    after: { filters: input.filters, channel, contactId: contact.id, confirmationSentTo },
+    actor,
+  });
+
+  console.log(`[Matching] Saved search ${search.id} for contact ${contact.id}, confirmation sent to: ${confirmationSentTo.join(', ') || 'none'}`);
+
+  return res.status(200).json({
+    success: true,
+    searchId: search.id,
+    summary: describeFilters(search.filters),
+    matchingNow: alreadyMatching.length,
+    confirmed: isSearchConfirmed(search),
+    confirmationSentTo,
+  });
+}
+
+/**
+ * Confirm a saved search's channel from its confirmation link
+ * The first confirmation tags the contact and creates or links the buyer
+ * (with confirmed contact details only), so the visitor enters matching.
+ */
+async function handleConfirmSearch(
+  req: VercelRequest,
+  res: VercelResponse,
+  headers: Record<string, string>
+) {
+  const { searchId, token } = req.body || {};
+  if (typeof searchId !== 'string' || typeof token !== 'string' || !searchId || !token) {
+    return res.status(400).json({ error: 'searchId and token are required' });
+  }
+
+  const confirmation = await confirmSavedSearch(searchId, token);
+  if (!confirmation) {
+    return res.status(400).json({ error: 'Confirmation link is invalid or has expired' });
+  }
+
+  const { search, channel, firstConfirmation } = confirmation;
+  let buyerRecordId = search.buyerRecordId;
+
+  if (firstConfirmation && search.contactId) {
+    await tagConfirmedContact(search.contactId);
+    buyerRecordId = await upsertSearchBuyer(search.contactId, {
+      firstName: search.firstName,
+      lastName: search.lastName,
+      email: channel === 'email' ? search.email : undefined,
+      phone: channel === 'sms' ? search.phone : undefined,
+      filters: search.filters,
+    });
+    await linkSearchBuyer(search.id, buyerRecordId);
+
+    // New buyer should show up in matching right away
+    await invalidateCache('buyers', headers);
+  }
+
+  await recordAudit(req, {
+    action: 'saved-search.confirmed',
+    source: 'matching',
+    targetType: 'saved-search',
+    targetId: search.id,
+    targetLabel: `${search.firstName} ${search.lastName}`.trim(),
+    after: { channel, contactId: search.contactId, buyerRecordId },
+    actor: { email: search.email || search.phone || 'visitor', name: search.firstName, role: 'visitor' },
+  });
+
+  return res.status(200).json({
+    success: true,
+    channel,
+    summary: describeFilters(search.filters),
+  });
+}
+
+async function handleListSavedSearches(req: VercelRequest, res: VercelResponse) {
+  const searches = await listSavedSearches({ activeOnly: req.query.activeOnly === 'true' });
+  return res.status(200).json({
+    searches: searches.map((search) => ({ ...search, summary: describeFilters(search.filters) })),
+  });
+}
+
+/**
+ * Active saved searches with the matching inventory they haven't covered yet
+ */
+async function findSearchAlerts(
+  headers: Record<string, string>
+): Promise<{ searches: SavedSearch[]; alerts: Array<{ search: SavedSearch; properties: ListingDetails[] }> }> {
+  const [searches, properties] = await Promise.all([
+    listSavedSearches({ activeOnly: true }),
+    loadAllProperties(headers),
+  ]);
+
+  const alerts = searches
+    .filter(isSearchConfirmed)
+    .map((search) => {
+      const covered = new Set(search.coveredPropertyIds);
+      const newProperties = properties
+        .filter((property) => !covered.has(property.id))
+        .filter((property) => listingMatchesSearch(search.filters, toListingCandidate(property)))
+        .map(toListingDetails);
+
+      return { search, properties: newProperties };
+    })
+    .filter((alert) => alert.properties.length > 0);
+
+  return { searches, alerts };
+}
+
+function toSendJobProperty(details: ListingDetails): SendJobProperty {
+  return {
+    id: details.recordId,
+    propertyCode: details.propertyCode,
+    address: details.address,
+    city: details.city,
+    state: details.state,
+    price: details.price || 0,
+    beds: details.beds,
+    baths: details.baths,
+    sqft: details.sqft,
+    downPayment: details.downPayment,
+    monthlyPayment: details.monthlyPayment,
+    condition: details.condition as SendJobProperty['condition'],
+    propertyType: details.propertyType as SendJobProperty['propertyType'],
+    description: details.notes,
+  };
+}
+
+/**
+ * New matching inventory for each active saved search
+ */
+async function handleSearchAlerts(
+  _req: VercelRequest,
+  res: VercelResponse,
+  headers: Record<string, string>
+) {
+  const { searches, alerts } = await findSearchAlerts(headers);
+
+  return res.status(200).json({
+    alerts: alerts.map(({ search, properties }) => ({
+      search: { ...search, summary: describeFilters(search.filters) },
+      properties,
+    })),
+    activeSearches: searches.length,
+  });
+}
+
+/**
+ * Send listing alerts for new matching inventory
+ * Runs daily from Vercel Cron for every active search; staff can send
+ * chosen searches on demand (POST { searchIds }).
+ */
+async function handleSendSearchAlerts(
+  req: VercelRequest,
+  res: VercelResponse,
+  headers: Record<string, string>
+) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed. Use GET or POST.' });
+  }
+
+  const searchIds: unknown = req.body?.searchIds;
+  const only = Array.isArray(searchIds) ? new Set(searchIds.filter((id): id is string => typeof id === 'string')) : null;
+
+  const { alerts } = await findSearchAlerts(headers);
+  const toSend = alerts
+    .filter(({ search }) => !only || only.has(search.id))
+    .map(({ search, properties }) => ({ search, properties: properties.map(toSendJobProperty) }));
+
+  const result = await sendSearchAlerts(toSend, getAuditActor(req));
+
+  if (toSend.length > 0) {
+    await recordAudit(req, {
+      action: 'saved-search.alerted',
+      source: 'matching',
+      targetType: 'saved-search',
+      details: `${result.sent} alert(s) sent, ${result.skipped} blocked by consent, ${result.failed} failed`,
+      after: {
+        jobIds: result.jobIds,
+        searches: toSend.map(({ search, properties }) => ({
+          searchId: search.id,
+          propertyIds: properties.map((property) => property.id),
+        })),
+        errors: result.errors,
+      },
+    });
+  }
+
+  return res.status(200).json(result);
+}
+
+async function handleUpdateSavedSearch(req: VercelRequest, res: VercelResponse) {
+  const { searchId, active } = req.body || {};
+  if (!searchId || typeof active !== 'boolean') {
+    return res.status(400).json({ error: 'searchId and active are required' });
+  }
+
+  await setSavedSearchActive(searchId, active);
+
+  await recordAudit(req, {
+    action: 'saved-search.updated',
+    source: 'matching',
+    targetType: 'saved-search',
+    targetId: searchId,
+    before: { active: !active },
+    after: { active },
+  });
+
+  return res.status(200).json({ success: true });
+}
+
+// ============ DEAL PIPELINE ============
+
+function firstValue(value: unknown): string | undefined {
+  const first = Array.isArray(value) ? value[0] : value;
+  return first ? String(first) : undefined;
+}
+
+function toDealBuyer(buyer: AirtableRecord): DealBuyer {
+  const fields = buyer.fields;
+  return {
+    contactId: String(fields['Contact ID'] || ''),
+    recordId: buyer.id,
+    firstName: String(fields['First Name'] || ''),
+    lastName: String(fields['Last Name'] || ''),
+    email: String(fields['Email'] || ''),
+    phone: fields['Phone'] ? String(fields['Phone']) : undefined,
+    qualified: ['Yes', 'yes', 'YES', 'true', true, 1, '1'].includes(fields['Qualified'] as string),
+    language: fields['Language'] === 'Spanish' ? 'Spanish' : 'English',
+  };
+}
+
+function toDealProperty(property: AirtableRecord): DealProperty {
+  return {
+    ...toListingDetails(property),
+    stage: property.fields['Stage'] ? String(property.fields['Stage']) : undefined,
+    images: collectSupportingImages(property.fields),
+  };
+}
+
+/**
+ * Every deal in the pipeline, with its buyer, property and next scheduled showing
+ * Matches are read live (stages change constantly); buyers and properties
+ * come from System Cache, re-synced if a deal points at a record it lacks.
+ */
+async function loadPipelineDeals(headers: Record<string, string>): Promise<Deal[]> {
+  const [matches, cachedBuyers, cachedProperties, showings] = await Promise.all([
+    fetchAllRecordsFromTable('Property-Buyer Matches', headers, `{Match Stage} != ''`) as Promise<AirtableRecord[]>,
+    loadCachedRecords('buyers', headers),
+    loadCachedRecords('properties', headers),
+    listShowings({ status: 'scheduled' }).catch((error) => {
+      console.warn('[Deals] Failed to load showings:', error);
+      return [];
+    }),
+  ]);
+
+  let buyers = cachedBuyers;
+  let properties = cachedProperties;
+  const buyerIds = new Set(buyers.map((b) => b.id));
+  const propertyIds = new Set(properties.map((p) => p.id));
+
+  if (matches.some((m) => { const id = firstValue(m.fields['Contact ID']); return id && !buyerIds.has(id); })) {
+    buyers = await syncBuyersCache(headers);
+  }
+  if (matches.some((m) => { const id = firstValue(m.fields['Property Code']); return id && !propertyIds.has(id); })) {
+    properties = await syncPropertiesCache(headers);
+  }
+
+  const buyersById = new Map<string, DealBuyer>();
+  const buyersByContactId = new Map<string, DealBuyer>();
+  for (const record of buyers) {
+    const buyer = toDealBuyer(record);
+    buyersById.set(buyer.recordId, buyer);
+    if (buyer.contactId) buyersByContactId.set(buyer.contactId, buyer);
+  }
+  const propertiesById = new Map(properties.map((p) => [p.id, p]));
+
+  const now = new Date();
+  const deals: Deal[] = [];
+  for (const match of matches) {
+    const buyer =
+      buyersById.get(firstValue(match.fields['Contact ID']) || '') ||
+      buyersByContactId.get(firstValue(match.fields['Contact ID (for GHL)']) || '');
+    const property = propertiesById.get(firstValue(match.fields['Property Code']) || '');
+    if (!buyer) continue;
+
+    const deal = toDeal(match, buyer, property ? toDealProperty(property) : undefined, now);
+    if (deal) deals.push(deal);
+  }
+
+  console.log(`[Deals] Loaded ${deals.length} deals from ${matches.length} staged matches`);
+  return attachShowings(deals, showings, now);
+}
+
+function pageParams(req: VercelRequest): { offset: number; limit: number } {
+  return {
+    offset: Math.max(0, parseInt(req.query.offset as string) || 0),
+    limit: Math.max(0, parseInt(req.query.limit as string) || 0),
+  };
+}
+
+/**
+ * Deals matching the filters, sorted and paginated
+ * Query: DealFilters fields, sortField, sortDirection, offset, limit (0 = all)
+ */
+async function handleDeals(req: VercelRequest, res: VercelResponse, headers: Record<string, string>) {
+  const filters = parseDealFilters(req.query);
+  const sort = parseDealSort(req.query);
+  const { offset, limit } = pageParams(req);
+
+  const deals = sortDeals(filterDeals(await loadPipelineDeals(headers), filters), sort);
+  const page = paginate(deals, offset, limit);
+
+  return res.status(200).json({
+    deals: page.items,
+    total: page.total,
+    offset: page.offset,
+    limit,
+    nextOffset: page.nextOffset,
+  });
+}
+
+// ============ DEAL AUTOMATION ============
+
+/**
+ * Why a rule can't be saved, or null if it's valid
+ */
+function automationRuleError(rule: AutomationRule): string | null {
+  const knownStage = (stage: unknown) => typeof stage === 'string' && AUTOMATION_STAGES.includes(stage);
+  const { trigger } = rule;
+
+  if (trigger.type === 'reply-received') {
+    if (!Array.isArray(trigger.intents) || trigger.intents.length === 0) return 'needs at least one reply intent';
+    if (trigger.intents.some((intent) => !REPLY_INTENTS.includes(intent))) return 'unknown reply intent';
+  } else if (trigger.type === 'stage-entered' || trigger.type === 'stage-idle') {
+    if (!knownStage(trigger.stage)) return `unknown stage "${trigger.stage}"`;
+    if (trigger.type === 'stage-idle' && !(trigger.days > 0)) return 'idle days must be positive';
+  } else {
+    return `unknown trigger "${(trigger as { type: string }).type}"`;
+  }
+
+  if (rule.conditions.stages?.some((stage) => !knownStage(stage))) return 'unknown stage in conditions';
+  if (rule.actions.length === 0) return 'needs at least one action';
+
+  for (const action of rule.actions) {
+    if (action.type === 'move-stage') {
+      if (!knownStage(action.stage)) return `unknown stage "${action.stage}"`;
+    } else if (action.type === 'send-message') {
+      if (!action.message?.trim()) return 'message is empty';
+    } else if (action.type === 'send-document') {
+      if (rule.enabled && !action.templateId) return 'pick a document template';
+    } else {
+      return `unknown action "${(action as { type: string }).type}"`;
+    }
+  }
+  return null;
+}
+
+async function handleGetAutomationRules(_req: VercelRequest, res: VercelResponse) {
+  const rules = await loadAutomationRules();
+  return res.status(200).json({ rules });
+}
+
+/**
+ * Replace the automation rules
+ * Body: { rules: AutomationRule[] }
+ */
+async function handleUpdateAutomationRules(req: VercelRequest, res: VercelResponse) {
+  const { rules } = req.body || {};
+
+  if (!Array.isArray(rules) || rules.some((r: Partial<AutomationRule>) => !r?.id || !r?.trigger || !Array.isArray(r?.actions))) {
+    return res.status(400).json({ error: 'rules must be an array of rules with an id, trigger and actions' });
+  }
+
+  const normalized = normalizeAutomationRules(rules);
+  for (const rule of normalized) {
+    const problem = automationRuleError(rule);
+    if (problem) {
+      return res.status(400).json({ error: `Rule "${rule.name}": ${problem}` });
+    }
+  }
+
+  try {
+    const { recordId, previous } = await saveAutomationRules(normalized);
+
+    await recordAudit(req, {
+      action: 'automation.rules-updated',
+      source: 'matching',
+      targetType: AUTOMATION_RULES_TABLE,
+      targetId: recordId,
+      before: previous,
+      after: normalized,
+    });
+
+    return res.status(200).json({ success: true, rules: normalized });
+  } catch (error) {
+    console.error('[Automation] Update rules error:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to update automation rules',
+    });
+  }
+}
+
+/**
+ * Fire idle-stage rules for deals that have sat long enough
+ */
+async function handleRunAutomations(req: VercelRequest, res: VercelResponse) {
+  const { checked, results } = await runIdleAutomations();
+  const failed = results.filter((r) => r.actions.some((a) => !a.ok && !a.skipped)).length;
+
+  if (results.length > 0) {
+    await recordAudit(req, {
+      action: 'automation.ran',
+      source: 'matching',
+      targetType: 'Property-Buyer Matches',
+      details: `${results.length} rule(s) fired across ${new Set(results.map((r) => r.dealId)).size} deal(s), ${failed} with failed actions`,
+      after: results,
+      actor: isCronRequest(req) ? AUTOMATION_ACTOR : undefined,
+    });
+  }
+
+  return res.status(200).json({ checked, fired: results.length, failed, results });
+}
@@ -4,6 +4,7 @@
  */
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireSession } from '../../lib/auth/session';
 
 const AIRTABLE_API_URL = 'https://api.airtable.com/v0';
 const AIRTABLE_BASE_ID = process.env.AIRTABLE_BASE_ID;
@@ -13,6 +14,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
+  if (!(await requireSession(req, res))) return;
+
   const { zpid } = req.query;
 
   if (!zpid || typeof zpid !== 'string') {
@@ -4,6 +4,7 @@
  */
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireSession } from '../../lib/auth/session';
 import type { ZillowListing, ZillowSearchType } from '@/types/zillow';
 
 const AIRTABLE_API_URL = 'https://api.airtable.com/v0';
@@ -14,6 +15,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
+  if (!(await requireSession(req, res))) return;
+
   const { listing, buyerId, stage, notes, zillowType }: {
     listing: ZillowListing;
     buyerId: string;
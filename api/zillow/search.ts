@@ -5,8 +5,9 @@
  */
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireSession } from '../../lib/auth/session';
 import { runZillowSearch } from '../../src/lib/apify';
-import { calculateMaxAffordablePrice, hasValidDownPayment } from '../../src/lib/affordability';
+import { calculateAffordability } from '../../src/lib/affordability';
 import { findCachedSearch, saveCachedSearch, getSearchAge } from '../../src/lib/airtable-cache';
 import type { ZillowSearchResponse, ZillowSearchType } from '../../src/types/zillow';
 import type { BuyerCriteria } from '../../src/types/matching';
@@ -19,6 +20,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
+  if (!(await requireSession(req, res))) return;
+
   const { buyerId, searchType } = req.query;
 
   // Validate required parameters
@@ -63,7 +66,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       preferredLocation: buyerData.fields['Preferred Location'],
       desiredBeds: buyerData.fields['No. of Bedrooms'],
       desiredBaths: buyerData.fields['No. of Bath'],
+      monthlyIncome: buyerData.fields['Monthly Income'],
+      monthlyLiabilities: buyerData.fields['Monthly Liabilities'],
       downPayment: buyerData.fields['Downpayment'],
+      dealType: buyerData.fields['Deal Type'],
       location: buyerData.fields['City'] || buyerData.fields['State'],
     };
 
@@ -87,7 +93,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     // Calculate max price for affordability search
     let maxPrice: number | null = null;
     if (searchType === 'Affordability') {
-      if (!hasValidDownPayment(buyer.downPayment)) {
+      const affordability = calculateAffordability(buyer);
+      if (affordability.maxPrice === null) {
         return res.json({
           results: [],
           searchType: searchType as ZillowSearchType,
@@ -98,10 +105,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           },
           totalResults: 0,
           cached: false,
-          error: 'Sufficient down payment required for affordability search (minimum $10,300)',
+          error: `Buyer can't afford a property under current terms: ${affordability.explanation}`,
         } as ZillowSearchResponse);
       }
-      maxPrice = calculateMaxAffordablePrice(buyer.downPayment!);
+      maxPrice = affordability.maxPrice;
+      console.log(`[Zillow Search] Max price ${maxPrice} for buyer ${buyer.firstName} ${buyer.lastName}: ${affordability.explanation}`);
     }
 
     // Check cache first
@@ -0,0 +1,236 @@
+/**
+ * Audit Log
+ * Append-only record of who changed what, shared by every handler under api/*
+ *
+ * Entries are written to the Airtable `Audit Log` table and never updated or
+ * deleted by the app (api/airtable refuses writes to that table). The actor
+ * comes from the request's session token; background work passes an explicit
+ * actor such as "automation".
+ *
+ * Writing an entry never throws - a failed audit write is logged and the
+ * change it describes still succeeds. Credential fields (SENSITIVE_FIELDS) are
+ * recorded as changed but their values are never stored.
+ */
+
+import type { VercelRequest } from '@vercel/node';
+import { peekSession } from '../auth/session';
+
+export type AuditSource = 'matching' | 'calculator' | 'ghl' | 'cache' | 'airtable';
+
+export interface AuditActor {
+  email: string;
+  name: string;
+  role: string;
+}
+
+export interface AuditEntryInput {
+  action: string;        // e.g. "match.stage-changed", "contact.updated"
+  source: AuditSource;
+  targetType: string;    // e.g. "Property-Buyer Matches", "contact"
+  targetId?: string;
+  targetLabel?: string;  // Human readable target (address, contact name)
+  before?: unknown;
+  after?: unknown;
+  details?: string;
+  actor?: AuditActor;    // Overrides the session actor (e.g. automation)
+}
+
+export interface AuditEntry extends Omit<AuditEntryInput, 'actor'> {
+  id: string;
+  timestamp: string;
+  actor: AuditActor;
+}
+
+export interface AuditFilters {
+  actor?: string;
+  source?: AuditSource;
+  action?: string;
+  targetId?: string;
+  since?: string; // ISO
+  until?: string; // ISO
+  search?: string;
+  pageSize?: number;
+  offset?: string;
+}
+
+export const AUDIT_TABLE = 'Audit Log';
+
+// Airtable long text fields hold up to 100k characters
+const MAX_VALUE_LENGTH = 90000;
+
+// Users table credentials - recorded as changed, never copied into Before/After
+const SENSITIVE_FIELDS = ['password', 'reset token', 'reset expires'];
+const REDACTED = '[redacted]';
+
+const SYSTEM_ACTOR: AuditActor = { email: 'system', name: 'System', role: 'system' };
+
+const AIRTABLE_API_URL = 'https://api.airtable.com/v0';
+
+function auditTableUrl(): string {
+  return `${AIRTABLE_API_URL}/${process.env.AIRTABLE_BASE_ID}/${encodeURIComponent(AUDIT_TABLE)}`;
+}
+
+function auditHeaders(): Record<string, string> {
+  return {
+    'Authorization': `Bearer ${process.env.AIRTABLE_API_KEY}`,
+    'Content-Type': 'application/json',
+  };
+}
+
+function serializeValue(value: unknown): string | undefined {
+  if (value === undefined) return undefined;
+  const json = JSON.stringify(value);
+  return json.length > MAX_VALUE_LENGTH ? `${json.slice(0, MAX_VALUE_LENGTH)}…` : json;
+}
+
+/**
+ * Replace the values of credential fields in a before/after object
+ */
+export function redactSensitiveFields(value: unknown): unknown {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return value;
+  return Object.fromEntries(
+    Object.entries(value).map(([key, field]) => [
+      key,
+      SENSITIVE_FIELDS.includes(key.trim().toLowerCase()) && field != null ? REDACTED : field,
+    ])
+  );
+}
+
+function parseValue(value: unknown): unknown {
+  if (typeof value !== 'string' || !value) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Actor for the request's session (falls back to "system")
+ */
+export function getAuditActor(req: VercelRequest | null): AuditActor {
+  const session = req ? peekSession(req) : null;
+  return session
+    ? { email: session.email, name: session.name, role: session.role }
+    : SYSTEM_ACTOR;
+}
+
+/**
+ * Keep only the keys whose values differ, for compact before/after pairs
+ */
+export function diffFields(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): { before: Record<string, unknown>; after: Record<string, unknown> } {
+  const changedBefore: Record<string, unknown> = {};
+  const changedAfter: Record<string, unknown> = {};
+
+  for (const key of Object.keys(after)) {
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      changedBefore[key] = before[key] ?? null;
+      changedAfter[key] = after[key];
+    }
+  }
+
+  return { before: changedBefore, after: changedAfter };
+}
+
+/**
+ * Append an audit entry
+ */
+export async function recordAudit(req: VercelRequest | null, entry: AuditEntryInput): Promise<void> {
+  const actor = entry.actor || getAuditActor(req);
+
+  try {
+    const response = await fetch(auditTableUrl(), {
+      method: 'POST',
+      headers: auditHeaders(),
+      body: JSON.stringify({
+        typecast: true,
+        fields: {
+          'Timestamp': new Date().toISOString(),
+          'Actor': actor.email,
+          'Actor Name': actor.name,
+          'Actor Role': actor.role,
+          'Action': entry.action,
+          'Source': entry.source,
+          'Target Type': entry.targetType,
+          'Target ID': entry.targetId,
+          'Target Label': entry.targetLabel,
+          'Before': serializeValue(redactSensitiveFields(entry.before)),
+          'After': serializeValue(redactSensitiveFields(entry.after)),
+          'Details': entry.details,
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      console.error(`[Audit] Failed to record ${entry.action}:`, response.status, await response.text());
+    }
+  } catch (error) {
+    console.error(`[Audit] Error recording ${entry.action}:`, error);
+  }
+}
+
+function escapeFormula(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+/**
+ * List audit entries, newest first
+ */
+export async function listAuditEntries(
+  filters: AuditFilters = {}
+): Promise<{ entries: AuditEntry[]; offset?: string }> {
+  const conditions: string[] = [];
+  if (filters.actor) conditions.push(`LOWER({Actor}) = "${escapeFormula(filters.actor.toLowerCase())}"`);
+  if (filters.source) conditions.push(`{Source} = "${escapeFormula(filters.source)}"`);
+  if (filters.action) conditions.push(`{Action} = "${escapeFormula(filters.action)}"`);
+  if (filters.targetId) conditions.push(`{Target ID} = "${escapeFormula(filters.targetId)}"`);
+  if (filters.since) conditions.push(`IS_AFTER({Timestamp}, DATETIME_PARSE("${escapeFormula(filters.since)}"))`);
+  if (filters.until) conditions.push(`IS_BEFORE({Timestamp}, DATETIME_PARSE("${escapeFormula(filters.until)}"))`);
+  if (filters.search) {
+    const term = escapeFormula(filters.search.toLowerCase());
+    conditions.push(
+      `SEARCH("${term}", LOWER(CONCATENATE({Actor}, " ", {Actor Name}, " ", {Action}, " ", {Target ID}, " ", {Target Label}, " ", {Details})))`
+    );
+  }
+
+  const url = new URL(auditTableUrl());
+  url.searchParams.set('pageSize', String(Math.min(filters.pageSize || 50, 100)));
+  url.searchParams.set('sort[0][field]', 'Timestamp');
+  url.searchParams.set('sort[0][direction]', 'desc');
+  if (conditions.length > 0) {
+    url.searchParams.set('filterByFormula', conditions.length === 1 ? conditions[0] : `AND(${conditions.join(', ')})`);
+  }
+  if (filters.offset) url.searchParams.set('offset', filters.offset);
+
+  const response = await fetch(url.toString(), { headers: auditHeaders() });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch audit log: ${response.status}`);
+  }
+
+  const data = await response.json();
+  const entries: AuditEntry[] = (data.records || []).map((record: { id: string; fields: Record<string, unknown> }) => {
+    const fields = record.fields;
+    return {
+      id: record.id,
+      timestamp: String(fields['Timestamp'] || ''),
+      actor: {
+        email: String(fields['Actor'] || ''),
+        name: String(fields['Actor Name'] || ''),
+        role: String(fields['Actor Role'] || ''),
+      },
+      action: String(fields['Action'] || ''),
+      source: fields['Source'] as AuditSource,
+      targetType: String(fields['Target Type'] || ''),
+      targetId: fields['Target ID'] ? String(fields['Target ID']) : undefined,
+      targetLabel: fields['Target Label'] ? String(fields['Target Label']) : undefined,
+      before: parseValue(fields['Before']),
+      after: parseValue(fields['After']),
+      details: fields['Details'] ? String(fields['Details']) : undefined,
+    };
+  });
+
+  return { entries, offset: data.offset };
+}
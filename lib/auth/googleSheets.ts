@@ -0,0 +1,68 @@
+/**
+ * Google Sheets Service Account Access
+ *
+ * Exchanges the service account in GOOGLE_SHEET_CREDENTIALS for an OAuth
+ * access token (JWT bearer grant) so server code can call the Sheets API.
+ * Used by the Sheets user store.
+ */
+
+import { createSign } from 'crypto';
+
+export const SHEETS_API_URL = 'https://sheets.googleapis.com/v4/spreadsheets';
+
+// Read/write - the user store writes password hashes and reset tokens
+const SHEETS_SCOPE = 'https://www.googleapis.com/auth/spreadsheets';
+
+interface ServiceAccountCredentials {
+  client_email: string;
+  private_key: string;
+}
+
+function createGoogleJWT(credentials: ServiceAccountCredentials): string {
+  const header = { alg: 'RS256', typ: 'JWT' };
+  const now = Math.floor(Date.now() / 1000);
+  const claim = {
+    iss: credentials.client_email,
+    scope: SHEETS_SCOPE,
+    aud: 'https://oauth2.googleapis.com/token',
+    iat: now,
+    exp: now + 3600,
+  };
+
+  const encode = (obj: object) => Buffer.from(JSON.stringify(obj)).toString('base64url');
+  const signInput = `${encode(header)}.${encode(claim)}`;
+
+  const sign = createSign('RSA-SHA256');
+  sign.update(signInput);
+  const signature = sign.sign(credentials.private_key, 'base64url');
+
+  return `${signInput}.${signature}`;
+}
+
+/**
+ * Get an access token for the Sheets API
+ * Throws if GOOGLE_SHEET_CREDENTIALS is missing or Google rejects the grant.
+ */
+export async function getSheetsAccessToken(): Promise<string> {
+  const rawCredentials = process.env.GOOGLE_SHEET_CREDENTIALS;
+  if (!rawCredentials) {
+    throw new Error('GOOGLE_SHEET_CREDENTIALS not configured');
+  }
+
+  const credentials = JSON.parse(rawCredentials) as ServiceAccountCredentials;
+  const response = await fetch('https://oauth2.googleapis.com/token', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+      assertion: createGoogleJWT(credentials),
+    }),
+  });
+
+  const data = await response.json();
+  if (!response.ok || !data.access_token) {
+    throw new Error(`Google token exchange failed: ${data.error_description || data.error || response.status}`);
+  }
+
+  return data.access_token;
+}
@@ -0,0 +1,248 @@
+/**
+ * Login Throttling & Account Lockout
+ *
+ * Failed logins are counted per email and per client IP. After a few free
+ * attempts each further failure doubles the wait before the next attempt,
+ * and past a hard limit the email/IP is locked until the lockout expires or
+ * an admin unlocks it (Settings → Team).
+ *
+ * State is shared across serverless instances through the System Cache
+ * entry `login-attempts` (lib/cache/sharedState.ts; a lost update under
+ * heavy concurrency only costs an attacker one extra attempt).
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { loadSharedState, saveSharedState, type SharedState } from '../cache/sharedState';
+import { authenticate } from './passwords';
+import type { StoredUser, UserStore } from './userStore';
+
+export type ThrottleKind = 'email' | 'ip';
+
+export interface ThrottleEntry {
+  key: string;            // "email:<address>" or "ip:<address>"
+  kind: ThrottleKind;
+  subject: string;        // Email address or IP
+  failures: number;
+  lastFailureAt: string;  // ISO
+  retryAt: number | null; // Epoch ms before which attempts are refused
+  locked: boolean;        // Hard lockout (failures past the limit)
+}
+
+export interface ThrottleStatus {
+  allowed: boolean;
+  retryAt: number | null;
+  locked: boolean;
+}
+
+interface ThrottlePolicy {
+  freeAttempts: number; // Failures allowed before any backoff
+  lockoutAfter: number; // Failures before a hard lockout
+  baseDelayMs: number;
+  lockoutMs: number;
+}
+
+const POLICIES: Record<ThrottleKind, ThrottlePolicy> = {
+  email: { freeAttempts: 3, lockoutAfter: 10, baseDelayMs: 1000, lockoutMs: 15 * 60 * 1000 },
+  // Shared IPs (offices, NAT) get more room before blocking everyone behind them
+  ip: { freeAttempts: 10, lockoutAfter: 50, baseDelayMs: 1000, lockoutMs: 15 * 60 * 1000 },
+};
+
+export const LOGIN_ATTEMPTS_CACHE_KEY = 'login-attempts';
+
+// Entries with no failure for this long are dropped on the next write
+const ENTRY_TTL_MS = 24 * 60 * 60 * 1000;
+
+type ThrottleState = SharedState<ThrottleEntry>;
+
+/**
+ * Load throttle state (empty if the cache can't be read, so a cache outage
+ * never blocks every login)
+ */
+function loadState(): Promise<ThrottleState> {
+  return loadSharedState<ThrottleEntry>(LOGIN_ATTEMPTS_CACHE_KEY);
+}
+
+async function saveState(state: ThrottleState): Promise<void> {
+  const cutoff = Date.now() - ENTRY_TTL_MS;
+  const pruned: ThrottleState = {};
+  for (const [key, entry] of Object.entries(state)) {
+    if (new Date(entry.lastFailureAt).getTime() > cutoff || isBlocked(entry)) {
+      pruned[key] = entry;
+    }
+  }
+
+  await saveSharedState(LOGIN_ATTEMPTS_CACHE_KEY, pruned);
+}
+
+function entryKey(kind: ThrottleKind, subject: string): string {
+  return `${kind}:${subject.trim().toLowerCase()}`;
+}
+
+function isBlocked(entry: ThrottleEntry, now: number = Date.now()): boolean {
+  return entry.retryAt !== null && entry.retryAt > now;
+}
+
+/**
+ * Wait imposed after `failures` consecutive failures (null = none)
+ * e.g. email: 3 free, then 1s, 2s, 4s ... capped at the lockout length
+ */
+function backoffUntil(failures: number, policy: ThrottlePolicy, now: number): { retryAt: number | null; locked: boolean } {
+  if (failures >= policy.lockoutAfter) {
+    return { retryAt: now + policy.lockoutMs, locked: true };
+  }
+  if (failures < policy.freeAttempts) {
+    return { retryAt: null, locked: false };
+  }
+
+  const delay = policy.baseDelayMs * Math.pow(2, failures - policy.freeAttempts);
+  return { retryAt: now + Math.min(delay, policy.lockoutMs), locked: false };
+}
+
+function toStatus(entries: Array<ThrottleEntry | undefined>, now: number): ThrottleStatus {
+  const blocking = entries.filter((e): e is ThrottleEntry => !!e && isBlocked(e, now));
+  if (blocking.length === 0) {
+    return { allowed: true, retryAt: null, locked: false };
+  }
+
+  return {
+    allowed: false,
+    retryAt: Math.max(...blocking.map((e) => e.retryAt || 0)),
+    locked: blocking.some((e) => e.locked),
+  };
+}
+
+/**
+ * Check whether a login attempt for this email/IP may proceed
+ */
+export async function checkLoginAllowed(email: string, ip: string | null): Promise<ThrottleStatus> {
+  const state = await loadState();
+  return toStatus([
+    state[entryKey('email', email)],
+    ip ? state[entryKey('ip', ip)] : undefined,
+  ], Date.now());
+}
+
+/**
+ * Count a failed attempt and return when the next attempt is allowed
+ */
+export async function recordLoginFailure(email: string, ip: string | null): Promise<ThrottleStatus> {
+  const state = await loadState();
+  const now = Date.now();
+
+  const subjects: Array<[ThrottleKind, string]> = [['email', email]];
+  if (ip) subjects.push(['ip', ip]);
+
+  for (const [kind, subject] of subjects) {
+    const key = entryKey(kind, subject);
+    const failures = (state[key]?.failures || 0) + 1;
+    state[key] = {
+      key,
+      kind,
+      subject: subject.trim().toLowerCase(),
+      failures,
+      lastFailureAt: new Date(now).toISOString(),
+      ...backoffUntil(failures, POLICIES[kind], now),
+    };
+  }
+
+  await saveState(state);
+  return toStatus(subjects.map(([kind, subject]) => state[entryKey(kind, subject)]), now);
+}
+
+/**
+ * Clear the email's failure count after a successful login
+ * (the IP count is left to decay so one good account can't launder a spray)
+ */
+export async function recordLoginSuccess(email: string): Promise<void> {
+  const state = await loadState();
+  const key = entryKey('email', email);
+  if (!state[key]) return;
+
+  delete state[key];
+  await saveState(state);
+}
+
+/**
+ * Emails and IPs currently refused (backoff or lockout), most recent first
+ */
+export async function listBlockedLogins(): Promise<ThrottleEntry[]> {
+  const state = await loadState();
+  const now = Date.now();
+  return Object.values(state)
+    .filter((entry) => isBlocked(entry, now))
+    .sort((a, b) => b.lastFailureAt.localeCompare(a.lastFailureAt));
+}
+
+/**
+ * Remove a throttle entry (admin unlock); returns false if it didn't exist
+ */
+export async function clearLoginThrottle(key: string): Promise<boolean> {
+  const state = await loadState();
+  if (!state[key]) return false;
+
+  delete state[key];
+  await saveState(state);
+  return true;
+}
+
+/**
+ * Throttled login: refuses blocked emails/IPs, records the outcome
+ * Returns the user on success, otherwise the throttle status to report
+ * (status.allowed false = the attempt itself was refused or caused a lockout).
+ */
+export async function attemptLogin(
+  store: UserStore,
+  email: string,
+  password: string,
+  ip: string | null
+): Promise<{ user: StoredUser; status: ThrottleStatus } | { user: null; status: ThrottleStatus }> {
+  const throttle = await checkLoginAllowed(email, ip);
+  if (!throttle.allowed) {
+    console.log(`[Auth] Login throttled for: ${maskEmail(email)}`);
+    return { user: null, status: throttle };
+  }
+
+  const user = await authenticate(store, email, password);
+  if (!user) {
+    console.log(`[Auth] Invalid credentials for: ${maskEmail(email)}`);
+    const status = await recordLoginFailure(email, ip);
+    return { user: null, status: { ...status, allowed: !status.locked } };
+  }
+
+  await recordLoginSuccess(email);
+  console.log(`[Auth] Login successful: ${maskEmail(email)}`);
+  return { user, status: { allowed: true, retryAt: null, locked: false } };
+}
+
+/**
+ * Client IP from the proxy header (Vercel sets x-forwarded-for)
+ */
+export function getClientIp(req: VercelRequest): string | null {
+  const forwarded = req.headers['x-forwarded-for'];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0]?.trim();
+  return first || req.socket?.remoteAddress || null;
+}
+
+/**
+ * 429 telling the client when it may try again
+ */
+export function sendThrottled(res: VercelResponse, status: ThrottleStatus) {
+  const retryAfterSeconds = Math.max(1, Math.ceil(((status.retryAt || Date.now()) - Date.now()) / 1000));
+  res.setHeader('Retry-After', String(retryAfterSeconds));
+  return res.status(429).json({
+    error: status.locked
+      ? 'Too many failed attempts. This account is temporarily locked.'
+      : 'Too many failed attempts. Please wait before trying again.',
+    retryAt: status.retryAt,
+    retryAfterSeconds,
+    locked: status.locked,
+  });
+}
+
+/**
+ * Mask an email for logs (jane.doe@example.com -> ja***@example.com)
+ */
+export function maskEmail(email: string): string {
+  const [local = '', domain = ''] = String(email).split('@');
+  return `${local.slice(0, 2)}***@${domain}`;
+}
@@ -0,0 +1,178 @@
+/**
+ * Password Handling
+ * Hashing, verification, reset tokens and the Sheet -> store migration
+ *
+ * Every password written to a user store is a bcrypt hash. Legacy plaintext
+ * passwords (old Sheet rows, hand-edited Airtable records) still verify once
+ * and are replaced with a hash on that login.
+ */
+
+import bcrypt from 'bcryptjs';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import type { SessionUser } from './session';
+import type { StoredUser, UserStore, UserUpdate } from './userStore';
+
+const SALT_ROUNDS = 10;
+
+export const MIN_PASSWORD_LENGTH = 8;
+export const RESET_TOKEN_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+export interface MigrationResult {
+  imported: string[];
+  skipped: Array<{ email: string; reason: string }>;
+  dryRun: boolean;
+}
+
+export function isPasswordHash(value: string): boolean {
+  return value.startsWith('$2');
+}
+
+export function hashPassword(password: string): Promise<string> {
+  return bcrypt.hash(password, SALT_ROUNDS);
+}
+
+/**
+ * Store changes for a new password; bumping Password Changed At revokes
+ * every session token issued before it (see lib/auth/session.ts)
+ */
+export async function newPasswordUpdate(password: string): Promise<UserUpdate> {
+  return {
+    password: await hashPassword(password),
+    passwordChangedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Returns an error message if the password is too weak, otherwise null
+ */
+export function validatePassword(password: unknown): string | null {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  return null;
+}
+
+export function toSessionUser(user: StoredUser): SessionUser {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    role: user.role || 'User',
+  };
+}
+
+/**
+ * Check a password against the stored user, upgrading legacy plaintext to a hash
+ */
+export async function verifyPassword(store: UserStore, user: StoredUser, password: string): Promise<boolean> {
+  if (!user.password) return false;
+
+  if (isPasswordHash(user.password)) {
+    return bcrypt.compare(password, user.password);
+  }
+
+  const expected = Buffer.from(user.password);
+  const actual = Buffer.from(password);
+  const isValid = expected.length === actual.length && timingSafeEqual(expected, actual);
+
+  if (isValid) {
+    console.log(`[Auth] Upgrading plain text password to hashed for: ${user.email}`);
+    await store.update(user, { password: await hashPassword(password) });
+  }
+
+  return isValid;
+}
+
+/**
+ * Look up a user by email and verify their password
+ * Returns null for unknown users and wrong passwords alike.
+ */
+export async function authenticate(store: UserStore, email: string, password: string): Promise<StoredUser | null> {
+  const user = await store.findByEmail(email);
+  if (!user) return null;
+  return (await verifyPassword(store, user, password)) ? user : null;
+}
+
+function hashResetToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Issue a single-use reset token; only its hash is stored
+ */
+export async function createPasswordReset(store: UserStore, user: StoredUser): Promise<string> {
+  const token = randomBytes(32).toString('hex');
+  await store.update(user, {
+    resetToken: hashResetToken(token),
+    resetExpires: new Date(Date.now() + RESET_TOKEN_TTL_MS).toISOString(),
+  });
+  return token;
+}
+
+/**
+ * Set a new password if the reset token matches and has not expired
+ */
+export async function resetPassword(
+  store: UserStore,
+  user: StoredUser,
+  token: string,
+  newPassword: string
+): Promise<boolean> {
+  if (!user.resetToken || !user.resetExpires) return false;
+  if (new Date(user.resetExpires).getTime() < Date.now()) return false;
+
+  const expected = Buffer.from(user.resetToken);
+  const actual = Buffer.from(hashResetToken(token));
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return false;
+
+  await store.update(user, {
+    ...(await newPasswordUpdate(newPassword)),
+    resetToken: '',
+    resetExpires: '',
+  });
+  return true;
+}
+
+/**
+ * Copy users from one store into another, hashing any plaintext passwords
+ * Users already present in the target (by email) are left untouched.
+ */
+export async function migrateUsers(
+  source: UserStore,
+  target: UserStore,
+  options: { dryRun?: boolean } = {}
+): Promise<MigrationResult> {
+  const dryRun = options.dryRun === true;
+  const result: MigrationResult = { imported: [], skipped: [], dryRun };
+
+  const sourceUsers = await source.list();
+  const existing = new Set((await target.list()).map((u) => u.email.trim().toLowerCase()));
+
+  for (const user of sourceUsers) {
+    const key = user.email.trim().toLowerCase();
+
+    if (!user.password) {
+      result.skipped.push({ email: user.email, reason: 'No password' });
+      continue;
+    }
+    if (existing.has(key)) {
+      result.skipped.push({ email: user.email, reason: 'Already exists' });
+      continue;
+    }
+
+    if (!dryRun) {
+      await target.create({
+        email: user.email.trim(),
+        name: user.name,
+        role: user.role,
+        password: isPasswordHash(user.password) ? user.password : await hashPassword(user.password),
+      });
+    }
+
+    existing.add(key);
+    result.imported.push(user.email);
+  }
+
+  console.log(`[Auth] Migrated ${result.imported.length} users from ${source.kind} to ${target.kind}${dryRun ? ' (dry run)' : ''}, skipped ${result.skipped.length}`);
+  return result;
+}
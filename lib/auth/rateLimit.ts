@@ -0,0 +1,83 @@
+/**
+ * Request Rate Limiting
+ *
+ * Fixed-window counters for public (session-less) actions such as saving a
+ * /listings search. Each request names the keys it counts against, e.g. the
+ * client IP and the submitted email, each with its own limit.
+ *
+ * State is shared across serverless instances through the System Cache
+ * entry `rate-limits` (lib/cache/sharedState.ts, like login throttling; a
+ * lost update under heavy concurrency only lets one extra request through).
+ */
+
+import { loadSharedState, saveSharedState, type SharedState } from '../cache/sharedState';
+
+export interface RateLimitRule {
+  key: string;      // e.g. "save-search:ip:1.2.3.4"
+  limit: number;    // Requests allowed per window
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAt: number | null; // Epoch ms when the blocking window ends
+}
+
+interface RateLimitEntry {
+  count: number;
+  windowStart: number; // Epoch ms
+  windowMs: number;
+}
+
+type RateLimitState = SharedState<RateLimitEntry>;
+
+export const RATE_LIMITS_CACHE_KEY = 'rate-limits';
+
+/**
+ * Load counters (empty if the cache can't be read, so a cache outage
+ * doesn't block the page)
+ */
+function loadState(): Promise<RateLimitState> {
+  return loadSharedState<RateLimitEntry>(RATE_LIMITS_CACHE_KEY);
+}
+
+async function saveState(state: RateLimitState, now: number): Promise<void> {
+  // Expired windows are dropped on every write
+  const pruned: RateLimitState = {};
+  for (const [key, entry] of Object.entries(state)) {
+    if (entry.windowStart + entry.windowMs > now) pruned[key] = entry;
+  }
+
+  await saveSharedState(RATE_LIMITS_CACHE_KEY, pruned);
+}
+
+/**
+ * Count one request against every rule
+ * Refused requests are not counted, so a blocked client's window still ends.
+ */
+export async function consumeRateLimit(rules: RateLimitRule[]): Promise<RateLimitResult> {
+  const state = await loadState();
+  const now = Date.now();
+
+  const current = rules.map((rule) => {
+    const entry = state[rule.key];
+    return entry && entry.windowStart + entry.windowMs > now
+      ? entry
+      : { count: 0, windowStart: now, windowMs: rule.windowMs };
+  });
+
+  const blocking = current.filter((entry, i) => entry.count >= rules[i].limit);
+  if (blocking.length > 0) {
+    return {
+      allowed: false,
+      retryAt: Math.max(...blocking.map((entry) => entry.windowStart + entry.windowMs)),
+    };
+  }
+
+  rules.forEach((rule, i) => {
+    state[rule.key] = { ...current[i], count: current[i].count + 1 };
+  });
+  await saveState(state, now);
+
+  return { allowed: true, retryAt: null };
+}
@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { VercelRequest } from '@vercel/node';
+import { getSession, signSessionToken } from './session';
+import type { StoredUser } from './userStore';
+
+const users = new Map<string, StoredUser>();
+
+vi.mock('./userStore', () => ({
+  getUserStore: () => ({
+    findByEmail: async (email: string) => users.get(email.toLowerCase()) || null,
+  }),
+}));
+
+function storeUser(email: string, passwordChangedAt?: string): StoredUser {
+  const user = { id: `rec-${email}`, email, name: 'Jane', role: 'User', password: '$2a$hash', passwordChangedAt };
+  users.set(email.toLowerCase(), user);
+  return user;
+}
+
+function requestWith(token: string): VercelRequest {
+  return { headers: { authorization: `Bearer ${token}` } } as VercelRequest;
+}
+
+describe('getSession', () => {
+  beforeEach(() => {
+    vi.stubEnv('AUTH_SESSION_SECRET', 'test-secret');
+    vi.stubEnv('AUTH_DEV_BYPASS', 'false');
+    vi.useFakeTimers({ now: new Date('2026-03-01T12:00:00Z') });
+    users.clear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it('accepts a token issued after the last password change', async () => {
+    const user = storeUser('jane@example.com', '2026-02-01T00:00:00.000Z');
+    const { token } = signSessionToken(user, undefined, user.passwordChangedAt);
+
+    expect(await getSession(requestWith(token))).toMatchObject({ email: 'jane@example.com' });
+  });
+
+  it('rejects earlier tokens as soon as this instance issues one for a new password', async () => {
+    const user = storeUser('sam@example.com');
+    const { token: oldToken } = signSessionToken(user);
+
+    vi.advanceTimersByTime(5000);
+    const changed = storeUser('sam@example.com', new Date().toISOString());
+    const { token: newToken } = signSessionToken(changed, undefined, changed.passwordChangedAt);
+
+    expect(await getSession(requestWith(oldToken))).toBeNull();
+    expect(await getSession(requestWith(newToken))).toMatchObject({ email: 'sam@example.com' });
+  });
+
+  it('picks up a change made elsewhere once the cached check expires', async () => {
+    const user = storeUser('ann@example.com');
+    const { token } = signSessionToken(user);
+
+    storeUser('ann@example.com', new Date(Date.now() + 1000).toISOString());
+    expect(await getSession(requestWith(token))).not.toBeNull();
+
+    vi.advanceTimersByTime(61 * 1000);
+    expect(await getSession(requestWith(token))).toBeNull();
+  });
+
+  it('rejects tokens for users that no longer exist', async () => {
+    const { token } = signSessionToken({ id: 'rec-gone', email: 'gone@example.com', name: 'Gone', role: 'User' });
+    users.clear();
+    vi.advanceTimersByTime(61 * 1000);
+
+    expect(await getSession(requestWith(token))).toBeNull();
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * Session Tokens & API Authorization
+ * Shared by every handler under api/*
+ *
+ * Tokens are HS256 JWTs signed with AUTH_SESSION_SECRET and sent as
+ * `Authorization: Bearer <token>`. The user's Airtable `Role` field is
+ * carried in the token and checked by requireSession({ roles }).
+ *
+ * Each token also carries the user's password change time. A password change
+ * or reset moves that time forward in the user store, so every token issued
+ * before it is rejected (re-checked against the store at most once a minute
+ * per serverless instance).
+ *
+ * Local development: set AUTH_DEV_BYPASS=true (ignored in production) to
+ * accept requests without a token, matching the client's dev login bypass.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getUserStore } from './userStore';
+
+export interface SessionUser {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+}
+
+export interface SessionClaims extends SessionUser {
+  iat: number; // Issued at (seconds)
+  exp: number; // Expires at (seconds)
+  pwc?: number; // User's last password change when issued (seconds, 0 = never)
+}
+
+export const ADMIN_ROLE = 'admin';
+
+// Session durations (match the client's "remember me" options)
+export const SESSION_TTL_SHORT_MS = 24 * 60 * 60 * 1000; // 1 day
+export const SESSION_TTL_LONG_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+// How long an instance trusts a user's password change time before re-reading it
+const PASSWORD_CHECK_TTL_MS = 60 * 1000;
+
+const passwordChanges = new Map<string, { changedAt: number; checkedAt: number }>();
+
+const DEV_USER: SessionUser = {
+  id: 'dev',
+  email: 'dev@purplehomes.com',
+  name: 'Dev User',
+  role: ADMIN_ROLE,
+};
+
+function getSecret(): string | undefined {
+  return process.env.AUTH_SESSION_SECRET;
+}
+
+function isDevBypass(): boolean {
+  return process.env.AUTH_DEV_BYPASS === 'true' && process.env.NODE_ENV !== 'production';
+}
+
+function base64url(input: string | Buffer): string {
+  return Buffer.from(input).toString('base64url');
+}
+
+function sign(data: string, secret: string): string {
+  return createHmac('sha256', secret).update(data).digest('base64url');
+}
+
+/**
+ * Password change time in whole seconds (0 when never changed or unparseable)
+ */
+function toChangedSeconds(passwordChangedAt: string | undefined): number {
+  const ms = passwordChangedAt ? new Date(passwordChangedAt).getTime() : NaN;
+  return Number.isFinite(ms) ? Math.floor(ms / 1000) : 0;
+}
+
+function passwordCacheKey(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * The user's current password change time, or null if the user no longer exists
+ */
+async function currentPasswordChange(email: string): Promise<number | null> {
+  const key = passwordCacheKey(email);
+  const cached = passwordChanges.get(key);
+  if (cached && Date.now() - cached.checkedAt < PASSWORD_CHECK_TTL_MS) {
+    return cached.changedAt;
+  }
+
+  const user = await getUserStore().findByEmail(email);
+  if (!user) {
+    passwordChanges.delete(key);
+    return null;
+  }
+
+  const changedAt = toChangedSeconds(user.passwordChangedAt);
+  passwordChanges.set(key, { changedAt, checkedAt: Date.now() });
+  return changedAt;
+}
+
+/**
+ * Issue a signed session token for a user
+ * Pass the stored user's passwordChangedAt so a later change revokes the token.
+ * Throws if AUTH_SESSION_SECRET is not configured.
+ */
+export function signSessionToken(
+  user: SessionUser,
+  ttlMs: number = SESSION_TTL_SHORT_MS,
+  passwordChangedAt?: string
+): { token: string; expiresAt: number } {
+  const secret = getSecret();
+  if (!secret) {
+    throw new Error('AUTH_SESSION_SECRET not configured');
+  }
+
+  const now = Date.now();
+  const expiresAt = now + ttlMs;
+  const claims: SessionClaims = {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    iat: Math.floor(now / 1000),
+    exp: Math.floor(expiresAt / 1000),
+    pwc: toChangedSeconds(passwordChangedAt),
+  };
+
+  // This instance sees the change at once; others within PASSWORD_CHECK_TTL_MS
+  passwordChanges.set(passwordCacheKey(user.email), { changedAt: claims.pwc ?? 0, checkedAt: now });
+
+  const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const payload = base64url(JSON.stringify(claims));
+  const signature = sign(`${header}.${payload}`, secret);
+
+  return { token: `${header}.${payload}.${signature}`, expiresAt };
+}
+
+/**
+ * Verify a session token's signature and expiry
+ * Returns the claims, or null if the token is malformed, tampered or expired
+ */
+export function verifySessionToken(token: string): SessionClaims | null {
+  const secret = getSecret();
+  if (!secret || !token) return null;
+
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+
+  const [header, payload, signature] = parts;
+  const expected = Buffer.from(sign(`${header}.${payload}`, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as SessionClaims;
+    if (!claims.exp || claims.exp * 1000 < Date.now()) return null;
+    return claims;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Bearer token from the request's Authorization header ('' when absent)
+ */
+export function getBearerToken(req: VercelRequest): string {
+  const authHeader = req.headers.authorization;
+  return typeof authHeader === 'string' && authHeader.startsWith('Bearer ')
+    ? authHeader.slice(7).trim()
+    : '';
+}
+
+function toSessionUser(claims: SessionClaims): SessionUser {
+  return { id: claims.id, email: claims.email, name: claims.name, role: claims.role };
+}
+
+/**
+ * Read the session from the request's Authorization header
+ * Rejects tokens issued before the user's last password change, and tokens
+ * for users that no longer exist. Throws if the user store can't be read.
+ */
+export async function getSession(req: VercelRequest): Promise<SessionUser | null> {
+  const claims = verifySessionToken(getBearerToken(req));
+  if (claims) {
+    const changedAt = await currentPasswordChange(claims.email);
+    if (changedAt !== null && (claims.pwc || 0) >= changedAt) {
+      return toSessionUser(claims);
+    }
+  }
+
+  return isDevBypass() ? DEV_USER : null;
+}
+
+/**
+ * Signed-in user from the token alone, without the password change check
+ * Only for attributing a request that requireSession has already let through
+ * (audit actors, "scheduled by" names) - never for authorization.
+ */
+export function peekSession(req: VercelRequest): SessionUser | null {
+  const claims = verifySessionToken(getBearerToken(req));
+  if (claims) return toSessionUser(claims);
+  return isDevBypass() ? DEV_USER : null;
+}
+
+/**
+ * Case-insensitive role check (Airtable uses "Admin", the sheet uses "admin")
+ */
+export function hasRole(user: SessionUser, roles: string[]): boolean {
+  const role = (user.role || '').toLowerCase();
+  return roles.some((r) => r.toLowerCase() === role);
+}
+
+/**
+ * Require a valid session (and optionally one of the given roles)
+ * Sends 401/403 (503 if the user store is down) and returns null when the
+ * request is not allowed.
+ *
+ * Usage:
+ *   const session = await requireSession(req, res, { roles: [ADMIN_ROLE] });
+ *   if (!session) return;
+ */
+export async function requireSession(
+  req: VercelRequest,
+  res: VercelResponse,
+  options: { roles?: string[] } = {}
+): Promise<SessionUser | null> {
+  let session: SessionUser | null;
+  try {
+    session = await getSession(req);
+  } catch (error) {
+    console.error('[Auth] Session check failed:', error);
+    res.status(503).json({ error: 'Unable to verify session' });
+    return null;
+  }
+
+  if (!session) {
+    res.status(401).json({ error: 'Authentication required' });
+    return null;
+  }
+
+  if (options.roles && options.roles.length > 0 && !hasRole(session, options.roles)) {
+    res.status(403).json({ error: 'Insufficient permissions', required: options.roles });
+    return null;
+  }
+
+  return session;
+}
+
+/**
+ * Scheduled invocation from Vercel Cron
+ * Vercel sends `Authorization: Bearer <CRON_SECRET>` when CRON_SECRET is set.
+ */
+export function isCronRequest(req: VercelRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  const authHeader = req.headers.authorization;
+  if (!secret || typeof authHeader !== 'string') return false;
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(authHeader);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Webhook call from GHL (workflow webhook action)
+ * GHL_WEBHOOK_SECRET must be sent as the `X-Webhook-Secret` header (never
+ * in the URL, where it would end up in request logs).
+ */
+export function isWebhookRequest(req: VercelRequest): boolean {
+  const secret = process.env.GHL_WEBHOOK_SECRET;
+  const header = req.headers['x-webhook-secret'];
+  if (!secret || typeof header !== 'string') return false;
+
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(header);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
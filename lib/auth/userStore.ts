@@ -0,0 +1,310 @@
+/**
+ * User Stores
+ * Pluggable storage for login accounts (Airtable `Users` table or Google Sheet)
+ *
+ * Both stores hold the same record: Email, Password (bcrypt hash), Name, Role,
+ * Reset Token (sha256 of the emailed reset token), Reset Expires (ISO) and
+ * Password Changed At (ISO, revokes older session tokens).
+ * Which one backs /api/auth is chosen with AUTH_USER_STORE (default: airtable).
+ *
+ * Passwords are never compared here - see lib/auth/passwords.ts.
+ */
+
+import { SHEETS_API_URL, getSheetsAccessToken } from './googleSheets';
+
+export type UserStoreKind = 'airtable' | 'sheets';
+
+export interface StoredUser {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+  password: string; // bcrypt hash (or legacy plaintext until upgraded)
+  resetToken?: string;
+  resetExpires?: string;
+  passwordChangedAt?: string;
+}
+
+export type NewUser = Pick<StoredUser, 'email' | 'name' | 'role' | 'password'>;
+
+export type UserUpdate = Partial<Pick<StoredUser, 'password' | 'resetToken' | 'resetExpires' | 'passwordChangedAt'>>;
+
+export interface UserStore {
+  kind: UserStoreKind;
+  findByEmail(email: string): Promise<StoredUser | null>;
+  list(): Promise<StoredUser[]>;
+  create(user: NewUser): Promise<StoredUser>;
+  update(user: StoredUser, changes: UserUpdate): Promise<void>;
+}
+
+const AIRTABLE_API_URL = 'https://api.airtable.com/v0';
+const USERS_TABLE = 'Users';
+const USERS_SHEET_RANGE = 'Users!A:G'; // Email | Password | Name | Role | Reset Token | Reset Expires | Password Changed At
+
+/**
+ * Fetch with automatic retry on rate limit errors (429)
+ */
+async function fetchWithRetry(url: string, options: RequestInit, maxRetries = 3): Promise<Response> {
+  let lastError: Error | null = null;
+
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    try {
+      if (attempt > 0) {
+        const delay = Math.min(1000 * Math.pow(2, attempt - 1), 5000);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+
+      const response = await fetch(url, options);
+
+      if (response.status === 429 && attempt < maxRetries) {
+        console.warn(`[UserStore] Rate limited (429) on attempt ${attempt + 1}/${maxRetries + 1}, will retry...`);
+        lastError = new Error(`Rate limited: ${response.statusText}`);
+        continue;
+      }
+
+      return response;
+    } catch (error) {
+      lastError = error instanceof Error ? error : new Error(String(error));
+      if (attempt === maxRetries) {
+        throw lastError;
+      }
+    }
+  }
+
+  throw lastError || new Error('Failed after retries');
+}
+
+function sameEmail(a: string | undefined, b: string): boolean {
+  return !!a && a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+// ============ Airtable ============
+
+interface AirtableUserRecord {
+  id: string;
+  fields: Record<string, unknown>;
+}
+
+function fromAirtableRecord(record: AirtableUserRecord): StoredUser {
+  const fields = record.fields;
+  return {
+    id: record.id,
+    email: String(fields['Email'] || ''),
+    name: String(fields['Name'] || ''),
+    role: String(fields['Role'] || 'User'),
+    password: String(fields['Password'] || ''),
+    resetToken: fields['Reset Token'] ? String(fields['Reset Token']) : undefined,
+    resetExpires: fields['Reset Expires'] ? String(fields['Reset Expires']) : undefined,
+    passwordChangedAt: fields['Password Changed At'] ? String(fields['Password Changed At']) : undefined,
+  };
+}
+
+export function createAirtableUserStore(): UserStore {
+  const apiKey = process.env.AIRTABLE_API_KEY;
+  const baseId = process.env.AIRTABLE_BASE_ID;
+  if (!apiKey || !baseId) {
+    throw new Error('Airtable credentials not configured');
+  }
+
+  const tableUrl = `${AIRTABLE_API_URL}/${baseId}/${USERS_TABLE}`;
+  const headers = {
+    'Authorization': `Bearer ${apiKey}`,
+    'Content-Type': 'application/json',
+  };
+
+  return {
+    kind: 'airtable',
+
+    async findByEmail(email) {
+      const formula = encodeURIComponent(`LOWER({Email}) = "${email.trim().toLowerCase().replace(/"/g, '\\"')}"`);
+      const response = await fetchWithRetry(`${tableUrl}?filterByFormula=${formula}&maxRecords=1`, { headers });
+      if (!response.ok) {
+        throw new Error(`Failed to fetch user: ${response.status}`);
+      }
+
+      const data = await response.json();
+      const record = data.records?.[0] as AirtableUserRecord | undefined;
+      return record ? fromAirtableRecord(record) : null;
+    },
+
+    async list() {
+      const users: StoredUser[] = [];
+      let offset: string | undefined;
+
+      do {
+        const url = offset ? `${tableUrl}?offset=${offset}` : tableUrl;
+        const response = await fetchWithRetry(url, { headers });
+        if (!response.ok) {
+          throw new Error(`Failed to list users: ${response.status}`);
+        }
+
+        const data = await response.json();
+        users.push(...(data.records || []).map(fromAirtableRecord));
+        offset = data.offset;
+      } while (offset);
+
+      return users;
+    },
+
+    async create(user) {
+      const response = await fetchWithRetry(tableUrl, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          fields: {
+            Email: user.email,
+            Password: user.password,
+            Name: user.name,
+            Role: user.role,
+          },
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error('[UserStore] Create user error:', errorText);
+        throw new Error(`Failed to create user: ${response.status}`);
+      }
+
+      return fromAirtableRecord(await response.json());
+    },
+
+    async update(user, changes) {
+      const fields: Record<string, string | null> = {};
+      if (changes.password !== undefined) fields['Password'] = changes.password;
+      if (changes.resetToken !== undefined) fields['Reset Token'] = changes.resetToken || null;
+      if (changes.resetExpires !== undefined) fields['Reset Expires'] = changes.resetExpires || null;
+      if (changes.passwordChangedAt !== undefined) fields['Password Changed At'] = changes.passwordChangedAt || null;
+
+      const response = await fetchWithRetry(`${tableUrl}/${user.id}`, {
+        method: 'PATCH',
+        headers,
+        body: JSON.stringify({ fields }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to update user: ${response.status}`);
+      }
+    },
+  };
+}
+
+// ============ Google Sheets ============
+
+/**
+ * Sheet rows have no stable id, so users are keyed by email and located by
+ * row on every write.
+ */
+export function createSheetsUserStore(): UserStore {
+  const sheetId = process.env.GOOGLE_SHEET_ID;
+  if (!sheetId || !process.env.GOOGLE_SHEET_CREDENTIALS) {
+    throw new Error('Google Sheets not configured');
+  }
+
+  const sheetUrl = `${SHEETS_API_URL}/${sheetId}/values`;
+
+  const authHeaders = async () => ({
+    'Authorization': `Bearer ${await getSheetsAccessToken()}`,
+    'Content-Type': 'application/json',
+  });
+
+  // Returns data rows with their 1-based sheet row number (header row skipped)
+  const readRows = async (): Promise<Array<{ row: number; user: StoredUser }>> => {
+    const response = await fetch(`${sheetUrl}/${encodeURIComponent(USERS_SHEET_RANGE)}`, {
+      headers: await authHeaders(),
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch users from sheet: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const rows: string[][] = data.values || [];
+
+    return rows.slice(1)
+      .map((cells, index) => {
+        const [email = '', password = '', name = '', role = '', resetToken = '', resetExpires = '', passwordChangedAt = ''] = cells;
+        return {
+          row: index + 2,
+          user: {
+            id: email,
+            email,
+            name: name || email.split('@')[0],
+            role: role || 'user',
+            password,
+            resetToken: resetToken || undefined,
+            resetExpires: resetExpires || undefined,
+            passwordChangedAt: passwordChangedAt || undefined,
+          },
+        };
+      })
+      .filter(({ user }) => !!user.email);
+  };
+
+  const toRow = (user: NewUser & UserUpdate, changes: UserUpdate = {}): string[] => {
+    return [
+      user.email,
+      changes.password ?? user.password,
+      user.name,
+      user.role,
+      (changes.resetToken !== undefined ? changes.resetToken : user.resetToken) || '',
+      (changes.resetExpires !== undefined ? changes.resetExpires : user.resetExpires) || '',
+      (changes.passwordChangedAt !== undefined ? changes.passwordChangedAt : user.passwordChangedAt) || '',
+    ];
+  };
+
+  return {
+    kind: 'sheets',
+
+    async findByEmail(email) {
+      const rows = await readRows();
+      return rows.find(({ user }) => sameEmail(user.email, email))?.user || null;
+    },
+
+    async list() {
+      return (await readRows()).map(({ user }) => user);
+    },
+
+    async create(user) {
+      const range = encodeURIComponent(USERS_SHEET_RANGE);
+      const response = await fetch(
+        `${sheetUrl}/${range}:append?valueInputOption=RAW&insertDataOption=INSERT_ROWS`,
+        {
+          method: 'POST',
+          headers: await authHeaders(),
+          body: JSON.stringify({ values: [toRow(user)] }),
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error(`Failed to append user to sheet: ${response.status}`);
+      }
+
+      return { id: user.email, ...user };
+    },
+
+    async update(user, changes) {
+      const match = (await readRows()).find(({ user: u }) => sameEmail(u.email, user.email));
+      if (!match) {
+        throw new Error(`User not found in sheet: ${user.email}`);
+      }
+
+      const range = encodeURIComponent(`Users!A${match.row}:G${match.row}`);
+      const response = await fetch(`${sheetUrl}/${range}?valueInputOption=RAW`, {
+        method: 'PUT',
+        headers: await authHeaders(),
+        body: JSON.stringify({ values: [toRow(match.user, changes)] }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to update user in sheet: ${response.status}`);
+      }
+    },
+  };
+}
+
+/**
+ * Get the configured user store (AUTH_USER_STORE=airtable|sheets)
+ */
+export function getUserStore(kind: string | undefined = process.env.AUTH_USER_STORE): UserStore {
+  return kind === 'sheets' ? createSheetsUserStore() : createAirtableUserStore();
+}
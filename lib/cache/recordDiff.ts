@@ -0,0 +1,71 @@
+/**
+ * Cache Record Diff
+ *
+ * Compares a cached dataset with its source table. A table counts as stale
+ * when any record was modified (Airtable LAST_MODIFIED_TIME) after the cache's
+ * last sync, or records were added or deleted since. The same diff lets a
+ * sync patch the cached records instead of re-downloading the table.
+ */
+
+export interface CachedRecord {
+  id: string;
+  [key: string]: unknown;
+}
+
+export interface RecordDiff {
+  added: string[];   // In the table, not in the cache
+  changed: string[]; // In both, modified since the last sync
+  removed: string[]; // In the cache, deleted from the table
+}
+
+// Records edited while a sync was running land after its start time, so the
+// next check re-reads a short window before last_synced
+export const MODIFIED_OVERLAP_MS = 2 * 60 * 1000;
+
+/**
+ * Airtable formula matching records modified after `since`
+ */
+export function modifiedSinceFormula(since: string): string {
+  const from = new Date(new Date(since).getTime() - MODIFIED_OVERLAP_MS).toISOString();
+  return `IS_AFTER(LAST_MODIFIED_TIME(), DATETIME_PARSE('${from}'))`;
+}
+
+export function diffRecords(cachedIds: string[], currentIds: string[], modifiedIds: string[]): RecordDiff {
+  const cached = new Set(cachedIds);
+  const current = new Set(currentIds);
+
+  return {
+    added: currentIds.filter((id) => !cached.has(id)),
+    changed: [...new Set(modifiedIds)].filter((id) => cached.has(id) && current.has(id)),
+    removed: cachedIds.filter((id) => !current.has(id)),
+  };
+}
+
+export function isEmptyDiff(diff: RecordDiff): boolean {
+  return diff.added.length === 0 && diff.changed.length === 0 && diff.removed.length === 0;
+}
+
+/**
+ * Apply fetched changes to cached records
+ * `updates` are the current versions of added and changed records; cached
+ * records not in `currentIds` are dropped. Cache order is kept and new
+ * records go at the end.
+ */
+export function applyRecordChanges<T extends CachedRecord>(
+  cached: T[],
+  updates: T[],
+  currentIds: string[]
+): T[] {
+  const current = new Set(currentIds);
+  const byId = new Map(updates.map((record) => [record.id, record]));
+
+  const merged = cached
+    .filter((record) => current.has(record.id))
+    .map((record) => {
+      const update = byId.get(record.id);
+      byId.delete(record.id);
+      return update || record;
+    });
+
+  return [...merged, ...byId.values()];
+}
@@ -0,0 +1,44 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { readCache, writeCache } from './systemCache';
+import { loadSharedState, saveSharedState } from './sharedState';
+
+vi.mock('./systemCache', () => ({
+  readCache: vi.fn(),
+  writeCache: vi.fn(),
+}));
+
+const meta = { cacheKey: 'rate-limits' } as never;
+
+describe('shared state', () => {
+  beforeEach(() => {
+    vi.mocked(readCache).mockReset();
+    vi.mocked(writeCache).mockReset();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('writes the state through the System Cache with its entry count', async () => {
+    await saveSharedState('rate-limits', { a: { count: 1 }, b: { count: 2 } });
+
+    expect(writeCache).toHaveBeenCalledWith('rate-limits', { a: { count: 1 }, b: { count: 2 } }, 2);
+  });
+
+  it('loads the stored state', async () => {
+    vi.mocked(readCache).mockResolvedValue({ meta, data: { a: { count: 1 } } });
+
+    expect(await loadSharedState('rate-limits')).toEqual({ a: { count: 1 } });
+  });
+
+  it('fails open when the entry is missing, unreadable or the cache is down', async () => {
+    vi.mocked(readCache).mockResolvedValueOnce(null);
+    expect(await loadSharedState('rate-limits')).toEqual({});
+
+    vi.mocked(readCache).mockResolvedValueOnce({ meta, data: null, error: 'checksum mismatch' });
+    expect(await loadSharedState('rate-limits')).toEqual({});
+
+    vi.mocked(readCache).mockRejectedValueOnce(new Error('503'));
+    expect(await loadSharedState('rate-limits')).toEqual({});
+
+    vi.mocked(writeCache).mockRejectedValueOnce(new Error('503'));
+    await expect(saveSharedState('rate-limits', {})).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * Shared Request State
+ *
+ * Small keyed state that every serverless instance must see (login
+ * throttling, rate limits) kept in a System Cache entry through
+ * readCache/writeCache, so it gets the same checksums and storage as the
+ * cached datasets.
+ *
+ * Updates are read-modify-write: a lost update under heavy concurrency only
+ * costs one extra request. Loads and saves fail open (empty state, logged
+ * write failure) so a cache outage never blocks logins or public pages.
+ */
+
+import { readCache, writeCache } from './systemCache';
+
+export type SharedState<T> = Record<string, T>;
+
+/**
+ * Load the state stored under the cache key (empty when missing or unreadable)
+ */
+export async function loadSharedState<T>(cacheKey: string): Promise<SharedState<T>> {
+  try {
+    const cached = await readCache<SharedState<T>>(cacheKey);
+    return cached?.data || {};
+  } catch (error) {
+    console.error(`[SharedState] Error reading ${cacheKey}:`, error);
+    return {};
+  }
+}
+
+/**
+ * Replace the state stored under the cache key
+ * Callers prune expired entries first; the entry count becomes the record count.
+ */
+export async function saveSharedState<T>(cacheKey: string, state: SharedState<T>): Promise<void> {
+  try {
+    await writeCache(cacheKey, state, Object.keys(state).length);
+  } catch (error) {
+    console.error(`[SharedState] Error saving ${cacheKey}:`, error);
+  }
+}
@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { randomBytes } from 'crypto';
+import { readCache, writeCache } from './systemCache';
+
+interface StoredRecord {
+  id: string;
+  fields: Record<string, unknown>;
+}
+
+/**
+ * Just enough of the Airtable REST API for the System Cache table:
+ * list (key equality or prefix formulas), create, update and delete
+ */
+function fakeAirtable(records: StoredRecord[]) {
+  let nextId = records.length;
+
+  const matches = (formula: string, key: string): boolean => {
+    const equals = formula.match(/^\{cache_key\} = "(.*)"$/);
+    if (equals) return key === equals[1];
+    const prefix = formula.match(/^FIND\("(.*)", \{cache_key\}\) = 1$/);
+    if (prefix) return key.startsWith(prefix[1]);
+    throw new Error(`Unsupported formula: ${formula}`);
+  };
+
+  return vi.fn(async (input: string, init: RequestInit = {}) => {
+    const url = new URL(input);
+    const method = init.method || 'GET';
+    const json = (body: unknown) => new Response(JSON.stringify(body), { status: 200 });
+
+    if (method === 'GET') {
+      const formula = url.searchParams.get('filterByFormula') || '';
+      return json({ records: records.filter((r) => matches(formula, String(r.fields.cache_key))) });
+    }
+    if (method === 'DELETE') {
+      const ids = url.searchParams.getAll('records[]');
+      records.splice(0, records.length, ...records.filter((r) => !ids.includes(r.id)));
+      return json({ records: ids.map((id) => ({ id, deleted: true })) });
+    }
+
+    const body = JSON.parse(String(init.body));
+    if (method === 'PATCH') {
+      const record = records.find((r) => url.pathname.endsWith(`/${r.id}`))!;
+      Object.assign(record.fields, body.fields);
+      return json(record);
+    }
+    const created = (body.records || [body]).map((r: { fields: Record<string, unknown> }) => {
+      const record = { id: `rec${++nextId}`, fields: { ...r.fields } };
+      records.push(record);
+      return record;
+    });
+    return json(body.records ? { records: created } : created[0]);
+  });
+}
+
+const shardKeys = (records: StoredRecord[]) =>
+  records.map((r) => String(r.fields.cache_key)).filter((key) => key.includes('::shard:'));
+
+// Random bytes don't compress, so this always needs several shards
+const largePayload = () => ({ blob: randomBytes(150_000).toString('base64') });
+
+describe('writeCache', () => {
+  let records: StoredRecord[];
+
+  beforeEach(() => {
+    records = [];
+    vi.stubGlobal('fetch', fakeAirtable(records));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('replaces the previous version\'s shards and reads back the new payload', async () => {
+    await writeCache('properties', largePayload(), 1);
+    const firstShards = shardKeys(records);
+    expect(firstShards.length).toBeGreaterThan(1);
+
+    const payload = largePayload();
+    const meta = await writeCache('properties', payload, 1);
+
+    expect(meta.version).toBe(2);
+    expect(shardKeys(records)).toHaveLength(meta.shards);
+    expect(shardKeys(records).some((key) => firstShards.includes(key))).toBe(false);
+    expect((await readCache('properties'))?.data).toEqual(payload);
+  });
+
+  it('leaves shards written under another write id alone', async () => {
+    await writeCache('properties', largePayload(), 1);
+    // Shards of a concurrent write that hasn't updated the manifest yet
+    records.push({ id: 'recInFlight', fields: { cache_key: 'properties::shard:inflight:0', data: 'x' } });
+
+    await writeCache('properties', largePayload(), 1);
+
+    expect(records.some((r) => r.id === 'recInFlight')).toBe(true);
+  });
+});
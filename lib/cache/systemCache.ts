@@ -0,0 +1,372 @@
+/**
+ * System Cache Storage
+ *
+ * Cached datasets (properties, buyers, matches, matching state) live in the
+ * Airtable `System Cache` table. A long-text field holds at most 100,000
+ * characters, so payloads are gzipped and, when still too large, split across
+ * shard records:
+ *
+ * - Manifest record: `cache_key` = the cache key; `data` holds the manifest
+ *   (checksum, shard count, write id), or the whole payload when it fits
+ * - Shard records: `cache_key` = "<key>::shard:<writeId>:<index>"
+ *
+ * A write creates the new shards first, then points the manifest at them and
+ * deletes the previous version's, so readers always see a complete version. Reads check
+ * every shard is present and the SHA-256 checksum matches; anything else is
+ * reported as unreadable and callers fall back to the source tables.
+ *
+ * Records written before sharding (plain JSON in `data`) still read as-is.
+ *
+ * The `changes` field holds the last check of a cache against its source
+ * table (see recordCacheChanges), so status reads never touch payloads.
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import { gunzipSync, gzipSync } from 'zlib';
+
+export const CACHE_TABLE = 'System Cache';
+
+const AIRTABLE_API_URL = 'https://api.airtable.com/v0';
+const SHARD_MARKER = '::shard:';
+
+// Stay well under Airtable's 100,000 character long-text limit
+const SHARD_SIZE = 90_000;
+
+// Airtable accepts at most 10 records per create/delete request
+const BATCH_SIZE = 10;
+
+interface CacheManifest {
+  storage: 'sharded';
+  encoding: 'gzip-base64';
+  checksum: string; // sha256 of the JSON payload
+  length: number;   // JSON payload characters
+  writeId: string;
+  shards: number;   // 0 when the payload is inline
+  payload?: string;
+}
+
+/**
+ * Records that differ between a cache and its source table, as of checkedAt
+ */
+export interface CacheChanges {
+  added: number;
+  changed: number; // Modified in Airtable after the last sync
+  removed: number;
+  checkedAt: string;
+}
+
+export interface CacheMeta {
+  cacheKey: string;
+  recordId: string;
+  recordCount: number;
+  sourceCount: number;
+  lastSynced: string | null;
+  version: number; // Bumped on every write
+  isValid: boolean;
+  checksum: string | null; // null for records written before sharding
+  shards: number;
+  changes: CacheChanges | null; // null until checked since the last write
+}
+
+export interface CacheRead<T> {
+  meta: CacheMeta;
+  data: T | null;  // null when a shard is missing or the checksum doesn't match
+  error?: string;
+}
+
+interface AirtableRecord {
+  id: string;
+  fields: Record<string, unknown>;
+}
+
+function airtableHeaders(): Record<string, string> {
+  return {
+    'Authorization': `Bearer ${process.env.AIRTABLE_API_KEY}`,
+    'Content-Type': 'application/json',
+  };
+}
+
+function tableUrl(): string {
+  return `${AIRTABLE_API_URL}/${process.env.AIRTABLE_BASE_ID}/${encodeURIComponent(CACHE_TABLE)}`;
+}
+
+function escapeFormula(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+function checksumOf(json: string): string {
+  return createHash('sha256').update(json).digest('hex');
+}
+
+function shardPrefix(cacheKey: string, writeId?: string): string {
+  return `${cacheKey}${SHARD_MARKER}${writeId ? `${writeId}:` : ''}`;
+}
+
+export function isShardKey(cacheKey: string): boolean {
+  return cacheKey.includes(SHARD_MARKER);
+}
+
+function parseManifest(value: unknown): CacheManifest | null {
+  if (typeof value !== 'string' || !value.startsWith('{"storage":"sharded"')) return null;
+  try {
+    return JSON.parse(value) as CacheManifest;
+  } catch {
+    return null;
+  }
+}
+
+function parseChanges(value: unknown): CacheChanges | null {
+  if (typeof value !== 'string' || !value) return null;
+  try {
+    return JSON.parse(value) as CacheChanges;
+  } catch {
+    return null;
+  }
+}
+
+function toMeta(record: AirtableRecord, manifest: CacheManifest | null): CacheMeta {
+  const fields = record.fields;
+  return {
+    cacheKey: String(fields.cache_key || ''),
+    recordId: record.id,
+    recordCount: Number(fields.record_count) || 0,
+    sourceCount: Number(fields.source_count) || 0,
+    lastSynced: (fields.last_synced as string) || null,
+    version: Number(fields.version) || 1,
+    isValid: !!fields.is_valid,
+    checksum: manifest?.checksum ?? null,
+    shards: manifest?.shards ?? 0,
+    changes: parseChanges(fields.changes),
+  };
+}
+
+async function listRecords(filterByFormula: string, fields?: string[]): Promise<AirtableRecord[]> {
+  const records: AirtableRecord[] = [];
+  let offset: string | undefined;
+
+  do {
+    const params = new URLSearchParams({ filterByFormula, pageSize: '100' });
+    fields?.forEach((field) => params.append('fields[]', field));
+    if (offset) params.set('offset', offset);
+
+    const response = await fetch(`${tableUrl()}?${params}`, { headers: airtableHeaders() });
+    if (!response.ok) {
+      throw new Error(`Failed to read ${CACHE_TABLE}: ${response.status} ${(await response.text()).slice(0, 200)}`);
+    }
+    const data = await response.json();
+    records.push(...(data.records || []));
+    offset = data.offset;
+  } while (offset);
+
+  return records;
+}
+
+async function findManifest(cacheKey: string, fields?: string[]): Promise<AirtableRecord | null> {
+  const records = await listRecords(`{cache_key} = "${escapeFormula(cacheKey)}"`, fields);
+  return records[0] || null;
+}
+
+async function deleteRecords(ids: string[]): Promise<void> {
+  for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+    const params = new URLSearchParams();
+    ids.slice(i, i + BATCH_SIZE).forEach((id) => params.append('records[]', id));
+    const response = await fetch(`${tableUrl()}?${params}`, { method: 'DELETE', headers: airtableHeaders() });
+    if (!response.ok) {
+      throw new Error(`Failed to delete cache shards: ${response.status}`);
+    }
+  }
+}
+
+/**
+ * Reassemble and verify a sharded payload
+ */
+async function readPayload<T>(cacheKey: string, manifest: CacheManifest): Promise<T> {
+  let encoded = manifest.payload || '';
+
+  if (manifest.shards > 0) {
+    const prefix = shardPrefix(cacheKey, manifest.writeId);
+    const records = await listRecords(`FIND("${escapeFormula(prefix)}", {cache_key}) = 1`, ['cache_key', 'data']);
+
+    const chunks: string[] = [];
+    for (const record of records) {
+      const index = Number(String(record.fields.cache_key).slice(prefix.length));
+      if (Number.isInteger(index)) chunks[index] = String(record.fields.data || '');
+    }
+    for (let i = 0; i < manifest.shards; i++) {
+      if (chunks[i] === undefined) {
+        throw new Error(`shard ${i + 1} of ${manifest.shards} is missing`);
+      }
+    }
+    encoded = chunks.slice(0, manifest.shards).join('');
+  }
+
+  const json = gunzipSync(Buffer.from(encoded, 'base64')).toString('utf8');
+  if (json.length !== manifest.length || checksumOf(json) !== manifest.checksum) {
+    throw new Error('checksum mismatch');
+  }
+  return JSON.parse(json) as T;
+}
+
+/**
+ * Read a cache entry
+ * Returns null when there is no record for the key. A record whose payload
+ * can't be rebuilt comes back with `data: null` and the reason in `error`.
+ */
+export async function readCache<T>(cacheKey: string): Promise<CacheRead<T> | null> {
+  const record = await findManifest(cacheKey);
+  if (!record) return null;
+
+  const manifest = parseManifest(record.fields.data);
+  const meta = toMeta(record, manifest);
+
+  try {
+    const data = manifest
+      ? await readPayload<T>(cacheKey, manifest)
+      : (JSON.parse((record.fields.data as string) || '{"records":[]}') as T);
+    return { meta, data };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[SystemCache] Unreadable cache ${cacheKey} (v${meta.version}): ${message}`);
+    return { meta, data: null, error: message };
+  }
+}
+
+/**
+ * Metadata for every cache entry (no payloads, shard records left out)
+ */
+export async function listCacheMeta(): Promise<CacheMeta[]> {
+  const records = await listRecords(
+    `NOT(FIND("${SHARD_MARKER}", {cache_key}))`,
+    ['cache_key', 'record_count', 'source_count', 'last_synced', 'version', 'is_valid', 'changes']
+  );
+  return records.map((record) => toMeta(record, null));
+}
+
+/**
+ * Replace a cache entry
+ * Pass `syncedAt` (when the source read started) so edits made during a
+ * long sync still count as newer than the cache.
+ */
+export async function writeCache(
+  cacheKey: string,
+  data: unknown,
+  recordCount: number,
+  options: { sourceCount?: number; syncedAt?: string } = {}
+): Promise<CacheMeta> {
+  const existing = await findManifest(cacheKey, ['cache_key', 'version', 'data']);
+  const previous = parseManifest(existing?.fields.data);
+
+  const json = JSON.stringify(data);
+  const encoded = gzipSync(json).toString('base64');
+  const shardCount = encoded.length > SHARD_SIZE ? Math.ceil(encoded.length / SHARD_SIZE) : 0;
+  const manifest: CacheManifest = {
+    storage: 'sharded',
+    encoding: 'gzip-base64',
+    checksum: checksumOf(json),
+    length: json.length,
+    writeId: randomUUID().slice(0, 8),
+    shards: shardCount,
+    ...(shardCount === 0 ? { payload: encoded } : {}),
+  };
+  console.log(
+    `[SystemCache] Writing ${cacheKey}: ${(json.length / 1024).toFixed(1)} KB JSON, ` +
+    `${(encoded.length / 1024).toFixed(1)} KB compressed, ${shardCount || 'no'} shards`
+  );
+
+  // New shards first; the current manifest keeps pointing at the old ones until they're all in
+  const prefix = shardPrefix(cacheKey, manifest.writeId);
+  for (let i = 0; i < shardCount; i += BATCH_SIZE) {
+    const records = [];
+    for (let index = i; index < Math.min(i + BATCH_SIZE, shardCount); index++) {
+      records.push({
+        fields: {
+          cache_key: `${prefix}${index}`,
+          data: encoded.slice(index * SHARD_SIZE, (index + 1) * SHARD_SIZE),
+        },
+      });
+    }
+    const response = await fetch(tableUrl(), {
+      method: 'POST',
+      headers: airtableHeaders(),
+      body: JSON.stringify({ records }),
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to write cache shards for ${cacheKey}: ${(await response.text()).slice(0, 200)}`);
+    }
+  }
+
+  const version = (Number(existing?.fields.version) || 0) + 1;
+  const fields = {
+    cache_key: cacheKey,
+    data: JSON.stringify(manifest),
+    record_count: recordCount,
+    source_count: options.sourceCount ?? recordCount,
+    last_synced: options.syncedAt || new Date().toISOString(),
+    is_valid: true,
+    version,
+    changes: null, // Unknown until the next check
+  };
+  const response = await fetch(existing ? `${tableUrl()}/${existing.id}` : tableUrl(), {
+    method: existing ? 'PATCH' : 'POST',
+    headers: airtableHeaders(),
+    body: JSON.stringify({ fields }),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to write cache ${cacheKey}: ${(await response.text()).slice(0, 200)}`);
+  }
+  const saved: AirtableRecord = await response.json();
+
+  // Only the version we replaced is unreferenced: a concurrent write of the
+  // same key may still be creating shards under its own write id
+  if (previous?.shards) {
+    try {
+      const stale = await listRecords(
+        `FIND("${escapeFormula(shardPrefix(cacheKey, previous.writeId))}", {cache_key}) = 1`,
+        ['cache_key']
+      );
+      await deleteRecords(stale.map((record) => record.id));
+    } catch (error) {
+      console.warn(`[SystemCache] Failed to clean up old shards for ${cacheKey}:`, error);
+    }
+  }
+
+  return toMeta(saved, manifest);
+}
+
+/**
+ * Store the result of checking a cache against its source table
+ */
+export async function recordCacheChanges(
+  cacheKey: string,
+  sourceCount: number,
+  changes: CacheChanges
+): Promise<void> {
+  const record = await findManifest(cacheKey, ['cache_key']);
+  if (!record) return;
+
+  const response = await fetch(`${tableUrl()}/${record.id}`, {
+    method: 'PATCH',
+    headers: airtableHeaders(),
+    body: JSON.stringify({ fields: { source_count: sourceCount, changes: JSON.stringify(changes) } }),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to record changes for cache ${cacheKey}: ${response.status}`);
+  }
+}
+
+/**
+ * Mark a cache entry stale without touching its data
+ */
+export async function invalidateCache(cacheKey: string): Promise<void> {
+  const record = await findManifest(cacheKey, ['cache_key']);
+  if (!record) return;
+
+  const response = await fetch(`${tableUrl()}/${record.id}`, {
+    method: 'PATCH',
+    headers: airtableHeaders(),
+    body: JSON.stringify({ fields: { is_valid: false } }),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to invalidate cache ${cacheKey}: ${response.status}`);
+  }
+}
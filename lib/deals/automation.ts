@@ -0,0 +1,665 @@
+/**
+ * Deal Stage Automation
+ * Configurable rules of the form trigger → conditions → actions that act on
+ * deals (Property-Buyer Matches) without anyone dragging a card.
+ *
+ * Triggers:
+ * - reply-received: the buyer replied to a property SMS with one of the intents
+ * - stage-entered: a deal moves into a stage (by hand or by another rule)
+ * - stage-idle: a deal has sat in a stage for N days (checked by the daily run)
+ *
+ * Actions move the stage, send the buyer an SMS/email template, or send a GHL
+ * document template. Messages go through the buyer's consent checks
+ * (lib/messaging/send.ts); one that is blocked is noted on the deal instead.
+ * Every action taken is appended to the match's Activities with user
+ * 'automation' and the rule id, so an idle rule fires once per stay in a stage.
+ *
+ * Rules are stored in the Airtable "Automation Rules" table as a JSON blob
+ * (same layout as Matching Profiles); DEFAULT_AUTOMATION_RULES apply until saved.
+ */
+
+import { DEAL_STAGES, EXIT_STAGE, type DealActivity } from './pipeline';
+import { parseReplyIntent, REPLY_INTENTS, type ReplyIntent } from './replies';
+import { sendConsentedMessage } from '../messaging/send';
+
+export type AutomationTrigger =
+  | { type: 'reply-received'; intents: ReplyIntent[] }
+  | { type: 'stage-entered'; stage: string }
+  | { type: 'stage-idle'; stage: string; days: number };
+
+export interface AutomationConditions {
+  stages?: string[];     // Deal must currently be in one of these stages
+  minScore?: number;
+  dealTypes?: string[];  // Buyer's Deal Type (case-insensitive)
+}
+
+export type AutomationAction =
+  | { type: 'move-stage'; stage: string }
+  | { type: 'send-message'; channel: 'sms' | 'email'; subject?: string; message: string }
+  | { type: 'send-document'; templateId: string; templateName?: string };
+
+export interface AutomationRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  trigger: AutomationTrigger;
+  conditions: AutomationConditions;
+  actions: AutomationAction[];
+}
+
+export type AutomationEvent =
+  | { type: 'reply-received'; dealId: string; message: string; intent: ReplyIntent }
+  | { type: 'stage-entered'; dealId: string; stage: string };
+
+/**
+ * The slice of a deal the rules look at
+ */
+export interface AutomationDeal {
+  id: string;
+  stage: string;
+  score: number;
+  activities: DealActivity[];
+  createdAt: string;
+  contactId: string;        // Buyer's GHL contact
+  firstName: string;
+  dealType?: string;
+  propertyAddress: string;
+  propertyCode?: string;
+}
+
+export interface AutomationActionResult {
+  type: AutomationAction['type'];
+  ok: boolean;
+  skipped?: boolean; // Message not sent because of the buyer's consent (error has why)
+  error?: string;
+}
+
+export interface AutomationResult {
+  ruleId: string;
+  ruleName: string;
+  dealId: string;
+  trigger: AutomationTrigger['type'];
+  actions: AutomationActionResult[];
+  movedTo?: string;
+}
+
+export const AUTOMATION_RULES_TABLE = 'Automation Rules';
+
+export const AUTOMATION_USER = 'automation';
+
+// Audit log actor for actions taken by rules
+export const AUTOMATION_ACTOR = { email: AUTOMATION_USER, name: 'Automation', role: 'system' };
+
+// Stages a rule can watch or move a deal to
+export const AUTOMATION_STAGES: readonly string[] = [...DEAL_STAGES, EXIT_STAGE];
+
+// Stops rules that move stages from triggering each other forever
+const MAX_CHAIN_DEPTH = 3;
+
+const MATCHES_TABLE = 'Property-Buyer Matches';
+const AIRTABLE_API_URL = 'https://api.airtable.com/v0';
+const GHL_API_URL = 'https://services.leadconnectorhq.com';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_AUTOMATION_RULES: AutomationRule[] = [
+  {
+    id: 'reply-yes',
+    name: 'Buyer replied YES',
+    enabled: true,
+    trigger: { type: 'reply-received', intents: ['yes'] },
+    conditions: { stages: ['Sent to Buyer'] },
+    actions: [{ type: 'move-stage', stage: 'Buyer Responded' }],
+  },
+  {
+    id: 'reply-no',
+    name: 'Buyer replied NO or STOP',
+    enabled: true,
+    trigger: { type: 'reply-received', intents: ['no', 'stop'] },
+    conditions: { stages: ['Sent to Buyer', 'Buyer Responded'] },
+    actions: [{ type: 'move-stage', stage: EXIT_STAGE }],
+  },
+  {
+    id: 'sent-follow-up',
+    name: 'Follow up after 5 days',
+    // Off until staff turn it on: idle time counts from the deal's last
+    // activity, so the first run would text every deal already idle
+    enabled: false,
+    trigger: { type: 'stage-idle', stage: 'Sent to Buyer', days: 5 },
+    conditions: {},
+    actions: [
+      {
+        type: 'send-message',
+        channel: 'sms',
+        message: 'Hi {{firstName}}, just checking in on {{address}}. Still interested? Reply YES and we will set up a showing. - Purple Homes',
+      },
+    ],
+  },
+  {
+    id: 'contracts-agreement',
+    name: 'Send purchase agreement',
+    // Needs a document template picked in Settings before it can run
+    enabled: false,
+    trigger: { type: 'stage-entered', stage: 'Contracts' },
+    conditions: {},
+    actions: [{ type: 'send-document', templateId: '', templateName: 'Purchase Agreement' }],
+  },
+];
+
+interface AirtableRecord {
+  id: string;
+  fields: Record<string, unknown>;
+  createdTime?: string;
+}
+
+function airtableHeaders(): Record<string, string> {
+  return {
+    'Authorization': `Bearer ${process.env.AIRTABLE_API_KEY}`,
+    'Content-Type': 'application/json',
+  };
+}
+
+function tableUrl(table: string): string {
+  return `${AIRTABLE_API_URL}/${process.env.AIRTABLE_BASE_ID}/${encodeURIComponent(table)}`;
+}
+
+function ghlHeaders(): Record<string, string> {
+  return {
+    'Authorization': `Bearer ${process.env.GHL_API_KEY}`,
+    'Content-Type': 'application/json',
+    'Version': '2021-07-28',
+  };
+}
+
+function escapeFormula(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+function firstValue(value: unknown): string | undefined {
+  const first = Array.isArray(value) ? value[0] : value;
+  return first ? String(first) : undefined;
+}
+
+function parseActivities(value: unknown): DealActivity[] {
+  if (typeof value !== 'string' || !value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+// ============ RULES ============
+
+/**
+ * Intents of a stored reply-received trigger
+ * Rules saved before intents existed have `keywords` instead; each keyword is
+ * classified like a reply (e.g. "interested" → yes) so the rule keeps firing.
+ */
+function storedReplyIntents(trigger: { intents?: unknown; keywords?: unknown }): ReplyIntent[] {
+  if (Array.isArray(trigger.intents)) {
+    return trigger.intents.filter((intent): intent is ReplyIntent => REPLY_INTENTS.includes(intent));
+  }
+  if (!Array.isArray(trigger.keywords)) return [];
+
+  const intents = trigger.keywords
+    .map((keyword) => parseReplyIntent(String(keyword)))
+    .filter((intent) => intent !== 'other');
+  return [...new Set(intents)];
+}
+
+/**
+ * Drop malformed stored rules (missing id, trigger or actions)
+ */
+export function normalizeAutomationRules(stored: unknown): AutomationRule[] {
+  if (!Array.isArray(stored)) return DEFAULT_AUTOMATION_RULES;
+
+  return stored
+    .filter((rule): rule is AutomationRule =>
+      !!rule?.id && !!rule?.trigger?.type && Array.isArray(rule?.actions)
+    )
+    .map((rule) => ({
+      ...rule,
+      trigger: rule.trigger.type === 'reply-received'
+        ? { type: 'reply-received', intents: storedReplyIntents(rule.trigger) }
+        : rule.trigger,
+      name: rule.name || rule.id,
+      enabled: rule.enabled !== false,
+      conditions: rule.conditions || {},
+    }));
+}
+
+/**
+ * When the deal entered its current stage (last stage change into it, else match creation)
+ */
+export function stageEnteredAt(deal: AutomationDeal): string {
+  const entered = deal.activities
+    .filter((a) => a.type === 'stage-change' && a.metadata?.toStage === deal.stage)
+    .map((a) => a.timestamp)
+    .sort()
+    .pop();
+  return entered || deal.createdAt;
+}
+
+export function matchesConditions(conditions: AutomationConditions, deal: AutomationDeal): boolean {
+  if (conditions.stages?.length && !conditions.stages.includes(deal.stage)) return false;
+  if (conditions.minScore && deal.score < conditions.minScore) return false;
+  if (conditions.dealTypes?.length) {
+    const dealType = (deal.dealType || '').toLowerCase();
+    if (!conditions.dealTypes.some((t) => t.toLowerCase() === dealType)) return false;
+  }
+  return true;
+}
+
+/**
+ * Rules an event fires for this deal
+ */
+export function rulesForEvent(
+  rules: AutomationRule[],
+  event: AutomationEvent,
+  deal: AutomationDeal
+): AutomationRule[] {
+  return rules.filter((rule) => {
+    if (!rule.enabled || rule.trigger.type !== event.type) return false;
+
+    if (rule.trigger.type === 'reply-received' && event.type === 'reply-received') {
+      if (!rule.trigger.intents?.includes(event.intent)) return false;
+    }
+    if (rule.trigger.type === 'stage-entered' && event.type === 'stage-entered') {
+      if (rule.trigger.stage !== event.stage) return false;
+    }
+
+    return matchesConditions(rule.conditions, deal);
+  });
+}
+
+/**
+ * Idle rules that are due for this deal and haven't fired since it entered the stage
+ */
+export function dueIdleRules(rules: AutomationRule[], deal: AutomationDeal, now: Date = new Date()): AutomationRule[] {
+  const enteredAt = stageEnteredAt(deal);
+  const idleDays = (now.getTime() - new Date(enteredAt).getTime()) / DAY_MS;
+
+  return rules.filter((rule) => {
+    if (!rule.enabled || rule.trigger.type !== 'stage-idle') return false;
+    if (rule.trigger.stage !== deal.stage || idleDays < rule.trigger.days) return false;
+
+    const alreadyFired = deal.activities.some(
+      (a) => a.metadata?.automationRuleId === rule.id && a.timestamp >= enteredAt
+    );
+    return !alreadyFired && matchesConditions(rule.conditions, deal);
+  });
+}
+
+/**
+ * Fill {{firstName}}, {{address}}, {{propertyCode}} and {{stage}} placeholders
+ */
+export function renderAutomationTemplate(text: string, deal: AutomationDeal): string {
+  const values: Record<string, string> = {
+    firstName: deal.firstName || 'there',
+    address: deal.propertyAddress,
+    propertyCode: deal.propertyCode || '',
+    stage: deal.stage,
+  };
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, key: string) => values[key] ?? placeholder);
+}
+
+/**
+ * Load saved rules (defaults if the table is missing or empty)
+ */
+export async function loadAutomationRules(): Promise<AutomationRule[]> {
+  try {
+    const response = await fetch(`${tableUrl(AUTOMATION_RULES_TABLE)}?maxRecords=1`, { headers: airtableHeaders() });
+    if (!response.ok) return DEFAULT_AUTOMATION_RULES;
+
+    const data = await response.json();
+    const raw = data.records?.[0]?.fields?.['Rules'];
+    if (!raw) return DEFAULT_AUTOMATION_RULES;
+
+    return normalizeAutomationRules(typeof raw === 'string' ? JSON.parse(raw) : raw);
+  } catch (error) {
+    console.error('[Automation] Error loading rules, using defaults:', error);
+    return DEFAULT_AUTOMATION_RULES;
+  }
+}
+
+/**
+ * Replace the saved rules, returning the previous ones for the audit log
+ */
+export async function saveAutomationRules(
+  rules: AutomationRule[]
+): Promise<{ recordId?: string; previous: AutomationRule[] | null }> {
+  const listResponse = await fetch(`${tableUrl(AUTOMATION_RULES_TABLE)}?maxRecords=1`, { headers: airtableHeaders() });
+  const listData = listResponse.ok ? await listResponse.json() : { records: [] };
+  const existing = listData.records?.[0];
+
+  const response = await fetch(
+    existing ? `${tableUrl(AUTOMATION_RULES_TABLE)}/${existing.id}` : tableUrl(AUTOMATION_RULES_TABLE),
+    {
+      method: existing ? 'PATCH' : 'POST',
+      headers: airtableHeaders(),
+      body: JSON.stringify({
+        fields: {
+          'Rules': JSON.stringify(rules),
+          'Updated At': new Date().toISOString(),
+        },
+      }),
+    }
+  );
+  if (!response.ok) {
+    throw new Error(`Failed to save automation rules: ${response.status} ${(await response.text()).slice(0, 200)}`);
+  }
+
+  const saved = await response.json();
+  const previous = existing?.fields?.['Rules'];
+  return { recordId: saved.id, previous: previous ? JSON.parse(previous) : null };
+}
+
+// ============ DEALS ============
+
+async function fetchRecordsByIds(table: string, ids: string[]): Promise<AirtableRecord[]> {
+  const records: AirtableRecord[] = [];
+
+  // Keep the formula well under Airtable's URL length limit
+  for (let i = 0; i < ids.length; i += 50) {
+    const chunk = ids.slice(i, i + 50);
+    const formula = `OR(${chunk.map((id) => `RECORD_ID()="${escapeFormula(id)}"`).join(',')})`;
+    records.push(...(await fetchAllRecords(table, formula)));
+  }
+  return records;
+}
+
+async function fetchAllRecords(table: string, filterByFormula: string): Promise<AirtableRecord[]> {
+  const records: AirtableRecord[] = [];
+  let offset: string | undefined;
+
+  do {
+    const params = new URLSearchParams({ filterByFormula, pageSize: '100' });
+    if (offset) params.set('offset', offset);
+
+    const response = await fetch(`${tableUrl(table)}?${params}`, { headers: airtableHeaders() });
+    if (!response.ok) {
+      throw new Error(`Failed to load ${table}: ${response.status}`);
+    }
+    const data = await response.json();
+    records.push(...(data.records || []));
+    offset = data.offset;
+  } while (offset);
+
+  return records;
+}
+
+function toAutomationDeal(
+  match: AirtableRecord,
+  buyer: AirtableRecord | undefined,
+  property: AirtableRecord | undefined
+): AutomationDeal {
+  const fields = match.fields;
+  return {
+    id: match.id,
+    stage: String(fields['Match Stage'] || ''),
+    score: typeof fields['Match Score'] === 'number' ? fields['Match Score'] : 0,
+    activities: parseActivities(fields['Activities']),
+    createdAt: match.createdTime || new Date().toISOString(),
+    contactId: String(buyer?.fields['Contact ID'] || firstValue(fields['Contact ID (for GHL)']) || ''),
+    firstName: String(buyer?.fields['First Name'] || ''),
+    dealType: buyer?.fields['Deal Type'] ? String(buyer.fields['Deal Type']) : undefined,
+    propertyAddress: String(property?.fields['Address'] || 'the property'),
+    propertyCode: property?.fields['Property Code'] ? String(property.fields['Property Code']) : undefined,
+  };
+}
+
+/**
+ * Load one deal with its buyer and property
+ */
+export async function loadAutomationDeal(matchId: string): Promise<AutomationDeal | null> {
+  const response = await fetch(`${tableUrl(MATCHES_TABLE)}/${matchId}`, { headers: airtableHeaders() });
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Failed to load match ${matchId}: ${response.status}`);
+  }
+  const match: AirtableRecord = await response.json();
+
+  const buyerId = firstValue(match.fields['Contact ID']);
+  const propertyId = firstValue(match.fields['Property Code']);
+  const [buyer, property] = await Promise.all([
+    buyerId ? fetchRecordsByIds('Buyers', [buyerId]).then((r) => r[0]) : undefined,
+    propertyId ? fetchRecordsByIds('Properties', [propertyId]).then((r) => r[0]) : undefined,
+  ]);
+
+  return toAutomationDeal(match, buyer, property);
+}
+
+/**
+ * Load every deal currently in one of the stages
+ */
+async function loadDealsInStages(stages: string[]): Promise<AutomationDeal[]> {
+  if (stages.length === 0) return [];
+
+  const formula = `OR(${stages.map((s) => `{Match Stage}="${escapeFormula(s)}"`).join(',')})`;
+  const matches = await fetchAllRecords(MATCHES_TABLE, formula);
+
+  const buyerIds = [...new Set(matches.map((m) => firstValue(m.fields['Contact ID'])).filter((id): id is string => !!id))];
+  const propertyIds = [...new Set(matches.map((m) => firstValue(m.fields['Property Code'])).filter((id): id is string => !!id))];
+  const [buyers, properties] = await Promise.all([
+    fetchRecordsByIds('Buyers', buyerIds),
+    fetchRecordsByIds('Properties', propertyIds),
+  ]);
+  const buyersById = new Map(buyers.map((b) => [b.id, b]));
+  const propertiesById = new Map(properties.map((p) => [p.id, p]));
+
+  return matches.map((match) =>
+    toAutomationDeal(
+      match,
+      buyersById.get(firstValue(match.fields['Contact ID']) || ''),
+      propertiesById.get(firstValue(match.fields['Property Code']) || '')
+    )
+  );
+}
+
+/**
+ * Append activities to the match, re-reading it first so concurrent writes aren't lost
+ */
+async function appendMatchActivities(
+  matchId: string,
+  activities: DealActivity[],
+  fields: Record<string, unknown> = {}
+): Promise<void> {
+  const current = await fetch(`${tableUrl(MATCHES_TABLE)}/${matchId}`, { headers: airtableHeaders() });
+  const existing = current.ok ? parseActivities((await current.json()).fields?.['Activities']) : [];
+
+  const response = await fetch(`${tableUrl(MATCHES_TABLE)}/${matchId}`, {
+    method: 'PATCH',
+    headers: airtableHeaders(),
+    body: JSON.stringify({
+      fields: { ...fields, Activities: JSON.stringify([...existing, ...activities]) },
+    }),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to update match ${matchId}: ${response.status}`);
+  }
+}
+
+// ============ ACTIONS ============
+
+async function sendDocumentTemplate(templateId: string, contactId: string): Promise<void> {
+  const response = await fetch(`${GHL_API_URL}/proposals/templates/${templateId}/send`, {
+    method: 'POST',
+    headers: ghlHeaders(),
+    body: JSON.stringify({ contactIds: [contactId], locationId: process.env.GHL_LOCATION_ID }),
+  });
+  if (!response.ok) {
+    throw new Error(`Document send failed: ${response.status} ${(await response.text()).slice(0, 200)}`);
+  }
+}
+
+function newActivity(
+  rule: AutomationRule,
+  type: string,
+  details: string,
+  metadata: Record<string, unknown> = {}
+): DealActivity {
+  return {
+    id: `act_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
+    type,
+    timestamp: new Date().toISOString(),
+    details: `${details} (automation: ${rule.name})`,
+    user: AUTOMATION_USER,
+    metadata: { ...metadata, automationRuleId: rule.id },
+  };
+}
+
+/**
+ * Run a rule's actions in order against the deal and log what was done
+ * A failed action is reported but doesn't stop the ones after it.
+ */
+export async function executeAutomationRule(rule: AutomationRule, deal: AutomationDeal): Promise<AutomationResult> {
+  const result: AutomationResult = {
+    ruleId: rule.id,
+    ruleName: rule.name,
+    dealId: deal.id,
+    trigger: rule.trigger.type,
+    actions: [],
+  };
+  const activities: DealActivity[] = [];
+  let stage = deal.stage;
+
+  for (const action of rule.actions) {
+    try {
+      if (action.type === 'move-stage') {
+        if (action.stage === stage) continue;
+        activities.push(newActivity(rule, 'stage-change', `Stage changed from "${stage}" to "${action.stage}"`, {
+          fromStage: stage,
+          toStage: action.stage,
+        }));
+        stage = action.stage;
+      } else if (action.type === 'send-message') {
+        if (!deal.contactId) throw new Error('Deal has no GHL contact');
+        const message = renderAutomationTemplate(action.message, { ...deal, stage });
+        const context = {
+          source: 'matching' as const,
+          actor: AUTOMATION_ACTOR,
+          targetLabel: deal.propertyAddress,
+          details: `automation: ${rule.name}`,
+        };
+
+        const subject = action.channel === 'email'
+          ? renderAutomationTemplate(action.subject || '{{address}}', { ...deal, stage })
+          : undefined;
+        const sent = action.channel === 'email'
+          ? await sendConsentedMessage({
+            type: 'Email',
+            contactId: deal.contactId,
+            subject,
+            html: message.split('\n').map((line) => `<p>${line}</p>`).join('\n'),
+          }, context)
+          : await sendConsentedMessage({ type: 'SMS', contactId: deal.contactId, message }, context);
+
+        if (sent.status === 'skipped') {
+          // Logged on the deal too, so an idle rule doesn't retry it every run
+          const label = action.channel === 'email' ? 'Email' : 'SMS';
+          activities.push(newActivity(rule, 'note-added', `${label} not sent: ${sent.message}`, {
+            note: message,
+            consentReason: sent.reason,
+          }));
+          result.actions.push({ type: action.type, ok: false, skipped: true, error: sent.message });
+          continue;
+        }
+        if (action.channel === 'email') {
+          activities.push(newActivity(rule, 'email-sent', `Email sent: ${subject}`, { emailSubject: subject }));
+        } else {
+          activities.push(newActivity(rule, 'sms-sent', 'SMS sent', { note: message }));
+        }
+      } else if (action.type === 'send-document') {
+        if (!action.templateId) throw new Error('No document template selected');
+        if (!deal.contactId) throw new Error('Deal has no GHL contact');
+        await sendDocumentTemplate(action.templateId, deal.contactId);
+        activities.push(newActivity(rule, 'document-sent', `Sent ${action.templateName || 'document'}`));
+      }
+      result.actions.push({ type: action.type, ok: true });
+    } catch (error) {
+      console.error(`[Automation] Rule ${rule.id} ${action.type} failed for ${deal.id}:`, error);
+      result.actions.push({
+        type: action.type,
+        ok: false,
+        error: error instanceof Error ? error.message : 'Action failed',
+      });
+    }
+  }
+
+  if (activities.length > 0) {
+    const moved = stage !== deal.stage;
+    await appendMatchActivities(deal.id, activities, moved ? { 'Match Stage': stage } : {});
+    deal.activities = [...deal.activities, ...activities];
+    if (moved) {
+      result.movedTo = stage;
+      deal.stage = stage;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Run the rules an event fires, following stage moves into stage-entered rules
+ */
+export async function runAutomationEvent(
+  event: AutomationEvent,
+  rules?: AutomationRule[],
+  depth: number = 0
+): Promise<AutomationResult[]> {
+  const activeRules = rules || (await loadAutomationRules());
+  if (!activeRules.some((rule) => rule.enabled && rule.trigger.type === event.type)) return [];
+
+  const deal = await loadAutomationDeal(event.dealId);
+  if (!deal || !deal.stage) return [];
+
+  const results: AutomationResult[] = [];
+  for (const rule of rulesForEvent(activeRules, event, deal)) {
+    const result = await executeAutomationRule(rule, deal);
+    results.push(result);
+
+    if (result.movedTo && depth < MAX_CHAIN_DEPTH) {
+      results.push(...(await runAutomationEvent(
+        { type: 'stage-entered', dealId: deal.id, stage: result.movedTo },
+        activeRules,
+        depth + 1
+      )));
+      break; // Later rules were matched against the old stage
+    }
+  }
+  return results;
+}
+
+/**
+ * Fire idle rules for every deal that has sat in a stage long enough
+ */
+export async function runIdleAutomations(
+  now: Date = new Date()
+): Promise<{ checked: number; results: AutomationResult[] }> {
+  const rules = await loadAutomationRules();
+  const stages = [...new Set(
+    rules.flatMap((rule) => (rule.enabled && rule.trigger.type === 'stage-idle' ? [rule.trigger.stage] : []))
+  )];
+
+  const deals = await loadDealsInStages(stages);
+  const results: AutomationResult[] = [];
+
+  for (const deal of deals) {
+    for (const rule of dueIdleRules(rules, deal, now)) {
+      const result = await executeAutomationRule(rule, deal);
+      results.push(result);
+
+      if (result.movedTo) {
+        results.push(...(await runAutomationEvent(
+          { type: 'stage-entered', dealId: deal.id, stage: result.movedTo },
+          rules,
+          1
+        )));
+        break;
+      }
+    }
+  }
+
+  return { checked: deals.length, results };
+}
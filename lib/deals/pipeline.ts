@@ -0,0 +1,374 @@
+/**
+ * Deal Pipeline
+ * Turns Property-Buyer Matches with a Match Stage into deals, and filters,
+ * sorts and paginates them for the Deal Pipeline page.
+ *
+ * Everything here is pure; api/matching loads the records (deals action) so
+ * the browser no longer flattens aggregated buyers. Stats and groupings are
+ * derived in the browser from the full list (src/lib/dealPipeline.ts).
+ * Types mirror src/types/deals.ts on the client.
+ */
+
+import { isShowingOverdue, type Showing } from './showings';
+
+export const DEAL_STAGES = [
+  'Sent to Buyer',
+  'Buyer Responded',
+  'Showing Scheduled',
+  'Property Viewed',
+  'Underwriting',
+  'Contracts',
+  'Qualified',
+  'Closed Deal / Won',
+] as const;
+
+export const EXIT_STAGE = 'Not Interested';
+
+export type DealStage = typeof DEAL_STAGES[number] | typeof EXIT_STAGE;
+
+// Deals with no activity for this long need attention
+export const STALE_THRESHOLD_DAYS = 7;
+
+export interface DealActivity {
+  id: string;
+  type: string;
+  timestamp: string;
+  details: string;
+  user?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface DealNote {
+  id: string;
+  text: string;
+  timestamp: string;
+  user?: string;
+}
+
+export interface DealProperty {
+  recordId: string;
+  propertyCode: string;
+  opportunityId?: string;
+  address: string;
+  city: string;
+  state?: string;
+  zipCode?: string;
+  price?: number;
+  beds: number;
+  baths: number;
+  sqft?: number;
+  stage?: string;
+  heroImage?: string;
+  notes?: string;
+  monthlyPayment?: number;
+  downPayment?: number;
+  images?: string[];
+  propertyType?: string;
+  condition?: string;
+}
+
+export interface DealBuyer {
+  contactId: string;
+  recordId: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone?: string;
+  qualified: boolean;
+  language?: 'English' | 'Spanish';
+}
+
+export interface Deal {
+  id: string;
+  buyerRecordId: string;
+  propertyRecordId: string;
+  contactId: string;
+  propertyCode: string;
+  score: number;
+  distance?: number;
+  reasoning: string;
+  highlights: string[];
+  concerns: string[];
+  isPriority: boolean;
+  status: DealStage;
+  activities: DealActivity[];
+  notes: DealNote[];
+  ghlRelationId?: string;
+  createdAt?: string;
+  updatedAt?: string;
+  property: DealProperty;
+  buyer: DealBuyer;
+  showing?: Showing;
+  isStale: boolean;
+  isShowingOverdue?: boolean;
+  daysSinceActivity: number;
+  lastActivityAt?: string;
+}
+
+export interface DealFilters {
+  stage?: DealStage | 'all';
+  stages?: DealStage[];
+  buyerId?: string;      // Buyer record ID or GHL contact ID
+  propertyId?: string;   // Property record ID or property code
+  search?: string;       // Property address/city or buyer name
+  minScore?: number;
+  onlyStale?: boolean;   // Stale deals that are still open
+  onlyUpcoming?: boolean; // Deals with a scheduled showing or in "Showing Scheduled"
+}
+
+export type DealSortField =
+  | 'lastActivity'
+  | 'score'
+  | 'stage'
+  | 'createdAt'
+  | 'buyerName'
+  | 'propertyAddress'
+  | 'price'
+  | 'showingTime';
+
+export type DealSortDirection = 'asc' | 'desc';
+
+export interface DealSort {
+  field: DealSortField;
+  direction: DealSortDirection;
+}
+
+export interface MatchRecord {
+  id: string;
+  createdTime?: string;
+  fields: Record<string, unknown>;
+}
+
+const SORT_FIELDS: DealSortField[] = [
+  'lastActivity', 'score', 'stage', 'createdAt', 'buyerName', 'propertyAddress', 'price', 'showingTime',
+];
+
+const ALL_STAGES: DealStage[] = [...DEAL_STAGES, EXIT_STAGE];
+
+function isDealStage(value: unknown): value is DealStage {
+  return typeof value === 'string' && (ALL_STAGES as string[]).includes(value);
+}
+
+function isOpen(deal: Deal): boolean {
+  return deal.status !== 'Closed Deal / Won' && deal.status !== EXIT_STAGE;
+}
+
+function parseJsonArray<T>(value: unknown): T[] {
+  if (Array.isArray(value)) return value as T[];
+  if (typeof value !== 'string' || !value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+// Higher is further along; Not Interested ranks below every open stage
+function stageRank(stage: DealStage): number {
+  return stage === EXIT_STAGE ? 0 : DEAL_STAGES.indexOf(stage) + 1;
+}
+
+/**
+ * Build a deal from a match record, or null if the match isn't in the pipeline
+ * Matches without a Match Stage are plain matches, not deals.
+ */
+export function toDeal(
+  match: MatchRecord,
+  buyer: DealBuyer,
+  property: DealProperty | undefined,
+  now: Date = new Date()
+): Deal | null {
+  const fields = match.fields;
+  const rawStage = fields['Match Stage'];
+  if (!rawStage || !property) return null;
+
+  // 'Active' comes from the old Match Status field - treat it as the first stage
+  const status: DealStage = isDealStage(rawStage) ? rawStage : 'Sent to Buyer';
+
+  const activities = parseJsonArray<DealActivity>(fields['Activities']);
+  const lastActivityAt = activities
+    .map((a) => a.timestamp)
+    .filter(Boolean)
+    .sort()
+    .pop();
+  const lastDate = new Date(lastActivityAt || match.createdTime || now.toISOString());
+  const daysSinceActivity = Math.floor((now.getTime() - lastDate.getTime()) / (1000 * 60 * 60 * 24));
+
+  return {
+    id: match.id,
+    buyerRecordId: buyer.recordId,
+    propertyRecordId: property.recordId,
+    contactId: buyer.contactId,
+    propertyCode: property.propertyCode,
+    score: typeof fields['Match Score'] === 'number' ? fields['Match Score'] : 0,
+    distance: typeof fields['Distance'] === 'number' ? fields['Distance'] : undefined,
+    reasoning: String(fields['Match Notes'] || ''),
+    highlights: [],
+    concerns: [],
+    isPriority: fields['Is Priority'] === true,
+    status,
+    activities,
+    notes: parseJsonArray<DealNote>(fields['Notes']),
+    ghlRelationId: fields['GHL Relation ID'] ? String(fields['GHL Relation ID']) : undefined,
+    createdAt: match.createdTime,
+    updatedAt: fields['Last Modified'] ? String(fields['Last Modified']) : match.createdTime,
+    property,
+    buyer,
+    isStale: daysSinceActivity >= STALE_THRESHOLD_DAYS,
+    daysSinceActivity,
+    lastActivityAt,
+  };
+}
+
+/**
+ * Attach each deal's earliest scheduled showing (showings come sorted by start time)
+ */
+export function attachShowings(deals: Deal[], showings: Showing[], now: Date = new Date()): Deal[] {
+  const byDeal = new Map<string, Showing>();
+  for (const showing of showings) {
+    if (showing.status === 'scheduled' && !byDeal.has(showing.dealId)) {
+      byDeal.set(showing.dealId, showing);
+    }
+  }
+
+  return deals.map((deal) => {
+    const showing = byDeal.get(deal.id);
+    return showing ? { ...deal, showing, isShowingOverdue: isShowingOverdue(showing, now) } : deal;
+  });
+}
+
+/**
+ * Read DealFilters from query params
+ * `stages` is comma separated; booleans are "true"/"false".
+ */
+export function parseDealFilters(query: Record<string, string | string[] | undefined>): DealFilters {
+  const param = (name: string) => {
+    const value = query[name];
+    return Array.isArray(value) ? value[0] : value;
+  };
+
+  const filters: DealFilters = {};
+  const stage = param('stage');
+  if (stage === 'all' || isDealStage(stage)) filters.stage = stage;
+  const stages = param('stages')?.split(',').map((s) => s.trim()).filter(isDealStage);
+  if (stages && stages.length > 0) filters.stages = stages;
+  if (param('buyerId')) filters.buyerId = param('buyerId');
+  if (param('propertyId')) filters.propertyId = param('propertyId');
+  if (param('search')?.trim()) filters.search = param('search')!.trim();
+  const minScore = Number(param('minScore'));
+  if (minScore > 0) filters.minScore = minScore;
+  if (param('onlyStale') === 'true') filters.onlyStale = true;
+  if (param('onlyUpcoming') === 'true') filters.onlyUpcoming = true;
+  return filters;
+}
+
+/**
+ * Read a DealSort from query params (sortField, sortDirection)
+ */
+export function parseDealSort(
+  query: Record<string, string | string[] | undefined>,
+  fallback: DealSort = { field: 'lastActivity', direction: 'desc' }
+): DealSort {
+  const field = query.sortField as DealSortField;
+  const direction = query.sortDirection === 'asc' || query.sortDirection === 'desc'
+    ? query.sortDirection
+    : fallback.direction;
+  return { field: SORT_FIELDS.includes(field) ? field : fallback.field, direction };
+}
+
+export function filterDeals(deals: Deal[], filters: DealFilters): Deal[] {
+  const search = filters.search?.toLowerCase();
+
+  return deals.filter((deal) => {
+    if (filters.stage && filters.stage !== 'all') {
+      if (deal.status !== filters.stage) return false;
+    } else if (filters.stages && filters.stages.length > 0 && !filters.stages.includes(deal.status)) {
+      return false;
+    }
+
+    if (filters.buyerId && deal.buyer.recordId !== filters.buyerId && deal.buyer.contactId !== filters.buyerId) {
+      return false;
+    }
+    if (
+      filters.propertyId &&
+      deal.property.recordId !== filters.propertyId &&
+      deal.property.propertyCode !== filters.propertyId
+    ) {
+      return false;
+    }
+
+    if (search) {
+      const haystack = [
+        deal.property.address,
+        deal.property.city,
+        `${deal.buyer.firstName} ${deal.buyer.lastName}`,
+        deal.buyer.contactId,
+      ].join(' ').toLowerCase();
+      if (!haystack.includes(search)) return false;
+    }
+
+    if (filters.minScore && deal.score < filters.minScore) return false;
+    if (filters.onlyStale && !(deal.isStale && isOpen(deal))) return false;
+    if (filters.onlyUpcoming && !deal.showing && deal.status !== 'Showing Scheduled') return false;
+
+    return true;
+  });
+}
+
+function compareDeals(a: Deal, b: Deal, field: DealSortField): number {
+  switch (field) {
+    case 'lastActivity':
+      return (a.lastActivityAt || '').localeCompare(b.lastActivityAt || '');
+    case 'score':
+      return a.score - b.score;
+    case 'stage':
+      return stageRank(a.status) - stageRank(b.status);
+    case 'createdAt':
+      return (a.createdAt || '').localeCompare(b.createdAt || '');
+    case 'buyerName':
+      return `${a.buyer.firstName} ${a.buyer.lastName}`.localeCompare(`${b.buyer.firstName} ${b.buyer.lastName}`);
+    case 'propertyAddress':
+      return a.property.address.localeCompare(b.property.address);
+    case 'price':
+      return (a.property.price || 0) - (b.property.price || 0);
+    case 'showingTime':
+      return (a.showing?.startTime || '').localeCompare(b.showing?.startTime || '');
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Sort deals; ties fall back to the match ID so pages are stable
+ * Deals without a showing always sort after those with one by showing time.
+ */
+export function sortDeals(deals: Deal[], sort: DealSort): Deal[] {
+  const sign = sort.direction === 'asc' ? 1 : -1;
+
+  return [...deals].sort((a, b) => {
+    if (sort.field === 'showingTime' && !a.showing !== !b.showing) {
+      return a.showing ? -1 : 1;
+    }
+    return sign * compareDeals(a, b, sort.field) || a.id.localeCompare(b.id);
+  });
+}
+
+/**
+ * Slice a page; a limit of 0 returns everything from the offset
+ */
+export function paginate<T>(items: T[], offset: number, limit: number): {
+  items: T[];
+  total: number;
+  offset: number;
+  nextOffset: number | null;
+} {
+  const start = Math.max(0, offset);
+  const end = limit > 0 ? start + limit : items.length;
+  return {
+    items: items.slice(start, end),
+    total: items.length,
+    offset: start,
+    nextOffset: end < items.length ? end : null,
+  };
+}
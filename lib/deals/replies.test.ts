@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { isDuplicateReply, parseReplyIntent, type InboundReply, type StoredReply } from './replies';
+
+describe('parseReplyIntent', () => {
+  it('reads yes and no replies in English and Spanish', () => {
+    expect(parseReplyIntent('YES!')).toBe('yes');
+    expect(parseReplyIntent('Sí, me interesa')).toBe('yes');
+    expect(parseReplyIntent("I'm interested")).toBe('yes');
+    expect(parseReplyIntent('No thanks')).toBe('no');
+    expect(parseReplyIntent('Not interested right now')).toBe('no');
+  });
+
+  it('only treats an opt-out keyword as STOP when it is the whole message', () => {
+    expect(parseReplyIntent(' Stop. ')).toBe('stop');
+    expect(parseReplyIntent('UNSUBSCRIBE')).toBe('stop');
+    expect(parseReplyIntent('End of the month works for a showing')).not.toBe('stop');
+    expect(parseReplyIntent('Cancel my showing tomorrow?')).toBe('question');
+  });
+
+  it('falls back to question or other', () => {
+    expect(parseReplyIntent('How many bedrooms?')).toBe('question');
+    expect(parseReplyIntent('Call me after 5')).toBe('other');
+    expect(parseReplyIntent('   ')).toBe('other');
+  });
+});
+
+describe('isDuplicateReply', () => {
+  const stored: StoredReply[] = [
+    { message: 'Yes', intent: 'yes', receivedAt: '2026-06-10T15:00:00.000Z' },
+    { message: 'Maybe', intent: 'other', receivedAt: '2026-06-10T15:00:00.000Z', messageId: 'msg1' },
+  ];
+  const reply = (overrides: Partial<InboundReply>): InboundReply => ({
+    message: 'Yes',
+    receivedAt: '2026-06-10T15:05:00.000Z',
+    ...overrides,
+  });
+
+  it('matches on the GHL message id when there is one', () => {
+    expect(isDuplicateReply(stored, reply({ message: 'Maybe', messageId: 'msg1' }))).toBe(true);
+    expect(isDuplicateReply(stored, reply({ messageId: 'msg2' }))).toBe(false);
+  });
+
+  it('treats the same text without a message id as a retry for a few minutes', () => {
+    expect(isDuplicateReply(stored, reply({}))).toBe(true);
+    expect(isDuplicateReply(stored, reply({ receivedAt: '2026-06-10T16:00:00.000Z' }))).toBe(false);
+    expect(isDuplicateReply(stored, reply({ message: 'Yes please' }))).toBe(false);
+  });
+});
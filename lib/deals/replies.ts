@@ -0,0 +1,297 @@
+/**
+ * Buyer SMS Replies
+ * Property texts ask buyers to "Reply YES if interested". GHL posts inbound
+ * messages to api/ghl?resource=messages&action=inbound; each reply is matched
+ * to the sender's GHL contact and attached to the most recent property SMS
+ * (`sms-sent` / `sms-email-sent` activity) on that buyer's Property-Buyer
+ * Matches records.
+ *
+ * One SMS usually lists several properties, so the reply is attached to every
+ * match that SMS went out on. A simple intent (yes/no/stop/question) is parsed
+ * from the text; reply-received automation rules act on it, and STOP turns on
+ * SMS do-not-disturb for the contact in GHL.
+ */
+
+import type { DealActivity } from './pipeline';
+
+export type ReplyIntent = 'yes' | 'no' | 'stop' | 'question' | 'other';
+
+export const REPLY_INTENTS: ReplyIntent[] = ['yes', 'no', 'stop', 'question', 'other'];
+
+export interface InboundReply {
+  contactId?: string;
+  phone?: string;
+  message: string;
+  messageId?: string;
+  receivedAt: string; // ISO
+}
+
+/**
+ * A reply as stored on the SMS activity it answers (metadata.replies)
+ */
+export interface StoredReply {
+  message: string;
+  intent: ReplyIntent;
+  receivedAt: string;
+  messageId?: string;
+}
+
+export interface AttachedReply {
+  matchId: string;
+  activityId: string;
+}
+
+const SMS_ACTIVITY_TYPES = ['sms-sent', 'sms-email-sent'];
+
+// Activities written by one send (one per property) land within this window
+const SMS_BATCH_WINDOW_MS = 10 * 60 * 1000;
+
+// A reply without a GHL message id repeated within this window is a webhook retry
+const REPLY_RETRY_WINDOW_MS = 15 * 60 * 1000;
+
+const MATCHES_TABLE = 'Property-Buyer Matches';
+const AIRTABLE_API_URL = 'https://api.airtable.com/v0';
+const GHL_API_URL = 'https://services.leadconnectorhq.com';
+
+// Checked in this order: an opt-out always wins, and "not interested" is a no.
+// An opt-out keyword only counts as the whole message ("end" or "cancel" in a
+// sentence is not a STOP).
+const INTENT_PATTERNS: Array<{ intent: ReplyIntent; pattern: RegExp }> = [
+  { intent: 'stop', pattern: /^(stop|stopall|unsubscribe|cancel|end|quit|optout|opt out|alto|parar|baja)$/ },
+  { intent: 'no', pattern: /^(no|nope|nah|pass)\b|\bnot interested\b|\bno (thanks|thank you|gracias)\b|\bno me interesa\b/ },
+  { intent: 'yes', pattern: /^(yes|yeah|yep|yup|ya|si|sure|interested|me interesa)\b|^y$|\b(i'?m|im|very|estoy|muy) (interested|interesad[oa])\b/ },
+  { intent: 'question', pattern: /\?|^(what|when|where|how|who|why|is|are|can|could|does|do|which|cuanto|cuando|donde|como|que)\b/ },
+];
+
+interface AirtableRecord {
+  id: string;
+  fields: Record<string, unknown>;
+}
+
+function airtableHeaders(): Record<string, string> {
+  return {
+    'Authorization': `Bearer ${process.env.AIRTABLE_API_KEY}`,
+    'Content-Type': 'application/json',
+  };
+}
+
+function tableUrl(): string {
+  return `${AIRTABLE_API_URL}/${process.env.AIRTABLE_BASE_ID}/${encodeURIComponent(MATCHES_TABLE)}`;
+}
+
+function ghlHeaders(): Record<string, string> {
+  return {
+    'Authorization': `Bearer ${process.env.GHL_API_KEY}`,
+    'Content-Type': 'application/json',
+    'Version': '2021-07-28',
+  };
+}
+
+function escapeFormula(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+function parseActivities(value: unknown): DealActivity[] {
+  if (typeof value !== 'string' || !value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function text(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function toIso(value: string | undefined): string {
+  const date = value ? new Date(value) : new Date();
+  return Number.isNaN(date.getTime()) ? new Date().toISOString() : date.toISOString();
+}
+
+/**
+ * Classify a reply (English and Spanish)
+ */
+export function parseReplyIntent(message: string): ReplyIntent {
+  const normalized = message
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[!.,;:"]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  if (!normalized) return 'other';
+  return INTENT_PATTERNS.find(({ pattern }) => pattern.test(normalized))?.intent ?? 'other';
+}
+
+/**
+ * Read an inbound SMS from either webhook shape GHL sends
+ * - Marketplace InboundMessage event: { type, contactId, body, messageType, direction, messageId, dateAdded }
+ * - Workflow webhook ("Customer Replied"): { contact_id, phone, message: { body, type } }
+ * Returns null for anything that isn't an inbound SMS.
+ */
+export function parseInboundMessage(payload: Record<string, unknown>): InboundReply | null {
+  const nested = (typeof payload.message === 'object' && payload.message !== null
+    ? payload.message
+    : {}) as Record<string, unknown>;
+
+  const direction = text(payload.direction) || text(nested.direction);
+  if (direction && direction !== 'inbound') return null;
+
+  const messageType = String(payload.messageType || nested.type || payload.type || 'SMS').toUpperCase();
+  if (!messageType.includes('SMS') && messageType !== 'INBOUNDMESSAGE' && messageType !== '2') return null;
+
+  const message = text(payload.body) || text(nested.body) || text(payload.message);
+  if (!message) return null;
+
+  return {
+    contactId: text(payload.contactId) || text(payload.contact_id),
+    phone: text(payload.phone) || text(payload.from),
+    message,
+    messageId: text(payload.messageId) || text(nested.id) || text(payload.id),
+    receivedAt: toIso(text(payload.dateAdded)),
+  };
+}
+
+/**
+ * Find the GHL contact for a phone number (replies from workflows without a contact id)
+ */
+export async function findContactIdByPhone(phone: string): Promise<string | null> {
+  const params = new URLSearchParams({ locationId: process.env.GHL_LOCATION_ID || '', number: phone });
+  const response = await fetch(`${GHL_API_URL}/contacts/search/duplicate?${params}`, { headers: ghlHeaders() });
+  if (!response.ok) {
+    throw new Error(`Contact lookup failed: ${response.status}`);
+  }
+  const data = await response.json();
+  return data.contact?.id || null;
+}
+
+/**
+ * The SMS activities a reply answers: the latest property SMS to the buyer
+ * and any sent with it (same send, one activity per property)
+ */
+export function selectRepliedActivities(
+  matches: Array<{ id: string; activities: DealActivity[] }>,
+  receivedAt: string
+): AttachedReply[] {
+  const candidates = matches.flatMap((match) =>
+    match.activities
+      .filter((a) => SMS_ACTIVITY_TYPES.includes(a.type) && a.timestamp <= receivedAt)
+      .map((a) => ({ matchId: match.id, activityId: a.id, time: new Date(a.timestamp).getTime() }))
+  );
+  if (candidates.length === 0) return [];
+
+  const latest = Math.max(...candidates.map((c) => c.time));
+
+  // Only the newest SMS activity per match
+  const byMatch = new Map<string, { matchId: string; activityId: string; time: number }>();
+  for (const candidate of candidates) {
+    if (latest - candidate.time > SMS_BATCH_WINDOW_MS) continue;
+    const current = byMatch.get(candidate.matchId);
+    if (!current || candidate.time > current.time) byMatch.set(candidate.matchId, candidate);
+  }
+
+  return [...byMatch.values()].map(({ matchId, activityId }) => ({ matchId, activityId }));
+}
+
+/**
+ * True if the reply is already stored: same GHL message id, or for replies
+ * without one, the same text received within a few minutes
+ */
+export function isDuplicateReply(replies: StoredReply[], reply: InboundReply): boolean {
+  if (reply.messageId) return replies.some((r) => r.messageId === reply.messageId);
+
+  const receivedAt = new Date(reply.receivedAt).getTime();
+  return replies.some((r) =>
+    !r.messageId &&
+    r.message === reply.message &&
+    Math.abs(new Date(r.receivedAt).getTime() - receivedAt) <= REPLY_RETRY_WINDOW_MS
+  );
+}
+
+async function listContactMatches(contactId: string): Promise<AirtableRecord[]> {
+  const records: AirtableRecord[] = [];
+  const filterByFormula = `AND({Match Stage} != '', FIND("${escapeFormula(contactId)}", ARRAYJOIN({Contact ID (for GHL)})))`;
+  let offset: string | undefined;
+
+  do {
+    const params = new URLSearchParams({ filterByFormula, pageSize: '100' });
+    if (offset) params.set('offset', offset);
+
+    const response = await fetch(`${tableUrl()}?${params}`, { headers: airtableHeaders() });
+    if (!response.ok) {
+      throw new Error(`Failed to load matches for ${contactId}: ${response.status}`);
+    }
+    const data = await response.json();
+    records.push(...(data.records || []));
+    offset = data.offset;
+  } while (offset);
+
+  return records;
+}
+
+/**
+ * Attach a reply to the buyer's latest property SMS activities
+ * Idempotent (see isDuplicateReply), so webhook retries don't duplicate replies.
+ */
+export async function attachReplyToMatches(
+  contactId: string,
+  reply: InboundReply,
+  intent: ReplyIntent
+): Promise<AttachedReply[]> {
+  const records = await listContactMatches(contactId);
+  const matches = records.map((record) => ({ id: record.id, activities: parseActivities(record.fields['Activities']) }));
+  const targets = selectRepliedActivities(matches, reply.receivedAt);
+
+  const stored: StoredReply = {
+    message: reply.message,
+    intent,
+    receivedAt: reply.receivedAt,
+    messageId: reply.messageId,
+  };
+
+  const attached: AttachedReply[] = [];
+  for (const target of targets) {
+    const match = matches.find((m) => m.id === target.matchId);
+    if (!match) continue;
+
+    let duplicate = false;
+    const activities = match.activities.map((activity) => {
+      if (activity.id !== target.activityId) return activity;
+      const replies = Array.isArray(activity.metadata?.replies) ? (activity.metadata.replies as StoredReply[]) : [];
+      duplicate = isDuplicateReply(replies, reply);
+      return duplicate ? activity : { ...activity, metadata: { ...activity.metadata, replies: [...replies, stored] } };
+    });
+    if (duplicate) continue;
+
+    const response = await fetch(`${tableUrl()}/${target.matchId}`, {
+      method: 'PATCH',
+      headers: airtableHeaders(),
+      body: JSON.stringify({ fields: { Activities: JSON.stringify(activities) } }),
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to attach reply to ${target.matchId}: ${response.status}`);
+    }
+    attached.push(target);
+  }
+
+  return attached;
+}
+
+/**
+ * Turn on SMS do-not-disturb for a contact that replied STOP
+ */
+export async function optOutContactSms(contactId: string): Promise<void> {
+  const response = await fetch(`${GHL_API_URL}/contacts/${contactId}`, {
+    method: 'PUT',
+    headers: ghlHeaders(),
+    body: JSON.stringify({
+      dndSettings: { SMS: { status: 'active', message: 'Replied STOP to a property text' } },
+    }),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to opt out ${contactId}: ${response.status} ${(await response.text()).slice(0, 200)}`);
+  }
+}
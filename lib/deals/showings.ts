@@ -0,0 +1,390 @@
+/**
+ * Showings
+ * A scheduled property showing for a deal (Property-Buyer Match), stored in
+ * the Airtable `Showings` table and mirrored as a GHL calendar appointment.
+ *
+ * Reminders go to the buyer by SMS and email at fixed lead times before the
+ * showing. The reminder run (api/ghl?resource=calendars&action=showing-reminders)
+ * is idempotent: each reminder is recorded on the showing once it is sent.
+ * Reminders get the buyer's messaging consent checks like any other send.
+ */
+
+import type { AuditActor } from '../audit/auditLog';
+import { sendConsentedMessage, type OutboundMessage } from '../messaging/send';
+
+export type ShowingStatus = 'scheduled' | 'completed' | 'cancelled' | 'no-show';
+
+export interface Showing {
+  id: string;
+  dealId: string;           // Property-Buyer Matches record ID
+  contactId: string;        // Buyer's GHL contact
+  buyerName: string;
+  propertyCode?: string;
+  propertyAddress: string;
+  startTime: string;        // ISO
+  endTime: string;          // ISO
+  agentName?: string;
+  agentUserId?: string;     // GHL user the appointment is assigned to
+  accessNotes?: string;     // Lockbox, gate codes... (staff only, never sent to the buyer)
+  status: ShowingStatus;
+  appointmentId?: string;   // GHL calendar appointment
+  remindersSent: ShowingReminderKey[];
+  createdAt: string;
+  createdBy?: string;
+}
+
+export interface ShowingInput {
+  dealId: string;
+  contactId: string;
+  buyerName: string;
+  propertyCode?: string;
+  propertyAddress: string;
+  startTime: string;
+  durationMinutes?: number;
+  agentName?: string;
+  agentUserId?: string;
+  accessNotes?: string;
+}
+
+export type ShowingReminderKey = 'day-before' | 'two-hours';
+
+export interface ShowingReminderResult {
+  channels: string[]; // Channels the reminder went out on
+  skipped: string[];  // "<channel>: <reason>" for channels consent blocked
+}
+
+export const SHOWINGS_TABLE = 'Showings';
+
+export const DEFAULT_SHOWING_MINUTES = 30;
+
+// Lead times before the showing, furthest first
+export const SHOWING_REMINDERS: Array<{ key: ShowingReminderKey; leadMs: number }> = [
+  { key: 'day-before', leadMs: 24 * 60 * 60 * 1000 },
+  { key: 'two-hours', leadMs: 2 * 60 * 60 * 1000 },
+];
+
+// Times in reminder messages are written in the office's local time
+const SHOWING_TIMEZONE = process.env.SHOWING_TIMEZONE || 'America/Chicago';
+
+const AIRTABLE_API_URL = 'https://api.airtable.com/v0';
+const GHL_API_URL = 'https://services.leadconnectorhq.com';
+
+interface AirtableRecord {
+  id: string;
+  fields: Record<string, unknown>;
+  createdTime?: string;
+}
+
+function tableUrl(): string {
+  return `${AIRTABLE_API_URL}/${process.env.AIRTABLE_BASE_ID}/${encodeURIComponent(SHOWINGS_TABLE)}`;
+}
+
+function airtableHeaders(): Record<string, string> {
+  return {
+    'Authorization': `Bearer ${process.env.AIRTABLE_API_KEY}`,
+    'Content-Type': 'application/json',
+  };
+}
+
+function ghlHeaders(): Record<string, string> {
+  return {
+    'Authorization': `Bearer ${process.env.GHL_API_KEY}`,
+    'Content-Type': 'application/json',
+    'Version': '2021-07-28',
+  };
+}
+
+function escapeFormula(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+function optionalText(value: unknown): string | undefined {
+  return value ? String(value) : undefined;
+}
+
+function parseReminders(value: unknown): ShowingReminderKey[] {
+  if (typeof value !== 'string' || !value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function toShowing(record: AirtableRecord): Showing {
+  const fields = record.fields;
+  const status = String(fields['Status'] || 'scheduled') as ShowingStatus;
+
+  return {
+    id: record.id,
+    dealId: String(fields['Deal ID'] || ''),
+    contactId: String(fields['Contact ID'] || ''),
+    buyerName: String(fields['Buyer Name'] || ''),
+    propertyCode: optionalText(fields['Property Code']),
+    propertyAddress: String(fields['Property Address'] || ''),
+    startTime: String(fields['Start Time'] || ''),
+    endTime: String(fields['End Time'] || ''),
+    agentName: optionalText(fields['Agent Name']),
+    agentUserId: optionalText(fields['Agent User ID']),
+    accessNotes: optionalText(fields['Access Notes']),
+    status: ['scheduled', 'completed', 'cancelled', 'no-show'].includes(status) ? status : 'scheduled',
+    appointmentId: optionalText(fields['Appointment ID']),
+    remindersSent: parseReminders(fields['Reminders Sent']),
+    createdAt: String(fields['Created At'] || record.createdTime || ''),
+    createdBy: optionalText(fields['Created By']),
+  };
+}
+
+/**
+ * End time for a showing that starts at `startTime` and lasts `minutes`
+ */
+export function showingEndTime(startTime: string, minutes: number = DEFAULT_SHOWING_MINUTES): string {
+  return new Date(new Date(startTime).getTime() + minutes * 60 * 1000).toISOString();
+}
+
+/**
+ * A scheduled showing whose time has passed without being marked completed
+ */
+export function isShowingOverdue(showing: Showing, now: Date = new Date()): boolean {
+  return showing.status === 'scheduled' && new Date(showing.endTime).getTime() < now.getTime();
+}
+
+/**
+ * Reminders that are due and not yet sent, furthest lead time first
+ * A showing booked inside several windows at once gets all of them marked
+ * due, but only the last (most imminent) one should actually be sent.
+ */
+export function dueReminders(showing: Showing, now: Date = new Date()): ShowingReminderKey[] {
+  if (showing.status !== 'scheduled') return [];
+
+  const untilStart = new Date(showing.startTime).getTime() - now.getTime();
+  if (!(untilStart > 0)) return [];
+
+  return SHOWING_REMINDERS
+    .filter((reminder) => untilStart <= reminder.leadMs && !showing.remindersSent.includes(reminder.key))
+    .map((reminder) => reminder.key);
+}
+
+/**
+ * Showings, soonest first
+ */
+export async function listShowings(
+  options: { dealId?: string; status?: ShowingStatus; from?: string } = {}
+): Promise<Showing[]> {
+  const conditions: string[] = [];
+  if (options.dealId) conditions.push(`{Deal ID} = "${escapeFormula(options.dealId)}"`);
+  if (options.status) conditions.push(`{Status} = "${escapeFormula(options.status)}"`);
+  if (options.from) conditions.push(`IS_AFTER({Start Time}, "${escapeFormula(options.from)}")`);
+
+  const records: AirtableRecord[] = [];
+  let offset: string | undefined;
+
+  do {
+    const url = new URL(tableUrl());
+    url.searchParams.set('pageSize', '100');
+    if (conditions.length > 0) {
+      url.searchParams.set(
+        'filterByFormula',
+        conditions.length === 1 ? conditions[0] : `AND(${conditions.join(', ')})`
+      );
+    }
+    if (offset) url.searchParams.set('offset', offset);
+
+    const response = await fetch(url.toString(), { headers: airtableHeaders() });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch showings: ${response.status}`);
+    }
+    const data = await response.json();
+    records.push(...(data.records || []));
+    offset = data.offset;
+  } while (offset);
+
+  return records
+    .map(toShowing)
+    .sort((a, b) => a.startTime.localeCompare(b.startTime));
+}
+
+/**
+ * A single showing (null if it doesn't exist)
+ */
+export async function getShowing(id: string): Promise<Showing | null> {
+  const response = await fetch(`${tableUrl()}/${encodeURIComponent(id)}`, { headers: airtableHeaders() });
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Failed to fetch showing: ${response.status}`);
+  }
+  return toShowing(await response.json());
+}
+
+/**
+ * Store a new showing
+ */
+export async function createShowing(input: ShowingInput, createdBy?: string): Promise<Showing> {
+  const response = await fetch(tableUrl(), {
+    method: 'POST',
+    headers: airtableHeaders(),
+    body: JSON.stringify({
+      fields: {
+        'Deal ID': input.dealId,
+        'Contact ID': input.contactId,
+        'Buyer Name': input.buyerName,
+        'Property Code': input.propertyCode || '',
+        'Property Address': input.propertyAddress,
+        'Start Time': new Date(input.startTime).toISOString(),
+        'End Time': showingEndTime(input.startTime, input.durationMinutes),
+        'Agent Name': input.agentName || '',
+        'Agent User ID': input.agentUserId || '',
+        'Access Notes': input.accessNotes || '',
+        'Status': 'scheduled',
+        'Reminders Sent': '[]',
+        'Created At': new Date().toISOString(),
+        'Created By': createdBy || '',
+      },
+      typecast: true,
+    }),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to create showing: ${response.status} ${(await response.text()).slice(0, 200)}`);
+  }
+  return toShowing(await response.json());
+}
+
+/**
+ * Update a showing's fields (Airtable field names)
+ */
+export async function updateShowing(id: string, fields: Record<string, unknown>): Promise<Showing> {
+  const response = await fetch(`${tableUrl()}/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    headers: airtableHeaders(),
+    body: JSON.stringify({ fields, typecast: true }),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to update showing: ${response.status} ${(await response.text()).slice(0, 200)}`);
+  }
+  return toShowing(await response.json());
+}
+
+/**
+ * Create or update the GHL calendar appointment for a showing
+ * Returns the appointment ID.
+ */
+export async function syncShowingAppointment(showing: Showing, calendarId: string): Promise<string> {
+  const payload: Record<string, unknown> = {
+    title: `Showing: ${showing.propertyAddress} - ${showing.buyerName}`,
+    startTime: showing.startTime,
+    endTime: showing.endTime,
+    address: showing.propertyAddress,
+    appointmentStatus: showing.status === 'cancelled' ? 'cancelled' : 'confirmed',
+    ignoreDateRange: true,
+    toNotify: false, // Reminders are sent by the showing reminder run
+  };
+  if (showing.agentUserId) payload.assignedUserId = showing.agentUserId;
+
+  const url = showing.appointmentId
+    ? `${GHL_API_URL}/calendars/events/appointments/${showing.appointmentId}`
+    : `${GHL_API_URL}/calendars/events/appointments`;
+  if (!showing.appointmentId) {
+    payload.calendarId = calendarId;
+    payload.locationId = process.env.GHL_LOCATION_ID;
+    payload.contactId = showing.contactId;
+  }
+
+  const response = await fetch(url, {
+    method: showing.appointmentId ? 'PUT' : 'POST',
+    headers: ghlHeaders(),
+    body: JSON.stringify(payload),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(`GHL appointment sync failed: ${response.status} ${JSON.stringify(data).slice(0, 200)}`);
+  }
+
+  return data.id || data.appointment?.id || showing.appointmentId || '';
+}
+
+function formatShowingTime(iso: string): string {
+  return new Date(iso).toLocaleString('en-US', {
+    timeZone: SHOWING_TIMEZONE,
+    weekday: 'long',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Send the buyer a showing reminder by SMS and email (whichever the contact has)
+ * Each channel goes through the buyer's consent checks. Succeeds if at least
+ * one channel was delivered to GHL, or if every channel was blocked for good
+ * (opt-out, daily cap); throws if nothing went out and a later run could
+ * still send it (quiet hours, errors).
+ */
+export async function sendShowingReminder(
+  showing: Showing,
+  key: ShowingReminderKey,
+  actor: AuditActor
+): Promise<ShowingReminderResult> {
+  const contactRes = await fetch(`${GHL_API_URL}/contacts/${showing.contactId}`, { headers: ghlHeaders() });
+  if (!contactRes.ok) {
+    throw new Error(`Failed to load contact ${showing.contactId}: ${contactRes.status}`);
+  }
+  const { contact } = await contactRes.json();
+  const firstName = contact?.firstName || showing.buyerName.split(' ')[0] || 'there';
+
+  const when = formatShowingTime(showing.startTime);
+  const lead = key === 'day-before' ? 'coming up' : 'in about 2 hours';
+  const agentLine = showing.agentName ? ` ${showing.agentName} will meet you there.` : '';
+  const sms = `Hi ${firstName}, a reminder that your showing at ${showing.propertyAddress} is ${lead}: ${when}.${agentLine} Reply if you need to reschedule. - Purple Homes`;
+
+  const context = {
+    source: 'ghl' as const,
+    actor,
+    targetLabel: showing.buyerName || undefined,
+    details: `showing reminder: ${showing.propertyAddress}`,
+  };
+  const channels: string[] = [];
+  const skipped: string[] = [];
+  const errors: string[] = [];
+  let retryable = false;
+
+  const send = async (channel: string, message: OutboundMessage) => {
+    try {
+      const sent = await sendConsentedMessage(message, context);
+      if (sent.status === 'sent') {
+        channels.push(channel);
+      } else {
+        skipped.push(`${channel}: ${sent.message}`);
+        if (sent.reason === 'quiet-hours') retryable = true;
+      }
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : `${channel} failed`);
+      retryable = true;
+    }
+  };
+
+  if (contact?.phone) {
+    await send('sms', { type: 'SMS', contactId: showing.contactId, message: sms, appointmentId: showing.appointmentId });
+  }
+
+  if (contact?.email) {
+    await send('email', {
+      type: 'Email',
+      contactId: showing.contactId,
+      subject: `Showing reminder: ${showing.propertyAddress}`,
+      html: `<p>Hi ${firstName},</p>
+<p>This is a reminder that your showing at <strong>${showing.propertyAddress}</strong> is ${lead}:</p>
+<p><strong>${when}</strong></p>
+${showing.agentName ? `<p>${showing.agentName} will meet you there.</p>` : ''}
+<p>Reply to this email if you need to reschedule.</p>
+<p>Purple Homes</p>`,
+      appointmentId: showing.appointmentId,
+    });
+  }
+
+  if (channels.length === 0 && (retryable || skipped.length === 0)) {
+    throw new Error([...skipped, ...errors].join('; ') || 'Contact has no phone or email');
+  }
+  return { channels, skipped };
+}
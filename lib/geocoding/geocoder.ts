@@ -0,0 +1,224 @@
+/**
+ * Geocoder
+ *
+ * Single entry point for server-side geocoding. A lookup tries, in order:
+ *
+ * 1. The bundled ZIP centroid dataset, when ZIP-level precision is enough
+ * 2. The persistent geocode cache (System Cache key `geocode-cache`), keyed
+ *    by normalized address so "123 Main Street" and "123 main st." share a hit
+ * 3. Network providers from GEOCODING_PROVIDERS (default "mapbox,openai"),
+ *    skipping any that aren't configured
+ * 4. The ZIP centroid again, as a last resort for address lookups
+ *
+ * Network results (and misses, for a week) are cached in memory for the
+ * instance; call flushGeocodeCache() after a batch to persist them.
+ */
+
+import { readCache, writeCache } from '../cache/systemCache';
+import {
+  GEOCODE_PROVIDERS,
+  zipCentroidProvider,
+  type GeocodePrecision,
+  type GeocodeProvider,
+  type GeocodeQuery,
+  type GeocodeResult,
+} from './providers';
+
+export type { GeocodePrecision, GeocodeProvider, GeocodeQuery, GeocodeResult } from './providers';
+
+export const GEOCODE_CACHE_KEY = 'geocode-cache';
+
+const DEFAULT_PROVIDERS = 'mapbox,openai';
+
+// Misses are retried after a week in case the address was fixed upstream
+const MISS_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Mapbox allows 600 requests a minute; stay around 10 a second
+const NETWORK_DELAY_MS = 100;
+
+// Lower is more specific
+const PRECISION_RANK: Record<GeocodePrecision, number> = {
+  address: 0,
+  zip: 1,
+  city: 2,
+};
+
+const STREET_SUFFIXES: Record<string, string> = {
+  street: 'st',
+  avenue: 'ave',
+  road: 'rd',
+  drive: 'dr',
+  boulevard: 'blvd',
+  lane: 'ln',
+  court: 'ct',
+  place: 'pl',
+  parkway: 'pkwy',
+  highway: 'hwy',
+  circle: 'cir',
+  terrace: 'ter',
+  north: 'n',
+  south: 's',
+  east: 'e',
+  west: 'w',
+  apartment: 'apt',
+  suite: 'ste',
+};
+
+interface CachedGeocode {
+  result: GeocodeResult | null; // null records a miss
+  cachedAt: string;
+}
+
+interface GeocodeCacheData {
+  entries: Record<string, CachedGeocode>;
+}
+
+export interface GeocodeOptions {
+  // Least specific result the caller is happy with (default 'address')
+  precision?: GeocodePrecision;
+}
+
+let cacheEntries: Promise<Map<string, CachedGeocode>> | null = null;
+const unsavedEntries = new Map<string, CachedGeocode>();
+let lastNetworkCall = 0;
+
+/**
+ * Network providers from GEOCODING_PROVIDERS, in order
+ */
+export function getGeocodeProviders(): GeocodeProvider[] {
+  const names = (process.env.GEOCODING_PROVIDERS || DEFAULT_PROVIDERS)
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  return names
+    .map((name) => {
+      const provider = GEOCODE_PROVIDERS[name];
+      if (!provider) console.warn(`[Geocoder] Unknown provider "${name}" in GEOCODING_PROVIDERS`);
+      return provider;
+    })
+    .filter((provider): provider is GeocodeProvider => !!provider && !provider.offline);
+}
+
+function normalizePart(value: string | undefined): string {
+  return (value || '')
+    .toLowerCase()
+    .replace(/[.,#]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => STREET_SUFFIXES[word] || word)
+    .join(' ');
+}
+
+/**
+ * Cache key for a query: lowercased, punctuation stripped, common street
+ * words abbreviated, ZIP+4 cut to 5 digits
+ */
+export function normalizeAddressKey(query: GeocodeQuery): string {
+  const zip = String(query.zip || '').replace(/\D/g, '').substring(0, 5);
+  return [normalizePart(query.address), normalizePart(query.city), normalizePart(query.state), zip].join('|');
+}
+
+function loadCacheEntries(): Promise<Map<string, CachedGeocode>> {
+  if (!cacheEntries) {
+    cacheEntries = readCache<GeocodeCacheData>(GEOCODE_CACHE_KEY)
+      .then((cached) => new Map(Object.entries(cached?.data?.entries || {})))
+      .catch((error) => {
+        console.warn('[Geocoder] Could not load geocode cache:', error);
+        return new Map<string, CachedGeocode>();
+      });
+  }
+  return cacheEntries;
+}
+
+function isFresh(entry: CachedGeocode): boolean {
+  return !!entry.result || Date.now() - new Date(entry.cachedAt).getTime() < MISS_TTL_MS;
+}
+
+async function waitForRateLimit(): Promise<void> {
+  const wait = lastNetworkCall + NETWORK_DELAY_MS - Date.now();
+  if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+  lastNetworkCall = Date.now();
+}
+
+/**
+ * Geocode a location through the provider chain
+ * Returns null when nothing (including the ZIP centroid) could place it.
+ */
+export async function geocodeLocation(
+  query: GeocodeQuery,
+  options: GeocodeOptions = {}
+): Promise<GeocodeResult | null> {
+  const precision = options.precision || 'address';
+  const zipIsEnough = PRECISION_RANK[precision] >= PRECISION_RANK.zip;
+
+  if (zipIsEnough) {
+    const centroid = await zipCentroidProvider.geocode(query);
+    if (centroid) return centroid;
+  }
+
+  const key = normalizeAddressKey(query);
+  if (key.replace(/\|/g, '').length === 0) return null;
+
+  const entries = await loadCacheEntries();
+  const cached = entries.get(key);
+  if (cached && isFresh(cached)) {
+    return cached.result || (zipIsEnough ? null : zipCentroidProvider.geocode(query));
+  }
+
+  const providers = getGeocodeProviders().filter((provider) => provider.isConfigured());
+  let result: GeocodeResult | null = null;
+
+  for (const provider of providers) {
+    await waitForRateLimit();
+    try {
+      result = await provider.geocode(query);
+    } catch (error) {
+      console.error(`[Geocoder] ${provider.name} failed:`, error);
+    }
+    if (result) break;
+  }
+
+  // Nothing was asked when no provider is configured, so there's no miss to remember
+  if (providers.length > 0) {
+    const entry = { result, cachedAt: new Date().toISOString() };
+    entries.set(key, entry);
+    unsavedEntries.set(key, entry);
+  }
+
+  return result || (zipIsEnough ? null : zipCentroidProvider.geocode(query));
+}
+
+/**
+ * Persist results looked up since the last flush
+ * Re-reads the stored cache first so concurrent instances don't drop each
+ * other's entries.
+ */
+export async function flushGeocodeCache(): Promise<number> {
+  if (unsavedEntries.size === 0) return 0;
+
+  const saving = new Map(unsavedEntries);
+  unsavedEntries.clear();
+
+  try {
+    const stored = await readCache<GeocodeCacheData>(GEOCODE_CACHE_KEY);
+    const entries: Record<string, CachedGeocode> = { ...(stored?.data?.entries || {}) };
+    for (const [key, entry] of saving) entries[key] = entry;
+
+    // Expired misses would only be looked up again
+    for (const [key, entry] of Object.entries(entries)) {
+      if (!isFresh(entry)) delete entries[key];
+    }
+
+    await writeCache(GEOCODE_CACHE_KEY, { entries }, Object.keys(entries).length);
+    cacheEntries = Promise.resolve(new Map(Object.entries(entries)));
+    console.log(`[Geocoder] Saved ${saving.size} new geocodes (${Object.keys(entries).length} cached)`);
+    return saving.size;
+  } catch (error) {
+    console.error('[Geocoder] Failed to save geocode cache:', error);
+    for (const [key, entry] of saving) {
+      if (!unsavedEntries.has(key)) unsavedEntries.set(key, entry);
+    }
+    return 0;
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * Geocoding Providers
+ *
+ * Every geocoding backend behind one interface so lib/geocoding/geocoder.ts
+ * can chain them. The ZIP centroid provider is offline (bundled dataset);
+ * Mapbox and OpenAI are network providers, used only when configured.
+ */
+
+import {
+  geocodeBuyerLocation,
+  geocodePropertyLocation,
+  isMapboxConfigured,
+  type GeocodeResult as MapboxGeocodeResult,
+} from '../mapbox';
+import { geocodeLocation as geocodeWithOpenAI } from '../matching/geocoder';
+import { getZipCentroid } from '../../src/lib/zipCentroids';
+
+export interface GeocodeQuery {
+  address?: string;
+  city?: string;
+  state?: string;
+  zip?: string;
+}
+
+// How specific a result is; also the precision a caller asks for
+export type GeocodePrecision = MapboxGeocodeResult['source'];
+
+export interface GeocodeResult extends MapboxGeocodeResult {
+  provider: string;
+}
+
+export interface GeocodeProvider {
+  name: string;
+  offline: boolean;
+  isConfigured(): boolean;
+  geocode(query: GeocodeQuery): Promise<GeocodeResult | null>;
+}
+
+/**
+ * ZIP from the query, or the last 5-digit group of the address (the first
+ * one can be a house number)
+ */
+export function zipFromQuery(query: GeocodeQuery): string | null {
+  const zip = String(query.zip || '').replace(/\D/g, '').substring(0, 5);
+  if (zip && zip.length === 5) return zip;
+  return query.address?.match(/\b\d{5}\b/g)?.pop() || null;
+}
+
+export const zipCentroidProvider: GeocodeProvider = {
+  name: 'zip-centroid',
+  offline: true,
+  isConfigured: () => true,
+  async geocode(query) {
+    const zip = zipFromQuery(query);
+    const centroid = getZipCentroid(zip);
+    if (!zip || !centroid) return null;
+
+    return {
+      lat: centroid.lat,
+      lng: centroid.lng,
+      formattedAddress: [query.city, query.state, zip].filter(Boolean).join(', '),
+      source: 'zip',
+      confidence: 'medium',
+      provider: 'zip-centroid',
+    };
+  },
+};
+
+export const mapboxProvider: GeocodeProvider = {
+  name: 'mapbox',
+  offline: false,
+  isConfigured: isMapboxConfigured,
+  async geocode(query) {
+    const result = query.address
+      ? await geocodePropertyLocation({
+          address: query.address,
+          city: query.city,
+          state: query.state,
+          zipCode: query.zip,
+        })
+      : await geocodeBuyerLocation({
+          city: query.city,
+          state: query.state,
+          preferredZipCodes: query.zip ? [query.zip] : [],
+        });
+
+    return result ? { ...result, provider: 'mapbox' } : null;
+  },
+};
+
+export const openAIProvider: GeocodeProvider = {
+  name: 'openai',
+  offline: false,
+  isConfigured: () => !!process.env.OPENAI_API_KEY,
+  async geocode(query) {
+    const state = query.state || 'LA'; // Default to Louisiana, like the Mapbox lookups
+    const location = [query.address, query.city, state, query.zip].filter(Boolean).join(', ');
+    const result = await geocodeWithOpenAI(location, process.env.OPENAI_API_KEY || '');
+    if (!result) return null;
+
+    return {
+      ...result,
+      source: query.address ? 'address' : query.zip ? 'zip' : 'city',
+      confidence: 'medium',
+      provider: 'openai',
+    };
+  },
+};
+
+export const GEOCODE_PROVIDERS: Record<string, GeocodeProvider> = {
+  'zip-centroid': zipCentroidProvider,
+  mapbox: mapboxProvider,
+  openai: openAIProvider,
+};
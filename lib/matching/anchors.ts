@@ -0,0 +1,127 @@
+/**
+ * Buyer Anchor Points
+ * Places a buyer travels to regularly (work, school, family) that location
+ * scoring measures drive time to
+ *
+ * Anchors are stored on the buyer record in the `Anchor Points` long-text
+ * field as a JSON array. They are geocoded when saved; anchors without
+ * coordinates are ignored by the scorer.
+ */
+
+import { getTravelMatrix, type RoutePoint } from '../routing/travelTime';
+
+export type AnchorPointType = 'work' | 'school' | 'family' | 'other';
+
+export interface AnchorPoint {
+  id: string;
+  type: AnchorPointType;
+  label: string;          // Shown in reasons, e.g. "work" or "Mom's house"
+  address: string;
+  lat?: number;
+  lng?: number;
+  maxMinutes?: number;    // Longest acceptable drive; slower is a concern
+  createdAt?: string;
+}
+
+export interface AnchorTravelTime {
+  anchorId: string;
+  label: string;
+  minutes: number;
+}
+
+// Drive minutes per anchor id, keyed by "buyerId:propertyId"
+export type AnchorTravelTimes = Map<string, Record<string, number>>;
+
+export interface TravelTimeTier {
+  maxMinutes: number;
+  ratio: number; // Share of location weight awarded (0-1)
+}
+
+/**
+ * Drive-time tiers used in place of the profile's distance tiers
+ */
+export const TRAVEL_TIME_TIERS: TravelTimeTier[] = [
+  { maxMinutes: 15, ratio: 1 },
+  { maxMinutes: 25, ratio: 0.9 },
+  { maxMinutes: 40, ratio: 0.7 },
+  { maxMinutes: 60, ratio: 0.45 },
+];
+
+// Without a per-anchor limit, drives up to this long still count as priority
+export const DEFAULT_MAX_TRAVEL_MINUTES = 45;
+
+const ANCHOR_TYPES: AnchorPointType[] = ['work', 'school', 'family', 'other'];
+
+/**
+ * Parse the buyer's `Anchor Points` field, dropping malformed entries
+ */
+export function parseAnchorPoints(value: unknown): AnchorPoint[] {
+  if (!value) return [];
+
+  let raw: unknown = value;
+  if (typeof value === 'string') {
+    try {
+      raw = JSON.parse(value);
+    } catch {
+      return [];
+    }
+  }
+
+  if (!Array.isArray(raw)) return [];
+
+  return raw.filter((anchor): anchor is AnchorPoint =>
+    !!anchor &&
+    typeof anchor.id === 'string' &&
+    ANCHOR_TYPES.includes(anchor.type) &&
+    typeof anchor.address === 'string' &&
+    anchor.address.trim() !== ''
+  );
+}
+
+export function isLocatedAnchor(anchor: AnchorPoint): anchor is AnchorPoint & RoutePoint {
+  return typeof anchor.lat === 'number' && typeof anchor.lng === 'number';
+}
+
+function recordPoint(record: { fields: Record<string, unknown> }): RoutePoint | null {
+  const lat = record.fields['Lat'];
+  const lng = record.fields['Lng'];
+  return typeof lat === 'number' && typeof lng === 'number' ? { lat, lng } : null;
+}
+
+/**
+ * Drive times from each property to each buyer's anchors
+ * One matrix lookup for the whole set, so routing providers can batch it.
+ * Properties without coordinates are left out (the scorer estimates them).
+ */
+export async function computeAnchorTravelTimes(
+  buyers: Array<{ id: string; fields: Record<string, unknown> }>,
+  properties: Array<{ id: string; fields: Record<string, unknown> }>
+): Promise<AnchorTravelTimes> {
+  const travelTimes: AnchorTravelTimes = new Map();
+
+  const anchorsByBuyer = buyers
+    .map((buyer) => ({ buyer, anchors: parseAnchorPoints(buyer.fields['Anchor Points']).filter(isLocatedAnchor) }))
+    .filter(({ anchors }) => anchors.length > 0);
+  if (anchorsByBuyer.length === 0) return travelTimes;
+
+  const located = properties
+    .map((property) => ({ property, point: recordPoint(property) }))
+    .filter((entry): entry is { property: typeof entry.property; point: RoutePoint } => !!entry.point);
+  if (located.length === 0) return travelTimes;
+
+  const anchors = anchorsByBuyer.flatMap(({ anchors }) => anchors);
+  const matrix = await getTravelMatrix(located.map((entry) => entry.point), anchors);
+
+  located.forEach(({ property }, row) => {
+    let column = 0;
+    for (const { buyer, anchors: buyerAnchors } of anchorsByBuyer) {
+      const minutes: Record<string, number> = {};
+      for (const anchor of buyerAnchors) {
+        minutes[anchor.id] = matrix[row][column++];
+      }
+      travelTimes.set(`${buyer.id}:${property.id}`, minutes);
+    }
+  });
+
+  return travelTimes;
+}
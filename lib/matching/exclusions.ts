@@ -0,0 +1,137 @@
+/**
+ * Match Exclusion Rules (deal-breakers)
+ * Per-buyer "never show me X" rules evaluated before scoring
+ *
+ * Rules are stored on the buyer record in the `Exclusion Rules` long-text
+ * field as a JSON array. A property that trips any rule is never matched to
+ * that buyer, regardless of score.
+ */
+
+import { matchPropertyZip, normalizeZipCode } from './zipMatcher';
+import { conditionRank } from './propertyFit';
+
+export type ExclusionRuleType =
+  | 'property-type'        // value: property type to exclude (e.g. "Mobile Home")
+  | 'max-price'            // value: highest acceptable total price
+  | 'max-monthly-payment'  // value: highest acceptable monthly payment
+  | 'zip-code'             // value: ZIP code to exclude
+  | 'min-beds'             // value: fewest acceptable bedrooms
+  | 'min-condition';       // value: worst acceptable condition (e.g. "Fair")
+
+export interface ExclusionRule {
+  id: string;
+  type: ExclusionRuleType;
+  value: string | number;
+  createdAt?: string;
+}
+
+export interface ExclusionHit {
+  ruleId: string;
+  type: ExclusionRuleType;
+  reason: string;
+}
+
+const RULE_TYPES: ExclusionRuleType[] = [
+  'property-type',
+  'max-price',
+  'max-monthly-payment',
+  'zip-code',
+  'min-beds',
+  'min-condition',
+];
+
+/**
+ * Parse the buyer's `Exclusion Rules` field, dropping malformed entries
+ */
+export function parseExclusionRules(value: unknown): ExclusionRule[] {
+  if (!value) return [];
+
+  let raw: unknown = value;
+  if (typeof value === 'string') {
+    try {
+      raw = JSON.parse(value);
+    } catch {
+      return [];
+    }
+  }
+
+  if (!Array.isArray(raw)) return [];
+
+  return raw.filter((rule): rule is ExclusionRule =>
+    !!rule &&
+    typeof rule.id === 'string' &&
+    RULE_TYPES.includes(rule.type) &&
+    rule.value !== undefined &&
+    rule.value !== null &&
+    rule.value !== ''
+  );
+}
+
+/**
+ * Return the first rule the property violates, or null if it is allowed
+ *
+ * @param rules - Buyer's exclusion rules
+ * @param property - Property record from Airtable
+ */
+export function findExclusion(
+  rules: ExclusionRule[],
+  property: { fields?: Record<string, unknown> }
+): ExclusionHit | null {
+  if (rules.length === 0) return null;
+
+  const fields = property.fields || {};
+  const price = fields['Property Total Price'] || fields['Price'];
+  const monthlyPayment = fields['Monthly Payment'];
+  const zipCode = (fields['Zip Code'] || fields['ZIP Code']) as string | undefined;
+  const address = String(fields['Address'] || '');
+  const beds = fields['Beds'];
+  const propertyType = fields['Property Type'];
+  const condition = fields['Property Current Condition'];
+
+  for (const rule of rules) {
+    const hit = (reason: string): ExclusionHit => ({ ruleId: rule.id, type: rule.type, reason });
+
+    switch (rule.type) {
+      case 'property-type':
+        if (propertyType && String(propertyType).trim().toLowerCase() === String(rule.value).trim().toLowerCase()) {
+          return hit(`No ${rule.value}`);
+        }
+        break;
+
+      case 'max-price':
+        if (price && Number(price) > Number(rule.value)) {
+          return hit(`Price above $${Number(rule.value).toLocaleString()}`);
+        }
+        break;
+
+      case 'max-monthly-payment':
+        if (monthlyPayment && Number(monthlyPayment) > Number(rule.value)) {
+          return hit(`Payment above $${Number(rule.value).toLocaleString()}/mo`);
+        }
+        break;
+
+      case 'zip-code':
+        if (matchPropertyZip(zipCode, address, [normalizeZipCode(String(rule.value))])) {
+          return hit(`Excluded ZIP ${rule.value}`);
+        }
+        break;
+
+      case 'min-beds':
+        if (beds && Number(beds) < Number(rule.value)) {
+          return hit(`Fewer than ${rule.value} beds`);
+        }
+        break;
+
+      case 'min-condition': {
+        const propertyRank = conditionRank(condition);
+        const minRank = conditionRank(rule.value);
+        if (propertyRank !== undefined && minRank !== undefined && propertyRank < minRank) {
+          return hit(`Condition worse than ${rule.value}`);
+        }
+        break;
+      }
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { emptyScoringTotals, scoreBuyerMatches, type BuyerScoringContext } from './matchRun';
+import { SYSTEM_SCORING_PROFILES } from './profiles';
+import { generateMatchScore } from './scorer';
+
+const buyer = {
+  id: 'recBuyer',
+  fields: {
+    'Contact ID': 'contact-1',
+    'Preferred Zip Codes': '70001',
+    'No. of Bedrooms': 3,
+    'No. of Bath': 2,
+  },
+};
+
+const property = {
+  id: 'recProperty',
+  fields: {
+    'Address': '123 Main St, Metairie, LA 70001',
+    'Zip Code': '70001',
+    'Beds': 3,
+    'Baths': 2,
+    'Property Code': 'PH-1001',
+  },
+};
+
+const pairScore = generateMatchScore(buyer, property).score;
+
+function context(overrides: Partial<BuyerScoringContext> = {}): BuyerScoringContext {
+  return {
+    minScore: 30,
+    refreshAll: true,
+    profiles: Object.values(SYSTEM_SCORING_PROFILES),
+    skipSet: new Set(),
+    matchMap: new Map(),
+    delta: { previousRunAt: null, changedBuyerIds: new Set(), changedPropertyIds: new Set() },
+    travelTimes: new Map(),
+    ...overrides,
+  };
+}
+
+describe('scoreBuyerMatches', () => {
+  it('updates an existing match that still reaches the threshold', () => {
+    const totals = emptyScoringTotals();
+    scoreBuyerMatches(buyer, [property], context({ matchMap: new Map([['recBuyer:recProperty', 'recMatch']]) }), totals);
+
+    expect(totals.matchesToUpdate).toEqual([{ id: 'recMatch', fields: expect.objectContaining({ 'Match Score': pairScore }) }]);
+    expect(totals.matchesToCreate).toHaveLength(0);
+  });
+
+  it('downgrades an existing match that no longer reaches the threshold', () => {
+    const totals = emptyScoringTotals();
+    const ctx = context({
+      minScore: pairScore + 1,
+      matchMap: new Map([['recBuyer:recProperty', 'recMatch']]),
+      delta: { previousRunAt: '2026-01-01T00:00:00.000Z', changedBuyerIds: new Set(['recBuyer']), changedPropertyIds: new Set() },
+    });
+    scoreBuyerMatches(buyer, [property], ctx, totals);
+
+    expect(totals.matchesToUpdate).toEqual([{ id: 'recMatch', fields: expect.objectContaining({ 'Match Score': pairScore }) }]);
+    expect(totals.matchesToCreate).toHaveLength(0);
+    expect(totals.withinRadius).toBe(0);
+  });
+
+  it('creates nothing for a new pair below the threshold', () => {
+    const totals = emptyScoringTotals();
+    scoreBuyerMatches(buyer, [property], context({ minScore: pairScore + 1 }), totals);
+
+    expect(totals.matchesToCreate).toHaveLength(0);
+    expect(totals.matchesToUpdate).toHaveLength(0);
+    expect(totals.pairsRescored).toBe(1);
+  });
+});
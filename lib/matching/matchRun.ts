@@ -0,0 +1,169 @@
+/**
+ * Matching Run Scoring
+ * Scores one buyer against the property list and queues the match writes,
+ * for the `run` action and batched matching jobs (api/matching).
+ *
+ * An existing match whose pair now scores below minScore is updated with its
+ * new score rather than left at the old one; its record (deal stage,
+ * activities) is kept, and views that filter on minScore stop showing it.
+ */
+
+import type { AnchorTravelTimes } from './anchors';
+import { findExclusion, parseExclusionRules } from './exclusions';
+import { resolveScoringProfile, type ScoringProfile } from './profiles';
+import { generateMatchScore, type MatchScore } from './scorer';
+
+export interface MatchRunRecord {
+  id: string;
+  fields: Record<string, unknown>;
+}
+
+export type ExcludedPair = { buyerId: string; propertyId: string; ruleId: string; reason: string };
+
+/**
+ * Run-wide inputs for scoring buyers (shared by `run` and matching jobs)
+ */
+export interface BuyerScoringContext {
+  minScore: number;
+  refreshAll: boolean;
+  profileId?: string;
+  profiles: ScoringProfile[];
+  skipSet: Set<string>;
+  matchMap: Map<string, string>; // "buyerId:propertyId" -> existing match record ID
+  delta: MatchingDelta;
+  travelTimes: AnchorTravelTimes;
+}
+
+/**
+ * Queued writes and counters accumulated while scoring buyers
+ */
+export interface BuyerScoringTotals {
+  matchesToCreate: Array<{ fields: Record<string, unknown> }>;
+  matchesToUpdate: Array<{ id: string; fields: Record<string, unknown> }>;
+  matchesToDelete: string[];
+  excludedPairs: ExcludedPair[];
+  duplicatesSkipped: number;
+  withinRadius: number;
+  pairsRescored: number;
+  pairsSkipped: number;
+}
+
+/**
+ * Buyers and properties changed since the last run (delta mode)
+ * previousRunAt is null for full runs
+ */
+export interface MatchingDelta {
+  previousRunAt: string | null;
+  changedBuyerIds: Set<string>;
+  changedPropertyIds: Set<string>;
+}
+
+export function emptyScoringTotals(): BuyerScoringTotals {
+  return {
+    matchesToCreate: [],
+    matchesToUpdate: [],
+    matchesToDelete: [],
+    excludedPairs: [],
+    duplicatesSkipped: 0,
+    withinRadius: 0,
+    pairsRescored: 0,
+    pairsSkipped: 0,
+  };
+}
+
+/**
+ * Match record fields for a score (new matches also need their links)
+ */
+export function buildMatchFields(score: MatchScore): Record<string, unknown> {
+  let matchNotes = score.reasoning;
+  matchNotes += `\n\nHighlights: ${score.highlights.join(', ')}`;
+  if (score.concerns && score.concerns.length > 0) {
+    matchNotes += `\n\nConcerns: ${score.concerns.join(', ')}`;
+  }
+
+  return {
+    'Match Score': score.score,
+    'Match Notes': matchNotes,
+    'Match Status': 'Active',
+    'Is Priority': score.isPriority,
+    'Distance': score.distanceMiles,
+  };
+}
+
+/**
+ * Score one buyer against every property and queue match creates/updates/deletes
+ */
+export function scoreBuyerMatches(
+  buyer: MatchRunRecord,
+  properties: MatchRunRecord[],
+  ctx: BuyerScoringContext,
+  totals: BuyerScoringTotals
+): void {
+  const { minScore, refreshAll, skipSet, matchMap, delta } = ctx;
+  const isDelta = delta.previousRunAt !== null;
+  const profile = resolveScoringProfile(ctx.profiles, ctx.profileId, buyer);
+  const exclusionRules = parseExclusionRules(buyer.fields['Exclusion Rules']);
+  const buyerChanged = !isDelta || delta.changedBuyerIds.has(buyer.id);
+
+  for (const property of properties) {
+    // Delta mode: neither side changed since the last run, keep the existing result
+    if (!buyerChanged && !delta.changedPropertyIds.has(property.id)) {
+      totals.pairsSkipped++;
+      continue;
+    }
+
+    const pairKey = `${buyer.id}:${property.id}`;
+
+    // Deal-breakers: drop the pair entirely, including any existing match
+    const exclusion = findExclusion(exclusionRules, property);
+    if (exclusion) {
+      totals.excludedPairs.push({ buyerId: buyer.id, propertyId: property.id, ruleId: exclusion.ruleId, reason: exclusion.reason });
+      const excludedMatchId = matchMap.get(pairKey);
+      if (excludedMatchId) totals.matchesToDelete.push(excludedMatchId);
+      continue;
+    }
+
+    // Check skip set (changed pairs in delta mode update their existing match instead)
+    if (skipSet.has(pairKey) && !refreshAll && !isDelta) {
+      totals.duplicatesSkipped++;
+      continue;
+    }
+
+    // Generate match score
+    const score = generateMatchScore(buyer, property, profile, { travelMinutes: ctx.travelTimes.get(pairKey) });
+    totals.pairsRescored++;
+
+    const matchFields = buildMatchFields(score);
+    const existingMatchId = matchMap.get(pairKey);
+
+    if (score.score < minScore) {
+      // No longer a match: store the lower score so views stop showing it
+      if (existingMatchId) totals.matchesToUpdate.push({ id: existingMatchId, fields: matchFields });
+      continue;
+    }
+
+    // Check if this is an update or create
+    if (existingMatchId) {
+      // Queue for batch update
+      totals.matchesToUpdate.push({
+        id: existingMatchId,
+        fields: matchFields,
+      });
+    } else {
+      // Queue for batch create
+      // Linked record fields need Airtable record IDs
+      matchFields['Property Code'] = [property.id];
+      matchFields['Contact ID'] = [buyer.id];
+      // Text fields for GHL identifiers
+      matchFields['Contact ID (for GHL)'] = buyer.fields['Contact ID'];
+      matchFields['Opportunity ID (for GHL) '] = property.fields['Property Code'];
+      totals.matchesToCreate.push({
+        fields: matchFields,
+      });
+    }
+
+    if (score.isPriority) {
+      totals.withinRadius++;
+    }
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * Match Scoring Profiles
+ * Named weight sets used by the scorer (e.g. "Cash Buyer", "Lease Option")
+ *
+ * Each profile defines:
+ * - weights: max points per scoring dimension (normalized to 100 by the scorer)
+ * - distanceTiers: mile breakpoints and the share of location points they earn
+ * - priorityRadiusMiles: properties within this radius are flagged as priority
+ * - dealTypes: buyer deal types that select this profile automatically
+ *
+ * Profiles are stored in the Airtable "Matching Profiles" table as a JSON
+ * blob (same layout as Calculator Defaults) and merged over SYSTEM_SCORING_PROFILES.
+ */
+
+export interface ScoringWeights {
+  location: number;
+  beds: number;
+  baths: number;
+  budget: number;
+  propertyType: number;
+  condition: number;
+  sqft: number;
+}
+
+export interface DistanceTier {
+  maxMiles: number;
+  ratio: number; // Share of location weight awarded (0-1)
+}
+
+export interface ScoringProfile {
+  id: string;
+  name: string;
+  description?: string;
+  dealTypes: string[];
+  weights: ScoringWeights;
+  distanceTiers: DistanceTier[];
+  priorityRadiusMiles: number;
+}
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+/**
+ * Default profile - reproduces the original fixed scoring
+ * (location 40, beds 25, baths 15, budget 20; tiers 5/10/25/50 mi)
+ *
+ * Type, condition and size carry no weight here, so existing buyers' scores
+ * and minScore cut-offs are unchanged; the other profiles weight them.
+ */
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  id: DEFAULT_PROFILE_ID,
+  name: 'Standard',
+  description: 'Balanced scoring for owner-occupant buyers',
+  dealTypes: [],
+  weights: { location: 40, beds: 25, baths: 15, budget: 20, propertyType: 0, condition: 0, sqft: 0 },
+  distanceTiers: [
+    { maxMiles: 5, ratio: 0.95 },
+    { maxMiles: 10, ratio: 0.875 },
+    { maxMiles: 25, ratio: 0.7 },
+    { maxMiles: 50, ratio: 0.5 },
+  ],
+  priorityRadiusMiles: 50,
+};
+
+export const SYSTEM_SCORING_PROFILES: ScoringProfile[] = [
+  DEFAULT_SCORING_PROFILE,
+  {
+    id: 'cash-buyer',
+    name: 'Cash Buyer',
+    description: 'Investors buying outright - location and price matter most, layout less',
+    dealTypes: ['Cash', 'Assignment'],
+    weights: { location: 40, beds: 10, baths: 5, budget: 25, propertyType: 10, condition: 5, sqft: 5 },
+    distanceTiers: [
+      { maxMiles: 10, ratio: 0.95 },
+      { maxMiles: 25, ratio: 0.8 },
+      { maxMiles: 50, ratio: 0.6 },
+      { maxMiles: 100, ratio: 0.4 },
+    ],
+    priorityRadiusMiles: 100,
+  },
+  {
+    id: 'lease-option',
+    name: 'Lease Option',
+    description: 'Families moving in - bedroom fit and a tight radius come first',
+    dealTypes: ['Lease Option', 'Bond for Deed', 'Wrap', 'Subject-To'],
+    weights: { location: 30, beds: 25, baths: 10, budget: 15, propertyType: 10, condition: 5, sqft: 5 },
+    distanceTiers: [
+      { maxMiles: 5, ratio: 1 },
+      { maxMiles: 10, ratio: 0.85 },
+      { maxMiles: 20, ratio: 0.6 },
+      { maxMiles: 30, ratio: 0.4 },
+    ],
+    priorityRadiusMiles: 30,
+  },
+];
+
+/**
+ * Merge stored profiles over the system profiles (stored entries win by id)
+ */
+export function mergeScoringProfiles(stored: Partial<ScoringProfile>[] | null | undefined): ScoringProfile[] {
+  const byId = new Map<string, ScoringProfile>();
+  for (const profile of SYSTEM_SCORING_PROFILES) {
+    byId.set(profile.id, profile);
+  }
+
+  for (const profile of stored || []) {
+    if (!profile?.id) continue;
+    const base = byId.get(profile.id) || DEFAULT_SCORING_PROFILE;
+    byId.set(profile.id, {
+      ...base,
+      ...profile,
+      id: profile.id,
+      name: profile.name || base.name,
+      dealTypes: profile.dealTypes || (byId.has(profile.id) ? base.dealTypes : []),
+      weights: { ...base.weights, ...profile.weights },
+      distanceTiers: normalizeTiers(profile.distanceTiers || base.distanceTiers),
+    });
+  }
+
+  return Array.from(byId.values());
+}
+
+/**
+ * Pick the profile to score a buyer with
+ * Priority: explicit profileId > buyer's Deal Type > default profile
+ */
+export function resolveScoringProfile(
+  profiles: ScoringProfile[],
+  profileId?: string | null,
+  buyer?: { fields?: Record<string, unknown> }
+): ScoringProfile {
+  if (profileId && profileId !== 'auto') {
+    const explicit = profiles.find((p) => p.id === profileId);
+    if (explicit) return explicit;
+  }
+
+  const dealType = buyer?.fields?.['Deal Type'];
+  if (dealType) {
+    const byDealType = profiles.find((p) =>
+      p.dealTypes.some((t) => t.toLowerCase() === String(dealType).toLowerCase())
+    );
+    if (byDealType) return byDealType;
+  }
+
+  return profiles.find((p) => p.id === DEFAULT_PROFILE_ID) || DEFAULT_SCORING_PROFILE;
+}
+
+/**
+ * Sort tiers ascending and drop malformed entries
+ */
+function normalizeTiers(tiers: DistanceTier[]): DistanceTier[] {
+  return tiers
+    .filter((t) => typeof t?.maxMiles === 'number' && typeof t?.ratio === 'number')
+    .map((t) => ({ maxMiles: t.maxMiles, ratio: Math.max(0, Math.min(1, t.ratio)) }))
+    .sort((a, b) => a.maxMiles - b.maxMiles);
+}
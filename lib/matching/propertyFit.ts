@@ -0,0 +1,148 @@
+/**
+ * Property Fit Module
+ * Compares a property's type, condition and size against buyer preferences
+ *
+ * Each check returns a ratio (0-1) that the scorer multiplies by the
+ * profile weight, plus a short label for highlights/concerns.
+ */
+
+export type FitLevel = 'exact' | 'close' | 'mismatch' | 'unknown';
+
+export interface FitResult {
+  ratio: number;
+  level: FitLevel;
+  label: string;
+}
+
+/**
+ * Property type families - types in the same family are "close" matches
+ */
+const PROPERTY_TYPE_FAMILIES: Record<string, string> = {
+  'single family': 'house',
+  'town house': 'house',
+  'townhouse': 'house',
+  'condo': 'house',
+  'duplex': 'multi',
+  'triplex': 'multi',
+  '4-plex': 'multi',
+  'fourplex': 'multi',
+  'multi family': 'multi',
+  'multifamily': 'multi',
+  'mobile home': 'mobile',
+  'manufactured': 'mobile',
+  'lot': 'land',
+  'land': 'land',
+  'commercial': 'commercial',
+};
+
+/**
+ * Condition ladder, best first (matches PropertyCondition values)
+ */
+const CONDITION_RANKS: Record<string, number> = {
+  'excellent': 6,
+  'great': 5,
+  'good': 4,
+  'fair': 3,
+  'needs some repair': 2,
+  'poor': 1,
+  'terrible': 0,
+};
+
+const NEUTRAL_RATIO = 0.5;
+
+/**
+ * Parse buyer's preferred property types from string, comma list or array
+ */
+export function parsePropertyTypes(value: unknown): string[] {
+  if (!value) return [];
+  const list = Array.isArray(value) ? value : String(value).split(',');
+  return list.map((t) => String(t).trim()).filter(Boolean);
+}
+
+/**
+ * Compare property type against the buyer's accepted types
+ * - Exact type:            1.0
+ * - Same family:           0.6 (e.g. Single Family vs Town House)
+ * - Different family:      0.0 (e.g. Single Family vs Lot)
+ * - No preference / data:  0.5
+ */
+export function matchPropertyType(propertyType: unknown, preferredTypes: string[]): FitResult {
+  if (!propertyType || preferredTypes.length === 0) {
+    return { ratio: NEUTRAL_RATIO, level: 'unknown', label: propertyType ? String(propertyType) : '' };
+  }
+
+  const type = normalize(propertyType);
+  const preferred = preferredTypes.map(normalize);
+
+  if (preferred.includes(type)) {
+    return { ratio: 1, level: 'exact', label: String(propertyType) };
+  }
+
+  const family = PROPERTY_TYPE_FAMILIES[type];
+  if (family && preferred.some((p) => PROPERTY_TYPE_FAMILIES[p] === family)) {
+    return { ratio: 0.6, level: 'close', label: String(propertyType) };
+  }
+
+  return { ratio: 0, level: 'mismatch', label: String(propertyType) };
+}
+
+/**
+ * Compare property condition against the buyer's minimum tolerated condition
+ * - Meets minimum:         1.0
+ * - One step below:        0.5
+ * - Two or more below:     0.0
+ * - No preference / data:  0.5
+ */
+export function compareCondition(propertyCondition: unknown, minCondition: unknown): FitResult {
+  const propertyRank = conditionRank(propertyCondition);
+  const minRank = conditionRank(minCondition);
+
+  if (propertyRank === undefined || minRank === undefined) {
+    return { ratio: NEUTRAL_RATIO, level: 'unknown', label: propertyCondition ? String(propertyCondition) : '' };
+  }
+
+  const gap = minRank - propertyRank;
+  if (gap <= 0) {
+    return { ratio: 1, level: 'exact', label: String(propertyCondition) };
+  }
+  if (gap === 1) {
+    return { ratio: 0.5, level: 'close', label: String(propertyCondition) };
+  }
+  return { ratio: 0, level: 'mismatch', label: String(propertyCondition) };
+}
+
+/**
+ * Compare square footage against the buyer's desired size (treated as a minimum)
+ * - At or above desired:   1.0
+ * - Within 10% below:      0.7
+ * - Within 25% below:      0.4
+ * - More than 25% below:   0.1
+ * - No preference / data:  0.5
+ */
+export function compareSqft(propertySqft: unknown, desiredSqft: unknown): FitResult {
+  const actual = Number(propertySqft);
+  const desired = Number(desiredSqft);
+
+  if (!actual || !desired) {
+    return { ratio: NEUTRAL_RATIO, level: 'unknown', label: actual ? `${actual.toLocaleString()} sqft` : '' };
+  }
+
+  const label = `${actual.toLocaleString()} sqft`;
+  const shortfall = (desired - actual) / desired;
+
+  if (shortfall <= 0) return { ratio: 1, level: 'exact', label };
+  if (shortfall <= 0.1) return { ratio: 0.7, level: 'close', label };
+  if (shortfall <= 0.25) return { ratio: 0.4, level: 'close', label };
+  return { ratio: 0.1, level: 'mismatch', label };
+}
+
+/**
+ * Rank a condition label on the ladder (higher is better), undefined if unknown
+ */
+export function conditionRank(condition: unknown): number | undefined {
+  return condition ? CONDITION_RANKS[normalize(condition)] : undefined;
+}
+
+function normalize(value: unknown): string {
+  return String(value).trim().toLowerCase().replace(/\s+/g, ' ');
+}
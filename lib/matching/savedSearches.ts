@@ -0,0 +1,823 @@
+/**
+ * Saved Searches (public /listings alerts)
+ *
+ * A visitor on /listings can save their filters with an email and/or phone.
+ * Saving is public, so it is double opt-in: the search is stored in the
+ * `Saved Searches` table and a confirmation link goes out on each alert
+ * channel, and only confirmed channels ever get alerts. The first
+ * confirmation links an Airtable buyer (so the visitor also enters matching).
+ *
+ * Saving finds the GHL contact with that email or phone, or creates one. An
+ * existing contact is never edited from this public flow - confirmations and
+ * alerts go to its own email and phone, not the ones typed in - and an
+ * existing buyer only has empty criteria filled in.
+ *
+ * Alerts go out from the daily cron (api/matching?action=send-search-alerts),
+ * or on demand by staff (Buyers → Listing Alerts): emails through the bulk
+ * send queue, texts through the messaging consent checks. Each search
+ * remembers the property IDs it has already covered; properties that matched
+ * when the search was saved count as covered, so only new inventory triggers
+ * an alert.
+ */
+
+import {
+  describeFilters,
+  type AlertChannel,
+  type SavedSearch,
+  type SavedSearchFilters,
+} from '../../src/lib/savedSearchFilters';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { generatePropertySMS } from '../../src/lib/propertyEmailTemplate';
+import type { AuditActor } from '../audit/auditLog';
+import { sendConsentedMessage } from '../messaging/send';
+import { createSendJob, type SendJobProperty, type SendJobRecipient } from '../messaging/sendQueue';
+import { normalizeZipCode } from './zipMatcher';
+
+export { describeFilters, type AlertChannel, type SavedSearch, type SavedSearchFilters };
+
+export interface SaveSearchInput {
+  firstName: string;
+  lastName?: string;
+  email?: string;
+  phone?: string;
+  channel?: AlertChannel;
+  filters: SavedSearchFilters;
+  favorites?: string[];
+  language?: 'English' | 'Spanish';
+}
+
+/**
+ * Minimal property shape the filters are evaluated against
+ */
+export interface ListingCandidate {
+  id: string;
+  address: string;
+  city: string;
+  zipCode?: string;
+  price?: number;
+  downPayment?: number;
+  beds?: number;
+  baths?: number;
+  propertyType?: string;
+  condition?: string;
+}
+
+export type ConfirmChannel = 'email' | 'sms';
+
+/**
+ * A confirmation link to send for one channel (token is only ever sent, never stored)
+ */
+export interface SearchConfirmation {
+  channel: ConfirmChannel;
+  token: string;
+}
+
+export interface SearchContact {
+  id: string;
+  email?: string;
+  phone?: string;
+}
+
+export const SAVED_SEARCHES_TABLE = 'Saved Searches';
+
+export const SEARCH_CONFIRM_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+const CONFIRM_TOKEN_FIELDS: Record<ConfirmChannel, string> = {
+  email: 'Email Confirm Token',
+  sms: 'SMS Confirm Token',
+};
+
+const CONFIRMED_AT_FIELDS: Record<ConfirmChannel, string> = {
+  email: 'Email Confirmed At',
+  sms: 'SMS Confirmed At',
+};
+
+// New contacts are tagged pending until the visitor confirms
+const PENDING_CONTACT_TAG = 'saved-search-unconfirmed';
+const CONFIRMED_CONTACT_TAGS = ['saved-search', 'Buyer'];
+
+// Listings page slider maximum - a filter at this value means "no upper bound"
+const OPEN_ENDED_MAX = 1000000;
+
+const AIRTABLE_API_URL = 'https://api.airtable.com/v0';
+const GHL_API_URL = 'https://services.leadconnectorhq.com';
+
+interface AirtableRecord {
+  id: string;
+  createdTime?: string;
+  fields: Record<string, unknown>;
+}
+
+function tableUrl(table: string): string {
+  return `${AIRTABLE_API_URL}/${process.env.AIRTABLE_BASE_ID}/${encodeURIComponent(table)}`;
+}
+
+function airtableHeaders(): Record<string, string> {
+  return {
+    'Authorization': `Bearer ${process.env.AIRTABLE_API_KEY}`,
+    'Content-Type': 'application/json',
+  };
+}
+
+function escapeFormula(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+function parseJson<T>(value: unknown, fallback: T): T {
+  if (typeof value !== 'string' || !value) return fallback;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Normalize visitor-supplied filters (drops empty and "any" values)
+ */
+export function normalizeFilters(raw: Record<string, unknown> | undefined): SavedSearchFilters {
+  const filters: SavedSearchFilters = {};
+  if (!raw) return filters;
+
+  const text = (value: unknown) =>
+    typeof value === 'string' && value.trim() && value !== 'any' ? value.trim() : undefined;
+  const num = (value: unknown) => {
+    const n = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+    return Number.isFinite(n) && n > 0 ? n : undefined;
+  };
+
+  const upTo = (value: unknown) => {
+    const n = num(value);
+    return n !== undefined && n < OPEN_ENDED_MAX ? n : undefined;
+  };
+
+  filters.search = text(raw.search);
+  filters.zipCode = text(raw.zipCode) ? normalizeZipCode(String(raw.zipCode)) : undefined;
+  filters.minPrice = num(raw.minPrice);
+  filters.maxPrice = upTo(raw.maxPrice);
+  filters.minDownPayment = num(raw.minDownPayment);
+  filters.maxDownPayment = upTo(raw.maxDownPayment);
+  filters.beds = num(raw.beds);
+  filters.baths = num(raw.baths);
+  filters.propertyType = text(raw.propertyType);
+  filters.condition = text(raw.condition);
+
+  for (const key of Object.keys(filters) as Array<keyof SavedSearchFilters>) {
+    if (filters[key] === undefined) delete filters[key];
+  }
+  return filters;
+}
+
+/**
+ * Same rules as the /listings page filter
+ */
+export function listingMatchesSearch(filters: SavedSearchFilters, listing: ListingCandidate): boolean {
+  if (filters.search) {
+    const term = filters.search.toLowerCase();
+    if (!listing.address.toLowerCase().includes(term) && !listing.city.toLowerCase().includes(term)) {
+      return false;
+    }
+  }
+  if (filters.zipCode) {
+    const zip = listing.zipCode || listing.city.match(/\d{5}/)?.[0] || listing.address.match(/\d{5}/)?.[0] || '';
+    if (!zip.includes(filters.zipCode)) return false;
+  }
+
+  const price = listing.price || 0;
+  if (filters.minPrice !== undefined && price < filters.minPrice) return false;
+  if (filters.maxPrice !== undefined && price > filters.maxPrice) return false;
+
+  if (listing.downPayment !== undefined) {
+    if (filters.minDownPayment !== undefined && listing.downPayment < filters.minDownPayment) return false;
+    if (filters.maxDownPayment !== undefined && listing.downPayment > filters.maxDownPayment) return false;
+  }
+
+  if (filters.beds !== undefined && (listing.beds || 0) < filters.beds) return false;
+  if (filters.baths !== undefined && (listing.baths || 0) < filters.baths) return false;
+  if (filters.propertyType && listing.propertyType !== filters.propertyType) return false;
+  if (filters.condition && listing.condition !== filters.condition) return false;
+
+  return true;
+}
+
+function toSavedSearch(record: AirtableRecord): SavedSearch {
+  const fields = record.fields;
+  const channel = fields['Alert Channel'];
+  return {
+    id: record.id,
+    firstName: String(fields['First Name'] || ''),
+    lastName: String(fields['Last Name'] || ''),
+    email: fields['Email'] ? String(fields['Email']) : undefined,
+    phone: fields['Phone'] ? String(fields['Phone']) : undefined,
+    channel: channel === 'sms' || channel === 'both' ? channel : 'email',
+    filters: parseJson<SavedSearchFilters>(fields['Filters'], {}),
+    favorites: parseJson<string[]>(fields['Favorites'], []),
+    contactId: fields['Contact ID'] ? String(fields['Contact ID']) : undefined,
+    buyerRecordId: fields['Buyer Record ID'] ? String(fields['Buyer Record ID']) : undefined,
+    active: fields['Active'] === true,
+    language: fields['Language'] === 'Spanish' ? 'Spanish' : 'English',
+    createdAt: String(fields['Created At'] || record.createdTime || ''),
+    lastAlertedAt: fields['Last Alerted At'] ? String(fields['Last Alerted At']) : undefined,
+    coveredPropertyIds: parseJson<string[]>(fields['Covered Property IDs'], []),
+    emailConfirmedAt: fields['Email Confirmed At'] ? String(fields['Email Confirmed At']) : undefined,
+    smsConfirmedAt: fields['SMS Confirmed At'] ? String(fields['SMS Confirmed At']) : undefined,
+  };
+}
+
+function hashConfirmToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function tokenMatches(storedHash: unknown, token: string): boolean {
+  if (typeof storedHash !== 'string' || !storedHash) return false;
+  const expected = Buffer.from(storedHash);
+  const actual = Buffer.from(hashConfirmToken(token));
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Channels of the search's alert channel that have an address to confirm
+ */
+function searchChannels(channel: AlertChannel, details: { email?: string; phone?: string }): ConfirmChannel[] {
+  const channels: ConfirmChannel[] = [];
+  if (channel !== 'sms' && details.email) channels.push('email');
+  if (channel !== 'email' && details.phone) channels.push('sms');
+  return channels;
+}
+
+/**
+ * Whether at least one of the search's channels has been confirmed
+ */
+export function isSearchConfirmed(search: SavedSearch): boolean {
+  return wantsEmail(search) || wantsSms(search);
+}
+
+function ghlHeaders(): Record<string, string> {
+  return {
+    'Authorization': `Bearer ${process.env.GHL_API_KEY}`,
+    'Content-Type': 'application/json',
+    'Version': '2021-07-28',
+  };
+}
+
+interface GhlContact {
+  id: string;
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+  phone?: string;
+}
+
+/**
+ * Existing GHL contact with this email or phone (email checked first)
+ */
+async function findGhlContact(input: SaveSearchInput): Promise<GhlContact | null> {
+  const lookups: Array<[string, string]> = [];
+  if (input.email) lookups.push(['email', input.email]);
+  if (input.phone) lookups.push(['number', input.phone]);
+
+  for (const [param, value] of lookups) {
+    const params = new URLSearchParams({ locationId: process.env.GHL_LOCATION_ID || '', [param]: value });
+    const response = await fetch(`${GHL_API_URL}/contacts/search/duplicate?${params}`, { headers: ghlHeaders() });
+    if (!response.ok) {
+      throw new Error(`Failed to look up GHL contact: ${response.status}`);
+    }
+    const contact = (await response.json()).contact;
+    if (contact?.id) return contact;
+  }
+
+  return null;
+}
+
+/**
+ * Find the visitor's GHL contact (same email or phone), or create one
+ * An existing contact is returned as stored and never updated here, so a
+ * visitor can't attach their email or phone to someone else's contact. New
+ * contacts are tagged pending until the visitor confirms.
+ */
+export async function findOrCreateSearchContact(input: SaveSearchInput): Promise<SearchContact> {
+  if (!process.env.GHL_API_KEY || !process.env.GHL_LOCATION_ID) {
+    throw new Error('GHL credentials not configured');
+  }
+
+  const existing = await findGhlContact(input);
+  if (existing) {
+    return { id: existing.id, email: existing.email || undefined, phone: existing.phone || undefined };
+  }
+
+  const response = await fetch(`${GHL_API_URL}/contacts/`, {
+    method: 'POST',
+    headers: ghlHeaders(),
+    body: JSON.stringify({
+      locationId: process.env.GHL_LOCATION_ID,
+      firstName: input.firstName,
+      lastName: input.lastName || undefined,
+      email: input.email || undefined,
+      phone: input.phone || undefined,
+      source: 'Website Listings',
+      tags: [PENDING_CONTACT_TAG],
+    }),
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.contact?.id) {
+    throw new Error(`Failed to create GHL contact: ${response.status} ${JSON.stringify(data).slice(0, 200)}`);
+  }
+  return { id: data.contact.id, email: input.email, phone: input.phone };
+}
+
+/**
+ * Tag a confirmed visitor's contact as a saved-search buyer (tags only)
+ */
+export async function tagConfirmedContact(contactId: string): Promise<void> {
+  const response = await fetch(`${GHL_API_URL}/contacts/${contactId}/tags`, {
+    method: 'POST',
+    headers: ghlHeaders(),
+    body: JSON.stringify({ tags: CONFIRMED_CONTACT_TAGS }),
+  });
+  if (!response.ok) {
+    console.warn(`[SavedSearches] Failed to tag contact ${contactId}: ${response.status}`);
+  }
+
+  const untag = await fetch(`${GHL_API_URL}/contacts/${contactId}/tags`, {
+    method: 'DELETE',
+    headers: ghlHeaders(),
+    body: JSON.stringify({ tags: [PENDING_CONTACT_TAG] }),
+  });
+  if (!untag.ok) {
+    console.warn(`[SavedSearches] Failed to remove the pending tag from contact ${contactId}: ${untag.status}`);
+  }
+}
+
+/**
+ * Create or update the Airtable buyer for a confirmed saved search, returning
+ * its record ID. Pass only confirmed contact details. A new buyer gets them;
+ * an existing buyer only has its contact link and empty criteria filled in,
+ * so a visitor's search never overwrites what staff (or the buyer) recorded.
+ */
+export async function upsertSearchBuyer(contactId: string, input: SaveSearchInput): Promise<string> {
+  const conditions = [`{Contact ID} = "${escapeFormula(contactId)}"`];
+  if (input.email) conditions.push(`LOWER({Email}) = "${escapeFormula(input.email.toLowerCase())}"`);
+  const formula = conditions.length === 1 ? conditions[0] : `OR(${conditions.join(', ')})`;
+
+  const findRes = await fetch(
+    `${tableUrl('Buyers')}?maxRecords=1&filterByFormula=${encodeURIComponent(formula)}`,
+    { headers: airtableHeaders() }
+  );
+  if (!findRes.ok) {
+    throw new Error(`Failed to look up buyer: ${findRes.status}`);
+  }
+  const existing: AirtableRecord | undefined = (await findRes.json()).records?.[0];
+  const current = existing?.fields || {};
+
+  const criteria: Record<string, unknown> = {
+    'Preferred Zip Codes': input.filters.zipCode,
+    'No. of Bedrooms': input.filters.beds,
+    'No. of Bath': input.filters.baths,
+    'Downpayment': input.filters.maxDownPayment,
+    'Property Type': input.filters.propertyType,
+  };
+
+  const provided: Record<string, unknown> = existing
+    ? { 'Contact ID': contactId, ...criteria }
+    : {
+        'Contact ID': contactId,
+        'First Name': input.firstName,
+        'Last Name': input.lastName,
+        'Email': input.email,
+        'Phone': input.phone,
+        ...criteria,
+      };
+
+  const fields: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(provided)) {
+    if (value !== undefined && value !== '' && (current[key] === undefined || current[key] === '')) {
+      fields[key] = value;
+    }
+  }
+  if (existing && Object.keys(fields).length === 0) return existing.id;
+
+  const response = await fetch(existing ? `${tableUrl('Buyers')}/${existing.id}` : tableUrl('Buyers'), {
+    method: existing ? 'PATCH' : 'POST',
+    headers: airtableHeaders(),
+    body: JSON.stringify({ fields, typecast: true }),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to save buyer: ${response.status} ${(await response.text()).slice(0, 200)}`);
+  }
+
+  return (await response.json()).id;
+}
+
+/**
+ * Store a saved search (one per visitor and filter set - saving the same
+ * filters again updates the channel/favorites and reactivates it, but keeps
+ * the stored name, contact details and confirmations). `input` carries the
+ * contact's own email/phone. Returns a confirmation token for each alert
+ * channel not confirmed yet.
+ */
+export async function storeSavedSearch(
+  input: SaveSearchInput,
+  contactId: string,
+  coveredPropertyIds: string[]
+): Promise<{ search: SavedSearch; confirmations: SearchConfirmation[] }> {
+  const filtersJson = JSON.stringify(input.filters);
+  const identity = input.email
+    ? `LOWER({Email}) = "${escapeFormula(input.email.toLowerCase())}"`
+    : `{Phone} = "${escapeFormula(input.phone || '')}"`;
+  const formula = `AND(${identity}, {Filters} = "${escapeFormula(filtersJson)}")`;
+
+  const findRes = await fetch(
+    `${tableUrl(SAVED_SEARCHES_TABLE)}?maxRecords=1&filterByFormula=${encodeURIComponent(formula)}`,
+    { headers: airtableHeaders() }
+  );
+  const existing: AirtableRecord | undefined = findRes.ok ? (await findRes.json()).records?.[0] : undefined;
+
+  const current = existing?.fields || {};
+  const keep = (key: string, value: string) => (current[key] ? current[key] : value);
+
+  const fields: Record<string, unknown> = {
+    'First Name': keep('First Name', input.firstName),
+    'Last Name': keep('Last Name', input.lastName || ''),
+    'Email': keep('Email', input.email || ''),
+    'Phone': keep('Phone', input.phone || ''),
+    'Alert Channel': input.channel || 'email',
+    'Filters': filtersJson,
+    'Favorites': JSON.stringify(input.favorites || []),
+    'Contact ID': keep('Contact ID', contactId),
+    'Language': input.language || 'English',
+    'Active': true,
+  };
+  if (!existing) {
+    fields['Created At'] = new Date().toISOString();
+    fields['Covered Property IDs'] = JSON.stringify(coveredPropertyIds);
+  }
+
+  const details = { email: fields['Email'] as string, phone: fields['Phone'] as string };
+  const confirmations: SearchConfirmation[] = searchChannels(input.channel || 'email', details)
+    .filter((channel) => !current[CONFIRMED_AT_FIELDS[channel]])
+    .map((channel) => ({ channel, token: randomBytes(32).toString('hex') }));
+  for (const { channel, token } of confirmations) {
+    fields[CONFIRM_TOKEN_FIELDS[channel]] = hashConfirmToken(token);
+  }
+  if (confirmations.length > 0) {
+    fields['Confirm Expires'] = new Date(Date.now() + SEARCH_CONFIRM_TTL_MS).toISOString();
+  }
+
+  const response = await fetch(
+    existing ? `${tableUrl(SAVED_SEARCHES_TABLE)}/${existing.id}` : tableUrl(SAVED_SEARCHES_TABLE),
+    {
+      method: existing ? 'PATCH' : 'POST',
+      headers: airtableHeaders(),
+      body: JSON.stringify({ fields, typecast: true }),
+    }
+  );
+  if (!response.ok) {
+    throw new Error(`Failed to save search: ${response.status} ${(await response.text()).slice(0, 200)}`);
+  }
+
+  return { search: toSavedSearch(await response.json()), confirmations };
+}
+
+const CONFIRM_MESSAGES: Record<SavedSearch['language'], { subject: string; body: (summary: string) => string; action: string }> = {
+  English: {
+    subject: 'Confirm your listing alerts',
+    body: (summary) => `Please confirm you want alerts when new homes match your search: ${summary}.`,
+    action: 'Confirm alerts',
+  },
+  Spanish: {
+    subject: 'Confirma tus alertas de propiedades',
+    body: (summary) => `Confirma que quieres recibir alertas cuando nuevas casas coincidan con tu búsqueda: ${summary}.`,
+    action: 'Confirmar alertas',
+  },
+};
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Send each confirmation link to the search's contact (consent checks apply)
+ * Returns the channels a link went out on.
+ */
+export async function sendSearchConfirmations(
+  search: SavedSearch,
+  confirmations: SearchConfirmation[],
+  appUrl: string,
+  actor: AuditActor
+): Promise<ConfirmChannel[]> {
+  const text = CONFIRM_MESSAGES[search.language];
+  const summary = describeFilters(search.filters);
+  const sent: ConfirmChannel[] = [];
+
+  for (const { channel, token } of confirmations) {
+    const link = `${appUrl}/listings?confirmSearch=${encodeURIComponent(search.id)}&token=${token}`;
+    try {
+      const result = await sendConsentedMessage(
+        channel === 'email'
+          ? {
+              type: 'Email',
+              contactId: search.contactId!,
+              subject: text.subject,
+              html: `<p>${escapeHtml(text.body(summary))}</p><p><a href="${link}">${text.action}</a></p>`,
+            }
+          : { type: 'SMS', contactId: search.contactId!, message: `${text.body(summary)} ${link}` },
+        {
+          source: 'matching',
+          actor,
+          targetLabel: searchName(search),
+          details: 'listing alert confirmation',
+        }
+      );
+      if (result.status === 'sent') sent.push(channel);
+    } catch (error) {
+      console.error(`[SavedSearches] Failed to send ${channel} confirmation for ${search.id}:`, error);
+    }
+  }
+
+  return sent;
+}
+
+/**
+ * Confirm a search's channel with the token from its confirmation link
+ * Returns null when the token doesn't match or has expired; `firstConfirmation`
+ * is true when no channel was confirmed before.
+ */
+export async function confirmSavedSearch(
+  id: string,
+  token: string
+): Promise<{ search: SavedSearch; channel: ConfirmChannel; firstConfirmation: boolean } | null> {
+  const url = `${tableUrl(SAVED_SEARCHES_TABLE)}/${encodeURIComponent(id)}`;
+  const findRes = await fetch(url, { headers: airtableHeaders() });
+  if (findRes.status === 404) return null;
+  if (!findRes.ok) {
+    throw new Error(`Failed to fetch saved search: ${findRes.status}`);
+  }
+
+  const fields: Record<string, unknown> = (await findRes.json()).fields || {};
+  const expires = fields['Confirm Expires'] ? new Date(String(fields['Confirm Expires'])).getTime() : 0;
+  if (!expires || expires < Date.now()) return null;
+
+  const channel = (['email', 'sms'] as const).find((c) => tokenMatches(fields[CONFIRM_TOKEN_FIELDS[c]], token));
+  if (!channel) return null;
+
+  const firstConfirmation = !fields[CONFIRMED_AT_FIELDS.email] && !fields[CONFIRMED_AT_FIELDS.sms];
+
+  const response = await fetch(url, {
+    method: 'PATCH',
+    headers: airtableHeaders(),
+    body: JSON.stringify({
+      fields: {
+        [CONFIRMED_AT_FIELDS[channel]]: new Date().toISOString(),
+        [CONFIRM_TOKEN_FIELDS[channel]]: '',
+      },
+    }),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to confirm saved search: ${response.status}`);
+  }
+
+  return { search: toSavedSearch(await response.json()), channel, firstConfirmation };
+}
+
+/**
+ * Link the Airtable buyer created or found on the first confirmation
+ */
+export async function linkSearchBuyer(id: string, buyerRecordId: string): Promise<void> {
+  const response = await fetch(`${tableUrl(SAVED_SEARCHES_TABLE)}/${id}`, {
+    method: 'PATCH',
+    headers: airtableHeaders(),
+    body: JSON.stringify({ fields: { 'Buyer Record ID': buyerRecordId } }),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to update saved search: ${response.status}`);
+  }
+}
+
+/**
+ * All saved searches, newest first
+ */
+export async function listSavedSearches(options: { activeOnly?: boolean } = {}): Promise<SavedSearch[]> {
+  const records: AirtableRecord[] = [];
+  let offset: string | undefined;
+
+  do {
+    const url = new URL(tableUrl(SAVED_SEARCHES_TABLE));
+    url.searchParams.set('pageSize', '100');
+    if (options.activeOnly) url.searchParams.set('filterByFormula', '{Active}');
+    if (offset) url.searchParams.set('offset', offset);
+
+    const response = await fetch(url.toString(), { headers: airtableHeaders() });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch saved searches: ${response.status}`);
+    }
+    const data = await response.json();
+    records.push(...(data.records || []));
+    offset = data.offset;
+  } while (offset);
+
+  return records
+    .map(toSavedSearch)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * A single saved search (null if it doesn't exist)
+ */
+export async function getSavedSearch(id: string): Promise<SavedSearch | null> {
+  const response = await fetch(`${tableUrl(SAVED_SEARCHES_TABLE)}/${encodeURIComponent(id)}`, {
+    headers: airtableHeaders(),
+  });
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Failed to fetch saved search: ${response.status}`);
+  }
+  return toSavedSearch(await response.json());
+}
+
+/**
+ * Record that a search was alerted about these properties
+ */
+export async function markSearchAlerted(search: SavedSearch, propertyIds: string[]): Promise<void> {
+  const covered = Array.from(new Set([...search.coveredPropertyIds, ...propertyIds]));
+
+  const response = await fetch(`${tableUrl(SAVED_SEARCHES_TABLE)}/${search.id}`, {
+    method: 'PATCH',
+    headers: airtableHeaders(),
+    body: JSON.stringify({
+      fields: {
+        'Covered Property IDs': JSON.stringify(covered),
+        'Last Alerted At': new Date().toISOString(),
+      },
+    }),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to update saved search: ${response.status}`);
+  }
+}
+
+/**
+ * Turn alerts for a search on or off
+ */
+export async function setSavedSearchActive(id: string, active: boolean): Promise<void> {
+  const response = await fetch(`${tableUrl(SAVED_SEARCHES_TABLE)}/${id}`, {
+    method: 'PATCH',
+    headers: airtableHeaders(),
+    body: JSON.stringify({ fields: { 'Active': active } }),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to update saved search: ${response.status}`);
+  }
+}
+
+// ============ ALERTS ============
+
+export interface SearchAlert {
+  search: SavedSearch;
+  properties: SendJobProperty[]; // New matching inventory
+}
+
+export interface SearchAlertsResult {
+  sent: number;     // Sent or queued on at least one channel
+  skipped: number;  // Every channel blocked by the contact's consent
+  failed: number;   // Left pending for the next run
+  jobIds: string[]; // Bulk send jobs the alert emails were queued on
+  errors: Array<{ searchId: string; name: string; error: string }>;
+}
+
+const ALERT_EMAIL_SUBJECTS: Record<SavedSearch['language'], string> = {
+  English: 'New listings for your saved search',
+  Spanish: 'Nuevas propiedades para tu búsqueda guardada',
+};
+
+function searchName(search: SavedSearch): string {
+  return `${search.firstName} ${search.lastName}`.trim();
+}
+
+// Alerts only go out on channels the visitor confirmed
+function wantsEmail(search: SavedSearch): boolean {
+  return search.channel !== 'sms' && !!search.email && !!search.emailConfirmedAt;
+}
+
+function wantsSms(search: SavedSearch): boolean {
+  return search.channel !== 'email' && !!search.phone && !!search.smsConfirmedAt;
+}
+
+/**
+ * Queue the alert emails as one bulk send job per language
+ * Returns the IDs of the searches whose email was queued.
+ */
+async function queueAlertEmails(
+  alerts: SearchAlert[],
+  actor: AuditActor,
+  result: SearchAlertsResult
+): Promise<Set<string>> {
+  const queued = new Set<string>();
+
+  for (const language of ['English', 'Spanish'] as const) {
+    const batch = alerts.filter(({ search }) => search.language === language && wantsEmail(search));
+    if (batch.length === 0) continue;
+
+    const recipients: SendJobRecipient[] = batch.map(({ search, properties }) => ({
+      contactId: search.contactId!,
+      contactName: searchName(search),
+      contactEmail: search.email!,
+      properties,
+    }));
+
+    try {
+      const job = await createSendJob(
+        `Listing alerts ${new Date().toISOString().split('T')[0]} (${language})`,
+        recipients,
+        { subject: ALERT_EMAIL_SUBJECTS[language], language },
+        actor
+      );
+      result.jobIds.push(job.id);
+      batch.forEach(({ search }) => queued.add(search.id));
+    } catch (error) {
+      console.error(`[SavedSearches] Failed to queue ${language} alert emails:`, error);
+    }
+  }
+
+  return queued;
+}
+
+/**
+ * Send each alert on its search's channel and mark the properties covered
+ * Emails are queued on the bulk send queue (PDF, consent checks and retries
+ * happen there); texts go out now through the consent checks. A search stays
+ * pending for the next run when nothing went out and a later run could still
+ * send it (quiet hours, errors); one blocked for good (opt-out, daily cap) is
+ * marked covered.
+ */
+export async function sendSearchAlerts(alerts: SearchAlert[], actor: AuditActor): Promise<SearchAlertsResult> {
+  const result: SearchAlertsResult = { sent: 0, skipped: 0, failed: 0, jobIds: [], errors: [] };
+  const fail = (search: SavedSearch, error: string) => {
+    result.failed++;
+    result.errors.push({ searchId: search.id, name: searchName(search), error });
+  };
+
+  const sendable = alerts.filter(({ search }) => {
+    if (!search.contactId) {
+      fail(search, 'Saved search has no GHL contact');
+      return false;
+    }
+    if (!wantsEmail(search) && !wantsSms(search)) {
+      fail(search, 'No email or phone for the alert channel');
+      return false;
+    }
+    return true;
+  });
+
+  const queued = await queueAlertEmails(sendable, actor, result);
+
+  for (const { search, properties } of sendable) {
+    const emailQueued = queued.has(search.id);
+    const problems: string[] = wantsEmail(search) && !emailQueued ? ['Failed to queue the alert email'] : [];
+    let smsSent = false;
+    let retryable = problems.length > 0;
+
+    if (wantsSms(search)) {
+      try {
+        const sent = await sendConsentedMessage(
+          {
+            type: 'SMS',
+            contactId: search.contactId!,
+            message: generatePropertySMS(search.firstName, properties, search.language),
+          },
+          {
+            source: 'matching',
+            actor,
+            targetLabel: searchName(search),
+            details: `listing alert: ${describeFilters(search.filters)}`,
+          }
+        );
+        if (sent.status === 'sent') {
+          smsSent = true;
+        } else {
+          problems.push(sent.message);
+          if (sent.reason === 'quiet-hours') retryable = true;
+        }
+      } catch (error) {
+        problems.push(error instanceof Error ? error.message : 'SMS failed');
+        retryable = true;
+      }
+    }
+
+    const delivered = emailQueued || smsSent;
+    if (!delivered && retryable) {
+      fail(search, problems.join('; '));
+      continue;
+    }
+
+    try {
+      await markSearchAlerted(search, properties.map((property) => property.id));
+      if (delivered) result.sent++;
+      else result.skipped++;
+    } catch (error) {
+      fail(search, error instanceof Error ? error.message : 'Failed to update saved search');
+    }
+  }
+
+  return result;
+}
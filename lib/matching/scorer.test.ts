@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { generateMatchScore, getScoreBreakdown, TYPE_MISMATCH_SCORE_CAP } from './scorer';
+import {
+  DEFAULT_SCORING_PROFILE,
+  mergeScoringProfiles,
+  resolveScoringProfile,
+  SYSTEM_SCORING_PROFILES,
+} from './profiles';
+
+const buyer = {
+  id: 'recBuyer',
+  fields: {
+    'Preferred Zip Codes': '70001, 70002',
+    'No. of Bedrooms': 3,
+    'No. of Bath': 2,
+    'Property Type': 'Single Family',
+  },
+};
+
+const property = {
+  id: 'recProperty',
+  fields: {
+    'Address': '123 Main St, Metairie, LA 70001',
+    'Zip Code': '70001',
+    'Beds': 3,
+    'Baths': 2,
+    'Property Type': 'Single Family',
+  },
+};
+
+describe('generateMatchScore', () => {
+  it('gives a preferred ZIP the full location weight and flags it as priority', () => {
+    const score = generateMatchScore(buyer, property);
+
+    expect(score.locationScore).toBe(DEFAULT_SCORING_PROFILE.weights.location);
+    expect(score.isPriority).toBe(true);
+    expect(score.profileId).toBe(DEFAULT_SCORING_PROFILE.id);
+  });
+
+  it('caps the total when the property type is outside the buyer\'s types', () => {
+    const score = generateMatchScore(buyer, {
+      ...property,
+      fields: { ...property.fields, 'Property Type': 'Lot' },
+    });
+
+    expect(score.score).toBeLessThanOrEqual(TYPE_MISMATCH_SCORE_CAP);
+  });
+
+  it('normalizes the total to 100 whatever the profile weights sum to', () => {
+    const doubled = {
+      ...DEFAULT_SCORING_PROFILE,
+      id: 'doubled',
+      weights: Object.fromEntries(
+        Object.entries(DEFAULT_SCORING_PROFILE.weights).map(([key, value]) => [key, value * 2])
+      ) as typeof DEFAULT_SCORING_PROFILE.weights,
+    };
+
+    const standard = generateMatchScore(buyer, property);
+    const scaled = generateMatchScore(buyer, property, doubled);
+
+    expect(scaled.score).toBeLessThanOrEqual(100);
+    expect(Math.abs(scaled.score - standard.score)).toBeLessThanOrEqual(1);
+  });
+
+  it('keeps the original location/beds/baths/budget points in the default profile', () => {
+    const score = generateMatchScore(buyer, property);
+
+    expect([score.locationScore, score.bedsScore, score.bathsScore]).toEqual([40, 25, 15]);
+    expect([score.propertyTypeScore, score.conditionScore, score.sqftScore]).toEqual([0, 0, 0]);
+    expect(score.reasoning).not.toContain('Condition:');
+  });
+});
+
+describe('getScoreBreakdown', () => {
+  it('labels location with how it was scored and skips unweighted dimensions', () => {
+    const breakdown = getScoreBreakdown(generateMatchScore(buyer, property));
+
+    expect(breakdown).toContain('Location (In preferred ZIP 70001): 40/40');
+    expect(breakdown).not.toContain('ZIP Code:');
+    expect(breakdown).not.toContain('Size:');
+
+    const cash = SYSTEM_SCORING_PROFILES.find((p) => p.id === 'cash-buyer')!;
+    expect(getScoreBreakdown(generateMatchScore(buyer, property, cash), cash)).toContain('Size:');
+  });
+});
+
+describe('scoring profiles', () => {
+  it('merges stored profiles over the system profile with the same id', () => {
+    const systemCash = SYSTEM_SCORING_PROFILES.find((p) => p.id === 'cash-buyer')!;
+    const profiles = mergeScoringProfiles([
+      { id: 'cash-buyer', priorityRadiusMiles: 60 },
+      { id: 'custom', name: 'Custom' },
+    ]);
+    const cash = profiles.find((p) => p.id === 'cash-buyer')!;
+    const custom = profiles.find((p) => p.id === 'custom')!;
+
+    expect(profiles).toHaveLength(SYSTEM_SCORING_PROFILES.length + 1);
+    expect(cash.priorityRadiusMiles).toBe(60);
+    expect(cash.weights).toEqual(systemCash.weights);
+    expect(cash.dealTypes).toEqual(systemCash.dealTypes);
+    expect(custom.weights).toEqual(DEFAULT_SCORING_PROFILE.weights);
+    expect(custom.dealTypes).toEqual([]);
+  });
+
+  it('resolves a profile from the buyer\'s deal type unless one is given', () => {
+    const wrapBuyer = { fields: { 'Deal Type': 'wrap' } };
+
+    expect(resolveScoringProfile(SYSTEM_SCORING_PROFILES, null, wrapBuyer).id).toBe('lease-option');
+    expect(resolveScoringProfile(SYSTEM_SCORING_PROFILES, 'cash-buyer', wrapBuyer).id).toBe('cash-buyer');
+    expect(resolveScoringProfile(SYSTEM_SCORING_PROFILES, 'auto', { fields: {} }).id).toBe(DEFAULT_SCORING_PROFILE.id);
+  });
+});
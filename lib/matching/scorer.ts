@@ -9,7 +9,28 @@
 
 import { matchPropertyZip } from './zipMatcher';
 import { calculateDistance } from './distanceCalculator';
-import { getOrGeocodeLocation, extractCityFromAddress } from './geocache';
+import { geocodeLocation } from '../geocoding/geocoder';
+import { zipFromQuery } from '../geocoding/providers';
+import { getZipCentroid } from '../../src/lib/zipCentroids';
+import { calculateAffordability, estimateMonthlyPayment } from '../../src/lib/affordability';
+import { estimateTravelMinutes } from '../routing/providers';
+import { getTravelMatrix } from '../routing/travelTime';
+import { DEFAULT_SCORING_PROFILE } from './profiles';
+import {
+  DEFAULT_MAX_TRAVEL_MINUTES,
+  TRAVEL_TIME_TIERS,
+  isLocatedAnchor,
+  parseAnchorPoints,
+  type AnchorPoint,
+  type AnchorTravelTime,
+} from './anchors';
+import { matchPropertyType, compareCondition, compareSqft, parsePropertyTypes } from './propertyFit';
+import type { ScoringProfile } from './profiles';
+
+/**
+ * Highest total score a property of an incompatible type can receive
+ */
+export const TYPE_MISMATCH_SCORE_CAP = 50;
 
 export interface MatchScore {
   score: number;
@@ -17,18 +38,78 @@ export interface MatchScore {
   bedsScore: number;
   bathsScore: number;
   budgetScore: number;
+  propertyTypeScore: number;
+  conditionScore: number;
+  sqftScore: number;
   reasoning: string;
   highlights: string[];
   concerns: string[];
-  isPriority: boolean; // In preferred ZIP code OR within 50 miles
+  isPriority: boolean; // In preferred ZIP code OR within the profile's priority radius
   distanceMiles: number | null;
   locationReason: string;
+  travelTimes: AnchorTravelTime[]; // Drive time to each of the buyer's anchor points
+  profileId: string; // Scoring profile used to produce this score
+}
+
+export interface MatchScoreOptions {
+  // Routed drive minutes per anchor id (see computeAnchorTravelTimes); estimated when missing
+  travelMinutes?: Record<string, number>;
+}
+
+/**
+ * Airtable Buyers fields the scorer reads
+ */
+export interface BuyerScoringFields {
+  'Preferred Zip Codes'?: string | string[];
+  'No. of Bedrooms'?: number;
+  'No. of Bath'?: number;
+  'Downpayment'?: number;
+  'Monthly Income'?: number;
+  'Monthly Liabilities'?: number;
+  'Deal Type'?: string;
+  'Property Type'?: string | string[];
+  'Minimum Condition'?: string;
+  'Sqft'?: number;
+  'City'?: string;
+  'Preferred Location'?: string;
+  'State'?: string;
+  'Lat'?: number;
+  'Lng'?: number;
+  'Anchor Points'?: string;
+}
+
+/**
+ * Airtable Properties fields the scorer reads
+ */
+export interface PropertyScoringFields {
+  'Address'?: string;
+  'City'?: string;
+  'State'?: string;
+  'Zip Code'?: string;
+  'ZIP Code'?: string;
+  'Property Total Price'?: number;
+  'Price'?: number;
+  'Monthly Payment'?: number;
+  'Beds'?: number;
+  'Baths'?: number;
+  'Property Type'?: string;
+  'Property Current Condition'?: string;
+  'Sqft'?: number;
+  'Lat'?: number;
+  'Lng'?: number;
+}
+
+export interface ScoringRecord<Fields> {
+  id?: string;
+  fields: Fields;
 }
 
 /**
  * Generates a comprehensive match score between a buyer and property
  * Uses hybrid location matching: ZIP codes + distance-based scoring
  *
+ * Point values come from the scoring profile. With the default profile:
+ *
  * Location Scoring (0-40 points):
  * - ZIP match:      40 pts (isPriority = true)
  * - Within 5 mi:    38 pts (isPriority = true)
@@ -38,13 +119,32 @@ export interface MatchScore {
  * - Beyond 50 mi:   5-15 pts (isPriority = false)
  * - No location:    20 pts (neutral)
  *
+ * Buyers with anchor points (work, school, family) are scored on drive time
+ * to them instead of miles: within 15/25/40/60 min earns 100/90/70/45% of
+ * the location points, averaged across anchors. A preferred ZIP still wins.
+ *
+ * Type, condition and size fit add their own weighted sub-scores (unweighted,
+ * and left out of the breakdown, in the default profile). A property
+ * type outside the buyer's accepted type families caps the total at
+ * TYPE_MISMATCH_SCORE_CAP, so a Lot never ranks as a great Single Family match.
+ *
+ * The total is normalized to 0-100 so profile weights need not sum to 100.
+ *
  * @param buyer - Buyer record from Airtable
  * @param property - Property record from Airtable
+ * @param profile - Scoring profile (weights, distance tiers, priority radius)
+ * @param options - Precomputed drive times to the buyer's anchor points
  * @returns MatchScore object with detailed scoring breakdown
  */
-export function generateMatchScore(buyer: any, property: any): MatchScore {
+export function generateMatchScore(
+  buyer: ScoringRecord<BuyerScoringFields>,
+  property: ScoringRecord<PropertyScoringFields>,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+  options: MatchScoreOptions = {}
+): MatchScore {
   const highlights: string[] = [];
   const concerns: string[] = [];
+  const { weights } = profile;
 
   // Extract buyer data
   const buyerFields = buyer.fields;
@@ -61,27 +161,47 @@ export function generateMatchScore(buyer: any, property: any): MatchScore {
   const desiredBeds = buyerFields['No. of Bedrooms'];
   const desiredBaths = buyerFields['No. of Bath'];
   const downPayment = buyerFields['Downpayment'];
+  const monthlyIncome = buyerFields['Monthly Income'];
+  const affordabilityInputs = {
+    downPayment,
+    monthlyIncome,
+    monthlyLiabilities: buyerFields['Monthly Liabilities'],
+    dealType: buyerFields['Deal Type'],
+  };
+  const preferredTypes = parsePropertyTypes(buyerFields['Property Type']);
+  const minCondition = buyerFields['Minimum Condition'];
+  const desiredSqft = buyerFields['Sqft'];
   const buyerCity = buyerFields['City'] || buyerFields['Preferred Location'] || '';
 
-  // Buyer coordinates (from Airtable, pre-geocoded)
-  const buyerLat = buyerFields['Lat'];
-  const buyerLng = buyerFields['Lng'];
+  // Buyer coordinates (from Airtable, pre-geocoded; else the first preferred ZIP's centroid)
+  const buyerCentroid = hasValidCoordinates(buyerFields)
+    ? null
+    : getZipCentroid(Array.isArray(preferredZipCodes) ? preferredZipCodes[0] : null);
+  const buyerLat = buyerCentroid ? buyerCentroid.lat : buyerFields['Lat'];
+  const buyerLng = buyerCentroid ? buyerCentroid.lng : buyerFields['Lng'];
 
   // Extract property data
   const propertyFields = property.fields;
   const propertyAddress = propertyFields['Address'] || '';
   const propertyCity = propertyFields['City'] || '';
   const propertyPrice = propertyFields['Property Total Price'] || propertyFields['Price'];
+  const propertyMonthlyPayment = propertyFields['Monthly Payment'];
   const propertyBeds = propertyFields['Beds'];
   const propertyBaths = propertyFields['Baths'];
   const propertyZipCode = propertyFields['Zip Code'] || propertyFields['ZIP Code'];
+  const propertyType = propertyFields['Property Type'];
+  const propertyCondition = propertyFields['Property Current Condition'];
+  const propertySqft = propertyFields['Sqft'];
 
-  // Property coordinates (from Airtable, pre-geocoded)
-  const propertyLat = propertyFields['Lat'];
-  const propertyLng = propertyFields['Lng'];
+  // Property coordinates (from Airtable, pre-geocoded; else its ZIP's centroid)
+  const propertyCentroid = hasValidCoordinates(propertyFields)
+    ? null
+    : getZipCentroid(zipFromQuery({ zip: propertyZipCode, address: propertyAddress }));
+  const propertyLat = propertyCentroid ? propertyCentroid.lat : propertyFields['Lat'];
+  const propertyLng = propertyCentroid ? propertyCentroid.lng : propertyFields['Lng'];
 
   // ====================
-  // HYBRID LOCATION SCORE (0-40 points)
+  // HYBRID LOCATION SCORE (0-weights.location points)
   // Priority: ZIP match > Distance-based > No location data
   // ====================
 
@@ -102,15 +222,42 @@ export function generateMatchScore(buyer: any, property: any): MatchScore {
     distanceMiles = calculateDistance(buyerLat, buyerLng, propertyLat, propertyLng);
   }
 
+  // Drive time to each anchor point the property can be routed from
+  const anchors = parseAnchorPoints(buyerFields['Anchor Points']).filter(isLocatedAnchor);
+  const travelTimes: AnchorTravelTime[] =
+    anchors.length > 0 && isValidCoordinate(propertyLat) && isValidCoordinate(propertyLng)
+      ? anchors.map((anchor) => ({
+          anchorId: anchor.id,
+          label: anchor.label,
+          minutes: options.travelMinutes?.[anchor.id] ??
+            estimateTravelMinutes({ lat: propertyLat, lng: propertyLng }, anchor),
+        }))
+      : [];
+
   if (inPreferredZip) {
     // HIGHEST PRIORITY - Exact ZIP code match
-    locationScore = 40;
+    locationScore = weights.location;
     isPriority = true;
     locationReason = `In preferred ZIP ${propertyZipCode}`;
     highlights.push('In preferred ZIP code');
+    if (travelTimes.length > 0) {
+      highlights.push(describeTravelTimes(travelTimes));
+    }
+  } else if (travelTimes.length > 0) {
+    // Drive time to the buyer's anchor points
+    const { score, reason, priority, overLimit } = calculateTravelTimeScore(travelTimes, anchors, profile);
+    locationScore = score;
+    isPriority = priority;
+    locationReason = reason;
+
+    if (overLimit.length > 0) {
+      concerns.push(...overLimit);
+    } else {
+      highlights.push(reason);
+    }
   } else if (distanceMiles !== null) {
     // Distance-based scoring
-    const { score, reason, priority } = calculateDistanceScore(distanceMiles, buyerCity);
+    const { score, reason, priority } = calculateDistanceScore(distanceMiles, buyerCity, profile);
     locationScore = score;
     isPriority = priority;
     locationReason = reason;
@@ -122,97 +269,172 @@ export function generateMatchScore(buyer: any, property: any): MatchScore {
     }
   } else if (hasZipCodes) {
     // Has ZIP preference but no match and no coordinates
-    locationScore = 10;
+    locationScore = points(weights.location, 0.25);
     isPriority = false;
     locationReason = 'Not in preferred ZIP codes';
     concerns.push('Not in preferred ZIP codes');
   } else {
     // No location preference specified
-    locationScore = 20; // Neutral score
+    locationScore = points(weights.location, 0.5); // Neutral score
     locationReason = 'No location preference specified';
   }
 
   // ====================
-  // BEDS MATCH (0-25 points)
+  // BEDS MATCH (0-weights.beds points)
   // ====================
 
   let bedsScore = 0;
 
   if (desiredBeds && propertyBeds) {
     if (propertyBeds === desiredBeds) {
-      bedsScore = 25;
+      bedsScore = weights.beds;
       highlights.push(`Exact bed count: ${propertyBeds} beds`);
     } else if (Math.abs(propertyBeds - desiredBeds) === 1) {
-      bedsScore = 15;
+      bedsScore = points(weights.beds, 0.6);
       highlights.push(`Close bed count: ${propertyBeds} beds`);
     } else if (propertyBeds > desiredBeds) {
-      bedsScore = 10;
+      bedsScore = points(weights.beds, 0.4);
       highlights.push(`${propertyBeds} beds (more than desired)`);
     } else {
-      bedsScore = 5;
+      bedsScore = points(weights.beds, 0.2);
       concerns.push(`Fewer bedrooms: ${propertyBeds} vs ${desiredBeds} desired`);
     }
   } else if (propertyBeds) {
-    bedsScore = 12; // No preference specified
+    bedsScore = points(weights.beds, 0.48); // No preference specified
     highlights.push(`${propertyBeds} beds`);
   } else {
-    bedsScore = 12; // No data
+    bedsScore = points(weights.beds, 0.48); // No data
   }
 
   // ====================
-  // BATHS MATCH (0-15 points)
+  // BATHS MATCH (0-weights.baths points)
   // ====================
 
   let bathsScore = 0;
 
   if (desiredBaths && propertyBaths) {
     if (propertyBaths >= desiredBaths) {
-      bathsScore = 15;
+      bathsScore = weights.baths;
       highlights.push(`${propertyBaths} baths`);
     } else {
-      bathsScore = 5;
+      bathsScore = points(weights.baths, 1 / 3);
       concerns.push(`Fewer bathrooms: ${propertyBaths} vs ${desiredBaths} desired`);
     }
   } else if (propertyBaths) {
-    bathsScore = 8; // No preference specified
+    bathsScore = points(weights.baths, 8 / 15); // No preference specified
     highlights.push(`${propertyBaths} baths`);
   } else {
-    bathsScore = 8; // No data
+    bathsScore = points(weights.baths, 8 / 15); // No data
   }
 
   // ====================
-  // BUDGET MATCH (0-20 points)
+  // BUDGET MATCH (0-weights.budget points)
   // ====================
 
+  // Price against the most the buyer can afford (down payment, DTI and deal
+  // type terms), then the monthly payment against what their income carries
   let budgetScore = 0;
-
-  if (downPayment && propertyPrice) {
-    const downPaymentRatio = (downPayment / propertyPrice) * 100;
-
-    if (downPaymentRatio >= 20) {
-      budgetScore = 20;
-      highlights.push(`Strong down payment: ${downPaymentRatio.toFixed(0)}% of price`);
-    } else if (downPaymentRatio >= 10) {
-      budgetScore = 15;
-      highlights.push(`Adequate down payment: ${downPaymentRatio.toFixed(0)}%`);
-    } else if (downPaymentRatio >= 5) {
-      budgetScore = 10;
-      highlights.push(`Down payment: ${downPaymentRatio.toFixed(0)}%`);
+  const affordability = downPayment && propertyPrice
+    ? calculateAffordability(affordabilityInputs)
+    : null;
+  let monthlyPayment: number | null = null;
+
+  if (affordability && affordability.maxPrice === null) {
+    budgetScore = points(weights.budget, 0.25);
+    concerns.push(affordability.explanation);
+  } else if (affordability) {
+    const maxPrice = affordability.maxPrice!;
+    const priceRatio = propertyPrice / maxPrice;
+
+    if (priceRatio <= 0.85) {
+      budgetScore = weights.budget;
+      highlights.push(`Well within budget: $${Math.round(propertyPrice).toLocaleString()} of $${maxPrice.toLocaleString()} max`);
+    } else if (priceRatio <= 1) {
+      budgetScore = points(weights.budget, 0.75);
+      highlights.push(`Within budget: $${maxPrice.toLocaleString()} max`);
+    } else if (priceRatio <= 1.1) {
+      budgetScore = points(weights.budget, 0.5);
+      concerns.push(`Slightly over budget - ${affordability.explanation}`);
     } else {
-      budgetScore = 5;
-      concerns.push(`Low down payment ratio: ${downPaymentRatio.toFixed(0)}%`);
+      budgetScore = points(weights.budget, 0.25);
+      concerns.push(`Over budget - ${affordability.explanation}`);
+    }
+
+    // Payment check only applies with income on file
+    if (monthlyIncome && affordability.maxMonthlyPayment !== null) {
+      monthlyPayment = Number(propertyMonthlyPayment) || estimateMonthlyPayment(propertyPrice, affordabilityInputs);
+      if (monthlyPayment > affordability.maxMonthlyPayment) {
+        budgetScore = Math.min(budgetScore, points(weights.budget, 0.25));
+        concerns.push(
+          `Monthly payment $${monthlyPayment.toLocaleString()} exceeds the $${affordability.maxMonthlyPayment.toLocaleString()}/mo the buyer can carry`
+        );
+      }
     }
   } else if (downPayment) {
-    budgetScore = 10; // Has budget but no property price
+    budgetScore = points(weights.budget, 0.5); // Has budget but no property price
   } else {
-    budgetScore = 10; // No budget data
+    budgetScore = points(weights.budget, 0.5); // No budget data
+  }
+
+  // ====================
+  // PROPERTY TYPE MATCH (0-weights.propertyType points)
+  // ====================
+
+  const typeFit = matchPropertyType(propertyType, preferredTypes);
+  const propertyTypeScore = points(weights.propertyType, typeFit.ratio);
+
+  if (typeFit.level === 'exact') {
+    highlights.push(`Preferred property type: ${typeFit.label}`);
+  } else if (typeFit.level === 'close') {
+    highlights.push(`Similar property type: ${typeFit.label}`);
+  } else if (typeFit.level === 'mismatch') {
+    concerns.push(`Property type ${typeFit.label} not in preferred types (${preferredTypes.join(', ')})`);
+  }
+
+  // ====================
+  // CONDITION TOLERANCE (0-weights.condition points)
+  // ====================
+
+  const conditionFit = compareCondition(propertyCondition, minCondition);
+  const conditionScore = points(weights.condition, conditionFit.ratio);
+
+  if (conditionFit.level === 'exact') {
+    highlights.push(`Condition meets minimum: ${conditionFit.label}`);
+  } else if (conditionFit.level === 'close') {
+    concerns.push(`Condition slightly below minimum: ${conditionFit.label} vs ${minCondition}`);
+  } else if (conditionFit.level === 'mismatch') {
+    concerns.push(`Condition below tolerance: ${conditionFit.label} vs ${minCondition} minimum`);
+  }
+
+  // ====================
+  // SIZE FIT (0-weights.sqft points)
+  // ====================
+
+  const sqftFit = compareSqft(propertySqft, desiredSqft);
+  const sqftScore = points(weights.sqft, sqftFit.ratio);
+
+  if (sqftFit.level === 'exact') {
+    highlights.push(`Meets size: ${sqftFit.label}`);
+  } else if (sqftFit.level === 'close') {
+    concerns.push(`Slightly small: ${sqftFit.label} vs ${Number(desiredSqft).toLocaleString()} desired`);
+  } else if (sqftFit.level === 'mismatch') {
+    concerns.push(`Too small: ${sqftFit.label} vs ${Number(desiredSqft).toLocaleString()} desired`);
   }
 
   // ====================
   // TOTAL SCORE (0-100)
   // ====================
 
-  const totalScore = Math.min(100, locationScore + bedsScore + bathsScore + budgetScore);
+  const maxPoints = weights.location + weights.beds + weights.baths + weights.budget +
+    weights.propertyType + weights.condition + weights.sqft;
+  const rawScore = locationScore + bedsScore + bathsScore + budgetScore +
+    propertyTypeScore + conditionScore + sqftScore;
+  let totalScore = maxPoints > 0 ? Math.min(100, (rawScore / maxPoints) * 100) : 0;
+
+  // Wrong kind of property entirely - never rank above a fair match
+  if (typeFit.level === 'mismatch') {
+    totalScore = Math.min(totalScore, TYPE_MISMATCH_SCORE_CAP);
+  }
 
   // ====================
   // REASONING - Explain the score
@@ -234,49 +456,78 @@ export function generateMatchScore(buyer: any, property: any): MatchScore {
   const scoreBreakdown: string[] = [];
 
   // Location explanation
-  if (distanceMiles !== null) {
-    scoreBreakdown.push(`Location: ${locationScore}/40 pts (${locationReason})`);
+  if (distanceMiles !== null || travelTimes.length > 0) {
+    scoreBreakdown.push(`Location: ${locationScore}/${weights.location} pts (${locationReason})`);
   } else if (isPriority) {
-    scoreBreakdown.push(`Location: ${locationScore}/40 pts (in preferred ZIP)`);
+    scoreBreakdown.push(`Location: ${locationScore}/${weights.location} pts (in preferred ZIP)`);
   } else if (hasZipCodes) {
-    scoreBreakdown.push(`Location: ${locationScore}/40 pts (outside preferred ZIPs)`);
+    scoreBreakdown.push(`Location: ${locationScore}/${weights.location} pts (outside preferred ZIPs)`);
   } else {
-    scoreBreakdown.push(`Location: ${locationScore}/40 pts (no location preference set)`);
+    scoreBreakdown.push(`Location: ${locationScore}/${weights.location} pts (no location preference set)`);
   }
 
   // Beds explanation
   if (desiredBeds && propertyBeds) {
     if (propertyBeds === desiredBeds) {
-      scoreBreakdown.push(`Beds: ${bedsScore}/25 pts (exact match: ${propertyBeds} beds)`);
+      scoreBreakdown.push(`Beds: ${bedsScore}/${weights.beds} pts (exact match: ${propertyBeds} beds)`);
     } else {
       const diff = propertyBeds - desiredBeds;
-      scoreBreakdown.push(`Beds: ${bedsScore}/25 pts (${propertyBeds} beds, ${diff > 0 ? '+' : ''}${diff} vs desired)`);
+      scoreBreakdown.push(`Beds: ${bedsScore}/${weights.beds} pts (${propertyBeds} beds, ${diff > 0 ? '+' : ''}${diff} vs desired)`);
     }
   } else {
-    scoreBreakdown.push(`Beds: ${bedsScore}/25 pts`);
+    scoreBreakdown.push(`Beds: ${bedsScore}/${weights.beds} pts`);
   }
 
   // Baths explanation
   if (desiredBaths && propertyBaths) {
     if (propertyBaths >= desiredBaths) {
-      scoreBreakdown.push(`Baths: ${bathsScore}/15 pts (meets requirement: ${propertyBaths} baths)`);
+      scoreBreakdown.push(`Baths: ${bathsScore}/${weights.baths} pts (meets requirement: ${propertyBaths} baths)`);
     } else {
-      scoreBreakdown.push(`Baths: ${bathsScore}/15 pts (${propertyBaths} baths, needs ${desiredBaths})`);
+      scoreBreakdown.push(`Baths: ${bathsScore}/${weights.baths} pts (${propertyBaths} baths, needs ${desiredBaths})`);
     }
   } else {
-    scoreBreakdown.push(`Baths: ${bathsScore}/15 pts`);
+    scoreBreakdown.push(`Baths: ${bathsScore}/${weights.baths} pts`);
   }
 
   // Budget explanation
-  if (downPayment && propertyPrice) {
-    const ratio = ((downPayment / propertyPrice) * 100).toFixed(0);
-    scoreBreakdown.push(`Budget: ${budgetScore}/20 pts (${ratio}% down payment ratio)`);
+  if (affordability?.maxPrice) {
+    const constraint = affordability.bindingConstraint === 'down-payment' ? 'down payment' : 'debt-to-income';
+    scoreBreakdown.push(
+      `Budget: ${budgetScore}/${weights.budget} pts ($${Math.round(propertyPrice).toLocaleString()} vs $${affordability.maxPrice.toLocaleString()} max, limited by ${constraint}` +
+      (monthlyPayment !== null ? `; $${monthlyPayment.toLocaleString()}/mo vs $${affordability.maxMonthlyPayment!.toLocaleString()}/mo` : '') +
+      ')'
+    );
+  } else if (affordability) {
+    scoreBreakdown.push(`Budget: ${budgetScore}/${weights.budget} pts (${affordability.explanation})`);
   } else {
-    scoreBreakdown.push(`Budget: ${budgetScore}/20 pts`);
+    scoreBreakdown.push(`Budget: ${budgetScore}/${weights.budget} pts`);
+  }
+
+  // Type, condition and size explanations (skipped when the profile doesn't weight them)
+  if (weights.propertyType > 0 || typeFit.level === 'mismatch') {
+    scoreBreakdown.push(
+      `Type: ${propertyTypeScore}/${weights.propertyType} pts` +
+      (typeFit.level === 'unknown' ? '' : ` (${typeFit.label}${typeFit.level === 'mismatch' ? ', not preferred - score capped' : ''})`)
+    );
+  }
+  if (weights.condition > 0) {
+    scoreBreakdown.push(
+      `Condition: ${conditionScore}/${weights.condition} pts` +
+      (conditionFit.level === 'unknown' ? '' : ` (${conditionFit.label}, min ${minCondition})`)
+    );
+  }
+  if (weights.sqft > 0) {
+    scoreBreakdown.push(
+      `Size: ${sqftScore}/${weights.sqft} pts` +
+      (sqftFit.level === 'unknown' ? '' : ` (${sqftFit.label}, wants ${Number(desiredSqft).toLocaleString()})`)
+    );
   }
 
   // Compose full reasoning
   let reasoning = `${matchQuality} (Score: ${Math.round(totalScore)}/100)\n\n`;
+  if (profile.id !== DEFAULT_SCORING_PROFILE.id) {
+    reasoning += `Profile: ${profile.name}\n`;
+  }
   reasoning += `Score Breakdown:\n${scoreBreakdown.map(s => `• ${s}`).join('\n')}`;
 
   // Add priority flag
@@ -290,25 +541,38 @@ export function generateMatchScore(buyer: any, property: any): MatchScore {
     bedsScore,
     bathsScore,
     budgetScore,
+    propertyTypeScore,
+    conditionScore,
+    sqftScore,
     reasoning,
     highlights,
     concerns,
     isPriority,
     distanceMiles,
     locationReason,
+    travelTimes,
+    profileId: profile.id,
   };
 }
 
 /**
  * Score breakdown helper for debugging
  */
-export function getScoreBreakdown(score: MatchScore): string {
+export function getScoreBreakdown(score: MatchScore, profile: ScoringProfile = DEFAULT_SCORING_PROFILE): string {
+  const { weights } = profile;
+  const lines: Array<[string, number, number]> = [
+    [`Location${score.locationReason ? ` (${score.locationReason})` : ''}`, score.locationScore, weights.location],
+    ['Beds', score.bedsScore, weights.beds],
+    ['Baths', score.bathsScore, weights.baths],
+    ['Budget', score.budgetScore, weights.budget],
+    ['Type', score.propertyTypeScore, weights.propertyType],
+    ['Condition', score.conditionScore, weights.condition],
+    ['Size', score.sqftScore, weights.sqft],
+  ];
+
   return `
 Total Score: ${score.score}/100 ${score.isPriority ? '(PRIORITY)' : ''}
-  - ZIP Code: ${score.locationScore}/40
-  - Beds: ${score.bedsScore}/25
-  - Baths: ${score.bathsScore}/15
-  - Budget: ${score.budgetScore}/20
+${lines.filter(([, , weight]) => weight > 0).map(([label, points, weight]) => `  - ${label}: ${points}/${weight}`).join('\n')}
 
 Highlights: ${score.highlights.join(', ')}
 ${score.concerns.length > 0 ? `Concerns: ${score.concerns.join(', ')}` : ''}
@@ -318,78 +582,118 @@ ${score.concerns.length > 0 ? `Concerns: ${score.concerns.join(', ')}` : ''}
 /**
  * Check if a coordinate value is valid
  */
-function isValidCoordinate(value: any): value is number {
+function isValidCoordinate(value: unknown): value is number {
   return typeof value === 'number' && !isNaN(value) && isFinite(value);
 }
 
+function hasValidCoordinates(fields: { Lat?: unknown; Lng?: unknown }): boolean {
+  return isValidCoordinate(fields['Lat']) && isValidCoordinate(fields['Lng']);
+}
+
 /**
- * Calculate location score based on distance
+ * Scale a weight by a ratio, rounded to whole points
+ */
+function points(weight: number, ratio: number): number {
+  return Math.round(weight * ratio);
+}
+
+/**
+ * Calculate location score based on distance and the profile's tiers
  * Returns score, reason string, and priority flag
  */
-function calculateDistanceScore(distanceMiles: number, buyerCity: string): {
+function calculateDistanceScore(distanceMiles: number, buyerCity: string, profile: ScoringProfile): {
   score: number;
   reason: string;
   priority: boolean;
 } {
   const locationLabel = buyerCity || 'preferred area';
+  const priority = distanceMiles <= profile.priorityRadiusMiles;
+  const tier = profile.distanceTiers.find((t) => distanceMiles <= t.maxMiles);
 
-  if (distanceMiles <= 5) {
+  if (tier) {
     return {
-      score: 38,
+      score: points(profile.weights.location, tier.ratio),
       reason: `${distanceMiles.toFixed(1)} mi from ${locationLabel}`,
-      priority: true,
+      priority,
     };
   }
 
-  if (distanceMiles <= 10) {
-    return {
-      score: 35,
-      reason: `${distanceMiles.toFixed(1)} mi from ${locationLabel}`,
-      priority: true,
-    };
-  }
+  // Beyond the last tier - lower score
+  // Score decreases as distance increases: 15/40 of location weight, down to 5/40 at 200+ mi
+  const falloff = Math.max(5, 15 - Math.floor(distanceMiles / 20)) / 40;
 
-  if (distanceMiles <= 25) {
-    return {
-      score: 28,
-      reason: `${distanceMiles.toFixed(1)} mi from ${locationLabel}`,
-      priority: true,
-    };
-  }
+  return {
+    score: points(profile.weights.location, falloff),
+    reason: `${distanceMiles.toFixed(0)} mi away`,
+    priority,
+  };
+}
 
-  if (distanceMiles <= 50) {
-    return {
-      score: 20,
-      reason: `${distanceMiles.toFixed(1)} mi from ${locationLabel}`,
-      priority: true,
-    };
-  }
+/**
+ * "22 min to work, 35 min to school"
+ */
+function describeTravelTimes(travelTimes: AnchorTravelTime[]): string {
+  return travelTimes.map((t) => `${t.minutes} min to ${t.label}`).join(', ');
+}
+
+/**
+ * Calculate location score from drive times to the buyer's anchor points
+ * Each anchor earns a tier share of the location weight; the score is their
+ * average. Priority needs every anchor within its drive limit.
+ */
+function calculateTravelTimeScore(
+  travelTimes: AnchorTravelTime[],
+  anchors: AnchorPoint[],
+  profile: ScoringProfile
+): {
+  score: number;
+  reason: string;
+  priority: boolean;
+  overLimit: string[];
+} {
+  const overLimit: string[] = [];
+  let ratioTotal = 0;
 
-  // Beyond 50 miles - lower score, not priority
-  // Score decreases as distance increases: 15 at 50mi, down to 5 at 200+ mi
-  const score = Math.max(5, 15 - Math.floor(distanceMiles / 20));
+  for (const travel of travelTimes) {
+    const tier = TRAVEL_TIME_TIERS.find((t) => travel.minutes <= t.maxMinutes);
+    // Beyond the last tier: 30% at an hour, down to 10% at two hours and up
+    ratioTotal += tier ? tier.ratio : Math.max(0.1, 0.3 - (travel.minutes - 60) / 300);
+
+    const limit = anchors.find((a) => a.id === travel.anchorId)?.maxMinutes || DEFAULT_MAX_TRAVEL_MINUTES;
+    if (travel.minutes > limit) {
+      overLimit.push(`${travel.minutes} min to ${travel.label} (max ${limit})`);
+    }
+  }
 
   return {
-    score,
-    reason: `${distanceMiles.toFixed(0)} mi away`,
-    priority: false,
+    score: points(profile.weights.location, ratioTotal / travelTimes.length),
+    reason: describeTravelTimes(travelTimes),
+    priority: overLimit.length === 0,
+    overLimit,
   };
 }
 
 /**
  * Async version of generateMatchScore with live geocoding fallback
  *
- * If buyer or property coordinates are missing in Airtable,
- * this function will attempt to geocode them using Mapbox.
+ * If buyer or property coordinates are missing in Airtable, this function
+ * geocodes them through lib/geocoding (ZIP centroids offline, then the
+ * cached network providers). Drive times to anchor points come from the
+ * configured routing provider rather than the local estimate.
  *
  * Use this version when scoring ALL properties for a buyer (Zillow-style view)
  * where real-time distance calculation is important.
  *
  * @param buyer - Buyer record from Airtable
  * @param property - Property record from Airtable
+ * @param profile - Scoring profile (weights, distance tiers, priority radius)
  * @returns Promise<MatchScore> with detailed scoring breakdown
  */
-export async function generateMatchScoreAsync(buyer: any, property: any): Promise<MatchScore> {
+export async function generateMatchScoreAsync(
+  buyer: ScoringRecord<BuyerScoringFields>,
+  property: ScoringRecord<PropertyScoringFields>,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): Promise<MatchScore> {
   const buyerFields = buyer.fields;
   const propertyFields = property.fields;
 
@@ -406,10 +710,17 @@ export async function generateMatchScoreAsync(buyer: any, property: any): Promis
   let propertyLat = propertyFields['Lat'];
   let propertyLng = propertyFields['Lng'];
 
-  // Geocode buyer if coordinates missing but city is available
+  // Geocode buyer if coordinates missing (ZIP-level is close enough for distance tiers)
   if (!isValidCoordinate(buyerLat) || !isValidCoordinate(buyerLng)) {
-    if (buyerCity) {
-      const coords = await getOrGeocodeLocation(buyerCity, buyerState);
+    const preferredZipCodes = buyerFields['Preferred Zip Codes'];
+    const buyerZip = Array.isArray(preferredZipCodes)
+      ? preferredZipCodes[0]
+      : String(preferredZipCodes || '').split(',')[0].trim();
+    if (buyerCity || buyerZip) {
+      const coords = await geocodeLocation(
+        { city: buyerCity, state: buyerState, zip: buyerZip },
+        { precision: 'zip' }
+      );
       if (coords) {
         buyerLat = coords.lat;
         buyerLng = coords.lng;
@@ -419,10 +730,14 @@ export async function generateMatchScoreAsync(buyer: any, property: any): Promis
 
   // Geocode property if coordinates missing
   if (!isValidCoordinate(propertyLat) || !isValidCoordinate(propertyLng)) {
-    // Try full address first, then city
-    const locationToGeocode = propertyAddress || propertyCity;
-    if (locationToGeocode) {
-      const coords = await getOrGeocodeLocation(locationToGeocode, propertyState);
+    const propertyZip = propertyFields['Zip Code'] || propertyFields['ZIP Code'];
+    if (propertyAddress || propertyCity || propertyZip) {
+      const coords = await geocodeLocation({
+        address: propertyAddress,
+        city: propertyCity,
+        state: propertyState,
+        zip: propertyZip,
+      });
       if (coords) {
         propertyLat = coords.lat;
         propertyLng = coords.lng;
@@ -450,5 +765,15 @@ export async function generateMatchScoreAsync(buyer: any, property: any): Promis
     },
   };
 
-  return generateMatchScore(buyerWithCoords, propertyWithCoords);
+  // Route to the buyer's anchor points with the configured provider
+  const anchors = parseAnchorPoints(buyerFields['Anchor Points']).filter(isLocatedAnchor);
+  const travelMinutes: Record<string, number> = {};
+  if (anchors.length > 0 && isValidCoordinate(propertyLat) && isValidCoordinate(propertyLng)) {
+    const [row] = await getTravelMatrix([{ lat: propertyLat, lng: propertyLng }], anchors);
+    anchors.forEach((anchor, i) => {
+      travelMinutes[anchor.id] = row[i];
+    });
+  }
+
+  return generateMatchScore(buyerWithCoords, propertyWithCoords, profile, { travelMinutes });
 }
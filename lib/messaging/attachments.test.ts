@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import type { Property } from '../../src/types';
+import { buildPropertyMatchAttachment } from './attachments';
+
+const property = {
+  id: 'recProperty',
+  propertyCode: 'PH-1001',
+  address: '123 Main St',
+  city: 'Metairie',
+  state: 'LA',
+  price: 185000,
+  beds: 3,
+  baths: 2,
+  sqft: 1450,
+  downPayment: 15000,
+  monthlyPayment: 1350,
+  condition: 'Good',
+  propertyType: 'Single Family',
+  description: 'Updated kitchen, fenced yard.',
+} as Property;
+
+describe('buildPropertyMatchAttachment', () => {
+  it('renders the PDF without a browser and names it after the buyer', () => {
+    const attachment = buildPropertyMatchAttachment(
+      {
+        properties: [property],
+        buyerName: 'Jane Doe',
+        buyerEmail: 'jane@example.com',
+        agentName: 'Purple Homes',
+        agentPhone: '(555) 123-4567',
+        agentEmail: 'info@purplehomes.com',
+      },
+      new Date('2026-03-02T12:00:00Z')
+    );
+
+    expect(attachment.filename).toBe('Purple-Homes-Properties-Jane-Doe-2026-03-02.pdf');
+    expect(new TextDecoder().decode(attachment.data.slice(0, 5))).toBe('%PDF-');
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * Bulk Send Attachments
+ * Builds a recipient's property match PDF on the server. The layout is the
+ * one the browser attaches (src/lib/propertyMatchPdf.ts), rendered to bytes
+ * for the GHL upload rather than to a Blob.
+ */
+
+import type { Property } from '../../src/types';
+import { renderPropertyMatchPDF } from '../../src/lib/propertyMatchPdf';
+
+export interface PropertyMatchAttachment {
+  filename: string;
+  data: ArrayBuffer;
+}
+
+export interface PropertyMatchAttachmentOptions {
+  properties: Property[];
+  buyerName: string;
+  buyerEmail: string;
+  agentName: string;
+  agentPhone: string;
+  agentEmail: string;
+}
+
+/**
+ * The property match PDF and its file name (same name as a browser send)
+ */
+export function buildPropertyMatchAttachment(
+  options: PropertyMatchAttachmentOptions,
+  now = new Date()
+): PropertyMatchAttachment {
+  return {
+    filename: `Purple-Homes-Properties-${options.buyerName.replace(/\s+/g, '-')}-${now.toISOString().split('T')[0]}.pdf`,
+    data: renderPropertyMatchPDF(options).output('arraybuffer'),
+  };
+}
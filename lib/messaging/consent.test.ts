@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateConsent, isOptedOut, quietHoursEnd, type ConsentSettings } from './consent';
+
+const settings: ConsentSettings = {
+  quietHoursStart: 21,
+  quietHoursEnd: 8,
+  dailyCap: 3,
+  defaultTimezone: 'America/Chicago',
+};
+
+// 10:30 PM in Chicago (CDT, UTC-5)
+const lateEvening = new Date('2026-06-10T03:30:00Z');
+// 2:00 PM in Chicago
+const afternoon = new Date('2026-06-10T19:00:00Z');
+
+describe('isOptedOut', () => {
+  it('treats global DND as opted out of every channel', () => {
+    expect(isOptedOut({ id: 'c1', dnd: true }, 'email')).toBe(true);
+  });
+
+  it('only blocks the channel whose DND status is active', () => {
+    const contact = { id: 'c1', dndSettings: { SMS: { status: 'active' }, Email: { status: 'inactive' } } };
+
+    expect(isOptedOut(contact, 'sms')).toBe(true);
+    expect(isOptedOut(contact, 'email')).toBe(false);
+  });
+});
+
+describe('quietHoursEnd', () => {
+  it('returns when quiet hours end in the contact\'s time zone', () => {
+    expect(quietHoursEnd(lateEvening, 'America/Chicago', settings)?.toISOString()).toBe('2026-06-10T13:00:00.000Z');
+  });
+
+  it('returns null outside quiet hours or when they are disabled', () => {
+    expect(quietHoursEnd(afternoon, 'America/Chicago', settings)).toBeNull();
+    expect(quietHoursEnd(lateEvening, 'America/Chicago', { ...settings, quietHoursStart: 8 })).toBeNull();
+  });
+});
+
+describe('evaluateConsent', () => {
+  it('holds SMS during quiet hours but lets email through', () => {
+    const contact = { id: 'c1', state: 'LA' };
+
+    const sms = evaluateConsent(contact, 'sms', 0, settings, lateEvening);
+    const email = evaluateConsent(contact, 'email', 0, settings, lateEvening);
+
+    expect(sms).toMatchObject({ allowed: false, reason: 'quiet-hours', retryAfter: '2026-06-10T13:00:00.000Z' });
+    expect(email.allowed).toBe(true);
+  });
+
+  it('uses the contact\'s state time zone over the default', () => {
+    // 10:30 PM in Chicago is 8:30 PM in Los Angeles
+    const decision = evaluateConsent({ id: 'c1', state: 'California' }, 'sms', 0, settings, lateEvening);
+
+    expect(decision.timezone).toBe('America/Los_Angeles');
+    expect(decision.allowed).toBe(true);
+  });
+
+  it('blocks once the daily cap is reached', () => {
+    const decision = evaluateConsent({ id: 'c1' }, 'email', 3, settings, afternoon);
+
+    expect(decision).toMatchObject({ allowed: false, reason: 'daily-cap' });
+    expect(evaluateConsent({ id: 'c1' }, 'email', 3, { ...settings, dailyCap: 0 }, afternoon).allowed).toBe(true);
+  });
+
+  it('reports an opt-out before any other block', () => {
+    const decision = evaluateConsent({ id: 'c1', dnd: true }, 'sms', 5, settings, lateEvening);
+
+    expect(decision.reason).toBe('opted-out');
+  });
+});
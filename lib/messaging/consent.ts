@@ -0,0 +1,304 @@
+/**
+ * Messaging Consent
+ * Every outbound message - staff sends (api/ghl?resource=messages&action=send),
+ * bulk sends (./sendQueue.ts), automation rules and showing reminders
+ * (./send.ts) - passes through these checks before it reaches GHL:
+ * - Opt-outs: GHL do-not-disturb, either global or per channel (STOP replies
+ *   set SMS DND, see lib/deals/replies.ts)
+ * - Quiet hours: no SMS outside MESSAGING_QUIET_HOURS in the contact's local
+ *   time, taken from their state (then their GHL time zone, then the default)
+ * - Daily cap: at most MESSAGING_DAILY_CAP messages per contact per local day,
+ *   counted from the `message.sent` audit entries
+ *
+ * A blocked staff send is answered with 409 and a reason the UI can show;
+ * background sends are skipped and audited as `message.blocked`.
+ */
+
+import { listAuditEntries } from '../audit/auditLog';
+
+export type MessageChannel = 'sms' | 'email';
+
+export type ConsentBlockReason = 'opted-out' | 'quiet-hours' | 'daily-cap';
+
+export interface ConsentSettings {
+  quietHoursStart: number; // Local hour SMS stops (0-23)
+  quietHoursEnd: number;   // Local hour SMS resumes (0-23)
+  dailyCap: number;        // Messages per contact per local day (0 = no cap)
+  defaultTimezone: string;
+}
+
+export interface ConsentContact {
+  id: string;
+  dnd?: boolean;
+  dndSettings?: Record<string, { status?: string } | undefined>;
+  state?: string;
+  timezone?: string;
+}
+
+export interface ConsentDecision {
+  channel: MessageChannel;
+  allowed: boolean;
+  reason?: ConsentBlockReason;
+  message?: string;
+  retryAfter?: string; // ISO - when the send would next be allowed
+  timezone: string;
+  sentToday: number;
+}
+
+export const MESSAGE_SENT_ACTION = 'message.sent';
+export const MESSAGE_BLOCKED_ACTION = 'message.blocked';
+
+const GHL_API_URL = 'https://services.leadconnectorhq.com';
+
+// GHL DND statuses that mean the contact must not be messaged on that channel
+const DND_ACTIVE_STATUSES = ['active', 'permanent'];
+
+const DND_CHANNEL_KEYS: Record<MessageChannel, string> = {
+  sms: 'SMS',
+  email: 'Email',
+};
+
+// Predominant time zone per state (split states use their most populous zone)
+const STATE_TIMEZONES: Record<string, string> = {
+  AL: 'America/Chicago', AK: 'America/Anchorage', AZ: 'America/Phoenix', AR: 'America/Chicago',
+  CA: 'America/Los_Angeles', CO: 'America/Denver', CT: 'America/New_York', DE: 'America/New_York',
+  DC: 'America/New_York', FL: 'America/New_York', GA: 'America/New_York', HI: 'Pacific/Honolulu',
+  ID: 'America/Boise', IL: 'America/Chicago', IN: 'America/Indiana/Indianapolis', IA: 'America/Chicago',
+  KS: 'America/Chicago', KY: 'America/New_York', LA: 'America/Chicago', ME: 'America/New_York',
+  MD: 'America/New_York', MA: 'America/New_York', MI: 'America/Detroit', MN: 'America/Chicago',
+  MS: 'America/Chicago', MO: 'America/Chicago', MT: 'America/Denver', NE: 'America/Chicago',
+  NV: 'America/Los_Angeles', NH: 'America/New_York', NJ: 'America/New_York', NM: 'America/Denver',
+  NY: 'America/New_York', NC: 'America/New_York', ND: 'America/Chicago', OH: 'America/New_York',
+  OK: 'America/Chicago', OR: 'America/Los_Angeles', PA: 'America/New_York', RI: 'America/New_York',
+  SC: 'America/New_York', SD: 'America/Chicago', TN: 'America/Chicago', TX: 'America/Chicago',
+  UT: 'America/Denver', VT: 'America/New_York', VA: 'America/New_York', WA: 'America/Los_Angeles',
+  WV: 'America/New_York', WI: 'America/Chicago', WY: 'America/Denver', PR: 'America/Puerto_Rico',
+};
+
+const STATE_NAMES: Record<string, string> = {
+  alabama: 'AL', alaska: 'AK', arizona: 'AZ', arkansas: 'AR', california: 'CA', colorado: 'CO',
+  connecticut: 'CT', delaware: 'DE', 'district of columbia': 'DC', florida: 'FL', georgia: 'GA',
+  hawaii: 'HI', idaho: 'ID', illinois: 'IL', indiana: 'IN', iowa: 'IA', kansas: 'KS', kentucky: 'KY',
+  louisiana: 'LA', maine: 'ME', maryland: 'MD', massachusetts: 'MA', michigan: 'MI', minnesota: 'MN',
+  mississippi: 'MS', missouri: 'MO', montana: 'MT', nebraska: 'NE', nevada: 'NV', 'new hampshire': 'NH',
+  'new jersey': 'NJ', 'new mexico': 'NM', 'new york': 'NY', 'north carolina': 'NC', 'north dakota': 'ND',
+  ohio: 'OH', oklahoma: 'OK', oregon: 'OR', pennsylvania: 'PA', 'rhode island': 'RI',
+  'south carolina': 'SC', 'south dakota': 'SD', tennessee: 'TN', texas: 'TX', utah: 'UT', vermont: 'VT',
+  virginia: 'VA', washington: 'WA', 'west virginia': 'WV', wisconsin: 'WI', wyoming: 'WY',
+  'puerto rico': 'PR',
+};
+
+function ghlHeaders(): Record<string, string> {
+  return {
+    'Authorization': `Bearer ${process.env.GHL_API_KEY}`,
+    'Content-Type': 'application/json',
+    'Version': '2021-07-28',
+  };
+}
+
+function parseHour(value: string | undefined, fallback: number): number {
+  if (!value?.trim()) return fallback;
+  const hour = Number(value);
+  return Number.isInteger(hour) && hour >= 0 && hour <= 23 ? hour : fallback;
+}
+
+function isValidTimezone(timezone: string | undefined): timezone is string {
+  if (!timezone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Consent settings from the environment
+ * MESSAGING_QUIET_HOURS is "start-end" in local 24h hours (default 21-8)
+ */
+export function getConsentSettings(): ConsentSettings {
+  const [start, end] = (process.env.MESSAGING_QUIET_HOURS || '').split('-');
+  const cap = Number(process.env.MESSAGING_DAILY_CAP);
+  const defaultTimezone = process.env.MESSAGING_DEFAULT_TIMEZONE;
+
+  return {
+    quietHoursStart: parseHour(start, 21),
+    quietHoursEnd: parseHour(end, 8),
+    dailyCap: Number.isInteger(cap) && cap >= 0 ? cap : 3,
+    defaultTimezone: isValidTimezone(defaultTimezone) ? defaultTimezone : 'America/Chicago',
+  };
+}
+
+/**
+ * Map a state (code or name) to its time zone
+ */
+export function timezoneForState(state: string | undefined): string | undefined {
+  if (!state) return undefined;
+  const trimmed = state.trim();
+  const code = trimmed.length === 2 ? trimmed.toUpperCase() : STATE_NAMES[trimmed.toLowerCase()];
+  return code ? STATE_TIMEZONES[code] : undefined;
+}
+
+export function contactTimezone(contact: ConsentContact, settings: ConsentSettings): string {
+  return (
+    timezoneForState(contact.state) ||
+    (isValidTimezone(contact.timezone) ? contact.timezone : undefined) ||
+    settings.defaultTimezone
+  );
+}
+
+function localTime(now: Date, timezone: string): { hour: number; minute: number; second: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value || 0);
+  return { hour: part('hour'), minute: part('minute'), second: part('second') };
+}
+
+/**
+ * Start of the contact's local day, for counting today's messages
+ */
+export function startOfLocalDay(now: Date, timezone: string): Date {
+  const { hour, minute, second } = localTime(now, timezone);
+  return new Date(now.getTime() - ((hour * 60 + minute) * 60 + second) * 1000 - now.getMilliseconds());
+}
+
+/**
+ * When quiet hours end, or null if it's not quiet hours
+ */
+export function quietHoursEnd(now: Date, timezone: string, settings: ConsentSettings): Date | null {
+  const { quietHoursStart: start, quietHoursEnd: end } = settings;
+  if (start === end) return null;
+
+  const { hour, minute, second } = localTime(now, timezone);
+  const quiet = start > end ? hour >= start || hour < end : hour >= start && hour < end;
+  if (!quiet) return null;
+
+  const minutesUntilEnd = (end * 60 - (hour * 60 + minute) + 24 * 60) % (24 * 60);
+  return new Date(now.getTime() + (minutesUntilEnd * 60 - second) * 1000);
+}
+
+export function isOptedOut(contact: ConsentContact, channel: MessageChannel): boolean {
+  if (contact.dnd) return true;
+  const status = contact.dndSettings?.[DND_CHANNEL_KEYS[channel]]?.status;
+  return !!status && DND_ACTIVE_STATUSES.includes(status.toLowerCase());
+}
+
+function formatLocalTime(date: Date, timezone: string): string {
+  return date.toLocaleTimeString('en-US', { timeZone: timezone, hour: 'numeric', minute: '2-digit', timeZoneName: 'short' });
+}
+
+/**
+ * Decide whether a message may go out now
+ */
+export function evaluateConsent(
+  contact: ConsentContact,
+  channel: MessageChannel,
+  sentToday: number,
+  settings: ConsentSettings,
+  now = new Date()
+): ConsentDecision {
+  const timezone = contactTimezone(contact, settings);
+  const base = { channel, timezone, sentToday };
+
+  if (isOptedOut(contact, channel)) {
+    return {
+      ...base,
+      allowed: false,
+      reason: 'opted-out',
+      message: `Contact has opted out of ${channel === 'sms' ? 'SMS' : 'email'}`,
+    };
+  }
+
+  if (channel === 'sms') {
+    const resumeAt = quietHoursEnd(now, timezone, settings);
+    if (resumeAt) {
+      return {
+        ...base,
+        allowed: false,
+        reason: 'quiet-hours',
+        message: `Quiet hours for this contact - SMS resumes at ${formatLocalTime(resumeAt, timezone)}`,
+        retryAfter: resumeAt.toISOString(),
+      };
+    }
+  }
+
+  if (settings.dailyCap > 0 && sentToday >= settings.dailyCap) {
+    const tomorrow = new Date(startOfLocalDay(now, timezone).getTime() + 24 * 60 * 60 * 1000);
+    return {
+      ...base,
+      allowed: false,
+      reason: 'daily-cap',
+      message: `Daily limit reached (${sentToday} of ${settings.dailyCap} messages sent today)`,
+      retryAfter: tomorrow.toISOString(),
+    };
+  }
+
+  return { ...base, allowed: true };
+}
+
+/**
+ * Map a GHL Conversations message type to a consent channel
+ * Other types (WhatsApp, GMB, ...) aren't property sends and skip the checks.
+ */
+export function consentChannel(type: string | undefined): MessageChannel | null {
+  const normalized = (type || 'Email').toLowerCase();
+  if (normalized === 'sms') return 'sms';
+  if (normalized === 'email') return 'email';
+  return null;
+}
+
+async function loadConsentContact(contactId: string): Promise<ConsentContact> {
+  const response = await fetch(`${GHL_API_URL}/contacts/${contactId}`, { headers: ghlHeaders() });
+  if (!response.ok) {
+    throw new Error(`Failed to load contact ${contactId}: ${response.status}`);
+  }
+  const { contact } = await response.json();
+  return {
+    id: contactId,
+    dnd: contact?.dnd,
+    dndSettings: contact?.dndSettings,
+    state: contact?.state,
+    timezone: contact?.timezone,
+  };
+}
+
+async function countSentSince(contactId: string, since: Date): Promise<number> {
+  const { entries } = await listAuditEntries({
+    action: MESSAGE_SENT_ACTION,
+    targetId: contactId,
+    since: since.toISOString(),
+    pageSize: 100,
+  });
+  return entries.length;
+}
+
+/**
+ * Check opt-outs, quiet hours and the daily cap for a contact on both channels
+ * Throws if GHL or the audit log can't be read - callers treat that as blocked.
+ */
+export async function checkContactConsent(
+  contactId: string,
+  now = new Date()
+): Promise<Record<MessageChannel, ConsentDecision>> {
+  const settings = getConsentSettings();
+  const contact = await loadConsentContact(contactId);
+  const timezone = contactTimezone(contact, settings);
+  const sentToday = settings.dailyCap > 0 ? await countSentSince(contactId, startOfLocalDay(now, timezone)) : 0;
+  return {
+    sms: evaluateConsent(contact, 'sms', sentToday, settings, now),
+    email: evaluateConsent(contact, 'email', sentToday, settings, now),
+  };
+}
+
+export async function checkMessageConsent(
+  contactId: string,
+  channel: MessageChannel,
+  now = new Date()
+): Promise<ConsentDecision> {
+  return (await checkContactConsent(contactId, now))[channel];
+}
@@ -0,0 +1,102 @@
+/**
+ * Consent-Checked Sends
+ * Server-side messages that aren't sent from the UI (automation rules,
+ * showing reminders) go to GHL through sendConsentedMessage, so they get the
+ * same opt-out, quiet hours and daily cap checks as a staff send
+ * (see ./consent.ts) and count towards the daily cap once sent.
+ *
+ * A blocked send is not an error: it is audited as `message.blocked` and
+ * returned as skipped, with the reason, for the caller to report.
+ */
+
+import { recordAudit, type AuditActor, type AuditSource } from '../audit/auditLog';
+import {
+  checkMessageConsent,
+  consentChannel,
+  MESSAGE_BLOCKED_ACTION,
+  MESSAGE_SENT_ACTION,
+  type ConsentBlockReason,
+} from './consent';
+
+export interface OutboundMessage {
+  type: 'SMS' | 'Email';
+  contactId: string;
+  message?: string;       // SMS body
+  subject?: string;       // Email
+  html?: string;          // Email
+  appointmentId?: string;
+}
+
+export interface OutboundContext {
+  source: AuditSource;
+  actor: AuditActor;
+  targetLabel?: string;
+  details?: string;       // Appended to the audit entry, e.g. the rule name
+}
+
+export type OutboundResult =
+  | { status: 'sent'; messageId?: string }
+  | { status: 'skipped'; reason?: ConsentBlockReason; message: string; retryAfter?: string };
+
+const GHL_API_URL = 'https://services.leadconnectorhq.com';
+
+function channelLabel(type: OutboundMessage['type']): string {
+  return type === 'SMS' ? 'SMS' : 'Email';
+}
+
+/**
+ * Send an SMS or email through GHL if the contact's consent allows it
+ * Throws if consent can't be checked (the message is not sent) or GHL
+ * rejects the send.
+ */
+export async function sendConsentedMessage(
+  payload: OutboundMessage,
+  context: OutboundContext
+): Promise<OutboundResult> {
+  const channel = consentChannel(payload.type)!;
+  const suffix = context.details ? ` (${context.details})` : '';
+
+  const consent = await checkMessageConsent(payload.contactId, channel);
+  if (!consent.allowed) {
+    const message = consent.message || 'Blocked';
+    await recordAudit(null, {
+      action: MESSAGE_BLOCKED_ACTION,
+      source: context.source,
+      targetType: 'contact',
+      targetId: payload.contactId,
+      targetLabel: context.targetLabel,
+      details: `${channelLabel(payload.type)} blocked: ${message}${suffix}`,
+      after: { channel, reason: consent.reason, retryAfter: consent.retryAfter },
+      actor: context.actor,
+    });
+    return { status: 'skipped', reason: consent.reason, message, retryAfter: consent.retryAfter };
+  }
+
+  const response = await fetch(`${GHL_API_URL}/conversations/messages`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${process.env.GHL_API_V2 || process.env.GHL_API_KEY}`,
+      'Content-Type': 'application/json',
+      'Version': '2021-07-28',
+    },
+    body: JSON.stringify(payload),
+  });
+  if (!response.ok) {
+    throw new Error(`${payload.type} failed: ${response.status} ${(await response.text()).slice(0, 200)}`);
+  }
+
+  const data = await response.json().catch(() => ({}));
+  const messageId: string | undefined = data.messageId || data.id;
+  await recordAudit(null, {
+    action: MESSAGE_SENT_ACTION,
+    source: context.source,
+    targetType: 'contact',
+    targetId: payload.contactId,
+    targetLabel: context.targetLabel,
+    details: `${channelLabel(payload.type)} sent${payload.subject ? `: ${payload.subject}` : ''}${suffix}`,
+    after: { channel, messageId },
+    actor: context.actor,
+  });
+
+  return { status: 'sent', messageId };
+}
@@ -0,0 +1,704 @@
+/**
+ * Bulk Send Queue
+ * Server-side property email campaigns. A job gets one queue item per
+ * recipient (Airtable `Send Jobs` / `Send Job Items`) and is worked off by
+ * processSendJobs - from the cron (every 5 minutes), and from the progress
+ * dialog while someone is watching - so closing the browser tab doesn't stop it.
+ *
+ * Each item generates the buyer's PDF, uploads it to GHL and sends the email,
+ * one send per SEND_INTERVAL_MS. GHL 429/5xx responses and network errors are
+ * retried with exponential backoff up to MAX_ATTEMPTS; consent blocks
+ * (opt-outs, daily cap) mark the item skipped. A job is worked by one
+ * processor at a time (lock token + expiry on the job record).
+ *
+ * An item is marked `sending` before it goes to GHL. One still `sending` when
+ * the next processor takes the lock was cut off mid-send and may have gone
+ * out, so it is failed rather than sent twice.
+ */
+
+import { randomUUID } from 'crypto';
+import type { Property } from '../../src/types';
+import {
+  buildPropertyMatchEmailHtml,
+  propertyMatchEmailSubject,
+  type PropertyEmailLanguage,
+} from '../../src/lib/propertyEmailTemplate';
+import { recordAudit, type AuditActor } from '../audit/auditLog';
+import { buildPropertyMatchAttachment } from './attachments';
+import { checkMessageConsent, MESSAGE_SENT_ACTION } from './consent';
+
+export type SendJobStatus = 'queued' | 'running' | 'completed' | 'cancelled';
+
+export type SendItemStatus = 'queued' | 'sending' | 'sent' | 'failed' | 'skipped';
+
+// The property fields the email and PDF use
+export type SendJobProperty = Pick<
+  Property,
+  | 'id'
+  | 'propertyCode'
+  | 'address'
+  | 'city'
+  | 'state'
+  | 'price'
+  | 'beds'
+  | 'baths'
+  | 'sqft'
+  | 'downPayment'
+  | 'monthlyPayment'
+  | 'condition'
+  | 'propertyType'
+  | 'description'
+>;
+
+export interface SendJobRecipient {
+  contactId: string;
+  contactName: string;
+  contactEmail: string;
+  properties: SendJobProperty[];
+}
+
+export interface SendJobOptions {
+  subject?: string;
+  customMessage?: string;
+  agentName?: string;
+  agentPhone?: string;
+  agentEmail?: string;
+  language?: PropertyEmailLanguage;
+}
+
+export interface SendJobCounts {
+  total: number;
+  queued: number;
+  sent: number;
+  failed: number;
+  skipped: number;
+}
+
+export interface SendJob {
+  id: string;
+  name: string;
+  status: SendJobStatus;
+  options: SendJobOptions;
+  counts: SendJobCounts;
+  createdBy: string;
+  createdAt: string;
+  completedAt?: string;
+}
+
+export interface SendJobItem {
+  id: string;
+  jobId: string;
+  contactId: string;
+  contactName: string;
+  contactEmail: string;
+  propertyCount: number;
+  status: SendItemStatus;
+  attempts: number;
+  nextAttemptAt?: string;
+  error?: string;
+  messageId?: string;
+  sentAt?: string;
+}
+
+export const SEND_JOBS_TABLE = 'Send Jobs';
+export const SEND_JOB_ITEMS_TABLE = 'Send Job Items';
+
+export const MAX_RECIPIENTS = 500;
+export const MAX_ATTEMPTS = 5;
+
+const SEND_INTERVAL_MS = 1000;
+const BASE_BACKOFF_MS = 30 * 1000;
+const LOCK_GRACE_MS = 30 * 1000;
+
+const ACTIVE_STATUSES: SendJobStatus[] = ['queued', 'running'];
+
+const INTERRUPTED_ERROR = 'Interrupted while sending - it may have gone out, check the conversation before resending';
+
+const AIRTABLE_API_URL = 'https://api.airtable.com/v0';
+const GHL_API_URL = 'https://services.leadconnectorhq.com';
+
+interface AirtableRecord {
+  id: string;
+  fields: Record<string, unknown>;
+}
+
+interface StoredItem extends SendJobItem {
+  properties: SendJobProperty[];
+}
+
+interface GhlResponse {
+  urls?: string[];
+  url?: string;
+  messageId?: string;
+}
+
+interface GhlResult {
+  ok: boolean;
+  data?: GhlResponse;
+  retryable?: boolean; // 429, 5xx or a network error
+  error?: string;
+  retryAfterMs?: number;
+}
+
+type SendOutcome =
+  | { status: 'sent'; messageId?: string }
+  | { status: 'failed' | 'skipped'; error: string }
+  | { status: 'retry'; error: string; retryAfterMs?: number };
+
+function airtableHeaders(): Record<string, string> {
+  return {
+    'Authorization': `Bearer ${process.env.AIRTABLE_API_KEY}`,
+    'Content-Type': 'application/json',
+  };
+}
+
+function tableUrl(table: string): string {
+  return `${AIRTABLE_API_URL}/${process.env.AIRTABLE_BASE_ID}/${encodeURIComponent(table)}`;
+}
+
+function escapeFormula(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+function parseJson<T>(value: unknown, fallback: T): T {
+  if (typeof value !== 'string' || !value) return fallback;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function listRecords(
+  table: string,
+  filterByFormula: string,
+  sort?: { field: string; direction: 'asc' | 'desc' },
+  maxRecords?: number
+): Promise<AirtableRecord[]> {
+  const records: AirtableRecord[] = [];
+  let offset: string | undefined;
+
+  do {
+    const params = new URLSearchParams({ filterByFormula, pageSize: '100' });
+    if (sort) {
+      params.set('sort[0][field]', sort.field);
+      params.set('sort[0][direction]', sort.direction);
+    }
+    if (maxRecords) params.set('maxRecords', String(maxRecords));
+    if (offset) params.set('offset', offset);
+
+    const response = await fetch(`${tableUrl(table)}?${params}`, { headers: airtableHeaders() });
+    if (!response.ok) {
+      throw new Error(`Failed to load ${table}: ${response.status}`);
+    }
+    const data = await response.json();
+    records.push(...(data.records || []));
+    offset = data.offset;
+  } while (offset);
+
+  return records;
+}
+
+async function getRecord(table: string, recordId: string): Promise<AirtableRecord | null> {
+  const response = await fetch(`${tableUrl(table)}/${recordId}`, { headers: airtableHeaders() });
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Failed to load ${table} ${recordId}: ${response.status}`);
+  }
+  return response.json();
+}
+
+/**
+ * Create or update records, 10 per request (Airtable's batch limit)
+ */
+async function writeRecords(
+  table: string,
+  method: 'POST' | 'PATCH',
+  records: Array<{ id?: string; fields: Record<string, unknown> }>
+): Promise<AirtableRecord[]> {
+  const written: AirtableRecord[] = [];
+  for (let i = 0; i < records.length; i += 10) {
+    const response = await fetch(tableUrl(table), {
+      method,
+      headers: airtableHeaders(),
+      body: JSON.stringify({ records: records.slice(i, i + 10), typecast: true }),
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to write ${table}: ${response.status} ${(await response.text()).slice(0, 200)}`);
+    }
+    const data = await response.json();
+    written.push(...(data.records || []));
+  }
+  return written;
+}
+
+function toJob(record: AirtableRecord): SendJob {
+  const fields = record.fields;
+  const total = Number(fields['Total']) || 0;
+  const sent = Number(fields['Sent']) || 0;
+  const failed = Number(fields['Failed']) || 0;
+  const skipped = Number(fields['Skipped']) || 0;
+
+  return {
+    id: record.id,
+    name: String(fields['Name'] || ''),
+    status: (fields['Status'] as SendJobStatus) || 'queued',
+    options: parseJson<SendJobOptions>(fields['Options'], {}),
+    counts: { total, queued: Math.max(total - sent - failed - skipped, 0), sent, failed, skipped },
+    createdBy: String(fields['Created By'] || ''),
+    createdAt: String(fields['Created At'] || ''),
+    completedAt: fields['Completed At'] ? String(fields['Completed At']) : undefined,
+  };
+}
+
+function toItem(record: AirtableRecord): StoredItem {
+  const fields = record.fields;
+  const properties = parseJson<SendJobProperty[]>(fields['Properties'], []);
+
+  return {
+    id: record.id,
+    jobId: String(fields['Job ID'] || ''),
+    contactId: String(fields['Contact ID'] || ''),
+    contactName: String(fields['Contact Name'] || ''),
+    contactEmail: String(fields['Contact Email'] || ''),
+    properties,
+    propertyCount: properties.length,
+    status: (fields['Status'] as SendItemStatus) || 'queued',
+    attempts: Number(fields['Attempts']) || 0,
+    nextAttemptAt: fields['Next Attempt At'] ? String(fields['Next Attempt At']) : undefined,
+    error: fields['Error'] ? String(fields['Error']) : undefined,
+    messageId: fields['Message ID'] ? String(fields['Message ID']) : undefined,
+    sentAt: fields['Sent At'] ? String(fields['Sent At']) : undefined,
+  };
+}
+
+function publicItem({ properties: _properties, ...item }: StoredItem): SendJobItem {
+  return item;
+}
+
+function countItems(items: SendJobItem[]): SendJobCounts {
+  const count = (status: SendItemStatus) => items.filter((item) => item.status === status).length;
+  return {
+    total: items.length,
+    queued: count('queued') + count('sending'),
+    sent: count('sent'),
+    failed: count('failed'),
+    skipped: count('skipped'),
+  };
+}
+
+async function listJobItems(jobId: string): Promise<StoredItem[]> {
+  const records = await listRecords(SEND_JOB_ITEMS_TABLE, `{Job ID} = "${escapeFormula(jobId)}"`);
+  return records.map(toItem);
+}
+
+function trimProperty(property: SendJobProperty): SendJobProperty {
+  return {
+    id: property.id,
+    propertyCode: property.propertyCode,
+    address: property.address,
+    city: property.city,
+    state: property.state,
+    price: property.price,
+    beds: property.beds,
+    baths: property.baths,
+    sqft: property.sqft,
+    downPayment: property.downPayment,
+    monthlyPayment: property.monthlyPayment,
+    condition: property.condition,
+    propertyType: property.propertyType,
+    description: property.description,
+  };
+}
+
+/**
+ * Check a bulk send request; returns an error message or null
+ */
+export function sendJobError(recipients: unknown): string | null {
+  if (!Array.isArray(recipients) || recipients.length === 0) return 'recipients are required';
+  if (recipients.length > MAX_RECIPIENTS) return `At most ${MAX_RECIPIENTS} recipients per job`;
+
+  for (const recipient of recipients as Partial<SendJobRecipient>[]) {
+    if (!recipient?.contactId || !recipient.contactEmail) {
+      return 'Each recipient needs a contactId and contactEmail';
+    }
+    if (!Array.isArray(recipient.properties) || recipient.properties.length === 0) {
+      return `No properties for ${recipient.contactName || recipient.contactId}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Queue a bulk send: the job record plus one queued item per recipient
+ */
+export async function createSendJob(
+  name: string,
+  recipients: SendJobRecipient[],
+  options: SendJobOptions,
+  actor: AuditActor
+): Promise<SendJob> {
+  const [jobRecord] = await writeRecords(SEND_JOBS_TABLE, 'POST', [{
+    fields: {
+      'Name': name,
+      'Status': 'queued',
+      'Options': JSON.stringify(options),
+      'Total': recipients.length,
+      'Sent': 0,
+      'Failed': 0,
+      'Skipped': 0,
+      'Created By': actor.email,
+      'Created By Name': actor.name,
+      'Created By Role': actor.role,
+      'Created At': new Date().toISOString(),
+    },
+  }]);
+
+  await writeRecords(
+    SEND_JOB_ITEMS_TABLE,
+    'POST',
+    recipients.map((recipient) => ({
+      fields: {
+        'Job ID': jobRecord.id,
+        'Contact ID': recipient.contactId,
+        'Contact Name': recipient.contactName,
+        'Contact Email': recipient.contactEmail,
+        'Properties': JSON.stringify(recipient.properties.map(trimProperty)),
+        'Status': 'queued',
+        'Attempts': 0,
+      },
+    }))
+  );
+
+  return toJob(jobRecord);
+}
+
+/**
+ * A job with every recipient's status
+ */
+export async function getSendJob(jobId: string): Promise<{ job: SendJob; items: SendJobItem[] } | null> {
+  const record = await getRecord(SEND_JOBS_TABLE, jobId);
+  if (!record) return null;
+
+  const items = (await listJobItems(jobId)).map(publicItem);
+  // Item statuses are live; the job's counts are only written between slices
+  return { job: { ...toJob(record), counts: countItems(items) }, items };
+}
+
+/**
+ * Recent jobs, newest first (activeOnly: queued or running, for reattaching)
+ */
+export async function listSendJobs(activeOnly = false, limit = 20): Promise<SendJob[]> {
+  const formula = activeOnly
+    ? `OR(${ACTIVE_STATUSES.map((s) => `{Status} = "${s}"`).join(', ')})`
+    : 'TRUE()';
+  const records = await listRecords(SEND_JOBS_TABLE, formula, { field: 'Created At', direction: 'desc' }, limit);
+  return records.map(toJob);
+}
+
+/**
+ * Stop a job: recipients not yet sent are skipped
+ */
+export async function cancelSendJob(jobId: string): Promise<SendJob | null> {
+  const record = await getRecord(SEND_JOBS_TABLE, jobId);
+  if (!record) return null;
+  if (!ACTIVE_STATUSES.includes(toJob(record).status)) return toJob(record);
+
+  const items = await listJobItems(jobId);
+  const queued = items.filter((item) => item.status === 'queued');
+  await writeRecords(
+    SEND_JOB_ITEMS_TABLE,
+    'PATCH',
+    queued.map((item) => ({ id: item.id, fields: { 'Status': 'skipped', 'Error': 'Cancelled' } }))
+  );
+
+  const counts = countItems(items.map((item) => (item.status === 'queued' ? { ...item, status: 'skipped' as const } : item)));
+  const [updated] = await writeRecords(SEND_JOBS_TABLE, 'PATCH', [{
+    id: jobId,
+    fields: {
+      'Status': 'cancelled',
+      'Sent': counts.sent,
+      'Failed': counts.failed,
+      'Skipped': counts.skipped,
+      'Completed At': new Date().toISOString(),
+    },
+  }]);
+  return toJob(updated);
+}
+
+async function ghlRequest(path: string, init: RequestInit): Promise<GhlResult> {
+  let response: Response;
+  try {
+    response = await fetch(`${GHL_API_URL}${path}`, {
+      ...init,
+      headers: {
+        'Authorization': `Bearer ${process.env.GHL_API_V2 || process.env.GHL_API_KEY}`,
+        'Version': '2021-07-28',
+        ...init.headers,
+      },
+    });
+  } catch (error) {
+    return { ok: false, retryable: true, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  const text = await response.text();
+  if (response.ok) {
+    return { ok: true, data: parseJson<GhlResponse>(text, {}) };
+  }
+
+  const retryAfter = Number(response.headers.get('retry-after'));
+  return {
+    ok: false,
+    retryable: response.status === 429 || response.status >= 500,
+    error: `GHL ${response.status}: ${text.slice(0, 200)}`,
+    retryAfterMs: Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined,
+  };
+}
+
+async function sendItem(item: StoredItem, options: SendJobOptions): Promise<SendOutcome> {
+  let consent;
+  try {
+    consent = await checkMessageConsent(item.contactId, 'email');
+  } catch (error) {
+    return { status: 'retry', error: error instanceof Error ? error.message : String(error) };
+  }
+  if (!consent.allowed) {
+    return { status: 'skipped', error: consent.message || 'Blocked' };
+  }
+
+  const agentName = options.agentName || 'Purple Homes';
+  const agentPhone = options.agentPhone || '(555) 123-4567';
+  const agentEmail = options.agentEmail || 'info@purplehomes.com';
+  const properties = item.properties as Property[];
+
+  const pdf = buildPropertyMatchAttachment({
+    properties,
+    buyerName: item.contactName,
+    buyerEmail: item.contactEmail,
+    agentName,
+    agentPhone,
+    agentEmail,
+  });
+
+  const form = new FormData();
+  form.append('fileAttachment', new Blob([pdf.data], { type: 'application/pdf' }), pdf.filename);
+  const upload = await ghlRequest('/conversations/messages/upload', { method: 'POST', body: form });
+  if (!upload.ok) {
+    return upload.retryable
+      ? { status: 'retry', error: upload.error, retryAfterMs: upload.retryAfterMs }
+      : { status: 'failed', error: upload.error };
+  }
+  const attachments: string[] = Array.isArray(upload.data.urls) ? upload.data.urls : upload.data.url ? [upload.data.url] : [];
+
+  const send = await ghlRequest('/conversations/messages', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      type: 'Email',
+      contactId: item.contactId,
+      subject: options.subject || propertyMatchEmailSubject(options.language),
+      html: buildPropertyMatchEmailHtml({
+        contactName: item.contactName,
+        properties,
+        customMessage: options.customMessage,
+        agentName,
+        agentPhone,
+        agentEmail,
+        language: options.language,
+      }),
+      attachments,
+    }),
+  });
+  if (!send.ok) {
+    return send.retryable
+      ? { status: 'retry', error: send.error, retryAfterMs: send.retryAfterMs }
+      : { status: 'failed', error: send.error };
+  }
+
+  return { status: 'sent', messageId: send.data.messageId };
+}
+
+/**
+ * Item fields after a send attempt
+ */
+function outcomeFields(item: StoredItem, outcome: SendOutcome, now: Date): Partial<StoredItem> {
+  const attempts = item.attempts + 1;
+
+  if (outcome.status === 'sent') {
+    return { status: 'sent', attempts, messageId: outcome.messageId, sentAt: now.toISOString(), error: undefined };
+  }
+  if (outcome.status !== 'retry') {
+    return { status: outcome.status, attempts, error: outcome.error };
+  }
+  if (attempts >= MAX_ATTEMPTS) {
+    return { status: 'failed', attempts, error: `${outcome.error} (gave up after ${attempts} attempts)` };
+  }
+
+  const backoff = Math.max(outcome.retryAfterMs || 0, BASE_BACKOFF_MS * 2 ** (attempts - 1));
+  return {
+    status: 'queued',
+    attempts,
+    error: outcome.error,
+    nextAttemptAt: new Date(now.getTime() + backoff).toISOString(),
+  };
+}
+
+function itemRecordFields(item: StoredItem): Record<string, unknown> {
+  return {
+    'Status': item.status,
+    'Attempts': item.attempts,
+    'Next Attempt At': item.nextAttemptAt || null,
+    'Error': item.error || null,
+    'Message ID': item.messageId || null,
+    'Sent At': item.sentAt || null,
+  };
+}
+
+/**
+ * Take the job's processing lock; returns the locked job record, or null if
+ * the job is finished or another processor holds it
+ */
+async function acquireLock(jobId: string, lockedUntil: Date): Promise<AirtableRecord | null> {
+  const record = await getRecord(SEND_JOBS_TABLE, jobId);
+  if (!record) return null;
+
+  const heldUntil = record.fields['Locked Until'] ? new Date(String(record.fields['Locked Until'])) : null;
+  if (!ACTIVE_STATUSES.includes(toJob(record).status) || (heldUntil && heldUntil > new Date())) return null;
+
+  const token = randomUUID();
+  await writeRecords(SEND_JOBS_TABLE, 'PATCH', [{
+    id: jobId,
+    fields: { 'Status': 'running', 'Lock Token': token, 'Locked Until': lockedUntil.toISOString() },
+  }]);
+
+  // Two processors can both see the lock free; the last write wins
+  const locked = await getRecord(SEND_JOBS_TABLE, jobId);
+  return locked?.fields['Lock Token'] === token ? locked : null;
+}
+
+async function isCancelled(jobId: string): Promise<boolean> {
+  const record = await getRecord(SEND_JOBS_TABLE, jobId);
+  return !record || record.fields['Status'] === 'cancelled';
+}
+
+/**
+ * Work one job until the deadline; returns the number of send attempts
+ */
+async function processJob(jobId: string, deadline: number): Promise<number> {
+  const record = await acquireLock(jobId, new Date(deadline + LOCK_GRACE_MS));
+  if (!record) return 0;
+
+  // Sends are audited as the person who queued the job
+  const job = toJob(record);
+  const actor: AuditActor = {
+    email: job.createdBy || 'system',
+    name: String(record.fields['Created By Name'] || job.createdBy || 'System'),
+    role: String(record.fields['Created By Role'] || 'system'),
+  };
+  const items = await listJobItems(jobId);
+
+  // With the lock held nobody else is mid-send, so these were cut off
+  const interrupted = items.filter((item) => item.status === 'sending');
+  for (const item of interrupted) {
+    Object.assign(item, { status: 'failed', attempts: item.attempts + 1, error: INTERRUPTED_ERROR });
+  }
+  await writeRecords(
+    SEND_JOB_ITEMS_TABLE,
+    'PATCH',
+    interrupted.map((item) => ({ id: item.id, fields: itemRecordFields(item) }))
+  );
+
+  let attempted = 0;
+  let cancelled = false;
+
+  try {
+    for (const item of items) {
+      if (Date.now() >= deadline) break;
+      if (item.status !== 'queued') continue;
+      if (item.nextAttemptAt && new Date(item.nextAttemptAt).getTime() > Date.now()) continue;
+
+      if (attempted > 0) await delay(SEND_INTERVAL_MS);
+      if (await isCancelled(jobId)) {
+        cancelled = true;
+        break;
+      }
+
+      await writeRecords(SEND_JOB_ITEMS_TABLE, 'PATCH', [{ id: item.id, fields: { 'Status': 'sending' } }]);
+
+      let outcome: SendOutcome;
+      try {
+        outcome = await sendItem(item, job.options);
+      } catch (error) {
+        outcome = { status: 'retry', error: error instanceof Error ? error.message : String(error) };
+      }
+      attempted++;
+
+      Object.assign(item, outcomeFields(item, outcome, new Date()));
+      await writeRecords(SEND_JOB_ITEMS_TABLE, 'PATCH', [{ id: item.id, fields: itemRecordFields(item) }]);
+
+      if (outcome.status === 'sent') {
+        await recordAudit(null, {
+          action: MESSAGE_SENT_ACTION,
+          source: 'ghl',
+          targetType: 'contact',
+          targetId: item.contactId,
+          targetLabel: item.contactName,
+          details: `Email sent: ${job.options.subject || propertyMatchEmailSubject(job.options.language)} (bulk send "${job.name}")`,
+          after: { channel: 'email', messageId: item.messageId, jobId },
+          actor,
+        });
+      }
+    }
+  } finally {
+    const counts = countItems(items);
+    const done = !cancelled && counts.queued === 0;
+    const fields: Record<string, unknown> = {
+      'Sent': counts.sent,
+      'Failed': counts.failed,
+      'Skipped': counts.skipped,
+      'Lock Token': null,
+      'Locked Until': null,
+    };
+    if (done) {
+      fields['Status'] = 'completed';
+      fields['Completed At'] = new Date().toISOString();
+    }
+    // A cancel during the slice already wrote its own status and counts
+    if (!cancelled) {
+      await writeRecords(SEND_JOBS_TABLE, 'PATCH', [{ id: jobId, fields }]);
+    }
+  }
+
+  return attempted;
+}
+
+/**
+ * Work queued and running jobs (oldest first) until the time budget runs out
+ */
+export async function processSendJobs(
+  budgetMs: number,
+  jobId?: string
+): Promise<{ jobs: string[]; attempted: number }> {
+  const deadline = Date.now() + budgetMs;
+  const jobIds = jobId ? [jobId] : (await listSendJobs(true, 10)).reverse().map((job) => job.id);
+
+  let attempted = 0;
+  const worked: string[] = [];
+  for (const id of jobIds) {
+    if (Date.now() >= deadline) break;
+    try {
+      const count = await processJob(id, deadline);
+      if (count > 0) worked.push(id);
+      attempted += count;
+    } catch (error) {
+      // The lock expires on its own; the next run picks the job up again
+      console.error(`[SendQueue] Job ${id} failed:`, error);
+    }
+  }
+
+  return { jobs: worked, attempted };
+}
@@ -0,0 +1,77 @@
+/**
+ * Routing Providers
+ *
+ * Drive-time backends behind one interface so lib/routing/travelTime.ts can
+ * swap them with ROUTING_PROVIDER. The estimate provider is a local stand-in
+ * (no network, no key); Mapbox uses the Matrix API.
+ */
+
+import { calculateDistance } from '../matching/distanceCalculator';
+import { estimateCommute } from '../../src/lib/proximityCalculator';
+
+export interface RoutePoint {
+  lat: number;
+  lng: number;
+}
+
+export interface RoutingProvider {
+  name: string;
+  // Most sources + destinations accepted in one matrix request
+  maxPointsPerRequest: number;
+  isConfigured(): boolean;
+  // Minutes from each source to each destination ([source][destination]), null when unroutable
+  travelMinutes(sources: RoutePoint[], destinations: RoutePoint[]): Promise<(number | null)[][]>;
+}
+
+const MAPBOX_MATRIX_URL = 'https://api.mapbox.com/directions-matrix/v1/mapbox/driving';
+
+/**
+ * Drive minutes estimated from straight-line distance (see estimateCommute)
+ */
+export function estimateTravelMinutes(from: RoutePoint, to: RoutePoint): number {
+  return estimateCommute(calculateDistance(from.lat, from.lng, to.lat, to.lng));
+}
+
+export const estimateRoutingProvider: RoutingProvider = {
+  name: 'estimate',
+  maxPointsPerRequest: Infinity,
+  isConfigured: () => true,
+  async travelMinutes(sources, destinations) {
+    return sources.map((source) => destinations.map((destination) => estimateTravelMinutes(source, destination)));
+  },
+};
+
+export const mapboxRoutingProvider: RoutingProvider = {
+  name: 'mapbox',
+  maxPointsPerRequest: 25,
+  isConfigured: () => !!process.env.MAPBOX_ACCESS_TOKEN,
+  async travelMinutes(sources, destinations) {
+    const coordinates = [...sources, ...destinations].map((point) => `${point.lng},${point.lat}`).join(';');
+    const params = new URLSearchParams({
+      sources: sources.map((_, i) => i).join(';'),
+      destinations: destinations.map((_, i) => sources.length + i).join(';'),
+      annotations: 'duration',
+      access_token: process.env.MAPBOX_ACCESS_TOKEN || '',
+    });
+
+    const response = await fetch(`${MAPBOX_MATRIX_URL}/${coordinates}?${params}`);
+    if (!response.ok) {
+      throw new Error(`Mapbox Matrix API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    if (data.code !== 'Ok' || !Array.isArray(data.durations)) {
+      throw new Error(`Mapbox Matrix API returned ${data.code || 'no durations'}`);
+    }
+
+    // Durations come back in seconds
+    return (data.durations as (number | null)[][]).map((row) =>
+      row.map((seconds) => (typeof seconds === 'number' ? Math.round(seconds / 60) : null))
+    );
+  },
+};
+
+export const ROUTING_PROVIDERS: Record<string, RoutingProvider> = {
+  estimate: estimateRoutingProvider,
+  mapbox: mapboxRoutingProvider,
+};
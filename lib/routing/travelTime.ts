@@ -0,0 +1,109 @@
+/**
+ * Travel Times
+ *
+ * Drive-time lookups for scoring. ROUTING_PROVIDER picks the backend
+ * (default "estimate", the local stand-in); a provider that isn't configured
+ * or fails falls back to the estimate, so callers always get a number for
+ * every pair. Results are memoized per instance by rounded coordinates.
+ */
+
+import {
+  ROUTING_PROVIDERS,
+  estimateRoutingProvider,
+  estimateTravelMinutes,
+  type RoutePoint,
+  type RoutingProvider,
+} from './providers';
+
+export type { RoutePoint, RoutingProvider } from './providers';
+
+const DEFAULT_PROVIDER = 'estimate';
+
+const travelCache = new Map<string, number>();
+
+// ~100 m; closer points share a cached travel time
+function pointKey(point: RoutePoint): string {
+  return `${point.lat.toFixed(3)},${point.lng.toFixed(3)}`;
+}
+
+function pairKey(source: RoutePoint, destination: RoutePoint): string {
+  return `${pointKey(source)}>${pointKey(destination)}`;
+}
+
+/**
+ * The provider named in ROUTING_PROVIDER, or the estimate when it's unknown
+ * or missing its key
+ */
+export function getRoutingProvider(): RoutingProvider {
+  const name = (process.env.ROUTING_PROVIDER || DEFAULT_PROVIDER).trim().toLowerCase();
+  const provider = ROUTING_PROVIDERS[name];
+
+  if (!provider) {
+    console.warn(`[Routing] Unknown ROUTING_PROVIDER "${name}", using estimates`);
+    return estimateRoutingProvider;
+  }
+  if (!provider.isConfigured()) {
+    console.warn(`[Routing] ${provider.name} is not configured, using estimates`);
+    return estimateRoutingProvider;
+  }
+  return provider;
+}
+
+/**
+ * Drive minutes from every source to every destination ([source][destination])
+ * Requests are split to the provider's matrix size limit.
+ */
+export async function getTravelMatrix(sources: RoutePoint[], destinations: RoutePoint[]): Promise<number[][]> {
+  const provider = getRoutingProvider();
+  const matrix: number[][] = sources.map(() => new Array(destinations.length));
+
+  // Only ask the provider for pairs it hasn't answered yet
+  const missingSources = new Set<number>();
+  const missingDestinations = new Set<number>();
+  sources.forEach((source, s) => {
+    destinations.forEach((destination, d) => {
+      const cached = travelCache.get(pairKey(source, destination));
+      if (cached !== undefined) {
+        matrix[s][d] = cached;
+      } else {
+        missingSources.add(s);
+        missingDestinations.add(d);
+      }
+    });
+  });
+
+  const sourceIndexes = [...missingSources];
+  const destinationIndexes = [...missingDestinations];
+  const destinationChunk = Math.min(destinationIndexes.length, Math.max(1, Math.floor(provider.maxPointsPerRequest / 2)));
+  const sourceChunk = Math.max(1, provider.maxPointsPerRequest - destinationChunk);
+
+  for (let d = 0; d < destinationIndexes.length; d += destinationChunk) {
+    const chunkDestinations = destinationIndexes.slice(d, d + destinationChunk);
+
+    for (let s = 0; s < sourceIndexes.length; s += sourceChunk) {
+      const chunkSources = sourceIndexes.slice(s, s + sourceChunk);
+      let minutes: (number | null)[][] | null = null;
+
+      try {
+        minutes = await provider.travelMinutes(
+          chunkSources.map((i) => sources[i]),
+          chunkDestinations.map((i) => destinations[i])
+        );
+      } catch (error) {
+        console.error(`[Routing] ${provider.name} failed, using estimates:`, error);
+      }
+
+      chunkSources.forEach((sourceIndex, row) => {
+        chunkDestinations.forEach((destinationIndex, column) => {
+          const source = sources[sourceIndex];
+          const destination = destinations[destinationIndex];
+          const value = minutes?.[row]?.[column] ?? estimateTravelMinutes(source, destination);
+          travelCache.set(pairKey(source, destination), value);
+          matrix[sourceIndex][destinationIndex] = value;
+        });
+      });
+    }
+  }
+
+  return matrix;
+}
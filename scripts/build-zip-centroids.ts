@@ -0,0 +1,98 @@
+/**
+ * Regenerate the bundled US ZIP centroid dataset (src/data/zipCentroids.ts)
+ * Run with: npm run geo:zip-centroids -- <Gazetteer ZCTA file | us-zips object.js>
+ *
+ * Input is the Census Bureau ZCTA Gazetteer file (public domain), e.g.
+ * 2023_Gaz_zcta_national.txt unzipped from
+ * https://www.census.gov/geographies/reference-files/time-series/geo/gazetteer-files.html
+ * It is tab separated with GEOID, INTPTLAT and INTPTLONG columns; ZCTAs are
+ * the Census approximation of ZIP codes, close enough for ZIP-level distance.
+ *
+ * The same data is published on npm as `us-zips` (MIT, from the 2021
+ * Gazetteer); its object.js can be passed instead:
+ *   npm pack us-zips && tar xzf us-zips-*.tgz
+ *   npm run geo:zip-centroids -- package/object.js
+ *
+ * Output is delta encoded to keep the browser bundle small: one line per ZIP
+ * in ZIP order, each "zip,lat,lng" as the difference from the previous line,
+ * with coordinates in thousandths of a degree (about 100 m).
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { createRequire } from 'module';
+
+const OUTPUT = path.resolve(process.cwd(), 'src/data/zipCentroids.ts');
+
+interface ZipRow {
+  zip: string;
+  lat: number;
+  lng: number;
+}
+
+function readGazetteer(input: string): ZipRow[] {
+  const [header, ...lines] = fs.readFileSync(input, 'utf8').split(/\r?\n/).filter((line) => line.trim());
+  const columns = header.split('\t').map((column) => column.trim());
+  const zipColumn = columns.indexOf('GEOID');
+  const latColumn = columns.indexOf('INTPTLAT');
+  const lngColumn = columns.indexOf('INTPTLONG');
+  if (zipColumn < 0 || latColumn < 0 || lngColumn < 0) {
+    throw new Error(`Unexpected columns: ${columns.join(', ')}`);
+  }
+
+  return lines.map((line) => {
+    const values = line.split('\t').map((value) => value.trim());
+    return { zip: values[zipColumn], lat: Number(values[latColumn]), lng: Number(values[lngColumn]) };
+  });
+}
+
+// us-zips object.js: { '54301': { latitude: 44.480778, longitude: -88.016063 }, ... }
+function readUsZips(input: string): ZipRow[] {
+  const data: Record<string, { latitude: number; longitude: number }> = createRequire(import.meta.url)(path.resolve(input));
+  return Object.entries(data).map(([zip, { latitude, longitude }]) => ({ zip, lat: latitude, lng: longitude }));
+}
+
+function run() {
+  const input = process.argv[2];
+  if (!input) {
+    throw new Error('Pass the path to the Gazetteer ZCTA file or us-zips object.js');
+  }
+
+  const rows = (input.endsWith('.js') ? readUsZips(input) : readGazetteer(input))
+    .filter((row) => /^\d{5}$/.test(row.zip) && Number.isFinite(row.lat) && Number.isFinite(row.lng))
+    .sort((a, b) => a.zip.localeCompare(b.zip));
+
+  const lines: string[] = [];
+  let previous = { zip: 0, lat: 0, lng: 0 };
+  for (const row of rows) {
+    const current = { zip: Number(row.zip), lat: Math.round(row.lat * 1000), lng: Math.round(row.lng * 1000) };
+    lines.push(`${current.zip - previous.zip},${current.lat - previous.lat},${current.lng - previous.lng}`);
+    previous = current;
+  }
+
+  const source = input.endsWith('.js')
+    ? 'Census Bureau 2021 ZCTA Gazetteer (us-zips npm package)'
+    : `Census Bureau ZCTA Gazetteer (${path.basename(input)})`;
+  const output = `/**
+ * US ZIP code centroids, delta encoded (see scripts/build-zip-centroids.ts)
+ * Generated by scripts/build-zip-centroids.ts - do not edit by hand.
+ * Read through src/lib/zipCentroids.ts.
+ */
+
+export const ZIP_CENTROIDS_SOURCE = ${JSON.stringify(source)};
+
+export const ZIP_CENTROIDS = \`
+${lines.join('\n')}
+\`;
+`;
+
+  fs.writeFileSync(OUTPUT, output);
+  console.log(`\n📍 Wrote ${rows.length} ZIP centroids to ${path.relative(process.cwd(), OUTPUT)}\n`);
+}
+
+try {
+  run();
+} catch (error) {
+  console.error('❌ ZIP centroid build failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+}
@@ -45,6 +45,7 @@ async function handleApiRequest(req: express.Request, res: express.Response, api
 // API Routes
 app.all('/api/matching', (req, res) => handleApiRequest(req, res, 'matching'));
 app.all('/api/ghl', (req, res) => handleApiRequest(req, res, 'ghl'));
+app.all('/api/auth', (req, res) => handleApiRequest(req, res, 'auth'));
 app.all('/api/airtable', (req, res) => handleApiRequest(req, res, 'airtable'));
 app.all('/api/cache', (req, res) => handleApiRequest(req, res, 'cache'));
 app.all('/api/proxy-image', (req, res) => handleApiRequest(req, res, 'proxy-image'));
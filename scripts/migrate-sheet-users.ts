@@ -0,0 +1,32 @@
+/**
+ * Import Google Sheet users into the Airtable Users table with hashed passwords
+ * Run with: npm run auth:migrate-users -- [--dry-run]
+ *
+ * Users that already exist in Airtable (by email) are skipped. Once done,
+ * leave AUTH_USER_STORE unset (airtable) so every login uses the hashed store.
+ */
+
+import dotenv from 'dotenv';
+import path from 'path';
+import { createAirtableUserStore, createSheetsUserStore } from '../lib/auth/userStore';
+import { migrateUsers } from '../lib/auth/passwords';
+
+dotenv.config({ path: path.resolve(process.cwd(), '.env') });
+
+async function run() {
+  const dryRun = process.argv.includes('--dry-run');
+
+  console.log(`\n🔐 Migrating Sheet users to Airtable${dryRun ? ' (dry run)' : ''}...\n`);
+
+  const result = await migrateUsers(createSheetsUserStore(), createAirtableUserStore(), { dryRun });
+
+  result.imported.forEach((email) => console.log(`   ✅ ${email}`));
+  result.skipped.forEach(({ email, reason }) => console.log(`   ⏭️  ${email} - ${reason}`));
+
+  console.log(`\n${dryRun ? 'Would import' : 'Imported'} ${result.imported.length}, skipped ${result.skipped.length}\n`);
+}
+
+run().catch((error) => {
+  console.error('❌ Migration failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -13,6 +13,9 @@ import {
   CheckCircle,
   MessageSquare,
   FileText,
+  FileSignature,
+  Send,
+  Smartphone,
   Sparkles,
   Loader2,
 } from 'lucide-react';
@@ -33,30 +36,39 @@ type ActivityType = MatchActivity['type'];
 const ACTIVITY_ICONS: Record<ActivityType, React.ElementType> = {
   'stage-change': ArrowRight,
   'email-sent': Mail,
+  'sms-sent': Smartphone,
+  'sms-email-sent': Send,
   'showing-scheduled': Calendar,
   'showing-completed': CheckCircle,
   'note-added': MessageSquare,
   'offer-submitted': FileText,
+  'document-sent': FileSignature,
   'match-created': Sparkles,
 };
 
 const ACTIVITY_COLORS: Record<ActivityType, string> = {
   'stage-change': 'bg-blue-100 text-blue-600',
   'email-sent': 'bg-purple-100 text-purple-600',
+  'sms-sent': 'bg-teal-100 text-teal-600',
+  'sms-email-sent': 'bg-violet-100 text-violet-600',
   'showing-scheduled': 'bg-amber-100 text-amber-600',
   'showing-completed': 'bg-emerald-100 text-emerald-600',
   'note-added': 'bg-gray-100 text-gray-600',
   'offer-submitted': 'bg-orange-100 text-orange-600',
+  'document-sent': 'bg-rose-100 text-rose-600',
   'match-created': 'bg-indigo-100 text-indigo-600',
 };
 
 const ACTIVITY_LABELS: Record<ActivityType, string> = {
   'stage-change': 'Stage Updated',
   'email-sent': 'Email Sent',
+  'sms-sent': 'SMS Sent',
+  'sms-email-sent': 'SMS & Email Sent',
   'showing-scheduled': 'Showing Scheduled',
   'showing-completed': 'Showing Completed',
   'note-added': 'Note Added',
   'offer-submitted': 'Offer Submitted',
+  'document-sent': 'Document Sent',
   'match-created': 'Match Created',
 };
 
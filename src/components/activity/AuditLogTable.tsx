@@ -0,0 +1,263 @@
+import { Fragment, useEffect, useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, Loader2, ShieldCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useAuditLog, type AuditEntry, type AuditSource } from '@/services/auditApi';
+import { format } from 'date-fns';
+
+const sourceOptions: { value: AuditSource | 'all'; label: string }[] = [
+  { value: 'all', label: 'All Modules' },
+  { value: 'matching', label: 'Matching' },
+  { value: 'airtable', label: 'Deals & Records' },
+  { value: 'calculator', label: 'Calculator' },
+  { value: 'ghl', label: 'GHL' },
+  { value: 'cache', label: 'Cache' },
+];
+
+const auditActionLabels: Record<string, string> = {
+  'match.stage-changed': 'Stage Changed',
+  'record.updated': 'Record Updated',
+  'matching.run': 'Matching Run',
+  'matching.cleared': 'Matches Cleared',
+  'matching.profiles-updated': 'Scoring Profiles Updated',
+  'buyer.exclusions-updated': 'Exclusions Updated',
+  'buyer.anchors-updated': 'Anchor Points Updated',
+  'calculation.created': 'Calculation Created',
+  'calculation.updated': 'Calculation Updated',
+  'calculation.deleted': 'Calculation Deleted',
+  'calculator.defaults-updated': 'Calculator Defaults Updated',
+  'contact.created': 'Contact Created',
+  'contact.updated': 'Contact Updated',
+  'contact.deleted': 'Contact Deleted',
+  'opportunity.created': 'Opportunity Created',
+  'opportunity.updated': 'Opportunity Updated',
+  'opportunity.stage-changed': 'Opportunity Stage Changed',
+  'opportunity.deleted': 'Opportunity Deleted',
+  'document.created': 'Document Created',
+  'document.sent': 'Document Sent',
+  'document.template-sent': 'Template Sent',
+  'cache.synced': 'Cache Synced',
+  'saved-search.saved': 'Search Saved',
+  'saved-search.alerted': 'Listing Alert Sent',
+  'saved-search.updated': 'Saved Search Updated',
+  'showing.scheduled': 'Showing Scheduled',
+  'showing.rescheduled': 'Showing Rescheduled',
+  'showing.updated': 'Showing Updated',
+  'showing.cancelled': 'Showing Cancelled',
+  'showing.reminders-sent': 'Showing Reminders Sent',
+  'automation.rules-updated': 'Automation Rules Updated',
+  'automation.ran': 'Automation Ran',
+  'message.sent': 'Message Sent',
+  'message.blocked': 'Message Blocked',
+  'message.bulk-queued': 'Bulk Send Queued',
+  'message.bulk-cancelled': 'Bulk Send Cancelled',
+  'message.reply-received': 'Buyer Replied',
+};
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return '';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value, null, 2);
+}
+
+function ChangeDetails({ entry }: { entry: AuditEntry }) {
+  const hasChanges = entry.before !== undefined || entry.after !== undefined;
+
+  return (
+    <div className="space-y-3 text-sm">
+      {entry.details && <p className="text-muted-foreground">{entry.details}</p>}
+      {entry.targetId && (
+        <p className="text-xs text-muted-foreground">
+          {entry.targetType} <span className="font-mono">{entry.targetId}</span>
+        </p>
+      )}
+      {hasChanges && (
+        <div className="grid gap-3 md:grid-cols-2">
+          <div>
+            <p className="text-xs font-medium text-muted-foreground mb-1">Before</p>
+            <pre className="max-h-64 overflow-auto rounded-md bg-muted p-2 text-xs whitespace-pre-wrap">
+              {formatValue(entry.before) || '—'}
+            </pre>
+          </div>
+          <div>
+            <p className="text-xs font-medium text-muted-foreground mb-1">After</p>
+            <pre className="max-h-64 overflow-auto rounded-md bg-muted p-2 text-xs whitespace-pre-wrap">
+              {formatValue(entry.after) || '—'}
+            </pre>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface AuditLogTableProps {
+  search: string;
+}
+
+/**
+ * Append-only audit trail: who changed what, with before/after values
+ */
+export function AuditLogTable({ search }: AuditLogTableProps) {
+  const [source, setSource] = useState<AuditSource | 'all'>('all');
+  const [action, setAction] = useState('all');
+  const [actorInput, setActorInput] = useState('');
+  const [debounced, setDebounced] = useState({ search, actor: '' });
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  // Search is applied server-side, so wait for typing to settle
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced({ search: search.trim(), actor: actorInput.trim() }), 300);
+    return () => clearTimeout(timer);
+  }, [search, actorInput]);
+
+  const filters = useMemo(() => ({
+    source: source === 'all' ? undefined : source,
+    action: action === 'all' ? undefined : action,
+    actor: debounced.actor || undefined,
+    search: debounced.search || undefined,
+  }), [source, action, debounced]);
+
+  const { data, isLoading, error, fetchNextPage, hasNextPage, isFetchingNextPage } = useAuditLog(filters);
+  const entries = data?.pages.flatMap((page) => page.entries) ?? [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row gap-4">
+        <Input
+          placeholder="Filter by user email..."
+          value={actorInput}
+          onChange={(e) => setActorInput(e.target.value)}
+          className="sm:max-w-[240px]"
+        />
+        <Select value={source} onValueChange={(v) => setSource(v as AuditSource | 'all')}>
+          <SelectTrigger className="w-full sm:w-[180px]">
+            <SelectValue placeholder="Module" />
+          </SelectTrigger>
+          <SelectContent>
+            {sourceOptions.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={action} onValueChange={setAction}>
+          <SelectTrigger className="w-full sm:w-[220px]">
+            <SelectValue placeholder="Action" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Actions</SelectItem>
+            {Object.entries(auditActionLabels).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : error ? (
+        <div className="text-center py-12 text-destructive">
+          {error instanceof Error ? error.message : 'Failed to load audit log'}
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">
+          <ShieldCheck className="h-8 w-8 mx-auto mb-2 opacity-50" />
+          No audit entries found matching your filters.
+        </div>
+      ) : (
+        <div className="border border-border rounded-lg overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[40px]"></TableHead>
+                <TableHead className="w-[180px]">Timestamp</TableHead>
+                <TableHead className="w-[180px]">User</TableHead>
+                <TableHead className="w-[200px]">Action</TableHead>
+                <TableHead>Target</TableHead>
+                <TableHead className="w-[110px]">Module</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map((entry) => {
+                const isExpanded = expandedId === entry.id;
+                return (
+                  <Fragment key={entry.id}>
+                    <TableRow
+                      className="cursor-pointer hover:bg-muted/50"
+                      onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                    >
+                      <TableCell>
+                        {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {format(new Date(entry.timestamp), 'MMM d, yyyy')}
+                        <br />
+                        <span className="text-muted-foreground">
+                          {format(new Date(entry.timestamp), 'h:mm:ss a')}
+                        </span>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <p className="truncate">{entry.actor.name || entry.actor.email}</p>
+                        {entry.actor.name && (
+                          <p className="text-xs text-muted-foreground truncate">{entry.actor.email}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="secondary">{auditActionLabels[entry.action] || entry.action}</Badge>
+                      </TableCell>
+                      <TableCell className="max-w-[300px]">
+                        <p className="truncate">{entry.targetLabel || entry.targetId || entry.targetType}</p>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className="capitalize">{entry.source}</Badge>
+                      </TableCell>
+                    </TableRow>
+                    {isExpanded && (
+                      <TableRow className="bg-muted/30 hover:bg-muted/30">
+                        <TableCell></TableCell>
+                        <TableCell colSpan={5}>
+                          <ChangeDetails entry={entry} />
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {hasNextPage && (
+        <div className="flex justify-center">
+          <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+            {isFetchingNextPage && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Load more
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
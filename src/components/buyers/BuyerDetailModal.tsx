@@ -518,6 +518,7 @@ export function BuyerDetailModal({ buyer, open, onOpenChange, onUpdateChecklist,
         open={calculatorOpen}
         onOpenChange={setCalculatorOpen}
         buyerContactId={(buyer as any).contactId || buyer.id}
+        buyerName={buyer.name}
       />
     </>
   );
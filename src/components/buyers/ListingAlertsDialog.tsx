@@ -0,0 +1,195 @@
+import { Bell, Loader2, Mail, MessageSquare, Send } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  useSavedSearches,
+  useSearchAlerts,
+  useSendSearchAlerts,
+  useUpdateSavedSearch,
+  type AlertChannel,
+  type SearchAlert,
+} from '@/services/savedSearchApi';
+import { toast } from 'sonner';
+import { formatDistanceToNow } from 'date-fns';
+
+interface ListingAlertsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function ChannelBadge({ channel }: { channel: AlertChannel }) {
+  return (
+    <Badge variant="outline" className="gap-1 text-xs">
+      {channel !== 'sms' && <Mail className="h-3 w-3" />}
+      {channel !== 'email' && <MessageSquare className="h-3 w-3" />}
+      {channel === 'both' ? 'Email + SMS' : channel === 'sms' ? 'SMS' : 'Email'}
+    </Badge>
+  );
+}
+
+/**
+ * Staff view of /listings saved searches: review (and send early) the alerts
+ * the daily run will send, and pause/resume individual searches
+ */
+export function ListingAlertsDialog({ open, onOpenChange }: ListingAlertsDialogProps) {
+  const { data: alertData, isLoading: alertsLoading } = useSearchAlerts(open);
+  const { data: searches = [], isLoading: searchesLoading } = useSavedSearches(open);
+  const sendAlerts = useSendSearchAlerts();
+  const updateSearch = useUpdateSavedSearch();
+
+  const alerts = alertData?.alerts || [];
+
+  const handleSend = async (toSend: SearchAlert[]) => {
+    try {
+      const result = await sendAlerts.mutateAsync(toSend);
+      const skipped = result.skipped > 0 ? `, ${result.skipped} blocked by consent` : '';
+      if (result.failed === 0) {
+        toast.success(`Sent ${result.sent} alert${result.sent === 1 ? '' : 's'}${skipped}`);
+      } else {
+        toast.error(`Sent ${result.sent}${skipped}, failed ${result.failed}: ${result.errors[0]?.error}`);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to send alerts');
+    }
+  };
+
+  const handleToggle = async (searchId: string, active: boolean) => {
+    try {
+      await updateSearch.mutateAsync({ searchId, active });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update search');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Bell className="h-5 w-5" />
+            Listing Alerts
+          </DialogTitle>
+          <DialogDescription>
+            Searches saved by visitors on the public listings page. New matches are sent automatically each day.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="pending">
+          <TabsList>
+            <TabsTrigger value="pending" className="gap-2">
+              New Matches
+              {alerts.length > 0 && <Badge variant="secondary">{alerts.length}</Badge>}
+            </TabsTrigger>
+            <TabsTrigger value="searches">All Searches ({searches.length})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="pending" className="space-y-3">
+            {alertsLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : alerts.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-6 text-center">
+                No new inventory matches the {alertData?.activeSearches ?? 0} active saved searches.
+              </p>
+            ) : (
+              <>
+                <ScrollArea className="max-h-[50vh] pr-3">
+                  <div className="space-y-2">
+                    {alerts.map((alert) => (
+                      <div key={alert.search.id} className="flex items-start gap-3 p-3 rounded-lg border border-border">
+                        <div className="flex-1 min-w-0 space-y-1">
+                          <div className="flex items-center gap-2">
+                            <p className="font-medium truncate">
+                              {alert.search.firstName} {alert.search.lastName}
+                            </p>
+                            <ChannelBadge channel={alert.search.channel} />
+                          </div>
+                          <p className="text-xs text-muted-foreground">{alert.search.summary}</p>
+                          <p className="text-sm">
+                            {alert.properties.length} new: {alert.properties.slice(0, 3).map((p) => p.address).join(', ')}
+                            {alert.properties.length > 3 && ` +${alert.properties.length - 3} more`}
+                          </p>
+                        </div>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleSend([alert])}
+                          disabled={sendAlerts.isPending}
+                        >
+                          <Send className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                </ScrollArea>
+                <div className="flex justify-end">
+                  <Button onClick={() => handleSend(alerts)} disabled={sendAlerts.isPending}>
+                    {sendAlerts.isPending ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Send className="h-4 w-4 mr-2" />
+                    )}
+                    Send All ({alerts.length})
+                  </Button>
+                </div>
+              </>
+            )}
+          </TabsContent>
+
+          <TabsContent value="searches">
+            {searchesLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : searches.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-6 text-center">No saved searches yet.</p>
+            ) : (
+              <ScrollArea className="max-h-[55vh] pr-3">
+                <div className="space-y-2">
+                  {searches.map((search) => (
+                    <div key={search.id} className="flex items-center gap-3 p-3 rounded-lg border border-border">
+                      <div className="flex-1 min-w-0 space-y-1">
+                        <div className="flex items-center gap-2">
+                          <p className="font-medium truncate">{search.firstName} {search.lastName}</p>
+                          <ChannelBadge channel={search.channel} />
+                          {!search.emailConfirmedAt && !search.smsConfirmedAt && (
+                            <Badge variant="secondary" className="text-xs">Unconfirmed</Badge>
+                          )}
+                        </div>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {[search.email, search.phone].filter(Boolean).join(' • ')}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {search.summary}
+                          {search.favorites.length > 0 && ` • ${search.favorites.length} favorites`}
+                          {search.lastAlertedAt &&
+                            ` • alerted ${formatDistanceToNow(new Date(search.lastAlertedAt), { addSuffix: true })}`}
+                        </p>
+                      </div>
+                      <Switch
+                        checked={search.active}
+                        onCheckedChange={(checked) => handleToggle(search.id, checked)}
+                        disabled={updateSearch.isPending}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState, useRef } from 'react';
-import { FileText, Send, Printer, Check, Bed, Bath, Maximize2 } from 'lucide-react';
+import { FileText, Send, Printer, Check, Bed, Bath, Maximize2, AlertCircle, Loader2 } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
@@ -13,6 +13,8 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { toast } from 'sonner';
+import { sendPropertyEmail, MessageBlockedError } from '@/services/emailService';
+import { useMessageConsent } from '@/services/ghlApi';
 import { demoProperties, mockProperties } from '@/data/mockData.backup';
 import type { Buyer, Property } from '@/types';
 
@@ -27,8 +29,13 @@ const allProperties = [...demoProperties, ...mockProperties];
 export function SendInventoryModal({ buyer, open, onOpenChange }: SendInventoryModalProps) {
   const [selectedProperties, setSelectedProperties] = useState<string[]>([]);
   const [showPreview, setShowPreview] = useState(false);
+  const [isSending, setIsSending] = useState(false);
   const pdfRef = useRef<HTMLDivElement>(null);
 
+  // Opt-outs and daily cap, checked again by the server when sending
+  const { data: consentData } = useMessageConsent(buyer.contactId, open && showPreview);
+  const emailConsent = consentData?.consent.email;
+
   // Filter properties that match buyer preferences
   const matchingProperties = allProperties.filter((property) => {
     if (property.beds < (buyer.preferences.minBeds || 0)) return false;
@@ -66,13 +73,38 @@ export function SendInventoryModal({ buyer, open, onOpenChange }: SendInventoryM
     setShowPreview(true);
   };
 
-  const handleSend = () => {
-    toast.success(`Property list sent to ${buyer.name}!`, {
-      description: `${selectedProperties.length} properties included`
-    });
-    onOpenChange(false);
-    setShowPreview(false);
-    setSelectedProperties([]);
+  const handleSend = async () => {
+    if (!buyer.contactId || !buyer.email) {
+      toast.error(`${buyer.name} has no email contact to send to`);
+      return;
+    }
+
+    setIsSending(true);
+    try {
+      await sendPropertyEmail({
+        contactId: buyer.contactId,
+        contactName: buyer.name,
+        contactEmail: buyer.email,
+        properties: selectedPropertyData,
+      });
+
+      toast.success(`Property list sent to ${buyer.name}!`, {
+        description: `${selectedProperties.length} properties included`
+      });
+      onOpenChange(false);
+      setShowPreview(false);
+      setSelectedProperties([]);
+    } catch (error) {
+      if (error instanceof MessageBlockedError) {
+        toast.warning(`Property list not sent to ${buyer.name}`, { description: error.block.message });
+      } else {
+        toast.error('Failed to send property list', {
+          description: error instanceof Error ? error.message : undefined,
+        });
+      }
+    } finally {
+      setIsSending(false);
+    }
   };
 
   const handlePrint = () => {
@@ -181,6 +213,13 @@ export function SendInventoryModal({ buyer, open, onOpenChange }: SendInventoryM
             </div>
           </ScrollArea>
 
+          {emailConsent && !emailConsent.allowed && (
+            <div className="mx-6 mt-4 flex items-start gap-2 p-2 rounded-lg bg-amber-50 border border-amber-200">
+              <AlertCircle className="h-4 w-4 text-amber-600 shrink-0 mt-0.5" />
+              <p className="text-xs text-amber-800">{emailConsent.message}</p>
+            </div>
+          )}
+
           {/* Action Buttons */}
           <div className="p-6 pt-4 border-t flex gap-3">
             <Button 
@@ -199,9 +238,14 @@ export function SendInventoryModal({ buyer, open, onOpenChange }: SendInventoryM
             </Button>
             <Button 
               onClick={handleSend}
+              disabled={isSending}
               className="flex-1 bg-purple-600 hover:bg-purple-700"
             >
-              <Send className="h-4 w-4 mr-2" />
+              {isSending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Send className="h-4 w-4 mr-2" />
+              )}
               Send to {buyer.name}
             </Button>
           </div>
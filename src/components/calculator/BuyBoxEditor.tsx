@@ -0,0 +1,185 @@
+/**
+ * BuyBoxEditor - Edit the checklist rules for each strategy's buy-box
+ * Used in Settings under Calculator Defaults
+ */
+
+import { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  CHECKLIST_COMPARATORS,
+  CHECKLIST_METRICS,
+  type BuyBox,
+  type BuyBoxes,
+  type ChecklistComparator,
+  type ChecklistMetric,
+  type ChecklistRule,
+  type DealStrategy,
+} from '@/types/calculator';
+
+interface BuyBoxEditorProps {
+  value: BuyBoxes;
+  onChange: (buyBoxes: BuyBoxes) => void;
+}
+
+const STRATEGIES: Array<{ strategy: DealStrategy; label: string }> = [
+  { strategy: 'hold', label: 'Hold' },
+  { strategy: 'wrap', label: 'Wrap' },
+  { strategy: 'flip', label: 'Flip' },
+];
+
+export function BuyBoxEditor({ value, onChange }: BuyBoxEditorProps) {
+  const [strategy, setStrategy] = useState<DealStrategy>('hold');
+
+  const updateBuyBox = (key: DealStrategy, changes: Partial<BuyBox>) => {
+    onChange({ ...value, [key]: { ...value[key], ...changes } });
+  };
+
+  const updateRule = (key: DealStrategy, ruleId: string, changes: Partial<ChecklistRule>) => {
+    updateBuyBox(key, {
+      rules: value[key].rules.map((rule) => (rule.id === ruleId ? { ...rule, ...changes } : rule)),
+    });
+  };
+
+  const addRule = (key: DealStrategy) => {
+    updateBuyBox(key, {
+      rules: [
+        ...value[key].rules,
+        { id: `${key}-${Date.now()}`, metric: 'monthlyCashflow', comparator: '>=', threshold: 0, weight: 1 },
+      ],
+    });
+  };
+
+  const removeRule = (key: DealStrategy, ruleId: string) => {
+    updateBuyBox(key, { rules: value[key].rules.filter((rule) => rule.id !== ruleId) });
+  };
+
+  return (
+    <Tabs value={strategy} onValueChange={(v) => setStrategy(v as DealStrategy)}>
+      <TabsList>
+        {STRATEGIES.map(({ strategy: key, label }) => (
+          <TabsTrigger key={key} value={key}>
+            {label}
+          </TabsTrigger>
+        ))}
+      </TabsList>
+
+      {STRATEGIES.map(({ strategy: key, label }) => (
+        <TabsContent key={key} value={key} className="space-y-4 mt-4">
+          {/* Rules */}
+          <div className="space-y-2">
+            <div className="grid grid-cols-[1fr,80px,120px,80px,40px] gap-2 text-xs text-muted-foreground">
+              <span>Metric</span>
+              <span>Compare</span>
+              <span>Threshold</span>
+              <span>Weight</span>
+              <span />
+            </div>
+            {value[key].rules.length === 0 && (
+              <p className="text-sm text-muted-foreground">No rules. {label} deals will always need review.</p>
+            )}
+            {value[key].rules.map((rule) => (
+              <div key={rule.id} className="grid grid-cols-[1fr,80px,120px,80px,40px] gap-2 items-center">
+                <Select
+                  value={rule.metric}
+                  onValueChange={(metric) => updateRule(key, rule.id, { metric: metric as ChecklistMetric })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(CHECKLIST_METRICS) as ChecklistMetric[]).map((metric) => (
+                      <SelectItem key={metric} value={metric}>
+                        {CHECKLIST_METRICS[metric].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={rule.comparator}
+                  onValueChange={(comparator) =>
+                    updateRule(key, rule.id, { comparator: comparator as ChecklistComparator })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(CHECKLIST_COMPARATORS) as ChecklistComparator[]).map((comparator) => (
+                      <SelectItem key={comparator} value={comparator}>
+                        {CHECKLIST_COMPARATORS[comparator]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  value={rule.threshold}
+                  onChange={(e) => updateRule(key, rule.id, { threshold: parseFloat(e.target.value) || 0 })}
+                  step={CHECKLIST_METRICS[rule.metric].format === 'currency' ? 100 : 0.5}
+                />
+                <Input
+                  type="number"
+                  value={rule.weight}
+                  onChange={(e) => updateRule(key, rule.id, { weight: Math.max(0, parseFloat(e.target.value) || 0) })}
+                  min={0}
+                  step={0.5}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => removeRule(key, rule.id)}
+                  aria-label="Remove rule"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button variant="outline" size="sm" onClick={() => addRule(key)}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Rule
+            </Button>
+          </div>
+
+          {/* Decision Cutoffs */}
+          <div className="grid grid-cols-2 gap-4 max-w-md">
+            <div>
+              <Label>DEAL at % of weight</Label>
+              <Input
+                type="number"
+                value={value[key].dealScore}
+                onChange={(e) => updateBuyBox(key, { dealScore: parseFloat(e.target.value) || 0 })}
+                className="mt-1"
+                min={0}
+                max={100}
+              />
+            </div>
+            <div>
+              <Label>NEEDS REVIEW at % of weight</Label>
+              <Input
+                type="number"
+                value={value[key].reviewScore}
+                onChange={(e) => updateBuyBox(key, { reviewScore: parseFloat(e.target.value) || 0 })}
+                className="mt-1"
+                min={0}
+                max={100}
+              />
+            </div>
+          </div>
+        </TabsContent>
+      ))}
+    </Tabs>
+  );
+}
+
+export default BuyBoxEditor;
@@ -13,6 +13,10 @@ import {
   X,
   BarChart3,
   Columns,
+  ChartLine,
+  Grid3x3,
+  Download,
+  Mail,
 } from 'lucide-react';
 import {
   Dialog,
@@ -28,16 +32,22 @@ import { Separator } from '@/components/ui/separator';
 import { Input } from '@/components/ui/input';
 import { toast } from 'sonner';
 
-import type {
-  CalculatorInputs,
-  CalculatorOutputs,
-  CalculatorScenario,
+import {
+  SENSITIVITY_VARIABLES,
+  type CalculatorInputs,
+  type CalculatorOutputs,
+  type CalculatorScenario,
+  type DealStrategy,
+  type SensitivityVariableId,
 } from '@/types/calculator';
 import {
   calculateAll,
   createDefaultInputs,
   cloneInputs,
+  normalizeInputs,
 } from '@/lib/calculatorEngine';
+import { generateCalculatorReportPDF } from '@/lib/calculatorReportPdf';
+import { downloadPDF } from '@/lib/pdfGenerator';
 import {
   useCalculatorDefaults,
   useCreateCalculation,
@@ -47,6 +57,8 @@ import {
 
 import { QuickStatsPanel } from './QuickStatsPanel';
 import { ScenarioComparison } from './ScenarioComparison';
+import { SensitivityAnalysis } from './SensitivityAnalysis';
+import { SendReportDialog } from './SendReportDialog';
 import {
   PropertyBasicsSection,
   IncomeSection,
@@ -59,8 +71,9 @@ import {
   WrapLoanSection,
   WrapSalesSection,
   FlipSection,
+  ProjectionSection,
 } from './InputSections';
-import { LoanCalcsPanel, DealChecklistPanel } from './OutputSections';
+import { LoanCalcsPanel, DealChecklistPanel, ProFormaPanel } from './OutputSections';
 
 interface DealCalculatorModalProps {
   open: boolean;
@@ -73,8 +86,10 @@ interface DealCalculatorModalProps {
     address?: string;
     propertyCode?: string;
     recordId?: string;
+    images?: string[];
   };
   buyerContactId?: string;
+  buyerName?: string;
   existingCalculationId?: string;
   onSaved?: () => void;
 }
@@ -88,6 +103,7 @@ export function DealCalculatorModal({
   onOpenChange,
   property,
   buyerContactId,
+  buyerName,
   existingCalculationId,
   onSaved,
 }: DealCalculatorModalProps) {
@@ -101,8 +117,10 @@ export function DealCalculatorModal({
   const [scenarios, setScenarios] = useState<CalculatorScenario[]>([]);
   const [activeScenarioId, setActiveScenarioId] = useState<string>('');
   const [hasChanges, setHasChanges] = useState(false);
-  const [viewMode, setViewMode] = useState<'single' | 'compare'>('single');
+  const [viewMode, setViewMode] = useState<'single' | 'compare' | 'sensitivity'>('single');
   const [calculationName, setCalculationName] = useState('');
+  const [isDownloadingReport, setIsDownloadingReport] = useState(false);
+  const [reportDialogOpen, setReportDialogOpen] = useState(false);
 
   // Initialize scenarios when modal opens
   useEffect(() => {
@@ -112,7 +130,7 @@ export function DealCalculatorModal({
 
       if (existingData?.calculation) {
         // Load existing calculation
-        initialInputs = existingData.calculation.inputs;
+        initialInputs = normalizeInputs(existingData.calculation.inputs);
         initialName = existingData.calculation.name;
       } else {
         // Create new with property data
@@ -120,7 +138,7 @@ export function DealCalculatorModal({
         initialName = property?.address || 'New Calculation';
       }
 
-      const initialOutputs = calculateAll(initialInputs);
+      const initialOutputs = calculateAll(initialInputs, defaults || undefined);
       const scenario: CalculatorScenario = {
         id: generateScenarioId(),
         name: 'Base Case',
@@ -135,6 +153,17 @@ export function DealCalculatorModal({
     }
   }, [open, property, defaults, existingData, scenarios.length]);
 
+  // Re-check buy-boxes once saved defaults load
+  useEffect(() => {
+    if (!defaults) return;
+    setScenarios((prev) =>
+      prev.map((scenario) => ({
+        ...scenario,
+        outputs: calculateAll(scenario.inputs, defaults),
+      }))
+    );
+  }, [defaults]);
+
   // Reset state when modal closes
   useEffect(() => {
     if (!open) {
@@ -171,7 +200,7 @@ export function DealCalculatorModal({
             },
           } as CalculatorInputs;
 
-          const newOutputs = calculateAll(newInputs);
+          const newOutputs = calculateAll(newInputs, defaults || undefined);
 
           return {
             ...scenario,
@@ -182,7 +211,33 @@ export function DealCalculatorModal({
       );
       setHasChanges(true);
     },
-    [activeScenarioId]
+    [activeScenarioId, defaults]
+  );
+
+  // Pick the exit strategy the headline decision uses
+  const handleStrategyChange = useCallback(
+    (strategy: DealStrategy) => {
+      setScenarios((prev) =>
+        prev.map((scenario) => {
+          if (scenario.id !== activeScenarioId) return scenario;
+          const newInputs = { ...scenario.inputs, strategy };
+          return { ...scenario, inputs: newInputs, outputs: calculateAll(newInputs, defaults || undefined) };
+        })
+      );
+      setHasChanges(true);
+    },
+    [activeScenarioId, defaults]
+  );
+
+  // Apply a goal-seek result to the active scenario
+  const handleApplySensitivityValue = useCallback(
+    (variableId: SensitivityVariableId, value: number) => {
+      const { section, field, label } = SENSITIVITY_VARIABLES[variableId];
+      handleInputChange(section, field as never, value as never);
+      setViewMode('single');
+      toast.success(`${label} updated`);
+    },
+    [handleInputChange]
   );
 
   // Add new scenario
@@ -277,6 +332,36 @@ export function DealCalculatorModal({
 
   const isSaving = createCalculation.isPending || updateCalculation.isPending;
 
+  // Investor report - the active scenario leads, the rest are compared against it
+  const reportName = calculationName || property?.address || 'Deal';
+  const reportFileName = `Purple-Homes-Report-${reportName.replace(/[^a-zA-Z0-9]/g, '-')}-${new Date().toISOString().split('T')[0]}.pdf`;
+
+  const generateReport = useCallback(
+    () =>
+      generateCalculatorReportPDF({
+        calculationName: reportName,
+        scenarios: [
+          ...scenarios.filter((s) => s.id === activeScenarioId),
+          ...scenarios.filter((s) => s.id !== activeScenarioId),
+        ],
+        property,
+        preparedFor: buyerName,
+      }),
+    [reportName, scenarios, activeScenarioId, property, buyerName]
+  );
+
+  const handleDownloadReport = async () => {
+    setIsDownloadingReport(true);
+    try {
+      downloadPDF(await generateReport(), reportFileName);
+      toast.success('Report downloaded');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to generate report');
+    } finally {
+      setIsDownloadingReport(false);
+    }
+  };
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-6xl max-h-[95vh] p-0 gap-0">
@@ -309,7 +394,7 @@ export function DealCalculatorModal({
                 variant={viewMode === 'compare' ? 'default' : 'outline'}
                 size="sm"
                 onClick={() =>
-                  setViewMode(viewMode === 'single' ? 'compare' : 'single')
+                  setViewMode(viewMode === 'compare' ? 'single' : 'compare')
                 }
                 disabled={scenarios.length < 2}
               >
@@ -317,6 +402,19 @@ export function DealCalculatorModal({
                 Compare ({scenarios.length})
               </Button>
 
+              {/* Sensitivity Toggle */}
+              <Button
+                variant={viewMode === 'sensitivity' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() =>
+                  setViewMode(viewMode === 'sensitivity' ? 'single' : 'sensitivity')
+                }
+                disabled={!activeScenario}
+              >
+                <Grid3x3 className="h-4 w-4 mr-1" />
+                Sensitivity
+              </Button>
+
               {/* Add Scenario */}
               <Button
                 variant="outline"
@@ -331,7 +429,7 @@ export function DealCalculatorModal({
           </div>
 
           {/* Scenario Tabs */}
-          {scenarios.length > 1 && viewMode === 'single' && (
+          {scenarios.length > 1 && viewMode !== 'compare' && (
             <div className="flex items-center gap-2 mt-3 overflow-x-auto pb-1">
               {scenarios.map((scenario) => (
                 <div
@@ -368,6 +466,12 @@ export function DealCalculatorModal({
               scenarios={scenarios}
               onRenameScenario={handleRenameScenario}
             />
+          ) : viewMode === 'sensitivity' && activeScenario ? (
+            <SensitivityAnalysis
+              inputs={activeScenario.inputs}
+              defaults={defaults || undefined}
+              onApplyValue={handleApplySensitivityValue}
+            />
           ) : activeScenario ? (
             <div className="p-4 space-y-4">
               {/* Quick Stats Panel */}
@@ -377,12 +481,16 @@ export function DealCalculatorModal({
 
               {/* Input Tabs */}
               <Tabs defaultValue="property" className="w-full">
-                <TabsList className="grid w-full grid-cols-6">
+                <TabsList className="grid w-full grid-cols-7">
                   <TabsTrigger value="property">Property</TabsTrigger>
                   <TabsTrigger value="income">Income</TabsTrigger>
                   <TabsTrigger value="loans">Loans</TabsTrigger>
                   <TabsTrigger value="wrap">Wrap</TabsTrigger>
                   <TabsTrigger value="flip">Flip</TabsTrigger>
+                  <TabsTrigger value="proforma">
+                    <ChartLine className="h-4 w-4 mr-1" />
+                    Pro Forma
+                  </TabsTrigger>
                   <TabsTrigger value="results">
                     <BarChart3 className="h-4 w-4 mr-1" />
                     Results
@@ -478,6 +586,18 @@ export function DealCalculatorModal({
                   />
                 </TabsContent>
 
+                {/* Pro Forma Tab */}
+                <TabsContent value="proforma" className="space-y-4 mt-4">
+                  <ProjectionSection
+                    inputs={activeScenario.inputs.projection}
+                    useWrap={activeScenario.inputs.wrapLoan.useWrap}
+                    onChange={(field, value) =>
+                      handleInputChange('projection', field, value)
+                    }
+                  />
+                  <ProFormaPanel outputs={activeScenario.outputs} />
+                </TabsContent>
+
                 {/* Results Tab */}
                 <TabsContent value="results" className="space-y-4 mt-4">
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -488,6 +608,7 @@ export function DealCalculatorModal({
                     <DealChecklistPanel
                       outputs={activeScenario.outputs}
                       inputs={activeScenario.inputs}
+                      onStrategyChange={handleStrategyChange}
                     />
                   </div>
                 </TabsContent>
@@ -510,6 +631,26 @@ export function DealCalculatorModal({
             )}
           </div>
           <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              onClick={handleDownloadReport}
+              disabled={!activeScenario || isDownloadingReport}
+            >
+              {isDownloadingReport ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Download className="h-4 w-4 mr-2" />
+              )}
+              Report
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setReportDialogOpen(true)}
+              disabled={!activeScenario}
+            >
+              <Mail className="h-4 w-4 mr-2" />
+              Email
+            </Button>
             <Button variant="outline" onClick={() => onOpenChange(false)}>
               Close
             </Button>
@@ -528,6 +669,19 @@ export function DealCalculatorModal({
             </Button>
           </div>
         </div>
+
+        {activeScenario && (
+          <SendReportDialog
+            open={reportDialogOpen}
+            onOpenChange={setReportDialogOpen}
+            dealName={reportName}
+            dealDecision={activeScenario.outputs.dealChecklist.dealDecision}
+            fileName={reportFileName}
+            generateReport={generateReport}
+            buyerContactId={buyerContactId}
+            buyerName={buyerName}
+          />
+        )}
       </DialogContent>
     </Dialog>
   );
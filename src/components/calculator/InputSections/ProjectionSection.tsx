@@ -0,0 +1,93 @@
+/**
+ * ProjectionSection - Multi-year hold assumptions for the pro forma
+ */
+
+import { ChartLine, CalendarRange, TrendingUp, Receipt, Percent } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { SliderInput } from '../SliderInput';
+import { SLIDER_CONFIGS, type ProjectionInputs } from '@/types/calculator';
+
+interface ProjectionSectionProps {
+  inputs: ProjectionInputs;
+  useWrap?: boolean;
+  onChange: (field: keyof ProjectionInputs, value: number) => void;
+}
+
+export function ProjectionSection({ inputs, useWrap, onChange }: ProjectionSectionProps) {
+  return (
+    <Card>
+      <CardHeader className="pb-4">
+        <div className="flex items-center gap-2">
+          <ChartLine className="h-5 w-5 text-indigo-600" />
+          <CardTitle className="text-lg">Projection Assumptions</CardTitle>
+        </div>
+        <CardDescription>
+          {useWrap
+            ? 'Wrap deals exit when the wrap balloons or at the end of the hold'
+            : 'Growth rates applied each year, with a sale at the end of the hold'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {/* Hold Period */}
+          <div className="md:col-span-2">
+            <SliderInput
+              label="Hold Period"
+              value={inputs.holdYears}
+              onChange={(v) => onChange('holdYears', v)}
+              config={SLIDER_CONFIGS.holdYears}
+              icon={<CalendarRange className="h-4 w-4" />}
+              description="Years from purchase to exit"
+            />
+          </div>
+
+          {/* Rent Growth */}
+          <SliderInput
+            label="Rent Growth"
+            value={inputs.rentGrowth}
+            onChange={(v) => onChange('rentGrowth', v)}
+            config={SLIDER_CONFIGS.rentGrowth}
+            icon={<TrendingUp className="h-4 w-4" />}
+            description="Annual increase in rent and other income"
+            disabled={useWrap}
+          />
+
+          {/* Expense Inflation */}
+          <SliderInput
+            label="Expense Inflation"
+            value={inputs.expenseInflation}
+            onChange={(v) => onChange('expenseInflation', v)}
+            config={SLIDER_CONFIGS.expenseInflation}
+            icon={<Receipt className="h-4 w-4" />}
+            description="Annual increase in taxes, insurance, HOA, utilities"
+            disabled={useWrap}
+          />
+
+          {/* Appreciation */}
+          <SliderInput
+            label="Appreciation"
+            value={inputs.appreciation}
+            onChange={(v) => onChange('appreciation', v)}
+            config={SLIDER_CONFIGS.appreciation}
+            icon={<TrendingUp className="h-4 w-4" />}
+            description="Annual change in value, starting from ARV"
+            disabled={useWrap}
+          />
+
+          {/* Selling Costs */}
+          <SliderInput
+            label="Selling Costs"
+            value={inputs.sellingCosts}
+            onChange={(v) => onChange('sellingCosts', v)}
+            config={SLIDER_CONFIGS.sellingCosts}
+            icon={<Percent className="h-4 w-4" />}
+            description="Commissions and closing costs at exit"
+            disabled={useWrap}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default ProjectionSection;
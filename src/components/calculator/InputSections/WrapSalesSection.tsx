@@ -66,7 +66,7 @@ export function WrapSalesSection({ inputs, useWrap, onChange }: WrapSalesSection
               onChange={(v) => onChange('buyerClosingCosts', v)}
               config={SLIDER_CONFIGS.buyerClosingCosts}
               icon={<Receipt className="h-4 w-4" />}
-              description="Costs paid by buyer at close"
+              description="Buyer's closing costs, covered from the down payment"
             />
           </div>
 
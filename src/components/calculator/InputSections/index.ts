@@ -13,3 +13,4 @@ export { SecondLoanSection } from './SecondLoanSection';
 export { WrapLoanSection } from './WrapLoanSection';
 export { WrapSalesSection } from './WrapSalesSection';
 export { FlipSection } from './FlipSection';
+export { ProjectionSection } from './ProjectionSection';
@@ -1,19 +1,29 @@
 /**
  * DealChecklistPanel - Pass/fail checklist for deal criteria
- * Shows key thresholds and overall deal decision
+ * Renders the configured buy-box rules for each strategy and its decision
  */
 
-import { CheckCircle2, XCircle, AlertCircle, DollarSign, TrendingUp, Percent, Building } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { CheckCircle2, XCircle, AlertCircle, DollarSign, TrendingUp, Percent } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { cn } from '@/lib/utils';
-import type { CalculatorOutputs, CalculatorInputs } from '@/types/calculator';
-import { formatCurrency, formatPercentage } from '@/lib/calculatorEngine';
+import {
+  CHECKLIST_COMPARATORS,
+  CHECKLIST_METRICS,
+  type CalculatorOutputs,
+  type CalculatorInputs,
+  type DealStrategy,
+} from '@/types/calculator';
+import { formatChecklistValue, formatCurrency } from '@/lib/calculatorEngine';
 
 interface DealChecklistPanelProps {
   outputs: CalculatorOutputs;
   inputs?: CalculatorInputs;
+  onStrategyChange?: (strategy: DealStrategy) => void; // Pick the strategy behind the headline decision
   className?: string;
 }
 
@@ -60,34 +70,40 @@ function ChecklistItem({ label, description, passed, value, threshold, icon }: C
   );
 }
 
-export function DealChecklistPanel({ outputs, inputs, className }: DealChecklistPanelProps) {
+const STRATEGY_LABELS: Record<DealStrategy, string> = {
+  hold: 'Hold',
+  wrap: 'Wrap',
+  flip: 'Flip',
+};
+
+const FORMAT_ICONS = {
+  currency: <DollarSign className="h-4 w-4" />,
+  percentage: <Percent className="h-4 w-4" />,
+  multiple: <TrendingUp className="h-4 w-4" />,
+};
+
+export function DealChecklistPanel({ outputs, inputs, onStrategyChange, className }: DealChecklistPanelProps) {
   const { quickStats, dealChecklist, loanCalcs, totals } = outputs;
+  const [strategy, setStrategy] = useState<DealStrategy>(dealChecklist.strategy);
+
+  // Follow the headline strategy when it's picked or the inputs change it
+  useEffect(() => {
+    setStrategy(dealChecklist.strategy);
+  }, [dealChecklist.strategy]);
+
+  const buyBox = dealChecklist.buyBoxes[strategy];
 
-  // Calculate LTV for display
+  // Total loan debt for the summary
   const totalLoanAmount =
     loanCalcs.dscrLoanAmount +
     loanCalcs.subToCurrentBalance +
     (inputs?.secondLoan.useLoan2 ? inputs.secondLoan.loan2Principal : 0);
-  const arv = inputs?.propertyBasics.arv || 0;
-  const ltv = arv > 0 ? (totalLoanAmount / arv) * 100 : 0;
-
-  // Calculate equity
-  const purchasePrice = inputs?.purchaseCosts.purchasePrice || 0;
-  const repairs = inputs?.propertyBasics.repairs || 0;
-  const equity = arv - purchasePrice - repairs;
-
-  // Count passed criteria
-  const passedCount = [
-    dealChecklist.entryFeeUnder25k,
-    dealChecklist.cashflowOver400,
-    dealChecklist.ltvUnder75,
-    dealChecklist.equityOver15k,
-  ].filter(Boolean).length;
-  const passPercentage = (passedCount / 4) * 100;
+
+  const passedCount = buyBox.results.filter((result) => result.passed).length;
 
   // Get decision badge styling
   const getDecisionStyle = () => {
-    switch (dealChecklist.dealDecision) {
+    switch (buyBox.dealDecision) {
       case 'DEAL':
         return 'bg-green-600 text-white hover:bg-green-700';
       case 'NEEDS REVIEW':
@@ -100,7 +116,7 @@ export function DealChecklistPanel({ outputs, inputs, className }: DealChecklist
   };
 
   const getDecisionIcon = () => {
-    switch (dealChecklist.dealDecision) {
+    switch (buyBox.dealDecision) {
       case 'DEAL':
         return <CheckCircle2 className="h-5 w-5" />;
       case 'NEEDS REVIEW':
@@ -119,57 +135,56 @@ export function DealChecklistPanel({ outputs, inputs, className }: DealChecklist
           <CardTitle className="text-lg">Deal Checklist</CardTitle>
           <Badge className={cn('text-sm px-4 py-1.5 gap-2', getDecisionStyle())}>
             {getDecisionIcon()}
-            {dealChecklist.dealDecision}
+            {buyBox.dealDecision}
           </Badge>
         </div>
+        <Tabs value={strategy} onValueChange={(value) => setStrategy(value as DealStrategy)} className="mt-2">
+          <TabsList className="grid w-full grid-cols-3">
+            {(Object.keys(STRATEGY_LABELS) as DealStrategy[]).map((key) => (
+              <TabsTrigger key={key} value={key}>
+                {STRATEGY_LABELS[key]}
+                {key === dealChecklist.strategy && <span className="ml-1 text-xs text-muted-foreground">•</span>}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+        {onStrategyChange && strategy !== dealChecklist.strategy && (
+          <Button variant="link" size="sm" className="h-auto p-0 self-start" onClick={() => onStrategyChange(strategy)}>
+            Use the {STRATEGY_LABELS[strategy].toLowerCase()} buy-box for the deal decision
+          </Button>
+        )}
         <div className="space-y-1 mt-2">
           <div className="flex items-center justify-between text-sm">
             <span className="text-muted-foreground">Criteria Met</span>
-            <span className="font-medium">{passedCount} of 4</span>
+            <span className="font-medium">
+              {passedCount} of {buyBox.results.length}
+              {buyBox.results.some((result) => result.rule.weight !== 1) && ` (${Math.round(buyBox.score)}% by weight)`}
+            </span>
           </div>
-          <Progress value={passPercentage} className="h-2" />
+          <Progress value={buyBox.score} className="h-2" />
         </div>
       </CardHeader>
       <CardContent className="space-y-3">
-        {/* Entry Fee Check */}
-        <ChecklistItem
-          label="Entry Fee Under $25k"
-          description="Total upfront costs including closing, appraisal, LLC, and loan fees"
-          passed={dealChecklist.entryFeeUnder25k}
-          value={formatCurrency(quickStats.totalEntryFee)}
-          threshold="< $25,000"
-          icon={<DollarSign className="h-4 w-4" />}
-        />
-
-        {/* Cashflow Check */}
-        <ChecklistItem
-          label="Monthly Cashflow Over $400"
-          description="Net operating income minus all loan payments and expenses"
-          passed={dealChecklist.cashflowOver400}
-          value={formatCurrency(quickStats.monthlyCashflow)}
-          threshold="> $400/mo"
-          icon={<TrendingUp className="h-4 w-4" />}
-        />
-
-        {/* LTV Check */}
-        <ChecklistItem
-          label="LTV Under 75%"
-          description="Total loan amount divided by After Repair Value"
-          passed={dealChecklist.ltvUnder75}
-          value={formatPercentage(ltv)}
-          threshold="< 75%"
-          icon={<Percent className="h-4 w-4" />}
-        />
-
-        {/* Equity Check */}
-        <ChecklistItem
-          label="Equity Over $15k"
-          description="ARV minus purchase price and repairs"
-          passed={dealChecklist.equityOver15k}
-          value={formatCurrency(equity)}
-          threshold="> $15,000"
-          icon={<Building className="h-4 w-4" />}
-        />
+        {buyBox.results.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No rules in the {STRATEGY_LABELS[strategy].toLowerCase()} buy-box. Add them under Settings → Calculator Defaults.
+          </p>
+        )}
+
+        {buyBox.results.map(({ rule, value, passed }) => {
+          const metric = CHECKLIST_METRICS[rule.metric];
+          return (
+            <ChecklistItem
+              key={rule.id}
+              label={metric.label}
+              description={rule.weight !== 1 ? `${metric.description} (weight ${rule.weight})` : metric.description}
+              passed={passed}
+              value={formatChecklistValue(rule.metric, value)}
+              threshold={`${CHECKLIST_COMPARATORS[rule.comparator]} ${formatChecklistValue(rule.metric, rule.threshold)}`}
+              icon={FORMAT_ICONS[metric.format]}
+            />
+          );
+        })}
 
         {/* Summary */}
         <div className="pt-3 border-t">
@@ -0,0 +1,209 @@
+/**
+ * ProFormaPanel - Year-by-year projection with return metrics
+ * Charts net and cumulative cashflow above the full pro forma table
+ */
+
+import { ChartLine, Calculator } from 'lucide-react';
+import { Bar, CartesianGrid, ComposedChart, Line, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import type { CalculatorOutputs, DealStrategy } from '@/types/calculator';
+import { formatCurrency, formatPercentage } from '@/lib/calculatorEngine';
+
+interface ProFormaPanelProps {
+  outputs: CalculatorOutputs;
+  className?: string;
+}
+
+interface MetricProps {
+  label: string;
+  value: string;
+  positive?: boolean;
+}
+
+const chartConfig = {
+  netCashflow: { label: 'Net Cashflow', color: 'hsl(var(--primary))' },
+  cumulativeCashflow: { label: 'Cumulative', color: 'hsl(142 71% 45%)' },
+} satisfies ChartConfig;
+
+function Metric({ label, value, positive }: MetricProps) {
+  return (
+    <div className="p-3 rounded-lg border bg-muted/30 text-center">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p
+        className={cn(
+          'text-lg font-bold',
+          positive === true && 'text-green-600',
+          positive === false && 'text-red-600'
+        )}
+      >
+        {value}
+      </p>
+    </div>
+  );
+}
+
+const STRATEGY_LABELS: Record<DealStrategy, string> = {
+  hold: 'Hold',
+  wrap: 'Wrap',
+  flip: 'Flip',
+};
+
+function formatCompactCurrency(value: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    notation: 'compact',
+    maximumFractionDigits: 1,
+  }).format(value);
+}
+
+export function ProFormaPanel({ outputs, className }: ProFormaPanelProps) {
+  const { projection } = outputs;
+  const isWrap = projection.strategy === 'wrap';
+
+  return (
+    <Card className={cn('', className)}>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <ChartLine className="h-5 w-5 text-primary" />
+            <CardTitle className="text-lg">Pro Forma</CardTitle>
+          </div>
+          <Badge variant="outline">
+            {STRATEGY_LABELS[projection.strategy]} · {projection.years.length} yr{projection.years.length !== 1 ? 's' : ''}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Return Metrics */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <Metric
+            label="IRR"
+            value={projection.irr !== null ? formatPercentage(projection.irr) : 'N/A'}
+            positive={projection.irr !== null ? projection.irr >= 0 : undefined}
+          />
+          <Metric
+            label="Equity Multiple"
+            value={projection.equityMultiple !== null ? `${projection.equityMultiple.toFixed(2)}x` : 'N/A'}
+          />
+          <Metric label="Cash Invested" value={formatCurrency(projection.initialInvestment)} />
+          <Metric
+            label="Total Profit"
+            value={formatCurrency(projection.totalProfit)}
+            positive={projection.totalProfit >= 0}
+          />
+        </div>
+
+        {projection.initialInvestment <= 0 && (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Calculator className="h-4 w-4" />
+            No cash is left in the deal, so IRR and equity multiple don't apply
+          </div>
+        )}
+
+        {/* Cashflow Chart */}
+        <ChartContainer config={chartConfig} className="h-[240px] w-full aspect-auto">
+          <ComposedChart data={projection.years} margin={{ left: 8, right: 8 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="year" tickLine={false} axisLine={false} tickFormatter={(year) => `Yr ${year}`} />
+            <YAxis tickLine={false} axisLine={false} width={64} tickFormatter={formatCompactCurrency} />
+            <ReferenceLine y={0} stroke="hsl(var(--border))" />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  labelFormatter={(_, payload) => `Year ${payload?.[0]?.payload?.year ?? ''}`}
+                  formatter={(value, name) => (
+                    <div className="flex w-full justify-between gap-4">
+                      <span className="text-muted-foreground">
+                        {chartConfig[name as keyof typeof chartConfig]?.label || name}
+                      </span>
+                      <span className="font-mono font-medium">{formatCurrency(Number(value))}</span>
+                    </div>
+                  )}
+                />
+              }
+            />
+            <ChartLegend content={<ChartLegendContent />} />
+            <Bar dataKey="netCashflow" fill="var(--color-netCashflow)" radius={[4, 4, 0, 0]} />
+            <Line
+              dataKey="cumulativeCashflow"
+              type="monotone"
+              stroke="var(--color-cumulativeCashflow)"
+              strokeWidth={2}
+              dot={false}
+            />
+          </ComposedChart>
+        </ChartContainer>
+
+        {/* Year-by-Year Table */}
+        <div className="rounded-md border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Year</TableHead>
+                <TableHead className="text-right">{isWrap ? 'Note Payments' : 'Income'}</TableHead>
+                <TableHead className="text-right">Expenses</TableHead>
+                <TableHead className="text-right">Debt Service</TableHead>
+                <TableHead className="text-right">Cashflow</TableHead>
+                <TableHead className="text-right">Balloons</TableHead>
+                <TableHead className="text-right">{isWrap ? 'Payoff' : 'Sale'}</TableHead>
+                <TableHead className="text-right">Cumulative</TableHead>
+                <TableHead className="text-right">Loan Balance</TableHead>
+                <TableHead className="text-right">{isWrap ? 'Note Balance' : 'Value'}</TableHead>
+                <TableHead className="text-right">Equity</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {projection.years.map((year) => (
+                <TableRow key={year.year}>
+                  <TableCell className="font-medium">{year.year}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(year.grossIncome)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(year.operatingExpenses)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(year.debtService)}</TableCell>
+                  <TableCell className={cn('text-right font-medium', year.cashflow < 0 && 'text-red-600')}>
+                    {formatCurrency(year.cashflow)}
+                  </TableCell>
+                  <TableCell className={cn('text-right', year.balloonPayments > 0 && 'text-red-600')}>
+                    {year.balloonPayments > 0 ? formatCurrency(-year.balloonPayments) : '-'}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {year.saleProceeds !== 0 ? formatCurrency(year.saleProceeds) : '-'}
+                  </TableCell>
+                  <TableCell className={cn('text-right', year.cumulativeCashflow < 0 ? 'text-red-600' : 'text-green-600')}>
+                    {formatCurrency(year.cumulativeCashflow)}
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrency(year.loanBalance)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(year.propertyValue)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(year.equity)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          Balloons are assumed to be paid off in cash. Cumulative cashflow starts at the cash invested
+          ({formatCurrency(projection.initialInvestment)}) and includes balloons and the exit.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,3 +4,4 @@
 
 export { DealChecklistPanel } from './DealChecklistPanel';
 export { LoanCalcsPanel } from './LoanCalcsPanel';
+export { ProFormaPanel } from './ProFormaPanel';
@@ -8,7 +8,7 @@ import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { cn } from '@/lib/utils';
 import type { CalculatorScenario } from '@/types/calculator';
-import { formatCurrency, formatPercentage } from '@/lib/calculatorEngine';
+import { describeChecklistRule, formatCurrency, formatPercentage } from '@/lib/calculatorEngine';
 
 interface ScenarioComparisonProps {
   scenarios: CalculatorScenario[];
@@ -109,6 +109,11 @@ export function ScenarioComparison({
     paddedScenarios.push(null as unknown as CalculatorScenario);
   }
 
+  // Compare every scenario against the first scenario's buy-box
+  const checklistStrategy = scenarios[0]?.outputs.dealChecklist.strategy ?? 'hold';
+  const checklistRules =
+    scenarios[0]?.outputs.dealChecklist.buyBoxes[checklistStrategy].results.map((result) => result.rule) ?? [];
+
   return (
     <div className="p-4 space-y-4">
       {/* Scenario Headers */}
@@ -280,33 +285,24 @@ export function ScenarioComparison({
       {/* Deal Checklist Comparison */}
       <Card>
         <CardHeader className="py-3">
-          <CardTitle className="text-sm">Deal Checklist</CardTitle>
+          <CardTitle className="text-sm">
+            Deal Checklist <span className="capitalize text-muted-foreground">({checklistStrategy} buy-box)</span>
+          </CardTitle>
         </CardHeader>
         <CardContent className="py-2">
-          <ComparisonRow
-            label="Entry Fee < $25k"
-            values={scenarios.map(
-              (s) => s.outputs.dealChecklist.entryFeeUnder25k
-            )}
-            format="boolean"
-          />
-          <ComparisonRow
-            label="Cashflow > $400"
-            values={scenarios.map(
-              (s) => s.outputs.dealChecklist.cashflowOver400
-            )}
-            format="boolean"
-          />
-          <ComparisonRow
-            label="LTV < 75%"
-            values={scenarios.map((s) => s.outputs.dealChecklist.ltvUnder75)}
-            format="boolean"
-          />
-          <ComparisonRow
-            label="Equity > $15k"
-            values={scenarios.map((s) => s.outputs.dealChecklist.equityOver15k)}
-            format="boolean"
-          />
+          {checklistRules.map((rule) => (
+            <ComparisonRow
+              key={rule.id}
+              label={describeChecklistRule(rule)}
+              values={scenarios.map(
+                (s) =>
+                  s.outputs.dealChecklist.buyBoxes[checklistStrategy].results.find(
+                    (result) => result.rule.id === rule.id
+                  )?.passed ?? false
+              )}
+              format="boolean"
+            />
+          ))}
         </CardContent>
       </Card>
     </div>
@@ -0,0 +1,240 @@
+/**
+ * SendReportDialog - Email the investor report PDF to the buyer or a capital partner
+ * The report is generated on send, so it reflects the scenarios as they are now
+ */
+
+import { useMemo, useState } from 'react';
+import { Loader2, Mail, Search, Send } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { blobToDataUrl } from '@/lib/pdfGenerator';
+import { generateCalculatorReportEmailHtml, sendPropertyPdfEmail } from '@/services/emailApi';
+import { useContacts, type GHLContact } from '@/services/ghlApi';
+import type { DealDecision } from '@/types/calculator';
+
+interface SendReportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  dealName: string;
+  dealDecision: DealDecision;
+  fileName: string;
+  generateReport: () => Promise<Blob>;
+  buyerContactId?: string;
+  buyerName?: string;
+}
+
+type Recipient = 'buyer' | 'partner';
+
+interface SelectedContact {
+  id: string;
+  name: string;
+}
+
+const MAX_CONTACT_RESULTS = 6;
+
+function contactName(contact: GHLContact): string {
+  return `${contact.firstName || ''} ${contact.lastName || ''}`.trim() || contact.email;
+}
+
+/**
+ * Search GHL contacts for a capital partner
+ * Only mounted when needed, since it loads the full contact list
+ */
+function ContactPicker({
+  selected,
+  onSelect,
+}: {
+  selected: SelectedContact | null;
+  onSelect: (contact: SelectedContact) => void;
+}) {
+  const [query, setQuery] = useState('');
+  const { data, isLoading } = useContacts();
+
+  const matches = useMemo(() => {
+    const term = query.trim().toLowerCase();
+    if (!term || !data?.contacts) return [];
+    return data.contacts
+      .filter((contact) => contact.email)
+      .filter((contact) =>
+        `${contactName(contact)} ${contact.email}`.toLowerCase().includes(term)
+      )
+      .slice(0, MAX_CONTACT_RESULTS);
+  }, [data, query]);
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search contacts by name or email..."
+          className="pl-9"
+        />
+      </div>
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading contacts...
+        </div>
+      ) : (
+        matches.length > 0 && (
+          <div className="rounded-md border divide-y">
+            {matches.map((contact) => (
+              <button
+                key={contact.id}
+                type="button"
+                onClick={() => onSelect({ id: contact.id, name: contactName(contact) })}
+                className={cn(
+                  'w-full text-left px-3 py-2 text-sm hover:bg-muted',
+                  selected?.id === contact.id && 'bg-primary/10'
+                )}
+              >
+                <span className="font-medium">{contactName(contact)}</span>
+                <span className="text-muted-foreground ml-2">{contact.email}</span>
+              </button>
+            ))}
+          </div>
+        )
+      )}
+    </div>
+  );
+}
+
+export function SendReportDialog({
+  open,
+  onOpenChange,
+  dealName,
+  dealDecision,
+  fileName,
+  generateReport,
+  buyerContactId,
+  buyerName,
+}: SendReportDialogProps) {
+  const [recipient, setRecipient] = useState<Recipient>(buyerContactId ? 'buyer' : 'partner');
+  const [partner, setPartner] = useState<SelectedContact | null>(null);
+  const [personalNote, setPersonalNote] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  const to: SelectedContact | null =
+    recipient === 'buyer'
+      ? buyerContactId ? { id: buyerContactId, name: buyerName || 'Buyer' } : null
+      : partner;
+
+  const handleSend = async () => {
+    if (!to) return;
+
+    setIsSending(true);
+    try {
+      const pdfData = await blobToDataUrl(await generateReport());
+      await sendPropertyPdfEmail(
+        to.id,
+        `Investor Report: ${dealName}`,
+        generateCalculatorReportEmailHtml({
+          recipientName: to.name.split(' ')[0] || 'there',
+          dealName,
+          dealDecision,
+          personalNote: personalNote || undefined,
+        }),
+        pdfData,
+        fileName
+      );
+
+      toast.success(`Report sent to ${to.name}`);
+      onOpenChange(false);
+      setPersonalNote('');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to send report');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Mail className="h-5 w-5" />
+            Email Investor Report
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {/* Recipient */}
+          <div className="space-y-2">
+            <Label>Send to</Label>
+            <RadioGroup value={recipient} onValueChange={(v) => setRecipient(v as Recipient)}>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="buyer" id="report-buyer" disabled={!buyerContactId} />
+                <Label htmlFor="report-buyer" className={cn('font-normal', !buyerContactId && 'text-muted-foreground')}>
+                  {buyerContactId ? `Buyer${buyerName ? ` (${buyerName})` : ''}` : 'Buyer (none linked)'}
+                </Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="partner" id="report-partner" />
+                <Label htmlFor="report-partner" className="font-normal">
+                  Capital partner
+                </Label>
+              </div>
+            </RadioGroup>
+          </div>
+
+          {recipient === 'partner' && <ContactPicker selected={partner} onSelect={setPartner} />}
+
+          {/* Personal Note */}
+          <div className="space-y-2">
+            <Label htmlFor="reportNote">Personal Note (Optional)</Label>
+            <Textarea
+              id="reportNote"
+              value={personalNote}
+              onChange={(e) => setPersonalNote(e.target.value)}
+              placeholder="Here's the deal we discussed..."
+              rows={3}
+              className="resize-none"
+            />
+          </div>
+
+          {to && (
+            <p className="text-sm text-muted-foreground">
+              Report will be sent to <span className="font-medium text-foreground">{to.name}</span>
+            </p>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSending}>
+            Cancel
+          </Button>
+          <Button onClick={handleSend} disabled={!to || isSending}>
+            {isSending ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Sending...
+              </>
+            ) : (
+              <>
+                <Send className="h-4 w-4 mr-2" />
+                Send Report
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default SendReportDialog;
@@ -0,0 +1,300 @@
+/**
+ * SensitivityAnalysis - Heat map of outputs across varied inputs, plus goal-seek
+ * Everything recalculates client-side from the active scenario's inputs
+ */
+
+import { useMemo, useState } from 'react';
+import { Grid3x3, Target, Check } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import {
+  SENSITIVITY_METRICS,
+  SENSITIVITY_VARIABLES,
+  SLIDER_CONFIGS,
+  type CalculatorDefaults,
+  type CalculatorInputs,
+  type DealDecision,
+  type GoalSeekResult,
+  type SensitivityCell,
+  type SensitivityMetric,
+  type SensitivityVariableId,
+} from '@/types/calculator';
+import { formatCurrency, formatPercentage } from '@/lib/calculatorEngine';
+import { calculateSensitivityGrid, getVariableValue, goalSeek } from '@/lib/calculatorSensitivity';
+
+interface SensitivityAnalysisProps {
+  inputs: CalculatorInputs;
+  defaults?: Partial<CalculatorDefaults>;
+  onApplyValue?: (variableId: SensitivityVariableId, value: number) => void;
+}
+
+type HeatMapMetric = SensitivityMetric | 'dealDecision';
+
+const NO_COLUMN = 'none';
+
+const VARIABLE_IDS = Object.keys(SENSITIVITY_VARIABLES) as SensitivityVariableId[];
+
+const DECISION_STYLES: Record<DealDecision, string> = {
+  DEAL: 'bg-green-100 text-green-800',
+  'NEEDS REVIEW': 'bg-yellow-100 text-yellow-800',
+  'NO DEAL': 'bg-red-100 text-red-800',
+};
+
+// Light to strong, picked by the value's share of the largest value in the grid
+const POSITIVE_SHADES = ['bg-green-50', 'bg-green-100', 'bg-green-200', 'bg-green-300'];
+const NEGATIVE_SHADES = ['bg-red-50', 'bg-red-100', 'bg-red-200', 'bg-red-300'];
+
+function formatVariableValue(variableId: SensitivityVariableId, value: number): string {
+  const format = SLIDER_CONFIGS[SENSITIVITY_VARIABLES[variableId].field]?.format;
+  return format === 'percentage' ? `${value}%` : formatCurrency(value);
+}
+
+function formatMetricValue(metric: HeatMapMetric, cell: SensitivityCell): string {
+  if (metric === 'dealDecision') return cell.dealDecision;
+
+  const value = cell.metrics[metric];
+  if (value === null) return 'N/A';
+  return SENSITIVITY_METRICS[metric].format === 'percentage' ? formatPercentage(value) : formatCurrency(value);
+}
+
+function getCellStyle(metric: HeatMapMetric, cell: SensitivityCell, maxAbs: number): string {
+  // The score only means something against the buy-box cutoffs
+  if (metric === 'dealDecision' || metric === 'checklistScore') return DECISION_STYLES[cell.dealDecision];
+
+  const value = cell.metrics[metric];
+  if (value === null) return 'bg-muted text-muted-foreground';
+  if (maxAbs === 0) return '';
+
+  const shades = value >= 0 ? POSITIVE_SHADES : NEGATIVE_SHADES;
+  const shade = Math.min(shades.length - 1, Math.floor((Math.abs(value) / maxAbs) * shades.length));
+  return shades[shade];
+}
+
+export function SensitivityAnalysis({ inputs, defaults, onApplyValue }: SensitivityAnalysisProps) {
+  const [rowVariable, setRowVariable] = useState<SensitivityVariableId>('purchasePrice');
+  const [columnVariable, setColumnVariable] = useState<SensitivityVariableId | null>(
+    inputs.wrapLoan.useWrap ? 'wrapInterestRate' : 'monthlyRent'
+  );
+  const [metric, setMetric] = useState<HeatMapMetric>(inputs.wrapLoan.useWrap ? 'wrapCashflow' : 'monthlyCashflow');
+  const [seekVariable, setSeekVariable] = useState<SensitivityVariableId>('purchasePrice');
+
+  const grid = useMemo(
+    () => calculateSensitivityGrid(inputs, rowVariable, columnVariable, defaults),
+    [inputs, rowVariable, columnVariable, defaults]
+  );
+
+  const maxAbs = useMemo(() => {
+    if (metric === 'dealDecision') return 0;
+    return Math.max(0, ...grid.cells.flat().map((cell) => Math.abs(cell.metrics[metric] ?? 0)));
+  }, [grid, metric]);
+
+  const seekResults = useMemo<GoalSeekResult[]>(
+    () => [goalSeek(inputs, seekVariable, 'deal', defaults), goalSeek(inputs, seekVariable, 'breakEven', defaults)],
+    [inputs, seekVariable, defaults]
+  );
+
+  const baseRow = getVariableValue(inputs, rowVariable);
+  const baseColumn = columnVariable ? getVariableValue(inputs, columnVariable) : null;
+  const seekLabel = `${SENSITIVITY_VARIABLES[seekVariable].higherIsBetter ? 'Minimum' : 'Maximum'} ${SENSITIVITY_VARIABLES[seekVariable].label}`;
+
+  return (
+    <div className="p-4 space-y-4">
+      {/* Heat Map */}
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="flex items-center gap-2">
+            <Grid3x3 className="h-5 w-5 text-primary" />
+            <CardTitle className="text-lg">Sensitivity</CardTitle>
+          </div>
+          <CardDescription>How the deal responds when one or two inputs change</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label>Rows</Label>
+              <Select value={rowVariable} onValueChange={(v) => setRowVariable(v as SensitivityVariableId)}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {VARIABLE_IDS.map((id) => (
+                    <SelectItem key={id} value={id} disabled={id === columnVariable}>
+                      {SENSITIVITY_VARIABLES[id].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Columns</Label>
+              <Select
+                value={columnVariable ?? NO_COLUMN}
+                onValueChange={(v) => setColumnVariable(v === NO_COLUMN ? null : (v as SensitivityVariableId))}
+              >
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_COLUMN}>None</SelectItem>
+                  {VARIABLE_IDS.map((id) => (
+                    <SelectItem key={id} value={id} disabled={id === rowVariable}>
+                      {SENSITIVITY_VARIABLES[id].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Show</Label>
+              <Select value={metric} onValueChange={(v) => setMetric(v as HeatMapMetric)}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(SENSITIVITY_METRICS) as SensitivityMetric[]).map((key) => (
+                    <SelectItem key={key} value={key}>
+                      {SENSITIVITY_METRICS[key].label}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value="dealDecision">Deal Decision</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="rounded-md border overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b bg-muted/50">
+                  <th className="p-2 text-left font-medium text-muted-foreground">
+                    {SENSITIVITY_VARIABLES[rowVariable].label}
+                    {columnVariable && ` ↓ / ${SENSITIVITY_VARIABLES[columnVariable].label} →`}
+                  </th>
+                  {grid.columnValues.map((columnValue, idx) => (
+                    <th
+                      key={idx}
+                      className={cn('p-2 text-center font-medium', columnValue === baseColumn && 'text-primary')}
+                    >
+                      {columnVariable && columnValue !== null
+                        ? formatVariableValue(columnVariable, columnValue)
+                        : SENSITIVITY_METRICS[metric as SensitivityMetric]?.label || 'Deal Decision'}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {grid.cells.map((row, rowIdx) => (
+                  <tr key={rowIdx} className="border-b last:border-0">
+                    <td className={cn('p-2 font-medium', grid.rowValues[rowIdx] === baseRow && 'text-primary')}>
+                      {formatVariableValue(rowVariable, grid.rowValues[rowIdx])}
+                    </td>
+                    {row.map((cell, columnIdx) => {
+                      const isBase = cell.rowValue === baseRow && cell.columnValue === baseColumn;
+                      return (
+                        <td
+                          key={columnIdx}
+                          className={cn(
+                            'p-2 text-center font-medium',
+                            getCellStyle(metric, cell, maxAbs),
+                            isBase && 'ring-2 ring-inset ring-primary'
+                          )}
+                        >
+                          {formatMetricValue(metric, cell)}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-muted-foreground">The outlined cell is the current scenario.</p>
+        </CardContent>
+      </Card>
+
+      {/* Goal Seek */}
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="flex items-center gap-2">
+            <Target className="h-5 w-5 text-primary" />
+            <CardTitle className="text-lg">Goal Seek</CardTitle>
+          </div>
+          <CardDescription>
+            The furthest one input can move while the deal still passes, holding everything else fixed
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="max-w-xs">
+            <Label>Solve for</Label>
+            <Select value={seekVariable} onValueChange={(v) => setSeekVariable(v as SensitivityVariableId)}>
+              <SelectTrigger className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {VARIABLE_IDS.map((id) => (
+                  <SelectItem key={id} value={id}>
+                    {SENSITIVITY_VARIABLES[id].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {seekResults.map((result) => (
+              <div key={result.target} className="p-4 rounded-lg border space-y-2">
+                <p className="text-sm text-muted-foreground">
+                  {seekLabel} {result.target === 'deal' ? 'for a DEAL' : 'to break even'}
+                </p>
+                {result.status === 'never' ? (
+                  <p className="text-sm font-medium text-red-600">
+                    Not reachable by changing {SENSITIVITY_VARIABLES[seekVariable].label.toLowerCase()} alone
+                  </p>
+                ) : (
+                  <>
+                    <p className="text-2xl font-bold">
+                      {formatVariableValue(seekVariable, result.value)}
+                      {result.status === 'always' && (
+                        <span className="text-xs font-normal text-muted-foreground ml-2">(passes across the whole range)</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Currently {formatVariableValue(seekVariable, getVariableValue(inputs, seekVariable))}
+                      {' · '}
+                      {result.outputs.dealChecklist.dealDecision}
+                      {' · '}
+                      {result.outputs.dealChecklist.strategy === 'flip'
+                        ? `${formatCurrency(result.outputs.quickStats.flipProfit)} profit`
+                        : `${formatCurrency(
+                            result.outputs.dealChecklist.strategy === 'wrap'
+                              ? result.outputs.quickStats.wrapCashflow
+                              : result.outputs.quickStats.monthlyCashflow
+                          )}/mo`}
+                    </p>
+                    {onApplyValue && (
+                      <Button variant="outline" size="sm" onClick={() => onApplyValue(seekVariable, result.value)}>
+                        <Check className="h-4 w-4 mr-1" />
+                        Apply to Scenario
+                      </Button>
+                    )}
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default SensitivityAnalysis;
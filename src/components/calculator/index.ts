@@ -8,7 +8,10 @@ export { DealCalculatorModal } from './DealCalculatorModal';
 // Panels
 export { QuickStatsPanel } from './QuickStatsPanel';
 export { ScenarioComparison } from './ScenarioComparison';
+export { SensitivityAnalysis } from './SensitivityAnalysis';
 export { SliderInput, SliderInputCompact } from './SliderInput';
+export { BuyBoxEditor } from './BuyBoxEditor';
+export { SendReportDialog } from './SendReportDialog';
 
 // Input sections
 export * from './InputSections';
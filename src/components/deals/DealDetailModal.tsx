@@ -6,10 +6,13 @@
 
 import React from 'react';
 import { EnhancedMatchDetailModal } from '@/components/matching/EnhancedMatchDetailModal';
+import { ScheduleShowingDialog } from './ScheduleShowingDialog';
 import { useUpdateDealStage } from '@/services/dealsApi';
 import { useAddMatchActivity, useEditMatchNote, useDeleteMatchNote } from '@/services/matchingApi';
-import type { Deal } from '@/types/deals';
+import type { Deal, Showing } from '@/types/deals';
 import type { MatchDealStage } from '@/types/associations';
+import { MATCH_DEAL_STAGES } from '@/types/associations';
+import { format } from 'date-fns';
 import { toast } from 'sonner';
 
 interface DealDetailModalProps {
@@ -27,6 +30,7 @@ export function DealDetailModal({
   const addActivity = useAddMatchActivity();
   const editNote = useEditMatchNote();
   const deleteNote = useDeleteMatchNote();
+  const [showingOpen, setShowingOpen] = React.useState(false);
 
   // Track the current GHL relation ID locally
   // This is needed because the deal prop may not update between stage changes
@@ -200,6 +204,29 @@ export function DealDetailModal({
     }
   };
 
+  // Log the showing on the deal and move it to "Showing Scheduled" if it's earlier in the pipeline
+  const handleShowingScheduled = async (showing: Showing, rescheduled: boolean) => {
+    if (!deal) return;
+
+    try {
+      await addActivity.mutateAsync({
+        matchId: deal.id,
+        activity: {
+          type: 'showing-scheduled',
+          details: `Showing ${rescheduled ? 'rescheduled' : 'scheduled'} for ${format(new Date(showing.startTime), 'MMM d, h:mm a')}${showing.agentName ? ` with ${showing.agentName}` : ''}`,
+          metadata: { showingDate: showing.startTime },
+        },
+      });
+    } catch (error) {
+      console.error('[DealDetailModal] Failed to log showing activity:', error);
+    }
+
+    const stageIndex = MATCH_DEAL_STAGES.indexOf(deal.status as typeof MATCH_DEAL_STAGES[number]);
+    if (stageIndex !== -1 && stageIndex < MATCH_DEAL_STAGES.indexOf('Showing Scheduled')) {
+      await handleStageChange(deal.id, 'Showing Scheduled').catch(() => undefined);
+    }
+  };
+
   // Convert Deal to MatchWithDetails format
   const matchData = deal
     ? {
@@ -212,15 +239,26 @@ export function DealDetailModal({
     : null;
 
   return (
-    <EnhancedMatchDetailModal
-      match={matchData}
-      open={open}
-      onOpenChange={onOpenChange}
-      onStageChange={handleStageChange}
-      onAddNote={handleAddNote}
-      onEditNote={handleEditNote}
-      onDeleteNote={handleDeleteNote}
-      onSendEmail={handleSendEmail}
-    />
+    <>
+      <EnhancedMatchDetailModal
+        match={matchData}
+        open={open}
+        onOpenChange={onOpenChange}
+        onStageChange={handleStageChange}
+        onAddNote={handleAddNote}
+        onEditNote={handleEditNote}
+        onDeleteNote={handleDeleteNote}
+        onSendEmail={handleSendEmail}
+        onScheduleShowing={() => setShowingOpen(true)}
+      />
+      {deal && (
+        <ScheduleShowingDialog
+          deal={deal}
+          open={showingOpen}
+          onOpenChange={setShowingOpen}
+          onScheduled={handleShowingScheduled}
+        />
+      )}
+    </>
   );
 }
@@ -2,13 +2,14 @@
  * DealsListView - Sortable table view of all deals
  *
  * Features:
- * - Filter by stage, score, stale status
+ * - Filter by stage, score, stale status (applied server-side)
  * - Sortable columns
+ * - Paginated, so only one page of deals is loaded at a time
  * - Click row to open deal detail
  */
 
-import { useState, useMemo } from 'react';
-import { useDeals } from '@/services/dealsApi';
+import { useState, useEffect, useMemo } from 'react';
+import { useDealsPage } from '@/services/dealsApi';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import {
@@ -20,18 +21,20 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { Skeleton } from '@/components/ui/skeleton';
-import { ArrowUpDown, ChevronUp, ChevronDown } from 'lucide-react';
+import { ArrowUpDown, ChevronUp, ChevronDown, ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
 import { StageBadge } from '@/components/matching/StageBadge';
 import { MatchScoreBadge } from '@/components/matching/MatchScoreBadge';
 import { BuyerAvatar } from '../Shared/BuyerAvatar';
 import { BuyerName } from '../Shared/BuyerName';
 import { UrgencyIndicator, getUrgencyType } from '../Shared/UrgencyIndicator';
 import { NoDealsEmptyState, NoResultsEmptyState } from '../Shared/DealEmptyState';
-import { MATCH_DEAL_STAGES } from '@/types/associations';
-import type { Deal, DealSortField, DealSortDirection } from '@/types/deals';
+import type { MatchDealStage } from '@/types/associations';
+import type { Deal, DealFilters, DealSortField, DealSortDirection } from '@/types/deals';
 import type { DealPipelineFilters } from '@/pages/DealPipeline';
 import { formatDistanceToNow } from 'date-fns';
 
+const PAGE_SIZE = 25;
+
 interface DealsListViewProps {
   filters?: DealPipelineFilters;
   onViewDeal?: (deal: Deal) => void;
@@ -44,90 +47,35 @@ export function DealsListView({
   // Sort state
   const [sortField, setSortField] = useState<DealSortField>('lastActivity');
   const [sortDirection, setSortDirection] = useState<DealSortDirection>('desc');
+  const [page, setPage] = useState(0);
 
-  // Fetch all deals
-  const { data: deals, isLoading, error } = useDeals();
-
-  // Filter and sort deals
-  const filteredAndSortedDeals = useMemo(() => {
-    if (!deals) return [];
-
-    let filtered = [...deals];
-
-    // Apply search filter (buyer name or property address)
-    if (filters?.search) {
-      const searchLower = filters.search.toLowerCase();
-      filtered = filtered.filter((deal) => {
-        const buyerName = `${deal.buyer?.firstName || ''} ${deal.buyer?.lastName || ''}`.toLowerCase();
-        const propertyAddress = (deal.property?.address || '').toLowerCase();
-        const propertyCity = (deal.property?.city || '').toLowerCase();
-        return (
-          buyerName.includes(searchLower) ||
-          propertyAddress.includes(searchLower) ||
-          propertyCity.includes(searchLower)
-        );
-      });
-    }
+  // Search is applied server-side, so wait for typing to settle
+  const [debouncedSearch, setDebouncedSearch] = useState(filters?.search ?? '');
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch((filters?.search ?? '').trim()), 300);
+    return () => clearTimeout(timer);
+  }, [filters?.search]);
 
-    // Apply stage filter
-    if (filters?.stage && filters.stage !== 'all') {
-      filtered = filtered.filter((deal) => deal.status === filters.stage);
-    }
+  const dealFilters = useMemo((): DealFilters => ({
+    search: debouncedSearch || undefined,
+    stage: filters?.stage && filters.stage !== 'all' ? (filters.stage as MatchDealStage) : undefined,
+    minScore: filters?.minScore && filters.minScore !== 'all' ? parseInt(filters.minScore, 10) : undefined,
+    onlyStale: filters?.staleOnly || undefined,
+  }), [debouncedSearch, filters?.stage, filters?.minScore, filters?.staleOnly]);
 
-    // Apply min score filter
-    if (filters?.minScore && filters.minScore !== 'all') {
-      const minScore = parseInt(filters.minScore, 10);
-      filtered = filtered.filter((deal) => deal.score >= minScore);
-    }
+  // Back to the first page whenever the result set changes
+  useEffect(() => {
+    setPage(0);
+  }, [dealFilters, sortField, sortDirection]);
 
-    // Apply stale only filter
-    if (filters?.staleOnly) {
-      filtered = filtered.filter((deal) => deal.isStale);
-    }
-
-    // Sort filtered deals
-    return filtered.sort((a, b) => {
-      let comparison = 0;
-
-      switch (sortField) {
-        case 'lastActivity':
-          const aDate = a.lastActivityAt ? new Date(a.lastActivityAt).getTime() : 0;
-          const bDate = b.lastActivityAt ? new Date(b.lastActivityAt).getTime() : 0;
-          comparison = aDate - bDate;
-          break;
-        case 'score':
-          comparison = a.score - b.score;
-          break;
-        case 'stage':
-          const stageOrder = MATCH_DEAL_STAGES.indexOf(a.status as any) -
-            MATCH_DEAL_STAGES.indexOf(b.status as any);
-          comparison = stageOrder;
-          break;
-        case 'createdAt':
-          const aCreated = a.createdAt ? new Date(a.createdAt).getTime() : 0;
-          const bCreated = b.createdAt ? new Date(b.createdAt).getTime() : 0;
-          comparison = aCreated - bCreated;
-          break;
-        case 'buyerName':
-          comparison = `${a.buyer?.firstName} ${a.buyer?.lastName}`.localeCompare(
-            `${b.buyer?.firstName} ${b.buyer?.lastName}`
-          );
-          break;
-        case 'propertyAddress':
-          comparison = (a.property?.address || '').localeCompare(
-            b.property?.address || ''
-          );
-          break;
-        case 'price':
-          comparison = (a.property?.price || 0) - (b.property?.price || 0);
-          break;
-        default:
-          comparison = 0;
-      }
-
-      return sortDirection === 'asc' ? comparison : -comparison;
-    });
-  }, [deals, filters, sortField, sortDirection]);
+  const { data, isLoading, isFetching, error } = useDealsPage(
+    dealFilters,
+    { field: sortField, direction: sortDirection },
+    page,
+    PAGE_SIZE
+  );
+  const deals = data?.deals ?? [];
+  const total = data?.total ?? 0;
 
   // Check if filters are active
   const hasActiveFilters = filters && (
@@ -183,14 +131,12 @@ export function DealsListView({
   }
 
   // No deals at all
-  if (!deals || deals.length === 0) {
-    if (!hasActiveFilters) {
-      return <NoDealsEmptyState />;
-    }
+  if (total === 0 && !hasActiveFilters) {
+    return <NoDealsEmptyState />;
   }
 
   // No results after filtering
-  if (filteredAndSortedDeals.length === 0 && hasActiveFilters) {
+  if (total === 0 && hasActiveFilters) {
     return (
       <Card className="p-6">
         <NoResultsEmptyState />
@@ -201,11 +147,9 @@ export function DealsListView({
   return (
     <Card className="p-6">
       {/* Results count */}
-      <p className="text-sm text-muted-foreground mb-4">
-        {filteredAndSortedDeals.length} deal{filteredAndSortedDeals.length !== 1 ? 's' : ''}
-        {hasActiveFilters && deals && filteredAndSortedDeals.length !== deals.length && (
-          <span> of {deals.length}</span>
-        )}
+      <p className="text-sm text-muted-foreground mb-4 flex items-center gap-2">
+        {total} deal{total !== 1 ? 's' : ''}
+        {isFetching && <Loader2 className="h-3 w-3 animate-spin" />}
       </p>
 
       {/* Table */}
@@ -272,7 +216,7 @@ export function DealsListView({
             </TableRow>
           </TableHeader>
           <TableBody>
-            {filteredAndSortedDeals.map((deal) => (
+            {deals.map((deal) => (
               <TableRow
                 key={deal.id}
                 className="cursor-pointer hover:bg-muted/50"
@@ -326,6 +270,35 @@ export function DealsListView({
           </TableBody>
         </Table>
       </div>
+
+      {/* Pagination */}
+      {total > PAGE_SIZE && (
+        <div className="flex items-center justify-between mt-4">
+          <p className="text-sm text-muted-foreground">
+            Showing {page * PAGE_SIZE + 1}–{page * PAGE_SIZE + deals.length} of {total}
+          </p>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage((p) => Math.max(0, p - 1))}
+              disabled={page === 0 || isFetching}
+            >
+              <ChevronLeft className="h-4 w-4 mr-1" />
+              Previous
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage((p) => p + 1)}
+              disabled={data?.nextOffset == null || isFetching}
+            >
+              Next
+              <ChevronRight className="h-4 w-4 ml-1" />
+            </Button>
+          </div>
+        </div>
+      )}
     </Card>
   );
 }
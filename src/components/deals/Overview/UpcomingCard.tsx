@@ -1,13 +1,16 @@
 /**
  * UpcomingCard - List of upcoming showings
  *
- * Shows deals in "Showing Scheduled" stage, sorted by date.
+ * Shows deals with a scheduled showing, soonest first, with overdue
+ * showings flagged. Deals in "Showing Scheduled" without a date show as TBD.
  */
 
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Badge } from '@/components/ui/badge';
 import { Calendar, ArrowRight } from 'lucide-react';
+import { cn } from '@/lib/utils';
 import { BuyerAvatar } from '../Shared/BuyerAvatar';
 import { BuyerName } from '../Shared/BuyerName';
 import { NoUpcomingEmptyState } from '../Shared/DealEmptyState';
@@ -64,6 +67,8 @@ export function UpcomingCard({
     );
   }
 
+  const overdueCount = deals.filter((d) => d.isShowingOverdue).length;
+
   return (
     <Card className="p-6">
       <div className="flex items-center justify-between mb-4">
@@ -74,6 +79,9 @@ export function UpcomingCard({
         {deals.length > 0 && (
           <span className="text-sm text-muted-foreground">
             {deals.length} scheduled
+            {overdueCount > 0 && (
+              <span className="text-red-600"> • {overdueCount} overdue</span>
+            )}
           </span>
         )}
       </div>
@@ -83,11 +91,11 @@ export function UpcomingCard({
       ) : (
         <div className="space-y-2">
           {deals.map((deal) => {
-            // Try to get showing date from activities metadata
+            // Prefer the showing record; fall back to the activity metadata
             const showingActivity = deal.activities?.find(
               (a) => a.type === 'showing-scheduled'
             );
-            const showingDate = showingActivity?.metadata?.showingDate;
+            const showingDate = deal.showing?.startTime || showingActivity?.metadata?.showingDate;
 
             return (
               <div
@@ -110,9 +118,26 @@ export function UpcomingCard({
                     qualified={deal.buyer?.qualified}
                     className="text-xs text-muted-foreground truncate"
                   />
+                  {deal.showing?.agentName && (
+                    <p className="text-xs text-muted-foreground truncate">
+                      Agent: {deal.showing.agentName}
+                    </p>
+                  )}
                 </div>
-                <div className="text-sm font-medium text-purple-600 flex-shrink-0">
-                  {formatUpcomingDate(showingDate)}
+                <div className="flex flex-col items-end gap-1 flex-shrink-0">
+                  <span
+                    className={cn(
+                      'text-sm font-medium',
+                      deal.isShowingOverdue ? 'text-red-600' : 'text-purple-600'
+                    )}
+                  >
+                    {formatUpcomingDate(showingDate)}
+                  </span>
+                  {deal.isShowingOverdue && (
+                    <Badge variant="destructive" className="text-[10px] px-1.5 py-0">
+                      Overdue
+                    </Badge>
+                  )}
                 </div>
               </div>
             );
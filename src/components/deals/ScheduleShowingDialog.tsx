@@ -0,0 +1,271 @@
+/**
+ * ScheduleShowingDialog - Schedule, reschedule or close out a deal's showing
+ *
+ * The showing is mirrored to the GHL showing calendar, and the buyer gets
+ * SMS/email reminders ahead of it.
+ */
+
+import { useEffect, useState } from 'react';
+import { Calendar, CheckCircle, Loader2, XCircle } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  isShowingOverdue,
+  useDealShowings,
+  useScheduleShowing,
+  useUpdateShowing,
+  type ShowingSyncResult,
+} from '@/services/showingsApi';
+import { useAuthStore } from '@/store/useAuthStore';
+import type { Deal, Showing, ShowingStatus } from '@/types/deals';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+
+interface ScheduleShowingDialogProps {
+  deal: Deal;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Called after a showing is scheduled or rescheduled */
+  onScheduled?: (showing: Showing, rescheduled: boolean) => void | Promise<void>;
+}
+
+const DURATION_OPTIONS = [15, 30, 45, 60, 90];
+
+function toFormState(showing: Showing | undefined, defaultAgent: string) {
+  const start = showing ? new Date(showing.startTime) : null;
+  const minutes = showing
+    ? Math.round((new Date(showing.endTime).getTime() - new Date(showing.startTime).getTime()) / 60000)
+    : 30;
+
+  return {
+    date: start ? format(start, 'yyyy-MM-dd') : '',
+    time: start ? format(start, 'HH:mm') : '10:00',
+    duration: String(DURATION_OPTIONS.includes(minutes) ? minutes : 30),
+    agentName: showing?.agentName ?? defaultAgent,
+    accessNotes: showing?.accessNotes ?? '',
+  };
+}
+
+export function ScheduleShowingDialog({ deal, open, onOpenChange, onScheduled }: ScheduleShowingDialogProps) {
+  const userName = useAuthStore((state) => state.user?.name) || '';
+  const { data: showings = [], isLoading } = useDealShowings(open ? deal.id : undefined);
+  const scheduleShowing = useScheduleShowing();
+  const updateShowing = useUpdateShowing();
+
+  // The open showing (if any) is what this dialog reschedules
+  const current = showings.find((s) => s.status === 'scheduled');
+  const [form, setForm] = useState(() => toFormState(current, userName));
+
+  useEffect(() => {
+    if (open) setForm(toFormState(current, userName));
+  }, [open, current, userName]);
+
+  const isSaving = scheduleShowing.isPending || updateShowing.isPending;
+
+  const reportSync = (result: ShowingSyncResult, message: string) => {
+    if (result.calendarSynced) {
+      toast.success(`${message} (added to GHL calendar)`);
+    } else {
+      toast.warning(`${message}, but the GHL calendar was not updated: ${result.calendarError || 'unknown error'}`);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const startTime = new Date(`${form.date}T${form.time}`);
+    if (Number.isNaN(startTime.getTime())) {
+      toast.error('Please pick a date and time');
+      return;
+    }
+
+    try {
+      if (current) {
+        const result = await updateShowing.mutateAsync({
+          showingId: current.id,
+          startTime: startTime.toISOString(),
+          durationMinutes: Number(form.duration),
+          agentName: form.agentName,
+          accessNotes: form.accessNotes,
+        });
+        reportSync(result, 'Showing rescheduled');
+        await onScheduled?.(result.showing, true);
+      } else {
+        const result = await scheduleShowing.mutateAsync({
+          dealId: deal.id,
+          contactId: deal.buyer?.contactId || deal.contactId,
+          buyerName: `${deal.buyer?.firstName || ''} ${deal.buyer?.lastName || ''}`.trim(),
+          propertyCode: deal.property?.propertyCode,
+          propertyAddress: deal.property?.address || 'Unknown Property',
+          startTime: startTime.toISOString(),
+          durationMinutes: Number(form.duration),
+          agentName: form.agentName,
+          accessNotes: form.accessNotes,
+        });
+        reportSync(result, 'Showing scheduled');
+        await onScheduled?.(result.showing, false);
+      }
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save showing');
+    }
+  };
+
+  const handleClose = async (status: ShowingStatus) => {
+    if (!current) return;
+    try {
+      await updateShowing.mutateAsync({ showingId: current.id, status });
+      toast.success(status === 'cancelled' ? 'Showing cancelled' : `Showing marked ${status}`);
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update showing');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Calendar className="h-5 w-5 text-purple-600" />
+            {current ? 'Reschedule Showing' : 'Schedule Showing'}
+          </DialogTitle>
+          <DialogDescription>
+            {deal.property?.address || 'Unknown Property'} with {deal.buyer?.firstName} {deal.buyer?.lastName}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {current && (
+              <div className="flex items-center justify-between rounded-lg border border-border p-3 text-sm">
+                <span>
+                  Currently {format(new Date(current.startTime), 'EEE, MMM d • h:mm a')}
+                </span>
+                {isShowingOverdue(current) && <Badge variant="destructive">Overdue</Badge>}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="showing-date">Date</Label>
+                <Input
+                  id="showing-date"
+                  type="date"
+                  value={form.date}
+                  onChange={(e) => setForm({ ...form, date: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="showing-time">Time</Label>
+                <Input
+                  id="showing-time"
+                  type="time"
+                  value={form.time}
+                  onChange={(e) => setForm({ ...form, time: e.target.value })}
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="showing-agent">Agent</Label>
+                <Input
+                  id="showing-agent"
+                  value={form.agentName}
+                  onChange={(e) => setForm({ ...form, agentName: e.target.value })}
+                  placeholder="Who is showing it"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label>Duration</Label>
+                <Select value={form.duration} onValueChange={(duration) => setForm({ ...form, duration })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DURATION_OPTIONS.map((minutes) => (
+                      <SelectItem key={minutes} value={String(minutes)}>
+                        {minutes} min
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-1.5">
+              <Label htmlFor="showing-access">Access notes</Label>
+              <Textarea
+                id="showing-access"
+                value={form.accessNotes}
+                onChange={(e) => setForm({ ...form, accessNotes: e.target.value })}
+                placeholder="Lockbox code, gate instructions, occupant contact..."
+                rows={3}
+              />
+              <p className="text-xs text-muted-foreground">Internal only - never sent to the buyer.</p>
+            </div>
+
+            <DialogFooter className="gap-2 sm:justify-between">
+              {current ? (
+                <div className="flex gap-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleClose('completed')}
+                    disabled={isSaving}
+                  >
+                    <CheckCircle className="h-4 w-4 mr-1" />
+                    Completed
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleClose('cancelled')}
+                    disabled={isSaving}
+                    className="text-destructive"
+                  >
+                    <XCircle className="h-4 w-4 mr-1" />
+                    Cancel Showing
+                  </Button>
+                </div>
+              ) : (
+                <span />
+              )}
+              <Button type="submit" disabled={isSaving} className="bg-purple-600 hover:bg-purple-700 text-white">
+                {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {current ? 'Reschedule' : 'Schedule'}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
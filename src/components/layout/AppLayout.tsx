@@ -1,5 +1,6 @@
 import { Outlet } from 'react-router-dom';
 import { AppSidebar } from './AppSidebar';
+import { BulkSendJobMonitor } from '@/components/matching/BulkSendProgressOverlay';
 import { useAppStore } from '@/store/useAppStore';
 import { cn } from '@/lib/utils';
 
@@ -19,6 +20,7 @@ export function AppLayout() {
           <Outlet />
         </div>
       </main>
+      <BulkSendJobMonitor />
     </div>
   );
 }
@@ -4,7 +4,7 @@ import 'mapbox-gl/dist/mapbox-gl.css';
 import { Card, CardContent } from '@/components/ui/card';
 import { Bed, Bath, AlertCircle, Loader2 } from 'lucide-react';
 import type { Property } from '@/types';
-import { ZIP_COORDINATES } from '@/lib/proximityCalculator';
+import { getZIPCoordinates } from '@/lib/proximityCalculator';
 
 interface PropertyMapProps {
   properties: Property[];
@@ -326,7 +326,7 @@ export function PropertyMap({ properties, onPropertySelect, hoveredPropertyId, z
   useEffect(() => {
     if (!map.current || !mapLoaded || !zipCode || zipCode.length !== 5) return;
 
-    const coords = ZIP_COORDINATES[zipCode];
+    const coords = getZIPCoordinates(zipCode);
     if (coords) {
       map.current.flyTo({
         center: [coords.longitude, coords.latitude],
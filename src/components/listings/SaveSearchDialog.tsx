@@ -0,0 +1,185 @@
+import { useState } from 'react';
+import { Bell, Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { PhoneInput } from '@/components/ui/phone-input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { useSaveSearch, type AlertChannel, type SavedSearchFilters } from '@/services/savedSearchApi';
+import { toast } from 'sonner';
+
+interface SaveSearchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  filters: SavedSearchFilters;
+  favorites: string[];
+  filterSummary: string;
+}
+
+const CHANNEL_OPTIONS: { value: AlertChannel; label: string }[] = [
+  { value: 'email', label: 'Email' },
+  { value: 'sms', label: 'Text message' },
+  { value: 'both', label: 'Both' },
+];
+
+/**
+ * Lets a /listings visitor save their current filters and get alerted
+ * when new matching homes are listed
+ */
+export function SaveSearchDialog({
+  open,
+  onOpenChange,
+  filters,
+  favorites,
+  filterSummary,
+}: SaveSearchDialogProps) {
+  const saveSearch = useSaveSearch();
+  const [form, setForm] = useState({ firstName: '', lastName: '', email: '', phone: '' });
+  const [channel, setChannel] = useState<AlertChannel>('email');
+
+  const needsEmail = channel === 'email' || channel === 'both';
+  const needsPhone = channel === 'sms' || channel === 'both';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (needsEmail && !form.email) {
+      toast.error('Please enter your email for email alerts');
+      return;
+    }
+    if (needsPhone && !form.phone) {
+      toast.error('Please enter your phone number for text alerts');
+      return;
+    }
+
+    try {
+      const result = await saveSearch.mutateAsync({
+        firstName: form.firstName,
+        lastName: form.lastName,
+        email: form.email || undefined,
+        phone: form.phone || undefined,
+        channel,
+        filters,
+        favorites,
+      });
+      if (result.confirmationSentTo.length > 0) {
+        const where = result.confirmationSentTo.map((c) => (c === 'email' ? 'email' : 'texts')).join(' and ');
+        toast.success(`Search saved! Check your ${where} and confirm to start getting alerts.`);
+      } else if (result.confirmed) {
+        toast.success("Search saved! We'll let you know when new homes match.");
+      } else {
+        toast.error("Search saved, but we couldn't send the confirmation. Please call us to turn on alerts.");
+      }
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save search');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Bell className="h-5 w-5 text-purple-600" />
+            Save this search
+          </DialogTitle>
+          <DialogDescription>
+            Get an alert when a new home matches: <span className="font-medium text-foreground">{filterSummary}</span>
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="save-search-first">First name</Label>
+              <Input
+                id="save-search-first"
+                value={form.firstName}
+                onChange={(e) => setForm({ ...form, firstName: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="save-search-last">Last name</Label>
+              <Input
+                id="save-search-last"
+                value={form.lastName}
+                onChange={(e) => setForm({ ...form, lastName: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label>Send alerts by</Label>
+            <RadioGroup
+              value={channel}
+              onValueChange={(v) => setChannel(v as AlertChannel)}
+              className="flex gap-4"
+            >
+              {CHANNEL_OPTIONS.map((option) => (
+                <div key={option.value} className="flex items-center gap-2">
+                  <RadioGroupItem value={option.value} id={`save-search-${option.value}`} />
+                  <Label htmlFor={`save-search-${option.value}`} className="font-normal">
+                    {option.label}
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+
+          {needsEmail && (
+            <div className="space-y-1.5">
+              <Label htmlFor="save-search-email">Email</Label>
+              <Input
+                id="save-search-email"
+                type="email"
+                value={form.email}
+                onChange={(e) => setForm({ ...form, email: e.target.value })}
+              />
+            </div>
+          )}
+
+          {needsPhone && (
+            <div className="space-y-1.5">
+              <Label>Phone</Label>
+              <PhoneInput
+                value={form.phone}
+                onChange={(value) => setForm({ ...form, phone: value || '' })}
+                defaultCountry="US"
+              />
+            </div>
+          )}
+
+          {favorites.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Your {favorites.length} saved home{favorites.length === 1 ? '' : 's'} will be shared with our team.
+            </p>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={saveSearch.isPending || !form.firstName}
+              className="bg-purple-600 hover:bg-purple-700 text-white"
+            >
+              {saveSearch.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Search
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
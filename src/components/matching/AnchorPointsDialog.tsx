@@ -0,0 +1,217 @@
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2, MapPin, Plus, X, Save } from 'lucide-react';
+import { useUpdateBuyerAnchors } from '@/services/matchingApi';
+import type { AnchorPoint, AnchorPointType } from '@/types/matching';
+import { toast } from 'sonner';
+
+interface AnchorPointsDialogProps {
+  buyerId: string;
+  buyerName: string;
+  anchors: AnchorPoint[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ANCHOR_TYPE_OPTIONS: Array<{ type: AnchorPointType; label: string }> = [
+  { type: 'work', label: 'Work' },
+  { type: 'school', label: 'School' },
+  { type: 'family', label: 'Family' },
+  { type: 'other', label: 'Other' },
+];
+
+/**
+ * AnchorPointsDialog - Edit the places a buyer drives to regularly
+ *
+ * Once saved, location scoring uses drive time to these places
+ * ("22 min to work") instead of miles from the buyer's city.
+ */
+export function AnchorPointsDialog({
+  buyerId,
+  buyerName,
+  anchors,
+  open,
+  onOpenChange,
+}: AnchorPointsDialogProps) {
+  const [draftAnchors, setDraftAnchors] = useState<AnchorPoint[]>(anchors);
+  const [anchorType, setAnchorType] = useState<AnchorPointType>('work');
+  const [label, setLabel] = useState('');
+  const [address, setAddress] = useState('');
+  const [maxMinutes, setMaxMinutes] = useState('');
+  const { mutate: saveAnchors, isPending } = useUpdateBuyerAnchors();
+
+  // Reset draft whenever the dialog is reopened
+  useEffect(() => {
+    if (open) {
+      setDraftAnchors(anchors);
+      setLabel('');
+      setAddress('');
+      setMaxMinutes('');
+    }
+  }, [open, anchors]);
+
+  const handleAdd = () => {
+    const trimmed = address.trim();
+    if (!trimmed) return;
+    if (maxMinutes.trim() && !(Number(maxMinutes) > 0)) {
+      toast.error('Enter the longest drive in minutes');
+      return;
+    }
+
+    setDraftAnchors((prev) => [
+      ...prev,
+      {
+        id: `anchor-${Date.now()}`,
+        type: anchorType,
+        label: label.trim() || anchorType,
+        address: trimmed,
+        maxMinutes: maxMinutes.trim() ? Number(maxMinutes) : undefined,
+        createdAt: new Date().toISOString(),
+      },
+    ]);
+    setLabel('');
+    setAddress('');
+    setMaxMinutes('');
+  };
+
+  const handleRemove = (anchorId: string) => {
+    setDraftAnchors((prev) => prev.filter((a) => a.id !== anchorId));
+  };
+
+  const handleSave = () => {
+    saveAnchors(
+      { buyerId, anchors: draftAnchors },
+      {
+        onSuccess: () => {
+          toast.success('Anchor points saved', {
+            description: 'Matches use the new drive times after the next matching run',
+          });
+          onOpenChange(false);
+        },
+        onError: (error) => {
+          toast.error(error.message || 'Failed to save anchor points');
+        },
+      }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <MapPin className="h-5 w-5" />
+            Anchor points for {buyerName}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {/* Current Anchors */}
+          <div className="space-y-2">
+            {draftAnchors.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No anchor points yet. Properties are scored on miles from the buyer's area.
+              </p>
+            ) : (
+              draftAnchors.map((anchor) => (
+                <div key={anchor.id} className="flex items-start gap-2 rounded-md border p-2 text-sm">
+                  <MapPin className="h-4 w-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium capitalize">{anchor.label}</div>
+                    <div className="text-muted-foreground truncate">{anchor.address}</div>
+                    {anchor.maxMinutes && (
+                      <div className="text-xs text-muted-foreground">Up to {anchor.maxMinutes} min drive</div>
+                    )}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => handleRemove(anchor.id)}
+                    className="rounded-sm p-0.5 hover:bg-muted"
+                    aria-label="Remove anchor point"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+
+          {/* Add Anchor */}
+          <div className="space-y-2">
+            <Label>Add anchor point</Label>
+            <div className="flex gap-2">
+              <Select value={anchorType} onValueChange={(value) => setAnchorType(value as AnchorPointType)}>
+                <SelectTrigger className="w-[120px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ANCHOR_TYPE_OPTIONS.map((option) => (
+                    <SelectItem key={option.type} value={option.type}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder={`Label (default "${anchorType}")`}
+                className="flex-1"
+              />
+            </div>
+            <div className="flex gap-2">
+              <Input
+                value={address}
+                onChange={(e) => setAddress(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+                placeholder="1514 Jefferson Hwy, New Orleans, LA 70121"
+                className="flex-1"
+              />
+              <Input
+                value={maxMinutes}
+                onChange={(e) => setMaxMinutes(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+                placeholder="Max min"
+                inputMode="numeric"
+                className="w-[90px]"
+              />
+              <Button variant="outline" size="icon" onClick={handleAdd} disabled={!address.trim()}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Properties are scored on drive time to every anchor. Drives longer than the max
+              (45 min if not set) are flagged as concerns.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isPending}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isPending}>
+            {isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+            Save Anchors
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,219 @@
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Check, X, Loader2, Clock, Ban, Mail } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { toast } from 'sonner';
+import {
+  isActiveSendJob,
+  useCancelSendJob,
+  useDriveSendJob,
+  useSendJob,
+  useSendJobs,
+} from '@/services/bulkSendApi';
+import type { SendJobItem } from '@/types/messaging';
+
+interface BulkSendProgressOverlayProps {
+  jobId: string | null;
+  onClose: () => void;
+}
+
+function ItemStatusIcon({ item }: { item: SendJobItem }) {
+  switch (item.status) {
+    case 'sent':
+      return <Check className="h-4 w-4 text-green-500 flex-shrink-0 mt-0.5" />;
+    case 'failed':
+      return <X className="h-4 w-4 text-red-500 flex-shrink-0 mt-0.5" />;
+    case 'skipped':
+      return <Ban className="h-4 w-4 text-amber-500 flex-shrink-0 mt-0.5" />;
+    default:
+      return item.nextAttemptAt ? (
+        <Clock className="h-4 w-4 text-muted-foreground flex-shrink-0 mt-0.5" />
+      ) : (
+        <Loader2 className="h-4 w-4 animate-spin text-primary flex-shrink-0 mt-0.5" />
+      );
+  }
+}
+
+function itemStatusText(item: SendJobItem): string {
+  switch (item.status) {
+    case 'sent':
+      return 'sent';
+    case 'failed':
+      return `failed after ${item.attempts} attempt${item.attempts === 1 ? '' : 's'}`;
+    case 'skipped':
+      return 'skipped';
+    case 'sending':
+      return 'sending';
+    default:
+      return item.nextAttemptAt
+        ? `retrying ${formatDistanceToNow(new Date(item.nextAttemptAt), { addSuffix: true })}`
+        : 'waiting';
+  }
+}
+
+/**
+ * Progress for a server-side bulk email job
+ * While open it drives the job from the browser; closing it leaves the job
+ * running on the server (reopen it from the BulkSendJobMonitor pill).
+ */
+export function BulkSendProgressOverlay({ jobId, onClose }: BulkSendProgressOverlayProps) {
+  const { data } = useSendJob(jobId);
+  const cancelJob = useCancelSendJob();
+  const job = data?.job;
+  const items = data?.items ?? [];
+  const isActive = isActiveSendJob(job);
+
+  useDriveSendJob(jobId, isActive);
+
+  const counts = job?.counts ?? { total: 0, queued: 0, sent: 0, failed: 0, skipped: 0 };
+  const processedCount = counts.sent + counts.failed + counts.skipped;
+  const progressPercentage = counts.total > 0 ? (processedCount / counts.total) * 100 : 0;
+
+  // Finished items first (newest at the top), then the ones still queued
+  const log = [...items].sort((a, b) => {
+    if (a.status === 'queued' || b.status === 'queued') {
+      return (a.status === 'queued' ? 1 : 0) - (b.status === 'queued' ? 1 : 0);
+    }
+    return (b.sentAt || '').localeCompare(a.sentAt || '');
+  });
+
+  const handleCancel = () => {
+    if (!jobId) return;
+    cancelJob.mutate(jobId, {
+      onSuccess: ({ job: cancelled }) => {
+        toast.info('Bulk send cancelled', {
+          description: `${cancelled.counts.sent} of ${cancelled.counts.total} emails were sent`,
+        });
+      },
+      onError: (error) => {
+        toast.error('Failed to cancel bulk send', { description: error.message });
+      },
+    });
+  };
+
+  return (
+    <Dialog open={!!jobId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>
+            {!job
+              ? 'Loading Send'
+              : job.status === 'completed'
+              ? 'Bulk Send Complete'
+              : job.status === 'cancelled'
+              ? 'Bulk Send Cancelled'
+              : 'Sending Property Emails'}
+          </DialogTitle>
+          <DialogDescription>
+            {job?.name}
+            {job && !isActive && ` — ${counts.sent} sent, ${counts.failed} failed, ${counts.skipped} skipped`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          {/* Progress Bar */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium">{Math.round(progressPercentage)}%</span>
+              <span className="text-muted-foreground">
+                {processedCount} / {counts.total}
+              </span>
+            </div>
+            <Progress value={progressPercentage} className="h-2" />
+            <div className="flex gap-4 text-xs text-muted-foreground">
+              <span className="text-green-600">{counts.sent} sent</span>
+              <span className="text-red-600">{counts.failed} failed</span>
+              <span className="text-amber-600">{counts.skipped} skipped</span>
+            </div>
+          </div>
+
+          {isActive && (
+            <p className="text-xs text-muted-foreground">
+              You can close this window — sending continues on the server.
+            </p>
+          )}
+
+          {/* Log */}
+          {log.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Recipients</h4>
+              <ScrollArea className="h-[240px] rounded-lg border">
+                <div className="p-3 space-y-2">
+                  {log.map((item) => (
+                    <div key={item.id} className="flex items-start gap-2 text-xs">
+                      <ItemStatusIcon item={item} />
+                      <div className="flex-1 min-w-0">
+                        <span className="font-medium">{item.contactName}</span>
+                        <span className="text-muted-foreground"> {itemStatusText(item)}</span>
+                        <div className="text-muted-foreground truncate">
+                          {item.contactEmail} · {item.propertyCount} {item.propertyCount === 1 ? 'property' : 'properties'}
+                        </div>
+                        {item.error && item.status !== 'sent' && (
+                          <div className="text-muted-foreground mt-0.5">{item.error}</div>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          {isActive && (
+            <Button variant="outline" onClick={handleCancel} disabled={cancelJob.isPending}>
+              {cancelJob.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+              Cancel Send
+            </Button>
+          )}
+          <Button onClick={onClose}>{isActive ? 'Close' : 'Done'}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Floating pill for bulk sends still running, so a closed progress dialog
+ * (or one started on another page) can be reopened
+ */
+export function BulkSendJobMonitor() {
+  const { data: jobs = [] } = useSendJobs(true);
+  const [openJobId, setOpenJobId] = useState<string | null>(null);
+  const active = jobs.filter(isActiveSendJob);
+
+  return (
+    <>
+      {active.length > 0 && (
+        <div className="fixed bottom-4 right-4 z-40 flex flex-col gap-2">
+          {active.map((job) => (
+            <button
+              key={job.id}
+              type="button"
+              onClick={() => setOpenJobId(job.id)}
+              className="flex items-center gap-2 rounded-full border bg-background px-4 py-2 text-sm shadow-lg hover:bg-muted"
+            >
+              <Mail className="h-4 w-4 text-primary" />
+              <span>
+                Sending emails {job.counts.sent + job.counts.failed + job.counts.skipped}/{job.counts.total}
+              </span>
+              <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />
+            </button>
+          ))}
+        </div>
+      )}
+      <BulkSendProgressOverlay jobId={openJobId} onClose={() => setOpenJobId(null)} />
+    </>
+  );
+}
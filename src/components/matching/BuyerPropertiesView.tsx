@@ -35,6 +35,8 @@ import {
   Eye,
   Check,
   TrendingUp,
+  Ban,
+  Navigation,
 } from 'lucide-react';
 import { useBuyerProperties, useBuyersList } from '@/services/matchingApi';
 import { useNavigate } from 'react-router-dom';
@@ -47,7 +49,9 @@ import { PropertySelectionBar } from './PropertySelectionBar';
 import { SendPropertiesModal } from './SendPropertiesModal';
 import { MatchDetailModal } from './MatchDetailModal';
 import { StageBadge } from './StageBadge';
-import type { ScoredProperty, BuyerCriteria } from '@/types/matching';
+import { ExclusionRulesDialog } from './ExclusionRulesDialog';
+import { AnchorPointsDialog } from './AnchorPointsDialog';
+import type { ScoredProperty, BuyerCriteria, ExclusionRule, AnchorPoint } from '@/types/matching';
 import { ArrowRight } from 'lucide-react';
 
 interface PropertyCardProps {
@@ -285,6 +289,9 @@ function PropertyCard({
   );
 }
 
+const NO_EXCLUSION_RULES: ExclusionRule[] = [];
+const NO_ANCHOR_POINTS: AnchorPoint[] = [];
+
 interface BuyerPropertiesViewProps {
   selectedBuyerId?: string | null;
   onBuyerSelect?: (buyerId: string | null) => void;
@@ -313,7 +320,10 @@ export function BuyerPropertiesView({
 
   const navigate = useNavigate();
   const { data: buyersList, isLoading: loadingBuyers } = useBuyersList();
-  const { data: buyerProperties, isLoading: loadingProperties, error } = useBuyerProperties(buyerId);
+  const { data: buyerProperties, isLoading: loadingProperties, error } = useBuyerProperties(
+    buyerId,
+    filters?.profileId && filters.profileId !== 'auto' ? filters.profileId : undefined
+  );
 
   // Filter buyers list based on search
   const filteredBuyersList = useMemo(() => {
@@ -387,6 +397,13 @@ export function BuyerPropertiesView({
   const [selectedProperty, setSelectedProperty] = useState<ScoredProperty | null>(null);
   const [detailModalOpen, setDetailModalOpen] = useState(false);
 
+  // State for deal-breaker rules dialog
+  const [exclusionsOpen, setExclusionsOpen] = useState(false);
+
+  // State for anchor points dialog
+  const [anchorsOpen, setAnchorsOpen] = useState(false);
+  const excludedProperties = buyerProperties?.excluded || [];
+
   // Selection handlers
   const togglePropertySelection = (recordId: string) => {
     setSelectedPropertyIds(prev => {
@@ -454,7 +471,7 @@ export function BuyerPropertiesView({
                 </h3>
                 <p className="text-sm text-muted-foreground">{buyerProperties.buyer.email}</p>
               </div>
-              <div className="flex gap-4 text-sm">
+              <div className="flex items-center gap-4 text-sm">
                 {(buyerProperties.buyer.desiredBeds || buyerProperties.buyer.desiredBaths) && (
                   <div className="flex items-center gap-1">
                     <Bed className="h-4 w-4 text-muted-foreground" />
@@ -480,6 +497,24 @@ export function BuyerPropertiesView({
                     <span>{buyerProperties.buyer.city || buyerProperties.buyer.preferredLocation}</span>
                   </div>
                 )}
+                <Button variant="outline" size="sm" onClick={() => setExclusionsOpen(true)}>
+                  <Ban className="h-4 w-4 mr-1" />
+                  Deal-breakers
+                  {(buyerProperties.buyer.exclusionRules?.length ?? 0) > 0 && (
+                    <Badge variant="secondary" className="ml-2">
+                      {buyerProperties.buyer.exclusionRules?.length}
+                    </Badge>
+                  )}
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setAnchorsOpen(true)}>
+                  <Navigation className="h-4 w-4 mr-1" />
+                  Commute
+                  {(buyerProperties.buyer.anchorPoints?.length ?? 0) > 0 && (
+                    <Badge variant="secondary" className="ml-2">
+                      {buyerProperties.buyer.anchorPoints?.length}
+                    </Badge>
+                  )}
+                </Button>
               </div>
             </div>
           </div>
@@ -541,6 +576,16 @@ export function BuyerPropertiesView({
                   <span className="ml-1 text-muted-foreground">/ {buyerProperties.totalCount}</span>
                 )}
               </Badge>
+              {excludedProperties.length > 0 && (
+                <Badge
+                  variant="outline"
+                  className="text-muted-foreground cursor-help"
+                  title={excludedProperties.map((p) => `${p.address}: ${p.reason}`).join('\n')}
+                >
+                  <Ban className="h-3 w-3 mr-1" />
+                  {excludedProperties.length} hidden by rule
+                </Badge>
+              )}
             </div>
 
             {filteredProperties && filteredProperties.length > 0 ? (
@@ -630,6 +675,28 @@ export function BuyerPropertiesView({
         />
       )}
 
+      {/* Deal-breaker Rules Dialog */}
+      {buyerProperties?.buyer && (
+        <ExclusionRulesDialog
+          buyerId={buyerProperties.buyer.recordId || buyerId || ''}
+          buyerName={`${buyerProperties.buyer.firstName} ${buyerProperties.buyer.lastName}`.trim()}
+          rules={buyerProperties.buyer.exclusionRules || NO_EXCLUSION_RULES}
+          open={exclusionsOpen}
+          onOpenChange={setExclusionsOpen}
+        />
+      )}
+
+      {/* Anchor Points Dialog */}
+      {buyerProperties?.buyer && (
+        <AnchorPointsDialog
+          buyerId={buyerProperties.buyer.recordId || buyerId || ''}
+          buyerName={`${buyerProperties.buyer.firstName} ${buyerProperties.buyer.lastName}`.trim()}
+          anchors={buyerProperties.buyer.anchorPoints || NO_ANCHOR_POINTS}
+          open={anchorsOpen}
+          onOpenChange={setAnchorsOpen}
+        />
+      )}
+
       {/* Floating Selection Bar */}
       {buyerProperties && (
         <PropertySelectionBar
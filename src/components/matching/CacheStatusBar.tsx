@@ -2,13 +2,41 @@ import { RefreshCw, Database, AlertTriangle, CheckCircle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { useMatchingData } from '@/hooks/useCache';
+import type { CacheChanges } from '@/types/cache';
+
+function changeParts(changes: CacheChanges | undefined): Array<{ count: number; verb: string }> {
+  if (!changes) return [];
+  return [
+    { count: changes.changed, verb: 'changed' },
+    { count: changes.added, verb: 'added' },
+    { count: changes.removed, verb: 'removed' },
+  ].filter((part) => part.count > 0);
+}
+
+/**
+ * "3 changed, 1 removed" for a badge
+ */
+function shortChanges(changes: CacheChanges | undefined): string | null {
+  const parts = changeParts(changes);
+  return parts.length > 0 ? parts.map((part) => `${part.count} ${part.verb}`).join(', ') : null;
+}
+
+/**
+ * "3 properties changed, 1 removed" for the stale warning
+ */
+function describeChanges(changes: CacheChanges | undefined, singular: string, plural: string): string | null {
+  const parts = changeParts(changes);
+  if (parts.length === 0) return null;
+
+  const [first, ...rest] = parts;
+  return [`${first.count} ${first.count === 1 ? singular : plural} ${first.verb}`, ...rest.map((part) => `${part.count} ${part.verb}`)].join(', ');
+}
 
 export function CacheStatusBar() {
   const {
     status,
     isStale,
-    newPropertiesAvailable,
-    newBuyersAvailable,
+    changes,
     propertiesCount,
     buyersCount,
     matchesCount,
@@ -17,6 +45,15 @@ export function CacheStatusBar() {
     isSyncing,
   } = useMatchingData();
 
+  const changeSummaries = [
+    describeChanges(changes?.properties, 'property', 'properties'),
+    describeChanges(changes?.buyers, 'buyer', 'buyers'),
+    describeChanges(changes?.matches, 'match', 'matches'),
+  ].filter(Boolean);
+  const propertyChanges = shortChanges(changes?.properties);
+  const buyerChanges = shortChanges(changes?.buyers);
+  const matchChanges = shortChanges(changes?.matches);
+
   const formatLastSynced = (date: string | null | undefined) => {
     if (!date) return 'Never';
     const diff = Date.now() - new Date(date).getTime();
@@ -50,24 +87,29 @@ export function CacheStatusBar() {
             <div className="flex items-center gap-1">
               <Database className="h-4 w-4" />
               <span>{propertiesCount} properties</span>
-              {newPropertiesAvailable > 0 && (
+              {propertyChanges && (
                 <Badge variant="secondary" className="ml-1 bg-amber-100 text-amber-700">
-                  +{newPropertiesAvailable} new
+                  {propertyChanges}
                 </Badge>
               )}
             </div>
 
             <div className="flex items-center gap-1">
               <span>{buyersCount} buyers</span>
-              {newBuyersAvailable > 0 && (
+              {buyerChanges && (
                 <Badge variant="secondary" className="ml-1 bg-amber-100 text-amber-700">
-                  +{newBuyersAvailable} new
+                  {buyerChanges}
                 </Badge>
               )}
             </div>
 
-            <div>
+            <div className="flex items-center gap-1">
               <span>{matchesCount} matches</span>
+              {matchChanges && (
+                <Badge variant="secondary" className="ml-1 bg-amber-100 text-amber-700">
+                  {matchChanges}
+                </Badge>
+              )}
             </div>
           </div>
 
@@ -92,12 +134,9 @@ export function CacheStatusBar() {
       {/* Stale Warning */}
       {isStale && (
         <div className="mt-3 text-sm text-amber-600 bg-amber-50 rounded p-2">
-          {newPropertiesAvailable > 0 && (
-            <span>{newPropertiesAvailable} new properties available. </span>
-          )}
-          {newBuyersAvailable > 0 && (
-            <span>{newBuyersAvailable} new buyers available. </span>
-          )}
+          {changeSummaries.map((summary) => (
+            <span key={summary}>{summary}. </span>
+          ))}
           <span>Click "Sync Now" to update the cache.</span>
         </div>
       )}
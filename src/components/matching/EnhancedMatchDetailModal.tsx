@@ -29,6 +29,7 @@ import {
   ClipboardList,
   ChevronDown,
   Calculator,
+  Calendar,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import {
@@ -82,6 +83,7 @@ interface EnhancedMatchDetailModalProps {
   onEditNote?: (matchId: string, noteId: string, newText: string) => Promise<void>;
   onDeleteNote?: (matchId: string, noteId: string) => Promise<void>;
   onSendEmail?: (matchId: string) => Promise<void>;
+  onScheduleShowing?: () => void;
 }
 
 export function EnhancedMatchDetailModal({
@@ -93,6 +95,7 @@ export function EnhancedMatchDetailModal({
   onEditNote,
   onDeleteNote,
   onSendEmail,
+  onScheduleShowing,
 }: EnhancedMatchDetailModalProps) {
   const [isUpdating, setIsUpdating] = useState(false);
   const [activeTab, setActiveTab] = useState<'property' | 'progress' | 'activity'>('property');
@@ -617,6 +620,17 @@ export function EnhancedMatchDetailModal({
               Deal Calculator
             </Button>
             <div className="flex items-center gap-2">
+              {onScheduleShowing && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={onScheduleShowing}
+                  className="gap-1"
+                >
+                  <Calendar className="h-3 w-3" />
+                  Showing
+                </Button>
+              )}
               {match.status && (
                 <Button
                   variant="outline"
@@ -656,8 +670,10 @@ export function EnhancedMatchDetailModal({
         sqft: property.sqft,
         address: property.address,
         propertyCode: property.propertyCode,
+        images: [property.heroImage, ...(property.images || [])].filter((url): url is string => !!url),
       } : undefined}
       buyerContactId={buyer?.contactId}
+      buyerName={buyer ? `${buyer.firstName} ${buyer.lastName}` : undefined}
     />
   </>
   );
@@ -0,0 +1,229 @@
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Ban, Loader2, Plus, X, Save } from 'lucide-react';
+import { useUpdateBuyerExclusions } from '@/services/matchingApi';
+import type { ExclusionRule, ExclusionRuleType } from '@/types/matching';
+import { toast } from 'sonner';
+
+interface ExclusionRulesDialogProps {
+  buyerId: string;
+  buyerName: string;
+  rules: ExclusionRule[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const RULE_OPTIONS: Array<{ type: ExclusionRuleType; label: string; placeholder: string; numeric: boolean }> = [
+  { type: 'property-type', label: 'Exclude property type', placeholder: 'Mobile Home', numeric: false },
+  { type: 'max-price', label: 'Max price', placeholder: '250000', numeric: true },
+  { type: 'max-monthly-payment', label: 'Max monthly payment', placeholder: '1800', numeric: true },
+  { type: 'zip-code', label: 'Exclude ZIP code', placeholder: '70112', numeric: false },
+  { type: 'min-beds', label: 'Min bedrooms', placeholder: '3', numeric: true },
+  { type: 'min-condition', label: 'Min condition', placeholder: 'Fair', numeric: false },
+];
+
+const CONDITION_OPTIONS = ['Excellent', 'Great', 'Good', 'Fair', 'Needs Some Repair', 'Poor'];
+
+/**
+ * Human readable summary of a rule (e.g. "Max price: $250,000")
+ */
+function describeRule(rule: ExclusionRule): string {
+  const option = RULE_OPTIONS.find((o) => o.type === rule.type);
+  const value = rule.type === 'max-price' || rule.type === 'max-monthly-payment'
+    ? `$${Number(rule.value).toLocaleString()}`
+    : String(rule.value);
+  return `${option?.label || rule.type}: ${value}`;
+}
+
+/**
+ * ExclusionRulesDialog - Edit a buyer's deal-breakers
+ *
+ * Properties that break any rule are never matched to the buyer.
+ * Saving removes existing matches the new rules exclude.
+ */
+export function ExclusionRulesDialog({
+  buyerId,
+  buyerName,
+  rules,
+  open,
+  onOpenChange,
+}: ExclusionRulesDialogProps) {
+  const [draftRules, setDraftRules] = useState<ExclusionRule[]>(rules);
+  const [ruleType, setRuleType] = useState<ExclusionRuleType>('property-type');
+  const [ruleValue, setRuleValue] = useState('');
+  const { mutate: saveRules, isPending } = useUpdateBuyerExclusions();
+
+  // Reset draft whenever the dialog is reopened
+  useEffect(() => {
+    if (open) {
+      setDraftRules(rules);
+      setRuleValue('');
+    }
+  }, [open, rules]);
+
+  const selectedOption = RULE_OPTIONS.find((o) => o.type === ruleType) || RULE_OPTIONS[0];
+
+  const handleAdd = () => {
+    const trimmed = ruleValue.trim();
+    if (!trimmed) return;
+    if (selectedOption.numeric && isNaN(Number(trimmed))) {
+      toast.error('Enter a number for this rule');
+      return;
+    }
+
+    setDraftRules((prev) => [
+      ...prev,
+      {
+        id: `rule-${Date.now()}`,
+        type: ruleType,
+        value: selectedOption.numeric ? Number(trimmed) : trimmed,
+        createdAt: new Date().toISOString(),
+      },
+    ]);
+    setRuleValue('');
+  };
+
+  const handleRemove = (ruleId: string) => {
+    setDraftRules((prev) => prev.filter((r) => r.id !== ruleId));
+  };
+
+  const handleSave = () => {
+    saveRules(
+      { buyerId, rules: draftRules },
+      {
+        onSuccess: (result) => {
+          toast.success(
+            result.matchesRemoved > 0
+              ? `Deal-breakers saved, removed ${result.matchesRemoved} match${result.matchesRemoved === 1 ? '' : 'es'}`
+              : 'Deal-breakers saved'
+          );
+          onOpenChange(false);
+        },
+        onError: (error) => {
+          toast.error(error.message || 'Failed to save deal-breakers');
+        },
+      }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Ban className="h-5 w-5" />
+            Deal-breakers for {buyerName}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {/* Current Rules */}
+          <div className="space-y-2">
+            {draftRules.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No deal-breakers yet. Every property is scored for this buyer.
+              </p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {draftRules.map((rule) => (
+                  <Badge key={rule.id} variant="outline" className="gap-1 pr-1">
+                    {describeRule(rule)}
+                    <button
+                      type="button"
+                      onClick={() => handleRemove(rule.id)}
+                      className="rounded-sm p-0.5 hover:bg-muted"
+                      aria-label="Remove rule"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Add Rule */}
+          <div className="space-y-2">
+            <Label>Add rule</Label>
+            <div className="flex gap-2">
+              <Select
+                value={ruleType}
+                onValueChange={(value) => {
+                  setRuleType(value as ExclusionRuleType);
+                  setRuleValue('');
+                }}
+              >
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RULE_OPTIONS.map((option) => (
+                    <SelectItem key={option.type} value={option.type}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {ruleType === 'min-condition' ? (
+                <Select value={ruleValue} onValueChange={setRuleValue}>
+                  <SelectTrigger className="flex-1">
+                    <SelectValue placeholder="Condition" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CONDITION_OPTIONS.map((condition) => (
+                      <SelectItem key={condition} value={condition}>
+                        {condition}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Input
+                  value={ruleValue}
+                  onChange={(e) => setRuleValue(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+                  placeholder={selectedOption.placeholder}
+                  inputMode={selectedOption.numeric ? 'numeric' : 'text'}
+                  className="flex-1"
+                />
+              )}
+              <Button variant="outline" size="icon" onClick={handleAdd} disabled={!ruleValue.trim()}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Properties that break any rule are hidden from this buyer and existing matches are removed.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isPending}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isPending}>
+            {isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+            Save Rules
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,7 +2,8 @@
  * MatchActivityTimeline - Activity history for a buyer-property match
  *
  * Displays chronological history of activities for a specific match,
- * including stage changes, emails sent, showings, and notes.
+ * including stage changes, messages sent, showings, and notes. Actions
+ * taken by automation rules show "automation" as the user.
  */
 
 import { useState } from 'react';
@@ -14,23 +15,31 @@ import {
   CheckCircle,
   MessageSquare,
   FileText,
+  FileSignature,
   RefreshCw,
+  Send,
+  Smartphone,
   Sparkles,
   ChevronDown,
   ChevronUp,
+  Reply,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { MatchActivity, MatchActivityType } from '@/types/matching';
+import { MatchActivity, MatchActivityType, ReplyIntent } from '@/types/matching';
 
 // Activity icon mapping
 const activityIcons: Record<MatchActivityType, React.ComponentType<{ className?: string }>> = {
   'stage-change': ArrowRight,
   'email-sent': Mail,
+  'sms-sent': Smartphone,
+  'sms-email-sent': Send,
   'showing-scheduled': Calendar,
   'showing-completed': CheckCircle,
   'note-added': MessageSquare,
   'offer-submitted': FileText,
+  'document-sent': FileSignature,
   'match-created': Sparkles,
 };
 
@@ -38,13 +47,25 @@ const activityIcons: Record<MatchActivityType, React.ComponentType<{ className?:
 const activityColors: Record<MatchActivityType, { bg: string; text: string; icon: string }> = {
   'stage-change': { bg: 'bg-blue-100', text: 'text-blue-700', icon: 'text-blue-600' },
   'email-sent': { bg: 'bg-purple-100', text: 'text-purple-700', icon: 'text-purple-600' },
+  'sms-sent': { bg: 'bg-teal-100', text: 'text-teal-700', icon: 'text-teal-600' },
+  'sms-email-sent': { bg: 'bg-violet-100', text: 'text-violet-700', icon: 'text-violet-600' },
   'showing-scheduled': { bg: 'bg-amber-100', text: 'text-amber-700', icon: 'text-amber-600' },
   'showing-completed': { bg: 'bg-emerald-100', text: 'text-emerald-700', icon: 'text-emerald-600' },
   'note-added': { bg: 'bg-gray-100', text: 'text-gray-700', icon: 'text-gray-600' },
   'offer-submitted': { bg: 'bg-orange-100', text: 'text-orange-700', icon: 'text-orange-600' },
+  'document-sent': { bg: 'bg-rose-100', text: 'text-rose-700', icon: 'text-rose-600' },
   'match-created': { bg: 'bg-indigo-100', text: 'text-indigo-700', icon: 'text-indigo-600' },
 };
 
+// Buyer reply intent badges
+const replyIntentStyles: Record<ReplyIntent, { label: string; className: string }> = {
+  yes: { label: 'Interested', className: 'bg-green-100 text-green-700 border-green-200' },
+  no: { label: 'Not interested', className: 'bg-gray-100 text-gray-700 border-gray-200' },
+  stop: { label: 'Opted out', className: 'bg-red-100 text-red-700 border-red-200' },
+  question: { label: 'Question', className: 'bg-amber-100 text-amber-700 border-amber-200' },
+  other: { label: 'Reply', className: 'bg-slate-100 text-slate-700 border-slate-200' },
+};
+
 // Format date for grouping
 const formatDateGroup = (dateStr: string): string => {
   const date = parseISO(dateStr);
@@ -161,6 +182,29 @@ export function MatchActivityTimeline({
             </div>
           )}
 
+          {/* Buyer replies to this SMS */}
+          {activity.metadata?.replies && activity.metadata.replies.length > 0 && (
+            <div className="mt-2 space-y-1.5">
+              {activity.metadata.replies.map((reply, index) => (
+                <div
+                  key={reply.messageId || index}
+                  className="flex items-start gap-2 rounded-md border border-border bg-muted/40 px-2.5 py-1.5"
+                >
+                  <Reply className="h-3.5 w-3.5 mt-0.5 shrink-0 text-muted-foreground" />
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm break-words">{reply.message}</p>
+                    <div className="mt-1 flex items-center gap-2 text-xs text-muted-foreground">
+                      <Badge variant="outline" className={cn('px-1.5 py-0 text-[10px]', replyIntentStyles[reply.intent]?.className)}>
+                        {replyIntentStyles[reply.intent]?.label ?? reply.intent}
+                      </Badge>
+                      <span>{format(parseISO(reply.receivedAt), 'MMM d, h:mm a')}</span>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Time and user */}
           <div className="mt-1 flex items-center gap-2 text-xs text-muted-foreground">
             <span>{formatTime(activity.timestamp)}</span>
@@ -39,6 +39,10 @@ import { MatchSectionDivider } from './MatchSectionDivider';
 import { MatchScoreBadge } from './MatchScoreBadge';
 import { StageBadge } from './StageBadge';
 import { MatchDetailModal } from './MatchDetailModal';
+import { BulkSendProgressOverlay } from './BulkSendProgressOverlay';
+import { useStartBulkSend } from '@/services/bulkSendApi';
+import { convertPropertyDetailsToProperty } from '@/lib/propertyTypeAdapter';
+import { toast } from 'sonner';
 import type { ScoredBuyer, PropertyDetails } from '@/types/matching';
 import type { MatchDealStage } from '@/types/associations';
 
@@ -225,6 +229,10 @@ export function PropertyBuyersView({
   const [selectedBuyer, setSelectedBuyer] = useState<ScoredBuyer | null>(null);
   const [detailModalOpen, setDetailModalOpen] = useState(false);
 
+  // Bulk email to the top engaged buyers (runs as a server-side send job)
+  const [sendJobId, setSendJobId] = useState<string | null>(null);
+  const startBulkSend = useStartBulkSend();
+
   // Use external state if provided, otherwise use internal state
   const propertyCode = externalPropertyCode !== undefined ? externalPropertyCode : internalPropertyCode;
 
@@ -244,7 +252,10 @@ export function PropertyBuyersView({
   const propertiesList = propertiesData?.data || [];
 
   // Fetch buyers for selected property
-  const { data: propertyBuyersData, isLoading: loadingBuyers, error } = usePropertyBuyers(propertyCode);
+  const { data: propertyBuyersData, isLoading: loadingBuyers, error } = usePropertyBuyers(
+    propertyCode,
+    filters?.profileId && filters.profileId !== 'auto' ? filters.profileId : undefined
+  );
 
   // Filter properties list based on search
   const filteredPropertiesList = useMemo(() => {
@@ -306,6 +317,28 @@ export function PropertyBuyersView({
   // For backward compatibility
   const interestedBuyers = filteredBuyers.interested;
   const potentialBuyers = filteredBuyers.potential;
+  const emailableBuyers = interestedBuyers.filter((sb) => sb.buyer.contactId && sb.buyer.email);
+
+  const handleEmailTopBuyers = () => {
+    if (!propertyBuyersData || emailableBuyers.length === 0) return;
+    const property = convertPropertyDetailsToProperty(propertyBuyersData.property);
+
+    startBulkSend.mutate(
+      {
+        name: `${property.address} to ${emailableBuyers.length} ${emailableBuyers.length === 1 ? 'buyer' : 'buyers'}`,
+        contacts: emailableBuyers.map((sb) => ({
+          contactId: sb.buyer.contactId,
+          contactName: `${sb.buyer.firstName} ${sb.buyer.lastName}`.trim(),
+          contactEmail: sb.buyer.email,
+          properties: [property],
+        })),
+      },
+      {
+        onSuccess: (job) => setSendJobId(job.id),
+        onError: (error) => toast.error('Failed to start bulk send', { description: error.message }),
+      }
+    );
+  };
 
   return (
     <div className="space-y-6">
@@ -455,9 +488,24 @@ export function PropertyBuyersView({
                     <Target className="h-5 w-5 text-purple-500" />
                     Top Engaged Buyers
                   </h3>
-                  <Badge variant="secondary" className="bg-purple-100 text-purple-700">
-                    {interestedBuyers.length} {interestedBuyers.length === 1 ? 'buyer' : 'buyers'}
-                  </Badge>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={handleEmailTopBuyers}
+                      disabled={emailableBuyers.length === 0 || startBulkSend.isPending}
+                    >
+                      {startBulkSend.isPending ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <Mail className="h-4 w-4 mr-2" />
+                      )}
+                      Email {emailableBuyers.length} {emailableBuyers.length === 1 ? 'buyer' : 'buyers'}
+                    </Button>
+                    <Badge variant="secondary" className="bg-purple-100 text-purple-700">
+                      {interestedBuyers.length} {interestedBuyers.length === 1 ? 'buyer' : 'buyers'}
+                    </Badge>
+                  </div>
                 </div>
 
                 <div className="grid grid-cols-1 gap-3">
@@ -547,6 +595,8 @@ export function PropertyBuyersView({
           />
         </div>
       )}
+
+      <BulkSendProgressOverlay jobId={sendJobId} onClose={() => setSendJobId(null)} />
     </div>
   );
 }
@@ -15,12 +15,16 @@ import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
 import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
-import { sendPropertyEmail, sendPropertySMS, generatePropertySMS } from '@/services/emailService';
+import { sendPropertyEmail, sendPropertySMS, MessageBlockedError } from '@/services/emailService';
+import { generatePropertySMS } from '@/lib/propertyEmailTemplate';
+import { useMessageConsent } from '@/services/ghlApi';
 import { convertPropertyDetailsToProperty } from '@/lib/propertyTypeAdapter';
 import { syncMatchStageToGhl } from '@/services/ghlAssociationsApi';
 import { STAGE_ASSOCIATION_IDS } from '@/types/associations';
 import { EmailPreview } from './EmailPreview';
 import type { ScoredProperty, BuyerCriteria, MatchActivity, MatchActivityType } from '@/types/matching';
+import type { MessageBlock } from '@/types/messaging';
+import { useAuthStore } from '@/store/useAuthStore';
 
 const AIRTABLE_API_BASE = '/api/airtable';
 
@@ -61,6 +65,7 @@ async function updateMatchStages(
         type: activityType,
         timestamp: new Date().toISOString(),
         details: activityDetails,
+        user: useAuthStore.getState().user?.name,
         metadata: {
           recipientEmail: buyer.email,
           recipientPhone: buyer.phone,
@@ -184,6 +189,11 @@ export function SendPropertiesModal({
   const canSendSMS = !!buyer.phone;
   const canSendEmail = !!buyer.email;
 
+  // Opt-outs, quiet hours and daily cap (the send itself is checked again on the server)
+  const { data: consentData } = useMessageConsent(buyer.contactId, open);
+  const smsConsent = consentData?.consent.sms;
+  const emailConsent = consentData?.consent.email;
+
   // Generate SMS message when properties change or preview is opened
   useEffect(() => {
     if (showSMSPreview && properties.length > 0) {
@@ -225,38 +235,65 @@ export function SendPropertiesModal({
       );
 
       const sentMethods: string[] = [];
+      const blocked: MessageBlock[] = [];
 
       // Step 1: Send SMS if enabled
       if (willSendSMS) {
         const messageToSend = smsMessage || generatePropertySMS(buyer.firstName, convertedProperties, buyer.language || 'English');
-        await sendPropertySMS(
-          { contactId: buyer.contactId, firstName: buyer.firstName, phone: buyer.phone },
-          messageToSend
-        );
-        sentMethods.push('SMS');
+        try {
+          await sendPropertySMS(
+            { contactId: buyer.contactId, firstName: buyer.firstName, phone: buyer.phone },
+            messageToSend
+          );
+          sentMethods.push('SMS');
+        } catch (error) {
+          if (!(error instanceof MessageBlockedError)) throw error;
+          blocked.push(error.block);
+        }
       }
 
       // Step 2: Send Email if enabled
       if (willSendEmail) {
         const isSpanish = buyer.language === 'Spanish';
-        await sendPropertyEmail({
-          contactId: buyer.contactId,
-          contactName: `${buyer.firstName} ${buyer.lastName}`,
-          contactEmail: buyer.email,
-          properties: convertedProperties,
-          subject: isSpanish
-            ? `Tus ${properties.length} Propiedades Encontradas de Purple Homes`
-            : `Your ${properties.length} Matched Properties from Purple Homes`,
-          customMessage: customMessage || undefined,
-          language: buyer.language || 'English',
+        try {
+          await sendPropertyEmail({
+            contactId: buyer.contactId,
+            contactName: `${buyer.firstName} ${buyer.lastName}`,
+            contactEmail: buyer.email,
+            properties: convertedProperties,
+            subject: isSpanish
+              ? `Tus ${properties.length} Propiedades Encontradas de Purple Homes`
+              : `Your ${properties.length} Matched Properties from Purple Homes`,
+            customMessage: customMessage || undefined,
+            language: buyer.language || 'English',
+          });
+          sentMethods.push('Email');
+        } catch (error) {
+          if (!(error instanceof MessageBlockedError)) throw error;
+          blocked.push(error.block);
+        }
+      }
+
+      const blockedDescription = blocked
+        .map((b) => `${b.channel === 'sms' ? 'SMS' : 'Email'}: ${b.message}`)
+        .join(' • ');
+
+      // Everything blocked: nothing went out, so the deals don't move
+      if (sentMethods.length === 0) {
+        toast.warning(`Nothing sent to ${buyer.firstName}`, {
+          description: blockedDescription,
+          duration: 8000,
         });
-        sentMethods.push('Email');
+        queryClient.invalidateQueries({ queryKey: ['ghl-message-consent', buyer.contactId] });
+        return;
       }
 
-      // Determine activity type
-      const activityType: MatchActivityType = willSendSMS && willSendEmail
+      // Determine activity type from what actually went out
+      const sentSMS = sentMethods.includes('SMS');
+      const sentEmail = sentMethods.includes('Email');
+      const activityType: MatchActivityType = sentSMS && sentEmail
         ? 'sms-email-sent'
-        : willSendSMS
+        : sentSMS
         ? 'sms-sent'
         : 'email-sent';
 
@@ -284,13 +321,11 @@ export function SendPropertiesModal({
 
       // Step 5: Invalidate queries so UI updates
       queryClient.invalidateQueries({ queryKey: ['deals'] });
-      queryClient.invalidateQueries({ queryKey: ['pipeline-stats'] });
-      queryClient.invalidateQueries({ queryKey: ['deals-by-stage'] });
-      queryClient.invalidateQueries({ queryKey: ['deals-by-buyer'] });
-      queryClient.invalidateQueries({ queryKey: ['stale-deals'] });
+      queryClient.invalidateQueries({ queryKey: ['deals-page'] });
       queryClient.invalidateQueries({ queryKey: ['buyers-with-matches'] });
       queryClient.invalidateQueries({ queryKey: ['buyer-properties'] });
       queryClient.invalidateQueries({ queryKey: ['cache', 'matches'] });
+      queryClient.invalidateQueries({ queryKey: ['ghl-message-consent', buyer.contactId] });
 
       // Step 6: Show success toast with View in Pipeline action
       const sentDescription = sentMethods.join(' & ') + ' sent';
@@ -308,6 +343,10 @@ export function SendPropertiesModal({
         }
       );
 
+      if (blocked.length > 0) {
+        toast.warning('Some messages were not sent', { description: blockedDescription, duration: 8000 });
+      }
+
       // Call success callback
       onSendSuccess?.();
 
@@ -442,6 +481,12 @@ export function SendPropertiesModal({
                   <p className="text-xs text-muted-foreground">
                     {canSendSMS ? 'Recommended - faster response' : 'No phone number on file'}
                   </p>
+                  {canSendSMS && smsConsent && !smsConsent.allowed && (
+                    <p className="text-xs text-amber-700 flex items-center gap-1 mt-0.5">
+                      <AlertCircle className="h-3 w-3 shrink-0" />
+                      {smsConsent.message}
+                    </p>
+                  )}
                 </div>
               </div>
 
@@ -510,6 +555,12 @@ export function SendPropertiesModal({
                   <p className="text-xs text-muted-foreground">
                     {canSendEmail ? 'Includes detailed property PDF' : 'No email on file'}
                   </p>
+                  {canSendEmail && emailConsent && !emailConsent.allowed && (
+                    <p className="text-xs text-amber-700 flex items-center gap-1 mt-0.5">
+                      <AlertCircle className="h-3 w-3 shrink-0" />
+                      {emailConsent.message}
+                    </p>
+                  )}
                 </div>
               </div>
 
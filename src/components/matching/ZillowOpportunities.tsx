@@ -48,7 +48,7 @@ import {
   type LucideIcon,
 } from 'lucide-react';
 import { useZillowSearchByType } from '@/services/zillowApi';
-import { calculateMaxAffordablePrice } from '@/lib/affordability';
+import { calculateAffordability } from '@/lib/affordability';
 import type { BuyerCriteria } from '@/types/matching';
 import type { ZillowSearchType, ZillowListing } from '@/types/zillow';
 import { SendFlyerModal } from './SendFlyerModal';
@@ -206,10 +206,9 @@ export function ZillowOpportunities({ buyer }: ZillowOpportunitiesProps) {
     }, {} as Record<string, number>);
   }, [data?.results]);
 
-  // Calculate max price for display
-  const maxPrice = buyer.downPayment && buyer.downPayment > 10300
-    ? calculateMaxAffordablePrice(buyer.downPayment)
-    : null;
+  // Calculate max price for display (same model the Affordability search uses)
+  const affordability = useMemo(() => calculateAffordability(buyer), [buyer]);
+  const maxPrice = affordability.maxPrice;
 
   // Check if buyer has required data for each search type
   const canSearchCreative = !!(buyer.preferredLocation || buyer.city);
@@ -276,9 +275,17 @@ export function ZillowOpportunities({ buyer }: ZillowOpportunitiesProps) {
                   </span>
                 )}
                 {maxPrice && (
-                  <span className="flex items-center gap-1 font-medium text-foreground">
+                  <span
+                    className="flex items-center gap-1 font-medium text-foreground"
+                    title={affordability.explanation}
+                  >
                     <DollarSign className="h-3 w-3" />
                     Max: ${maxPrice.toLocaleString()}
+                    {affordability.maxMonthlyPayment !== null && (
+                      <span className="font-normal text-muted-foreground">
+                        (${affordability.maxMonthlyPayment.toLocaleString()}/mo)
+                      </span>
+                    )}
                   </span>
                 )}
               </div>
@@ -329,6 +336,10 @@ export function ZillowOpportunities({ buyer }: ZillowOpportunitiesProps) {
               </Button>
             </div>
 
+            {!maxPrice && (
+              <p className="text-xs text-muted-foreground">{affordability.explanation}</p>
+            )}
+
             {/* Loading State */}
             {isLoading && (
               <div className="flex items-center justify-center py-12 bg-white rounded-lg border">
@@ -19,6 +19,9 @@ export { MatchDetailModal } from './MatchDetailModal';
 export type { MatchWithDetails } from './MatchDetailModal';
 export { StageBadge } from './StageBadge';
 export { EnhancedMatchDetailModal } from './EnhancedMatchDetailModal';
+export { ExclusionRulesDialog } from './ExclusionRulesDialog';
+export { AnchorPointsDialog } from './AnchorPointsDialog';
+export { BulkSendProgressOverlay, BulkSendJobMonitor } from './BulkSendProgressOverlay';
 
 // Zillow integration components
 export { SourceBadge } from './SourceBadge';
@@ -639,6 +639,7 @@ export function PropertyDetailModal({
           address: formData.address,
           propertyCode: formData.propertyCode,
           recordId: initialProperty?.ghlOpportunityId,
+          images: [formData.heroImage, ...(formData.images || [])].filter((url): url is string => !!url),
         }}
         onSaved={() => {
           // Optionally refresh data
@@ -0,0 +1,440 @@
+import { useEffect, useState } from 'react';
+import { Loader2, Play, Plus, Save, Trash2, Workflow } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAutomationRules, useRunAutomations, useUpdateAutomationRules } from '@/services/automationApi';
+import { useDocumentTemplates } from '@/services/ghlApi';
+import { MATCH_DEAL_STAGES, MATCH_EXIT_STAGES, type MatchDealStage } from '@/types/associations';
+import type { AutomationAction, AutomationRule, AutomationTrigger } from '@/types/deals';
+import type { ReplyIntent } from '@/types/matching';
+import { toast } from 'sonner';
+
+const ALL_STAGES: MatchDealStage[] = [...MATCH_DEAL_STAGES, ...MATCH_EXIT_STAGES];
+
+const REPLY_INTENTS: ReplyIntent[] = ['yes', 'no', 'stop', 'question', 'other'];
+
+const REPLY_INTENT_LABELS: Record<ReplyIntent, string> = {
+  yes: 'Yes',
+  no: 'No',
+  stop: 'Stop',
+  question: 'Question',
+  other: 'Anything else',
+};
+
+const TRIGGER_LABELS: Record<AutomationTrigger['type'], string> = {
+  'reply-received': 'Buyer replies with',
+  'stage-entered': 'Deal enters stage',
+  'stage-idle': 'Deal sits in stage',
+};
+
+type ActionKind = 'move-stage' | 'send-sms' | 'send-email' | 'send-document';
+
+const ACTION_LABELS: Record<ActionKind, string> = {
+  'move-stage': 'Move to stage',
+  'send-sms': 'Send SMS',
+  'send-email': 'Send email',
+  'send-document': 'Send document',
+};
+
+function actionKind(action: AutomationAction): ActionKind {
+  if (action.type === 'send-message') return action.channel === 'email' ? 'send-email' : 'send-sms';
+  return action.type;
+}
+
+function newAction(kind: ActionKind): AutomationAction {
+  switch (kind) {
+    case 'move-stage':
+      return { type: 'move-stage', stage: 'Buyer Responded' };
+    case 'send-sms':
+      return { type: 'send-message', channel: 'sms', message: 'Hi {{firstName}}, ' };
+    case 'send-email':
+      return { type: 'send-message', channel: 'email', subject: '{{address}}', message: 'Hi {{firstName}},\n' };
+    case 'send-document':
+      return { type: 'send-document', templateId: '' };
+  }
+}
+
+function newTrigger(type: AutomationTrigger['type']): AutomationTrigger {
+  switch (type) {
+    case 'reply-received':
+      return { type, intents: ['yes'] };
+    case 'stage-entered':
+      return { type, stage: 'Contracts' };
+    case 'stage-idle':
+      return { type, stage: 'Sent to Buyer', days: 5 };
+  }
+}
+
+function StageSelect({
+  value,
+  onChange,
+  allowAny,
+}: {
+  value: MatchDealStage | undefined;
+  onChange: (stage: MatchDealStage | undefined) => void;
+  allowAny?: boolean;
+}) {
+  return (
+    <Select
+      value={value ?? 'any'}
+      onValueChange={(v) => onChange(v === 'any' ? undefined : (v as MatchDealStage))}
+    >
+      <SelectTrigger className="w-[200px]">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {allowAny && <SelectItem value="any">Any stage</SelectItem>}
+        {ALL_STAGES.map((stage) => (
+          <SelectItem key={stage} value={stage}>
+            {stage}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+/**
+ * Admin editor for deal stage automation rules (trigger → conditions → actions)
+ */
+export function AutomationRulesCard() {
+  const { data: savedRules, isLoading } = useAutomationRules();
+  const { data: templateData } = useDocumentTemplates();
+  const updateRules = useUpdateAutomationRules();
+  const runAutomations = useRunAutomations();
+
+  const [rules, setRules] = useState<AutomationRule[]>([]);
+  const [isDirty, setIsDirty] = useState(false);
+
+  useEffect(() => {
+    if (savedRules) {
+      setRules(savedRules);
+      setIsDirty(false);
+    }
+  }, [savedRules]);
+
+  const templates = templateData?.templates ?? [];
+
+  const updateRule = (index: number, changes: Partial<AutomationRule>) => {
+    setRules((current) => current.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+    setIsDirty(true);
+  };
+
+  const updateAction = (ruleIndex: number, actionIndex: number, action: AutomationAction) => {
+    const actions = rules[ruleIndex].actions.map((a, i) => (i === actionIndex ? action : a));
+    updateRule(ruleIndex, { actions });
+  };
+
+  const handleAddRule = () => {
+    setRules((current) => [
+      ...current,
+      {
+        id: `rule_${Date.now()}`,
+        name: 'New rule',
+        enabled: false,
+        trigger: newTrigger('stage-entered'),
+        conditions: {},
+        actions: [newAction('send-sms')],
+      },
+    ]);
+    setIsDirty(true);
+  };
+
+  const handleSave = async () => {
+    try {
+      await updateRules.mutateAsync(rules);
+      toast.success('Automation rules saved');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save rules');
+    }
+  };
+
+  const handleRun = async () => {
+    try {
+      const result = await runAutomations.mutateAsync();
+      toast.success(
+        result.fired > 0
+          ? `${result.fired} rule(s) fired across ${result.checked} deals checked${result.failed ? ` (${result.failed} with errors)` : ''}`
+          : `No idle rules due (${result.checked} deals checked)`
+      );
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Automation run failed');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Workflow className="h-5 w-5" />
+              Deal Automation
+            </CardTitle>
+            <CardDescription>
+              Move deals and message buyers automatically. Use {'{{firstName}}'}, {'{{address}}'} and{' '}
+              {'{{stage}}'} in messages. Idle rules are checked daily.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={handleRun} disabled={runAutomations.isPending || isDirty}>
+              {runAutomations.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Play className="h-4 w-4 mr-2" />
+              )}
+              Run now
+            </Button>
+            <Button size="sm" onClick={handleSave} disabled={!isDirty || updateRules.isPending}>
+              {updateRules.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Save className="h-4 w-4 mr-2" />
+              )}
+              Save
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          rules.map((rule, ruleIndex) => (
+            <div key={rule.id} className="space-y-3 rounded-lg border border-border p-4">
+              <div className="flex items-center gap-3">
+                <Switch
+                  checked={rule.enabled}
+                  onCheckedChange={(enabled) => updateRule(ruleIndex, { enabled })}
+                />
+                <Input
+                  value={rule.name}
+                  onChange={(e) => updateRule(ruleIndex, { name: e.target.value })}
+                  className="max-w-sm font-medium"
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="ml-auto text-destructive"
+                  onClick={() => {
+                    setRules((current) => current.filter((_, i) => i !== ruleIndex));
+                    setIsDirty(true);
+                  }}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+
+              {/* Trigger */}
+              <div className="flex flex-wrap items-center gap-2">
+                <Label className="w-16 text-muted-foreground">When</Label>
+                <Select
+                  value={rule.trigger.type}
+                  onValueChange={(type) => updateRule(ruleIndex, { trigger: newTrigger(type as AutomationTrigger['type']) })}
+                >
+                  <SelectTrigger className="w-[200px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(TRIGGER_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {rule.trigger.type === 'reply-received' ? (
+                  <div className="flex flex-wrap gap-1">
+                    {REPLY_INTENTS.map((intent) => {
+                      const intents = (rule.trigger.type === 'reply-received' && rule.trigger.intents) || [];
+                      const selected = intents.includes(intent);
+                      return (
+                        <Button
+                          key={intent}
+                          type="button"
+                          size="sm"
+                          variant={selected ? 'default' : 'outline'}
+                          onClick={() =>
+                            updateRule(ruleIndex, {
+                              trigger: {
+                                type: 'reply-received',
+                                intents: selected ? intents.filter((i) => i !== intent) : [...intents, intent],
+                              },
+                            })
+                          }
+                        >
+                          {REPLY_INTENT_LABELS[intent]}
+                        </Button>
+                      );
+                    })}
+                  </div>
+                ) : (
+                  <StageSelect
+                    value={rule.trigger.stage}
+                    onChange={(stage) =>
+                      stage && updateRule(ruleIndex, { trigger: { ...rule.trigger, stage } as AutomationTrigger })
+                    }
+                  />
+                )}
+                {rule.trigger.type === 'stage-idle' && (
+                  <>
+                    <span className="text-sm text-muted-foreground">for</span>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={rule.trigger.days}
+                      onChange={(e) =>
+                        updateRule(ruleIndex, {
+                          trigger: { ...rule.trigger, days: Number(e.target.value) } as AutomationTrigger,
+                        })
+                      }
+                      className="w-20"
+                    />
+                    <span className="text-sm text-muted-foreground">days</span>
+                  </>
+                )}
+              </div>
+
+              {/* Conditions */}
+              <div className="flex flex-wrap items-center gap-2">
+                <Label className="w-16 text-muted-foreground">Only if</Label>
+                <StageSelect
+                  allowAny
+                  value={rule.conditions.stages?.[0]}
+                  onChange={(stage) =>
+                    updateRule(ruleIndex, { conditions: { ...rule.conditions, stages: stage ? [stage] : undefined } })
+                  }
+                />
+                <span className="text-sm text-muted-foreground">score ≥</span>
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={rule.conditions.minScore ?? ''}
+                  onChange={(e) =>
+                    updateRule(ruleIndex, {
+                      conditions: { ...rule.conditions, minScore: e.target.value ? Number(e.target.value) : undefined },
+                    })
+                  }
+                  placeholder="any"
+                  className="w-20"
+                />
+              </div>
+
+              {/* Actions */}
+              <div className="space-y-2">
+                {rule.actions.map((action, actionIndex) => (
+                  <div key={actionIndex} className="flex flex-wrap items-start gap-2">
+                    <Label className="w-16 pt-2 text-muted-foreground">{actionIndex === 0 ? 'Then' : 'And'}</Label>
+                    <Select
+                      value={actionKind(action)}
+                      onValueChange={(kind) => updateAction(ruleIndex, actionIndex, newAction(kind as ActionKind))}
+                    >
+                      <SelectTrigger className="w-[160px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(ACTION_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+
+                    {action.type === 'move-stage' && (
+                      <StageSelect
+                        value={action.stage}
+                        onChange={(stage) => stage && updateAction(ruleIndex, actionIndex, { ...action, stage })}
+                      />
+                    )}
+
+                    {action.type === 'send-message' && (
+                      <div className="flex-1 min-w-[240px] space-y-2">
+                        {action.channel === 'email' && (
+                          <Input
+                            value={action.subject ?? ''}
+                            onChange={(e) => updateAction(ruleIndex, actionIndex, { ...action, subject: e.target.value })}
+                            placeholder="Subject"
+                          />
+                        )}
+                        <Textarea
+                          value={action.message}
+                          onChange={(e) => updateAction(ruleIndex, actionIndex, { ...action, message: e.target.value })}
+                          rows={2}
+                        />
+                      </div>
+                    )}
+
+                    {action.type === 'send-document' && (
+                      <Select
+                        value={action.templateId || undefined}
+                        onValueChange={(templateId) =>
+                          updateAction(ruleIndex, actionIndex, {
+                            ...action,
+                            templateId,
+                            templateName: templates.find((t) => t.id === templateId)?.name,
+                          })
+                        }
+                      >
+                        <SelectTrigger className="w-[260px]">
+                          <SelectValue placeholder={action.templateName || 'Pick a template'} />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {templates.map((template) => (
+                            <SelectItem key={template.id} value={template.id}>
+                              {template.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+
+                    {rule.actions.length > 1 && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() =>
+                          updateRule(ruleIndex, { actions: rule.actions.filter((_, i) => i !== actionIndex) })
+                        }
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="ml-16"
+                  onClick={() => updateRule(ruleIndex, { actions: [...rule.actions, newAction('send-sms')] })}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add action
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+
+        <Button variant="outline" onClick={handleAddRule} disabled={isLoading}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add rule
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,87 @@
+import { Lock, Loader2, RefreshCw, Unlock } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useLockedAccounts, useUnlockAccount } from '@/services/authApi';
+import { toast } from 'sonner';
+import { formatDistanceToNow } from 'date-fns';
+
+/**
+ * Admin view of emails/IPs the login endpoint is refusing after failed attempts
+ */
+export function LockedAccountsCard() {
+  const { data: entries = [], isLoading, refetch, isFetching } = useLockedAccounts();
+  const unlockAccount = useUnlockAccount();
+
+  const handleUnlock = async (key: string, subject: string) => {
+    try {
+      await unlockAccount.mutateAsync(key);
+      toast.success(`Unlocked ${subject}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to unlock');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Lock className="h-5 w-5" />
+              Locked Logins
+              {entries.length > 0 && <Badge variant="destructive">{entries.length}</Badge>}
+            </CardTitle>
+            <CardDescription>
+              Accounts and IPs temporarily blocked after repeated failed sign-ins
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+            <RefreshCw className={`h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No locked accounts.</p>
+        ) : (
+          entries.map((entry) => (
+            <div
+              key={entry.key}
+              className="flex items-center gap-4 p-3 rounded-lg border border-border"
+            >
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <p className="font-medium truncate">{entry.subject}</p>
+                  <Badge variant="outline" className="uppercase text-xs">{entry.kind}</Badge>
+                  {entry.locked ? (
+                    <Badge variant="destructive">Locked</Badge>
+                  ) : (
+                    <Badge variant="secondary">Backoff</Badge>
+                  )}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {entry.failures} failed attempt{entry.failures === 1 ? '' : 's'}
+                  {entry.retryAt && ` • retry ${formatDistanceToNow(entry.retryAt, { addSuffix: true })}`}
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleUnlock(entry.key, entry.subject)}
+                disabled={unlockAccount.isPending}
+              >
+                <Unlock className="h-4 w-4 mr-2" />
+                Unlock
+              </Button>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
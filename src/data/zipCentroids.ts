@@ -0,0 +1,33801 @@
+/**
+ * US ZIP code centroids, delta encoded (see scripts/build-zip-centroids.ts)
+ * Generated by scripts/build-zip-centroids.ts - do not edit by hand.
+ * Read through src/lib/zipCentroids.ts.
+ */
+
+export const ZIP_CENTROIDS_SOURCE = "Census Bureau 2021 ZCTA Gazetteer (us-zips npm package)";
+
+export const ZIP_CENTROIDS = `
+601,18181,-66750
+1,181,-426
+1,96,52
+3,-300,191
+4,136,-194
+1,-18,320
+1,141,107
+4,3,28
+1,27,111
+5,-459,-599
+1,96,1
+1,-32,437
+3,361,-142
+4,-229,33
+5,-20,-249
+1,-84,132
+1,200,435
+3,-12,-189
+5,165,416
+1,-469,-661
+3,385,369
+2,99,-16
+1,-459,-308
+3,51,112
+3,367,-19
+1,-272,-307
+2,333,100
+2,-258,424
+3,-207,-444
+2,274,166
+1,-43,-118
+4,190,500
+2,-42,-593
+1,-49,-146
+1,98,297
+2,-248,-203
+2,42,-21
+1,-117,117
+2,229,64
+2,-19,553
+1,64,-206
+2,112,-471
+2,-83,761
+1,15,-62
+1,57,6
+4,-410,-459
+5,175,720
+1,-275,-98
+1,156,-38
+2,-115,346
+7,-18,-135
+1,-6,-510
+1,-5,-41
+1,18,-4
+1,229,855
+1,58,-497
+1,-73,-171
+3,-198,422
+2,202,-38
+2,-9,-33
+1,-221,-590
+1,344,776
+1,-304,-725
+1,79,-24
+4,142,969
+1,-148,-485
+2,200,453
+1,-128,-463
+1,158,530
+1,-170,-122
+4,188,-57
+6,-348,-452
+3,141,291
+3,-154,-430
+8,133,979
+1,7,-1049
+1,-62,576
+2,28,-462
+2,90,487
+1,252,-34
+1,-96,182
+2,-16,415
+2,-103,-601
+1,40,-70
+2,-170,-587
+2,131,342
+1,75,-105
+1,-289,195
+2,125,-95
+5,7,416
+3,57,-496
+1,-154,-186
+7,297,1570
+18,-606,217
+10,602,-29
+10,-614,-112
+10,2,57
+1,21,5
+50,719,-1321
+5,-3,13
+1,-12,7
+2,-11,19
+2,13,13
+1,-9,-4
+1,20,15
+2,-28,-1
+2,-16,-4
+1,1,-19
+2,0,-23
+1,-30,5
+2,19,50
+1,-11,24
+1,0,-38
+1,-51,-3
+1,39,-16
+7,25,-50
+15,-3,-107
+1,57,-11
+1,-39,-22
+1,1,71
+1,-68,-63
+3,-40,82
+1,45,-19
+2,20,33
+1,31,13
+1,-7,-20
+1,30,28
+3,-9,24
+1,-33,-3
+2,8,13
+1,-40,-9
+2,-47,-9
+5,17,125
+3,102,-5
+3,-29,8
+1,8,10
+2,-6,33
+2,-67,4
+14,23718,-6682
+1,315,161
+1,15,-59
+2,27,412
+2,-135,-288
+1,-92,-564
+1,19,622
+1,-83,137
+1,162,-762
+1,85,109
+1,-233,263
+7,31,33
+2,24,20
+4,273,-384
+1,-175,174
+1,-233,254
+1,114,-537
+1,-103,348
+1,255,495
+1,130,-623
+1,-213,315
+1,-151,-461
+1,262,392
+1,-285,151
+1,305,221
+1,4,-407
+1,31,-87
+1,-199,49
+10,79,-233
+3,65,161
+1,113,229
+2,-285,27
+1,-90,137
+3,227,-309
+2,2,-72
+1,-3,62
+3,93,16
+2,-59,563
+1,-165,-245
+1,331,-619
+1,-360,51
+1,297,457
+1,-230,-325
+1,154,638
+1,-124,-476
+2,-204,-197
+2,133,445
+1,0,-30
+1,-125,128
+1,239,-45
+1,-93,80
+1,155,-676
+1,-208,103
+3,229,132
+1,-258,-10
+3,67,415
+1,253,-410
+1,-75,506
+1,-231,-282
+1,272,-345
+1,-245,-65
+1,232,-112
+5,-294,353
+1,29,23
+1,-38,-11
+1,-49,15
+1,75,-44
+1,-38,47
+1,37,10
+9,-25,25
+1,30,14
+9,-33,22
+1,27,1
+15,-17,-103
+7,50,82
+50,302,-773
+19,172,162
+2,-563,-197
+1,241,206
+1,200,-91
+1,61,53
+1,-85,-5
+3,-190,-200
+1,-117,30
+5,253,261
+1,-152,-323
+1,276,125
+1,-250,30
+2,83,-36
+2,-49,18
+1,34,195
+1,-251,-225
+1,76,61
+2,503,124
+6,-489,-19
+1,175,-252
+1,-279,239
+1,491,104
+1,-509,-345
+1,6,-103
+1,-22,241
+1,193,-46
+2,48,-49
+2,-75,127
+2,77,-191
+1,360,141
+3,-152,197
+31,107,448
+29,-113,-220
+1,56,639
+6,119,-399
+1,-113,-225
+1,34,-81
+1,76,157
+1,-179,29
+1,37,93
+1,104,-361
+1,-35,544
+2,45,-380
+1,-95,296
+2,4,42
+1,161,-517
+1,-188,463
+3,84,13
+1,-165,182
+5,218,-127
+4,-72,162
+2,-113,111
+1,201,-738
+1,-16,735
+2,-84,-543
+3,-118,112
+2,-8,68
+1,124,2
+2,89,205
+1,-152,-58
+1,60,-8
+40,-3,589
+10,88,-103
+1,3,87
+1,-109,258
+2,-35,-39
+2,70,-473
+2,-41,51
+2,27,50
+10,24,421
+1,-110,-3
+1,-7,-434
+1,25,239
+7,16,272
+2,47,-229
+1,88,117
+1,-97,-38
+4,-31,-427
+1,122,373
+4,-110,-210
+1,118,157
+1,-5,-308
+26,-469,210
+2,186,212
+1,-345,102
+1,315,-184
+1,-174,-392
+1,-47,140
+3,278,278
+5,-202,-350
+1,-157,288
+2,55,-362
+1,95,434
+1,131,-174
+1,-287,-326
+1,329,313
+1,108,191
+1,-238,-242
+1,-147,275
+2,93,-135
+2,-155,199
+2,289,-554
+1,-3,487
+2,-184,1
+1,129,-422
+1,-37,374
+1,-72,-204
+3,-45,36
+1,340,-17
+1,-250,-31
+1,184,-61
+2,-103,256
+5,-225,-320
+10,115,360
+1,271,-14
+1,-199,-304
+2,201,216
+2,-345,-304
+2,75,474
+1,-122,-25
+1,-7,-215
+1,5,-89
+10,214,322
+2,107,-176
+2,-138,-373
+3,-121,497
+2,16,-85
+12,137,-101
+1,-25,7
+1,9,76
+1,37,-20
+1,24,-6
+1,-88,5
+1,36,-12
+1,23,-29
+1,-38,22
+1,-6,-69
+1,56,-52
+89,23,486
+1,-38,6
+16,241,7
+1,-37,-91
+1,-2,83
+1,-226,-36
+9,241,192
+1,-34,-3
+9,-25,-317
+1,97,241
+1,-74,-3
+3,-171,-135
+1,-96,46
+1,-73,-78
+1,101,-9
+1,165,-6
+3,-39,-1
+2,76,91
+2,-332,-89
+1,65,24
+3,126,172
+10,-53,-24
+2,71,-158
+1,123,220
+2,4,-202
+1,-47,92
+2,-27,59
+23,133,208
+2,14,-48
+7,145,40
+11,-99,-90
+3,42,-103
+2,89,54
+1,-4,-199
+3,120,447
+2,-5,-80
+1,-65,150
+1,28,-33
+1,-3,-78
+5,-44,-66
+1,8,12
+2,-25,-12
+1,53,-19
+1,-69,88
+5,-18,-212
+1,-28,-34
+1,5,41
+2,16,-52
+6,190,336
+2,-260,-284
+1,51,-102
+1,-52,314
+3,-43,-21
+9,77,-122
+3,56,-202
+1,-164,365
+6,82,-376
+1,-21,275
+3,-112,21
+11,7,198
+1,11,4
+2,20,-29
+1,-29,-1
+1,8,-41
+1,4,106
+1,-46,-19
+5,423,-30
+2,-281,88
+6,113,-159
+1,74,113
+1,-183,-37
+6,66,180
+1,-20,93
+7,-34,-306
+1,100,144
+2,-152,-198
+4,43,271
+1,-73,-85
+4,106,-154
+1,202,115
+1,-39,41
+1,72,9
+8,-311,-128
+5,30,144
+1,77,205
+3,80,-267
+1,-192,19
+12,97,11
+1,15,-86
+1,-40,60
+1,199,-81
+34,-723,-510
+2,99,349
+4,60,311
+1,11,-365
+4,-13,-112
+2,-77,75
+3,-96,-30
+3,24,-165
+5,131,530
+2,70,1
+2,-140,185
+1,-129,-521
+2,98,506
+2,70,-595
+1,-29,-125
+1,17,66
+2,-57,35
+5,49,510
+1,22,-373
+4,15,434
+1,-94,-424
+4,-2,-87
+1,13,165
+9,28,-154
+9,73,41
+3,-167,-140
+15,302,291
+1,12,16
+1,-9,-2
+1,-7,-9
+2,14,6
+1,-1,-12
+1,-25,-28
+1,12,18
+2,-13,7
+1,-14,-15
+1,8,-12
+1,-27,10
+1,-10,34
+2,-9,-22
+1,30,19
+1,-39,-34
+1,58,52
+1,27,31
+1,18,-54
+1,-72,-52
+1,-26,-12
+1,-3,-35
+1,79,96
+1,1,-66
+1,-9,-24
+1,-95,27
+2,125,-8
+1,-18,33
+1,30,-32
+1,-22,51
+1,-7,2
+1,18,-16
+1,19,-26
+1,-8,33
+3,37,31
+1,-23,4
+1,-9,24
+1,21,30
+1,-41,24
+3,47,-131
+8,-57,-17
+6,-127,110
+1,26,-1
+1,25,-10
+5,165,-33
+4,18,-39
+4,-268,96
+2,36,-80
+2,-37,124
+1,7,28
+1,-45,-22
+1,78,5
+8,102,-135
+4,14,23
+2,-12,3
+5,-1,17
+5,0,-64
+86,-270,61
+1,11,44
+20,43,-56
+2,-160,75
+1,18,17
+5,-115,215
+2,169,41
+1,-7,-236
+5,-34,78
+1,120,8
+2,-73,-11
+2,90,-131
+3,-262,129
+1,-44,-88
+3,187,111
+1,95,-111
+5,-55,-163
+1,3,43
+2,4,271
+1,-186,175
+4,105,-111
+2,-138,81
+1,110,-142
+1,220,-250
+2,-50,144
+5,-123,-169
+4,16,51
+3,57,88
+38,380,-279
+1,-20,-22
+24,-114,105
+1,18,13
+5,59,-131
+1,-6,33
+1,-27,-21
+4,-71,-32
+1,56,85
+1,-39,-4
+1,37,-16
+1,-35,1
+1,15,-49
+2,-19,37
+1,37,-8
+1,-4,-21
+1,-32,95
+1,15,-79
+4,40,54
+2,52,22
+2,-5,-17
+2,-21,-7
+3,-84,-98
+1,-18,-18
+10,-17,52
+1,85,-59
+1,-61,72
+38,-550,636
+2,-81,-20
+1,-331,-147
+1,258,195
+1,132,131
+1,49,-206
+1,-399,120
+1,191,-105
+2,139,81
+1,-236,-239
+10,241,163
+1,-423,526
+2,349,-529
+1,-193,63
+1,300,-90
+1,-56,36
+2,78,83
+1,20,5
+1,-37,25
+1,-479,518
+4,177,-631
+3,302,-83
+4,-357,43
+1,378,-107
+8,-514,758
+17,403,-288
+29,46,-19
+1,41,246
+1,-89,-281
+1,28,367
+2,-63,-459
+2,82,168
+1,24,74
+1,-62,60
+2,86,-18
+1,88,180
+1,-88,40
+1,-71,-576
+1,18,449
+1,-30,-9
+1,-41,-239
+1,40,-102
+1,-52,-81
+1,84,532
+2,348,-134
+1,-281,121
+2,-141,-418
+2,432,192
+2,-379,176
+1,28,-133
+3,189,187
+1,-223,-224
+2,310,156
+1,-62,17
+1,-209,-335
+2,-54,185
+1,10,60
+1,-34,-203
+1,17,67
+2,51,15
+27,81,-827
+1,147,-236
+10,-505,409
+2,379,-272
+2,-47,170
+1,103,-24
+1,-228,141
+1,93,-239
+1,-53,-39
+2,18,17
+1,-9,-46
+1,37,-10
+1,40,43
+12,-54,395
+1,-40,-66
+1,-28,-122
+3,72,40
+1,-104,-16
+1,97,-33
+1,-39,-1
+1,-6,-65
+1,-105,42
+12,420,-363
+2,40,-2
+1,-46,27
+1,-115,155
+2,113,-28
+1,-24,134
+2,-94,-197
+1,-86,406
+1,79,-479
+6,-82,104
+2,80,136
+1,71,-40
+10,-310,36
+1,-68,-3
+11,421,-371
+2,-519,-314
+2,300,450
+1,-556,-257
+1,234,-162
+1,265,466
+3,-198,-385
+1,-84,-12
+1,502,-35
+1,-117,43
+1,-83,39
+1,-67,-36
+1,14,173
+4,-68,-101
+1,158,43
+1,266,-18
+1,-217,-165
+1,205,79
+1,-288,-91
+1,179,178
+1,15,-28
+1,83,-67
+1,-230,71
+1,-239,-143
+1,-21,-57
+2,24,407
+1,-56,-242
+1,65,453
+1,446,-312
+1,-20,-164
+1,-468,323
+1,30,-10
+1,10,57
+10,72,-187
+5,234,-174
+1,141,-16
+1,-5,-107
+1,-88,368
+1,8,36
+2,11,-40
+1,77,-28
+1,-52,-29
+6,-328,191
+1,10,-62
+1,-64,-460
+1,-24,307
+1,-50,-164
+1,538,54
+2,-390,401
+1,-178,-355
+2,53,11
+1,-65,55
+3,309,213
+1,-24,-196
+2,46,47
+1,-47,30
+2,-343,-412
+1,141,188
+1,181,81
+1,-236,-178
+1,558,199
+1,-27,-44
+2,-457,-125
+5,301,259
+1,39,-26
+1,-73,40
+1,54,7
+1,-40,-36
+1,40,-14
+1,-21,-13
+1,-43,16
+1,80,-37
+1,-29,70
+2,-12,37
+1,-42,12
+1,71,2
+1,63,-172
+1,-62,89
+1,-17,-85
+1,-60,54
+1,-4,-49
+110,1112,-86
+1,119,237
+1,-245,-312
+1,308,335
+2,-72,86
+1,151,0
+1,-243,-22
+4,158,189
+1,-57,-728
+1,6,697
+1,22,-444
+1,90,-44
+1,-173,-272
+1,-196,117
+1,7,177
+2,10,176
+1,86,-59
+1,23,81
+1,-17,-133
+1,-33,-153
+2,90,-21
+3,-168,236
+2,-19,-43
+1,60,-17
+1,-3,43
+6,197,-212
+1,-230,-187
+5,-15,537
+1,302,134
+2,-245,-19
+3,108,-546
+2,-69,-107
+2,5,115
+1,-21,457
+14,178,-163
+1,23,-25
+1,-56,49
+1,54,2
+2,71,-7
+3,-117,47
+1,-28,-137
+105,1133,117
+1,-618,-371
+1,275,148
+1,-389,369
+2,137,-208
+1,-216,-478
+1,386,161
+1,211,114
+1,-504,137
+1,13,306
+1,339,-268
+1,114,49
+2,-615,-236
+1,326,-167
+1,-77,110
+2,-27,-177
+1,-219,582
+1,244,-325
+2,-17,286
+1,550,-499
+2,-407,-65
+1,133,137
+1,-539,-16
+1,359,62
+1,-408,-153
+1,642,339
+1,-185,101
+3,-58,106
+2,576,-255
+2,-464,132
+1,86,133
+1,-403,-659
+1,309,392
+1,-205,-358
+1,-153,582
+1,613,-90
+1,-510,-419
+1,-156,695
+1,788,-491
+1,-711,405
+1,450,-394
+2,44,-182
+2,-397,112
+1,143,172
+4,-227,-326
+2,-132,506
+1,261,-155
+2,-122,-260
+1,657,-23
+1,-776,-235
+1,-112,390
+1,781,-220
+2,-386,-89
+1,475,377
+2,-505,-286
+3,-313,790
+1,50,-10
+2,799,-531
+8,-740,117
+2,73,-109
+1,-179,128
+3,201,90
+124,-365,-855
+9,95,324
+1,-283,-469
+1,239,543
+1,-151,-562
+1,20,396
+1,132,-144
+1,-163,-82
+1,-105,143
+1,288,-109
+1,-57,261
+1,-35,-68
+1,-140,-436
+1,20,445
+3,73,-113
+1,237,-36
+1,-140,87
+1,-131,182
+3,-111,-73
+1,136,-377
+2,188,280
+1,-252,-79
+1,53,-319
+1,86,77
+3,-197,77
+91,1572,559
+9,168,597
+4,-251,-411
+1,54,206
+1,582,25
+3,41,333
+1,-774,-648
+1,204,606
+1,198,-356
+1,-162,-14
+1,87,-91
+1,-265,-355
+1,-7,103
+2,390,563
+2,107,-291
+2,401,267
+1,-815,-39
+2,4,-197
+2,440,116
+1,-366,-248
+3,-1133,-684
+1,-105,-35
+1,107,-26
+1,-116,-16
+1,105,205
+2,-39,-77
+1,-122,-134
+1,68,-50
+131,1039,459
+1,-506,-20
+2,-316,-320
+2,112,15
+3,130,193
+2,118,-66
+1,-280,103
+1,-169,-19
+1,245,-48
+2,215,10
+10,303,89
+1,-402,-185
+2,184,141
+2,-286,-165
+1,766,278
+2,-926,-222
+1,729,218
+3,-217,-49
+2,79,33
+1,80,10
+1,-482,-308
+1,-170,206
+2,248,-213
+1,398,459
+16,-961,1042
+8,390,-395
+1,48,-95
+1,-674,128
+1,1242,-130
+1,46,236
+1,-356,-121
+2,-73,-61
+1,191,2
+1,70,-33
+1,-1015,142
+1,242,248
+3,-11,-57
+1,-58,22
+1,99,-120
+1,-328,-91
+1,16,134
+3,710,2
+2,293,-54
+1,-928,68
+2,388,-83
+1,475,-12
+1,-420,-261
+1,689,113
+1,-842,237
+1,-229,140
+1,-161,-332
+1,61,341
+2,-15,-49
+1,1180,-230
+1,83,-40
+1,-116,32
+1,-1158,50
+1,976,-59
+1,-192,-170
+1,-261,278
+1,58,39
+1,144,-308
+1,-577,577
+1,402,-435
+1,-425,184
+1,32,21
+1,-201,-99
+2,1172,-77
+1,-923,116
+1,-139,178
+2,710,-274
+1,-844,10
+2,456,101
+1,22,52
+1,-104,97
+1,-200,82
+1,-39,-16
+1,590,-266
+1,-637,-141
+1,-51,323
+1,1021,-331
+3,-651,304
+4,494,-154
+1,62,-278
+1,-534,150
+1,-260,267
+1,849,-393
+1,-381,225
+3,332,-138
+4,-205,31
+3,297,-150
+4,-608,486
+1,-84,213
+1,-68,-145
+1,-37,40
+1,-105,130
+1,347,-175
+1,-96,166
+1,-25,-139
+1,-65,73
+1,7,69
+1,-37,-28
+90,401,-302
+1,-48,278
+1,245,691
+2,-242,-516
+1,-48,144
+2,600,479
+1,4,-879
+1,-117,-176
+1,-35,946
+4,56,-540
+2,-217,432
+2,-45,-29
+1,77,-699
+1,25,544
+1,204,-549
+2,-160,129
+3,-436,-228
+2,488,258
+1,-299,-41
+2,256,606
+5,257,-853
+1,-401,480
+1,204,95
+1,238,-457
+1,-294,-6
+1,-218,217
+1,-235,44
+3,34,96
+1,303,-420
+1,-45,112
+1,58,82
+1,-59,546
+1,505,-732
+4,-216,247
+1,-315,-220
+1,435,157
+4,-461,-42
+1,160,339
+1,-295,10
+1,25,7
+2,241,421
+2,72,-980
+1,66,765
+2,-13,-315
+1,-341,31
+1,-138,-271
+1,178,371
+2,-36,-467
+3,237,852
+4,-327,-833
+1,298,247
+1,17,-61
+1,186,672
+1,-396,-788
+1,634,22
+2,-872,76
+1,508,-99
+1,-131,392
+1,-72,-186
+2,-7,-375
+1,159,758
+1,58,-85
+4,-183,-17
+1,-9,-40
+1,41,9
+2,45,12
+1,-109,-9
+1,-44,50
+1,50,49
+1,26,-35
+1,78,41
+100,344,-69
+6,595,-597
+1,-287,10
+2,8,279
+1,-58,211
+1,148,52
+1,-535,163
+2,605,-282
+2,65,-294
+1,-57,413
+4,-306,-580
+3,353,681
+2,-426,49
+1,305,-589
+1,-304,350
+1,326,182
+1,-427,30
+10,-68,55
+2,15,58
+1,375,-157
+1,33,78
+1,-112,-523
+1,-228,256
+1,448,-90
+1,-415,159
+1,96,321
+1,-276,-281
+1,608,-667
+2,-271,830
+2,-14,96
+2,-56,-734
+1,1,161
+2,-109,83
+1,144,28
+3,-213,105
+1,655,-254
+1,-143,23
+4,-443,562
+1,131,-428
+1,19,244
+2,73,200
+1,349,-407
+1,-286,-406
+1,-330,889
+2,246,-552
+1,142,71
+2,-80,3
+2,257,174
+36,-286,527
+11,-92,193
+1,-174,-182
+2,175,-91
+1,-66,34
+1,42,43
+1,50,-67
+1,-76,319
+1,223,-568
+1,-262,133
+1,170,72
+1,124,-98
+1,-268,340
+1,198,189
+1,-12,-519
+2,-267,120
+1,297,295
+1,-234,-226
+1,375,-239
+3,-240,429
+1,-5,-392
+37,539,1113
+5,380,-747
+2,-242,1387
+2,101,-697
+1,-194,360
+1,-110,-188
+1,782,920
+1,-153,-1275
+1,-60,32
+1,-729,308
+1,590,361
+1,-98,-120
+1,-316,-494
+2,-391,187
+1,669,-215
+2,591,1168
+2,-483,-1283
+1,-206,135
+1,-174,457
+1,-85,-63
+1,933,20
+1,-1089,-71
+3,199,-460
+1,199,3
+3,-364,197
+3,1089,-381
+1,-215,-387
+1,-235,294
+1,-509,452
+4,587,210
+1,-323,-148
+1,-77,-40
+1,661,716
+2,-386,-576
+1,325,1254
+1,-217,-726
+1,-422,-737
+1,569,463
+2,143,194
+1,52,-185
+1,-648,-51
+1,1003,-352
+1,-709,33
+1,10,-604
+4,-269,780
+1,-125,53
+2,1014,809
+1,-1341,-813
+1,306,-69
+1,-193,-24
+1,504,168
+1,-710,-111
+2,1245,-1062
+1,-604,481
+2,119,182
+4,105,-498
+2,40,1499
+1,-516,-1010
+1,39,423
+1,483,863
+1,168,307
+1,-225,-148
+1,-59,-867
+2,199,197
+1,-826,-570
+1,1076,851
+33,-1839,-1769
+5,210,198
+2,-196,2
+1,-55,-3
+1,127,128
+2,-87,18
+2,135,-7
+1,-202,-101
+3,159,259
+1,-146,-416
+3,152,314
+2,67,-133
+1,-189,56
+1,238,29
+1,-125,-128
+2,-88,92
+4,-117,-300
+1,243,560
+1,-85,-211
+4,-43,-88
+2,-77,-73
+1,88,-43
+1,225,291
+1,-171,-169
+1,310,160
+1,-409,-270
+1,-39,-1
+2,169,-30
+1,-22,-76
+26,726,1374
+1,-145,683
+1,-74,-375
+2,-70,-177
+2,67,642
+1,-202,-759
+1,107,353
+1,32,-492
+2,-125,-15
+1,89,-192
+2,778,1509
+3,-391,-747
+1,-53,251
+1,-275,-272
+1,-173,-224
+1,418,988
+1,-438,-1570
+1,643,1518
+2,-8,-201
+1,45,466
+3,-291,-1211
+1,-507,-138
+5,412,73
+2,-194,-525
+1,209,983
+2,-473,-789
+1,193,387
+2,395,597
+1,-95,128
+1,-263,-1211
+2,523,1653
+1,-619,-1265
+1,489,827
+1,-34,121
+2,326,-64
+1,-475,-435
+2,-171,-468
+2,-29,59
+2,237,151
+2,417,915
+1,23,120
+1,212,-593
+1,-784,-304
+2,655,848
+2,-771,-1518
+1,-39,210
+1,43,212
+1,47,-388
+1,126,453
+2,-193,-137
+1,198,371
+1,-328,-698
+2,86,-179
+1,231,317
+1,-309,65
+1,839,748
+5,-237,439
+2,-384,-839
+1,739,616
+36,1076,-383
+2,380,-630
+1,-828,80
+1,742,488
+1,-106,-104
+1,532,-2
+1,-295,-1493
+2,361,923
+1,-344,751
+2,143,-11
+1,385,-872
+2,113,333
+1,-23,255
+1,-1283,-65
+3,987,351
+6,367,-441
+1,-750,99
+1,-13,346
+2,-225,-65
+1,-217,-58
+1,859,-139
+1,-902,1
+1,293,-227
+1,-290,-330
+1,815,455
+2,-95,-839
+1,-108,1063
+3,547,-325
+1,31,94
+1,-143,-792
+2,-1306,704
+1,26,-162
+2,1272,165
+1,-945,41
+1,979,-346
+2,-114,426
+2,84,151
+1,-325,-156
+1,-262,226
+54,-2399,-1167
+2,104,69
+4,3,-125
+1,58,274
+1,17,-111
+2,-457,147
+1,-92,-431
+1,369,443
+1,-90,-226
+1,-114,-195
+1,249,166
+2,-134,-32
+1,-50,-5
+1,-53,-84
+1,164,72
+1,155,-107
+1,-194,425
+1,59,-391
+37,413,-329
+9,-33,128
+1,272,-526
+1,185,304
+3,-501,629
+2,24,-801
+1,62,-27
+2,556,61
+1,-525,661
+1,93,-242
+1,370,-64
+1,-262,-96
+1,430,-357
+1,-732,388
+1,185,-26
+1,282,282
+1,-174,-43
+1,255,-24
+2,-330,182
+4,657,-1513
+1,-703,996
+1,10,-442
+1,415,944
+1,-459,-920
+1,-148,795
+1,573,-309
+1,-163,73
+1,-193,-124
+1,890,-634
+2,-530,9
+2,-678,933
+1,457,-464
+1,-228,742
+1,-185,-97
+1,454,-64
+2,-220,-774
+1,152,-104
+1,-85,233
+1,195,-63
+3,243,-234
+2,-563,274
+1,355,-939
+1,-101,1458
+1,-57,-1167
+1,-16,1101
+2,15,198
+1,223,-1382
+1,-70,1221
+2,-570,211
+1,103,257
+1,154,-659
+1,164,-80
+2,-147,-132
+1,297,-8
+2,-425,969
+1,593,-1555
+1,-181,108
+1,-229,19
+1,680,368
+1,-828,688
+1,125,-41
+1,-104,-110
+1,-141,-286
+3,231,-508
+9,-976,-2220
+8,-36,32
+21,-249,-64
+1,322,-172
+1,81,-78
+1,195,482
+1,-405,-444
+1,20,-66
+1,412,98
+1,-566,104
+1,533,27
+1,72,144
+1,7,114
+1,-113,-340
+1,287,428
+1,-438,-101
+2,112,32
+1,314,-78
+2,-651,-170
+2,683,364
+1,-182,-53
+1,-485,-243
+1,117,-125
+2,64,161
+1,-269,-370
+2,373,422
+1,-244,-158
+1,329,-279
+1,-39,136
+1,-425,-7
+3,288,163
+2,-106,-123
+1,96,-8
+1,389,405
+1,-318,-200
+1,-288,-222
+1,319,178
+1,-255,-75
+2,217,176
+1,300,62
+1,-236,-235
+2,48,132
+2,180,237
+2,-219,-178
+1,-188,-184
+2,379,151
+2,-434,-6
+1,-179,-135
+2,152,-109
+10,-486,65
+40,-3,-74
+1,239,-20
+1,-145,-63
+3,-68,9
+2,60,-177
+1,157,112
+1,-65,170
+1,58,32
+1,-162,-440
+1,207,300
+1,-306,108
+1,41,-294
+1,136,361
+2,-202,-11
+3,212,-330
+40,-452,-326
+49,235,-44
+1,161,91
+1,-183,15
+1,180,69
+1,-102,-69
+1,-22,43
+2,-168,-239
+3,-158,0
+1,-43,52
+1,205,136
+39,-135,415
+39,330,-313
+1,-194,172
+1,-198,6
+1,326,-25
+1,-264,87
+1,148,68
+1,51,128
+4,-247,-436
+1,139,246
+1,-122,-349
+1,261,396
+1,-305,158
+1,255,-290
+1,-43,-53
+2,-200,135
+1,375,5
+1,-109,-226
+1,-255,73
+1,148,218
+1,-51,-241
+38,1591,-317
+2,-30,45
+1,51,-12
+1,-22,-11
+3,31,-76
+31,-9,107
+1,462,-127
+1,-184,505
+1,-1,97
+1,-633,-350
+1,480,153
+1,-314,-349
+1,248,11
+1,388,522
+1,-185,-175
+2,138,83
+2,-368,-270
+2,183,36
+1,92,62
+1,-588,-295
+1,745,340
+1,-243,-378
+1,241,283
+2,-635,-78
+1,-23,140
+1,572,-394
+1,-193,534
+1,-212,-105
+3,180,-239
+3,182,581
+1,-715,-580
+1,129,-37
+1,593,-31
+2,120,583
+1,-573,-337
+1,410,-138
+3,16,-22
+1,-415,-103
+1,497,262
+2,14,5
+1,-277,-333
+1,-417,316
+1,713,-151
+1,-355,241
+2,-448,-424
+1,618,565
+2,-135,-254
+1,-174,-80
+107,-136,471
+38,47,128
+1,-155,43
+6,224,160
+1,-26,-198
+1,-244,121
+1,261,-67
+1,-118,-51
+1,442,-121
+1,-9,137
+1,-577,-14
+1,486,-83
+1,24,-119
+2,-283,334
+2,-103,-410
+1,270,145
+2,-384,-71
+1,19,38
+2,171,214
+1,-59,37
+2,-226,-354
+1,124,250
+2,315,-207
+1,-293,-128
+1,-86,-33
+1,-37,451
+1,223,-424
+1,103,149
+1,-245,220
+1,-48,-54
+1,432,59
+1,-83,94
+1,-65,-184
+19,-768,-347
+29,-237,125
+1,364,-509
+1,-105,83
+1,163,121
+1,172,-242
+1,-329,171
+1,-45,147
+1,170,117
+1,-255,37
+1,-178,-169
+3,75,118
+1,258,-394
+1,16,225
+2,25,290
+1,285,-68
+1,-99,-60
+3,-247,134
+2,340,-394
+4,-515,54
+1,-32,331
+1,81,-172
+1,269,-325
+1,-466,151
+1,469,302
+1,-74,-158
+1,-202,-199
+1,120,160
+1,337,37
+1,-106,165
+1,-582,-387
+1,635,99
+1,-42,-210
+2,-126,591
+1,-337,-211
+1,2,-220
+1,-75,-52
+1,-101,25
+1,303,148
+1,320,-164
+41,529,1230
+1,358,-392
+1,-444,266
+1,435,-51
+2,-315,334
+1,419,-427
+1,-223,-153
+1,42,43
+1,-239,238
+1,529,57
+1,5,81
+2,-378,88
+1,243,-78
+3,-318,-254
+1,145,426
+2,10,-402
+1,-75,460
+1,19,-542
+1,-28,44
+1,-87,-97
+2,297,10
+1,17,497
+1,-24,-623
+3,-229,422
+1,-18,-13
+2,350,108
+2,31,-251
+2,2,-121
+1,-391,512
+1,420,-637
+1,-155,334
+2,-485,-112
+4,323,105
+1,24,75
+1,277,-318
+3,-260,401
+1,189,-72
+1,-466,-192
+1,478,-268
+1,-178,214
+26,236,616
+1,69,167
+1,-75,-100
+1,-519,-119
+1,287,29
+1,-220,-42
+1,472,-107
+94,-3161,-1027
+1,53,117
+8,-165,-204
+3,67,-8
+3,153,402
+2,135,-765
+1,-179,409
+1,5,-7
+1,143,-154
+1,-140,137
+1,-253,207
+1,395,-564
+2,-78,539
+1,75,-171
+2,-91,470
+2,41,-871
+1,-224,460
+1,-24,318
+2,254,-266
+2,-356,27
+2,357,-666
+1,-201,918
+2,42,5
+1,-38,83
+8,-100,-332
+1,-9,-33
+1,34,11
+4,151,-207
+1,129,-179
+1,-79,290
+1,124,29
+1,-140,-108
+1,-201,107
+1,262,-113
+2,39,-35
+1,-137,549
+1,-181,-203
+1,350,-760
+1,-146,-27
+1,14,635
+1,118,360
+1,-8,-34
+1,-324,-80
+1,177,-10
+2,146,315
+2,8,-389
+1,50,-745
+1,-92,762
+1,-42,-133
+1,76,212
+2,-101,197
+1,-134,-530
+3,169,306
+1,-83,-241
+1,112,-40
+1,79,-116
+1,-153,119
+1,140,144
+2,-139,40
+1,54,25
+2,-1,-457
+5,-162,438
+2,8,-33
+1,-24,8
+1,3,-63
+1,28,135
+1,-78,-45
+1,30,-65
+1,-45,3
+1,106,35
+2,-52,25
+3,48,-92
+1,-40,153
+1,15,-117
+1,23,62
+106,-79,456
+5,-75,-158
+1,100,-8
+2,61,422
+1,-3,-177
+2,-97,-176
+1,86,-38
+1,14,489
+2,60,8
+1,42,-246
+1,-51,288
+4,-77,-270
+1,-79,-334
+1,-56,169
+1,140,42
+4,-152,55
+1,370,241
+1,-259,-255
+2,154,193
+1,-14,-24
+1,36,118
+2,111,-78
+1,-182,44
+1,-138,-201
+2,-25,-68
+2,125,-75
+1,10,-4
+8,149,408
+1,-61,-327
+1,0,-81
+1,-206,122
+1,282,116
+1,-24,-71
+38,-600,-17
+10,287,24
+1,58,69
+1,29,107
+1,-337,-327
+1,159,55
+1,-110,115
+1,146,-137
+2,-116,223
+1,-23,-18
+1,-88,-49
+10,294,-29
+1,-58,121
+2,-134,-191
+1,253,284
+1,-343,-117
+2,-48,-247
+2,153,346
+1,77,-216
+5,-29,82
+5,-52,-182
+1,-105,-135
+2,323,519
+1,-5,-107
+1,-274,-211
+1,-112,-130
+1,437,434
+1,-348,-89
+1,-20,55
+1,200,-199
+2,-100,-73
+2,116,294
+1,-217,-326
+2,382,247
+2,-184,-213
+1,-272,190
+11,56,-1137
+2,100,18
+2,-164,266
+4,68,357
+1,164,-475
+2,-100,417
+1,-116,-42
+1,281,-23
+1,-27,203
+1,67,-313
+1,-249,185
+1,-42,-606
+1,48,505
+1,115,320
+2,-20,-427
+1,-12,294
+1,103,-112
+2,-209,106
+11,-19,-300
+1,119,187
+1,-35,110
+2,50,-183
+1,-124,149
+1,2,-191
+1,219,-305
+3,73,476
+3,-100,-322
+1,6,-47
+4,-28,105
+1,26,170
+1,4,-110
+2,6,-4
+1,-331,-384
+1,21,-29
+6,325,175
+1,-226,-323
+1,168,775
+1,-112,-870
+1,-61,546
+1,59,0
+1,-12,-84
+2,-81,473
+2,-15,-642
+1,159,-123
+1,131,236
+1,24,323
+1,-62,-109
+1,-128,-545
+1,-24,159
+1,-80,-55
+4,171,-91
+1,138,360
+3,-151,65
+6,-159,327
+12,2,-449
+1,11,1
+1,-39,51
+1,41,6
+1,58,-74
+1,-49,-28
+1,-55,6
+1,76,58
+1,82,-5
+1,-138,-20
+5,130,-62
+1,-59,-10
+79,-210,-207
+1,8,-7
+1,50,11
+1,-41,39
+1,15,-13
+2,23,16
+1,64,-47
+1,-8,-88
+2,-37,171
+1,-65,1
+87,393,82
+2,33,11
+1,-39,42
+1,-18,-32
+2,19,-46
+2,19,25
+2,-71,70
+4,96,7
+34,129,-294
+1,-88,52
+1,-116,-150
+1,305,16
+1,-70,-23
+1,-106,-112
+1,198,242
+1,-107,-229
+1,-64,240
+1,85,8
+3,-236,96
+1,169,-87
+7,-205,158
+6,112,-371
+1,90,89
+1,27,230
+1,-122,23
+3,47,39
+1,-87,-254
+1,23,-202
+1,130,48
+1,-36,432
+1,-2,-67
+3,163,-46
+1,-73,71
+2,-127,-229
+1,15,-36
+1,-25,199
+1,250,-208
+2,-312,128
+3,-192,-184
+3,93,-3
+3,-406,-199
+3,321,135
+1,45,-21
+1,57,-9
+8,-404,7
+4,97,199
+1,24,38
+5,-159,-381
+1,51,-35
+9,71,159
+10,-33,55
+1,11,43
+2,-72,-36
+1,25,9
+1,-19,39
+15,-48,-181
+7,294,71
+1,-288,-84
+2,113,240
+3,84,-23
+7,-78,79
+6,156,-105
+1,-94,-48
+4,-157,-97
+1,5,-6
+1,77,-27
+2,-48,27
+1,-16,22
+1,29,2
+94,-517,-750
+1,78,160
+1,147,-77
+1,74,-118
+1,47,-106
+1,-79,128
+2,-267,56
+1,274,-3
+1,-36,242
+1,58,-155
+1,-33,-18
+1,22,-12
+1,-38,38
+2,-173,-169
+1,114,97
+1,-16,-11
+2,69,244
+1,3,-302
+1,-7,273
+1,-179,-383
+1,209,415
+2,29,-137
+1,-229,-215
+1,154,118
+1,-61,50
+1,1,127
+1,41,-98
+1,-34,3
+1,-74,-165
+1,201,-92
+1,49,72
+1,-303,69
+3,161,-90
+1,-52,58
+1,-12,-31
+1,91,83
+1,32,18
+1,-13,-42
+1,75,-123
+1,-16,-76
+1,-97,417
+3,-26,-211
+2,18,-29
+2,68,-137
+1,4,273
+2,-5,23
+1,17,-238
+1,-235,-175
+1,-18,97
+2,14,18
+1,-26,-41
+1,-38,200
+1,40,-36
+1,14,-29
+1,-32,-1
+1,233,1
+1,-179,-126
+1,177,330
+1,-23,-7
+1,29,51
+1,-9,-23
+1,21,30
+1,12,-32
+1,-217,-286
+1,-79,120
+1,188,-75
+1,7,66
+1,-175,-153
+1,124,81
+1,229,-12
+1,-232,77
+3,73,252
+1,-1,-15
+1,-49,-252
+2,-66,-59
+2,29,-17
+1,106,351
+1,-5,-59
+1,-229,-219
+7,183,113
+1,3,-21
+1,29,27
+1,-45,29
+1,19,-91
+1,21,43
+1,-40,-13
+1,70,39
+1,28,5
+1,-97,-77
+1,-13,21
+2,-13,41
+87,-27,-6
+1,-19,-40
+1,0,-43
+1,13,-7
+1,31,38
+1,-44,45
+2,21,-40
+94,46,179
+2,-2,-31
+1,-24,6
+1,43,-1
+1,16,17
+3,-24,20
+1,-9,1
+90,314,-101
+2,-12,-199
+2,-33,-45
+2,-83,258
+3,31,2
+6,173,-471
+1,-101,383
+1,234,-280
+1,-88,-84
+1,-125,267
+1,145,-50
+1,0,-94
+1,-174,350
+1,-118,-109
+6,200,23
+2,-86,42
+3,45,-301
+1,-10,201
+2,-1,-281
+1,50,-76
+1,-134,305
+2,57,6
+2,-36,-20
+2,92,161
+4,-77,32
+2,-23,-11
+4,138,-138
+1,-101,-52
+1,51,219
+2,67,-398
+1,133,-117
+1,-49,115
+1,-185,371
+2,36,-167
+5,-103,47
+10,140,-133
+1,-87,209
+20,-87,-2
+1,8,-24
+1,-22,41
+1,14,13
+1,5,-31
+1,40,13
+2,-2,-25
+4,-52,-36
+1,2,71
+1,20,4
+8,-1,-34
+2,8,22
+77,-43,111
+2,-15,16
+1,-12,-43
+1,1,85
+1,2,-60
+1,38,-15
+1,-53,1
+12,119,145
+1,-47,-81
+3,51,38
+2,-33,2
+1,14,3
+1,-9,-37
+2,30,-31
+1,-84,50
+1,-6,28
+8,107,-35
+1,-29,-17
+1,44,-48
+1,-164,11
+1,35,-48
+1,177,35
+1,-121,28
+1,75,77
+1,-17,-9
+1,-35,-82
+1,-110,36
+2,100,-73
+4,89,26
+1,-203,30
+3,22,-6
+1,72,-20
+1,-21,-38
+1,-3,-16
+3,-13,83
+4,28,60
+5,85,-51
+1,-15,-63
+1,38,4
+24,-665,-18
+1,-35,22
+1,-12,10
+1,48,8
+7,-124,32
+1,9,-48
+4,155,19
+1,-211,21
+1,229,-70
+1,-251,12
+1,33,61
+1,233,-224
+1,-147,69
+1,-38,166
+1,49,-73
+2,-12,-269
+1,-82,185
+1,21,-128
+2,198,112
+1,-274,-30
+1,280,214
+1,-55,-184
+1,69,37
+1,6,-86
+2,-43,159
+1,-72,-69
+1,2,98
+1,-42,45
+6,28,-265
+1,90,-3
+1,-17,143
+2,-60,129
+1,24,-275
+2,-149,187
+2,52,50
+1,-51,17
+1,104,-11
+1,118,-83
+2,-63,97
+2,-218,-30
+2,135,14
+37,613,-545
+2,-23,-36
+17,51,-198
+1,37,44
+1,173,47
+1,-316,-338
+2,160,84
+1,180,147
+1,118,84
+1,-396,-25
+2,-166,-38
+1,20,-153
+1,206,-120
+1,-52,-2
+1,-7,581
+2,-42,-222
+2,44,-202
+2,-28,80
+2,85,331
+1,-6,-159
+1,-30,-310
+2,58,93
+1,-80,257
+1,211,-60
+1,-134,67
+1,-57,-46
+1,293,-197
+1,-317,188
+1,-96,-114
+3,129,155
+1,-18,-66
+3,159,-110
+3,-249,-154
+2,-14,59
+1,161,410
+3,-113,-91
+1,-38,-242
+1,243,193
+3,-118,-81
+2,-75,52
+2,18,179
+2,8,-398
+1,243,-58
+1,-368,-77
+3,156,411
+16,-196,234
+19,-33,-188
+1,-26,-125
+1,21,252
+2,49,-164
+2,75,21
+1,23,114
+1,-99,41
+2,56,-269
+1,-100,67
+1,96,224
+1,-82,-64
+1,35,-210
+1,5,216
+1,84,87
+3,-152,-188
+1,94,133
+5,20,-183
+1,-103,93
+4,168,27
+10,-67,-20
+1,2,67
+9,28,-137
+4,-112,168
+2,31,-75
+1,-17,-173
+2,0,-79
+1,-35,236
+1,148,69
+20,-1276,-920
+1,387,321
+1,-49,54
+1,-131,140
+1,1,524
+1,-2,202
+1,111,-949
+1,-241,848
+1,137,-727
+1,293,15
+1,-79,204
+1,-191,-342
+2,29,-311
+1,119,823
+1,136,-289
+3,-302,303
+1,28,-692
+1,12,222
+1,262,294
+1,-380,-791
+3,146,528
+1,-5,-325
+1,-137,169
+1,149,58
+1,49,-51
+1,-24,23
+1,-85,35
+1,111,23
+1,14,37
+1,-27,-66
+1,99,230
+1,-346,62
+1,-162,-716
+1,216,213
+2,353,593
+1,-25,22
+1,-165,-291
+2,18,-76
+1,161,142
+2,-74,84
+1,-99,-235
+1,-143,806
+1,72,-944
+1,168,181
+1,-95,94
+1,92,1
+1,-86,78
+1,-79,-433
+1,196,314
+2,-95,-152
+1,125,301
+1,-211,-413
+1,-83,-14
+1,151,33
+1,70,570
+1,66,-419
+1,-168,-199
+1,-96,-177
+1,222,745
+1,-258,-785
+1,-84,-65
+1,113,382
+1,-187,-279
+1,465,546
+1,-294,-296
+1,314,214
+2,-30,-43
+1,-147,-84
+1,-311,-356
+1,215,310
+1,-24,145
+2,108,-52
+1,-12,13
+1,-75,-315
+1,97,145
+1,-247,804
+1,233,-313
+1,-124,-136
+1,85,-318
+1,9,225
+1,-160,639
+1,215,-848
+1,-211,174
+1,-2,101
+1,180,-271
+1,-16,-22
+1,-174,-179
+4,313,209
+1,-17,8
+1,-19,2
+1,34,15
+1,-59,23
+1,18,-11
+1,6,22
+1,34,12
+1,23,-8
+91,-548,565
+1,-327,-247
+1,325,347
+1,-450,-523
+1,510,463
+5,-363,-370
+2,-179,-141
+3,650,382
+2,-13,-137
+4,-237,155
+2,-70,-93
+1,329,190
+1,-241,-69
+1,-94,-72
+4,-63,-99
+2,187,192
+2,0,-106
+6,100,87
+1,47,58
+1,-518,-411
+1,134,191
+1,165,98
+1,-139,-221
+1,4,53
+1,-132,-20
+1,146,128
+3,-166,-271
+9,-31,86
+10,263,34
+32,178,-452
+8,92,364
+1,-203,-307
+1,333,120
+2,-445,146
+2,64,1
+1,121,107
+1,157,-348
+1,-188,367
+1,15,-350
+1,-161,18
+1,387,94
+1,-215,-319
+1,-170,364
+2,312,76
+1,-282,-22
+1,324,-106
+1,-293,50
+1,182,259
+2,-103,-280
+8,27,120
+1,128,-52
+2,115,-209
+1,-74,182
+1,-274,-158
+1,282,292
+2,-260,-119
+1,-49,-88
+1,230,185
+2,-16,-253
+1,-13,-165
+7,30,289
+1,-43,44
+40,-72,508
+1,-51,-53
+1,-8,-38
+3,24,59
+95,824,-70
+1,282,-100
+3,-312,-54
+5,51,282
+1,-143,-123
+1,280,22
+2,-190,34
+1,-15,-171
+3,-3,-141
+2,142,265
+5,140,-241
+2,-289,421
+1,278,-260
+2,-17,-291
+3,-354,425
+1,313,-308
+1,-97,361
+1,101,-155
+4,32,-69
+2,-10,-5
+2,-9,3
+6,-66,36
+1,167,-215
+2,-47,198
+1,-287,-142
+1,108,311
+3,192,-234
+1,26,-280
+1,-124,127
+1,-68,276
+1,-185,-11
+46,157,-175
+1,7,26
+1,-32,25
+1,-10,-24
+7,65,-50
+1,-7,94
+1,-72,45
+8,94,-176
+1,-43,96
+9,33,-32
+2,-240,188
+1,14,-13
+7,256,-129
+42,-58,57
+1,-18,59
+10,-131,402
+19,68,73
+1,-238,-59
+1,21,-17
+1,111,90
+1,52,-2
+6,17,52
+1,-248,-231
+1,82,149
+1,85,-220
+1,-164,198
+1,134,88
+1,123,25
+2,-95,-7
+2,-97,-68
+1,8,-39
+1,145,108
+8,52,17
+1,-183,-38
+1,-113,-10
+1,143,-61
+2,29,-71
+2,-48,-39
+1,-166,8
+1,167,-107
+42,668,-530
+1,54,-133
+2,-37,-73
+1,-76,558
+2,21,-81
+2,54,-306
+1,-278,434
+2,231,12
+4,-170,63
+1,86,23
+3,62,27
+1,-56,-322
+1,1,-179
+1,-83,302
+1,-18,12
+1,93,-474
+1,203,115
+1,-49,-56
+1,-290,545
+1,292,-467
+1,-100,574
+1,-236,-117
+1,177,115
+1,135,-498
+2,-104,227
+1,54,32
+1,-82,213
+3,29,-15
+4,-45,-312
+2,77,173
+2,19,-599
+2,-145,657
+2,-59,-104
+1,137,-198
+1,13,279
+3,-147,133
+1,290,-407
+1,-225,433
+2,62,31
+2,17,-39
+2,171,-835
+2,-134,181
+2,-3,320
+3,-115,295
+1,44,-181
+3,90,-153
+3,-124,406
+1,88,-248
+2,-108,149
+2,-52,-15
+2,294,-708
+1,-166,305
+2,87,42
+1,-70,179
+11,-55,133
+1,-42,-49
+2,59,63
+1097,250,431
+1,-35,10
+1,16,-2
+1,-42,-28
+1,16,8
+1,3,-4
+1,5,5
+2,12,29
+1,13,-4
+1,3,-18
+1,-16,3
+1,-6,-7
+1,14,-1
+2,11,28
+1,7,5
+1,3,-20
+1,11,8
+1,-7,4
+1,11,22
+1,-11,-9
+1,16,-11
+1,11,8
+1,12,3
+1,5,14
+1,10,-1
+1,-37,2
+1,16,6
+1,26,4
+1,7,-7
+1,14,7
+1,8,7
+1,20,12
+1,-72,-6
+1,-35,-61
+1,53,53
+1,-104,-65
+1,117,65
+1,32,8
+4,-96,-20
+21,3,-13
+4,12,-26
+6,-4,33
+28,-12,-22
+7,-7,-4
+1,6,3
+1,-1,0
+3,52,15
+4,-60,-29
+9,30,43
+24,-23,-22
+1,6,0
+1,-6,0
+8,11,22
+3,-17,-29
+2,3,4
+1,-4,-2
+1,4,1
+1,-2,0
+1,3,2
+1,-1,0
+1,-1,-5
+1,-3,4
+3,4,-1
+22,-4,-21
+72,-43,-14
+7,7,7
+1,-2,-5
+1,-3,-8
+2,6,2
+19,-88,-79
+1,3,-44
+1,-1,-36
+1,-24,80
+1,-9,18
+1,-25,-48
+1,-64,-118
+1,45,90
+1,-23,-68
+1,103,104
+1,-28,-64
+1,-60,0
+2,56,16
+137,221,241
+1,16,0
+1,15,10
+1,-47,-4
+1,9,8
+1,16,1
+1,15,10
+1,16,12
+1,-36,-7
+1,16,14
+1,5,38
+1,-4,-19
+1,43,-42
+1,-16,106
+1,-43,-26
+1,64,-24
+1,-16,-26
+1,-6,-28
+1,0,53
+1,21,-26
+1,10,-34
+1,-70,38
+1,-11,11
+1,-8,-27
+1,65,58
+26,420,68
+1,-285,-82
+1,16,-34
+1,101,167
+1,214,-40
+1,-152,109
+1,42,-53
+2,179,98
+1,-272,-242
+1,124,-109
+1,185,235
+2,-276,-59
+2,290,-106
+1,-164,15
+1,-32,272
+1,81,-75
+1,-120,-205
+2,-217,5
+1,49,44
+1,316,-107
+2,-81,267
+1,27,-111
+1,-346,45
+2,49,-88
+2,76,12
+1,-63,-54
+2,298,61
+1,-66,105
+1,75,-192
+1,-406,125
+2,388,28
+1,56,-24
+1,-11,-12
+1,-418,28
+2,226,-99
+1,18,34
+1,116,-45
+1,-68,-93
+1,-44,216
+1,-296,-112
+2,19,9
+1,-15,4
+7,432,224
+2,-147,-227
+4,95,-92
+1,-1,22
+3,-160,106
+3,-112,112
+3,206,105
+1,-184,-139
+1,276,34
+1,81,-162
+1,-416,146
+3,10,-96
+5,342,-39
+1,1,135
+1,-76,155
+1,-173,-311
+3,33,78
+1,-29,-9
+1,169,-179
+1,37,362
+1,-11,-199
+3,-249,31
+2,21,-15
+1,18,33
+1,-61,2
+1,10,-31
+1,18,-35
+94,-92,-69
+2,11,-1
+1,-38,18
+1,-1,-26
+1,72,19
+1,-31,47
+1,-22,-7
+1,17,22
+1,15,-38
+91,-52,61
+2,-18,-21
+1,47,18
+1,-61,30
+96,269,-371
+9,127,-9
+1,26,142
+2,-239,40
+1,349,-244
+1,122,-157
+1,-91,112
+1,-127,137
+1,22,-154
+1,182,-126
+1,-370,450
+1,176,-425
+1,5,375
+1,-134,-15
+1,178,-349
+1,-195,63
+1,70,161
+1,-65,160
+1,158,-30
+2,33,-116
+1,-255,-57
+1,355,-293
+1,-114,-49
+7,79,34
+1,43,134
+9,-173,145
+2,-206,121
+1,295,1
+1,-307,65
+2,55,19
+2,225,-430
+2,-290,498
+2,-40,-36
+1,418,-579
+1,-451,627
+1,46,-94
+3,-25,87
+1,258,-567
+1,-111,425
+3,197,-417
+1,-222,290
+1,98,22
+1,-234,240
+1,96,-120
+2,63,-271
+1,57,263
+3,-208,108
+1,172,-74
+1,374,-336
+1,-292,359
+1,-86,-226
+1,102,-337
+1,-178,624
+1,144,-426
+2,159,199
+1,-216,191
+1,-112,1
+2,296,1
+2,-70,-569
+3,-601,836
+2,-24,-1
+1,47,-6
+1,11,-2
+5,-56,39
+10,70,-40
+1,13,-16
+2,15,-3
+1,17,-9
+6,-23,54
+10,-48,9
+2,14,-17
+8,81,4
+46,-219,-64
+5,126,-183
+1,25,14
+1,-9,13
+1,-18,-7
+1,34,13
+1,-17,-25
+3,-15,-25
+92,-53,-33
+2,-44,56
+1,-31,-51
+1,78,17
+1,5,25
+1,-32,49
+1,5,22
+1,-53,-158
+1,6,84
+1,86,1
+1,-51,32
+1,8,-23
+1,-71,-60
+1,63,9
+1,18,38
+1,1,-29
+1,-39,2
+1,-10,-21
+1,8,-20
+1,50,89
+1,37,-20
+1,-131,-25
+1,-20,-16
+1,86,35
+1,-17,-3
+2,-29,-56
+1,-16,69
+1,21,-21
+1,56,-40
+1,-21,0
+1,21,85
+1,-70,9
+1,-24,-32
+1,55,42
+1,65,-20
+1,-33,-45
+1,-24,102
+10,58,-102
+105,63,139
+1,-17,6
+1,34,-21
+1,0,32
+1,-25,13
+1,32,20
+1,-12,-5
+1,-16,9
+1,-4,41
+1,12,-14
+1,-26,-10
+1,-6,-38
+1,-9,14
+1,-1,-43
+1,20,-30
+1,13,-19
+1,2,-22
+1,9,21
+1,-22,-11
+1,-13,5
+1,-13,18
+1,-3,18
+2,22,-62
+1,-20,-5
+1,-8,29
+6,-16,-8
+26,-7,153
+1,4,-23
+1,-27,7
+1,-13,-93
+1,50,17
+1,-23,-22
+1,-9,5
+1,24,9
+1,-11,13
+1,-15,5
+1,20,-41
+1,-33,121
+1,55,-30
+1,-2,-60
+2,22,106
+1,-5,-24
+1,-10,4
+1,-11,4
+1,-63,-49
+2,68,-6
+1,-17,6
+1,-20,10
+1,23,-33
+1,-25,13
+3,46,2
+12,-21,-1
+50,45,157
+6,25,-13
+2,-183,-77
+1,62,121
+4,100,-5
+2,-124,-114
+2,11,60
+2,12,84
+10,78,-54
+12,146,8
+3,-47,40
+2,3,-56
+1,-18,31
+1,-92,14
+1,-18,-21
+2,-9,-33
+1,13,62
+1,15,33
+2,0,-24
+1,-84,-111
+1,-31,45
+1,-2,-65
+1,278,125
+1,-290,-56
+2,66,-29
+2,18,2
+1,-13,116
+2,125,-41
+1,-197,17
+1,75,-59
+2,-33,2
+3,48,52
+1,117,-62
+1,-14,8
+2,61,-5
+1,-169,-58
+1,-24,-13
+9,104,141
+6,5,-68
+2,-129,-70
+93,-29,-50
+1,-8,-30
+1,-2,-18
+1,-17,-41
+3,-18,-63
+4,125,500
+1,-46,30
+1,97,59
+1,-17,-34
+1,27,303
+1,-32,-187
+3,195,-315
+1,-234,23
+3,106,592
+1,-35,-543
+1,8,451
+1,26,-100
+1,7,-117
+1,-68,-10
+1,61,354
+1,93,-174
+1,32,-289
+1,-118,174
+2,80,-259
+1,-23,175
+1,-162,-113
+1,201,390
+2,-119,-321
+1,-33,140
+1,135,-132
+1,-21,-222
+1,98,426
+2,-207,-320
+3,105,395
+1,-127,-128
+1,154,-195
+1,-70,291
+1,15,28
+1,73,-382
+3,-69,62
+1,-30,-47
+2,23,238
+2,-77,-43
+1,28,40
+1,32,-367
+1,96,291
+1,-28,133
+1,-133,-399
+1,-36,143
+1,-35,-84
+4,29,10
+1,142,465
+1,105,9
+1,-48,-586
+1,57,540
+1,-91,-127
+1,76,-193
+1,-189,214
+1,-85,-15
+1,224,-385
+1,-112,538
+4,151,-59
+1,43,-21
+1,-8,130
+1,-135,-177
+1,98,-59
+2,-174,93
+1,-59,-410
+1,191,448
+2,82,154
+1,-98,-323
+1,-35,-2
+1,144,242
+1,-54,-156
+1,-80,-376
+1,127,677
+1,-308,-685
+1,272,386
+1,-210,-171
+1,22,197
+1,89,-373
+1,-67,94
+3,9,-146
+2,20,51
+1,-24,16
+97,170,809
+29,63,534
+1,-58,-508
+1,-6,317
+1,15,-461
+1,-140,-29
+1,219,308
+2,-26,295
+2,144,-127
+1,-330,-438
+1,21,34
+1,19,151
+2,253,199
+2,-237,-145
+1,78,-64
+1,18,32
+1,-94,-255
+1,-61,-42
+1,-40,10
+1,236,289
+1,-109,-403
+1,153,1002
+1,-232,-875
+1,177,352
+1,212,355
+1,-164,-347
+1,-209,-146
+1,-19,-96
+1,93,-180
+1,27,617
+1,71,-51
+1,47,18
+1,34,-1
+2,-281,-575
+1,98,449
+2,42,-143
+1,123,143
+1,-242,-271
+1,43,-187
+2,82,637
+1,-19,-97
+1,-101,-332
+1,-2,41
+2,6,-287
+27,1674,-1010
+1,347,28
+1,-155,-128
+1,240,-138
+5,-646,351
+2,29,366
+1,308,-65
+1,305,-361
+1,68,12
+2,-335,536
+1,-68,-849
+1,-118,649
+1,610,-588
+2,-170,214
+1,24,467
+1,-529,16
+2,350,-1041
+1,522,-125
+1,-755,891
+2,201,-672
+1,-201,-317
+1,-194,1123
+3,292,207
+1,-87,-621
+1,-191,96
+1,341,-647
+2,-214,734
+1,29,-120
+1,275,191
+4,-438,-112
+1,411,358
+1,0,-711
+1,-152,325
+2,160,-234
+1,206,764
+1,-627,-582
+1,275,-143
+1,-208,556
+1,188,-152
+1,-60,152
+1,28,-135
+1,12,-1006
+1,273,860
+1,-71,-518
+1,-224,384
+1,399,-482
+1,-10,122
+1,40,17
+1,-416,-152
+1,315,58
+2,166,304
+1,-746,412
+1,95,-750
+1,188,613
+1,546,-562
+4,-364,893
+1,-345,-580
+1,280,128
+1,-4,-68
+1,295,-142
+1,-564,216
+3,445,541
+2,-171,-1028
+1,-208,-248
+1,392,1142
+1,145,-938
+11,-646,710
+2,1079,-721
+2,-717,659
+5,-283,174
+1,71,-1309
+1,628,650
+1,-246,544
+2,-456,-418
+1,375,528
+1,-298,-719
+1,-20,720
+1,-73,-183
+1,36,389
+5,-43,-258
+1,11,-806
+1,18,830
+2,791,-594
+2,-842,663
+1,440,-568
+1,-111,763
+1,751,-1210
+1,-818,1008
+3,-190,-271
+1,136,125
+3,-109,-441
+1,309,311
+1,-210,-723
+1,263,518
+1,42,272
+2,-291,309
+1,305,-134
+1,-341,-1222
+1,-112,1081
+1,186,-539
+1,-137,472
+1,118,-72
+1,112,-478
+1,-229,518
+3,1114,-606
+1,-1333,944
+1,530,-952
+1,-422,-139
+1,151,1228
+1,19,-77
+1,409,-219
+2,-713,-72
+1,106,-16
+1,-42,27
+1,206,-832
+1,-174,594
+1,566,-321
+3,-202,687
+2,52,-27
+1,-53,-65
+1,-328,39
+1,443,99
+1,-230,-423
+1,-5,-487
+1,193,768
+1,-85,-22
+1,740,-567
+2,-1075,460
+1,122,-218
+1,15,-411
+1,-59,989
+1,153,-149
+1,-22,-1111
+1,63,1091
+4,-38,-126
+1,48,-89
+1,9,115
+1,27,-90
+1,-45,42
+1,-19,34
+1,-2,-62
+1,-14,20
+1,17,35
+1,54,-8
+11,-25,-60
+4,-6,13
+76,199,-173
+1,-129,53
+1,26,32
+1,37,-52
+1,-7,-94
+1,0,111
+1,16,12
+1,-21,56
+92,-812,-145
+3,-169,-226
+1,488,135
+1,-212,-475
+1,202,214
+2,-242,197
+1,11,-260
+1,-187,385
+1,133,-237
+1,296,252
+1,-73,101
+2,-139,-355
+1,-190,288
+1,453,-170
+1,-498,59
+1,-186,-292
+1,582,-141
+1,135,322
+1,-12,102
+1,-132,-5
+3,-97,-8
+1,-417,-333
+1,99,496
+1,368,-538
+1,161,475
+1,-315,80
+1,-42,-211
+1,357,-354
+1,-640,7
+1,491,424
+2,-3,-523
+1,68,391
+1,-497,37
+1,370,-331
+1,76,260
+1,-292,159
+1,312,-206
+2,-457,-23
+2,290,113
+1,-88,207
+1,150,-229
+1,163,275
+1,-68,-411
+1,-144,423
+1,187,-206
+1,-131,-520
+1,-116,665
+1,7,-250
+1,-217,-185
+1,417,-247
+1,189,510
+1,-520,-79
+2,283,239
+1,-127,-337
+1,92,-114
+1,-250,482
+2,392,-423
+1,150,155
+1,-164,168
+1,-447,36
+1,11,-25
+1,412,36
+1,24,-557
+1,-271,575
+2,79,25
+3,42,-403
+1,-158,163
+1,291,272
+1,-593,-499
+1,187,278
+1,345,15
+1,-375,98
+1,37,65
+2,-115,-353
+1,369,428
+1,-158,-217
+1,223,-194
+1,-393,363
+1,154,-330
+1,134,56
+1,255,-24
+2,-292,160
+3,-193,552
+1,234,-107
+1,-51,85
+1,-13,-329
+3,-14,-8
+1,-513,-37
+4,59,-8
+1,664,242
+1,-342,-44
+1,-197,-301
+1,428,514
+1,20,42
+1,-712,-534
+2,12,47
+1,743,346
+1,-451,52
+1,367,-162
+1,-554,-125
+1,153,-307
+1,436,333
+1,-603,-78
+1,195,-58
+1,482,452
+1,11,-141
+1,-666,12
+2,19,-115
+1,666,33
+4,-434,-140
+2,-121,169
+2,-57,-290
+1,-128,-209
+1,775,556
+1,-470,-9
+1,157,153
+1,-287,-463
+1,-3,-115
+1,-130,-157
+1,12,202
+3,-80,-15
+8,304,-17
+2,-265,502
+1,84,4
+1,666,-64
+1,-615,-673
+1,351,666
+2,-250,-139
+1,-101,121
+1,369,-138
+1,-78,-54
+2,-7,-82
+1,-432,-213
+2,-65,42
+1,385,319
+2,58,-74
+1,38,171
+1,-359,-24
+1,517,-159
+2,-334,192
+1,-157,-474
+3,55,7
+1,-28,270
+2,188,340
+2,-126,-24
+7,50,-338
+2,-32,47
+1,12,-30
+97,-38,-805
+18,-164,-193
+1,160,-9
+1,-79,474
+1,23,52
+1,163,-613
+1,107,51
+1,123,367
+1,-288,-396
+3,-205,353
+3,65,-261
+1,184,260
+1,-4,-136
+2,118,-269
+1,-352,220
+1,165,202
+2,273,163
+1,-100,-644
+1,-116,362
+1,-188,-124
+2,250,-186
+1,-346,374
+1,312,10
+1,24,-273
+1,-80,84
+1,44,-136
+1,-51,305
+1,-7,-323
+2,117,248
+4,142,-2
+1,-154,78
+1,118,-447
+2,-243,316
+1,21,282
+1,-90,-486
+1,260,375
+1,-37,-358
+1,18,-24
+1,31,273
+1,-205,259
+1,-212,-370
+1,-72,209
+4,246,50
+1,342,-376
+1,-401,248
+1,100,-104
+1,29,190
+1,-251,-103
+1,174,255
+2,125,-362
+1,-72,222
+1,-117,26
+1,89,-272
+1,156,13
+1,0,254
+1,-77,11
+1,-155,53
+1,254,-366
+1,-303,-67
+9,1797,1315
+2,-23,13
+1,49,-51
+4,413,-64
+1,-508,275
+1,250,-514
+1,66,-92
+1,318,-312
+2,-244,757
+1,69,-59
+1,-657,310
+1,596,-442
+2,-49,355
+1,-131,-172
+1,-6,218
+1,-225,-499
+1,-49,513
+1,344,-302
+3,-82,180
+1,-187,-28
+3,-60,-133
+1,163,362
+1,-208,-511
+1,-52,336
+1,235,-501
+1,379,400
+1,-236,350
+1,-146,-150
+1,24,-148
+2,223,45
+1,143,-771
+1,-126,298
+1,-109,328
+1,-57,-57
+1,-82,-78
+1,620,-846
+2,-524,1335
+1,-339,-681
+1,752,-137
+1,133,-15
+1,-326,69
+1,-212,736
+1,577,-430
+1,-361,-385
+1,167,196
+1,45,244
+1,-723,-202
+1,567,91
+1,25,396
+1,-59,-514
+1,-628,0
+1,667,-373
+1,-513,958
+1,-140,-393
+4,765,-26
+1,-748,162
+1,793,-119
+1,-767,411
+1,574,-238
+4,-253,-514
+5,398,511
+1,-748,-39
+1,441,-244
+1,106,-95
+1,-98,565
+14,1172,-108
+2,-52,11
+7,200,-145
+1,-322,140
+1,-54,-304
+1,-51,-230
+1,504,-592
+1,-81,559
+1,-15,-490
+1,87,351
+1,-234,499
+1,269,225
+1,-69,-607
+1,3,625
+1,-526,-1382
+1,577,856
+1,-465,375
+2,471,-746
+1,-744,-481
+1,-243,1227
+1,756,-136
+1,8,-821
+2,-514,931
+1,677,-236
+1,-79,-20
+1,33,68
+1,-560,396
+1,670,-1087
+2,-522,327
+2,-78,461
+1,-94,-97
+1,-138,-86
+1,310,350
+1,-124,-707
+1,-102,194
+4,111,465
+2,393,-323
+1,34,-356
+2,35,316
+1,-682,463
+1,756,-1096
+1,100,1004
+1,-2,-147
+1,-936,148
+1,45,-16
+1,648,11
+2,-577,-57
+1,574,-1050
+1,87,259
+1,-32,-236
+2,-50,563
+1,-265,-239
+2,116,777
+1,-278,-1009
+1,-224,1104
+1,470,34
+1,-26,-799
+1,-207,131
+1,316,309
+1,376,418
+1,-425,-1152
+1,63,678
+2,-279,-297
+2,213,404
+1,-337,-694
+1,140,674
+2,175,-302
+3,279,545
+1,-624,27
+3,161,41
+1,18,-444
+1,-282,288
+22,-1275,-2471
+1,102,-480
+3,17,-19
+2,-191,-78
+1,428,296
+1,131,423
+1,-77,-218
+1,-67,187
+1,-114,-343
+1,37,541
+1,106,-807
+1,-231,-135
+1,-16,878
+1,383,-359
+1,-256,334
+2,104,-201
+1,-612,125
+1,632,-261
+1,68,339
+2,45,-140
+1,-720,-198
+6,298,281
+1,-149,41
+1,-254,-399
+1,689,601
+3,-67,-371
+3,-79,-374
+1,-164,667
+1,-378,-641
+1,367,408
+2,-29,-838
+1,213,815
+2,-540,-358
+1,837,-22
+2,-654,-162
+1,86,791
+1,-177,-636
+1,727,-162
+2,43,401
+1,-626,-62
+1,230,150
+2,135,-424
+1,-419,-142
+1,429,667
+1,543,-22
+1,-765,-142
+3,-184,-46
+1,411,-20
+2,45,-22
+2,-501,-214
+9,-39,360
+1,-63,-226
+1,777,187
+1,-364,157
+4,2,-383
+2,-76,41
+1,369,-324
+1,-152,197
+1,58,-118
+1,302,292
+1,-72,-232
+1,-319,467
+1,-67,-700
+1,-253,307
+1,222,-44
+1,-32,281
+1,540,-146
+1,-647,448
+1,390,109
+1,-567,-71
+2,778,-633
+5,-16,365
+1,-151,-159
+2,-305,566
+1,287,-629
+1,-647,460
+2,292,-161
+2,161,-635
+1,-308,464
+1,804,48
+1,-326,-579
+1,339,740
+1,83,-146
+1,-551,-634
+1,-326,187
+1,146,-208
+4,-16,396
+1,90,-73
+1,139,-307
+1,-459,985
+1,651,-884
+1,-124,936
+1,-485,-248
+1,84,-145
+1,27,-531
+2,358,928
+1,-107,14
+1,18,-606
+1,-186,-566
+1,168,314
+1,247,505
+35,-282,-91
+1,17,16
+1,-9,-43
+1,-47,36
+1,69,36
+1,-61,-57
+1,66,18
+1,2,-91
+1,-50,110
+1,72,6
+1,26,-10
+2,-88,53
+1,-60,-146
+4,58,0
+5,0,120
+20,-16,-20
+46,46,-50
+11,354,957
+1,75,-749
+1,-131,497
+1,-127,311
+1,655,-274
+3,-644,-227
+1,228,319
+1,-589,-233
+2,802,367
+1,-813,-40
+1,-51,-56
+1,-89,165
+1,680,-604
+1,-569,1154
+1,72,-674
+1,105,-6
+1,-249,525
+1,311,-631
+1,-112,174
+1,63,-181
+1,279,462
+1,264,-627
+1,-860,649
+1,1250,-368
+1,-990,-165
+1,124,720
+2,715,-332
+1,-1058,-542
+1,61,754
+1,6,-835
+1,-129,415
+2,56,248
+1,770,13
+1,-591,328
+1,125,-470
+2,-418,-63
+1,1107,-117
+2,-64,-14
+1,-866,-223
+2,-114,489
+2,354,71
+2,248,-141
+1,138,432
+1,-183,-584
+1,-454,-143
+2,161,341
+3,751,367
+1,-824,-152
+2,439,-647
+1,-532,252
+1,293,413
+2,635,-689
+1,-89,203
+34,-742,-176
+1,263,242
+1,573,-213
+2,-597,563
+1,-176,-26
+1,-46,-720
+1,57,73
+1,-47,980
+1,-295,-695
+2,428,30
+2,-465,79
+1,590,226
+1,-87,-323
+1,-254,-86
+2,809,367
+1,-593,-647
+3,90,297
+1,-189,-124
+3,-41,958
+3,287,-544
+2,386,-176
+2,-293,96
+1,478,494
+1,-200,-1145
+1,-226,644
+1,-499,163
+1,363,-462
+1,9,51
+9,-524,595
+2,340,183
+2,127,-128
+1,-252,-619
+1,83,118
+1,-226,222
+2,0,448
+1,-87,-853
+1,383,-157
+3,-383,-17
+4,162,742
+1,365,-428
+1,-6,636
+1,169,-945
+1,319,543
+1,-53,-377
+2,-756,633
+1,200,-698
+1,-52,-4
+1,108,-68
+2,-226,219
+2,-223,195
+1,711,-647
+1,-552,160
+1,-66,340
+1,569,-22
+2,-683,569
+1,793,-754
+1,-361,92
+1,-242,262
+1,251,-170
+1,318,-560
+1,102,746
+1,-424,-126
+6,-30,52
+1,60,71
+99,828,-755
+1,81,161
+1,-20,-55
+2,-223,-246
+1,63,34
+1,462,106
+1,-71,296
+3,-491,-517
+1,215,362
+1,858,1020
+1,-312,-943
+1,-526,-291
+1,25,125
+1,551,715
+1,-466,-1148
+1,-138,699
+1,-68,144
+1,930,386
+1,-743,-1053
+1,353,362
+1,-220,-341
+1,314,1184
+1,-689,-809
+2,185,36
+2,460,371
+2,-372,-756
+1,357,569
+1,-469,-573
+1,272,791
+1,-546,-847
+1,363,285
+1,-84,89
+1,244,603
+1,69,-839
+1,-63,-16
+1,57,538
+1,-295,-250
+2,277,271
+1,135,-245
+1,158,699
+1,-451,-311
+1,761,604
+1,-1101,-1516
+1,55,39
+1,569,963
+2,137,-274
+1,407,845
+1,-786,-1312
+2,555,684
+1,-1010,-592
+1,1036,702
+1,-1064,-937
+1,1227,1204
+2,-353,-751
+1,-536,211
+1,171,486
+1,584,-72
+1,-48,34
+1,-96,-506
+1,-472,392
+2,284,439
+1,-290,-1065
+1,-444,-326
+1,540,208
+1,378,934
+2,177,-58
+1,-506,-797
+1,268,436
+1,-166,-44
+1,-585,-529
+1,1131,1167
+1,-617,-278
+1,-432,-1073
+2,514,1248
+3,-302,-176
+1,95,-757
+1,57,-255
+1,-303,-220
+1,873,1075
+1,-756,249
+1,601,32
+1,51,80
+2,-91,-188
+31,-2432,-535
+1,-102,745
+1,-81,-1380
+1,253,688
+1,-232,-930
+2,254,217
+2,238,73
+1,-213,1331
+1,-75,32
+3,-62,-1581
+1,31,430
+2,-6,45
+1,253,881
+1,-447,-841
+2,435,987
+1,-20,-39
+1,-285,-28
+1,134,-24
+1,-219,-521
+1,-17,424
+1,-67,-77
+1,428,263
+3,-299,-1247
+14,-174,900
+1,369,51
+1,143,-207
+1,-212,-646
+1,100,228
+2,63,282
+2,-252,486
+1,-183,-280
+1,448,-947
+2,10,1515
+1,-227,-974
+1,121,1011
+2,-174,-1336
+5,-109,223
+1,501,647
+1,-223,-908
+4,171,263
+1,-263,-264
+1,216,-13
+1,-232,670
+2,155,408
+1,236,3
+1,-92,-289
+1,-117,-129
+1,199,283
+1,-372,-1056
+1,-205,-191
+1,151,805
+1,436,24
+1,-70,-8
+5,-64,497
+5,-47,-168
+1,-344,-429
+1,26,-615
+3,325,604
+2,212,-18
+1,-457,-99
+1,353,795
+1,-168,-1212
+3,-94,783
+1,-49,137
+2,167,-582
+1,-39,1119
+1,188,-627
+1,50,-341
+2,-242,635
+1,-160,-223
+2,137,-44
+1,-292,-696
+6,122,835
+3,200,-66
+1,87,303
+1,47,-193
+1,-174,-792
+1,104,25
+1,-160,-484
+1,-216,765
+36,124,-251
+1,-94,-93
+1,-47,80
+1,92,69
+1,36,-123
+96,867,-2568
+3,-146,7
+1,30,254
+1,-288,-772
+2,680,399
+1,-720,226
+2,238,97
+1,501,-233
+1,-256,139
+7,-80,181
+4,-415,-32
+1,42,-481
+1,319,38
+1,-348,-333
+1,721,304
+1,-842,454
+1,87,-227
+1,423,-124
+1,63,-18
+1,-386,-52
+1,-159,-181
+1,-10,6
+1,483,469
+1,-171,-63
+2,48,275
+1,31,-200
+1,-482,-599
+1,76,488
+1,425,-216
+4,-214,-282
+1,-200,-327
+3,556,615
+1,-270,115
+2,136,456
+1,-346,-472
+1,429,293
+1,-345,-568
+1,455,706
+1,-268,-465
+1,-392,318
+1,149,-773
+1,-140,-64
+1,-42,-178
+2,76,1018
+1,144,127
+1,583,-370
+1,-183,-203
+1,-429,121
+1,-180,-280
+2,598,-45
+3,-305,133
+5,-78,269
+1,-72,-507
+1,94,683
+1,22,-49
+2,35,-494
+1,192,299
+5,-368,-264
+1,635,-100
+2,-15,291
+4,177,324
+3,-942,-160
+1,450,-17
+1,368,178
+2,-31,-110
+3,84,-240
+1,-127,-308
+2,-552,140
+1,113,-45
+1,-37,617
+7,418,-520
+5,6,568
+1,251,-454
+1,-583,-11
+2,-272,-277
+1,72,867
+1,686,-750
+1,-91,21
+2,-617,362
+1,-46,-727
+1,32,69
+2,-134,122
+1,335,512
+2,-193,-171
+2,452,636
+2,-243,-352
+5,264,-450
+16,-547,-538
+1,297,1093
+1,-236,-664
+1,253,458
+1,-65,-145
+1,-275,24
+1,848,-163
+1,-747,340
+1,723,-525
+27,-351,110
+1,-17,11
+1,-20,13
+1,21,2
+2,-1,52
+1,71,-89
+1,-37,48
+1,-1,-15
+1,-51,37
+1,44,9
+1,-12,0
+1,22,-72
+1,23,51
+1,-5,31
+1,15,-52
+1,22,-15
+1,-153,48
+1,-30,3
+1,57,4
+1,138,99
+1,-64,-154
+1,53,31
+1,-135,98
+1,91,-2
+1,41,-48
+1,-86,51
+1,160,-30
+32,-42,-14
+1,-5,-1
+40,100,-245
+1,-3,-12
+1,-10,12
+1,21,89
+1,18,-75
+106,113,807
+2,-13,1245
+1,-332,-773
+1,-135,727
+1,327,-963
+2,-479,764
+2,610,-713
+2,-129,-138
+1,-147,232
+1,-82,532
+1,134,-34
+2,-375,-714
+1,466,197
+4,-125,713
+1,121,262
+2,-364,-784
+2,-143,-71
+4,116,776
+4,427,-532
+5,-21,70
+3,-76,-54
+1,-213,-293
+2,45,768
+6,-161,-752
+1,108,682
+1,531,-870
+2,-550,362
+1,260,-35
+1,258,-190
+1,-416,331
+1,327,-587
+1,-462,567
+1,222,-92
+3,-28,85
+1,392,-545
+1,7,-90
+1,-756,1005
+1,656,-1176
+1,-398,597
+1,-66,-209
+1,195,-56
+3,-84,371
+1,10,-322
+1,-85,283
+2,282,646
+13,7,-341
+2,-129,102
+1,191,59
+1,-157,-331
+1,-317,250
+3,11,-612
+1,303,-25
+1,-354,492
+1,431,299
+1,3,-710
+1,174,79
+1,-55,821
+1,-606,-986
+2,642,582
+2,-557,510
+1,383,-415
+3,-182,-793
+1,273,569
+1,-485,381
+2,-128,-581
+1,202,-355
+2,224,967
+1,-117,-851
+1,210,362
+2,-519,-558
+1,497,923
+2,-201,-719
+2,-69,1026
+1,388,-27
+1,-169,-803
+1,-228,439
+1,-94,-471
+1,371,-69
+2,-58,537
+1,-278,-779
+1,-17,-71
+1,538,1044
+4,50,71
+1,-589,-854
+1,364,-236
+2,147,249
+1,-499,236
+1,131,452
+3,165,-303
+4,157,148
+1,-394,-883
+2,592,-83
+1,-777,689
+8,652,118
+5,-311,-108
+1,136,-137
+2,-362,820
+1,559,-299
+1,6,337
+1,-413,-1275
+1,37,216
+12,288,286
+1,11,5
+1,3,-98
+1,-20,111
+1,3,-36
+1,23,71
+1,-36,7
+1,7,-102
+1,116,-26
+1,-82,33
+1,-24,25
+1,43,-40
+1,33,-3
+1,-8,71
+1,-111,32
+1,21,-94
+1,-8,45
+1,62,0
+1,24,53
+1,-127,-91
+1,41,-89
+1,22,225
+1,64,-206
+1,-85,82
+15,-6,5
+59,-1045,-1634
+5,28,731
+1,-23,466
+1,-64,-2
+1,337,82
+1,-268,-1438
+1,230,1292
+1,-134,-1234
+2,106,1121
+1,-213,96
+1,304,-1292
+1,-19,1257
+1,-16,-1108
+1,-4,412
+1,-233,-404
+1,-92,1012
+1,193,-1201
+1,108,312
+1,-272,-513
+2,208,650
+1,-40,727
+1,59,-1118
+1,135,667
+2,-101,88
+1,-88,-451
+1,-59,-65
+2,293,1076
+1,-316,-1650
+1,192,1317
+1,-276,-629
+1,134,901
+1,36,-1024
+1,-3,569
+1,-101,-697
+1,93,899
+1,216,203
+3,-274,-888
+1,3,452
+2,-78,-685
+2,273,8
+1,-308,684
+1,-22,434
+1,207,-614
+1,-32,-608
+1,41,-81
+3,-165,1087
+7,-16,-1096
+2,329,41
+1,-348,1173
+2,106,-654
+2,-55,807
+1,140,-1553
+2,157,1426
+1,-308,-209
+1,28,-287
+2,61,-839
+1,100,357
+1,-200,323
+1,244,-456
+1,-155,-18
+2,162,-167
+1,-257,1189
+13,43,1088
+1,150,-497
+1,-21,-5
+1,81,-56
+1,36,1132
+1,-191,-1069
+1,261,67
+1,138,252
+1,-134,20
+1,-77,102
+2,-46,342
+1,-48,-990
+1,-97,1036
+1,218,-128
+1,-176,351
+1,160,401
+1,97,-484
+1,-231,-623
+1,-29,72
+1,47,151
+1,197,-628
+1,-197,318
+1,24,836
+1,-188,80
+1,418,-879
+1,-315,349
+3,-53,117
+6,405,-844
+1,-33,851
+1,-311,352
+1,-41,-961
+1,294,434
+1,85,352
+1,74,-139
+1,-267,-654
+2,-131,796
+1,326,-1165
+1,79,1270
+3,-176,234
+3,14,19
+1,66,-126
+1,-366,-890
+1,231,128
+2,-347,234
+1,94,598
+1,468,-305
+1,-504,156
+3,199,-158
+1,66,27
+2,-16,207
+2,25,-159
+1,-202,-359
+1,-120,217
+1,201,40
+1,282,-427
+1,6,134
+3,-468,-523
+1,388,743
+1,-144,-253
+1,-131,-778
+1,226,1616
+1,186,-220
+1,-348,103
+1,242,-1418
+1,-432,323
+1,453,881
+3,-267,111
+2,143,-366
+1,-331,416
+1,423,-583
+1,-450,335
+1,62,-1164
+2,-60,148
+1,32,364
+3,21,689
+2,43,-138
+1,-47,70
+1,18,-35
+96,-1493,-3480
+2,9,107
+1,-262,-167
+1,302,197
+1,-10,309
+1,17,-55
+2,47,-433
+1,73,14
+2,-615,538
+2,453,71
+1,27,-340
+2,-289,-51
+1,-67,333
+1,127,-529
+1,-179,375
+1,161,-488
+1,-264,503
+2,460,92
+1,-288,-74
+1,209,-436
+1,160,117
+1,-363,437
+2,289,20
+1,-244,-379
+2,-168,297
+1,171,-25
+1,34,83
+2,-127,-46
+1,-8,-73
+4,440,-279
+1,-138,-283
+1,86,540
+1,-312,62
+1,230,-343
+1,-243,433
+2,243,-8
+1,6,-640
+1,6,583
+1,98,-566
+1,-285,67
+1,-18,-37
+1,-57,273
+1,258,-92
+1,-205,-28
+2,315,-265
+1,-304,220
+1,294,-19
+1,-512,425
+1,39,-39
+1,164,-226
+1,289,423
+1,103,-531
+1,-540,294
+1,350,236
+3,-142,-464
+1,-276,334
+2,595,-352
+1,-147,381
+1,22,-10
+1,16,-580
+1,-266,32
+3,216,149
+1,-195,25
+1,-120,425
+1,369,-17
+1,-244,78
+1,290,-384
+1,-483,258
+1,79,-45
+1,-46,147
+1,400,-318
+11,-45,112
+1,-259,-82
+2,83,175
+2,5,-247
+2,91,-93
+2,-127,352
+2,32,13
+4,121,-97
+4,-130,26
+2,-35,12
+1,-13,-39
+3,112,-352
+3,-167,292
+2,46,199
+1,1,-47
+1,-13,-24
+2,-27,55
+1,163,-295
+1,-87,298
+2,147,-27
+1,-116,58
+2,-22,-344
+1,183,-25
+1,-21,364
+1,-132,-41
+1,13,63
+1,69,-70
+1,-104,36
+53,89,-146
+1,25,-131
+1,-82,96
+1,32,-85
+1,-19,-45
+1,34,193
+1,-73,-22
+1,55,36
+1,45,-71
+1,-92,-15
+1,23,-30
+1,27,20
+1,-21,31
+1,50,-49
+1,15,100
+1,-98,-122
+1,28,115
+1,-7,30
+1,19,-94
+1,-24,-65
+1,16,183
+1,15,-125
+1,54,40
+1,-37,5
+1,40,-168
+1,-112,100
+1,-20,43
+1,-4,-73
+1,149,5
+3,-68,107
+1,8,-101
+1,-92,15
+1,92,196
+1,-112,-154
+1,200,-70
+1,-10,167
+1,-54,141
+2,-151,-345
+2,43,12
+17,67,118
+15,9,-231
+7,-16,193
+8,21,-28
+11,-293,-233
+9,-371,-229
+1,253,295
+1,206,-255
+1,-189,412
+1,83,12
+1,-389,34
+1,7,-285
+1,512,96
+3,-407,183
+1,453,-198
+1,-334,134
+1,115,-364
+1,-2,352
+1,-152,101
+2,-194,-5
+2,273,-311
+1,151,190
+1,-74,67
+1,135,30
+1,-209,-20
+1,-218,46
+3,139,-411
+1,-111,394
+2,446,-339
+1,-463,-21
+1,421,123
+2,-322,170
+1,99,-56
+1,-86,33
+1,282,-151
+1,-232,229
+1,-225,-77
+1,533,-128
+1,-415,270
+1,-124,-472
+1,207,92
+4,-20,331
+1,113,-23
+1,-178,-273
+1,211,195
+1,245,-181
+1,-576,48
+1,495,16
+1,-298,-86
+1,202,-101
+1,4,411
+1,101,-82
+1,-247,67
+2,-140,-197
+6,235,-293
+1,-120,30
+1,289,175
+1,-35,-151
+1,-365,-42
+21,23,719
+9,7,-158
+1,-161,562
+1,354,-509
+1,-116,-18
+3,-126,148
+1,147,-198
+2,51,31
+1,-96,26
+1,-116,267
+1,134,-212
+1,115,-119
+1,-267,572
+1,203,-193
+2,37,-422
+1,17,289
+1,-76,-261
+1,31,289
+1,-108,81
+1,179,-286
+1,-127,-90
+1,98,58
+1,-138,44
+1,-125,122
+1,-24,135
+1,279,-269
+2,-335,215
+2,281,-196
+1,-100,-45
+1,94,-23
+1,-137,240
+1,150,282
+1,-74,-546
+1,184,199
+1,-163,-48
+1,36,-194
+1,-272,139
+3,123,-30
+1,146,220
+1,-79,-6
+2,-40,-199
+1,-122,386
+1,42,-443
+1,33,8
+1,221,519
+1,-98,-518
+1,-33,463
+1,9,-205
+1,139,-248
+1,-295,-10
+1,167,66
+1,64,414
+1,-161,-113
+2,66,-185
+1,156,-51
+1,-322,-135
+1,205,22
+1,-90,-42
+1,211,60
+1,-292,58
+1,364,97
+1,-165,-66
+2,75,8
+1,22,-85
+1,-191,72
+2,134,68
+2,-48,-49
+1,-23,62
+1,122,216
+2,43,-281
+9,-80,633
+1,-13,-114
+8,-63,204
+10,142,-20
+1,94,430
+1,-258,82
+8,-1,-376
+1,243,-158
+1,-422,21
+1,218,802
+1,-81,-432
+1,-68,247
+1,107,238
+1,53,-168
+1,-127,-460
+1,264,241
+1,-331,-646
+1,251,258
+1,-181,-98
+2,266,-18
+1,-331,345
+1,335,-296
+1,26,-22
+3,-168,417
+1,-127,-632
+1,-78,297
+2,333,366
+1,-25,-459
+2,-182,-124
+1,-154,125
+1,298,389
+1,-43,-216
+1,77,-184
+1,-353,-17
+1,349,171
+1,-360,92
+1,29,-271
+36,554,-420
+9,-182,121
+1,176,-238
+1,-169,54
+1,409,37
+2,-186,-172
+1,-126,183
+1,33,-104
+1,303,215
+1,-250,-57
+1,2,158
+2,-285,19
+1,331,-303
+1,-3,152
+1,-96,-208
+1,139,103
+1,-57,273
+1,-252,-67
+1,497,-193
+2,-507,-22
+1,346,-21
+1,-77,89
+1,-34,-89
+1,23,104
+1,17,-154
+1,-104,-56
+1,4,310
+1,-61,-192
+1,19,-138
+1,409,143
+1,-313,-135
+2,28,111
+2,-252,269
+1,248,-376
+3,-66,327
+5,-79,215
+1,443,-440
+2,-372,402
+2,-22,-557
+1,75,413
+1,17,-120
+1,-87,-200
+2,87,17
+1,-178,153
+2,304,-161
+2,-58,227
+1,-47,123
+1,-116,-301
+1,350,65
+1,-387,61
+1,127,-143
+1,-91,180
+1,-93,228
+1,134,-495
+1,-96,70
+1,333,160
+1,-19,57
+1,180,-194
+1,-575,25
+1,356,102
+2,152,69
+1,-479,121
+1,38,-270
+1,51,94
+1,416,-57
+1,-344,-135
+1,34,5
+1,-82,273
+2,-52,-287
+1,83,327
+1,-40,-215
+1,-26,-108
+3,415,539
+4,-13,-10
+5,26,288
+1,376,-84
+1,-225,109
+1,-223,-415
+1,74,429
+1,327,-44
+1,-502,-311
+1,-12,-55
+3,82,177
+1,281,282
+1,-219,63
+1,98,-438
+1,36,345
+1,-216,-535
+2,46,34
+1,111,348
+1,30,52
+1,321,-168
+1,-526,-90
+1,232,-43
+1,256,257
+1,-269,-50
+2,-21,-360
+1,-100,615
+1,91,-28
+1,-11,-383
+2,123,274
+1,9,21
+2,108,-203
+1,-296,160
+1,131,40
+1,10,-270
+1,-240,59
+2,-40,-99
+2,57,-99
+1,242,651
+1,-226,-521
+2,13,-150
+1,333,570
+2,-130,-300
+1,-127,227
+1,-12,-85
+1,-40,61
+1,313,-299
+1,88,101
+1,-402,27
+2,373,25
+3,43,-162
+1,-177,148
+1,38,90
+1,-239,169
+1,24,-594
+1,-20,540
+1,376,-328
+1,-314,149
+1,272,-235
+1,-569,-20
+1,521,175
+1,43,56
+2,-361,-358
+1,421,204
+17,106,413
+20,242,331
+2,-112,-319
+1,-14,-121
+1,-76,-203
+2,125,534
+1,90,-617
+1,-175,-121
+2,143,640
+1,4,407
+2,144,-126
+6,-329,-500
+1,86,319
+4,250,-203
+1,-168,98
+1,-254,-421
+1,-56,319
+1,157,138
+2,-84,-337
+2,289,118
+3,-310,178
+1,373,94
+3,-109,-517
+1,7,1001
+2,-337,-802
+1,86,-352
+1,-52,376
+1,-21,26
+2,272,379
+2,282,-173
+31,-1255,-330
+1,-9,43
+2,-6,29
+1,-22,-130
+1,94,36
+3,25,64
+11,58,-177
+1,-152,349
+1,203,-180
+1,-164,-281
+1,-252,396
+1,306,122
+1,-382,-176
+1,514,37
+1,-302,-139
+1,241,-92
+1,-185,294
+1,220,-67
+3,-234,-12
+1,-83,-171
+1,-37,74
+1,54,-88
+1,200,384
+2,112,-47
+2,-129,-167
+1,77,-25
+1,-111,-243
+1,-5,210
+1,11,251
+2,120,-149
+1,-83,-368
+2,-74,364
+1,-29,-5
+1,-96,-109
+1,210,-115
+1,-109,307
+1,42,-103
+1,195,-104
+1,-159,169
+2,111,-121
+1,-32,-91
+1,-77,227
+1,-169,-69
+38,690,-1160
+1,-95,90
+18,301,-42
+2,-61,164
+1,-270,-16
+1,-45,-288
+1,200,266
+2,-122,-244
+1,133,379
+1,-71,-210
+1,256,49
+3,-340,-252
+1,62,334
+1,251,-300
+1,25,346
+1,-291,-465
+1,321,181
+2,-70,112
+1,-87,127
+4,-154,-202
+1,-150,-108
+2,349,221
+1,42,131
+1,-50,-89
+1,-101,-378
+1,-44,77
+1,-87,79
+1,340,322
+1,-435,-89
+1,11,-92
+1,306,-218
+2,-327,133
+2,298,42
+2,-249,-246
+3,-46,25
+35,274,-184
+1,-22,-125
+3,92,76
+5,441,-48
+1,24,103
+1,-559,-214
+1,321,74
+1,123,236
+1,-608,-276
+1,248,14
+1,-172,194
+3,13,-223
+1,326,-18
+2,-389,300
+1,511,-68
+1,74,-105
+2,-234,297
+3,272,-150
+1,104,-154
+1,-543,-128
+1,262,391
+1,259,-376
+2,-692,166
+1,397,84
+3,-138,-271
+1,-214,112
+1,255,66
+1,-30,-121
+2,275,375
+1,-145,-420
+2,-7,81
+2,54,-31
+1,161,243
+2,-121,119
+1,4,-333
+1,-258,-91
+1,30,284
+1,-210,-106
+2,265,-142
+1,-225,113
+1,274,-131
+11,-84,162
+29,-306,859
+9,89,-45
+1,-107,315
+1,-42,-375
+1,374,19
+1,72,204
+3,148,173
+1,-420,-412
+2,492,325
+2,-544,11
+1,113,-97
+1,80,64
+2,-352,-197
+2,46,-49
+1,-49,-120
+1,308,373
+2,194,-268
+1,154,266
+2,-62,-62
+1,-525,-177
+2,7,4
+1,709,382
+1,-461,-87
+2,-51,-147
+2,-180,93
+1,197,-14
+1,-210,111
+2,243,-323
+1,-276,179
+1,17,88
+3,181,-106
+1,298,-107
+1,-126,-16
+1,-274,333
+2,375,-138
+1,-304,-180
+1,485,213
+2,-573,-414
+1,-37,312
+38,652,-281
+10,9,-420
+1,470,739
+1,-217,158
+1,-194,-932
+2,74,-207
+1,-63,431
+2,-208,230
+2,244,222
+1,38,17
+1,-189,-447
+3,-41,399
+1,261,-528
+1,14,233
+1,202,462
+2,-565,-294
+1,69,189
+1,392,438
+1,-445,-514
+1,327,-708
+5,168,736
+1,-236,-129
+1,-248,-381
+1,111,175
+1,44,69
+1,474,601
+1,-566,-590
+1,282,603
+3,297,-264
+1,-282,-36
+1,91,334
+1,-274,-354
+1,123,-316
+6,65,-184
+1,-289,550
+1,59,-625
+2,-99,438
+1,489,370
+5,-283,-292
+1,311,130
+1,-667,-556
+1,7,177
+1,55,-117
+27,615,-590
+1,83,935
+1,-168,-544
+1,-67,225
+1,212,255
+1,-187,-830
+1,165,679
+3,7,-624
+1,55,-138
+1,-96,287
+3,156,-70
+1,-212,757
+1,143,-838
+3,-274,766
+1,475,-395
+1,-502,-370
+1,353,-30
+1,-359,-108
+2,322,322
+1,-109,155
+1,296,140
+2,-170,-588
+3,-264,278
+1,60,472
+1,25,-714
+1,40,877
+2,29,-341
+2,-108,-279
+1,175,142
+1,91,158
+1,-109,-646
+1,-69,351
+31,5,-240
+26,245,272
+1,-10,-12
+1,16,40
+1,-18,12
+1,10,-79
+1,-56,-28
+1,76,71
+1,-41,-6
+1,-38,45
+1,49,91
+1,58,-51
+35,-63,-47
+4,30,-32
+13,-16,99
+38,-1565,1613
+1,-68,-24
+9,86,306
+2,-34,-441
+3,233,74
+1,-167,128
+2,81,-86
+1,155,65
+1,-581,242
+1,71,40
+1,-53,23
+1,289,-561
+1,-283,88
+2,471,15
+3,-290,-77
+1,-192,234
+2,-111,114
+1,51,60
+1,197,-304
+1,192,-25
+1,-258,31
+1,-4,270
+1,344,-263
+1,26,-108
+1,-200,1
+4,296,70
+1,-114,-225
+1,-310,613
+1,62,-219
+2,-330,40
+1,739,-88
+1,-335,430
+2,-24,-79
+1,-264,-474
+1,579,-53
+1,-469,395
+2,-178,-227
+2,671,-73
+1,-536,164
+2,-117,-123
+1,211,-15
+1,479,121
+1,-685,-211
+1,470,-97
+1,3,715
+1,-397,-601
+1,529,110
+1,-602,161
+1,119,-152
+1,-119,310
+1,502,-600
+2,127,433
+1,-589,14
+1,-71,38
+1,588,-184
+2,-471,-78
+1,392,390
+1,-29,-231
+1,-355,216
+1,390,-160
+3,-595,157
+2,2,-63
+1,674,-564
+1,-286,486
+1,-275,91
+1,15,-203
+4,242,-224
+2,1472,-189
+19,-316,740
+4,143,-380
+1,153,-272
+1,-97,86
+1,183,42
+2,-15,52
+1,-152,59
+1,133,63
+1,-92,-248
+1,-159,36
+1,-84,-275
+1,13,40
+3,178,75
+2,-154,222
+3,115,277
+1,108,-336
+1,50,79
+1,-132,368
+2,148,-23
+1,-182,-276
+1,142,129
+51,-1117,450
+1,14,-23
+1,9,-30
+17,112,508
+1,38,-808
+1,179,487
+1,-205,-52
+2,56,-552
+1,74,726
+1,-294,-187
+1,36,77
+1,281,-191
+1,6,-552
+2,-248,1013
+1,101,-1146
+1,108,485
+1,-145,210
+1,238,-388
+1,-200,-209
+1,61,-177
+1,-3,545
+1,-79,-97
+1,112,512
+2,-24,-771
+1,-99,529
+1,200,5
+2,-114,-237
+1,12,632
+1,-50,-583
+2,-149,315
+1,124,262
+1,4,-247
+1,-43,314
+1,108,-882
+1,-76,704
+2,74,-560
+1,44,168
+1,-109,-138
+1,-65,-339
+2,35,44
+1,246,676
+1,-430,-157
+1,143,-210
+2,-140,275
+2,74,-158
+1,390,13
+1,-224,677
+2,18,-593
+1,-145,364
+1,126,-700
+1,-233,220
+1,207,-284
+1,24,211
+2,63,-179
+1,-120,982
+19,828,22
+9,-30,485
+1,-28,-271
+1,-11,35
+2,188,283
+1,-79,-1177
+2,-53,904
+3,252,-227
+1,-251,-238
+1,-42,-189
+1,270,-160
+2,-2,1087
+1,-233,84
+1,249,-959
+1,-13,225
+1,11,299
+1,-379,-4
+2,195,200
+1,40,-124
+2,50,-271
+1,82,367
+1,17,-744
+1,-377,341
+1,90,356
+1,296,-220
+1,11,-524
+1,-23,404
+1,-117,-262
+3,68,474
+1,-156,338
+1,95,-955
+2,41,215
+52,-1435,-325
+1,-104,1317
+1,244,-1178
+1,2,919
+1,-267,-681
+1,-197,374
+2,497,-447
+1,-358,982
+1,-43,-346
+2,6,-255
+1,419,-10
+1,-477,-38
+1,90,825
+1,354,-493
+1,-205,74
+1,-328,-196
+1,320,-20
+1,-83,-626
+1,-164,1059
+1,414,-203
+1,-174,-495
+1,-113,333
+1,180,537
+1,-317,-545
+1,246,307
+1,155,-942
+1,50,873
+2,-114,-70
+1,-225,186
+1,-60,-158
+1,195,-795
+1,-146,861
+1,174,-708
+1,36,890
+1,-175,297
+1,3,-1099
+1,-79,800
+1,79,119
+1,-48,-479
+1,334,-690
+1,15,589
+1,-215,572
+1,-11,-983
+1,211,720
+1,70,-567
+1,-404,229
+1,211,-734
+1,-182,-222
+1,48,960
+1,172,-701
+1,-319,729
+1,356,-358
+1,-340,630
+1,307,-822
+1,88,157
+1,-76,-469
+1,51,960
+1,-17,-288
+1,214,-297
+1,-519,1010
+1,-171,-757
+1,288,-623
+1,31,1540
+1,9,-867
+1,59,201
+1,-258,127
+1,96,-760
+2,7,1359
+1,176,-893
+1,-85,-686
+1,227,527
+1,-219,771
+1,-114,-45
+2,353,-222
+1,-440,-480
+1,294,-165
+2,181,-179
+2,15,505
+1,-287,854
+1,-104,-27
+2,18,-886
+3,-8,253
+1,276,-294
+3,-12,545
+1,16,46
+1,47,-949
+2,-379,687
+1,10,-9
+1,7,39
+1,-20,-4
+5,35,43
+1,33,-64
+1,-53,107
+1,104,11
+1,-144,-51
+7,35,-62
+81,-305,-774
+1,-37,-33
+8,268,29
+1,-436,-754
+1,58,351
+1,448,299
+1,-513,295
+1,336,-409
+2,154,157
+2,-14,29
+1,-49,-46
+1,-126,-83
+1,-153,328
+1,169,-448
+1,-86,57
+1,-195,122
+3,211,-335
+1,89,88
+3,11,377
+1,-119,-354
+2,-119,289
+1,-57,-249
+1,37,406
+1,24,-589
+1,279,300
+1,11,250
+1,30,173
+2,103,-408
+1,-194,143
+2,-29,-4
+1,-262,97
+2,443,-321
+1,-506,377
+1,387,-144
+1,-211,-160
+1,300,-179
+1,-244,417
+1,181,-278
+2,-93,370
+3,240,-397
+1,-436,382
+1,267,-256
+1,-403,51
+1,456,-276
+1,-148,218
+1,57,362
+1,-281,-827
+1,-33,664
+3,327,-228
+30,-207,825
+1,-78,565
+1,109,-884
+1,51,65
+2,7,-17
+1,-27,-65
+2,-83,866
+2,-57,-393
+2,68,185
+1,-136,331
+1,265,-543
+1,-49,-139
+1,6,485
+1,49,-203
+1,140,-68
+1,-390,-594
+1,-20,944
+1,105,-91
+1,220,-492
+1,-45,-210
+1,-204,9
+2,-47,474
+2,-20,-99
+2,32,-127
+8,344,104
+1,-380,-241
+2,98,409
+1,16,-622
+1,-64,311
+1,268,291
+2,-26,53
+2,-302,20
+1,145,-424
+2,-128,579
+1,125,-893
+2,-127,697
+1,138,112
+4,-46,-170
+1,-86,77
+1,82,-192
+1,-81,284
+1,163,-315
+1,131,-40
+1,-128,383
+2,52,37
+2,133,-263
+1,-215,-5
+1,89,-320
+29,-33,375
+1,-2,73
+1,-37,-51
+1,83,-63
+2,12,133
+1,-128,-72
+1,46,-86
+93,224,593
+1,-56,-454
+2,-77,332
+1,40,136
+1,53,139
+1,81,37
+1,-73,-198
+1,-218,185
+3,133,-457
+4,-113,101
+1,318,252
+1,-436,-120
+1,332,230
+1,-43,-326
+2,76,179
+5,-158,176
+2,26,-103
+3,-184,-191
+2,179,176
+1,-25,76
+1,-164,-38
+2,235,-341
+2,15,225
+3,83,-105
+2,-8,-127
+2,-102,-163
+3,4,1
+1,-97,211
+1,130,-138
+2,-68,87
+1,82,465
+2,-19,-116
+3,-190,-153
+2,57,136
+1,-209,-101
+2,130,-142
+1,-24,187
+2,81,-86
+1,323,137
+1,-145,-474
+2,-120,419
+4,31,-46
+2,193,32
+1,-270,-15
+2,196,126
+1,-168,-400
+2,-28,190
+17,113,-49
+1,-58,68
+1,16,-84
+3,82,25
+95,1232,-552
+1,-162,-220
+18,-4,-126
+1,3,-116
+2,253,-152
+1,203,670
+3,-109,-664
+1,-194,386
+1,176,-657
+1,-404,860
+1,322,297
+6,-143,-104
+2,130,-711
+1,-180,137
+2,3,677
+2,2,-573
+1,44,-318
+2,-252,139
+1,115,-8
+1,-76,526
+1,-14,-668
+1,72,-39
+1,53,601
+2,129,31
+2,-107,159
+2,145,185
+2,64,-1112
+2,-130,957
+1,218,-212
+1,-159,-914
+1,239,844
+3,-23,226
+1,-48,-740
+2,-74,460
+1,-312,323
+2,127,166
+2,163,-746
+1,-308,471
+1,189,-1158
+1,-88,603
+22,-371,616
+9,264,-278
+2,-368,-196
+1,54,51
+1,472,813
+1,-237,-59
+5,-126,26
+1,94,-240
+1,-21,41
+1,-224,-175
+1,123,285
+3,-115,-475
+2,148,-187
+1,-215,350
+2,120,350
+2,-26,-12
+1,104,-731
+1,-170,592
+1,261,-339
+3,-201,518
+1,-49,-936
+1,76,320
+2,159,-42
+1,-76,-127
+1,258,695
+1,-134,-294
+3,-41,-48
+1,-164,434
+2,-115,-586
+2,202,43
+1,155,-40
+1,-113,235
+1,-90,350
+1,275,24
+1,-278,-205
+1,-64,-472
+1,86,20
+2,-156,150
+1,282,116
+1,-216,194
+1,-56,-94
+1,240,59
+2,-147,-257
+2,-50,200
+4,100,-138
+2,318,503
+2,-285,-801
+1,-110,438
+3,271,11
+1,-186,-639
+1,152,438
+1,57,-20
+1,-256,517
+1,59,-542
+12,-183,646
+19,113,-53
+1,-56,-33
+1,-170,250
+1,79,-208
+2,94,246
+4,-124,-120
+1,78,78
+1,77,-100
+2,-182,-28
+1,195,30
+1,-5,-67
+1,-44,-60
+2,-96,-161
+3,32,-112
+2,76,234
+1,-102,90
+1,125,-84
+1,25,117
+2,10,112
+1,-24,-92
+2,-117,-8
+1,85,184
+1,-17,-40
+1,-57,-160
+3,-96,-257
+2,146,352
+1,-43,218
+1,-47,-114
+2,-90,-333
+1,143,-121
+1,-4,350
+2,171,-42
+1,-228,-419
+2,79,435
+2,-142,-37
+2,117,-8
+2,124,25
+2,-204,-441
+1,-49,450
+1,-48,-443
+1,112,252
+1,137,355
+1,-124,-512
+2,274,311
+26,-441,593
+1,334,54
+1,42,427
+1,-86,-248
+1,-180,46
+2,73,-20
+1,-32,-9
+2,44,69
+10,132,-336
+1,-244,14
+1,96,181
+2,-115,49
+1,211,-119
+1,-243,149
+1,174,-159
+1,112,62
+2,-49,260
+1,-326,-284
+1,224,283
+3,48,-48
+1,-144,-285
+3,-26,70
+2,74,-177
+1,61,163
+1,62,-200
+1,-367,265
+1,240,135
+1,-145,-243
+2,442,53
+1,-166,-49
+3,-217,-37
+1,277,398
+1,-26,-134
+1,-58,-296
+1,-35,-128
+1,53,258
+2,-92,-133
+1,-195,76
+1,404,-16
+1,10,296
+1,-458,-215
+1,-69,-42
+2,57,34
+1,196,245
+1,101,-384
+1,73,-36
+1,-13,19
+1,-167,356
+2,191,17
+2,-13,11
+1,-3,-294
+1,-182,-46
+1,209,36
+3,59,232
+1,-355,-187
+9,133,43
+1,5,-6
+1,-38,-13
+1,42,-58
+2,-48,-18
+3,71,123
+86,-51,-183
+6,368,-329
+1,2,-92
+8,48,455
+1,-258,-239
+1,29,111
+2,33,-370
+2,137,200
+2,-123,-27
+1,171,-142
+1,-154,-24
+1,164,163
+1,34,-84
+1,-53,53
+1,43,61
+1,-44,-82
+4,-49,289
+1,-12,-249
+1,-19,-74
+1,-64,131
+2,156,-91
+1,-158,274
+2,44,-359
+2,111,69
+1,-127,139
+1,81,-323
+1,-38,42
+2,-82,454
+1,29,-361
+1,104,-165
+2,-56,100
+1,87,-21
+1,-175,257
+2,-31,-113
+2,134,6
+1,17,136
+1,7,-317
+45,102,971
+1,55,65
+19,-71,-172
+1,-107,-110
+1,277,120
+1,-38,272
+1,104,-266
+1,-107,20
+1,-172,100
+1,246,173
+2,-266,-476
+1,-55,10
+1,187,179
+1,-197,-230
+1,175,49
+1,-15,334
+1,315,368
+1,-44,-132
+3,89,106
+2,-248,-539
+1,-280,196
+1,231,-225
+2,22,-87
+1,12,-122
+2,-55,175
+1,14,-90
+1,-191,358
+2,-28,-258
+1,28,36
+1,154,-41
+1,-61,251
+1,216,-99
+3,-265,-77
+10,121,-49
+1,68,300
+1,-112,-297
+31,465,-201
+2,91,431
+2,-8,-431
+4,-133,-212
+2,189,214
+1,-106,-212
+1,213,663
+2,55,-119
+2,-233,-597
+1,31,98
+1,56,207
+3,-420,-24
+1,194,474
+1,-112,-196
+2,124,130
+2,291,-365
+1,-125,216
+2,-43,-323
+1,-121,40
+1,39,526
+1,-48,-378
+1,432,107
+1,-443,41
+1,394,-104
+1,-267,-416
+1,104,146
+2,0,517
+1,-322,-450
+1,-43,193
+1,358,-400
+1,-145,139
+4,-114,402
+1,87,-372
+1,261,223
+1,76,-66
+1,72,74
+1,-272,22
+1,-149,288
+1,-76,130
+2,-127,-426
+1,660,17
+1,-29,-108
+1,-553,56
+1,57,202
+1,427,-339
+1,-635,140
+3,506,225
+1,33,-377
+1,-206,-168
+1,59,297
+1,-58,193
+30,-120,-461
+1,13,-37
+1,-35,57
+2,-29,-34
+1,96,24
+1,-24,15
+1,-24,-1
+2,19,51
+5,-31,-122
+1,-20,-25
+1,87,109
+83,-276,-123
+1,-103,-494
+7,-24,714
+2,291,-446
+2,133,-376
+1,-25,497
+1,61,-781
+1,-348,562
+1,209,40
+1,51,-675
+2,-176,622
+1,-54,-183
+1,464,122
+1,-604,505
+1,454,-203
+1,-101,-604
+1,-98,432
+1,114,-292
+1,88,173
+1,144,117
+1,-631,-279
+1,428,-74
+2,-273,354
+1,-157,-178
+1,370,119
+4,-102,342
+1,39,12
+1,20,-45
+1,6,-66
+1,-34,-43
+7,-74,-78
+4,-66,-243
+1,145,18
+1,190,226
+3,-424,-104
+1,-23,322
+40,167,-144
+1,-13,128
+2,46,-138
+1,-4,52
+1,-69,-72
+1,-69,-3
+1,162,-45
+1,-10,66
+92,540,-43
+9,105,-561
+2,42,536
+2,-189,-636
+2,-44,691
+1,138,-711
+1,37,570
+2,-137,401
+1,212,-73
+1,-50,-72
+1,-166,103
+1,-77,-95
+1,129,180
+1,-77,-120
+2,48,-383
+1,41,-64
+1,121,60
+1,-65,-484
+1,-216,29
+1,-87,100
+1,240,748
+3,84,-582
+3,58,-227
+2,-204,917
+1,35,-281
+1,-113,-11
+1,96,-277
+1,-166,-48
+1,308,651
+1,-176,-878
+2,119,-16
+1,65,293
+2,-216,-97
+1,70,-79
+47,-1486,1205
+1,48,53
+10,-37,34
+1,56,8
+1,-83,-155
+1,-16,-45
+2,96,56
+3,124,113
+1,37,-84
+2,-176,4
+2,-70,104
+2,40,-178
+2,-66,162
+1,274,-134
+2,-240,-37
+1,110,211
+2,31,-356
+1,-207,167
+2,125,230
+2,-90,61
+2,213,-230
+2,-78,-64
+2,-110,226
+1,137,-113
+3,12,52
+1,24,-281
+3,-234,354
+1,257,-318
+5,-116,-15
+2,-21,56
+2,-42,-68
+2,-115,328
+3,138,-358
+1,86,-13
+2,115,256
+2,-310,52
+2,32,-71
+1,35,270
+3,-11,-137
+21,-147,-116
+1,62,-89
+1,-186,-82
+1,8,66
+2,119,172
+1,-13,203
+1,-142,-504
+1,164,298
+1,-114,-267
+2,36,224
+1,-215,-269
+1,20,-58
+1,2,42
+2,24,-72
+1,32,165
+2,183,362
+1,-17,42
+1,-232,-443
+1,60,70
+2,229,104
+1,-196,-141
+1,123,180
+2,-210,-169
+1,319,458
+1,-74,-382
+1,-220,-59
+1,3,-53
+1,243,119
+1,-83,-68
+1,-147,-15
+2,201,123
+2,72,64
+1,-173,-214
+2,-104,11
+1,289,157
+2,-88,46
+1,79,194
+3,-242,-352
+2,-41,-181
+1,257,470
+1,17,158
+1,-21,-22
+1,0,-46
+1,-9,27
+3,-290,-634
+1,-23,60
+2,94,18
+1,10,75
+2,70,90
+1,228,390
+3,-324,-466
+2,118,67
+1,-41,-171
+1,-97,133
+1,226,109
+1,-226,-120
+2,-12,-14
+1,28,55
+2,-3,-82
+1,61,78
+1,17,-42
+2,60,-38
+1,-146,-20
+1,171,-30
+3,86,276
+4,-273,-223
+1,211,196
+1,-88,-123
+6,-45,109
+1,0,-9
+1,6,-25
+2,-12,57
+1,5,-17
+1,8,-2
+1,-10,-3
+2,111,84
+1,-171,-89
+1,-19,-104
+1,198,273
+1,22,-43
+1,26,28
+2,-43,-196
+1,-21,20
+1,-19,72
+1,-52,-61
+1,-4,34
+1,-14,1
+1,53,50
+1,-41,-30
+1,80,-12
+1,-27,-90
+1,21,-3
+1,-37,45
+1,-45,10
+1,19,-44
+1,10,48
+1,-4,30
+1,-4,32
+1,33,58
+1,17,32
+1,-46,-53
+1,63,-87
+1,-94,-72
+1,50,86
+1,26,0
+1,-116,-88
+1,22,6
+1,88,51
+1,-117,-15
+1,24,7
+1,-3,29
+1,-24,4
+1,126,85
+1,35,-106
+1,-93,-85
+1,82,211
+1,-182,-192
+1,216,255
+147,-56,-497
+9,-105,-493
+1,-114,202
+1,211,320
+4,22,-383
+1,-192,231
+2,65,79
+1,36,-308
+10,-95,-82
+3,174,490
+2,-19,-297
+6,17,80
+1,-132,141
+1,193,-255
+1,-17,-126
+1,-54,311
+3,-164,-150
+2,-106,-76
+2,24,-92
+3,261,360
+3,-81,-279
+4,-213,-263
+1,37,102
+2,178,43
+2,-3,41
+2,18,-11
+3,18,138
+1,-98,224
+1,-72,-218
+1,71,14
+5,87,134
+2,-59,-10
+1,9,7
+7,-101,-236
+11,294,510
+2,19,-47
+2,-49,45
+1,-5,-52
+16,62,107
+3,-52,-365
+1,84,206
+2,-109,135
+7,248,-262
+1,-125,316
+1,-23,-11
+1,89,-130
+2,16,99
+2,-152,-288
+2,-46,325
+2,144,-50
+7,-93,-198
+1,88,258
+2,-89,-216
+1,70,-126
+3,-81,56
+2,-11,248
+2,144,-334
+1,-69,-69
+3,18,153
+4,132,-50
+1,-84,99
+1,-32,78
+1,-52,-194
+2,12,363
+13,13,-118
+2,85,-139
+9,-38,-572
+2,164,494
+1,8,-18
+1,-37,-33
+1,75,-507
+1,51,-141
+1,-245,438
+2,186,-50
+1,40,139
+1,-135,64
+4,136,-326
+2,-215,255
+2,-115,-51
+2,292,-16
+1,-248,-34
+2,108,265
+1,238,-411
+3,94,138
+1,-102,78
+3,-114,-212
+1,158,114
+1,-243,85
+1,141,35
+2,67,56
+1,-52,19
+1,-260,-283
+1,242,-51
+2,-302,123
+1,241,-402
+1,-76,667
+2,40,-143
+2,202,-258
+1,-128,-218
+1,-93,112
+3,151,33
+1,-19,150
+4,-1,-231
+1,-89,305
+2,99,178
+2,15,-170
+1,-175,-216
+2,56,-121
+34,-38,272
+1,-33,20
+2,30,8
+1,41,-37
+1,-60,89
+1,-48,-88
+1,23,-90
+1,14,38
+1,14,22
+1,-17,32
+90,-741,246
+1,34,-33
+1,184,276
+3,-227,-137
+1,211,-93
+2,-292,7
+1,296,92
+1,-76,-156
+2,-43,31
+3,-3,-36
+1,11,-4
+3,-34,146
+10,-190,-57
+1,54,60
+1,291,26
+1,-241,-77
+1,-177,-1
+1,425,56
+1,-27,-46
+65,-56,102
+1,31,15
+1,45,-16
+1,-81,-80
+1,26,28
+1,18,31
+1,34,-50
+1,-59,-54
+1,19,166
+1,62,-5
+91,-637,32
+1,-54,7
+2,43,-121
+26,-618,519
+1,16,-541
+2,164,7
+1,352,-24
+2,134,42
+2,37,-114
+1,-687,491
+1,-91,-357
+1,316,139
+2,210,-181
+1,-526,554
+1,20,-176
+1,537,-221
+1,-365,45
+3,148,-192
+1,-133,342
+1,232,-357
+1,235,-82
+1,-255,174
+1,330,-145
+1,-679,127
+2,181,369
+2,122,-240
+2,218,-79
+1,-126,125
+1,153,-362
+2,-517,448
+1,-39,156
+1,243,-159
+2,-228,181
+1,140,-1
+2,-61,-524
+2,-166,457
+2,831,-379
+2,-249,-30
+1,24,6
+21,-164,-1448
+1,-5,34
+1,-23,-7
+1,13,-36
+1,9,-5
+1,-6,-9
+1,20,-50
+1,17,32
+1,-16,22
+1,14,5
+1,20,9
+1,26,-8
+3,-12,-27
+1,-30,-32
+1,1,97
+1,-11,19
+1,-35,32
+1,-32,-37
+4,11,-48
+8,-39,11
+4,75,-26
+1,-15,-12
+8,5,23
+7,2,-17
+5,10,-27
+2,13,55
+5,14,21
+41,17,-605
+1,-254,-398
+3,95,471
+1,-48,43
+1,3,60
+1,-78,-2
+3,145,-460
+2,183,156
+2,-378,108
+1,236,142
+1,-46,21
+3,-30,72
+5,382,-202
+1,-123,-349
+2,126,215
+3,-80,-160
+1,-356,343
+1,77,-178
+4,314,-69
+2,-246,229
+1,46,-373
+3,121,457
+1,-48,-54
+3,-97,88
+1,2,-75
+3,-92,-102
+3,333,-38
+6,-129,262
+1,47,5
+1,-88,-72
+3,-98,-177
+1,108,261
+1,-53,-17
+4,137,-207
+1,116,71
+4,89,-105
+1,-600,88
+3,332,-329
+2,-313,39
+1,34,103
+3,237,396
+1,-26,-9
+3,48,9
+3,214,-287
+1,-311,-117
+6,2,731
+16,11,-20
+10,-3,-2
+10,0,-7
+5,0,-2
+5,-8,12
+10,-2,8
+57,51,11
+2,-68,-3
+54,-12,4
+15,17,19
+2,7,0
+18,14,-29
+7,2,-21
+3,-2,-4
+4,34,38
+5,-25,-38
+4,-3,4
+79,-6,37
+5,-6,-2
+5,8,-39
+10,-2,23
+5,2,0
+5,-7,20
+2,53,-23
+9,-48,-18
+9,-3,19
+5,0,8
+1,6,-37
+25,-9,33
+10,-267,167
+1,-37,-39
+1,46,-81
+3,-371,233
+1,415,-284
+1,-91,326
+1,-301,-47
+2,174,-240
+1,55,309
+1,161,-126
+2,-260,256
+1,251,-549
+1,-118,245
+1,-268,53
+1,17,272
+1,-60,6
+1,93,-279
+1,91,-77
+1,325,36
+1,-404,109
+1,-81,-112
+1,-20,82
+2,-84,423
+1,191,-116
+1,-184,-7
+2,263,-492
+2,-181,457
+2,110,-69
+1,173,-189
+2,76,151
+1,-74,-597
+5,-230,286
+1,224,-84
+4,-261,368
+3,-23,203
+3,101,-252
+1,46,241
+1,187,-718
+1,-163,426
+1,-39,25
+1,-105,-142
+1,165,-356
+2,-86,295
+3,-128,462
+3,70,40
+4,-131,-124
+1,429,-483
+1,-96,470
+1,8,-492
+1,30,442
+2,-416,209
+4,16,-35
+1,309,-108
+1,-247,96
+1,-123,93
+1,263,-124
+1,343,-122
+1,-512,51
+2,22,35
+1,279,-587
+2,129,108
+6,545,191
+4,-86,-110
+1,-81,47
+1,130,-33
+1,-53,58
+2,-101,-100
+1,-141,281
+1,141,-320
+2,-239,432
+1,284,-203
+1,-61,21
+4,70,-68
+1,-81,-2
+1,20,-166
+1,203,83
+1,-58,77
+8,-425,248
+1,151,11
+2,-55,-371
+1,-61,286
+1,272,-298
+3,41,-16
+2,-9,-12
+1,-110,49
+1,-138,-89
+1,60,-12
+1,30,77
+1,17,35
+1,-38,-50
+3,-21,372
+3,-62,-96
+1,366,-88
+3,-364,155
+1,420,-341
+3,-344,62
+1,327,49
+1,-305,316
+1,14,-44
+4,146,-261
+1,8,-80
+1,9,33
+1,-229,89
+2,96,-3
+2,2,178
+1,297,-377
+1,-346,396
+1,-70,4
+2,194,-377
+1,13,-20
+1,31,-1
+1,-46,75
+1,-33,10
+9,233,87
+18,-184,-349
+2,38,41
+1,-22,24
+1,-26,-41
+1,40,-32
+1,-24,-10
+14,177,84
+1,60,16
+4,-93,-345
+1,107,37
+1,-42,-61
+2,0,109
+1,18,-93
+8,-111,234
+1,-11,60
+1,-26,-3
+1,50,29
+1,-69,-126
+1,104,89
+5,14,97
+1,-2,36
+1,32,-18
+4,-72,83
+2,17,-27
+3,133,-321
+1,40,75
+2,-166,-95
+2,74,68
+1,-66,42
+1,-28,-58
+1,54,86
+1,-26,-11
+2,88,12
+4,-40,-42
+3,-185,118
+3,-3,-17
+2,-5,2
+1,31,24
+1,8,-17
+3,109,-121
+2,-123,206
+1,23,-32
+1,-23,61
+1,49,4
+1,40,-11
+1,-23,-67
+4,-84,18
+2,-21,36
+89,522,800
+4,-31,90
+4,-2,-174
+1,-80,-8
+2,-344,-203
+1,464,5
+1,25,139
+1,8,60
+2,-69,57
+6,48,-505
+5,43,490
+1,-352,-709
+1,302,260
+1,-29,41
+1,-459,54
+2,613,381
+1,-703,-404
+1,297,-380
+1,-316,464
+3,511,259
+2,-153,-611
+1,-21,94
+1,-51,-78
+1,1,51
+1,-32,-7
+1,353,397
+1,-27,-487
+2,85,533
+1,-112,-64
+1,-268,16
+1,492,-275
+1,-641,25
+2,23,254
+1,370,-76
+3,-275,-66
+1,-13,-54
+10,323,-178
+3,138,-30
+1,-419,89
+1,-32,28
+1,-13,23
+1,401,559
+4,-81,-332
+2,136,7
+1,-168,109
+2,3,-56
+3,-239,-252
+3,228,23
+9,254,-206
+2,-345,-65
+1,368,261
+3,-625,31
+3,486,31
+2,-513,-122
+1,-53,28
+3,418,-92
+3,218,101
+2,-532,188
+6,291,39
+2,70,259
+1,29,-400
+1,192,167
+1,-318,-389
+3,61,-34
+4,-488,258
+4,170,-91
+2,-42,119
+6,476,-127
+1,-137,-15
+1,239,341
+1,-83,-446
+1,-145,402
+1,120,-580
+1,105,-51
+2,46,728
+1,-40,-258
+1,-270,159
+1,-52,-442
+38,-43,226
+1,2,14
+2,109,-18
+1,-104,62
+1,36,25
+1,-14,-180
+1,60,-5
+1,-9,61
+1,-17,28
+1,-29,-4
+1,38,24
+1,-52,38
+1,37,13
+1,-6,-118
+1,-35,10
+1,-4,34
+1,23,37
+1,-100,165
+1,113,45
+1,-51,-46
+1,-27,-59
+1,18,-158
+1,-7,112
+1,-50,-74
+1,-17,53
+1,31,-116
+1,33,-69
+1,11,57
+1,-16,64
+1,21,35
+2,3,-13
+1,101,73
+2,-5,48
+1,-46,-11
+2,23,-92
+1,-190,-85
+4,160,-105
+6,-79,66
+1,94,131
+1,44,-31
+33,-7,-6
+1,25,44
+1,-113,-15
+114,-311,35
+1,0,82
+1,-46,-19
+2,86,-58
+4,-10,105
+93,623,-2313
+18,-4,-552
+1,-87,262
+2,-69,-33
+1,226,277
+5,7,26
+1,-34,230
+1,-37,-882
+1,6,443
+4,8,-181
+2,-247,-58
+1,185,214
+1,-116,-49
+1,62,-321
+1,50,429
+1,53,-10
+2,60,106
+5,-312,-537
+5,183,829
+2,-52,-365
+3,42,222
+1,-73,-488
+1,22,155
+39,-722,2951
+6,342,232
+3,233,-216
+2,-615,-195
+1,-249,188
+4,546,34
+2,-107,-221
+1,266,183
+2,-794,-76
+1,710,192
+1,-290,-309
+1,30,295
+1,-521,-87
+1,-110,22
+1,1000,124
+1,-374,97
+2,-277,-114
+1,149,167
+2,-445,-422
+1,1049,347
+1,-320,51
+2,-75,-412
+1,19,426
+1,109,-39
+1,-151,-121
+2,-271,72
+1,471,-4
+1,199,-82
+2,-520,-329
+1,-287,45
+1,637,456
+1,165,-25
+1,-55,-49
+1,-537,-423
+1,25,105
+1,-54,44
+1,55,219
+2,194,-68
+1,5,-163
+1,-369,344
+1,381,-89
+1,140,-330
+1,-382,18
+1,74,-30
+1,-180,284
+1,147,-421
+1,185,32
+1,404,284
+1,-153,201
+1,-729,-444
+2,234,-40
+1,-424,282
+1,370,10
+2,-353,-47
+1,498,-211
+1,-315,127
+1,842,61
+1,-394,19
+22,524,-1239
+1,35,-110
+1,-112,-30
+1,-12,97
+1,54,-34
+5,-101,-22
+1,360,-588
+2,-143,350
+1,-114,160
+1,-32,-151
+1,-61,34
+1,21,195
+1,54,-196
+1,312,128
+3,-40,-413
+1,-336,910
+4,360,-326
+6,-139,-429
+1,56,54
+3,-358,677
+1,32,0
+2,352,-717
+2,46,91
+4,-112,-61
+4,96,-522
+4,-330,920
+1,28,-252
+1,100,-126
+1,134,436
+1,-241,-399
+4,128,409
+4,189,-1140
+1,28,641
+2,-256,178
+1,-92,313
+1,45,98
+2,148,-394
+1,-133,278
+2,108,174
+1,-239,-429
+1,337,201
+1,-192,-326
+1,248,182
+1,-101,-288
+1,-116,0
+1,197,207
+1,-251,579
+3,277,-199
+1,-88,-241
+2,-327,-89
+1,270,314
+2,-44,-155
+1,-191,378
+1,283,-858
+2,-250,755
+1,207,-226
+3,-1189,1617
+3,-35,146
+6,-23,-157
+1,30,467
+2,102,42
+1,-130,-719
+3,-312,63
+4,184,-81
+1,123,256
+2,-303,-376
+2,335,410
+3,-222,256
+1,299,-364
+5,137,-201
+2,-79,170
+1,-437,28
+2,231,-162
+1,-25,619
+1,139,196
+7,2,-371
+1,-3,59
+1,-284,-147
+2,126,-177
+3,127,-74
+5,205,68
+1,-140,514
+1,-208,-186
+1,-156,-7
+1,251,-421
+1,-316,-194
+1,143,227
+2,277,-122
+2,-280,174
+1,308,443
+2,-21,-53
+1,46,-193
+15,-282,-156
+11,1425,-266
+1,-31,-97
+1,22,19
+1,41,-23
+7,80,36
+1,-276,213
+1,-5,-51
+1,161,-115
+1,-79,137
+2,176,-249
+1,6,-79
+1,-259,242
+1,237,93
+1,-29,-19
+9,-257,-27
+73,-540,-1328
+12,-44,-65
+10,-194,-69
+1,-32,53
+1,335,73
+3,-58,-117
+1,22,80
+1,-41,-30
+1,57,-95
+2,-19,22
+4,-107,49
+2,100,173
+1,16,-53
+1,36,-3
+1,-39,43
+2,24,-27
+14,-187,24
+6,313,-145
+13,-336,98
+22,264,39
+1,11,-65
+22,-56,-100
+1,-213,68
+9,-149,-143
+16,240,218
+1,31,-21
+1,-30,-24
+1,-29,-4
+19,-166,-164
+8,316,144
+1,11,-34
+1,32,14
+9,-315,13
+1,61,-55
+1,-40,-33
+8,243,256
+1,-30,44
+1,17,-65
+1,-13,17
+1,22,-41
+1,-39,53
+1,63,-37
+2,-13,51
+2,-14,-2
+2,15,-87
+1,-20,97
+87,-55,6
+1,8,-24
+1,-34,1
+1,19,-30
+1,23,50
+1,-86,-45
+1,20,48
+1,-41,-2
+1,-10,-46
+1,66,-15
+1,49,-4
+1,-16,-28
+2,-11,98
+1,-50,-91
+86,-458,-340
+4,15,83
+1,86,-143
+1,-115,-34
+1,-74,128
+19,-139,164
+5,-211,934
+1,506,-1504
+2,-400,1287
+1,117,-545
+1,-304,305
+1,263,-184
+5,127,9
+5,166,-41
+6,-503,183
+6,36,238
+9,195,-36
+3,-105,-30
+1,-77,261
+3,156,-655
+4,-375,655
+2,74,65
+3,540,-816
+3,-228,576
+15,-299,72
+1,19,-206
+4,544,-1077
+1,-207,724
+2,-112,570
+3,14,-825
+6,111,517
+9,-107,122
+5,75,-979
+1,31,472
+3,75,-78
+1,-332,989
+3,432,-1607
+4,-349,447
+2,-117,744
+3,360,-998
+2,85,60
+1,149,265
+2,68,-140
+4,-573,554
+7,322,-967
+5,-273,1157
+4,-278,330
+2,-50,85
+2,476,-1081
+21,1061,-737
+1,-30,-111
+1,137,78
+7,-456,-72
+1,338,294
+9,-103,-49
+3,-211,-107
+1,412,45
+1,116,-213
+2,-605,160
+3,159,-27
+7,326,-177
+2,-412,318
+1,-34,-106
+1,274,-252
+1,-137,365
+1,-55,15
+1,73,-532
+1,53,270
+1,54,224
+4,-308,-314
+2,75,-67
+2,226,-32
+1,0,255
+1,153,108
+1,-218,-270
+3,-46,-69
+3,98,328
+1,-164,-420
+37,-463,522
+8,-97,-204
+2,136,-65
+1,89,528
+1,-21,-385
+1,-23,245
+1,-96,-294
+1,216,82
+2,-170,275
+1,68,-453
+1,-48,633
+2,-14,-579
+1,-131,-153
+1,297,476
+1,-191,-252
+1,-43,339
+1,10,-478
+1,167,615
+1,-222,-338
+1,10,-146
+1,-19,-97
+1,-35,69
+1,12,152
+1,208,230
+1,-48,-375
+1,-83,491
+1,194,-308
+1,-306,-286
+2,360,1
+1,-196,423
+1,15,156
+1,75,-673
+3,86,360
+1,83,-145
+2,-90,-18
+52,-214,-697
+1,89,18
+5,-59,-6
+3,399,68
+1,-23,-191
+1,-433,-35
+3,335,186
+5,32,-142
+1,-264,-145
+3,366,500
+3,-454,13
+3,274,-360
+1,-107,-147
+1,-102,365
+2,102,-98
+1,110,400
+5,-278,-289
+1,-50,-148
+1,436,192
+1,-410,-447
+1,294,489
+1,115,-187
+1,-392,49
+1,332,81
+2,-192,85
+1,40,-288
+1,-21,415
+2,108,-256
+48,-564,206
+1,-178,31
+1,97,-73
+1,28,84
+4,-4,14
+3,66,87
+9,-128,-396
+2,-283,-116
+1,503,605
+8,-290,-410
+1,249,31
+3,106,133
+1,-94,64
+1,-346,-113
+1,47,-163
+1,242,-196
+1,108,376
+2,-110,393
+1,-61,-576
+3,-192,214
+1,196,239
+1,319,196
+1,-574,-754
+3,145,-131
+5,296,822
+1,-337,-702
+1,44,237
+1,283,594
+3,-373,-231
+1,-123,-697
+3,73,-23
+1,445,620
+1,-444,-299
+2,-50,-107
+1,469,567
+1,118,-235
+1,-369,201
+2,-117,-779
+4,251,165
+9,193,762
+13,-943,160
+2,338,-440
+1,72,915
+4,52,309
+2,-335,363
+4,453,-831
+6,-529,1271
+1,336,-1892
+1,32,1300
+1,159,-815
+1,-513,1417
+2,231,-1768
+3,-300,1075
+2,309,373
+3,-155,300
+3,253,-1767
+1,-100,347
+1,-133,-451
+3,38,1917
+2,-133,67
+2,421,-1218
+3,-358,1068
+5,280,-1798
+1,-374,1833
+3,308,-1190
+1,-42,40
+1,-232,996
+1,-165,31
+1,443,-1474
+2,100,49
+1,-306,1639
+2,-10,-40
+1,293,-1010
+1,-231,959
+1,-7,-65
+1,-255,1
+3,268,-869
+1,-86,1010
+3,268,-371
+2,-546,-75
+2,117,-1352
+1,574,-10
+1,-196,1289
+1,-20,-228
+3,-192,139
+2,179,113
+1,-49,287
+1,397,-1525
+9,-296,211
+1,-60,105
+3,68,517
+2,-60,487
+1,-223,394
+1,137,-444
+1,44,-473
+1,-181,-412
+1,107,-25
+1,-57,20
+2,181,335
+1,318,-549
+2,-538,1597
+1,-22,-1504
+3,230,-520
+1,-101,1257
+2,372,-100
+2,-476,715
+1,257,-1349
+1,-317,1519
+8,-44,-45
+1,203,-1633
+1,-107,888
+1,96,-108
+5,188,-553
+1,-353,671
+1,470,-20
+1,-264,450
+1,-75,-644
+3,279,-703
+3,-261,1230
+4,110,-1115
+1,87,906
+2,-359,638
+5,39,-528
+1,207,368
+4,-27,-1085
+2,79,918
+1,-82,209
+1,156,-591
+3,-27,391
+1,-105,-274
+4,-357,188
+3,102,-47
+4,478,-933
+27,-279,246
+1,8,-26
+1,1,-30
+1,33,72
+1,-25,40
+1,-60,-88
+1,22,-44
+1,59,-9
+1,33,84
+1,15,-57
+1,-39,-77
+1,-1,81
+1,-145,174
+2,202,-314
+1,-191,162
+1,62,-98
+1,-39,-20
+1,-75,128
+1,192,-185
+12,-88,321
+34,44,-131
+10,82,-91
+4,-89,113
+3,128,1786
+1,184,126
+1,49,12
+1,-907,-1066
+2,570,687
+1,-134,14
+1,396,239
+2,-569,-332
+4,-300,-560
+1,-222,-317
+1,557,875
+4,-542,-252
+1,48,-203
+1,-174,153
+1,71,-112
+1,103,107
+1,14,33
+11,1135,902
+1,-9,-128
+10,-583,-512
+3,156,115
+4,-34,-39
+2,531,517
+1,-254,-291
+1,-103,-192
+1,235,264
+30,-233,-229
+6,315,385
+3,-449,-492
+3,107,162
+4,-216,-149
+2,435,373
+1,-394,-289
+1,435,180
+1,-249,-82
+3,-177,-104
+1,352,262
+1,161,51
+1,-38,-25
+1,-205,-201
+1,-91,94
+2,-42,-149
+1,166,205
+1,-130,-211
+1,-119,82
+3,409,49
+1,-25,-26
+3,-901,-943
+2,-137,109
+1,54,68
+1,-213,-108
+1,146,119
+1,45,-34
+1,-267,-296
+1,-46,106
+2,1244,707
+1,-113,291
+1,182,139
+9,-1022,-444
+1,-26,-88
+1,-63,21
+1,82,16
+1,19,-88
+1,-147,107
+1,-120,21
+2,300,-157
+1,-99,140
+1,-47,68
+1,65,-182
+2,-39,-42
+16,822,497
+6,-101,-116
+1,-671,-918
+1,1101,1127
+14,-1087,-607
+1,88,-61
+1,-92,0
+1,56,-34
+2,-48,-3
+1,20,-7
+1,-3,46
+1,-30,-27
+1,85,-18
+2,-48,71
+4,-20,-54
+1,47,77
+5,-84,-57
+28,92,-21
+50,114,-187
+1,75,-38
+1,78,-47
+1,-72,-28
+1,-100,156
+1,47,-80
+1,-95,93
+1,177,-119
+43,-146,233
+10,-1,-60
+1,132,17
+1,-117,30
+1,57,28
+1,11,-65
+1,-27,-48
+1,-35,78
+1,-2,-9
+1,31,0
+12,46,-45
+9,123,-134
+1,40,-55
+1,-48,152
+1,-81,-24
+3,58,24
+5,-377,52
+1,-9,42
+1,90,-46
+1,-66,61
+3,15,-28
+1,6,36
+1,-31,5
+92,419,-1037
+2,-21,-134
+2,-83,76
+16,-249,-519
+3,206,-45
+3,-470,758
+1,-38,-67
+1,146,39
+1,297,-169
+1,322,-54
+1,42,-141
+1,-179,-77
+1,81,268
+2,61,70
+1,-594,241
+1,561,-544
+1,-232,716
+1,-35,-753
+1,11,121
+1,75,333
+1,-287,-595
+1,-170,485
+1,-101,-651
+1,488,1144
+1,-403,-718
+3,499,-191
+1,-511,786
+5,142,-746
+1,-209,-181
+3,690,657
+6,-351,365
+1,-104,-627
+1,-111,-306
+2,43,295
+2,231,-227
+2,-398,656
+1,645,-185
+1,-274,-578
+2,-131,809
+1,-233,-572
+2,589,619
+1,-255,-444
+1,210,686
+1,-219,-544
+1,262,-293
+2,-606,-244
+1,381,838
+1,-51,-768
+1,106,629
+1,39,-86
+2,-424,-733
+1,513,112
+3,-300,540
+1,1,423
+1,396,-112
+2,86,-1436
+8,-21,14
+6,-606,109
+2,-67,-58
+2,-46,210
+1,145,160
+1,861,-649
+1,-411,402
+1,-88,-428
+1,-265,224
+3,-230,-135
+3,579,461
+4,6,-527
+2,348,150
+1,-580,-36
+1,-41,507
+4,226,-293
+1,113,-163
+1,-327,323
+3,101,-309
+3,-358,372
+2,259,-203
+2,188,-101
+1,6,310
+3,162,-587
+1,-169,-138
+1,216,243
+2,-370,-140
+1,250,-107
+1,-418,166
+2,517,374
+1,-378,-371
+1,-205,120
+2,22,328
+4,230,-60
+2,-113,-337
+35,414,-1363
+1,48,45
+1,-51,-25
+1,-44,7
+1,32,-67
+1,17,27
+1,26,-36
+1,-85,-51
+1,131,87
+1,12,12
+2,-79,9
+31,-670,-600
+1,75,829
+1,80,-296
+3,415,-621
+1,-21,490
+1,105,-285
+1,-35,-9
+3,150,656
+1,-259,-227
+1,419,318
+1,-504,-381
+2,-455,417
+1,795,-590
+2,-330,-9
+1,93,-181
+3,-530,2
+1,756,514
+1,-637,-6
+1,329,-238
+3,-420,20
+1,772,211
+1,-237,-798
+1,516,861
+1,-408,-775
+1,-54,393
+1,-334,161
+1,-184,117
+1,826,65
+1,-610,-425
+1,92,563
+1,373,-1111
+2,-162,1132
+6,-49,-59
+1,-330,-206
+2,290,513
+1,-222,-1115
+7,-191,757
+8,-29,-567
+1,477,767
+1,257,-45
+2,-120,-1174
+3,168,635
+1,-134,-252
+1,-200,-109
+2,431,359
+1,-367,-426
+1,-528,531
+1,572,-650
+2,68,165
+1,-388,955
+1,124,-659
+1,-37,864
+2,92,-1109
+1,31,11
+5,264,-273
+1,-821,947
+1,438,-557
+1,382,-164
+1,-440,732
+2,342,-248
+8,-325,585
+1,151,-721
+3,-535,189
+2,661,-664
+1,-519,776
+3,-39,-272
+3,653,559
+1,108,-367
+1,-452,337
+3,277,-102
+5,-196,20
+1,-278,-502
+16,-197,-1893
+1,44,-43
+8,113,184
+1,-115,73
+5,290,-828
+1,158,613
+2,-268,-579
+1,288,526
+1,-497,-776
+3,236,727
+1,131,130
+1,145,-181
+2,30,-133
+2,-198,5
+6,-330,727
+1,402,-538
+2,72,115
+4,-329,-773
+1,-76,117
+1,130,290
+1,28,-231
+2,-256,-766
+2,147,922
+1,-100,-11
+5,566,315
+2,-574,-125
+2,372,408
+3,-353,-1166
+2,165,221
+1,35,844
+3,205,-279
+1,-343,130
+1,19,-166
+1,269,84
+1,-53,-328
+4,-216,-359
+2,329,393
+1,-123,684
+1,-318,-1397
+1,182,286
+1,121,721
+7,-324,-228
+2,9,965
+1,373,-970
+8,67,1748
+10,-192,-585
+1,-40,516
+1,78,90
+1,246,-413
+1,-23,147
+1,-178,-606
+1,-355,998
+1,395,-716
+1,-234,-270
+3,37,543
+1,67,-91
+1,108,429
+1,-164,188
+1,-87,-602
+1,51,-640
+1,-129,1129
+2,71,-326
+3,-76,92
+7,113,-833
+3,10,1070
+4,198,46
+1,-309,-563
+2,161,221
+1,-234,229
+1,130,234
+2,112,-1009
+6,120,631
+1,-174,-936
+2,-150,440
+3,647,301
+2,-371,-197
+2,18,-389
+4,-127,470
+1,-12,-172
+2,230,-177
+1,-308,149
+2,166,911
+1,-138,-324
+1,231,-278
+19,1181,2025
+10,-16,-245
+1,-64,-487
+1,452,262
+2,-597,248
+1,-180,-47
+5,516,110
+1,-412,-505
+4,-74,-300
+4,319,707
+1,92,500
+1,-22,-600
+1,276,18
+2,-566,118
+2,354,373
+2,-195,-548
+1,-18,317
+1,223,356
+1,151,-576
+3,-413,-487
+3,-163,83
+2,-17,244
+7,16,-320
+1,530,355
+1,-287,230
+1,-22,-387
+4,-156,557
+1,537,-537
+2,-143,676
+2,-54,63
+2,112,124
+1,-373,-437
+1,-5,-194
+1,-130,-433
+2,169,621
+1,31,185
+2,159,-197
+3,39,241
+1,-390,-237
+1,370,-564
+1,88,469
+1,26,405
+1,-97,-663
+14,-840,447
+1,-5,-78
+1,99,-23
+1,-89,194
+11,-12,-131
+2,-212,-58
+3,-554,207
+1,1046,-71
+1,-256,322
+1,-40,-747
+3,219,128
+1,-823,52
+1,347,470
+1,-463,246
+1,190,-990
+1,34,182
+3,42,668
+2,608,-554
+2,-112,354
+1,-538,39
+1,-206,-496
+1,-46,-88
+8,118,11
+1,531,232
+1,132,-59
+2,176,521
+1,-426,-262
+1,547,-396
+1,-291,69
+1,-406,93
+1,-189,350
+4,922,338
+1,-644,-655
+2,-206,83
+1,-121,-63
+3,311,127
+1,306,-301
+1,-216,54
+1,332,278
+2,112,-151
+3,-633,263
+1,716,-579
+1,-74,59
+1,-1007,830
+1,1076,-133
+5,-1048,-471
+2,655,181
+1,-505,342
+1,1036,279
+2,-1111,-478
+1,652,39
+1,-698,-273
+1,925,106
+2,-779,-30
+1,-177,323
+1,1019,64
+2,-433,-2917
+1,-8,-18
+1,164,-544
+1,-135,663
+1,23,165
+1,54,-16
+1,6,-880
+2,-279,480
+3,85,-59
+1,164,513
+1,48,-752
+6,118,77
+2,-216,222
+8,-38,315
+1,45,-527
+3,46,99
+1,40,554
+2,-247,-365
+2,112,-184
+2,-61,96
+5,33,-222
+3,-55,102
+2,-14,419
+5,99,-622
+1,53,276
+44,78,644
+11,174,170
+2,-11,-143
+1,-134,-155
+1,199,-43
+3,-47,49
+5,-149,9
+2,150,18
+3,-38,40
+2,-53,108
+2,53,-49
+3,-3,-80
+1,-94,15
+1,-50,-54
+1,70,315
+1,30,-101
+7,8,-111
+54,58,-336
+7,-139,131
+3,72,-326
+2,-45,28
+2,-137,104
+1,241,-90
+1,-120,-116
+1,284,202
+4,22,-77
+1,25,-55
+3,-379,128
+1,476,-13
+1,-271,-34
+2,-164,112
+1,55,108
+3,135,-235
+2,-143,135
+3,197,-206
+4,-94,48
+1,6,-84
+1,36,-7
+1,0,-87
+1,45,478
+1,-291,-25
+1,407,-128
+1,-309,-323
+1,223,51
+2,-153,304
+1,302,-47
+1,-341,152
+2,278,-251
+3,-24,86
+1,-306,233
+1,122,-607
+4,-229,383
+1,355,124
+1,-167,68
+1,115,-435
+1,183,292
+1,-413,26
+1,126,-414
+1,-98,40
+1,251,349
+4,-163,-94
+1,-127,-143
+1,338,236
+1,-207,-138
+1,183,-96
+2,-353,215
+3,105,164
+1,-20,-96
+4,-41,-214
+2,-73,9
+1,132,105
+3,211,15
+3,267,1083
+9,-111,-183
+5,726,881
+1,-640,-794
+2,-307,-164
+2,1111,1049
+4,-432,-469
+1,-470,-215
+2,609,342
+4,-428,-562
+3,422,709
+1,-768,-915
+3,367,436
+3,-347,19
+2,252,-383
+1,547,965
+1,-869,-934
+1,713,383
+5,-734,-304
+3,730,568
+3,-329,-341
+5,-234,-321
+1,-226,-40
+3,621,373
+4,-329,-89
+4,-86,26
+2,15,-64
+1,241,-173
+4,-265,-51
+2,-37,230
+1,-102,98
+1,110,-305
+1,317,567
+5,80,-335
+2,-340,-154
+9,470,-620
+1,117,-530
+2,358,528
+2,-781,-173
+1,124,85
+1,253,-340
+2,313,-148
+4,-269,336
+4,105,405
+2,-433,-592
+1,-93,-92
+2,334,152
+1,139,221
+3,-351,-323
+2,506,500
+1,-304,-49
+2,463,-649
+2,-447,403
+1,17,250
+3,53,-92
+1,-99,116
+3,290,244
+1,-510,-306
+1,531,-20
+2,-526,-439
+1,26,337
+1,168,-127
+2,42,-152
+2,-116,-172
+1,80,430
+3,-12,229
+2,136,-1
+1,-279,-250
+1,209,34
+1,-295,7
+1,696,510
+1,-199,-826
+3,-164,304
+3,333,-487
+1,-68,465
+4,-418,62
+1,-191,-532
+5,205,185
+1,530,-279
+1,-534,663
+2,92,205
+1,56,-252
+2,181,206
+2,-244,-12
+3,-204,-412
+9,215,281
+1,15,-29
+3,585,-704
+1,-528,409
+1,-276,-202
+1,569,17
+1,-326,524
+1,145,214
+1,31,-643
+1,172,720
+1,-566,-740
+1,135,604
+3,-3,-141
+1,-104,60
+2,-105,-624
+2,820,-13
+1,-109,135
+1,-309,550
+1,-121,-142
+4,-158,-395
+2,260,418
+1,182,233
+1,-332,-372
+2,12,158
+3,-49,32
+1,-266,-216
+1,790,474
+1,-487,-713
+1,278,-86
+5,-396,298
+1,-76,-246
+3,84,532
+2,88,-473
+2,291,231
+3,112,-307
+1,-200,521
+1,-271,-51
+1,155,-64
+2,301,178
+1,-353,-449
+3,404,-226
+1,-431,117
+4,-55,552
+1,-208,-200
+3,503,-440
+3,-579,415
+1,259,-205
+2,-157,-159
+2,325,562
+1,-43,-59
+1,558,-717
+6,-715,463
+8,331,60
+1,-32,-368
+1,-295,-23
+1,-94,243
+1,92,-154
+1,-62,110
+2,-120,43
+1,123,118
+2,509,634
+2,44,-1025
+1,-327,370
+17,427,-52
+3,195,462
+1,-138,44
+4,180,-756
+2,-75,45
+2,-99,306
+1,87,-45
+1,-54,-197
+2,293,-254
+1,-358,376
+3,-23,382
+1,258,-303
+1,42,-426
+6,-246,713
+1,346,-771
+1,-188,929
+1,76,-746
+2,-49,-58
+1,114,-89
+1,-372,824
+1,256,208
+1,-127,-172
+2,146,-335
+1,-88,-235
+4,138,74
+1,-145,290
+9,-242,227
+1,81,-295
+1,340,-654
+14,-610,423
+1,42,33
+1,-33,-91
+1,-58,88
+1,35,-15
+1,-24,114
+3,-1,-258
+2,55,200
+1,86,-89
+1,-44,-98
+1,-120,84
+1,-74,76
+5,325,-42
+67,-155,-45
+14,1072,3699
+2,18,-40
+1,15,116
+1,-81,-66
+6,140,-259
+2,-238,165
+1,-69,191
+5,341,-20
+1,-202,-235
+1,-3,-44
+1,167,-190
+3,-238,581
+2,213,-326
+1,-139,77
+2,-54,84
+1,157,-636
+1,-189,787
+2,145,-674
+3,-16,-118
+1,-101,715
+4,50,31
+1,65,18
+1,-7,-698
+2,-191,556
+55,-1078,-4000
+1,504,-159
+1,-57,1
+1,-233,-155
+1,-356,239
+1,189,-168
+1,188,-350
+1,-435,542
+2,420,-76
+1,-331,-252
+1,127,31
+2,-100,-221
+1,679,378
+2,-647,-307
+3,448,276
+1,-331,196
+2,53,-83
+1,-258,-52
+2,372,126
+3,-234,172
+1,197,-761
+4,-273,305
+1,225,-160
+2,224,153
+3,-376,143
+1,324,9
+3,-250,20
+1,228,-117
+2,-539,282
+3,943,-122
+5,-649,-483
+2,-114,396
+2,225,-75
+1,122,330
+4,-175,-2
+1,-151,-72
+2,87,79
+3,19,-508
+1,86,246
+2,-81,215
+28,-369,-68
+5,-98,189
+1,19,48
+1,-209,-120
+3,110,20
+1,79,-107
+5,-23,172
+4,-91,-79
+3,250,-95
+1,-81,-100
+3,-51,219
+2,20,168
+2,-46,-254
+2,-14,130
+1,-9,-54
+2,133,-155
+1,-114,-27
+1,143,99
+5,-176,-67
+2,142,138
+1,-60,-100
+2,88,-109
+1,-191,305
+1,-98,-169
+1,205,-88
+1,33,54
+1,-28,117
+7,-85,-380
+5,209,-40
+1,-214,20
+2,229,-194
+1,-197,312
+1,166,-47
+1,-334,103
+2,301,-247
+2,-33,154
+2,-226,58
+7,184,-179
+3,-156,156
+2,51,3
+2,-73,81
+4,45,19
+3,296,-249
+2,407,-101
+1,69,91
+1,-13,-104
+1,-114,-69
+1,98,124
+50,18,-65
+46,-583,1157
+9,-258,-79
+1,7,59
+1,549,165
+1,-355,26
+4,-20,-325
+1,96,233
+2,-345,28
+3,151,-19
+2,-22,100
+1,-71,-287
+1,166,115
+4,220,324
+1,-244,-188
+4,71,-169
+1,272,250
+2,-280,-349
+1,264,276
+1,-481,18
+2,63,-37
+1,184,-228
+1,-93,-153
+1,211,343
+2,-204,-257
+1,10,147
+2,71,19
+2,-159,-23
+1,484,306
+1,-188,-177
+2,-330,-85
+5,478,198
+2,-203,2
+1,-173,-324
+1,298,203
+2,60,192
+2,-432,-406
+1,131,161
+2,-19,-2
+2,-84,-237
+1,-35,2
+2,74,227
+1,277,116
+1,-103,-93
+2,-267,-205
+19,328,301
+1,-370,-114
+2,346,-29
+3,-60,160
+1,-188,-158
+1,171,41
+2,-87,23
+2,-44,-293
+2,-90,182
+1,60,-199
+1,307,237
+1,-245,217
+2,-54,-300
+1,-3,70
+1,-211,163
+6,69,-237
+4,211,40
+4,174,266
+2,237,4
+4,-145,45
+1,-421,-364
+8,58,473
+7,349,109
+4,-18,-32
+4,-180,43
+3,-195,-249
+2,-134,28
+1,555,270
+4,-191,-160
+1,-43,-40
+1,-165,-34
+1,-122,28
+2,560,215
+3,-55,91
+1,-259,-226
+1,143,9
+3,-221,-213
+14,2390,386
+27,154,-7
+1,-224,-48
+1,185,153
+1,-356,-26
+1,770,27
+1,-253,-2
+1,-367,0
+1,357,-32
+1,-370,-138
+1,-166,50
+1,185,-57
+1,-97,26
+6,645,119
+3,76,-35
+5,-846,-159
+1,755,210
+2,-330,-92
+1,-130,57
+1,48,60
+2,316,-13
+8,-161,-22
+4,-93,-15
+1,29,-55
+26,-970,-934
+3,52,108
+1,52,-39
+28,-215,-148
+1,266,389
+2,-420,156
+1,35,69
+1,32,-97
+3,-94,-100
+1,281,-209
+1,-159,82
+3,401,336
+1,-543,-39
+1,144,-107
+1,414,297
+1,-337,-649
+1,-240,353
+1,84,4
+3,651,414
+4,-23,-168
+1,-626,-480
+1,179,166
+1,409,479
+2,-556,-928
+3,519,972
+2,-460,-849
+1,290,394
+5,175,203
+3,-474,-52
+2,132,-339
+1,14,-298
+3,86,311
+3,71,-94
+14,-364,1250
+1,-770,-425
+1,316,34
+2,-227,-58
+1,-1,233
+2,30,-171
+1,26,504
+1,527,-198
+5,-181,-87
+2,-111,-82
+1,234,179
+4,-185,-75
+2,85,168
+4,9,-196
+2,-127,165
+4,139,-102
+2,-48,77
+1,130,80
+1,254,-7
+3,-186,366
+9,114,-178
+3,-224,127
+1,156,213
+3,-39,-382
+2,-98,97
+1,258,503
+1,-894,-1089
+2,768,1065
+1,-368,-387
+2,-151,-674
+1,488,416
+1,-211,258
+1,402,171
+1,-305,52
+1,212,96
+2,-390,-457
+2,353,11
+1,47,217
+2,-208,-292
+2,-109,-13
+2,-197,-108
+1,538,323
+2,-148,-126
+2,256,261
+1,-651,-659
+1,475,834
+2,-549,-573
+1,701,552
+1,-360,-403
+1,-248,-86
+2,230,469
+2,-308,-732
+3,830,-87
+19,118,-439
+1,-352,118
+2,210,403
+2,-163,-614
+2,24,-38
+3,166,721
+5,-445,-462
+2,386,-477
+1,-139,533
+1,331,14
+3,-388,-241
+1,-212,453
+3,468,-658
+1,-26,934
+1,198,-419
+1,-235,434
+2,-301,-727
+3,428,819
+7,11,-299
+1,-210,-736
+4,228,719
+3,-48,4
+3,-376,-16
+2,493,472
+2,-676,-594
+1,720,-178
+1,-372,199
+6,-149,-274
+1,185,370
+1,242,-41
+18,-66,86
+1,-114,407
+3,-25,-406
+2,208,498
+1,-228,-915
+1,-280,140
+3,391,-356
+1,-131,915
+3,441,-611
+2,-416,-289
+1,116,491
+2,-17,260
+1,19,481
+1,-13,-872
+4,-392,-195
+1,496,478
+4,-124,196
+1,30,-634
+1,229,210
+1,-183,193
+2,-21,397
+3,-246,-834
+1,299,983
+3,-463,-709
+1,491,-12
+3,-199,88
+1,-167,-125
+4,226,-246
+7,174,428
+38,197,309
+4,19,91
+1,-6,-24
+2,-46,67
+11,-32,276
+1,-67,-197
+1,211,-404
+3,-172,421
+1,113,181
+9,-5,-373
+3,-161,289
+4,207,-415
+1,-120,342
+1,90,-217
+1,47,-171
+2,-50,147
+1,-151,218
+7,-46,-304
+5,50,-67
+1,26,33
+2,101,-300
+1,-161,170
+5,-59,-4
+2,214,35
+1,-109,-19
+1,-41,-54
+2,75,138
+1,132,-246
+1,-200,169
+5,177,-320
+1,-141,195
+3,72,-56
+1,-74,326
+1,-10,-189
+1,62,155
+2,90,-168
+1,-217,16
+10,-835,-327
+9,-149,-82
+1,385,-118
+4,-27,88
+2,-310,-105
+2,236,135
+2,-62,199
+2,-34,-366
+1,65,53
+3,31,234
+2,-188,-119
+2,243,136
+5,-63,-390
+2,24,-41
+13,-503,5
+5,-15,-183
+4,106,472
+2,-98,-67
+5,-13,-228
+4,89,113
+5,-174,239
+2,19,-268
+1,-5,111
+1,-81,-68
+1,140,141
+3,-75,-121
+6,17,-236
+1,219,418
+13,892,2069
+1,37,-966
+2,-114,165
+3,93,435
+1,20,517
+3,-144,-194
+2,75,-884
+1,81,346
+2,164,416
+1,-220,-564
+2,219,701
+4,-94,-355
+5,-253,-79
+8,65,-196
+4,79,185
+7,183,30
+3,84,277
+2,-391,24
+2,151,-24
+4,-50,73
+2,202,-4
+1,-26,-865
+3,169,807
+34,-557,-37
+1,-408,-397
+2,31,-339
+3,-43,175
+1,514,886
+2,-158,-285
+2,-109,-124
+2,-105,-598
+1,-287,112
+2,880,962
+1,-286,-614
+5,40,521
+10,-29,-707
+3,-101,227
+2,-189,-83
+7,356,94
+2,-210,-187
+4,92,540
+1,198,-300
+3,-270,-310
+10,231,709
+1,-402,-737
+18,42,-136
+2,59,-11
+120,-2966,-1044
+1,451,-148
+2,-159,509
+2,-10,-614
+1,-208,315
+1,-263,-322
+1,60,144
+2,637,337
+1,-65,-537
+1,-185,238
+1,90,280
+1,-174,-573
+1,207,466
+1,192,129
+1,-418,-234
+1,425,-391
+1,-141,873
+2,64,-21
+1,-515,-582
+2,563,-58
+10,-321,236
+1,246,-92
+1,-62,421
+1,-14,-385
+2,-105,153
+1,268,218
+1,-188,-491
+1,169,651
+2,-257,-492
+1,-30,257
+1,125,3
+1,155,-212
+1,-683,-236
+1,321,-33
+46,-3,431
+2,-53,-121
+1,33,-11
+1,71,98
+1,-18,-89
+1,-131,148
+2,121,-100
+1,-45,50
+17,-68,-55
+74,13,795
+1,152,-21
+1,-458,-281
+2,-90,-64
+2,-30,460
+1,-46,-152
+1,-219,-210
+3,1138,473
+1,-832,-128
+1,557,-263
+1,-187,157
+2,172,134
+12,-951,-412
+2,955,617
+2,-302,-530
+2,207,-302
+4,-499,-83
+3,-271,441
+1,731,447
+1,155,-285
+3,-755,-301
+1,322,72
+1,380,134
+3,-603,227
+1,406,8
+3,-406,72
+2,523,-76
+1,-592,-175
+1,463,-461
+2,9,-55
+1,-51,105
+2,97,-95
+3,-38,37
+10,119,908
+3,-903,-538
+1,809,-307
+1,-45,297
+1,165,-447
+4,382,332
+3,-80,582
+1,-680,-1040
+3,130,-109
+3,17,749
+1,-132,-809
+2,361,711
+1,22,403
+3,380,46
+1,-1291,-763
+4,949,-12
+1,306,519
+1,-724,263
+1,175,-548
+1,379,562
+1,200,-208
+1,-813,-222
+1,144,-176
+3,500,143
+5,-877,93
+1,1000,9
+4,-947,374
+2,-145,34
+8,573,-161
+1,-421,-386
+1,542,77
+1,438,543
+1,-782,-358
+5,173,16
+1,-87,-470
+1,-148,-380
+4,127,700
+1,-350,-236
+1,830,-167
+1,-39,91
+2,-367,-219
+10,-52,121
+1,-403,30
+3,512,-310
+2,-657,736
+1,777,-77
+2,323,251
+22,-290,-420
+2,-7,-57
+2,51,90
+1,-117,-32
+1,15,-104
+1,91,57
+1,-32,-151
+1,47,70
+1,-42,123
+1,-9,-38
+43,119,-7
+46,-702,1132
+1,235,-222
+1,433,23
+1,-753,366
+1,7,-486
+1,2,265
+1,1105,187
+1,-555,301
+1,172,-523
+1,-221,-307
+1,-147,293
+2,39,-15
+1,165,-249
+2,-61,-103
+1,-63,123
+1,-112,259
+1,77,-114
+1,-196,411
+1,-200,-180
+1,694,-19
+1,-332,-282
+1,-382,578
+1,754,-95
+1,-602,-356
+1,110,448
+2,-13,-202
+1,-258,523
+1,-39,94
+2,43,-72
+1,-18,152
+2,957,-520
+1,33,9
+2,-682,-415
+1,-55,-50
+1,643,-220
+1,-647,946
+2,573,-303
+1,-407,-43
+1,-399,-379
+3,715,611
+2,333,201
+2,53,-253
+2,-924,99
+1,835,-105
+1,-618,110
+2,-151,-904
+1,230,276
+2,-216,-149
+1,779,755
+2,-59,-428
+3,-851,406
+1,-82,71
+1,1010,-65
+1,-514,-224
+1,330,-416
+1,144,-98
+1,76,133
+2,-897,581
+1,-86,-84
+4,711,-391
+1,244,167
+1,-137,-362
+1,183,485
+3,-512,-105
+2,342,418
+2,-539,-256
+1,-227,-283
+1,29,310
+1,887,196
+2,-473,-269
+1,-157,134
+2,61,-751
+2,-130,417
+2,-109,-19
+1,158,92
+1,-33,-93
+1,-48,-60
+1,76,-13
+1,-8,79
+1,34,15
+1,-100,88
+2,106,-158
+1,76,-7
+1,20,92
+1,-48,-17
+1,-31,95
+1,42,-231
+78,-124,93
+2,-6,56
+4,220,-275
+2,-38,93
+1,81,-24
+1,-17,-153
+2,-70,29
+1,45,10
+1,-80,76
+3,175,-37
+1,-212,-31
+88,30,1209
+2,-22,-123
+1,98,6
+1,220,754
+1,-904,333
+1,506,-1330
+1,-344,1326
+1,550,-982
+1,-467,1230
+2,255,-864
+1,-170,-562
+1,-255,1006
+1,545,-761
+1,184,-380
+1,-657,992
+1,1048,62
+1,-686,-438
+1,608,215
+1,-1100,368
+1,485,-966
+1,403,126
+1,-658,1709
+1,283,-1166
+1,-240,927
+1,103,-1268
+1,-113,-65
+1,115,-29
+1,-136,-344
+1,899,379
+1,57,-169
+2,-863,360
+3,-143,175
+2,771,-352
+1,-355,318
+1,-21,-37
+1,618,-576
+1,-531,452
+1,247,-546
+1,128,506
+1,-612,542
+1,419,-304
+2,-101,-13
+1,335,-665
+1,-772,-151
+1,110,394
+1,765,330
+2,-99,238
+1,-402,-912
+1,-43,720
+1,-439,-22
+2,132,648
+1,153,-684
+1,673,131
+1,-1002,-784
+1,313,323
+1,-137,749
+1,856,-615
+3,-253,202
+1,158,-382
+1,-623,434
+1,399,15
+1,-548,-530
+1,476,365
+1,-673,906
+1,1018,-900
+1,45,213
+1,-653,-639
+1,-292,551
+1,157,-801
+1,239,639
+1,-28,-676
+1,-350,314
+1,112,537
+1,-284,1020
+1,484,-1265
+2,-308,-190
+1,-16,677
+1,834,-563
+1,-316,-155
+1,-279,680
+1,-125,-841
+3,97,-72
+1,534,766
+12,-36,941
+1,-7,-724
+5,-945,1481
+1,992,-408
+1,26,-77
+2,-47,-507
+1,-1055,966
+1,1077,-610
+1,-13,-694
+1,51,911
+1,-200,-902
+1,-327,660
+1,664,-432
+1,-174,754
+1,-522,-587
+1,630,422
+3,-345,-572
+3,337,-280
+1,-1183,1269
+1,1264,-1175
+1,-128,58
+1,-149,836
+2,-143,57
+1,205,-928
+1,-1089,1034
+1,973,-686
+2,183,-187
+1,-197,736
+1,-148,162
+1,91,-53
+1,391,-229
+3,-697,99
+1,109,190
+2,487,-316
+1,-334,-758
+1,435,586
+1,-609,570
+1,-819,-396
+2,689,-777
+2,365,972
+1,165,-129
+1,-166,85
+1,96,-1060
+1,-563,1419
+1,804,-1314
+1,-554,183
+2,-357,1149
+1,819,-585
+1,-128,66
+2,236,-346
+2,-807,563
+1,765,-788
+1,-192,-58
+1,-392,982
+1,-287,172
+1,396,-1471
+2,257,462
+1,170,-444
+15,-1050,-3290
+5,71,-884
+1,-288,961
+2,286,24
+3,-196,-931
+4,103,-245
+1,-68,-388
+1,242,-132
+1,-205,9
+1,240,151
+1,-123,240
+2,168,800
+1,-326,-1168
+1,140,1248
+2,30,-152
+4,62,-219
+1,-242,-186
+1,186,-248
+1,-65,149
+2,128,386
+1,13,-225
+2,185,582
+1,-290,-1316
+1,197,1289
+1,-164,-1044
+1,-111,-363
+9,-84,638
+2,33,82
+2,-44,25
+15,301,809
+1,95,-126
+1,-414,-1042
+1,40,-394
+1,63,1239
+1,-46,-1141
+1,149,577
+1,0,336
+1,-290,266
+1,342,-505
+1,46,436
+2,-11,88
+3,-248,-796
+2,300,763
+1,-224,-1046
+1,135,101
+1,-468,1627
+1,496,-1320
+5,-186,860
+1,-26,-708
+3,-15,26
+1,-441,1098
+1,184,-374
+1,59,-347
+1,62,-12
+2,133,192
+1,-320,-161
+1,550,399
+1,-417,-229
+2,-176,-41
+2,340,-1198
+1,345,973
+2,0,-119
+2,-727,880
+1,481,-1012
+4,71,618
+1,259,-291
+2,-209,532
+1,-239,12
+1,21,-172
+4,-387,61
+1,239,-626
+1,-54,675
+1,391,-1425
+1,70,1378
+1,23,-173
+1,-166,-1558
+5,368,1536
+2,-95,63
+1,60,-167
+3,-338,-1013
+2,-102,-15
+7,453,1156
+1,-333,-1487
+3,-154,1494
+1,182,-609
+2,291,168
+1,-174,-1090
+1,46,534
+1,-194,-6
+1,-359,1332
+3,-80,-632
+1,50,291
+28,258,-404
+1,-18,-14
+1,6,31
+1,4,37
+1,36,-32
+1,-61,-3
+1,38,-80
+1,-53,51
+1,-48,-3
+1,35,60
+1,22,52
+1,98,10
+1,-14,-233
+1,-26,269
+1,64,-191
+1,-141,-18
+6,140,176
+3,-206,-90
+1,87,177
+17,35,-198
+18,97,103
+7,15,-63
+1,-225,38
+3,12,-183
+1,65,114
+3,-139,16
+1,83,-191
+2,93,166
+2,-1,-2
+19,-150,1961
+2,11,-75
+1,-60,-31
+1,27,83
+1,-95,10
+1,182,-97
+1,32,-21
+2,-47,-28
+1,43,154
+1,-220,151
+2,105,-277
+1,62,-434
+3,-104,825
+2,-453,-149
+3,757,-61
+2,-162,730
+1,116,-1051
+1,89,-268
+1,-353,1089
+2,-94,-1489
+1,285,1174
+1,-541,-50
+1,631,682
+1,-14,-551
+3,-616,-4
+1,443,-1172
+1,212,1011
+1,-840,-401
+1,649,960
+1,66,-478
+1,-429,-913
+1,411,942
+1,-298,-1043
+2,183,107
+1,-138,632
+1,66,1000
+1,266,-1388
+1,-399,-262
+1,-80,123
+3,623,259
+1,-154,405
+1,-335,-293
+1,-294,148
+1,-21,-120
+1,83,-20
+2,-300,-54
+1,579,-401
+1,-241,207
+1,464,1271
+1,58,-310
+1,-60,-1361
+1,199,610
+1,-946,84
+2,488,51
+1,-211,-201
+1,393,-307
+1,96,27
+1,-712,416
+1,570,-198
+1,-211,30
+1,23,160
+1,70,-736
+3,-2,1227
+1,-349,-709
+1,214,328
+1,256,441
+1,-185,-628
+1,317,-248
+3,41,423
+1,-187,254
+1,-299,-96
+1,246,606
+1,236,-1053
+1,-87,515
+1,-175,-687
+2,35,1350
+1,-221,-656
+2,-477,748
+2,-70,91
+2,42,13
+4,-113,8
+2,151,67
+1,-165,-128
+8,-82,-548
+1,450,302
+1,-456,-44
+1,221,-194
+1,20,-295
+1,271,800
+3,-522,-5
+1,302,5
+1,-57,-1033
+1,33,88
+1,-149,86
+1,321,142
+1,-17,146
+1,-66,362
+1,-159,-175
+2,173,-630
+1,-133,-87
+2,524,574
+1,-501,-174
+1,171,908
+1,207,-627
+1,-159,784
+2,90,-742
+1,-101,-82
+1,-545,418
+1,336,-555
+1,-73,378
+1,-231,-437
+1,861,480
+1,-196,422
+1,-558,-978
+1,263,345
+1,81,415
+1,364,-209
+2,-297,664
+1,-556,-641
+1,33,-253
+1,110,-465
+1,672,755
+1,-869,-79
+1,828,224
+1,-823,-716
+1,-18,73
+1,34,46
+1,33,77
+2,332,-295
+6,344,649
+1,-542,25
+1,114,216
+21,1024,274
+3,-12,-109
+4,-127,-189
+1,46,1019
+1,-158,2
+1,-87,458
+1,-199,-461
+1,741,-583
+2,-251,701
+1,-336,69
+2,39,-1127
+1,233,734
+1,-132,546
+1,-178,-1270
+2,391,437
+1,-415,836
+1,338,-1223
+1,113,279
+1,13,390
+1,-526,479
+1,371,-340
+1,271,-537
+1,-676,860
+1,207,-331
+1,-3,-14
+4,355,342
+1,160,-1006
+1,-723,332
+1,50,-266
+2,-14,37
+1,5,64
+1,-39,107
+2,131,-100
+1,-196,62
+4,690,-452
+1,-23,1225
+1,-559,46
+1,737,-1083
+1,-608,345
+1,265,610
+1,-395,-112
+3,389,-228
+2,-46,-147
+8,-304,244
+1,269,177
+1,-26,-1020
+1,-40,526
+1,-101,-392
+1,-191,709
+2,219,477
+1,290,-1453
+1,-384,1352
+1,640,-1175
+1,-609,1244
+1,-96,-714
+2,-24,49
+1,326,-317
+1,274,241
+1,-137,510
+2,-391,173
+1,725,-923
+4,-820,443
+7,1071,-4353
+1,-98,-56
+2,505,-467
+1,-49,155
+1,-78,388
+1,163,-340
+2,-537,590
+1,51,-88
+1,277,-592
+1,-356,199
+1,88,330
+2,737,-462
+1,-454,-260
+1,460,568
+1,-267,-155
+1,-454,-90
+2,516,821
+1,-81,-1163
+1,334,976
+1,-409,-440
+1,-250,523
+1,423,-628
+1,161,504
+1,-725,-764
+1,618,419
+1,-515,-61
+1,715,10
+3,-574,653
+1,360,-369
+1,-394,63
+1,-221,-356
+1,127,-59
+2,560,79
+1,-430,-496
+1,250,1080
+1,304,-726
+1,-103,263
+1,-447,-270
+1,94,-299
+3,263,635
+1,-765,54
+1,735,-151
+1,-216,-678
+1,-24,86
+1,-7,742
+1,-296,-591
+2,259,-192
+1,-384,706
+1,578,88
+1,-247,292
+2,53,-1036
+1,515,602
+1,-495,-716
+1,168,632
+1,-491,-97
+1,56,46
+1,660,443
+1,-212,-8
+1,-29,78
+1,-444,-615
+1,733,200
+1,-865,328
+2,888,-137
+1,-174,281
+1,-594,-71
+1,95,-145
+1,427,-769
+2,-337,617
+1,-335,258
+1,802,54
+1,-56,-696
+1,13,566
+4,-304,108
+1,-310,-641
+2,582,-264
+1,157,279
+1,-106,91
+3,-229,305
+1,177,-598
+3,-609,-875
+1,-325,-1006
+2,81,1071
+1,574,420
+2,-636,-915
+1,-128,206
+1,500,481
+1,-314,99
+1,144,10
+1,-428,-501
+1,193,-741
+1,512,1207
+1,-366,-407
+1,-73,-136
+1,-389,-245
+1,109,458
+1,352,-885
+1,-63,1258
+1,186,-669
+1,-426,870
+1,106,-952
+2,68,-255
+1,-101,851
+3,39,-186
+1,211,243
+1,-237,-20
+1,158,-66
+1,-25,-1331
+1,-248,340
+1,296,1088
+1,-299,-737
+3,98,557
+1,752,224
+1,-960,-906
+1,317,560
+1,417,-230
+2,-278,-93
+1,-45,812
+1,-331,-755
+1,509,157
+1,186,662
+2,-336,-1022
+1,205,1084
+1,154,-677
+1,13,199
+1,31,296
+1,-552,9
+1,292,-90
+1,-273,-197
+1,6,-93
+2,309,682
+1,-55,-283
+1,-606,-1276
+3,220,847
+2,76,-88
+2,296,429
+1,-278,-1576
+1,-204,1017
+1,122,539
+1,-167,-697
+1,-75,-326
+2,889,1256
+1,-294,-333
+1,-258,-812
+2,-132,-425
+1,10,1488
+1,8,-874
+2,411,-119
+1,-191,151
+1,280,473
+1,-391,-707
+1,56,-94
+1,-209,822
+1,159,-12
+1,37,139
+9,201,-190
+2,-63,35
+1,113,-35
+1,-31,78
+1,-44,-137
+95,-369,-1188
+1,-178,-153
+2,46,224
+1,94,-207
+1,-76,-196
+3,-86,234
+92,-1214,3729
+2,-546,-850
+3,628,-527
+3,574,1186
+1,-219,93
+4,299,-843
+1,-78,-223
+1,-241,345
+2,-855,354
+2,965,65
+10,-738,-74
+1,1031,-781
+1,-270,985
+1,-384,-611
+3,181,-285
+1,56,-528
+1,-809,887
+1,39,89
+1,641,454
+2,-755,-710
+2,620,453
+1,259,-110
+1,-72,644
+1,-581,-419
+1,-141,285
+3,471,167
+1,-64,-613
+1,30,-350
+1,120,-292
+1,626,468
+1,-965,909
+2,945,-744
+1,-1225,331
+2,568,-432
+1,107,245
+1,133,-596
+2,161,-115
+2,246,780
+2,-364,442
+1,-263,-1354
+2,82,176
+1,-111,34
+1,553,421
+1,-240,-560
+3,-19,679
+1,107,586
+1,-277,27
+1,-923,-961
+1,-51,108
+19,1444,694
+1,-828,43
+2,341,-10
+1,-189,-1382
+2,-283,476
+1,783,-509
+3,-528,1606
+1,-153,-1061
+1,-193,-53
+1,522,1203
+1,-476,-912
+2,20,-6
+1,71,-39
+4,670,-439
+1,-482,67
+2,-61,786
+1,633,-944
+1,-176,-93
+1,-57,980
+1,-307,-1141
+1,543,793
+3,-973,77
+2,343,52
+2,-106,-570
+1,446,-455
+4,-577,1254
+3,752,-1285
+1,-709,512
+2,27,959
+2,284,19
+2,154,-150
+1,-2,161
+1,-156,-129
+6,-68,-601
+1,357,1093
+1,-214,-65
+1,-472,-438
+1,240,-985
+2,239,-281
+2,-49,1171
+1,150,-556
+1,-59,-48
+2,-33,69
+3,537,469
+2,-302,-661
+1,355,-322
+2,-131,491
+21,-383,71
+2,119,-13
+1,-72,41
+1,-39,3
+1,39,36
+1,13,115
+1,-44,-181
+1,-71,77
+1,118,-160
+2,33,-92
+11,15,283
+2,-98,-111
+4,151,136
+72,789,-1121
+1,-51,171
+1,111,-124
+3,-102,46
+1,90,90
+9,60,-143
+4,-84,-18
+1,-244,252
+1,406,-391
+1,5,225
+1,-135,83
+1,-523,-21
+4,524,9
+1,61,32
+1,-409,-54
+1,-365,-112
+1,692,59
+1,-65,-213
+1,-247,217
+3,475,-95
+2,-162,416
+1,148,-127
+5,-175,-123
+3,122,-232
+2,-646,260
+2,410,159
+2,-468,-99
+1,784,-513
+4,-659,215
+4,300,584
+1,193,-710
+3,102,309
+1,-217,-156
+1,-493,42
+2,529,265
+1,22,-31
+1,-135,-102
+1,72,-269
+1,-50,170
+1,120,-153
+1,36,128
+1,-279,367
+5,-348,-488
+1,633,-11
+3,-210,55
+13,-1986,2114
+2,26,-14
+1,95,-106
+1,-46,72
+1,85,-55
+1,-138,37
+2,-2,37
+1,141,-54
+2,-226,63
+2,131,-153
+4,67,10
+2,22,-5
+4,-147,162
+1,0,-10
+1,-13,-426
+3,217,678
+2,282,-186
+1,-43,-932
+2,-87,970
+1,-188,-622
+1,362,279
+1,-180,-231
+1,-569,96
+1,87,370
+1,728,622
+5,-384,-637
+1,-408,-544
+2,667,58
+1,-556,172
+1,387,509
+1,-259,22
+1,-110,-721
+1,505,864
+2,-539,-485
+1,300,-21
+2,135,627
+3,52,-523
+3,-352,152
+2,57,73
+2,551,-296
+1,-183,-51
+1,-430,-79
+1,379,-460
+1,-138,345
+2,-152,-199
+1,64,-295
+2,196,254
+2,218,674
+2,-261,-902
+1,-349,962
+1,259,-403
+2,-97,27
+1,170,40
+1,-445,-17
+1,249,-489
+4,3,793
+1,135,-963
+8,1160,1016
+4,-75,138
+1,80,39
+4,-756,37
+1,522,491
+1,643,-596
+4,-176,103
+2,-648,-232
+1,221,487
+1,672,-570
+5,-125,415
+1,-695,538
+1,-83,-163
+3,211,-600
+2,287,-110
+4,136,478
+4,-35,-478
+1,-319,109
+2,223,475
+1,-286,45
+1,162,255
+1,-280,-383
+1,604,21
+3,-95,-749
+4,-690,685
+1,138,-66
+1,-173,-305
+4,171,13
+3,514,541
+1,-877,-647
+1,882,357
+1,-469,840
+1,672,-774
+1,-647,683
+1,119,-162
+1,635,-651
+1,-533,138
+1,-365,633
+2,395,-469
+1,-536,291
+1,-59,-84
+1,128,148
+2,68,-7
+1,-113,-639
+1,542,438
+1,-363,459
+1,146,-916
+1,598,-483
+1,-1020,965
+3,115,66
+1,430,-297
+1,-532,-529
+1,369,87
+1,307,308
+1,248,-403
+1,147,280
+2,96,-274
+5,111,-2551
+4,-69,22
+2,32,51
+2,103,-59
+2,-82,-70
+2,93,18
+1,-50,77
+1,-17,67
+2,57,-170
+3,-732,40
+1,324,-178
+3,-70,-20
+1,120,-142
+1,-95,9
+1,58,277
+1,-431,-84
+2,651,-235
+1,-57,-19
+3,-6,-17
+1,400,200
+3,-712,297
+1,-60,-91
+1,574,-146
+2,-101,11
+1,-269,-411
+1,158,780
+1,-78,68
+1,-452,-21
+3,103,3
+1,659,-113
+1,126,-22
+2,-718,48
+1,150,-138
+1,-191,-262
+2,502,-55
+1,5,-616
+1,-560,658
+2,845,90
+1,-278,252
+2,82,-855
+1,-136,243
+1,-612,935
+1,651,-777
+2,-125,344
+1,5,-310
+1,300,2
+1,-192,-211
+1,-32,477
+3,234,-530
+2,-320,48
+2,51,643
+1,83,69
+1,68,-628
+1,194,360
+1,-651,-226
+1,604,-126
+1,-25,-208
+1,29,726
+2,-450,-549
+1,523,459
+1,-276,-660
+1,-372,858
+1,230,-936
+3,139,147
+1,-155,459
+5,490,1076
+2,-284,563
+2,-116,-325
+1,272,377
+1,60,-129
+1,-329,888
+1,387,-1122
+2,-308,245
+2,-86,62
+1,299,-13
+2,-60,-522
+1,-321,1091
+2,115,-385
+4,30,-270
+2,86,-223
+1,-142,971
+1,46,-136
+1,-76,-606
+1,201,-11
+2,81,-63
+1,-32,49
+8,-214,836
+1,145,-1196
+1,156,-31
+2,-35,209
+56,-1405,-478
+2,-133,-10
+2,189,88
+4,-226,-75
+1,-430,311
+2,228,-5
+4,288,-490
+1,-132,602
+2,674,-956
+2,-407,112
+3,178,121
+2,-430,634
+1,-415,118
+1,553,-588
+1,52,-28
+2,-236,-6
+1,500,60
+2,-321,-39
+1,403,-452
+1,-836,799
+2,662,-655
+2,250,-392
+1,-471,604
+1,-69,78
+1,-275,681
+1,603,-1034
+1,41,1
+2,-122,366
+1,268,-213
+1,-868,822
+2,407,-578
+2,-112,384
+3,86,-80
+4,130,-472
+39,313,-267
+3,-1610,1569
+2,161,-40
+1,-124,22
+1,90,-53
+1,30,154
+2,-138,-249
+1,-119,-47
+1,711,-260
+1,-344,227
+3,-466,67
+1,610,-98
+2,15,-288
+2,-380,693
+1,323,-626
+1,-99,-100
+1,260,41
+1,29,128
+2,-640,377
+1,10,-324
+1,-80,304
+1,788,-170
+3,-122,-420
+2,-238,231
+1,-212,417
+1,100,-270
+3,198,-279
+1,-128,567
+1,-18,-142
+2,-44,-327
+1,305,112
+1,-115,239
+57,1092,-3466
+2,373,-30
+1,-57,75
+3,-188,-374
+1,177,288
+2,-58,466
+1,-302,-166
+1,-75,31
+1,-56,150
+2,-70,-107
+1,372,-35
+1,-172,160
+1,259,-80
+2,-168,-355
+1,218,-8
+2,37,156
+1,-407,395
+3,637,-480
+2,-520,-115
+2,-32,27
+1,73,-20
+1,-123,35
+1,33,45
+3,-58,64
+1,133,106
+1,424,-142
+1,-27,79
+2,-186,92
+1,-88,-64
+1,15,141
+1,13,-65
+1,-80,-119
+5,-53,215
+2,-139,14
+1,-181,133
+1,-5,100
+2,246,-457
+2,182,-436
+2,86,70
+2,-66,-137
+2,92,105
+1,-98,43
+1,34,30
+2,-395,536
+1,368,-311
+1,-150,2
+3,262,-187
+1,-24,81
+2,-168,293
+1,-69,-243
+1,86,-241
+2,-23,-34
+1,-58,343
+1,57,-23
+3,-63,118
+1,-35,-84
+2,197,-366
+2,19,316
+1,-63,53
+1,-296,127
+2,361,-93
+1,52,-1
+4,9,-561
+1,67,62
+1,261,-275
+1,-274,-150
+1,344,-102
+1,-600,544
+1,503,283
+1,-804,-918
+2,207,128
+1,93,480
+2,19,-550
+1,393,669
+1,-28,134
+1,-677,-594
+1,43,-136
+1,-9,33
+2,602,239
+1,37,83
+1,-445,136
+2,367,-705
+1,-133,69
+1,-186,723
+1,60,-145
+5,103,-153
+2,-200,71
+1,-106,48
+2,445,-33
+2,315,61
+2,-572,-65
+2,603,345
+1,-426,-166
+1,209,-395
+2,-111,-236
+1,325,956
+1,-143,-954
+3,-325,573
+1,-18,-406
+4,-89,181
+4,351,-302
+4,80,-121
+3,-532,707
+2,-351,-577
+1,930,438
+2,-230,-427
+2,402,627
+1,-764,-777
+1,636,930
+1,-312,-597
+1,-313,-44
+1,-63,96
+2,-63,-330
+1,683,647
+1,-87,-139
+1,-732,-177
+2,133,62
+1,471,398
+1,0,-113
+15,-1068,449
+1,211,-353
+1,-171,17
+7,491,-166
+1,-97,138
+1,-98,30
+1,-163,571
+1,62,-1253
+1,-171,551
+2,111,-238
+2,-194,90
+1,252,455
+1,-85,40
+4,197,-68
+1,-173,-262
+1,-61,-350
+3,128,944
+1,38,-49
+2,187,-300
+2,-18,-57
+2,-465,-738
+1,-15,164
+7,328,847
+2,85,-197
+1,-237,-392
+1,276,641
+1,-20,-130
+3,-447,-123
+1,136,124
+1,-152,-284
+1,275,-272
+1,321,408
+3,-199,-525
+2,31,146
+3,127,-10
+1,-152,154
+3,229,67
+1,-39,231
+1,-27,-130
+1,-126,-467
+1,-168,285
+1,112,-66
+4,182,454
+3,-217,-94
+1,-352,31
+1,-107,-75
+2,772,6
+1,-329,-307
+1,152,44
+1,100,46
+1,-408,151
+1,-189,-203
+1,658,331
+1,-547,-53
+1,473,-123
+1,52,69
+6,138,-18
+2,81,-2
+1,-46,39
+1,-17,19
+1,0,-44
+1,29,-8
+1,-73,-43
+1,-4,-47
+1,22,100
+1,19,-22
+1,-6,-34
+1,-55,49
+1,14,52
+1,31,15
+1,45,-132
+1,83,113
+3,-81,10
+2,23,-33
+2,32,-6
+1,20,-53
+1,63,30
+1,-106,65
+2,-122,-222
+1,73,140
+2,-29,16
+2,-14,-181
+1,-95,119
+1,306,132
+1,-78,-147
+1,30,212
+1,-9,-37
+1,-5,-85
+2,-207,-87
+1,175,178
+1,72,-55
+3,-302,-185
+1,358,194
+4,-320,-57
+6,274,115
+3,-143,-127
+38,-1186,2051
+9,-416,-165
+1,-65,-281
+1,-44,308
+1,805,-27
+1,-728,523
+1,167,387
+2,-154,-318
+3,137,-210
+1,-122,20
+2,-39,287
+2,536,-271
+1,365,446
+1,-1124,-313
+1,302,-753
+1,-68,780
+5,868,-431
+2,-870,73
+3,262,223
+2,399,-167
+1,0,267
+3,-650,-611
+1,397,1118
+2,-75,-900
+1,37,828
+1,31,-392
+1,-163,-29
+1,-77,64
+1,-290,-219
+1,410,-619
+1,262,920
+1,283,14
+1,-581,-765
+1,-1,732
+2,28,46
+1,70,60
+3,-60,-502
+3,317,621
+3,-395,-894
+1,184,317
+2,-528,-292
+1,209,59
+3,639,13
+24,1456,-1413
+3,-52,-75
+2,80,-7
+1,-82,127
+3,180,198
+1,5,84
+1,407,-481
+1,-36,-354
+3,-440,1291
+1,-251,-766
+1,4,-226
+1,-47,78
+1,253,862
+1,22,-209
+1,422,-1052
+1,-71,793
+2,194,182
+2,-426,-413
+1,128,6
+1,-392,293
+1,6,89
+1,290,-198
+2,58,-422
+1,-140,-130
+1,143,569
+1,78,-784
+1,327,1028
+1,-478,67
+1,180,-1206
+1,47,-74
+1,189,26
+1,-737,608
+1,121,256
+2,461,-108
+1,146,44
+1,-546,262
+1,-273,-308
+1,19,187
+3,666,106
+1,-330,387
+1,-46,-578
+1,571,-758
+2,-489,1235
+1,-216,-382
+1,694,-707
+1,-81,69
+2,42,821
+1,-360,-78
+1,-95,-427
+1,-378,478
+1,153,-486
+1,-58,220
+1,774,266
+3,-239,-271
+1,20,-391
+1,5,679
+2,-533,-319
+1,627,261
+1,-279,123
+4,240,-95
+1,160,-486
+15,-428,-75
+1,69,631
+3,-598,7
+1,-55,-27
+3,-40,48
+1,36,-108
+1,77,-14
+2,-84,76
+10,-77,127
+1,73,-513
+1,-132,287
+1,124,-60
+1,-192,18
+1,452,475
+1,-661,-296
+2,452,370
+1,60,-252
+1,46,106
+1,-178,-35
+1,-342,279
+2,623,-383
+1,21,307
+1,-96,149
+4,177,-359
+2,-513,-413
+1,-226,381
+1,821,272
+3,-279,-391
+2,-215,265
+2,-280,-430
+5,189,-225
+1,82,-23
+4,-79,785
+2,484,-207
+1,-651,-462
+1,-60,802
+1,-19,-276
+1,425,-511
+1,-165,409
+1,99,479
+1,-220,-421
+4,52,402
+4,55,-657
+1,-330,307
+2,542,-631
+3,-48,440
+18,547,-1697
+4,254,206
+2,31,-617
+1,161,697
+2,-1,-249
+1,-7,148
+9,-198,-232
+1,59,92
+3,32,151
+1,100,-595
+1,50,212
+2,-290,-85
+2,-321,-190
+1,200,-56
+2,-149,421
+1,118,336
+1,70,-168
+1,299,-251
+2,-105,-347
+1,9,265
+1,-49,144
+1,196,-209
+1,-17,36
+4,-344,212
+1,-88,-260
+3,433,-95
+1,48,655
+1,-70,-805
+1,-333,252
+2,287,245
+1,32,66
+1,35,-467
+45,-1335,3142
+1,-468,-249
+2,147,357
+2,177,-457
+1,-73,257
+1,175,221
+1,-327,-417
+2,135,559
+1,100,-199
+1,-36,-91
+1,-146,247
+1,-122,-104
+1,615,-254
+1,-508,104
+2,-48,-399
+1,270,-13
+1,-573,794
+1,303,-512
+1,291,-59
+4,-145,-141
+2,-283,677
+3,106,-374
+68,246,397
+3,41,-58
+1,-67,-135
+1,-64,181
+1,177,-118
+2,-54,3
+3,0,95
+89,-1494,-1352
+1,578,745
+1,43,-628
+1,355,-582
+1,-407,211
+1,36,-657
+1,-392,324
+1,476,141
+1,-395,785
+2,-139,-51
+1,263,-122
+2,22,-175
+1,-473,-430
+1,886,-313
+1,-208,860
+1,355,615
+1,-552,-434
+1,230,-447
+1,-164,563
+1,22,-182
+1,-329,-82
+1,1140,-171
+1,-988,-371
+2,237,918
+1,61,-861
+1,411,-251
+1,-475,43
+1,297,564
+1,146,-245
+1,67,139
+1,-24,208
+1,-201,518
+1,-584,-785
+1,-148,557
+1,1020,-685
+1,-538,-758
+2,-222,211
+1,362,979
+2,-88,-202
+1,627,596
+1,-229,-1001
+1,-587,215
+2,211,1058
+1,44,-1414
+1,-579,58
+1,646,39
+2,101,626
+1,-904,331
+2,444,-1061
+1,59,-466
+2,-503,1354
+1,1073,-170
+1,-16,10
+1,-754,-747
+1,997,261
+1,-722,514
+1,238,-790
+1,50,1016
+1,-519,-1149
+1,107,362
+1,-253,-41
+1,-58,249
+1,-155,-26
+3,387,612
+1,189,-1150
+1,-608,935
+1,753,-906
+1,-752,613
+2,469,-821
+1,584,1381
+1,-952,81
+1,-82,-781
+1,1465,-25
+2,-176,627
+1,-665,-654
+1,265,795
+1,-57,-188
+1,-556,-657
+1,-148,-78
+1,558,126
+1,466,861
+2,-391,89
+1,167,-1460
+1,-275,589
+103,191,-40
+3,43,-57
+2,-56,-10
+1,36,36
+3,79,-86
+1,-4,136
+2,-64,-40
+3,-108,-32
+1,112,171
+3,40,-318
+81,-1126,2213
+1,368,265
+1,379,27
+2,-1137,-65
+2,808,-20
+1,4,-73
+1,-300,30
+3,439,40
+1,-482,-216
+1,70,-1
+1,-19,12
+1,-169,-127
+2,416,361
+2,-369,4
+1,419,-292
+1,-83,405
+1,-434,-199
+1,182,189
+2,447,42
+1,-874,-67
+1,581,399
+1,423,-459
+2,-937,-72
+2,278,-205
+68,300,534
+3,-17,40
+1,-12,-126
+1,-59,94
+1,203,-113
+1,-79,17
+1,-88,36
+1,-1,157
+1,-77,-46
+4,143,-93
+4,-96,-110
+2,102,159
+80,-859,-1270
+2,-51,-53
+7,370,-33
+2,-1,-584
+1,231,672
+3,-468,93
+2,204,68
+1,155,-684
+1,-490,1381
+2,79,146
+1,-44,-275
+1,28,144
+1,80,-53
+2,-246,110
+5,651,-1330
+1,-163,-83
+2,-103,-38
+2,-533,691
+2,887,-426
+3,-671,483
+1,183,249
+1,514,-1094
+1,-267,973
+1,-43,196
+1,-740,260
+1,6,-177
+1,1125,-1018
+1,-774,134
+1,341,329
+1,-198,-332
+1,-124,617
+1,320,-639
+1,217,552
+1,-298,-46
+1,-30,16
+1,-573,591
+2,704,-522
+1,-307,701
+1,-724,-775
+1,1263,-74
+1,-489,-293
+1,-178,828
+1,112,-163
+1,448,-900
+1,-618,887
+1,-79,82
+30,629,-165
+2,-787,-1432
+1,92,-8
+3,65,120
+1,-134,42
+14,318,-254
+2,255,235
+1,-301,555
+1,225,-86
+1,-307,-793
+1,-213,-280
+1,264,411
+2,-223,-297
+1,107,829
+1,-216,216
+1,278,-711
+2,45,622
+1,66,-315
+1,-366,-63
+1,565,-329
+1,-390,-72
+1,307,321
+2,-292,97
+1,342,211
+1,-490,-674
+2,288,338
+2,150,-213
+1,-503,424
+1,233,-6
+1,429,-5
+48,-521,-271
+1,121,96
+2,603,-961
+3,-23,99
+1,-33,13
+2,70,-163
+2,459,56
+2,142,28
+1,-369,403
+2,-111,41
+2,-342,-433
+3,724,-200
+1,-1212,586
+1,647,-576
+1,-477,690
+5,370,224
+3,-207,-894
+3,382,791
+2,377,-483
+3,-962,93
+5,888,-127
+1,-556,104
+3,-165,318
+2,246,255
+1,315,115
+3,-536,-658
+3,-23,-89
+1,-306,59
+6,865,-245
+1,240,59
+1,-888,62
+3,101,186
+3,59,187
+1,476,-307
+1,-746,-85
+1,587,782
+1,-231,-335
+3,-359,-101
+1,115,-492
+1,938,-199
+1,-467,595
+2,198,326
+1,-507,-578
+3,644,-200
+1,-784,564
+1,371,-50
+1,169,156
+1,-123,-316
+1,-763,-149
+1,696,462
+1,-16,128
+1,-11,-187
+1,336,-235
+2,-127,828
+3,875,-1548
+2,-212,78
+1,357,-361
+1,-401,138
+1,-3,440
+1,385,-505
+1,-13,-206
+2,-64,486
+1,169,-412
+1,-102,512
+2,-438,-440
+1,-155,9
+1,837,255
+4,-303,-228
+1,-434,-146
+1,723,65
+1,-67,99
+1,-740,290
+1,58,-150
+1,684,-32
+1,-104,199
+2,-130,-221
+1,335,-4
+1,-234,24
+1,-709,90
+1,885,-477
+3,-47,557
+65,-332,-445
+2,-48,27
+1,138,-56
+1,-181,166
+1,95,-107
+1,16,50
+2,65,-24
+94,-2453,3214
+5,-188,-1187
+1,515,923
+2,147,134
+2,-376,-1451
+11,-102,560
+1,12,165
+1,-45,376
+7,-271,743
+1,814,-35
+4,-667,-1210
+2,312,457
+3,-320,491
+1,-69,-435
+2,843,262
+6,-210,-1028
+1,78,-207
+1,-535,758
+1,236,-230
+3,-162,517
+1,277,-1149
+1,-111,220
+1,-191,519
+1,54,-461
+1,134,858
+1,22,-872
+1,-118,1120
+1,-135,-1334
+2,43,1322
+3,-25,-1072
+1,126,533
+1,-16,683
+6,-190,-67
+1,-161,542
+1,303,-162
+1,-8,55
+1,3,-861
+1,-201,868
+2,-173,65
+1,624,-999
+4,-432,186
+1,-4,591
+2,258,-1300
+1,-159,1385
+1,506,-1190
+1,128,978
+5,-1524,126
+8,307,171
+2,-13,-214
+1,-22,-523
+1,-218,1042
+3,41,-21
+1,-23,66
+1,-49,-24
+5,-1,-133
+3,-52,183
+1,-7,-96
+1,36,48
+1,11,-317
+1,530,-223
+1,-698,643
+1,32,-994
+1,365,87
+2,87,681
+1,112,-77
+2,-199,-389
+1,386,-254
+1,-834,948
+4,749,-502
+2,-43,-366
+1,-34,-96
+9,-139,295
+2,-544,-310
+3,4,-101
+1,-81,40
+1,640,741
+4,-486,194
+1,-19,157
+5,316,-294
+2,43,97
+1,363,-639
+2,-603,-197
+1,146,457
+1,267,-159
+1,1,-339
+5,70,391
+2,-29,-98
+1,-212,155
+2,12,-618
+1,127,447
+2,-489,-222
+7,1337,239
+1,12,-24
+1,-20,-10
+1,-15,-42
+1,49,85
+1,-61,-3
+1,103,-42
+1,-32,-13
+1,-96,-52
+1,67,165
+1,-109,-90
+2,-15,-10
+2,73,101
+1,-52,-39
+1,259,-47
+1,-61,-147
+1,-92,-40
+1,-76,-23
+1,-50,47
+1,-52,182
+1,113,188
+1,88,-45
+1,123,0
+1,-92,102
+1,3,4
+5,-35,-17
+1,-131,-587
+10,-9,251
+2,74,241
+4,-11,100
+4,61,-323
+2,-166,263
+1,14,-140
+1,-48,60
+1,-67,-33
+7,243,176
+11,60,-185
+24,51,-2664
+2,84,-87
+1,-60,-8
+1,-102,52
+1,92,7
+1,-20,7
+1,59,67
+1,100,116
+1,-148,-288
+1,-43,211
+1,214,-62
+1,-161,-58
+4,27,184
+3,-738,-937
+1,531,56
+1,-399,366
+1,28,18
+1,763,-169
+3,-473,480
+1,-382,-594
+2,779,149
+1,-124,1170
+1,155,-1087
+1,-2,247
+1,-349,-340
+2,4,893
+1,220,-156
+3,-34,586
+3,29,-1070
+1,-33,579
+2,-463,-455
+1,169,740
+1,-209,84
+2,633,231
+1,-55,-1349
+1,142,83
+3,-493,383
+1,-310,794
+2,232,-1126
+1,-441,1165
+1,715,-1436
+1,-7,823
+38,25,-242
+2,-225,-1407
+2,-109,85
+1,136,46
+1,14,-162
+2,-1,-122
+1,-41,36
+1,184,42
+1,-389,285
+3,354,-458
+7,330,504
+1,-115,176
+2,423,157
+1,-553,-33
+1,462,-638
+1,101,353
+1,-244,-425
+1,-94,219
+2,-197,347
+1,368,-185
+1,-73,334
+1,137,-1124
+2,-202,71
+2,-213,221
+1,76,494
+1,-29,-715
+1,439,604
+2,-235,517
+1,186,-100
+1,-635,-543
+1,733,455
+1,-123,-34
+2,-177,8
+1,-403,5
+6,371,-745
+1,-824,657
+3,546,-880
+1,403,1232
+1,-455,-1100
+1,253,230
+1,66,237
+1,253,-369
+1,-873,774
+1,380,-283
+35,41,-1758
+1,-20,-4
+1,51,13
+1,13,28
+1,-18,-75
+1,-63,-111
+1,-53,-6
+1,12,61
+1,119,-23
+2,-64,49
+1,-7,-8
+2,133,76
+12,-33,-143
+4,98,346
+1,301,327
+2,-285,-631
+1,-85,38
+1,436,-60
+1,-214,748
+3,29,121
+2,-384,-2
+1,113,-63
+2,-82,-177
+3,40,66
+1,-53,64
+2,-32,243
+11,-40,-771
+2,50,92
+1,338,243
+1,165,-363
+1,-469,253
+1,496,460
+1,-43,-1043
+1,-467,747
+1,381,-255
+1,-119,-213
+6,68,-183
+1,-233,931
+1,-62,-126
+1,61,59
+3,98,-457
+18,-956,4647
+2,4,-25
+2,26,-23
+1,3,-71
+1,-35,25
+1,-63,21
+1,188,115
+1,-131,-60
+2,2,-11
+3,176,-132
+1,-37,-13
+1,-474,425
+1,232,-447
+1,216,-347
+2,-327,237
+1,471,324
+3,-685,-688
+1,209,96
+2,229,-264
+3,76,1050
+3,-364,-141
+5,-133,-468
+1,326,651
+1,90,-168
+2,170,-397
+5,-317,-603
+5,243,836
+3,83,458
+2,25,-472
+6,-403,195
+2,265,229
+1,-224,-311
+1,-233,-171
+1,375,-115
+11,-57,-484
+1,-148,859
+2,-153,-555
+3,82,495
+6,-27,-897
+1,297,387
+1,182,641
+2,-408,-325
+1,528,43
+4,-1262,1056
+1,378,-257
+1,-390,106
+4,10,206
+1,24,45
+1,-186,311
+3,234,-589
+1,145,224
+1,-219,-88
+6,371,37
+3,2,70
+1,22,79
+1,-171,-25
+1,-32,-429
+4,-202,337
+2,99,241
+3,139,-637
+1,27,250
+2,-12,301
+6,80,-32
+2,-214,-133
+4,-62,3
+1,-79,-15
+3,57,446
+3,89,-712
+2,50,728
+4,116,-403
+1,-105,243
+1,-172,-133
+1,-17,151
+1,379,-489
+1,-331,-24
+3,119,240
+2,-60,71
+2,12,370
+1,35,-607
+2,-29,-246
+1,-46,315
+1,-199,635
+4,446,-937
+5,-375,365
+3,9,51
+4,17,455
+2,99,-742
+3,-182,214
+2,14,26
+1,23,-46
+1,-49,-12
+1,-18,46
+1,42,59
+1,26,-143
+1,-118,59
+1,160,-44
+1,-101,-19
+1,-37,124
+2,85,-2
+2,31,130
+1,-12,-48
+1,2,-250
+1,-136,22
+1,123,332
+1,-196,-340
+1,109,190
+2,-101,-55
+1,148,102
+1,43,54
+1,-149,-135
+1,99,155
+1,-53,-55
+1,-85,-343
+1,95,421
+1,-87,-31
+1,94,94
+2,28,-403
+1,-116,-30
+1,-24,102
+2,106,7
+60,82,779
+2,-491,6
+2,23,40
+1,-69,-234
+1,-2,216
+2,-10,-80
+1,-65,-18
+1,-56,38
+11,542,72
+2,-69,-154
+3,-121,132
+1,131,-209
+1,81,12
+4,-144,181
+3,-185,-88
+1,11,64
+2,30,45
+3,35,-146
+8,-451,122
+1,150,68
+1,71,-9
+1,-37,67
+1,376,-156
+1,144,-29
+2,-175,-103
+3,-495,300
+1,651,-273
+1,-804,360
+2,-58,21
+1,135,-10
+3,-31,-323
+1,28,262
+1,-122,-55
+2,161,59
+6,92,-104
+25,-3011,-248
+3,1226,666
+5,-77,-10
+1,-151,-133
+2,33,-22
+1,-4,31
+1,43,-32
+1,36,-15
+1,-47,-13
+2,18,-63
+1,116,273
+1,-9,-33
+1,4,-34
+1,-9,43
+1,-26,-68
+1,38,-33
+1,-38,-36
+1,38,-15
+1,-38,-44
+1,27,0
+1,-23,-54
+1,-506,-114
+1,39,7
+1,6,110
+1,-52,-18
+1,-7,-364
+1,-50,373
+1,-520,-299
+1,324,285
+2,272,16
+1,-953,-1524
+2,120,419
+1,5,242
+7,80,274
+1,-29,-34
+3,1187,763
+1,40,-21
+1,1,35
+4,286,123
+2,6,30
+1,11,-118
+1,26,94
+1,-4,-145
+1,-21,90
+1,53,-56
+1,-90,12
+1,20,57
+1,-1225,-372
+1,1235,262
+2,52,85
+3,21,-90
+25,-539,73
+8,-19,68
+13,44,-184
+3,-21,79
+1,-5,-64
+1,35,96
+1,-37,1
+1,-22,5
+1,14,-5
+1,-3,19
+1,11,11
+1,-46,-61
+1,22,-36
+1,14,35
+1,20,30
+1,24,38
+1,43,-11
+1,-75,26
+1,38,16
+1,34,-3
+1,-45,-116
+1,-104,-44
+1,61,-14
+1,-10,78
+1,-32,-38
+1,130,34
+2,-137,75
+1,138,-43
+4,34,75
+1,-148,-179
+1,-70,14
+1,-60,-46
+1,31,32
+2,294,176
+1,-39,-48
+1,35,4
+3,-195,-179
+1,91,47
+1,60,75
+1,8,27
+1,50,-6
+1,-385,-235
+2,229,85
+1,-85,7
+1,60,-1
+1,-25,-48
+1,-79,46
+1,-59,-46
+1,236,-15
+1,123,242
+1,4,39
+1,-64,-10
+1,-115,-250
+1,-82,-5
+1,59,0
+1,-30,-48
+1,-76,42
+1,-127,-188
+2,46,261
+1,-16,-11
+3,148,-121
+1,9,-113
+2,-66,29
+105,473,427
+3,20,9
+1,12,-4
+1,13,9
+2,23,9
+1,-3,-68
+2,-42,0
+1,-56,-9
+1,64,-45
+1,-84,3
+1,19,71
+1,15,32
+1,11,-107
+2,68,2
+2,32,-44
+1,-63,-6
+1,2,-45
+1,-40,46
+1,-1,-49
+1,-1,-50
+1,116,6
+1,-156,95
+2,-9,-57
+1,-1,-40
+1,-53,-90
+2,177,326
+17,-4,-141
+37,-63,21
+13,599,187
+2,88,-9
+1,-23,13
+1,-111,5
+1,-6,-34
+1,94,1
+1,83,39
+1,-125,-44
+1,130,9
+1,-131,-117
+1,88,-13
+1,-139,66
+1,-17,-99
+1,13,123
+2,60,3
+1,153,-42
+8,-339,83
+2,-183,-146
+2,252,-350
+1,-228,472
+1,-31,25
+1,3,-77
+1,36,-9
+1,143,107
+1,-3,-46
+1,-14,-41
+1,467,-376
+2,-438,-520
+1,-227,946
+1,-1,-47
+2,147,65
+1,-1,-28
+1,1,-75
+3,136,-51
+6,461,72
+3,-118,34
+2,-318,72
+1,1,-37
+1,-43,21
+1,17,-57
+4,3,-47
+2,393,67
+1,-205,-272
+1,133,-817
+1,-377,1009
+1,-37,-3
+3,298,-461
+1,118,577
+1,21,-185
+2,-255,223
+3,-222,-24
+1,-9,-72
+2,-106,19
+1,64,26
+6,64,-617
+3,-67,540
+2,-14,-54
+5,1369,-2056
+7,191,-23
+1,-45,3
+2,750,127
+1,1,172
+7,137,-78
+2,-376,-191
+2,-91,83
+2,-357,-30
+3,-66,41
+4,-90,-200
+4,1032,187
+2,-588,52
+1,-28,-88
+1,2,43
+1,-31,-139
+1,43,-54
+1,20,80
+2,-478,155
+1,356,-346
+1,-5,32
+1,-161,143
+6,186,-295
+2,-1,91
+1,-4,96
+4,-144,289
+2,69,-22
+1,-108,52
+1,-57,-21
+2,-72,-179
+1,-155,-163
+2,72,59
+1,-46,38
+1,618,105
+2,-26,-40
+2,-451,-58
+1,-63,74
+5,207,-13
+1,723,262
+7,-626,-251
+2,-161,41
+2,-54,16
+1,642,141
+1,-836,-200
+4,261,-171
+1,32,-8
+1,31,9
+1,-66,25
+1,-7,-44
+1,21,-45
+2,-22,4
+1,55,137
+1,-107,-128
+1,160,56
+1,33,2
+1,-79,-58
+1,-4,-76
+1,-136,47
+1,174,143
+1,36,-106
+1,-140,119
+1,126,-34
+1,-212,-98
+3,231,-17
+1,-13,-30
+1,-3,-39
+3,-142,88
+5,88,-39
+1,11,-70
+2,24,255
+10,107,45
+54,-381,-315
+1,76,2
+1,-30,11
+1,-21,-9
+1,-62,-11
+1,8,-112
+1,1,28
+1,72,-74
+1,2,66
+1,-28,2
+1,-50,43
+1,-4,20
+1,53,-10
+1,27,-1
+1,-149,-45
+1,214,70
+28,-73,-120
+11,173,-10
+1,-34,-11
+3,30,82
+1,-70,-2
+1,127,-10
+1,-125,47
+1,95,-66
+1,-66,2
+1,38,-4
+2,0,-82
+3,-60,23
+1,-9,45
+1,-62,-38
+1,38,42
+1,2,-73
+2,-34,2
+1,3,65
+1,36,-38
+3,-50,84
+1,21,7
+3,32,-142
+1,41,16
+15,103,934
+2,-26,-36
+2,85,18
+4,107,-38
+1,-72,-83
+1,-151,23
+1,-8,122
+1,-24,-32
+2,94,-72
+8,46,185
+2,-467,354
+2,198,-58
+3,65,-294
+4,-252,-102
+1,157,-60
+2,406,385
+1,-177,-22
+1,-43,-145
+1,35,-150
+1,-271,137
+2,-6,255
+1,358,-76
+3,-287,-233
+1,473,314
+1,-50,-561
+1,-101,338
+1,-80,105
+1,-786,248
+1,642,-208
+1,-45,176
+1,-65,50
+1,64,-69
+1,-496,262
+1,886,-391
+1,-360,-70
+1,-66,-378
+5,-385,43
+2,347,761
+1,487,-652
+2,-765,486
+2,2,-178
+1,66,-235
+2,-148,280
+1,2,162
+1,559,-280
+3,10,-159
+1,57,75
+3,-68,21
+6,-528,-43
+6,795,144
+1,35,-110
+1,-404,373
+3,-1258,-565
+2,59,-23
+1,-107,-39
+1,93,181
+2,-104,-106
+1,-54,-110
+1,210,14
+3,-185,140
+1,-21,129
+1,45,-327
+2,80,183
+1,109,-5
+2,-192,-57
+1,186,267
+1,30,-617
+1,-120,76
+2,-111,-20
+4,-105,500
+2,131,290
+1,-137,-507
+4,327,496
+1,-139,-141
+8,337,109
+2,-103,-832
+1,33,4
+1,101,126
+2,-70,108
+2,70,-53
+1,14,-115
+1,25,91
+1,-209,127
+1,-279,-128
+1,-77,22
+3,619,688
+5,-611,-352
+1,115,-70
+1,-111,22
+4,167,112
+1,10,82
+1,-48,-112
+1,-42,129
+2,32,-85
+4,386,-364
+1,-101,-161
+1,-23,541
+1,153,-343
+7,-377,64
+1,5,-61
+2,39,-41
+108,-623,270
+1,87,-18
+1,54,-4
+1,-41,62
+1,40,-24
+3,56,-43
+1,-5,44
+1,62,-24
+2,-182,49
+1,-77,7
+1,-90,159
+2,235,-138
+1,-71,162
+2,146,-168
+1,49,135
+14,48,-250
+1,7,96
+2,-327,345
+1,-227,28
+1,36,-27
+1,75,-273
+1,98,582
+1,291,-205
+3,-404,-409
+56,1491,-771
+1,2,72
+1,37,-115
+2,43,-76
+2,-44,5
+1,48,64
+1,18,-139
+1,-67,25
+1,16,247
+1,40,-23
+3,-20,-280
+1,61,-49
+1,-44,30
+2,85,442
+2,5,-289
+1,-42,45
+1,-555,169
+1,-61,30
+4,477,-336
+1,-209,160
+2,75,-33
+1,59,45
+1,-45,-5
+1,89,-80
+1,0,80
+1,-43,-83
+1,13,45
+1,-103,44
+1,75,-50
+1,34,167
+1,-94,-20
+1,9,-167
+1,141,13
+7,169,-57
+1,-192,413
+15,-176,370
+1,-113,-152
+1,43,27
+1,-42,-34
+6,62,-462
+10,-57,-18
+1,12,334
+1,-49,-142
+1,-4,136
+1,35,-26
+2,27,-76
+1,-12,-120
+1,-67,-24
+127,2016,320
+8,-96,-609
+1,-90,-14
+2,273,131
+1,-75,156
+1,-72,-154
+1,2,91
+2,-261,144
+6,187,-88
+3,50,-42
+1,-222,-99
+2,18,-102
+1,340,-66
+1,-277,425
+2,-69,-110
+1,135,46
+8,-82,-153
+4,115,-8
+5,272,409
+1,-39,-45
+1,-53,130
+1,-111,-191
+1,156,-23
+1,99,49
+1,-164,-40
+3,167,93
+1,-162,15
+1,32,-216
+1,118,35
+2,-299,177
+3,-164,-515
+1,438,672
+3,-221,-99
+7,34,-696
+103,-444,365
+1,-86,89
+2,-24,-151
+2,-10,-163
+1,127,-20
+1,-112,63
+1,-4,45
+1,-109,-3
+3,189,-31
+1,88,28
+23,-339,49
+1,-34,-65
+1,-9,107
+13,-24,-321
+1,3,56
+1,54,59
+1,-87,-26
+6,410,394
+6,-235,-405
+1,-93,-45
+1,63,101
+8,-311,-64
+2,378,0
+2,-332,-104
+2,-3,17
+1,-7,34
+1,12,38
+3,50,5
+1,7,-78
+1,44,36
+1,-1,-44
+4,-185,82
+3,28,-103
+7,658,1080
+6,-173,-43
+3,-122,-59
+1,232,87
+14,-14,25
+2,251,-196
+3,-331,382
+2,62,-347
+1,98,59
+2,-764,704
+2,373,-328
+2,23,72
+1,-33,6
+2,-59,-93
+1,72,-149
+1,464,-292
+5,-169,-23
+3,-17,227
+2,-395,194
+1,-88,66
+1,453,-210
+1,22,95
+1,178,-387
+7,-513,627
+2,24,166
+1,-108,-146
+1,1,276
+12,685,-1064
+1,-363,523
+1,2,-80
+1,395,-171
+9,-150,-37
+148,-1272,1275
+1,45,192
+1,-49,-14
+2,13,74
+1,-23,-31
+1,88,-88
+1,-235,121
+1,-47,-85
+3,-152,-117
+1,177,257
+15,203,-666
+2,-329,-5
+7,244,542
+1,-18,60
+1,-51,-41
+1,-75,22
+2,79,-71
+1,-38,-95
+3,-142,135
+4,52,106
+2,-12,68
+1,-138,-83
+7,6553,-6223
+1,3,-500
+1,-183,-216
+1,-202,422
+3,-304,847
+3,985,-577
+1,-546,256
+2,969,-242
+3,-23,-130
+1,-897,-320
+2,-73,-5
+1,136,-129
+8,630,533
+1,-835,221
+1,659,-677
+1,-1024,-271
+1,146,314
+1,597,52
+4,-538,187
+2,-172,-399
+1,380,465
+1,-44,296
+1,-455,-306
+1,109,143
+3,1041,-82
+2,-743,11
+1,372,191
+1,475,-656
+1,-564,728
+1,649,-421
+2,29,-175
+1,57,204
+2,-679,-198
+1,-83,-19
+1,244,-71
+1,99,-3
+1,-343,101
+4,134,88
+2,405,89
+1,-319,-106
+1,-601,782
+1,557,-920
+1,-429,-137
+3,799,291
+1,-697,388
+1,614,-312
+1,-689,-158
+2,-91,761
+1,1046,-441
+2,-1228,-144
+2,1330,155
+2,-1360,502
+2,837,-707
+3,-269,218
+2,106,463
+1,272,-519
+1,247,-412
+13,-858,-51
+1,413,615
+2,-471,-392
+1,-80,-25
+1,588,122
+1,-63,-123
+1,-141,-142
+1,111,256
+1,31,357
+1,272,-29
+3,-619,-291
+1,311,453
+1,98,-366
+1,-240,-321
+1,61,638
+2,81,-799
+1,81,944
+2,115,-402
+2,-201,399
+1,-749,-91
+7,211,-269
+3,705,103
+1,-379,-78
+1,340,-515
+1,-516,836
+1,-50,-35
+1,-70,-94
+9,243,228
+11,-492,-635
+1,974,51
+1,-190,132
+2,781,52
+1,-954,9
+2,-66,90
+1,857,-557
+1,-440,120
+1,-207,-31
+2,-620,522
+1,108,-779
+1,235,598
+1,-92,29
+2,-87,-663
+15,348,363
+1,4,-31
+1,-27,33
+1,75,95
+1,-2,-112
+1,-71,-54
+1,-32,68
+1,77,142
+1,-86,-199
+1,92,115
+1,-41,9
+1,64,-148
+1,79,188
+1,-231,-85
+1,188,26
+1,-99,-131
+3,-58,-5
+1,74,129
+1,-36,35
+1,40,-210
+2,-129,103
+2,57,-80
+1,8,128
+4,45,-7
+1,31,-3
+1,75,159
+7,-190,-26
+1,16,-71
+1,-88,-83
+5,154,22
+5,7,-50
+147,-335,-762
+3,36,132
+1,-95,-57
+1,219,72
+35,-482,-263
+1,197,-455
+1,-285,175
+1,560,718
+2,-120,-457
+1,69,-418
+5,3,479
+1,-119,315
+3,-98,-41
+1,240,-358
+1,98,-37
+1,-610,-466
+1,-70,80
+1,695,-18
+1,-485,275
+1,122,257
+1,-269,-463
+2,464,226
+3,-245,120
+1,-442,-268
+3,707,482
+1,-328,-6
+1,498,29
+1,-201,-18
+1,-282,-661
+3,142,442
+1,307,-248
+6,-191,499
+3,4,310
+1,-281,-860
+10,884,801
+2,116,-8
+1,-43,134
+36,325,-22
+1,-138,19
+1,-377,-507
+1,507,-77
+1,-251,-259
+1,-318,86
+1,-37,386
+2,451,-205
+1,-233,187
+1,-78,403
+2,328,-983
+1,54,760
+1,-241,-289
+1,-215,-151
+4,241,88
+4,85,-172
+1,262,62
+1,-22,282
+5,-73,-430
+1,205,49
+1,-168,661
+1,-300,-267
+1,-346,-419
+1,481,381
+1,-448,-555
+1,504,544
+1,-112,133
+1,-355,135
+1,76,60
+1,659,-442
+1,126,-382
+2,-667,1007
+1,600,-741
+1,-545,-311
+1,-78,683
+5,-53,-640
+1,611,7
+1,-434,311
+7,686,771
+2,-71,37
+7,420,-261
+1,-181,148
+2,46,202
+1,39,-198
+1,-197,204
+1,78,-1143
+2,-99,714
+1,-258,153
+1,548,132
+1,-596,293
+1,12,-172
+8,478,-761
+2,-17,-21
+1,68,-115
+1,48,188
+6,-483,664
+3,232,-258
+2,221,-287
+1,-214,-49
+1,288,421
+1,-9,-262
+1,-334,507
+1,-178,-437
+1,14,-171
+1,386,170
+1,-314,-554
+1,-38,243
+6,263,-76
+1,11,134
+9,-305,834
+1,205,-221
+1,-20,-456
+1,-63,268
+1,84,-621
+3,283,-266
+62,16,1234
+1,-4,1014
+1,-235,-686
+3,-117,558
+1,330,-275
+1,-114,174
+1,-334,-293
+1,234,-96
+1,93,-363
+1,134,169
+1,-145,313
+1,-47,296
+2,-249,-636
+1,-5,498
+1,134,-700
+1,141,74
+1,-74,-3
+1,157,201
+1,-324,162
+1,368,-21
+2,-300,-68
+1,121,160
+1,-37,493
+1,171,-480
+2,-83,198
+1,-186,-3
+2,-59,100
+1,398,57
+1,-46,-760
+1,-126,481
+1,-222,-479
+1,118,454
+25,64,-314
+1,-49,11
+1,-113,36
+2,144,-103
+1,59,-62
+2,-133,28
+2,170,53
+1,-4,99
+5,-61,-128
+8,-93,-120
+72,108,100
+5,-705,719
+2,-22,88
+1,45,-145
+1,-110,68
+1,-34,-173
+1,-36,77
+43,359,-243
+1,96,115
+1,-294,-165
+1,-243,138
+1,281,116
+2,56,-90
+1,50,-50
+1,720,551
+1,-671,40
+1,-116,40
+1,175,-280
+1,-5,-191
+1,61,110
+3,435,224
+1,-401,5
+1,82,-92
+3,-20,-157
+1,-465,-277
+1,353,672
+1,19,-458
+1,77,-62
+1,-99,-250
+2,302,593
+1,187,116
+1,-658,-777
+1,550,749
+2,-549,-125
+1,346,208
+2,-14,-282
+1,-592,-402
+1,645,445
+1,40,162
+1,-531,-670
+13,-1623,-425
+2,-556,994
+1,753,-992
+2,-145,163
+1,-898,236
+1,62,516
+3,637,-166
+3,-447,564
+1,-171,-143
+3,819,-758
+2,125,-90
+2,40,370
+1,-118,-305
+1,230,210
+1,-797,947
+1,-493,-1201
+1,697,452
+1,-333,-929
+1,399,1092
+1,-250,-801
+1,-326,-200
+1,-51,660
+1,168,-15
+1,185,-36
+1,-206,-456
+1,-360,131
+1,878,666
+1,-102,-849
+1,-253,342
+1,-62,-132
+1,316,26
+3,-239,50
+1,141,-136
+1,-283,928
+1,-36,-685
+2,919,-202
+1,-504,436
+1,-141,595
+1,424,-912
+3,-91,275
+7,-71,-5
+2,176,-334
+1,37,-137
+2,-419,396
+2,-391,-233
+4,671,474
+3,169,-19
+1,-780,-55
+1,945,-286
+1,-801,386
+1,-108,-57
+1,584,271
+5,33,-33
+1,-263,15
+2,593,-817
+1,-136,322
+1,-119,63
+8,-113,-164
+3,20,-20
+1,-187,41
+1,138,20
+1,31,-22
+1,-45,-122
+1,47,163
+1,61,-18
+1,-110,-15
+1,44,-93
+1,-1,22
+1,25,96
+1,2,-1
+1,-135,28
+1,106,70
+13,-1,-150
+71,1270,415
+2,-64,50
+2,117,47
+1,33,-31
+1,-49,113
+43,81,-189
+1,-538,37
+4,-45,120
+1,-136,32
+2,432,-12
+2,110,-284
+2,205,533
+1,-326,108
+1,130,-191
+1,251,-234
+1,-494,36
+1,-159,-198
+1,300,18
+1,245,545
+2,41,-635
+1,166,418
+1,-402,223
+1,-366,18
+2,-53,-214
+1,635,-241
+1,-450,288
+1,561,-363
+1,-486,498
+21,-2246,-17
+2,125,20
+2,-60,-107
+5,390,287
+1,5,-478
+1,-437,452
+1,17,-559
+1,-152,17
+2,148,-87
+1,459,474
+1,-465,-561
+1,162,802
+1,-282,-170
+1,161,20
+1,47,-437
+1,170,-336
+7,-120,214
+10,-252,-36
+3,5,773
+1,40,-589
+1,265,400
+1,191,-629
+4,-207,443
+1,76,-411
+1,-161,297
+1,214,261
+7,-12,-268
+2,-116,-63
+8,-216,518
+1,195,-384
+2,189,457
+1,53,-401
+1,-494,-50
+1,173,270
+25,218,-1680
+19,-292,398
+1,152,44
+4,436,-687
+1,-620,120
+6,156,38
+3,569,-415
+1,-104,-209
+3,-347,316
+2,-380,90
+1,45,898
+2,579,-1107
+1,-218,11
+1,346,-271
+5,-105,-95
+2,-487,1686
+1,154,-1070
+1,-340,849
+1,558,-476
+4,-46,-478
+7,-247,1053
+3,237,-1311
+1,117,334
+2,-312,6
+1,110,600
+1,-41,-594
+1,-34,672
+1,-268,481
+3,255,-1571
+1,430,255
+1,-133,-254
+1,-591,963
+19,100,-821
+1,9,30
+2,-206,-548
+2,-92,271
+2,-453,-507
+2,-101,506
+1,694,-275
+1,156,26
+5,316,-275
+3,-503,80
+1,116,-88
+1,-713,84
+1,1432,180
+1,-912,-10
+1,-281,157
+1,92,-18
+1,-462,-356
+1,1037,-41
+1,-869,723
+2,73,-305
+3,-97,134
+3,1273,-416
+1,-308,-251
+1,100,718
+1,-971,-670
+1,-208,595
+1,952,285
+1,-747,-774
+1,1014,368
+2,-1237,217
+1,1228,-316
+1,-1069,520
+1,838,-279
+1,-612,-17
+2,597,-345
+2,-834,319
+1,805,-191
+2,416,-364
+1,-1052,424
+1,516,-145
+1,-797,478
+1,749,-99
+2,-567,-245
+3,154,358
+1,-112,-715
+1,1036,184
+2,-693,-22
+1,1,51
+2,-355,581
+1,267,-795
+1,-245,509
+2,214,-8
+1,373,-15
+1,-631,84
+1,876,-316
+1,-837,-154
+1,849,-22
+1,-168,-194
+1,225,305
+2,-588,-266
+15,-138,310
+1,-14,-13
+1,-2,-15
+1,-80,-23
+1,67,-15
+1,30,0
+1,-17,-194
+1,-22,137
+1,77,90
+1,33,-4
+1,-17,-36
+1,57,-74
+2,-180,117
+2,85,-25
+1,22,-75
+1,-141,-27
+33,100,117
+11,41,-29
+25,-41,-79
+5,-70,38
+2,5,-131
+6,1865,1224
+2,-69,144
+17,-262,-434
+2,-83,-224
+1,-14,277
+3,-108,-5
+1,-49,-735
+1,258,551
+4,248,-409
+4,-332,131
+2,336,136
+2,206,-212
+1,-596,825
+1,425,-740
+2,229,153
+4,-418,-182
+1,284,931
+1,239,1
+1,-986,-728
+1,495,945
+1,-462,-476
+1,320,-594
+2,535,402
+2,-53,410
+1,-234,-400
+2,-331,349
+2,203,-1040
+1,-162,-4
+1,473,463
+1,-633,435
+1,290,-118
+1,-360,192
+1,108,-539
+4,298,167
+2,-98,430
+1,543,-786
+6,-633,-173
+1,114,302
+1,-297,-222
+1,358,1011
+1,153,-659
+4,305,574
+2,182,-8
+1,-95,-90
+8,-121,1621
+3,-168,37
+26,1,-146
+2,48,-92
+17,16,97
+1,188,-167
+1,-637,575
+1,607,-198
+1,48,-489
+1,-53,579
+1,277,-119
+1,-768,313
+2,62,-313
+2,-48,-116
+1,616,-425
+1,13,394
+1,-15,191
+2,-286,-325
+1,-38,-123
+1,-67,688
+2,-78,-41
+1,63,-55
+1,-325,-37
+3,406,-42
+1,-245,32
+2,254,66
+2,158,-443
+22,-309,-2603
+3,-321,-114
+3,337,-88
+1,-565,112
+2,358,78
+2,11,-147
+1,-281,-141
+2,-2,87
+1,283,311
+3,-473,-234
+2,169,100
+1,359,34
+3,135,-35
+85,4140,1075
+2,-501,1103
+1,-19,-624
+1,-179,-3
+1,424,-459
+1,-333,978
+2,-333,-97
+1,-240,-498
+1,243,302
+2,881,90
+1,77,-1466
+2,-639,475
+1,-257,1201
+1,303,-678
+1,629,-1067
+1,-585,583
+1,229,1327
+1,105,-359
+1,148,-716
+1,-780,-541
+1,-108,863
+1,744,-439
+1,-146,-127
+1,-532,910
+3,819,-977
+2,47,-84
+1,-78,171
+3,-709,540
+1,-469,-131
+1,1177,241
+1,72,-91
+1,-188,-949
+1,-70,217
+1,69,7
+3,-296,-36
+2,341,1413
+1,26,-1847
+1,-459,1974
+1,-236,-731
+1,528,-1029
+1,-287,527
+2,-105,182
+2,514,498
+1,-487,-313
+2,72,-133
+3,368,155
+1,81,-70
+1,-7,664
+1,-86,-449
+1,-195,25
+2,-241,-1198
+1,561,127
+1,-132,731
+2,-238,-198
+1,443,1114
+2,-585,-278
+1,69,-280
+1,242,290
+3,-149,-29
+1,-626,-469
+4,477,806
+1,-353,-1910
+1,167,48
+1,91,515
+3,208,-319
+9,-434,1886
+5,610,-958
+3,-329,510
+4,252,-298
+5,-399,160
+1,24,-148
+1,127,24
+1,-48,132
+2,-33,-44
+2,144,-1585
+1,-77,1271
+2,-32,-828
+1,354,898
+2,-375,-1045
+1,751,953
+1,-203,-811
+1,-288,483
+1,-818,371
+1,1076,739
+1,24,-1115
+2,172,534
+1,-768,305
+1,732,383
+1,-232,-233
+2,-545,-512
+7,-308,70
+5,835,-990
+1,-373,1688
+1,45,-743
+4,406,-781
+1,179,462
+2,-829,-49
+1,605,-995
+3,0,103
+1,-511,880
+1,-192,335
+1,623,-931
+2,-739,1219
+1,582,142
+1,-24,-1720
+1,534,1643
+1,-453,-976
+1,337,517
+1,-202,-150
+1,-456,789
+1,683,-1488
+10,-339,752
+2,-17,-11
+1,-43,14
+1,6,-95
+1,66,139
+1,53,-46
+1,-54,-33
+1,-27,-150
+1,-2,227
+1,-82,10
+1,67,-79
+1,33,34
+1,2,105
+1,-87,-172
+1,133,108
+1,-106,70
+1,62,-261
+1,-5,135
+1,-98,-10
+1,-9,-179
+7,138,169
+4,-56,0
+6,25,24
+63,-749,984
+1,-401,773
+1,427,382
+2,15,-1062
+1,-361,-490
+1,68,1566
+1,178,-368
+1,-41,253
+1,-49,31
+1,-149,-211
+1,122,47
+1,150,-821
+2,-329,643
+1,-45,322
+1,29,287
+1,148,-1537
+3,323,972
+1,0,183
+1,-406,8
+1,144,-1170
+1,13,1382
+1,-213,222
+1,376,-1011
+1,-379,-963
+1,355,1897
+1,-112,-1671
+1,36,1595
+1,285,-414
+1,-453,590
+1,17,-2220
+1,-96,176
+1,240,1472
+1,478,81
+1,-357,-359
+1,-56,-422
+1,-352,112
+1,198,447
+1,164,-874
+1,-217,735
+2,-150,-991
+2,46,590
+1,59,-818
+2,-128,1079
+1,106,92
+1,178,-1093
+1,-155,1368
+1,383,638
+1,3,-1732
+1,-280,255
+1,365,-94
+2,-390,-486
+1,234,150
+1,-350,1597
+1,-57,-24
+1,90,-375
+2,248,-460
+1,-30,-314
+1,281,604
+2,-414,762
+1,153,-237
+3,48,-392
+1,-242,-569
+1,-15,-228
+1,-103,-68
+1,165,596
+2,73,167
+1,-214,-560
+1,616,878
+2,-476,-1036
+2,126,1685
+2,-63,-1493
+1,77,-477
+3,-258,1844
+3,446,-1507
+2,-537,358
+1,206,-15
+1,-27,-620
+4,-134,822
+1,1,22
+1,-20,21
+1,102,-110
+1,-57,137
+1,-71,-44
+1,29,-22
+1,-21,-24
+1,-8,22
+1,25,84
+1,-30,3
+3,128,-54
+1,-26,124
+3,-47,-264
+2,-25,267
+29,22,-158
+151,1289,2994
+3,-39,-65
+10,2,16
+1,97,-85
+1,-175,-300
+1,301,386
+1,-64,157
+2,90,115
+20,-223,119
+1,-127,-689
+1,331,-63
+1,-160,605
+2,192,-540
+5,-475,193
+6,312,-162
+1,-383,70
+1,243,409
+1,20,-354
+1,247,-66
+3,-64,83
+1,45,-21
+1,71,-63
+15,-4,847
+1,-317,-895
+1,42,329
+1,153,470
+3,-13,-527
+1,-261,252
+1,366,214
+2,-294,-676
+1,117,804
+1,-183,-549
+2,199,25
+7,-592,-1708
+4,435,-23
+3,104,693
+1,-164,-348
+1,-9,-653
+1,123,1273
+2,-200,-89
+1,150,-1120
+1,322,295
+1,-452,-210
+3,-79,-259
+2,109,613
+1,-316,614
+1,155,-1613
+1,579,1104
+1,-551,317
+1,190,-1417
+1,-303,1787
+2,629,-1010
+1,54,59
+1,-19,965
+1,-221,-1619
+1,29,-67
+4,-596,575
+1,-90,644
+4,5,-703
+1,392,1323
+2,208,25
+3,-331,-1685
+4,631,969
+1,-753,449
+1,316,-932
+1,290,-500
+1,-127,123
+1,-41,301
+3,-157,640
+2,472,-653
+1,-753,-369
+1,147,871
+1,602,558
+1,-174,-1014
+3,-180,-82
+1,-66,-487
+1,-314,326
+1,-45,104
+2,-64,-147
+3,94,307
+2,388,294
+22,-539,-322
+2,-11,99
+1,131,88
+2,293,165
+1,175,-98
+2,-103,788
+1,21,-64
+1,168,-110
+2,-171,-45
+1,58,-81
+4,-47,365
+1,382,-1233
+1,-483,640
+1,-110,370
+4,441,-483
+1,-858,-911
+2,640,521
+1,-197,-548
+1,-35,326
+10,102,-79
+1,441,-174
+2,-498,1496
+2,93,-1402
+1,-425,-32
+1,753,209
+1,-195,591
+1,-183,-366
+2,512,256
+1,-242,-788
+1,-487,669
+1,49,-798
+3,538,1768
+3,-184,-239
+1,1,-334
+1,-505,-158
+1,50,108
+2,65,-171
+1,496,-108
+3,168,598
+1,-52,-589
+1,-416,153
+1,222,-1000
+1,257,1838
+1,-928,-1613
+2,267,977
+1,286,72
+1,-554,-574
+1,876,468
+1,-772,-1147
+1,697,1298
+1,-794,-457
+3,-105,-319
+1,242,331
+1,330,-807
+1,259,1035
+2,-250,286
+1,212,155
+1,264,-1220
+10,-594,438
+7,-15,-103
+3,61,38
+2,-25,189
+1,-12,-104
+1,-18,-33
+1,49,20
+1,55,-4
+1,-142,-83
+1,-3,142
+1,69,-139
+1,-121,-104
+1,68,20
+1,98,269
+5,-64,-104
+2,14,-210
+1,-59,-73
+2,-41,19
+4,249,242
+63,-309,-5211
+1,-524,-553
+2,120,-57
+2,282,669
+1,470,-349
+1,-921,439
+3,231,-714
+1,136,443
+3,-51,-553
+1,-378,64
+1,-114,106
+1,72,-112
+1,422,134
+2,309,448
+2,-395,-780
+1,562,579
+4,-854,-247
+1,59,-192
+1,744,206
+4,-72,386
+2,-587,-387
+1,470,220
+2,-740,213
+1,822,-297
+1,-227,-192
+1,-499,538
+2,62,329
+2,-169,-436
+1,1020,-303
+2,-676,9
+1,426,311
+2,-726,309
+1,238,-1023
+1,8,67
+3,-284,515
+1,406,-457
+1,658,576
+1,-907,-265
+1,-141,734
+2,678,-858
+3,-669,95
+1,5,492
+1,176,-293
+1,198,-35
+1,484,121
+5,-558,81
+1,-258,-298
+1,1205,-8
+2,84,5
+1,-206,-50
+23,-1051,-536
+1,-23,51
+1,18,-31
+1,-50,-2
+1,69,14
+1,7,59
+1,-139,-190
+2,73,210
+1,37,-32
+1,-44,-165
+1,-8,155
+1,-43,123
+1,-21,-146
+1,83,103
+1,-80,-21
+1,45,82
+1,44,-8
+2,33,-69
+3,-132,133
+1,102,-255
+1,116,17
+1,-18,100
+3,-159,-66
+1,5,-7
+1,142,205
+1,-38,-66
+1,64,12
+3,-154,50
+1,-2,44
+2,-67,-100
+11,102,-82
+49,1005,1407
+19,-129,-141
+1,251,629
+1,201,-116
+2,-59,-334
+1,-68,-179
+1,155,14
+3,-255,47
+1,-64,-165
+1,58,349
+1,146,-898
+1,-155,281
+2,-213,462
+1,187,305
+1,185,-558
+3,-118,-484
+1,183,726
+1,-121,255
+9,153,-19
+2,-152,-703
+1,66,-288
+1,-133,488
+1,77,734
+1,146,-762
+1,-446,274
+1,184,-571
+1,173,-29
+1,54,99
+40,-841,261
+4,114,85
+5,-440,359
+1,174,311
+2,174,-522
+2,-342,4
+1,802,-201
+1,-12,553
+1,-111,22
+2,99,132
+1,-207,-419
+5,-793,251
+1,178,-24
+1,445,93
+1,-131,101
+1,533,-926
+2,-651,605
+1,708,475
+1,-778,-632
+3,428,-443
+1,97,180
+1,-823,334
+1,353,-164
+1,473,595
+1,194,-205
+1,-245,-639
+1,151,493
+1,-383,-73
+2,-119,9
+1,397,-152
+3,-211,246
+1,-133,-129
+3,255,-241
+1,-346,-119
+1,-387,480
+1,866,-345
+1,-545,408
+2,-61,51
+1,416,-485
+1,-39,674
+2,-630,-127
+1,421,-503
+1,-426,118
+1,443,264
+1,636,-584
+1,-741,695
+1,33,-47
+1,-280,138
+2,380,-82
+1,-364,-348
+1,-29,240
+3,34,-84
+1,615,392
+1,-431,-920
+1,619,-25
+5,-95,707
+1,-91,-33
+1,321,-811
+1,-265,743
+1,-291,-614
+1,-89,-36
+9,171,2006
+24,-213,-948
+24,-373,1139
+1,161,-838
+1,257,677
+1,-382,-800
+1,40,977
+1,609,-530
+1,-666,451
+1,273,-372
+1,-305,-19
+2,161,483
+1,-90,-357
+1,494,-181
+1,-68,-203
+1,-456,-102
+1,219,211
+4,-155,143
+1,-60,-137
+2,9,-504
+1,293,893
+1,-356,-133
+1,497,-60
+1,-256,-791
+1,581,813
+1,-783,191
+1,173,13
+3,-205,-483
+1,741,339
+1,-328,-184
+2,-84,-448
+1,-184,242
+1,545,307
+1,-689,547
+13,1197,1153
+2,-63,27
+1,230,771
+1,-220,-771
+1,14,72
+35,351,98
+1,-222,135
+1,34,51
+1,-240,-502
+1,121,-8
+2,-76,-349
+1,20,217
+1,387,643
+1,-792,-484
+1,788,146
+1,-340,-327
+1,-15,810
+1,48,-157
+1,-363,172
+1,520,61
+2,-398,61
+1,-202,-641
+1,414,-348
+2,130,197
+1,-143,-362
+1,48,266
+1,6,745
+2,-130,-916
+1,305,453
+1,-319,-386
+1,257,533
+1,-324,313
+1,-203,-116
+1,644,-95
+1,-349,-5
+1,409,-401
+2,9,677
+1,-582,-243
+1,-144,-352
+1,441,253
+1,-536,-326
+1,358,-144
+1,-146,335
+2,-265,15
+2,177,-199
+1,581,-117
+1,-161,655
+12,-1806,-4375
+2,369,309
+3,-545,-810
+4,349,926
+1,204,-650
+3,-696,-932
+3,202,117
+1,354,553
+1,-201,114
+1,-278,-92
+1,210,-254
+1,-278,35
+1,185,-175
+2,260,1474
+1,-94,-1598
+1,-65,1196
+2,413,248
+2,-507,-1636
+1,435,611
+1,-149,820
+2,120,-291
+2,184,-563
+2,-642,-380
+2,602,259
+1,0,829
+1,-763,-920
+1,311,-215
+1,-211,0
+1,39,177
+1,677,1075
+3,-432,82
+1,361,-860
+1,-407,1005
+2,448,-819
+1,-604,329
+3,-142,-414
+1,434,569
+2,261,-225
+2,-144,654
+1,72,-1426
+1,-228,163
+1,-165,237
+2,173,11
+2,-158,-368
+1,533,288
+1,-55,70
+1,-618,292
+1,575,744
+2,-194,-1475
+1,-312,828
+3,596,-606
+3,-23,1290
+2,-342,-633
+16,-1290,-1540
+2,173,-25
+17,632,265
+1,-1138,36
+1,290,-132
+1,-30,-154
+2,405,-22
+1,118,83
+4,-72,172
+1,-557,-326
+1,635,405
+1,-14,-9
+3,-97,192
+1,213,47
+1,72,-38
+2,117,-271
+4,-1020,-246
+1,-56,12
+1,988,85
+2,-807,78
+3,298,201
+2,-104,91
+1,-99,-39
+2,140,-237
+3,439,123
+1,-375,-257
+1,-25,524
+1,467,-256
+2,-97,-158
+1,-750,-6
+2,1079,85
+1,-157,328
+1,-129,-501
+2,-102,455
+1,-177,-565
+1,42,315
+1,361,6
+2,-541,-160
+2,129,413
+3,355,-243
+20,314,1982
+3,58,102
+17,-307,235
+3,545,-203
+2,-216,-207
+1,208,606
+1,-87,-623
+1,228,328
+4,182,194
+1,84,-217
+4,-372,304
+1,-690,-1028
+2,492,263
+2,-86,645
+1,-423,120
+2,1013,-129
+1,-439,152
+1,-476,-50
+1,524,-413
+1,-402,-362
+1,-149,90
+1,934,751
+3,-521,-268
+1,144,30
+1,-185,-120
+1,-186,44
+1,419,162
+1,-538,-391
+2,191,137
+1,49,-404
+1,-59,-181
+1,630,613
+1,-420,-85
+2,-242,-63
+1,230,-93
+1,-286,497
+1,265,-868
+2,330,956
+3,-451,21
+2,-334,-960
+1,315,478
+22,-433,-1087
+12,377,414
+1,-267,-85
+1,166,81
+1,-208,38
+1,-291,-631
+3,341,-55
+1,102,-107
+1,-49,493
+1,-555,-341
+1,-88,-224
+1,340,598
+2,513,-409
+1,-274,-265
+1,-130,769
+1,-211,-616
+10,219,113
+1,-262,-332
+2,48,519
+1,232,-503
+2,-388,-14
+1,140,435
+1,559,27
+1,104,466
+1,-447,-772
+1,241,910
+1,-357,-1044
+1,302,402
+1,-511,-288
+3,579,-153
+4,-25,489
+1,-90,-301
+1,177,-129
+1,64,-74
+1,22,797
+1,-215,-727
+1,-460,600
+71,-258,-756
+1,-385,245
+1,-187,-188
+1,-225,-52
+1,-207,574
+2,-171,-77
+1,793,187
+1,-190,-208
+1,-178,44
+4,328,436
+3,19,-1422
+2,-425,584
+1,117,1067
+1,-155,-1048
+1,-353,-18
+2,1105,-454
+1,-1103,906
+1,1132,1
+3,-820,-709
+1,818,1156
+2,-1429,-1593
+2,860,724
+2,-444,183
+1,284,669
+4,-508,-721
+1,1053,299
+3,-989,-231
+1,-107,-347
+3,128,-297
+2,778,17
+2,272,1203
+2,-694,181
+2,256,-312
+1,557,-442
+1,-1314,-1004
+1,1171,513
+11,173,1280
+2,-657,-810
+1,-608,420
+2,864,-1400
+1,-809,1293
+1,1096,-735
+1,-1152,1022
+1,414,-127
+2,-558,-6
+1,-243,-1686
+20,240,1337
+4,72,-772
+1,524,998
+1,531,-201
+2,-814,0
+1,-230,-16
+1,155,-974
+2,220,1400
+1,-162,95
+1,180,-955
+2,322,-333
+1,-122,612
+2,398,-746
+1,180,1165
+2,-384,-877
+4,437,142
+1,-963,442
+1,-261,628
+1,1384,-833
+1,-1104,-86
+3,630,-141
+1,-341,312
+1,-312,-463
+1,1211,870
+1,-694,-1070
+2,196,726
+1,-563,-797
+3,224,71
+6,145,1423
+2,-892,-1009
+1,1479,663
+1,-952,-324
+1,600,-445
+7,-553,331
+1,21,14
+1,-2,-30
+1,-26,-37
+2,89,64
+2,-112,81
+1,136,-201
+1,-74,113
+1,50,57
+1,-126,-137
+1,149,35
+3,-60,64
+1,-37,-49
+1,-72,54
+14,111,70
+37,-36,-103
+3,-113,-73
+29,88,1669
+4,182,-134
+2,-123,-63
+2,217,239
+11,12,-197
+2,-1028,244
+1,816,-420
+1,-772,227
+1,982,-180
+1,41,221
+1,-157,-466
+1,298,423
+2,-554,-159
+2,114,-141
+3,229,508
+1,-232,-771
+1,217,266
+1,-411,-235
+1,1004,222
+2,-22,453
+1,-664,-94
+3,-143,-472
+1,683,26
+1,-905,154
+1,-70,-99
+2,806,-84
+2,-122,643
+2,201,-358
+1,-816,221
+1,74,-417
+2,698,582
+1,-262,-878
+1,-704,578
+1,1130,158
+1,-1604,55
+1,706,-241
+1,308,295
+1,204,-633
+1,-668,220
+1,-257,232
+34,-450,-598
+1,99,-148
+4,-4,79
+15,163,-386
+1,464,455
+1,-778,354
+2,-109,-149
+1,-413,-596
+1,833,-172
+1,162,256
+1,-409,-206
+8,338,560
+2,283,218
+1,-170,-147
+3,24,70
+8,-550,455
+1,-280,30
+3,125,-878
+1,19,643
+3,459,-477
+2,-284,572
+1,28,-324
+2,259,-5
+1,-153,-126
+1,-805,-430
+4,288,49
+4,798,-285
+1,-466,440
+1,232,547
+1,409,-171
+1,-742,-819
+1,488,393
+1,163,148
+1,163,78
+1,-496,-341
+1,-129,-353
+18,-856,833
+2,86,-44
+4,-73,109
+13,-131,-447
+5,113,110
+4,-4,-230
+1,24,709
+1,2,-74
+1,97,-10
+2,-92,55
+6,34,24
+13,-28,251
+3,26,-782
+4,-67,257
+1,334,16
+1,-161,666
+1,-121,-44
+1,-21,-238
+1,207,9
+2,-252,203
+4,60,-716
+1,-169,-330
+1,480,512
+1,-123,-13
+2,-318,-277
+1,615,297
+4,-554,592
+14,-17,-85
+6,1236,-1897
+28,-133,19
+1,22,-388
+1,-392,-289
+2,226,-34
+2,-109,719
+3,41,-547
+3,131,814
+2,-109,168
+2,-111,-780
+2,390,82
+1,-348,327
+4,-67,-80
+1,350,-407
+1,80,723
+2,-97,217
+1,-404,-574
+4,444,-577
+1,-98,798
+1,209,247
+1,-269,-636
+1,315,460
+1,-353,-281
+1,-163,369
+1,566,-665
+1,-540,-572
+32,2243,2858
+1,38,159
+3,156,-95
+25,256,-125
+5,-499,-620
+1,72,544
+1,234,-694
+2,-413,757
+1,477,263
+1,-79,-539
+2,-299,236
+1,243,-681
+1,-282,-170
+1,451,1055
+1,-325,-1121
+3,145,491
+1,126,-48
+1,-172,-58
+1,-39,521
+2,124,-334
+1,149,223
+3,-319,-84
+3,9,29
+4,140,475
+1,-119,-1131
+2,-146,434
+2,285,-261
+1,-312,-25
+1,345,631
+3,145,-358
+37,-2362,4347
+2,-684,193
+2,209,-102
+2,-163,-52
+4,549,-302
+1,194,82
+1,-597,124
+1,887,420
+1,-870,111
+1,-149,-17
+4,392,-801
+2,-297,597
+2,772,-438
+1,-514,191
+3,629,-86
+1,-488,79
+1,461,249
+3,-803,-457
+1,618,147
+5,51,-247
+3,249,-60
+5,-881,240
+2,147,-174
+1,324,470
+4,102,-86
+1,282,-328
+3,-521,517
+7,593,-98
+8,-193,169
+1,11,-274
+11,-822,287
+106,7366,-714
+1,-475,-426
+2,794,137
+1,-138,334
+1,-549,-276
+1,-425,189
+1,889,-374
+1,155,290
+1,-615,3
+1,29,-315
+1,399,49
+5,32,258
+1,-438,-212
+2,216,44
+1,13,-81
+2,138,-228
+1,119,135
+5,8,116
+2,-885,175
+3,871,273
+1,-754,-465
+3,116,349
+1,479,-596
+4,438,310
+1,-670,185
+1,12,-386
+2,-372,161
+1,792,217
+1,-804,-402
+1,-48,92
+3,891,162
+1,-187,-161
+1,74,432
+1,51,-115
+1,-77,-412
+1,-814,116
+1,168,202
+1,-103,-177
+1,-37,96
+2,643,136
+2,15,-158
+1,161,81
+1,-665,78
+1,748,-27
+1,-429,-144
+4,525,266
+1,-454,27
+1,381,-359
+1,-664,300
+26,255,-1188
+3,-361,734
+1,245,-574
+1,94,423
+1,-124,99
+1,-154,-969
+4,-36,390
+2,147,106
+1,199,366
+1,-488,-795
+2,319,593
+19,-197,-325
+2,163,81
+1,-108,-296
+1,-28,116
+1,-103,70
+1,183,4
+4,42,633
+2,-277,-772
+3,346,455
+2,75,-381
+3,-210,443
+1,195,-469
+1,-262,360
+3,247,345
+5,-26,-791
+1,5,51
+4,-153,346
+1,89,-261
+1,94,428
+1,-321,-499
+24,572,670
+1,-1,-13
+1,-12,43
+1,-17,39
+1,34,-19
+1,6,45
+1,-46,-109
+1,-35,31
+1,50,-51
+1,4,-39
+1,32,23
+1,-91,85
+1,-29,-63
+1,42,-6
+1,-4,-53
+1,31,101
+1,-27,80
+1,-52,-35
+1,77,74
+1,-28,-134
+1,78,141
+1,-7,72
+5,-118,-96
+1,-52,-24
+2,108,-35
+10,104,119
+1,-24,-11
+1,-36,54
+2,28,87
+13,-119,-425
+14,-71,18
+8,170,166
+11,-122,107
+8,26,63
+11,-402,744
+1,582,776
+1,-488,64
+1,293,530
+3,-200,-118
+6,-2,-112
+2,311,-918
+4,-664,-462
+2,206,125
+4,237,1143
+2,-342,-246
+1,259,136
+2,0,-788
+3,64,-324
+4,-19,1223
+1,171,-984
+1,145,582
+2,2,272
+1,-101,446
+2,-139,-521
+2,537,-919
+1,-728,303
+1,271,457
+1,-87,424
+1,418,-1131
+1,-309,1047
+1,36,-442
+2,311,-800
+7,-119,480
+1,-312,935
+1,-171,-1293
+2,303,986
+2,-422,188
+3,515,-976
+1,-494,893
+3,193,-942
+2,-269,605
+2,203,647
+3,-87,-1192
+1,116,534
+11,-679,168
+1,280,-287
+1,2,-26
+5,-204,-145
+10,68,-55
+3,208,-316
+12,-252,867
+3,64,-905
+3,122,4
+2,-240,99
+2,327,163
+1,-346,364
+2,121,167
+1,16,-711
+8,-104,438
+4,38,71
+1,192,-157
+3,-11,-519
+4,79,-58
+4,81,1123
+3,30,-445
+6,-323,222
+3,82,-591
+2,-156,811
+3,-4,-787
+13,650,167
+1,-5,-50
+1,36,-11
+1,19,87
+2,-14,-39
+1,14,-15
+1,-64,133
+1,74,-206
+1,70,122
+2,-124,-143
+1,-34,40
+1,-67,153
+1,156,48
+1,-89,-125
+9,47,-12
+10,0,-6
+65,205,-362
+100,-1321,701
+28,334,15
+5,-318,178
+3,81,-173
+3,10,111
+1,112,-82
+3,-101,9
+15,-219,53
+4,-124,131
+6,15,-264
+2,158,152
+30,-5,783
+2,189,-168
+3,-155,126
+1,73,341
+1,46,-335
+2,-74,10
+3,-226,-311
+2,82,359
+1,221,-134
+2,-191,124
+1,-20,-199
+1,-4,283
+3,161,168
+1,-134,-384
+2,217,605
+1,-5,-743
+1,-165,360
+1,-76,-149
+1,-20,-29
+1,-16,2
+9,185,-90
+3,-50,487
+1,163,-409
+1,-273,-163
+2,67,347
+2,47,21
+5,-54,-226
+1,85,477
+1,-207,-643
+2,290,119
+4,5,553
+1,-291,-575
+2,193,220
+3,175,-216
+2,-153,274
+3,-131,-247
+1,178,-73
+28,-128,-129
+1,-58,-199
+3,86,-75
+7,47,317
+1,157,-13
+1,-203,-241
+6,-98,-89
+2,127,57
+4,-19,832
+8,58,-740
+4,-148,32
+1,-207,-218
+1,527,193
+2,-174,-101
+3,2,22
+3,-57,-43
+4,37,67
+5,-128,204
+4,354,-118
+2,-381,377
+1,-163,-394
+7,621,144
+5,-517,-141
+2,285,236
+2,269,8
+1,-345,-202
+1,415,-45
+5,-481,215
+7,-114,-306
+2,142,161
+4,2016,-739
+1,-169,427
+1,-212,-416
+1,114,302
+1,363,-672
+1,-223,414
+1,109,37
+1,-242,-867
+2,-151,568
+1,567,75
+3,-2,28
+1,-85,26
+1,109,-69
+1,-60,-14
+1,-14,-40
+12,-231,15
+1,-371,290
+2,356,-178
+1,-82,575
+1,32,-754
+4,-305,783
+1,237,-460
+1,-246,608
+1,582,-924
+1,-225,442
+1,-152,233
+1,112,-1050
+1,-13,221
+2,378,97
+1,-819,1060
+2,666,-896
+1,-278,-235
+3,-131,909
+1,77,89
+3,396,-568
+4,-141,-160
+1,-344,441
+7,561,-417
+2,27,4
+1,8,17
+1,-27,3
+1,-64,16
+4,37,-383
+3,-384,-172
+2,364,602
+1,-340,-487
+5,215,145
+1,-94,48
+1,-438,1135
+1,505,-1071
+1,-109,-123
+2,-153,166
+1,-23,-407
+3,-120,2337
+1,-50,-79
+19,11,-104
+3,-419,-24
+5,301,202
+3,-64,-167
+3,106,-448
+4,146,537
+2,58,-405
+1,-289,66
+1,57,98
+1,184,46
+2,-240,33
+3,-180,-181
+10,-89,102
+5,278,-182
+2,338,55
+2,-319,351
+1,226,14
+2,-487,-442
+3,660,172
+1,-57,35
+4,-114,-398
+1,-384,486
+1,58,11
+2,341,136
+6,-2,-826
+12,-486,801
+2,-210,301
+1,-45,-210
+10,21,94
+2,-96,-227
+3,197,-116
+3,-173,62
+2,55,306
+2,169,-403
+4,83,287
+1,-270,288
+1,148,-350
+2,-139,-17
+4,33,-203
+2,-15,166
+10,-109,336
+4,176,-267
+1,33,-111
+1,-99,-50
+1,92,77
+3,-87,46
+2,19,123
+1,12,-135
+1,68,84
+1,-165,-37
+2,122,279
+1,-93,-346
+3,39,60
+3,36,-86
+27,-149,-682
+9,-74,242
+1,-66,-472
+3,-135,85
+3,26,426
+15,341,-155
+7,-291,98
+9,-107,-32
+3,-73,-285
+1,490,250
+8,-25,-279
+4,-433,-46
+1,339,32
+1,-82,409
+1,-210,-8
+18,249,-87
+1,-182,-481
+4,-72,415
+7,263,-281
+11,129,375
+13,190,92
+4,-104,-223
+39,-238,465
+1,79,-139
+7,215,-155
+29,-436,728
+2,153,235
+9,-409,-194
+1,101,135
+1,316,24
+3,-479,-281
+2,394,277
+3,-262,-77
+2,111,166
+2,1,-279
+1,198,219
+1,-77,154
+3,40,-91
+3,-318,-266
+1,317,213
+2,-371,-330
+1,80,25
+1,200,267
+1,-109,-20
+3,154,60
+1,48,108
+3,-58,79
+1,-163,-156
+5,106,91
+1,-50,-176
+1,107,77
+2,-52,-152
+1,54,203
+1,-160,-182
+1,14,-189
+2,8,105
+1,-178,-65
+1,381,172
+2,-197,175
+1,161,-94
+1,-66,242
+3,124,-400
+1,-314,-200
+29,296,-74
+1,137,-35
+1,-175,48
+1,-186,45
+1,170,30
+1,-217,-105
+1,287,-122
+5,-270,135
+3,182,29
+1,29,-187
+3,-87,147
+2,147,8
+1,-113,-85
+8,-65,-79
+1,21,235
+1,96,-298
+3,-80,326
+1,-84,-105
+4,72,-189
+2,119,272
+1,-157,-196
+2,93,46
+2,-96,72
+2,139,-51
+1,-230,101
+1,126,-79
+2,190,-4
+2,-144,23
+4,75,144
+1,-174,-40
+3,153,-31
+3,-126,-143
+1,-130,114
+2,23,-23
+32,-38,-468
+11,76,45
+1,-145,-140
+1,-64,-228
+5,134,258
+2,28,-242
+1,84,391
+1,-147,-208
+2,55,273
+2,60,-245
+2,-108,63
+2,-175,137
+4,-79,-24
+4,306,-25
+1,35,81
+5,-16,-386
+1,-126,341
+3,3,-337
+2,1,300
+3,86,-199
+5,-72,301
+1,-38,-59
+2,13,-415
+1,-152,380
+1,64,-133
+2,61,-191
+6,227,430
+1,-146,23
+1,-107,-154
+1,-53,-199
+1,84,36
+1,-134,81
+1,215,-94
+26,-114,323
+6,33,326
+2,66,-70
+3,-98,-60
+2,216,-81
+2,-382,-223
+2,72,92
+1,260,32
+2,-133,106
+1,45,171
+1,-43,-216
+2,100,134
+3,99,-165
+1,-217,-8
+1,-144,-25
+1,226,31
+1,-31,287
+1,38,-234
+1,-134,144
+1,79,1
+1,227,-130
+1,-232,166
+3,76,-137
+1,39,-14
+1,-173,-29
+2,62,-67
+1,-87,31
+1,58,204
+6,1,-50
+3,-39,-72
+1,252,83
+2,-3,-46
+1,-42,47
+139,-312,-5938
+2,-26,131
+17,-318,291
+1,119,-707
+1,339,49
+1,-273,-46
+1,205,-59
+1,-217,715
+2,59,-301
+1,320,299
+1,-227,-47
+2,-326,-607
+1,56,-119
+3,166,274
+1,-195,601
+1,445,51
+1,-111,156
+1,-258,-797
+1,-181,324
+1,-58,-376
+3,408,614
+1,117,-5
+2,215,-132
+1,-538,101
+1,-235,-21
+1,20,-873
+1,323,549
+2,253,-234
+1,-391,445
+1,353,259
+1,32,-813
+2,-49,521
+2,-92,-362
+1,-83,62
+3,462,671
+2,-612,-545
+3,186,-116
+2,-299,476
+5,-49,173
+2,707,-180
+1,-737,-289
+2,694,185
+1,-318,-104
+1,245,207
+2,-592,-513
+1,513,28
+1,-110,-222
+1,-357,241
+13,442,2291
+2,-93,138
+1,-88,-126
+16,-201,168
+2,181,-71
+1,-36,354
+1,43,348
+3,259,-275
+2,-134,342
+1,-63,-201
+1,-96,-123
+2,-104,-47
+1,1,-607
+6,-70,734
+1,282,-74
+10,-279,358
+2,29,-502
+1,353,321
+2,-178,-321
+1,-83,227
+2,216,-429
+1,114,159
+3,-31,-45
+1,-310,-46
+2,104,454
+1,-156,52
+3,139,-895
+1,179,396
+31,-353,-670
+2,13,-245
+2,191,346
+1,407,476
+3,-80,-41
+1,-396,-1526
+3,309,2133
+1,-133,-1975
+2,52,203
+3,-139,284
+3,-268,-284
+9,216,-188
+2,-133,482
+2,-10,-435
+4,168,151
+12,352,964
+2,-571,-1145
+2,351,694
+3,218,785
+2,-12,-483
+1,-528,-800
+3,49,444
+1,5,-353
+7,461,495
+1,-255,263
+1,283,145
+1,-373,-427
+4,97,-218
+5,307,801
+1,-537,-972
+15,1009,21
+2,21,196
+17,-424,186
+1,-151,-183
+1,439,-337
+1,-448,353
+1,-31,21
+1,175,-256
+1,-81,258
+1,345,-286
+1,-150,252
+2,-116,-77
+2,-65,33
+1,131,330
+4,-180,-190
+1,354,162
+1,-433,-173
+4,531,266
+1,-382,-623
+1,-126,118
+2,379,309
+1,307,115
+1,-401,98
+1,25,-510
+1,444,320
+1,-384,-219
+2,-137,155
+1,478,-63
+1,-162,-329
+5,-186,616
+5,215,-232
+1,-479,-220
+1,469,406
+1,-375,-236
+1,112,248
+1,60,-549
+1,-105,12
+2,-72,138
+2,285,54
+2,37,212
+26,-173,-963
+2,224,148
+2,-526,-4
+1,359,0
+1,-263,182
+1,-78,-500
+2,240,547
+7,361,-52
+11,-461,41
+5,78,-89
+1,233,-351
+3,-410,445
+1,126,-185
+1,-185,170
+2,462,-161
+1,-514,-212
+5,261,81
+1,496,386
+1,-202,-149
+1,-525,-51
+2,426,58
+1,-76,22
+2,345,80
+1,-286,-588
+2,230,130
+1,-59,96
+1,-265,-76
+1,-292,513
+37,-125,2905
+2,102,-69
+13,64,-265
+2,-316,145
+1,49,105
+9,227,-488
+5,-110,431
+6,237,-359
+2,60,143
+3,-339,-7
+9,150,118
+12,-38,-209
+1,137,123
+1,-13,178
+35,-540,-517
+1,58,108
+26,129,-124
+2,-173,657
+2,61,-346
+1,92,405
+1,-217,19
+3,-2,-67
+4,385,-565
+5,-378,408
+2,-55,212
+4,156,-40
+48,921,-1385
+11,-144,-318
+1,-184,285
+2,-435,468
+1,552,-270
+1,-710,287
+1,608,8
+3,33,-1120
+1,-146,784
+2,399,-355
+2,-256,-81
+2,-303,862
+1,189,-806
+3,308,-6
+1,-270,916
+7,242,-763
+1,-611,694
+1,101,-218
+1,152,-59
+3,-16,-200
+2,355,38
+1,-383,-183
+4,51,718
+1,243,-1156
+3,-68,574
+1,-35,540
+1,-547,-313
+3,627,-879
+2,-25,772
+1,-123,-314
+11,208,8
+6,-178,284
+2,115,-289
+4,78,-96
+213,2558,3414
+1,-31,-554
+1,357,199
+1,-399,165
+1,267,535
+1,178,120
+1,-129,-1253
+1,-398,919
+1,238,-1156
+1,-171,17
+1,303,942
+2,-72,-9
+1,239,439
+1,-172,-810
+1,-201,-90
+1,22,17
+1,-165,457
+1,548,83
+2,-297,-284
+1,140,537
+1,-269,-190
+2,-105,13
+1,50,-661
+1,233,655
+1,148,226
+1,-305,-1144
+1,-128,1035
+1,194,-258
+1,166,-294
+1,-368,358
+2,225,-396
+1,166,-267
+1,-68,940
+3,-23,-1035
+4,-206,-193
+1,113,92
+1,-266,919
+1,306,-1098
+3,166,1145
+4,-304,-309
+1,41,423
+1,-102,47
+4,213,-1240
+1,68,369
+1,-282,518
+2,90,-603
+1,80,194
+1,225,-79
+1,-60,-311
+1,-387,699
+2,265,-1171
+1,-40,1597
+1,-66,-1596
+2,155,1104
+2,-374,460
+1,241,-950
+1,-19,-443
+2,123,1355
+1,-131,-462
+1,46,6
+2,-6,-672
+1,-49,544
+16,-637,267
+1,177,-19
+1,91,-171
+2,135,324
+1,-222,-807
+1,48,1004
+2,224,-417
+1,-90,32
+1,-325,557
+1,291,-455
+1,-206,-264
+2,-97,-207
+1,283,106
+1,-4,-143
+2,172,0
+4,-74,90
+2,-29,228
+1,-27,-280
+1,-335,846
+1,184,-1272
+2,36,979
+5,-223,-98
+1,329,-102
+1,7,-172
+1,-291,573
+2,362,-1015
+2,-287,-159
+1,119,299
+1,-182,1094
+1,32,-1065
+1,212,123
+1,124,393
+1,-78,244
+1,-277,-78
+1,234,168
+1,-44,-1067
+1,-339,861
+1,350,-941
+1,-140,727
+1,23,295
+1,-73,-241
+1,289,229
+1,-390,196
+2,76,-1088
+2,420,131
+2,-365,188
+37,407,119
+1,28,-13
+1,-46,45
+1,-12,-114
+1,-4,121
+1,-15,-12
+1,-47,10
+2,59,34
+1,52,-92
+1,6,51
+1,-25,-72
+1,-16,179
+1,81,-152
+1,-85,3
+2,-150,79
+1,201,10
+1,-11,3
+1,42,-151
+1,-26,-4
+1,-62,41
+1,-35,2
+1,116,69
+3,-99,76
+1,21,-240
+1,122,150
+1,-48,105
+1,41,-64
+1,-158,67
+3,158,-212
+5,66,99
+62,454,-147
+8,-66,-650
+1,-169,22
+3,283,797
+1,-163,87
+1,468,-511
+1,-477,704
+1,-165,-1232
+1,-7,338
+1,286,675
+1,-126,71
+1,70,-379
+1,199,-47
+1,-287,-559
+1,223,983
+1,-27,-784
+4,172,196
+1,-295,-503
+1,73,550
+1,-159,-551
+1,-34,1126
+2,-115,-780
+1,398,310
+1,-117,507
+2,-34,-738
+1,66,183
+1,-125,131
+1,-166,-811
+1,126,650
+1,77,-241
+1,69,-259
+1,-99,187
+1,-17,-233
+2,-65,1191
+1,432,-614
+5,-374,272
+1,-200,-705
+1,161,209
+1,455,85
+1,-537,-191
+42,1077,-9
+1,-32,16
+3,-42,198
+1,-59,189
+1,295,-113
+2,-260,405
+2,319,-364
+1,-383,-338
+1,203,43
+2,33,350
+4,-126,157
+10,166,-265
+1,-132,31
+1,171,92
+1,-58,372
+1,188,-565
+1,-367,133
+1,388,486
+1,-460,-776
+1,349,895
+1,-85,-336
+1,-3,272
+2,-90,-445
+1,36,-254
+2,96,161
+1,117,499
+1,-106,-623
+2,-34,297
+1,-133,-355
+1,-83,-127
+1,188,665
+4,145,126
+1,-383,-598
+1,262,212
+2,75,-348
+2,-321,-162
+1,227,218
+1,-95,583
+1,149,-578
+1,-273,-14
+1,-49,23
+1,357,144
+1,-140,-18
+32,213,-1097
+1,-140,159
+2,165,469
+1,-174,-897
+1,-58,174
+4,-1,610
+1,-201,123
+1,39,-534
+3,284,348
+1,-372,95
+1,219,-814
+1,162,-29
+1,-177,351
+1,-39,-229
+1,280,338
+1,-240,466
+1,-81,-167
+1,-112,-40
+1,240,338
+1,-155,-1030
+1,-66,573
+1,383,408
+1,-439,-35
+1,138,-504
+1,307,-207
+1,-186,532
+1,243,-118
+1,-342,155
+1,-44,-97
+1,7,-610
+1,262,947
+3,114,-257
+1,-388,114
+1,265,65
+1,40,-880
+2,-214,517
+2,100,252
+1,-303,-297
+1,180,-358
+2,150,952
+2,12,-639
+1,127,-345
+1,-220,307
+1,-135,-308
+1,184,172
+1,107,513
+2,107,140
+5,-281,-1
+1,72,-16
+1,88,-405
+2,-230,372
+1,236,-652
+1,-72,627
+33,138,275
+1,-4,32
+1,25,-104
+1,-24,7
+1,31,75
+1,-52,-50
+1,50,18
+1,25,74
+1,13,-64
+1,-10,-53
+1,-102,-24
+1,46,-44
+1,8,263
+1,6,-319
+2,-60,258
+1,61,-85
+3,38,-95
+78,-1739,1654
+10,-122,418
+2,148,404
+3,-161,162
+1,-40,-543
+1,226,557
+1,-19,-95
+1,-200,-783
+1,153,-384
+1,-30,740
+1,42,-22
+1,-240,43
+1,319,-102
+2,-164,-199
+1,-396,-95
+2,159,-197
+1,94,34
+1,110,399
+1,84,121
+1,-45,-376
+1,-25,-200
+1,201,877
+2,-203,-903
+1,48,-146
+1,48,69
+6,14,33
+1,-104,1059
+1,-169,-1191
+1,464,760
+1,-159,43
+4,-243,270
+1,299,-189
+1,-361,-363
+2,-64,-150
+1,435,874
+1,-175,-1122
+1,-220,45
+1,362,408
+2,-317,-441
+2,-120,-72
+1,421,445
+1,24,363
+3,-202,-500
+1,50,418
+1,96,228
+4,-153,-805
+1,181,735
+1,-190,-59
+1,89,-10
+2,-287,-774
+1,182,-67
+3,-93,1002
+1,-187,-525
+1,282,468
+3,72,-755
+2,-133,993
+9,346,-756
+2,360,111
+1,-61,-231
+6,-198,29
+1,72,62
+9,-127,-120
+1,44,-157
+2,183,400
+6,-301,-379
+2,210,559
+4,-64,-141
+1,89,241
+3,106,-126
+2,-267,-408
+1,212,-164
+1,-15,125
+1,-69,320
+56,-48,865
+1,-334,-86
+1,589,-21
+2,-358,140
+1,-103,24
+1,237,-211
+1,258,146
+1,-438,59
+1,305,-11
+2,-282,33
+1,177,155
+1,-493,-315
+1,-29,21
+2,469,139
+3,462,199
+5,-231,-268
+1,63,240
+2,-496,-261
+2,550,120
+1,-890,-109
+1,856,126
+1,-594,-150
+1,141,102
+1,44,54
+3,179,65
+1,-132,-125
+1,-138,-27
+2,-168,-28
+1,348,123
+1,227,-40
+1,196,-78
+1,-984,-125
+1,307,183
+1,313,12
+2,-171,-145
+1,17,-87
+1,295,347
+1,-57,-37
+8,172,72
+1,149,-259
+1,-502,192
+1,310,35
+3,-454,-284
+1,605,262
+3,-473,-29
+1,-57,-261
+1,88,-302
+1,-8,388
+2,196,-17
+1,-230,-209
+4,36,120
+2,-47,-205
+2,25,67
+1,221,142
+2,21,-108
+13,962,-1162
+2,250,1674
+1,240,-205
+6,-91,-56
+1,-320,-1158
+1,52,-12
+5,-126,155
+4,72,718
+1,3,-259
+1,-61,117
+1,193,95
+2,-50,-134
+2,-227,-612
+2,602,1357
+2,-234,-90
+3,-299,-1466
+4,14,115
+1,147,610
+1,246,461
+3,-511,-1092
+1,478,756
+1,-202,206
+1,186,344
+1,122,97
+1,-583,-1667
+1,-18,178
+2,212,-40
+1,-31,-54
+1,42,132
+1,-38,-44
+1,-119,632
+1,445,442
+3,-83,-268
+2,-226,293
+2,147,3
+1,-143,-197
+2,-142,-315
+1,593,865
+2,-491,-1240
+2,56,594
+2,-182,-911
+2,239,1421
+1,170,-395
+3,-330,152
+1,396,-85
+1,-2,575
+2,-91,-331
+1,-68,24
+1,73,-184
+1,-359,-385
+2,75,-933
+1,-225,149
+2,429,757
+1,-60,858
+1,75,-766
+1,41,-63
+4,-103,459
+2,-59,-689
+1,-11,-64
+1,37,93
+1,-34,16
+1,-32,-5
+1,55,27
+1,-19,-196
+1,55,189
+1,-97,-86
+1,125,132
+1,-111,-224
+1,78,216
+1,-53,-123
+1,37,18
+1,-26,8
+1,-21,-183
+1,98,328
+1,-69,-31
+1,86,8
+1,-115,-32
+1,53,49
+1,-57,20
+1,136,-12
+1,-106,53
+1,-93,-139
+1,37,-243
+1,28,204
+1,-31,110
+1,-50,-196
+1,-13,-52
+1,6,132
+1,223,158
+1,-290,-246
+1,67,40
+1,41,-123
+1,-112,16
+1,97,247
+1,-35,-360
+1,9,479
+1,105,-485
+1,-188,312
+1,99,-212
+1,154,355
+1,-116,-266
+1,13,-190
+1,-69,401
+1,-63,-150
+2,-7,-174
+52,-282,669
+1,288,-158
+1,-297,-289
+9,224,-198
+2,-292,-171
+1,120,101
+1,-126,317
+1,6,-331
+4,187,438
+2,31,-56
+1,6,94
+6,-214,-253
+1,341,620
+1,-370,-394
+1,316,-274
+1,77,586
+1,-295,-965
+1,215,668
+4,-113,107
+1,110,-6
+2,-95,8
+7,-127,-93
+1,7,-495
+2,135,-105
+1,-118,21
+1,242,783
+1,-146,-631
+4,-106,522
+2,105,-98
+2,90,-104
+2,-61,343
+4,-208,-578
+2,129,594
+1,-62,-697
+1,71,149
+1,-2,-377
+1,-157,270
+2,153,416
+2,147,-508
+1,-180,188
+4,103,680
+1,70,-584
+1,-293,-460
+1,299,1028
+13,-196,-448
+1,46,-14
+1,15,1
+1,-18,28
+1,-9,46
+1,-38,-20
+1,30,-64
+1,13,30
+2,27,17
+1,-45,-20
+1,-57,81
+1,123,-134
+1,-89,15
+5,-55,27
+1,87,-51
+1,28,-66
+4,-25,136
+8,89,-122
+68,-138,696
+1,371,85
+1,-157,270
+1,83,26
+1,-246,-35
+1,-67,-178
+2,-126,82
+2,461,-40
+1,-298,-331
+1,46,36
+1,-249,474
+2,-74,-156
+2,662,42
+1,-126,58
+2,-137,-66
+3,-421,-225
+1,573,313
+1,-153,5
+2,-455,-384
+1,717,377
+1,-336,-389
+1,143,64
+1,-400,159
+1,-88,1
+4,309,215
+1,97,-195
+1,84,199
+1,214,-425
+1,-317,150
+1,-382,257
+1,211,3
+1,-45,-45
+1,255,-387
+1,-328,361
+1,342,-131
+3,-215,-274
+1,471,202
+1,-367,-48
+1,-132,204
+2,-23,119
+1,-152,-65
+5,131,-259
+10,397,-104
+1,-249,382
+2,196,-72
+8,-70,-239
+2,87,85
+1,-28,67
+1,4,-98
+5,-340,80
+1,470,-196
+2,-548,75
+9,261,250
+1,16,-10
+1,25,-6
+1,4,37
+1,-35,-8
+1,-19,-29
+2,37,-42
+1,11,24
+1,-53,-24
+1,-43,30
+2,-30,59
+1,107,-153
+40,4,112
+46,-188,-480
+5,-184,-671
+1,-39,773
+1,-40,-566
+1,256,603
+1,-351,-811
+1,49,-274
+1,23,599
+1,79,-132
+1,176,20
+1,-322,509
+3,204,-602
+1,135,727
+1,-319,-274
+1,-154,-60
+1,119,-196
+2,71,-175
+1,92,636
+1,-20,-366
+1,-30,-447
+1,-120,-312
+1,-195,695
+1,578,49
+2,36,99
+1,-333,-630
+1,208,894
+3,-358,-989
+1,167,-103
+1,-195,923
+1,534,59
+1,-128,-94
+2,-220,-64
+1,50,131
+1,222,-540
+1,-96,221
+1,-20,-68
+4,-173,603
+1,280,-368
+1,-464,-41
+1,101,-500
+2,30,543
+1,177,233
+2,-50,-607
+1,-71,-71
+1,-39,-344
+1,126,562
+1,-251,105
+2,376,463
+1,6,-653
+1,-8,-125
+2,-46,614
+1,-25,-37
+1,-118,-178
+1,275,341
+3,-416,-225
+1,187,-784
+1,184,175
+1,-310,495
+2,34,-180
+1,-98,-120
+1,-103,261
+1,-33,78
+2,590,-99
+2,-416,-286
+1,145,455
+1,-36,-404
+1,-35,-35
+1,193,-284
+2,-508,790
+2,144,18
+2,166,-237
+2,-319,118
+3,511,-88
+1,11,-4
+1,-11,38
+1,33,11
+1,-79,-88
+1,6,73
+1,57,-88
+1,25,49
+1,-52,-41
+4,46,69
+4,12,-92
+2,55,17
+1,-10,115
+9,-126,52
+72,278,-2153
+2,62,-116
+1,-234,1212
+2,188,-541
+2,71,-430
+2,114,447
+2,-646,317
+1,724,58
+1,-77,-767
+2,-43,-306
+1,-206,556
+2,-180,17
+2,-261,574
+2,826,-408
+1,-429,-136
+1,288,464
+1,-420,-277
+1,412,-104
+2,-66,-540
+3,-458,603
+3,527,-267
+1,-216,590
+1,-249,217
+1,608,-294
+1,-588,377
+1,459,-1138
+1,-602,1086
+1,40,-183
+1,303,-850
+2,327,652
+1,-89,-107
+2,-421,-419
+1,226,448
+1,74,292
+2,-54,-912
+1,-111,436
+1,165,293
+1,-315,-281
+1,422,278
+2,-194,247
+2,221,-815
+3,-575,825
+1,324,-368
+1,-68,491
+1,225,-784
+3,271,269
+4,-451,343
+1,-79,-282
+3,61,131
+2,82,302
+1,-163,-658
+1,77,-263
+1,177,-34
+4,-208,383
+2,330,409
+1,-161,-329
+11,-321,198
+1,-5,2
+1,17,-16
+1,-112,-87
+1,115,147
+1,-15,-108
+1,-36,55
+94,-1590,-2193
+1,61,-50
+1,388,-23
+2,-58,496
+6,-102,-208
+2,-13,-155
+1,-88,101
+1,48,-9
+15,-117,-202
+2,246,755
+1,-323,-757
+1,177,519
+2,86,30
+3,-116,-21
+1,24,-76
+1,-140,-389
+1,346,282
+2,-75,10
+6,-38,44
+1,-344,-289
+1,44,-124
+1,210,-9
+1,85,703
+1,18,-426
+1,30,-227
+6,-3,182
+2,87,-54
+1,-200,396
+1,177,-4
+1,-53,-263
+1,34,440
+1,-185,-371
+1,246,-146
+31,-893,831
+1,320,-477
+1,75,60
+2,-342,532
+1,195,-453
+1,343,89
+4,-87,-311
+1,-406,147
+1,605,155
+2,-592,278
+3,365,-210
+1,-295,-82
+1,-50,-91
+1,39,182
+1,359,-221
+1,123,740
+7,-440,-610
+1,-119,32
+1,554,367
+1,-184,29
+2,188,29
+5,-94,-705
+2,-46,444
+2,-504,188
+2,610,-189
+1,-103,-499
+1,79,416
+2,-124,-343
+2,185,110
+1,-488,-70
+1,200,273
+1,-20,165
+1,-233,-462
+1,144,-16
+1,228,152
+1,155,386
+1,-213,-445
+2,146,62
+2,283,289
+2,-76,98
+1,-695,-102
+1,68,20
+1,656,119
+2,-492,-145
+1,60,409
+2,85,-925
+2,-80,282
+1,382,186
+25,-354,-660
+1,-2,-30
+1,-15,-44
+1,20,3
+1,17,90
+1,15,14
+1,-7,37
+1,18,6
+2,6,-172
+1,5,148
+1,17,32
+1,-66,-114
+1,120,72
+1,-34,-19
+1,-35,-17
+1,100,-22
+1,-139,8
+1,20,-8
+3,24,-31
+1,31,19
+1,-58,-23
+1,-32,133
+1,41,36
+2,0,-100
+1,-79,97
+1,174,-146
+1,-62,15
+1,-69,-153
+3,93,276
+1,-15,-54
+1,-86,-158
+1,95,28
+1,82,55
+1,-10,126
+1,-33,47
+1,-54,17
+1,-75,10
+1,-54,46
+1,230,-184
+1,-73,-197
+1,-53,-1
+1,111,335
+2,0,-271
+1,-5,-30
+3,-210,300
+12,78,-175
+34,573,480
+1,695,-186
+1,-192,-451
+1,-233,135
+1,-340,439
+1,818,-101
+1,-878,464
+1,548,-734
+1,-286,42
+1,510,-228
+1,-724,-16
+1,423,566
+2,-310,312
+1,116,-558
+1,-60,514
+1,380,-193
+1,-51,-336
+1,-211,411
+1,-165,-738
+1,114,-6
+1,38,359
+1,-52,400
+1,-30,-72
+1,-128,-430
+1,447,336
+1,-511,-309
+1,487,-94
+2,-468,-32
+1,451,-122
+1,-99,-125
+1,249,444
+1,194,284
+1,-803,307
+1,803,-516
+1,-462,-166
+1,-130,-121
+1,158,203
+1,360,289
+1,-496,29
+1,-244,-253
+2,325,266
+1,-215,-389
+1,243,-311
+1,-96,-53
+1,444,107
+1,-341,715
+1,336,-633
+1,15,78
+1,-290,-248
+1,243,701
+1,-383,-357
+2,253,172
+2,-176,-260
+1,63,137
+1,280,259
+1,-366,-323
+1,328,-213
+1,-53,228
+2,44,244
+3,-438,508
+1,108,54
+1,-345,-439
+1,333,-133
+1,73,328
+1,19,-358
+4,-129,-22
+1,-1,-270
+2,339,-20
+1,-511,-16
+1,171,-88
+1,55,279
+1,-241,444
+1,-47,-25
+2,130,26
+1,529,-592
+1,-272,455
+1,159,-736
+12,-455,553
+1,3,58
+1,25,-3
+1,4,-63
+1,-7,-26
+3,-64,54
+1,27,29
+4,91,-52
+1,-3,-46
+1,-28,-1
+1,-75,-25
+2,-19,115
+1,5,39
+3,41,-62
+1,91,88
+2,-50,-211
+2,-59,54
+1,-58,97
+1,34,86
+1,46,-7
+1,-24,-2
+1,83,37
+1,-102,17
+1,60,-31
+4,-83,-166
+1,-25,129
+9,-9,-138
+9,-62,82
+1,44,-11
+10,94,-12
+32,186,372
+1,75,-93
+1,-36,132
+1,-18,-97
+1,-45,108
+1,6,-80
+95,-596,880
+11,-105,-322
+1,-173,428
+1,-104,573
+2,-190,-1009
+1,540,131
+1,-395,-460
+1,-422,1166
+1,493,302
+1,155,-462
+1,241,123
+1,-710,217
+1,531,-1079
+4,216,155
+1,-731,378
+1,39,-277
+1,125,829
+3,362,-222
+2,-602,-330
+2,-26,144
+2,464,16
+2,27,-398
+2,401,219
+1,-882,308
+1,509,-796
+1,226,591
+1,-383,-276
+2,-180,-414
+1,547,939
+1,-457,-597
+1,62,258
+1,476,444
+2,-490,-213
+1,-32,-645
+1,-81,824
+1,-108,-229
+1,333,-716
+1,58,249
+1,-254,196
+1,-56,-198
+6,-238,752
+2,472,-890
+1,251,582
+1,-17,-146
+1,-326,431
+3,-82,-375
+1,-186,376
+1,368,-1191
+1,-510,1024
+1,832,-711
+1,-493,563
+2,-156,-496
+1,281,734
+1,77,89
+2,-278,-175
+2,415,-482
+2,-30,483
+1,-308,-990
+1,-64,751
+1,418,408
+1,-561,-79
+1,331,-1222
+1,362,1273
+1,-420,-569
+2,438,896
+9,-116,-137
+1,232,279
+3,-111,318
+1,294,-13
+1,-148,-557
+3,-63,56
+1,-306,205
+1,472,340
+2,-340,-240
+1,157,23
+3,263,321
+2,-228,-125
+3,99,-460
+2,124,868
+1,-396,-724
+4,-54,174
+1,286,-334
+1,-402,-167
+1,212,517
+1,-212,-105
+1,474,341
+1,57,164
+1,-9,-121
+4,-167,19
+10,-411,-698
+1,407,55
+3,16,-156
+2,-123,-32
+1,226,1125
+1,-129,-119
+1,-307,-794
+1,-122,244
+1,1,-96
+1,161,84
+1,289,548
+2,-350,-885
+1,93,132
+2,173,131
+1,-353,-78
+1,369,-160
+2,116,49
+1,-311,243
+1,213,161
+2,115,23
+2,6,276
+1,42,124
+12,1222,-2779
+3,-63,-27
+1,18,-102
+1,-56,37
+1,134,-46
+1,26,199
+1,11,-212
+1,-59,372
+2,-102,-1
+1,510,-919
+1,-293,1129
+1,258,-339
+1,-152,149
+1,-126,-90
+2,-255,-376
+1,207,176
+1,395,-477
+1,-670,-38
+4,-120,105
+1,562,195
+1,-514,-384
+2,424,587
+1,206,-159
+1,-188,-475
+1,-93,377
+2,-79,653
+1,39,57
+2,-53,-835
+2,286,829
+1,-145,-83
+2,-95,186
+1,128,-741
+1,-583,-96
+1,81,-365
+2,612,671
+1,-10,-370
+1,-309,529
+1,328,-685
+2,-47,408
+1,-226,243
+1,328,-631
+1,24,583
+2,-5,198
+1,-414,16
+1,-293,-731
+1,686,91
+1,-415,-89
+1,240,62
+1,189,316
+1,-706,-236
+1,95,-177
+1,407,1012
+1,75,-313
+1,-514,-539
+1,99,439
+1,-67,-343
+1,700,612
+1,-71,-708
+1,-330,-291
+1,232,622
+1,-86,-280
+1,25,405
+2,169,-629
+1,-60,-179
+1,-122,962
+1,-263,-897
+1,-284,57
+1,148,536
+1,23,-307
+1,427,-230
+1,-286,256
+1,-109,279
+1,551,447
+1,-173,144
+1,-106,-1082
+2,7,432
+1,-122,-326
+1,-196,326
+1,45,203
+1,233,286
+1,-107,-1095
+1,69,-21
+102,-552,-886
+10,-121,-103
+1,16,138
+1,-95,-63
+3,47,5
+1,-29,74
+13,101,-414
+1,34,11
+1,-237,-165
+1,12,89
+1,156,38
+1,54,-631
+1,108,846
+1,-334,-111
+1,4,-73
+1,403,-295
+1,-443,478
+1,368,-660
+3,-83,701
+1,78,-356
+2,-6,202
+1,-330,140
+1,341,-415
+1,-90,-124
+1,-146,508
+1,-15,-623
+3,-156,559
+1,85,295
+1,365,-771
+1,22,-270
+2,-297,715
+2,-2,-123
+1,211,332
+1,-290,-15
+1,439,-871
+3,-46,499
+1,-236,-119
+1,207,569
+1,-236,-947
+1,175,539
+2,-249,-105
+1,-15,-157
+1,350,385
+1,-389,-333
+25,14,-341
+1,-306,6
+1,-32,1012
+1,107,-1211
+1,-252,608
+1,204,113
+3,-168,180
+1,-7,-455
+1,322,-15
+1,-228,79
+2,102,736
+2,77,-49
+1,-156,-915
+2,-148,-258
+1,168,110
+1,94,128
+1,-9,148
+1,-393,455
+1,151,-694
+1,96,762
+1,100,564
+1,-59,-1427
+2,14,908
+1,-200,-209
+2,122,733
+2,60,-1583
+5,147,1122
+2,-180,-403
+1,-26,61
+1,70,467
+2,-86,77
+1,391,-1053
+1,-191,1148
+1,103,-1079
+1,-338,951
+1,-85,-815
+3,396,648
+1,-112,341
+1,-255,-65
+1,65,-1035
+1,25,155
+2,-228,105
+1,317,572
+1,-112,-257
+1,173,48
+1,-426,-216
+1,547,-518
+1,-423,50
+1,450,122
+1,-187,75
+2,-118,-470
+1,-47,-98
+1,303,143
+1,-227,1387
+2,215,-1535
+1,-289,1193
+4,65,-846
+1,-220,447
+1,87,503
+1,195,-612
+1,-96,214
+2,336,422
+15,-120,-465
+1,10,-52
+1,-47,66
+1,34,-61
+1,58,23
+1,-69,-27
+2,59,-10
+6,-26,-121
+2,73,283
+1,-191,-182
+1,132,91
+1,-23,55
+1,83,-64
+1,-171,-130
+1,95,24
+2,4,-42
+1,-55,94
+1,99,114
+1,-164,-84
+1,173,-68
+1,-60,224
+2,-65,-354
+3,88,5
+1,26,351
+1,60,7
+1,-225,-107
+2,50,76
+1,184,-126
+1,-176,-153
+9,171,215
+4,-53,-207
+2,60,257
+3,-257,32
+1,246,-197
+8,0,-55
+10,-4,-65
+2,41,163
+10,1,-27
+11,1757,-811
+1,-328,-151
+1,10,-355
+1,241,429
+3,-213,-275
+3,-222,94
+1,288,-278
+1,182,58
+7,-128,29
+1,87,-76
+1,-61,-5
+1,-1,45
+1,42,4
+1,-5,-48
+3,65,3
+13,-266,728
+1,-73,-444
+1,208,-30
+3,12,545
+1,-52,7
+1,-173,-316
+1,5,147
+1,-198,-563
+1,495,703
+6,-343,-695
+4,425,552
+5,-87,321
+1,-388,-224
+2,378,-411
+3,87,586
+2,-237,-875
+1,-237,571
+1,286,-556
+1,-306,-23
+1,9,128
+2,-37,-82
+2,19,96
+1,285,572
+1,-3,-240
+2,6,-122
+5,-45,242
+1,135,-37
+1,-376,-136
+1,336,-113
+1,168,-332
+8,-64,162
+1,-7,80
+1,-26,-116
+1,-11,111
+1,32,-146
+1,-28,79
+1,-32,-38
+1,2,44
+1,-66,-11
+91,-260,1089
+1,39,269
+2,40,-135
+2,162,-60
+1,258,356
+1,-566,-153
+2,-33,98
+1,99,-557
+2,142,-20
+1,360,471
+2,-44,29
+1,-52,-50
+7,-321,-16
+2,253,137
+2,42,92
+2,140,-342
+1,-384,-392
+1,54,-112
+2,-126,13
+2,230,320
+1,-58,-9
+1,-127,484
+1,-167,-204
+1,509,330
+2,-275,-173
+1,136,199
+1,82,-457
+1,78,-19
+5,-246,146
+2,259,-481
+1,-226,631
+1,77,-566
+1,-228,737
+1,373,-565
+5,-36,173
+1,-458,387
+1,147,-641
+2,336,742
+2,-275,-148
+3,-208,-388
+1,358,573
+1,-158,-846
+1,136,323
+1,-62,-417
+6,-268,617
+2,66,18
+8,-61,47
+5,307,-358
+6,144,-90
+12,-16,-13
+1,-48,-14
+1,68,68
+1,23,-55
+1,-12,32
+2,-24,-119
+5,42,102
+4,17,-68
+7,-6,118
+2,20,-41
+64,-373,812
+1,-540,-191
+1,834,611
+1,-551,-281
+1,415,232
+1,-177,27
+4,10,-217
+1,-690,323
+3,61,-250
+7,701,304
+2,-178,-454
+2,-93,-147
+5,305,322
+1,-664,52
+1,578,-526
+1,-541,686
+4,886,35
+1,-398,-244
+2,-715,184
+1,613,14
+1,332,72
+1,-334,26
+2,-263,-156
+1,773,-336
+1,-159,187
+1,-317,-3
+2,-373,-336
+5,573,222
+4,-845,97
+1,741,-375
+1,289,175
+2,-337,129
+1,-83,-371
+1,19,588
+1,-524,-257
+1,753,-285
+3,-635,253
+1,867,25
+1,-972,384
+1,262,36
+1,105,-96
+2,640,-194
+1,-860,18
+1,-265,-14
+1,960,135
+2,-932,-242
+2,337,-88
+1,531,-31
+1,-177,510
+1,208,-394
+1,-465,-348
+1,207,712
+1,310,-289
+2,-745,-55
+1,-154,-191
+1,768,428
+1,10,-437
+1,97,125
+1,-222,-169
+1,-209,637
+1,-185,-362
+1,-27,-59
+3,153,115
+1,1,79
+1,-16,-153
+1,46,121
+1,-54,26
+1,-1,-56
+1,53,-29
+1,-98,-41
+5,49,-88
+1,54,247
+1,-100,13
+2,139,-212
+1,-167,124
+6,182,6
+10,-4,87
+10,59,-68
+56,-681,-1061
+1,-94,75
+8,607,59
+1,-419,93
+2,-121,-554
+1,125,402
+1,-151,-291
+2,149,-89
+2,-33,605
+1,-129,-625
+2,676,69
+1,-534,-216
+3,281,592
+2,-482,368
+1,149,-794
+1,-146,903
+1,538,-692
+1,-352,-4
+1,-116,688
+3,5,-347
+1,-69,-109
+1,15,443
+1,563,-807
+1,-302,712
+1,139,-10
+2,143,-141
+2,148,-545
+1,-82,655
+1,-278,-643
+3,127,8
+1,60,260
+1,-349,476
+1,-80,-16
+4,-130,146
+1,429,-622
+1,-205,9
+1,548,-404
+1,-394,324
+1,222,424
+3,-573,-334
+2,279,-93
+1,475,-357
+2,-412,491
+1,-97,-101
+3,291,228
+1,123,-317
+3,-216,-260
+1,-430,235
+1,527,534
+2,96,-136
+2,-384,48
+1,292,-750
+1,-465,761
+1,74,54
+1,308,-470
+1,-428,754
+1,453,-247
+1,-274,214
+1,157,-317
+2,-118,-423
+2,395,-404
+2,-487,307
+3,-1518,1395
+2,503,122
+3,-274,-379
+4,216,364
+1,-631,-213
+1,556,79
+4,-55,93
+1,-432,-291
+1,52,77
+2,-174,180
+1,152,-225
+1,237,198
+1,-136,-426
+1,406,178
+1,-324,325
+5,271,-259
+1,-293,-15
+1,-50,92
+1,201,-119
+1,-78,-152
+1,106,423
+1,76,-327
+1,-217,-95
+1,-319,476
+2,78,-61
+1,306,-173
+1,-215,-171
+1,-226,152
+17,499,235
+42,-537,-929
+2,-199,373
+2,-92,-476
+2,182,-357
+2,-551,49
+1,371,576
+1,-280,-513
+2,102,72
+1,57,-144
+1,-18,-401
+1,-220,651
+1,193,-516
+1,72,601
+1,88,-307
+2,-154,204
+1,-20,-487
+1,79,468
+1,97,-300
+1,85,528
+3,-234,7
+1,19,73
+5,-283,-378
+1,186,108
+1,-82,-468
+1,529,849
+2,-298,-786
+1,164,759
+1,-486,-589
+1,407,426
+2,-139,-532
+2,269,773
+3,-315,-314
+10,-127,-202
+1,165,-54
+1,227,613
+1,-4,-188
+1,-132,-417
+1,89,91
+1,-195,-164
+1,300,76
+3,78,249
+2,-285,70
+2,-173,-708
+1,131,-73
+2,232,763
+24,558,-207
+2,82,167
+17,-352,-223
+3,178,576
+1,-166,251
+1,546,-116
+1,-153,-525
+1,-415,215
+2,-61,-211
+1,-15,240
+1,109,130
+1,210,-296
+2,265,23
+1,-358,-370
+1,134,413
+4,154,247
+3,-637,-4
+1,549,-220
+2,80,-62
+1,-238,-124
+3,-249,526
+10,26,-836
+3,472,870
+1,-330,-923
+1,30,624
+5,-170,-96
+2,572,102
+1,-335,-116
+1,-110,-189
+6,331,-24
+1,-508,-156
+1,196,496
+1,185,22
+19,960,214
+1,142,-4
+1,-36,-82
+1,-42,74
+1,13,-21
+14,65,134
+4,-531,421
+1,-47,-161
+1,855,46
+1,-715,-212
+3,-48,157
+1,-162,-135
+3,482,-366
+1,-294,316
+1,586,-5
+1,-595,-225
+1,539,100
+1,-403,258
+1,242,-55
+1,-209,242
+1,357,-616
+2,-450,44
+1,15,404
+1,38,-108
+2,534,-172
+3,-562,-180
+1,-108,153
+1,-173,442
+1,418,-268
+1,3,266
+1,-13,-580
+1,-280,360
+1,306,34
+1,495,-173
+1,-541,28
+1,-7,-127
+1,-72,15
+4,-71,109
+1,223,-131
+1,98,198
+1,325,52
+1,-694,4
+1,606,175
+2,-79,-193
+1,-506,266
+6,451,-156
+1,102,181
+1,-150,-53
+1,-81,-349
+1,-247,-284
+1,-76,105
+1,222,60
+1,-217,87
+1,168,-144
+2,200,597
+2,-296,-98
+1,53,-60
+1,205,17
+2,21,-530
+5,-1087,-926
+2,-17,-169
+1,135,21
+1,-52,70
+1,7,6
+2,55,48
+12,-311,-82
+1,-56,97
+3,157,-430
+3,217,-125
+2,39,393
+2,-31,-301
+1,-752,276
+1,863,-3
+1,-343,96
+1,253,251
+1,-312,-91
+1,-240,-291
+1,446,-500
+3,-121,3
+2,-71,92
+2,145,-107
+1,-380,677
+2,447,276
+1,-242,-752
+2,-46,463
+1,-248,111
+1,296,-357
+1,-430,319
+1,803,-506
+1,152,267
+1,-553,-214
+1,158,398
+1,44,-244
+1,158,-41
+2,-314,144
+2,342,-2
+1,-238,-387
+2,-294,693
+1,518,-49
+1,-648,-206
+1,180,-38
+1,325,-368
+30,-481,-170
+11,117,-144
+1,-475,605
+1,-155,120
+1,35,-110
+1,587,-715
+3,-181,435
+1,-645,316
+1,463,-53
+1,471,-81
+1,-700,-224
+1,305,-593
+1,-464,1059
+2,449,-226
+1,379,-473
+1,18,184
+2,-826,224
+1,180,-9
+3,643,-453
+2,-749,248
+4,121,19
+1,64,79
+4,120,34
+4,-352,12
+1,47,351
+1,-2,-424
+1,544,81
+4,-86,-429
+1,69,292
+3,225,-388
+1,-31,464
+2,-351,-124
+3,-19,-207
+1,301,203
+5,-20,-220
+1,-794,760
+1,375,-240
+1,-146,207
+1,-29,-213
+1,733,-386
+1,-772,280
+1,244,147
+1,308,8
+3,-412,-498
+1,17,99
+1,-232,464
+2,-7,-110
+2,315,-296
+1,285,-401
+5,234,267
+1,-221,-61
+1,-254,87
+3,-337,-47
+9,11,-144
+1,-34,342
+1,167,-645
+1,-45,277
+2,-179,473
+1,262,-958
+3,-40,585
+1,-261,-579
+10,21,558
+1,156,-556
+2,60,116
+1,-230,604
+1,-56,81
+2,258,-59
+1,-77,-618
+1,124,212
+1,290,82
+8,-229,-67
+1,104,100
+5,-100,60
+6,43,63
+5,-13,-406
+1,135,134
+4,-73,15
+13,-68,208
+25,-303,-197
+2,52,-2
+1,-11,39
+1,-91,-113
+1,25,95
+1,8,34
+1,15,41
+5,91,-162
+5,40,115
+77,1248,113
+1,115,107
+1,32,-84
+1,48,65
+2,-73,-77
+2,-2,-7
+22,194,-112
+1,216,264
+1,-522,283
+1,165,-148
+2,125,-49
+1,-22,57
+1,-665,-269
+2,445,322
+1,-130,-53
+1,401,-339
+3,-484,220
+1,173,40
+1,450,-292
+1,-775,224
+1,153,-302
+1,42,128
+1,337,190
+2,-37,173
+1,269,-339
+1,-618,110
+2,336,211
+1,-262,-134
+1,620,53
+1,-160,-158
+1,-649,-240
+1,703,227
+1,-198,-116
+2,-559,66
+1,264,71
+2,128,419
+1,-136,-594
+1,95,23
+1,20,174
+1,359,135
+2,-112,-114
+1,77,-243
+1,-204,61
+3,-312,82
+1,402,-40
+1,-113,229
+1,-398,-221
+2,534,-43
+1,-117,-22
+16,912,586
+3,21,15
+1,-17,111
+1,58,-225
+1,-58,75
+2,-97,18
+7,-342,-159
+1,486,-421
+1,-170,266
+2,242,376
+1,-63,-541
+1,399,26
+1,-267,409
+1,-120,182
+1,392,13
+1,-102,149
+2,-859,-876
+1,749,559
+1,-432,172
+2,-104,-674
+1,-96,513
+7,79,157
+1,258,-26
+1,311,-673
+1,378,160
+1,-450,-52
+2,370,466
+2,-208,-417
+1,-715,150
+1,741,483
+1,-12,-790
+1,-830,145
+2,-60,480
+1,293,-48
+2,896,-10
+1,-924,-272
+1,698,248
+1,-75,149
+3,180,-688
+1,-16,140
+1,-997,380
+1,-67,-494
+1,306,415
+1,-234,249
+1,244,-399
+1,261,31
+1,60,-118
+3,-482,-244
+1,401,227
+2,319,96
+1,223,44
+2,-234,204
+1,-501,-36
+1,-54,-582
+1,89,753
+3,228,-433
+1,-393,-28
+2,-231,186
+1,171,-11
+1,219,-386
+1,39,397
+1,-10,-364
+1,-127,331
+1,579,52
+2,-93,306
+4,1971,4142
+1,296,-334
+1,-5,-124
+2,-74,128
+1,227,221
+3,-539,-527
+5,482,286
+1,-545,-95
+2,56,-123
+4,-71,204
+1,557,144
+1,-319,143
+2,-184,-606
+1,18,318
+1,406,253
+1,-364,77
+2,-118,-481
+2,671,501
+1,-674,-696
+1,38,2
+1,60,383
+1,40,-5
+2,7,-28
+1,89,395
+1,217,65
+1,27,-329
+1,-253,-99
+1,-86,27
+1,52,-47
+1,-63,112
+2,87,43
+1,64,-24
+1,302,227
+1,-252,-228
+1,-98,-27
+3,80,297
+5,317,35
+1,-103,36
+2,-132,-338
+1,7,113
+1,-94,16
+1,80,-372
+1,-337,102
+1,-17,-201
+2,-19,-6
+1,10,-24
+1,25,65
+1,-9,-83
+1,21,22
+1,431,602
+1,-488,-668
+1,36,-1
+3,361,683
+1,-394,-349
+1,30,2
+1,33,8
+1,29,-230
+1,4,-59
+1,43,54
+3,-88,139
+1,-48,-11
+2,0,-64
+1,45,-2
+1,3,44
+1,219,-36
+1,44,4
+1,-17,128
+1,360,93
+1,-524,-351
+3,-339,-32
+2,2,-636
+1,1,129
+1,66,21
+3,-106,-36
+1,69,24
+2,-108,219
+3,385,-267
+2,-62,-25
+1,-456,371
+1,262,-624
+2,-9,871
+2,-24,-19
+2,19,-66
+1,-21,-17
+1,53,78
+1,6,-96
+1,-16,23
+2,44,-649
+1,-397,236
+2,-185,187
+1,325,190
+1,217,-45
+2,148,-734
+1,-341,919
+1,322,-652
+1,-571,227
+1,412,261
+2,163,-532
+1,-705,223
+1,92,169
+1,399,279
+4,129,-196
+2,53,3
+2,-27,2
+3,-583,-65
+1,341,-592
+1,-131,480
+1,57,-131
+1,-175,208
+1,53,43
+2,172,32
+1,366,-221
+1,-510,326
+1,444,-232
+1,-27,-16
+1,57,-407
+1,-94,413
+3,-294,321
+1,163,-179
+2,-100,-437
+1,-332,247
+1,639,-75
+1,-409,402
+1,190,-13
+2,-435,-316
+1,341,366
+1,143,-178
+1,60,12
+1,-40,13
+1,32,-113
+1,-40,-3
+1,124,-296
+1,-278,180
+1,-11,37
+1,90,409
+1,-37,-54
+2,31,5
+2,-11,-434
+1,81,54
+3,72,526
+1,28,-18
+1,46,-27
+1,-55,-38
+1,67,162
+1,-58,-127
+1,-26,95
+1,-1,-79
+1,-42,-26
+1,30,-11
+1,46,83
+1,28,-10
+1,-12,61
+1,-33,7
+1,10,34
+1,-49,-125
+1,-48,-76
+1,-8,23
+1,155,-119
+1,33,116
+1,-31,-15
+2,-34,-96
+1,18,305
+1,28,11
+1,-107,-120
+1,55,-143
+1,-32,-25
+1,-105,78
+1,132,218
+3,-59,-141
+1,108,23
+1,-4,-155
+1,-4,302
+1,42,-289
+1,-69,41
+1,-20,-145
+1,48,-15
+2,-210,-55
+1,116,316
+58,212,-242
+1,40,-23
+2,7,72
+2,135,86
+1,-65,24
+2,-2,-64
+1,-90,120
+2,-9,58
+1,41,12
+1,13,-56
+1,60,56
+1,18,-60
+1,-46,5
+3,-32,-286
+2,-74,-47
+1,33,7
+1,24,-16
+2,93,150
+1,-50,-167
+1,12,48
+1,37,-26
+2,-185,-20
+3,3,60
+1,-42,-56
+1,0,57
+4,209,60
+1,-45,-3
+1,17,16
+4,74,-154
+2,51,25
+2,-30,-127
+3,-93,-183
+3,8,121
+1,5,-54
+2,62,372
+1,26,14
+2,35,-8
+1,-10,107
+4,64,25
+3,4,-55
+1,6,-93
+3,-372,-235
+1,-8,56
+2,39,-10
+3,78,-193
+1,-25,75
+1,24,81
+1,74,-15
+3,4,46
+4,-109,6
+3,-29,-71
+8,825,884
+9,219,-275
+1,-632,-594
+1,136,354
+1,733,179
+1,-941,-1083
+1,410,272
+1,-55,823
+1,44,-954
+1,-467,-31
+1,642,1310
+1,-257,-1041
+1,-24,308
+1,106,739
+1,-221,-860
+3,469,449
+1,27,340
+1,-598,-429
+1,-35,-850
+1,-146,266
+2,1145,763
+1,-820,-886
+1,578,1248
+1,-415,-746
+1,-369,-520
+1,237,261
+1,-199,134
+1,3,-147
+1,39,223
+1,842,699
+1,-999,-887
+2,259,551
+1,892,54
+1,-896,-348
+3,-63,-606
+1,261,1404
+1,-446,-1275
+2,542,783
+1,-153,220
+1,-255,-478
+1,727,529
+1,-477,-1132
+1,-65,212
+2,-1,-302
+1,70,778
+1,-346,-215
+1,318,-98
+1,45,100
+1,405,713
+1,-335,-103
+1,734,-173
+1,-77,207
+1,-497,217
+1,295,-206
+1,-317,-88
+1,93,-111
+1,-575,-857
+2,733,887
+1,-732,-1102
+26,77,346
+1,-16,-21
+1,56,-34
+1,14,52
+1,-2,68
+1,-100,-93
+2,63,116
+10,-48,-4
+10,-12,-54
+3,41,-136
+69,384,-94
+1,25,-85
+1,39,-55
+1,41,60
+3,-68,35
+2,-42,-149
+1,752,-109
+1,-508,95
+1,249,-342
+1,65,283
+1,-697,-142
+1,171,-176
+1,-231,361
+1,660,-604
+1,-114,160
+1,1083,536
+1,-1012,-359
+1,913,367
+1,-886,-878
+1,-316,757
+1,542,-323
+1,-9,-380
+1,-631,616
+1,1041,-528
+1,-688,425
+1,538,-461
+1,13,12
+1,-636,777
+1,161,-1027
+1,99,89
+1,-189,898
+1,627,42
+1,199,-292
+1,-1172,-50
+1,5,318
+2,163,-319
+2,120,102
+5,949,149
+2,-1501,-131
+1,699,204
+1,406,-602
+1,-406,398
+1,641,-389
+1,-13,488
+1,-1182,-42
+1,1060,-302
+1,-648,39
+1,268,486
+1,91,-114
+2,252,-185
+1,-917,-181
+39,186,859
+2,477,-118
+2,632,20
+1,-1092,-299
+2,-47,105
+2,0,-138
+10,275,595
+1,965,64
+1,-1450,-516
+1,141,460
+1,-30,-541
+1,486,716
+1,-337,42
+1,-301,-13
+1,1438,-641
+1,-1248,648
+1,853,-313
+1,-512,335
+1,-225,-638
+1,-78,197
+1,-176,-156
+1,310,478
+2,882,-441
+1,0,376
+1,-180,-509
+1,294,473
+1,-1262,192
+1,1320,-266
+1,-281,-417
+1,-1093,504
+1,1216,-125
+1,-1304,-57
+1,259,-224
+1,810,67
+1,-275,-203
+1,381,428
+4,-702,231
+1,59,-4
+1,442,-727
+1,-764,297
+2,260,290
+1,-412,133
+1,1193,-639
+1,289,395
+1,-554,-116
+2,-94,-105
+1,-42,-138
+1,-459,393
+1,-281,-113
+2,881,-238
+31,-873,-862
+5,-192,181
+1,-36,93
+1,-323,-51
+1,248,-805
+2,109,402
+2,-611,10
+2,261,-413
+1,-69,1303
+1,249,-87
+1,259,-855
+1,-729,605
+1,320,-299
+1,-224,-59
+1,195,-112
+1,-71,303
+1,-42,-15
+1,10,-15
+2,-224,-171
+2,890,-354
+2,-302,643
+1,316,-405
+2,-283,-254
+1,-104,282
+1,-356,672
+1,78,-694
+1,436,-487
+2,-420,879
+1,349,140
+1,-477,-300
+1,-59,616
+2,535,-930
+1,-125,-205
+1,287,482
+1,-392,219
+1,-84,-771
+1,638,-118
+1,-484,310
+1,402,-110
+1,-253,357
+1,-518,237
+1,99,555
+1,516,-837
+1,-356,578
+1,775,-639
+1,-29,22
+1,-534,-149
+1,-324,6
+1,521,368
+2,-546,156
+1,387,-713
+1,-98,722
+1,13,195
+3,104,-797
+1,47,311
+1,-358,451
+1,208,-605
+1,179,233
+1,-325,-346
+1,-213,208
+1,756,-108
+1,302,61
+1,-699,201
+1,452,1
+1,-526,-626
+2,611,530
+1,-334,-375
+1,33,-99
+1,173,-12
+2,-101,54
+1,-30,299
+1,-518,-159
+1,628,54
+1,-751,742
+1,1043,-820
+1,-761,197
+1,-237,513
+1,832,-621
+1,-817,-229
+9,84,541
+4,-91,64
+1,-24,-48
+1,65,49
+3,2,-47
+2,-15,-69
+16,4,84
+68,-464,-1006
+1,-68,6
+2,152,-2
+2,-54,-71
+1,8,41
+1,-39,-25
+1,40,-85
+1,229,-173
+1,-434,646
+1,252,-120
+1,-49,-755
+1,8,993
+1,-32,-122
+2,114,28
+4,68,146
+1,-348,-1319
+2,95,756
+2,170,-345
+1,-27,-104
+1,-506,887
+1,297,91
+1,-275,-250
+1,38,-638
+1,7,454
+1,317,434
+1,6,-242
+2,-329,300
+1,430,-218
+1,-132,-1072
+2,-237,998
+2,-107,-346
+1,427,-600
+2,-184,270
+1,417,611
+1,-514,-733
+1,269,628
+2,230,247
+1,-327,9
+1,-56,-78
+1,165,-96
+2,82,-447
+1,27,-208
+1,-211,-117
+1,452,883
+2,-212,-105
+1,-550,-410
+2,536,-325
+1,-190,90
+1,-82,208
+1,-107,498
+1,-7,-455
+1,252,858
+2,263,-688
+1,-313,-147
+1,-213,318
+1,562,332
+1,-255,-414
+1,-402,91
+1,511,569
+2,44,-853
+1,-233,-175
+1,216,320
+2,-515,711
+1,437,-584
+1,-198,-924
+1,-126,-78
+2,71,787
+1,55,253
+1,-179,189
+1,406,-981
+1,-579,767
+1,266,485
+1,-118,-684
+1,74,533
+1,-144,-772
+1,731,879
+1,-515,-480
+1,42,-753
+1,-371,568
+2,151,-811
+1,5,231
+1,-3,-124
+1,18,17
+2,-26,-196
+1,-93,137
+4,178,127
+1,-227,260
+1,7,-470
+2,72,-133
+1,-27,-38
+1,-66,-55
+2,94,178
+1,-44,318
+5,60,-348
+1,141,207
+1,-33,-150
+1,-180,-78
+1,-4,-86
+1,-42,826
+71,538,1404
+1,-45,45
+1,-46,9
+17,-222,65
+1,-97,272
+3,378,-682
+3,-330,-26
+1,-141,897
+1,183,50
+1,98,-391
+2,-350,-448
+1,322,298
+1,65,-2
+1,-263,168
+1,212,259
+1,97,-706
+1,-271,862
+2,370,-394
+1,-164,-423
+1,-222,-20
+3,253,-189
+1,-16,308
+1,-285,166
+1,-82,327
+1,273,-444
+1,-7,-171
+1,441,213
+1,-428,-352
+1,-73,496
+1,264,-55
+1,-458,-539
+1,-21,649
+2,313,-444
+1,323,402
+2,-220,9
+1,-199,-221
+1,194,286
+1,288,-373
+1,-439,380
+1,-167,-372
+1,-83,828
+1,112,-210
+1,419,-651
+1,-414,899
+1,-42,-772
+1,563,102
+2,-548,-409
+2,-52,983
+1,594,-692
+2,-609,365
+3,253,-297
+1,168,-155
+1,181,-135
+1,81,481
+1,-454,280
+1,14,-143
+1,-289,-357
+1,37,323
+12,1202,-1370
+1,-151,75
+1,450,-459
+1,636,-12
+1,-156,722
+1,-677,-415
+1,623,83
+2,62,-394
+1,-246,830
+2,172,-737
+3,-882,42
+1,-10,192
+2,433,-270
+1,3,292
+1,525,240
+1,-681,-394
+1,282,331
+1,-627,-440
+2,32,489
+1,493,-15
+1,70,-528
+1,-690,87
+1,773,263
+1,-165,-242
+1,-292,385
+1,671,110
+1,-926,-222
+2,51,-205
+1,762,233
+1,-85,-283
+1,349,117
+1,-441,106
+1,287,385
+1,-494,-380
+1,566,175
+1,-390,-210
+1,-710,-65
+1,564,-114
+1,441,284
+1,-283,76
+1,-627,-265
+1,890,-139
+52,-597,-210
+1,963,-59
+1,-800,160
+1,-78,-94
+1,844,-238
+1,-1266,-21
+2,-69,95
+1,509,-102
+1,946,69
+1,88,-108
+1,-645,311
+3,-319,-168
+2,-142,-38
+1,-131,384
+1,-201,-212
+1,1043,-302
+1,-120,213
+2,-861,-16
+1,94,-45
+1,617,19
+1,-587,223
+2,57,52
+2,92,-64
+1,953,-509
+3,-1195,201
+1,254,373
+1,663,-634
+1,-223,84
+3,-227,132
+1,-57,-34
+1,62,151
+1,-20,-106
+1,-45,42
+1,116,-94
+1,247,-84
+2,-446,306
+1,700,-317
+1,-1316,314
+1,735,107
+1,302,-287
+1,-854,76
+1,1285,-106
+1,-336,-93
+1,-519,172
+1,260,61
+1,597,30
+1,-212,19
+1,-804,-55
+1,445,-180
+3,-532,346
+39,117,326
+1,20,-52
+1,14,73
+1,-50,24
+1,-15,-41
+1,-58,27
+1,25,-65
+3,-18,140
+7,16,-167
+6,126,128
+9,-58,-195
+10,75,40
+2,-106,211
+2,-65,-127
+53,1375,123
+10,737,561
+1,-117,-246
+1,-357,-982
+1,-60,95
+1,519,905
+1,-385,-883
+1,62,58
+1,-339,442
+1,-10,-401
+1,223,305
+1,342,-84
+1,217,503
+1,-1166,-425
+2,524,-166
+1,-190,-435
+1,869,934
+1,-491,-875
+1,298,844
+1,-78,-656
+1,-924,787
+1,322,291
+1,323,-217
+1,-347,-1104
+1,411,96
+1,265,228
+1,-255,254
+1,-349,-45
+1,-440,347
+1,877,-638
+2,-820,263
+1,736,-45
+1,-528,-89
+1,260,-107
+1,348,989
+2,278,-303
+1,-435,-186
+1,177,-362
+1,-341,781
+2,575,-618
+1,36,-412
+1,-985,704
+1,31,-265
+1,159,513
+2,691,150
+1,-672,-1177
+3,189,817
+1,465,-505
+1,-788,767
+2,246,201
+1,56,-782
+2,717,93
+4,-71,28
+1,-664,-633
+1,459,931
+1,-947,-241
+2,-18,376
+1,770,-82
+2,340,-406
+1,-447,-280
+1,221,242
+1,-62,-16
+1,149,158
+2,-722,103
+1,84,-471
+1,573,516
+6,-110,-92
+5,1068,746
+4,-393,278
+1,89,-316
+1,-344,1303
+2,-50,-695
+1,1232,-6
+2,-1065,-834
+1,10,166
+2,1180,153
+1,-892,-58
+1,-83,63
+1,291,-156
+1,274,521
+1,-710,-923
+1,293,790
+1,-153,-410
+2,907,475
+1,-342,401
+1,18,374
+1,-866,-1494
+1,1249,84
+1,-1223,-268
+1,-120,425
+3,-250,137
+2,204,61
+1,1090,532
+2,-1396,-457
+2,830,-396
+3,-255,1098
+1,-274,236
+1,1028,-871
+1,-958,577
+1,-227,321
+1,1536,-1536
+1,-950,581
+2,-439,155
+1,1281,12
+1,-1247,641
+2,626,-1051
+1,-828,552
+1,1045,-350
+2,-443,530
+1,631,-751
+2,68,-438
+2,-692,457
+1,-86,569
+1,-430,827
+2,1732,-1686
+1,-1069,256
+1,-240,-35
+4,835,598
+1,-395,-179
+1,-539,798
+1,54,200
+2,108,-364
+1,815,-842
+1,-261,-80
+1,-329,-778
+1,798,1255
+1,-159,-166
+4,6,-15
+3,-783,-129
+2,734,-448
+2,-1054,467
+1,111,-368
+3,-10,368
+2,665,-3436
+1,-126,-66
+3,1560,-320
+1,-909,1501
+1,-753,-392
+1,1124,-560
+4,-1231,350
+2,976,-451
+1,-379,7
+1,90,1038
+1,-330,404
+1,33,-844
+2,208,1695
+1,-670,-1966
+1,914,595
+3,-76,52
+1,-35,-80
+1,-142,1523
+2,-407,-1606
+2,283,-593
+2,211,434
+1,-299,-410
+1,-233,1142
+1,466,660
+1,-333,-1176
+1,163,1342
+1,566,-409
+1,-423,91
+1,92,-1445
+6,-562,-136
+1,-326,0
+1,1047,-135
+3,-640,-46
+1,582,2066
+1,-292,-595
+1,485,-1105
+3,-1339,-97
+3,1347,-627
+1,-170,1448
+1,-786,-825
+1,229,902
+2,574,-935
+2,95,2067
+2,-644,-2361
+1,558,340
+1,-407,457
+1,-191,-405
+1,-73,18
+2,48,-508
+1,357,265
+1,-212,834
+1,393,-1187
+1,-229,843
+1,-38,-825
+2,338,2039
+1,5,-349
+1,-78,-841
+1,-640,-296
+1,-306,-238
+4,825,717
+1,-440,-777
+1,-480,187
+1,486,529
+1,388,414
+1,-482,-727
+5,1604,-1004
+1,-1242,17
+1,286,-107
+2,773,-225
+3,-352,145
+2,-128,-968
+1,-131,-527
+1,-2,864
+1,742,742
+2,-1174,-175
+1,919,41
+1,297,227
+1,159,529
+1,-925,-605
+1,-377,133
+1,953,-278
+1,33,90
+3,-580,-885
+2,-511,828
+2,766,-549
+1,404,520
+1,-18,-65
+3,-19,202
+1,-990,-313
+3,350,-1378
+4,735,1713
+3,-113,80
+1,-420,4
+1,-315,-1274
+1,339,609
+2,634,864
+2,-685,-651
+1,85,-642
+2,220,732
+3,-191,32
+1,-345,-1335
+1,242,740
+1,-262,556
+1,389,571
+1,210,-509
+2,-94,-220
+2,-448,-106
+1,-4,-924
+1,-251,679
+1,271,611
+1,187,-1029
+30,-5357,-3810
+1,162,-1209
+1,96,605
+2,521,1008
+1,376,-367
+1,-704,-198
+1,-1131,214
+1,970,-74
+1,388,-128
+2,-1,-62
+1,-15,-8
+1,32,-37
+6,-620,-1055
+1,297,1185
+1,-308,-1441
+1,310,1375
+2,30,-1289
+1,102,470
+1,-376,1981
+1,325,-685
+1,22,-1402
+2,210,416
+1,-373,597
+1,-306,-251
+1,1183,147
+1,-819,189
+1,361,-392
+2,-560,-53
+1,305,-112
+1,344,-86
+1,460,854
+1,-1100,-1658
+2,-330,2000
+2,684,-613
+1,-413,51
+1,37,-1053
+1,-478,1225
+1,1125,-1209
+1,-24,1363
+1,-1492,-303
+2,1045,212
+1,197,-48
+1,136,-16
+1,-841,162
+1,676,-1557
+2,-1101,1371
+1,721,-478
+1,-241,553
+1,461,-696
+1,408,-282
+1,-1492,449
+1,1186,-459
+1,-1105,350
+1,255,417
+1,573,-564
+1,-75,-203
+1,1203,728
+1,-1178,-618
+1,321,599
+1,-926,-556
+1,1459,515
+1,-733,-1277
+2,347,1979
+23,728,-771
+1,-421,234
+1,-1451,-209
+1,700,1221
+1,623,-1251
+1,-237,833
+1,155,-1413
+1,-1211,253
+1,946,165
+1,73,-1185
+1,-152,1184
+1,41,1089
+3,-50,-1849
+1,-505,1580
+1,502,-1809
+1,-220,1412
+1,-147,439
+1,621,-43
+2,365,-325
+1,-1465,-206
+1,1051,-90
+1,-550,19
+1,1176,330
+1,-730,44
+1,75,-1089
+1,157,-77
+1,290,708
+1,-606,-52
+1,697,38
+1,-1676,-399
+1,1222,408
+1,-195,778
+1,-275,603
+1,140,-629
+1,-307,-186
+1,-109,-250
+1,-560,-635
+1,1234,1043
+1,138,174
+1,-664,-29
+1,-609,-932
+1,471,252
+1,476,-764
+1,-1062,701
+1,1563,552
+1,-1031,-1099
+1,-24,1120
+1,-47,-514
+1,890,-329
+1,-395,1011
+1,602,-584
+1,-965,-808
+1,687,398
+1,-158,1238
+1,310,-338
+2,-676,-838
+1,468,342
+1,86,334
+1,-706,-178
+1,278,-1192
+1,-649,1125
+1,432,-123
+1,462,-618
+1,43,770
+1,-133,-73
+1,-125,236
+1,54,591
+2,381,-188
+1,-931,-1269
+27,999,538
+5,213,242
+1,-814,564
+1,279,-402
+2,-516,-658
+1,260,-7
+1,582,-361
+1,-1004,301
+1,436,709
+2,228,-1299
+1,487,103
+1,-836,374
+1,73,981
+1,415,-1224
+2,-620,161
+1,958,-78
+2,-793,763
+1,415,-427
+1,798,274
+1,-1025,183
+1,-190,-530
+1,924,322
+1,-65,-150
+1,-681,633
+1,55,-1241
+1,276,1030
+1,44,-1044
+1,246,735
+1,-633,119
+1,-581,188
+1,1179,-20
+1,-846,-590
+1,11,59
+1,253,1040
+1,304,-1003
+1,-14,46
+2,438,-130
+1,-271,615
+1,173,-448
+1,84,-289
+1,-793,-444
+1,85,1478
+1,-110,-451
+2,-466,-739
+1,465,1727
+1,-196,-573
+1,-77,-958
+1,1041,790
+3,-749,-848
+1,-613,102
+1,742,-61
+1,-712,170
+1,651,-41
+1,20,-64
+2,-156,1453
+1,857,-649
+2,220,-534
+1,-1396,288
+1,238,-792
+1,57,-812
+1,-339,1272
+1,816,-334
+1,-80,-418
+1,376,1040
+31,-572,-321
+1,44,-51
+1,-27,0
+1,-24,-9
+1,80,57
+1,-52,-6
+1,-60,12
+1,64,19
+1,9,51
+2,-27,-54
+1,-60,31
+1,4,-90
+1,99,-72
+1,5,-84
+1,-34,105
+1,9,-86
+2,-28,311
+74,1568,288
+19,-348,-257
+1,37,-166
+2,275,-191
+1,285,-128
+2,12,925
+1,-579,-204
+1,304,-170
+2,-163,-566
+1,-241,587
+1,488,-428
+1,-296,750
+1,329,-401
+1,-99,680
+1,101,-917
+2,-147,67
+1,-167,-7
+1,387,557
+1,-592,-152
+3,557,-163
+2,37,-66
+1,-403,-348
+1,419,557
+1,-348,-306
+1,419,25
+1,-43,-569
+1,-597,724
+1,582,-280
+1,22,908
+1,72,89
+1,-166,-566
+1,-377,-277
+1,245,481
+1,298,-239
+1,-231,561
+1,80,-129
+3,-55,-258
+1,236,-834
+1,-100,1373
+1,-178,-528
+1,-177,119
+1,-33,-250
+1,-252,-357
+1,418,676
+1,242,-57
+1,59,-732
+2,-584,453
+1,565,450
+1,-460,-563
+1,420,-457
+1,-466,376
+1,309,-651
+2,-125,574
+1,-13,-512
+1,126,91
+17,-746,-281
+9,267,-799
+1,316,767
+3,340,-253
+1,-398,-414
+1,-393,749
+1,681,-97
+1,-793,-148
+1,391,117
+1,-94,-133
+1,-463,295
+1,840,-83
+1,-818,-108
+1,226,-65
+1,142,612
+2,233,-1045
+1,168,252
+1,-415,339
+1,-452,161
+1,1184,-570
+1,-994,609
+1,192,90
+2,-199,-1253
+1,664,469
+2,-833,263
+1,951,14
+1,-637,-422
+1,112,388
+1,73,509
+1,-509,-364
+1,-20,137
+1,543,89
+1,47,-627
+2,-130,485
+3,-232,-532
+1,-26,294
+2,390,-379
+2,609,643
+1,-1094,153
+1,500,-120
+1,348,-161
+1,-253,221
+1,-538,-747
+1,544,209
+1,-434,117
+2,329,-476
+1,-419,677
+1,86,-757
+1,109,77
+1,-229,870
+1,491,-233
+1,-260,-214
+2,242,-42
+1,-158,-77
+1,-160,-1
+1,244,-476
+1,55,1198
+1,449,-571
+1,-913,-84
+2,449,84
+1,-50,256
+1,-360,-692
+2,485,-156
+1,-506,716
+2,243,-736
+2,752,858
+1,-730,249
+1,52,-1128
+1,-71,285
+1,-72,858
+1,-125,217
+2,514,-629
+1,105,34
+1,-501,595
+2,-11,763
+1,174,254
+1,447,348
+1,-587,-438
+1,234,-137
+1,-89,1342
+1,-144,-58
+1,-15,-1212
+1,-360,152
+2,591,-102
+1,-534,524
+1,246,-99
+3,550,-173
+3,-282,-4
+1,358,72
+1,-910,-328
+1,427,586
+1,-147,123
+1,-58,-449
+1,279,-329
+1,-164,817
+1,-234,-923
+1,923,700
+1,-624,322
+1,309,-142
+1,-73,-96
+1,-810,-386
+1,600,-431
+1,-257,913
+1,-216,-483
+1,692,-112
+2,-537,14
+3,235,876
+1,-152,-897
+1,-82,352
+1,119,566
+1,543,-546
+2,-369,-53
+1,-198,404
+1,209,-817
+1,-44,1254
+1,-293,-546
+1,-60,-490
+1,704,-194
+1,-562,1312
+1,359,-318
+2,-421,-782
+1,605,136
+1,146,209
+1,-519,-313
+2,112,705
+2,18,-135
+1,-126,-700
+1,273,269
+1,-384,277
+1,223,-3
+1,-354,-386
+1,339,-1
+1,-28,820
+1,-224,-1276
+1,99,361
+1,313,596
+1,-640,-397
+1,601,232
+1,-32,-160
+3,-322,-477
+1,333,908
+1,-328,314
+19,-32,-650
+1,44,31
+1,86,28
+4,-71,4
+94,-1398,-2120
+29,-56,212
+1,-72,-32
+2,-280,-479
+2,35,325
+1,-74,-121
+1,588,-194
+2,-171,-131
+1,-259,339
+1,219,-286
+1,31,307
+1,197,-423
+2,-422,533
+1,494,-224
+1,-167,-408
+1,-350,220
+1,503,359
+2,-386,-132
+2,328,-231
+1,-558,555
+3,256,-667
+1,276,470
+1,-144,-187
+1,-450,249
+1,291,92
+1,-96,-392
+1,36,472
+1,122,-802
+137,1871,-1568
+1,-139,1227
+1,288,-667
+1,-610,68
+1,344,499
+1,-414,-192
+1,92,-578
+1,409,-78
+1,134,716
+1,-847,-387
+1,818,-576
+1,-171,954
+2,43,-147
+1,-449,-374
+1,133,276
+2,-22,124
+1,-173,-39
+1,238,310
+2,463,-437
+1,29,-616
+1,-381,200
+1,-128,707
+1,-242,-512
+1,710,-260
+1,-369,340
+1,288,447
+1,-387,-647
+1,305,2
+2,116,934
+1,-756,-538
+1,618,-11
+1,189,-389
+1,-144,547
+1,-123,-674
+1,-254,267
+1,-416,-19
+1,991,-8
+3,-718,159
+1,514,-140
+1,142,380
+1,-20,308
+1,-391,-471
+1,79,197
+1,170,-304
+1,-594,-17
+1,102,-301
+1,187,979
+1,-114,-1048
+1,-173,75
+1,33,304
+2,748,479
+2,-947,-207
+1,538,-41
+1,118,-810
+1,-565,344
+38,361,-203
+2,26,-55
+1,15,46
+1,-27,37
+1,-45,53
+2,103,-40
+1,44,-117
+2,-191,77
+90,763,527
+29,174,-456
+1,-250,581
+1,189,-69
+2,-103,-209
+1,103,-196
+2,41,214
+1,-262,109
+1,130,-255
+1,105,-311
+1,142,-4
+1,-19,124
+1,9,441
+1,-197,-37
+1,-166,333
+1,351,-564
+1,-235,-173
+1,10,679
+1,203,-72
+1,-316,-475
+51,62,1056
+30,207,19
+2,-223,130
+1,267,197
+4,-199,-515
+2,35,163
+1,-222,120
+1,230,299
+1,-230,-391
+2,404,-309
+1,-231,-17
+1,231,136
+3,-114,-280
+1,7,414
+3,97,-359
+1,-23,403
+2,-327,-148
+1,68,394
+2,304,-192
+3,0,139
+1,-135,-16
+1,11,230
+1,-349,-270
+35,-896,133
+29,25,-157
+1,254,-324
+1,-434,213
+1,357,263
+3,-78,-130
+3,-106,-584
+1,-171,775
+1,201,-501
+1,-82,-42
+1,39,660
+1,-58,-277
+1,316,-494
+1,-551,275
+1,-56,1
+1,484,-118
+1,61,576
+1,50,-287
+1,-131,326
+1,-63,-89
+1,140,238
+1,-377,-645
+1,23,134
+3,418,-178
+1,-281,597
+1,87,-933
+1,42,97
+1,-160,917
+1,-107,-356
+2,180,-288
+1,160,101
+1,-175,-7
+34,-845,-771
+2,-4,94
+7,66,-133
+10,680,458
+1,-484,114
+2,430,-723
+2,-681,648
+1,140,-452
+1,463,535
+1,72,-164
+1,-49,-142
+1,-73,213
+1,-199,342
+1,-450,-21
+1,-99,-269
+1,2,-340
+1,185,591
+1,158,-246
+1,266,76
+3,-626,-201
+1,115,82
+1,301,-416
+1,218,759
+1,-344,-30
+1,537,-912
+1,-214,249
+2,-320,130
+1,-131,169
+1,506,-407
+1,-701,286
+1,495,474
+1,-71,-433
+1,-270,-134
+1,415,-234
+1,83,-125
+1,91,34
+1,182,125
+1,-461,238
+1,-141,242
+1,-309,-409
+1,720,317
+1,-154,-93
+1,239,-337
+1,-167,399
+1,-628,294
+4,513,-235
+1,-386,-152
+1,842,-191
+1,-1005,713
+2,261,-507
+1,143,-113
+1,81,511
+1,256,-191
+1,42,-324
+22,-1026,372
+29,-135,153
+1,-10,184
+1,155,-37
+4,-79,-188
+1,-47,117
+1,217,-148
+1,-117,-200
+1,-94,-195
+5,256,238
+1,-134,549
+1,-143,-471
+1,134,-455
+1,111,273
+1,-172,-23
+1,-21,515
+1,116,-588
+1,105,-59
+1,-43,-100
+2,-100,628
+345,1813,4460
+1,-23,-78
+1,-94,102
+27,-278,78
+1,100,106
+1,37,-354
+1,-11,-162
+2,392,-179
+1,-198,-160
+1,-506,707
+1,620,-927
+1,-49,704
+1,-34,-285
+1,2,-113
+1,173,-105
+1,155,-66
+1,-66,103
+1,-313,392
+1,-15,-81
+1,529,-330
+1,-232,86
+1,149,57
+1,-276,-128
+2,132,210
+1,-135,153
+1,-301,336
+2,298,-445
+1,-113,-380
+3,-390,773
+4,-7,369
+1,490,-791
+1,98,142
+2,-258,149
+1,-363,381
+1,23,222
+1,278,-334
+1,558,-838
+1,-301,558
+1,-509,360
+1,56,-17
+1,531,-1031
+1,124,-53
+1,-425,447
+1,-108,397
+22,1078,-1054
+31,-155,-155
+1,-102,267
+1,363,-740
+1,-451,738
+1,350,-449
+4,75,577
+1,-515,-106
+1,-105,-157
+2,314,-163
+2,36,755
+1,-231,-753
+4,401,694
+3,-228,-900
+1,295,-131
+1,-360,831
+1,-31,225
+1,21,48
+1,36,-174
+1,390,15
+1,-342,-405
+1,-16,203
+1,109,-550
+1,-365,196
+1,454,-87
+1,-241,58
+2,135,-17
+1,-342,290
+1,368,358
+1,-161,-748
+1,203,569
+3,-277,-340
+26,-1664,277
+1,829,-91
+1,-345,-254
+2,302,602
+1,-124,-597
+1,101,1057
+1,-216,-1427
+1,32,159
+1,425,105
+1,-580,-457
+1,355,1360
+1,93,-670
+1,-14,251
+1,-274,-896
+1,-30,1381
+1,195,-1387
+1,216,872
+1,-57,113
+1,-511,-573
+1,-86,-333
+1,-65,-9
+1,837,1017
+1,-255,-970
+1,-145,-32
+2,-119,756
+1,8,-219
+1,243,-380
+2,-786,110
+1,446,-288
+1,244,660
+2,-471,155
+1,155,-344
+1,608,624
+3,-710,-247
+1,66,-98
+1,-34,53
+3,10,32
+1,-25,-85
+1,-129,-126
+1,-173,-212
+1,666,-270
+2,-298,-5
+1,483,983
+1,-302,-126
+1,57,548
+1,-89,-156
+2,52,-1211
+44,-127,89
+1,277,522
+3,-47,219
+1,-131,88
+1,-95,-648
+1,-219,-257
+1,559,1270
+1,88,-306
+2,-214,-50
+1,251,-852
+1,-321,649
+1,66,-522
+1,-456,-125
+1,221,461
+1,123,-263
+2,109,749
+1,143,165
+1,-449,-780
+1,291,810
+1,80,-853
+1,-480,-120
+1,811,169
+1,-918,174
+1,595,-83
+1,280,-194
+1,1,359
+2,-255,-386
+1,-294,400
+1,-73,-457
+1,-263,-110
+1,606,612
+1,-192,299
+1,-64,-565
+1,110,-879
+1,-222,910
+1,397,-49
+1,-60,-833
+2,249,876
+1,-70,-209
+1,-209,-189
+1,-300,-205
+1,280,-100
+1,179,377
+2,-297,174
+1,414,57
+1,-990,62
+1,620,-273
+1,-458,-203
+1,14,344
+2,216,530
+1,-337,-492
+2,287,-206
+1,417,1013
+39,-83,-656
+1,48,-1
+1,-57,94
+1,-43,-123
+1,60,-57
+6,71,17
+90,-1010,-700
+29,-55,133
+1,37,-524
+2,-18,674
+1,265,-535
+1,-410,721
+1,94,-649
+1,-222,195
+3,422,591
+2,-537,-233
+1,582,-457
+1,-495,-399
+4,378,381
+1,-466,-412
+1,695,586
+1,-495,257
+1,8,-449
+1,321,-106
+1,-223,419
+1,-281,-580
+1,380,888
+1,-4,-38
+3,-165,-283
+1,365,-203
+1,45,203
+1,-97,-33
+2,-426,348
+1,387,-571
+1,-197,433
+1,246,-179
+1,-197,-799
+1,-294,904
+1,187,-686
+1,-203,144
+1,-43,759
+1,182,-1034
+2,405,854
+1,58,-553
+3,-168,572
+1,-304,-974
+2,4,-82
+1,-152,905
+1,536,255
+1,156,-475
+2,-487,301
+2,-192,-985
+1,651,954
+2,-545,-555
+1,64,94
+1,452,37
+6,-432,1485
+18,-336,-435
+1,182,-232
+1,507,263
+2,-360,197
+1,-114,1
+1,-74,-238
+1,-24,-152
+1,21,370
+3,148,-338
+1,-23,82
+1,-351,167
+3,559,-316
+2,27,615
+1,-217,-96
+1,-268,-236
+1,568,198
+1,-113,-310
+3,52,175
+1,-128,11
+1,158,387
+1,64,-528
+2,-295,-67
+1,112,460
+1,-87,-662
+1,234,260
+1,65,400
+1,-22,-518
+1,-294,458
+1,-107,-241
+1,28,-61
+1,-69,286
+1,433,-207
+1,-137,138
+41,987,1050
+19,-394,-924
+1,168,210
+1,-186,493
+4,-74,-310
+1,459,454
+1,-496,-400
+1,341,-10
+1,-24,401
+1,190,-151
+1,-75,233
+5,-632,-1122
+1,15,-3
+1,99,11
+3,465,847
+3,-119,-246
+1,-3,96
+1,-118,-242
+1,68,357
+1,-320,-576
+1,591,734
+1,-102,-303
+1,-560,-491
+1,354,805
+1,-290,-856
+1,140,-192
+1,250,892
+1,74,187
+1,-61,-82
+1,-282,-373
+1,92,-259
+1,-112,5
+4,281,195
+1,-253,-426
+1,106,870
+1,127,38
+1,-95,-460
+2,414,590
+1,-278,-898
+1,-120,402
+1,286,157
+2,-329,-677
+1,268,418
+1,-242,-151
+23,-84,431
+1,-26,-62
+1,44,81
+1,-7,-125
+2,57,56
+1,22,109
+194,1997,2461
+1,-144,-297
+1,-252,-168
+1,288,639
+1,-438,-218
+1,558,-435
+1,-512,462
+3,505,-200
+1,47,181
+1,-345,56
+1,250,188
+1,461,-329
+1,-118,390
+1,-597,-932
+1,-109,465
+1,-154,-137
+1,648,87
+1,166,292
+1,-367,2
+1,-263,-107
+1,548,9
+1,-448,174
+3,-16,-438
+2,-169,30
+2,493,423
+1,-193,-705
+1,-207,369
+1,90,-365
+1,58,76
+1,-208,-32
+1,133,415
+1,-228,-631
+1,285,82
+1,157,518
+2,430,219
+2,-219,189
+1,-679,-370
+1,98,-5
+1,104,-471
+1,313,172
+1,312,168
+1,-375,-258
+1,-352,425
+6,636,-115
+1,-683,-175
+1,177,-113
+2,656,404
+2,19,318
+2,-284,-769
+1,-566,83
+3,-1,56
+1,508,626
+2,-541,-460
+1,672,271
+1,-325,114
+1,138,-109
+1,-295,-218
+2,48,-257
+1,497,267
+1,-409,213
+1,304,253
+2,106,-31
+2,-83,-91
+1,-403,-418
+2,742,-27
+1,-927,66
+1,317,62
+1,38,-263
+1,-285,484
+1,435,15
+1,-506,-796
+1,244,574
+2,-146,148
+1,12,-701
+1,126,185
+4,-499,309
+1,-334,178
+1,117,-241
+3,151,337
+2,136,82
+4,-342,-885
+1,48,78
+3,305,176
+1,-69,6
+1,-90,69
+1,-83,-117
+1,328,447
+3,-502,-475
+1,248,564
+1,162,-382
+1,-427,45
+1,411,334
+1,1,-48
+2,-55,37
+5,122,-657
+2,-322,548
+1,-66,293
+2,-58,-64
+1,0,63
+1,60,-91
+2,352,-235
+1,-416,-297
+2,317,110
+1,-4,208
+1,103,38
+2,-33,-306
+1,-62,503
+2,11,-690
+1,-352,220
+1,-13,483
+9,205,-339
+1,-155,101
+2,-19,-32
+2,356,296
+4,-269,-554
+1,61,480
+1,326,-663
+1,-516,466
+2,6,-110
+1,178,200
+1,308,-329
+1,-486,-243
+1,278,419
+1,224,-11
+2,-2,-89
+1,-76,3
+1,-136,-445
+1,-230,190
+1,-62,362
+3,-2,-306
+7,536,598
+1,-12,-23
+1,-19,-11
+1,35,-8
+1,21,0
+1,-100,35
+1,69,-69
+1,84,19
+1,-59,-25
+1,14,91
+1,-9,-26
+1,-25,-93
+1,-29,-11
+1,-21,70
+1,87,-33
+1,72,63
+1,-44,-80
+1,-119,-1
+1,-30,3
+1,-11,48
+1,127,-92
+1,80,47
+1,2,-52
+1,-49,-3
+1,-63,0
+1,-55,1
+1,-27,-1
+5,68,109
+2,-64,66
+60,49,-109
+107,-226,160
+1,-112,1
+1,77,1
+1,-34,-15
+1,8,-35
+95,-131,-1211
+1,126,-362
+1,413,-520
+1,-425,107
+1,-57,1030
+1,504,-1465
+1,-181,372
+1,-118,338
+2,-124,-747
+1,-196,1216
+4,569,-632
+1,-318,-135
+1,260,42
+1,184,-763
+2,-640,1234
+1,237,-39
+1,-281,-383
+1,427,754
+2,-440,182
+1,430,-1497
+1,77,1152
+1,67,-446
+1,125,107
+1,-549,-581
+1,363,1012
+1,193,-227
+1,-253,-835
+1,-136,1069
+2,-100,-175
+1,-88,57
+1,236,339
+2,313,-1422
+1,-652,264
+2,488,-315
+1,-180,439
+1,-139,866
+1,-87,92
+2,37,-183
+1,295,365
+1,-431,-728
+1,526,578
+2,-167,-1381
+1,-3,-144
+1,411,885
+1,-82,-690
+1,101,1448
+1,-342,-477
+1,169,193
+1,26,-656
+1,207,86
+1,-283,109
+1,-335,609
+2,56,-1233
+1,-228,518
+3,380,-790
+1,-258,819
+1,547,266
+1,-317,-396
+1,220,-709
+1,-362,807
+1,113,265
+1,-306,154
+1,686,-831
+1,-1,295
+1,-15,901
+1,-437,-1513
+1,518,-38
+1,-359,440
+1,233,165
+1,28,-481
+1,-749,1574
+1,43,-1506
+1,7,323
+1,609,-176
+1,-261,865
+1,272,8
+3,-215,-372
+1,198,608
+3,-2,-486
+1,29,120
+1,-563,-520
+104,433,479
+1,56,31
+1,-62,-114
+1,1,51
+5,-64,1
+2,26,16
+1,63,81
+1,-44,-76
+1,9,73
+1,3,-206
+1,29,246
+1,-49,-231
+7,23,84
+66,6,-8
+9,-152,-1645
+1,-120,181
+1,-246,539
+1,317,-553
+1,267,225
+1,-413,-237
+1,-113,447
+1,20,-119
+1,357,-41
+1,-174,-365
+1,-279,473
+1,40,-77
+1,263,-115
+3,134,-141
+1,-38,-114
+1,-194,480
+2,-46,-209
+1,349,-356
+4,-131,468
+1,196,-336
+1,-68,105
+74,515,1337
+9,326,-325
+1,-561,440
+2,167,-361
+3,-37,880
+3,278,73
+1,-63,-829
+2,-150,890
+1,53,-423
+1,-91,-1124
+1,-156,1205
+1,340,-166
+2,-249,68
+1,339,-1136
+1,-72,793
+1,58,631
+1,-321,-188
+1,162,180
+1,395,-949
+1,-389,758
+1,279,-641
+1,-482,-438
+2,303,1006
+1,-99,-655
+1,-11,-342
+1,-116,-29
+1,-77,130
+1,301,105
+2,31,908
+1,28,-116
+1,30,-902
+1,6,700
+1,118,-798
+1,-513,262
+1,397,286
+1,-19,132
+1,-214,144
+1,-152,-85
+1,142,381
+3,-8,-979
+1,-108,762
+1,38,-709
+1,220,-321
+1,-49,1527
+1,278,-775
+1,-242,-235
+3,-36,-488
+1,-139,936
+32,1838,-3087
+1,-374,15
+1,-177,-74
+1,519,321
+1,-73,-105
+1,362,-417
+1,-401,294
+2,163,-225
+2,-635,113
+2,365,237
+1,-434,-345
+1,322,120
+1,10,-242
+1,139,175
+3,155,-142
+1,-541,-44
+1,113,95
+1,127,64
+1,528,-94
+1,-358,-39
+1,84,145
+1,-304,335
+1,31,-83
+54,115,-468
+19,-284,4676
+1,712,60
+1,139,-501
+1,-203,245
+2,-949,-186
+1,216,0
+3,-516,375
+1,627,-298
+1,243,325
+1,-793,-255
+1,983,201
+1,-840,20
+4,1207,-107
+1,191,-373
+1,63,242
+2,-1657,172
+1,699,-190
+1,671,-57
+1,-1290,370
+1,508,-236
+1,68,-541
+1,-740,610
+1,186,-45
+5,597,-383
+1,-640,288
+1,490,83
+1,576,-154
+1,-377,334
+1,-669,-235
+1,441,313
+2,347,299
+6,135,-745
+1,-242,-344
+1,756,800
+1,-1159,-483
+1,332,555
+1,-24,-266
+1,-347,-19
+1,1083,257
+1,-562,133
+2,145,-28
+1,-1075,-263
+1,1017,-49
+1,-472,-120
+3,-142,-45
+1,258,-319
+3,-602,354
+1,359,-296
+1,179,481
+2,-74,81
+1,393,-422
+1,270,-188
+2,62,712
+3,-1036,-265
+21,297,691
+1,460,347
+2,-332,-465
+1,-144,-27
+2,-531,-350
+1,284,182
+1,654,530
+1,228,234
+1,-86,-130
+1,-50,-43
+1,-415,-319
+1,-496,-186
+1,28,-89
+1,212,233
+1,109,-148
+3,-457,-7
+7,193,-80
+1,-6,155
+1,282,-166
+1,-400,-99
+2,-153,-10
+2,1175,823
+1,-338,-271
+6,-628,-222
+4,-185,-303
+1,1342,999
+1,-1173,-891
+54,281,-226
+1,26,40
+1,36,-71
+1,-50,-20
+3,-23,30
+4,10,145
+2,104,-223
+88,383,-1594
+2,52,184
+2,-51,-757
+1,-556,977
+1,120,23
+1,494,-42
+1,96,153
+1,-580,-860
+1,521,-2
+1,-400,59
+1,-372,-174
+1,669,971
+2,-76,229
+1,143,-706
+1,185,671
+2,-602,-1368
+1,285,62
+1,82,-156
+1,-398,1019
+1,708,234
+1,-280,-1149
+1,-96,344
+1,-86,740
+1,618,96
+2,-307,275
+3,91,-1927
+2,133,1375
+1,-825,-989
+1,242,-202
+3,30,1238
+1,-165,-715
+1,717,447
+1,-750,-93
+3,139,-714
+1,359,-256
+1,-174,892
+1,-295,-367
+1,366,1155
+1,193,-1366
+1,21,614
+2,-616,-90
+1,165,200
+1,-223,-949
+1,-315,735
+1,268,592
+1,916,-931
+1,-460,-296
+2,439,1526
+1,107,-226
+1,-444,216
+1,341,141
+1,-1011,-1451
+1,29,788
+2,-69,-335
+1,947,-263
+1,-361,713
+2,-280,72
+1,223,-268
+1,-389,-173
+1,405,272
+3,-139,-811
+1,303,63
+1,-531,623
+1,27,137
+2,250,-573
+1,593,862
+1,-675,175
+1,793,-699
+1,-668,-602
+1,-382,342
+1,864,-405
+1,-98,1660
+2,-530,-2062
+1,-356,1076
+1,51,-224
+3,643,-670
+1,-245,1453
+2,868,-173
+10,79,526
+1,354,-836
+1,-513,-482
+1,455,-355
+1,-520,5
+2,608,-443
+2,-66,1670
+1,-514,331
+1,375,-321
+3,-88,-1138
+1,606,166
+1,-905,-631
+1,597,217
+2,-448,973
+1,-149,-1048
+1,224,940
+3,599,-449
+2,-4,-114
+1,-814,-264
+1,446,675
+1,-171,350
+1,346,204
+1,-601,711
+1,369,-83
+3,211,-1110
+1,153,-894
+1,-75,643
+1,-346,274
+2,482,-427
+2,-418,-34
+2,130,1229
+1,-292,-1266
+1,-233,13
+1,677,569
+1,-287,249
+1,570,-992
+1,-458,939
+1,32,125
+1,-266,348
+1,-343,-1892
+1,144,1010
+1,681,-505
+1,-857,1835
+2,533,-1037
+33,-2155,-1473
+2,52,-111
+7,507,-580
+1,81,880
+1,-196,-550
+1,-174,1578
+1,-171,-1029
+1,361,169
+1,45,-430
+2,-347,928
+1,-206,-488
+2,-111,-308
+1,626,-692
+1,-544,747
+1,-267,-104
+1,671,-394
+1,-913,471
+1,951,-173
+1,-798,201
+1,801,-613
+1,-51,266
+1,-834,540
+1,272,-314
+2,21,725
+1,821,-624
+1,-400,-178
+1,-124,953
+1,-93,-134
+1,-175,-195
+3,541,-445
+1,36,413
+1,-152,-431
+1,-715,134
+1,762,836
+2,-246,-541
+2,72,-591
+1,-186,659
+1,-247,-206
+1,345,-155
+1,-552,-27
+1,102,195
+1,619,-44
+1,-791,-107
+1,484,-277
+1,604,91
+1,-302,591
+1,73,-963
+3,-570,825
+1,44,-286
+1,638,479
+1,-504,-415
+2,245,-219
+1,-73,601
+31,914,-1032
+2,83,-5
+17,-30,83
+1,-171,-646
+1,78,987
+1,-101,-1323
+1,497,935
+1,-35,-507
+1,-136,965
+1,17,-133
+1,354,-479
+1,-362,243
+1,73,-325
+1,331,630
+1,-205,-80
+1,134,-680
+1,-186,-264
+2,-480,189
+1,105,-57
+1,-130,493
+1,272,-212
+1,-109,-466
+1,-141,1187
+1,153,-292
+3,488,149
+1,-703,259
+1,-153,-636
+1,680,237
+1,-124,-836
+1,-316,-186
+1,216,351
+3,-425,1160
+1,150,-907
+1,-108,-259
+1,769,418
+1,-679,305
+1,-60,-904
+1,-74,915
+1,199,-972
+1,633,181
+1,-76,122
+3,161,1017
+1,-511,-1397
+1,137,1328
+1,-457,-1300
+1,42,854
+1,372,566
+1,157,-1080
+1,-691,591
+28,1474,-641
+4,-452,-87
+1,1140,1178
+4,-1095,-1542
+2,-65,505
+1,265,-139
+1,1206,1121
+3,-1187,-631
+2,-200,230
+1,1081,-260
+1,-340,396
+1,-816,-528
+2,84,-846
+2,12,363
+1,1304,1065
+1,-960,-182
+1,-274,-781
+1,539,-151
+2,213,883
+3,-639,93
+1,774,-945
+1,-780,-163
+1,575,564
+1,107,643
+1,-605,-1541
+1,-143,913
+1,883,-93
+1,-467,579
+1,757,78
+1,-977,-930
+1,574,1425
+1,201,-680
+1,-1063,296
+1,966,-613
+1,459,1146
+3,-1365,-1888
+1,1074,792
+1,-267,839
+1,49,-282
+1,-839,-489
+1,-74,-859
+1,607,609
+2,473,1206
+1,-791,-475
+2,794,-683
+1,154,426
+2,-934,172
+1,-295,-514
+2,182,-58
+1,41,-227
+1,22,-390
+1,574,690
+1,226,-237
+1,-598,246
+1,-146,192
+4,763,-627
+8,-616,261
+1,-560,-303
+2,1283,1199
+2,-819,-1355
+2,-430,865
+1,357,577
+5,-1743,2348
+1,-116,-4
+2,76,-84
+5,258,-743
+2,1,986
+2,54,-19
+1,-68,-99
+1,-26,138
+6,54,-1218
+1,253,836
+1,-551,-224
+3,618,-53
+1,-513,366
+1,650,-225
+1,-112,139
+1,-608,-815
+1,237,887
+1,-430,49
+1,819,-95
+2,-884,281
+2,-51,35
+3,496,-445
+1,-375,-150
+1,454,450
+1,-176,-1030
+1,202,946
+1,244,-510
+1,-232,-8
+1,-133,446
+1,572,-187
+1,-282,-27
+1,163,-5
+2,-455,579
+4,-20,-189
+4,-240,-691
+1,468,457
+1,76,-269
+1,-440,264
+1,-130,25
+1,252,-302
+1,42,-461
+1,-83,529
+1,-280,-160
+2,226,38
+1,-218,264
+3,-73,182
+3,679,-519
+1,333,257
+1,-921,378
+1,113,-230
+1,337,-365
+1,-253,-162
+1,247,358
+1,-126,-288
+1,-115,703
+1,41,-227
+15,782,-4072
+2,108,40
+2,389,-439
+1,342,19
+1,233,81
+1,-402,-159
+1,-1088,406
+2,863,-381
+1,94,464
+1,-86,-99
+1,-184,-237
+2,-351,190
+1,854,-504
+1,-1256,454
+1,-4,-266
+1,167,-124
+1,-280,100
+3,331,138
+1,631,119
+1,-739,681
+1,-115,-273
+2,1229,-592
+1,213,81
+1,-1235,158
+1,977,-31
+1,-879,134
+3,1160,-261
+1,137,327
+1,-835,-188
+2,296,-297
+1,-1076,944
+1,595,-558
+1,-47,123
+1,-299,-507
+1,754,448
+1,-953,-582
+1,757,589
+2,-1023,-417
+2,1760,-101
+1,-1704,-101
+1,116,375
+1,223,-286
+1,302,352
+1,635,38
+1,-1036,-218
+3,-413,-48
+3,1779,324
+2,-1288,-122
+1,-39,486
+2,223,-524
+1,965,91
+1,-294,-331
+1,-585,305
+1,1322,414
+1,-867,-246
+1,112,110
+1,-500,-322
+1,-55,9
+1,-15,-44
+2,601,42
+1,247,-187
+2,-592,380
+2,389,126
+1,-793,-247
+2,-434,-446
+1,288,26
+1,69,674
+1,461,-249
+2,280,-142
+9,-383,12
+1,-19,-33
+1,32,-2
+1,-10,-41
+1,-19,-2
+1,22,119
+1,-26,-32
+1,51,-96
+1,35,148
+1,73,23
+1,-200,-186
+1,191,-2
+1,-69,41
+1,-45,-44
+1,100,246
+1,-156,-221
+1,93,79
+1,-110,-10
+1,46,95
+1,-64,-145
+1,-30,-9
+1,-45,-35
+1,1,56
+1,-57,-60
+1,173,261
+1,165,-202
+1,-1,63
+1,-94,113
+1,-105,71
+1,90,-189
+20,-86,-79
+5,65,62
+146,292,-562
+1,3,-456
+1,41,685
+1,-42,172
+1,-290,-168
+1,-225,137
+1,-131,-820
+1,814,276
+1,-35,102
+1,-623,-1143
+1,350,1379
+1,-400,-854
+1,468,502
+1,-398,-758
+1,-61,915
+1,458,305
+1,-316,-164
+1,-46,-85
+1,661,-316
+1,-76,-134
+1,-308,-107
+1,-316,406
+2,282,-646
+1,31,116
+2,119,848
+1,-171,-345
+1,272,-745
+1,27,992
+1,-431,-43
+1,-381,-1089
+1,43,-162
+1,-27,673
+1,-5,-365
+1,234,363
+1,13,918
+1,-103,-729
+1,48,44
+1,355,385
+1,80,-91
+1,-415,-1076
+1,171,1323
+1,-50,-14
+1,51,-54
+1,-36,3
+1,-51,19
+2,234,-613
+1,-165,-318
+2,-246,800
+1,678,-732
+1,-442,261
+1,204,-496
+1,-95,975
+1,108,-89
+1,141,-324
+1,-238,305
+1,-91,-227
+2,384,73
+1,-262,-71
+1,-99,242
+2,-267,-559
+1,223,259
+1,-155,76
+1,387,451
+1,-343,-586
+1,792,446
+1,-894,175
+1,406,-308
+1,88,146
+1,-281,-150
+1,315,43
+2,-451,319
+1,-16,-146
+2,188,-690
+1,369,1
+2,-364,569
+1,-200,-856
+1,121,822
+1,4,-120
+1,94,-65
+1,343,-594
+1,-230,464
+1,-104,436
+4,-6,-520
+1,-413,-304
+1,279,429
+1,635,349
+3,-474,319
+1,-9,-1
+1,-6,-13
+1,-8,23
+1,11,-41
+1,-34,81
+1,-4,-32
+1,9,-41
+1,-14,13
+1,-17,-36
+1,87,19
+1,27,-6
+1,-29,60
+1,-20,22
+1,-3,-36
+1,-26,-83
+1,-43,106
+1,115,-8
+1,-115,-45
+1,-70,11
+1,215,27
+1,-42,-91
+1,-132,60
+1,28,-64
+1,-54,119
+1,106,-156
+1,48,1
+1,59,-3
+1,0,43
+1,-1,42
+1,-238,-14
+1,272,59
+1,63,-61
+1,4,65
+1,-290,-85
+1,33,-40
+1,-83,33
+1,-1,-44
+1,51,13
+2,134,-58
+1,41,5
+1,70,87
+1,-11,36
+1,14,-76
+1,-83,-111
+1,-38,0
+1,193,190
+1,-18,116
+1,-304,-45
+4,101,-15
+1,2,9
+146,2261,1869
+1,80,-566
+1,235,726
+1,428,606
+1,-26,940
+1,7,-356
+1,-338,-1485
+2,-655,-288
+3,821,1083
+1,-215,-280
+1,-227,-396
+1,401,531
+1,-495,-841
+86,-295,-946
+1,774,-112
+1,-1512,-2
+1,1252,485
+1,196,282
+1,-1115,-651
+1,988,294
+1,-137,-1031
+1,247,676
+1,-831,6
+1,-537,170
+1,1206,-243
+3,-166,-500
+1,-253,877
+1,-448,-99
+1,920,-376
+1,-790,329
+1,470,-1150
+1,62,249
+1,557,577
+1,-673,488
+1,1183,-162
+1,-1700,-296
+5,1347,1073
+1,-309,-497
+1,-974,-110
+1,675,-136
+1,-1179,-513
+1,747,89
+2,307,261
+3,193,275
+1,-286,-760
+2,63,-368
+2,101,559
+2,-341,-642
+1,-554,1153
+1,1091,479
+1,-142,-709
+1,-437,-580
+1,445,173
+3,-1022,479
+1,151,-347
+1,980,228
+2,-863,-537
+3,687,1025
+1,3,-1059
+1,-234,555
+2,-650,-38
+1,1089,113
+1,-58,-523
+2,637,280
+1,-7,-196
+3,-811,-61
+4,-390,712
+1,-233,-229
+1,1005,-387
+1,152,859
+1,-1421,-712
+1,646,-247
+1,-136,-566
+1,396,348
+1,-596,275
+3,1103,732
+2,-228,-104
+1,-481,-804
+2,-818,401
+1,1632,1088
+1,-1363,-567
+1,156,-606
+4,41,886
+1,271,10
+1,-104,136
+1,-131,-156
+1,-32,-36
+1,-33,-40
+1,-56,-69
+2,78,-32
+1,82,47
+1,-30,150
+2,26,-125
+87,-2757,-300
+1,-107,-11
+1,53,71
+1,-71,36
+1,103,-125
+1,44,118
+3,-537,-327
+1,566,763
+2,-446,-1016
+5,202,-87
+1,-143,228
+1,-122,1548
+1,392,-1322
+1,-392,1145
+1,-58,-420
+1,287,-287
+1,187,-833
+1,-124,1558
+1,-169,-1249
+1,291,-166
+2,-56,729
+2,-469,759
+1,643,-913
+1,-504,-387
+1,356,419
+1,-257,139
+1,-41,-458
+3,-159,504
+1,352,-728
+1,-174,1460
+2,58,-234
+1,207,-1135
+1,277,665
+1,-5,-897
+1,-439,1584
+2,-120,-564
+1,40,-1036
+1,-214,484
+1,415,639
+1,-416,-1122
+1,29,1185
+1,530,-961
+1,199,213
+1,-33,231
+2,-135,497
+1,22,-735
+1,-535,60
+1,157,630
+1,419,-826
+1,-21,513
+1,-537,30
+2,170,-386
+1,604,424
+1,-314,213
+1,-486,-954
+1,223,1073
+1,174,-293
+1,-186,-721
+1,-231,1124
+1,101,-716
+1,186,-120
+1,-310,-164
+2,369,697
+2,435,-98
+1,-542,-837
+1,475,79
+2,-133,-97
+2,-164,1279
+3,-266,-634
+1,533,-160
+1,62,-264
+9,-195,-1296
+2,91,-111
+4,-558,765
+2,1,-221
+1,224,-634
+1,716,407
+2,-982,-331
+1,-37,286
+2,179,475
+1,543,-477
+2,-189,-1069
+1,-501,1359
+1,674,-786
+1,-236,-523
+1,-281,826
+1,372,174
+1,-391,-78
+1,133,626
+1,-369,-826
+1,709,400
+1,-708,181
+1,807,-1069
+1,-698,143
+1,150,893
+1,-212,-369
+1,464,-244
+1,-209,909
+1,-268,52
+1,459,-818
+2,-348,-285
+2,498,-209
+1,-357,1049
+1,-155,262
+1,916,-735
+1,-805,747
+1,208,-59
+2,127,-444
+2,164,-234
+1,-723,239
+1,791,149
+2,109,-811
+1,-308,135
+1,-55,-344
+1,318,857
+1,51,-192
+2,-513,-527
+2,119,27
+1,167,593
+2,-284,-87
+3,-66,102
+1,547,264
+2,123,-37
+1,-636,62
+1,408,-952
+1,20,272
+1,-592,-240
+3,271,676
+2,76,-97
+1,-89,-777
+1,364,598
+1,-149,-1097
+2,83,400
+2,-50,-241
+1,-416,517
+1,-257,1001
+1,383,-770
+1,-37,541
+2,149,166
+3,182,-83
+1,-524,-110
+1,72,-469
+3,87,-952
+9,-258,-811
+1,21,1058
+2,761,-1264
+1,-418,559
+1,223,-314
+1,-585,-471
+1,-101,690
+1,413,658
+1,-222,-434
+1,246,671
+1,-425,208
+1,363,-1372
+1,189,364
+2,-32,44
+2,-508,783
+1,335,-1345
+1,-353,68
+2,327,469
+1,347,-192
+2,-413,-466
+2,705,-183
+1,-672,1104
+1,-286,-1070
+1,567,201
+1,-195,-188
+1,-23,564
+1,582,-428
+1,-840,1229
+1,211,-1385
+1,217,1213
+1,-476,-929
+1,177,45
+2,547,-248
+1,-676,1109
+1,403,-732
+1,196,648
+1,-401,-743
+2,-60,78
+1,-104,-281
+1,742,279
+1,-770,-136
+1,309,1147
+1,-114,132
+1,-122,-520
+1,133,658
+2,214,-1666
+1,-329,630
+1,478,322
+1,-649,-28
+1,55,-391
+1,723,-211
+1,-167,-84
+1,-494,1333
+1,343,-1014
+1,-489,-466
+1,491,937
+1,245,-334
+1,-478,919
+2,503,-1408
+2,-40,668
+1,-568,833
+2,351,-804
+2,-230,-393
+1,226,-253
+1,-402,494
+14,1479,541
+6,404,-1025
+1,-259,62
+1,-120,1193
+1,430,-1748
+1,36,-128
+1,-462,364
+2,-521,1000
+1,708,-248
+1,-375,513
+2,-116,-881
+1,770,-878
+1,-871,527
+1,834,104
+1,-575,830
+1,-223,-462
+1,-386,751
+1,1065,-1375
+1,-34,765
+1,-116,-491
+1,-340,1484
+1,-357,-1031
+1,198,627
+1,488,-674
+1,-353,-275
+3,783,21
+1,-45,-379
+1,-1041,965
+2,-120,-480
+1,1059,-573
+1,-765,911
+2,372,887
+1,308,-1094
+1,-794,103
+3,1102,-459
+1,-467,234
+2,-175,982
+1,34,-390
+1,-220,444
+2,-568,-555
+1,627,-792
+1,-48,-189
+1,-532,656
+2,526,263
+2,152,-387
+1,-694,338
+1,166,-449
+1,413,275
+1,-579,791
+1,1161,-1014
+3,-1022,964
+1,681,-449
+2,77,434
+1,580,-1265
+2,-657,-62
+1,-474,1314
+1,581,-1387
+1,-129,1210
+1,-586,-996
+1,315,1001
+1,82,-59
+1,-502,85
+1,245,-73
+1,15,-133
+2,-312,19
+1,767,382
+1,90,-280
+2,-710,-838
+1,-121,605
+1,-85,197
+1,-102,47
+1,728,-636
+1,783,-628
+1,-1189,923
+4,850,1311
+2,87,28
+1,-44,158
+3,97,-534
+1,241,-803
+1,211,-412
+1,-446,1355
+1,264,-1445
+1,-440,927
+1,327,1416
+1,31,-880
+1,165,-1160
+1,-474,450
+2,347,468
+1,158,-541
+1,-544,813
+1,113,11
+2,50,-1332
+1,539,-180
+1,-606,957
+1,477,-724
+1,-286,63
+1,198,1087
+1,-243,606
+1,44,159
+1,-74,-916
+1,288,-834
+2,-393,169
+1,27,478
+1,220,96
+2,182,929
+1,-178,-1987
+1,-66,1392
+2,425,1060
+1,-388,-2344
+2,214,1329
+2,-39,-477
+2,-253,-659
+1,587,2290
+2,-663,-1576
+1,162,1177
+1,260,-1653
+1,-123,36
+1,-307,518
+1,58,930
+1,146,352
+1,262,-219
+1,-213,-1439
+1,273,-228
+1,-758,620
+1,295,1060
+1,322,-420
+3,-255,-110
+1,-300,-379
+1,5,225
+2,-36,-301
+2,427,406
+1,-294,-86
+1,135,42
+1,-199,-392
+1,138,440
+1,85,-760
+1,-85,904
+2,-83,-1455
+1,351,940
+2,-98,30
+1,-120,-646
+1,424,1694
+1,-593,-723
+2,280,-843
+12,522,961
+24,21,-151
+6,147,640
+2,460,-1052
+1,-613,-246
+1,468,402
+2,-560,-526
+1,-107,239
+2,3,-136
+1,436,974
+1,100,-121
+1,-504,-478
+1,262,691
+2,-307,-1208
+1,603,1213
+1,56,-198
+1,-609,-179
+1,58,418
+2,720,-605
+1,-641,-727
+2,125,1174
+3,755,-1001
+3,36,148
+3,-463,-250
+1,-232,990
+1,-101,-511
+1,539,-206
+1,-482,520
+1,288,744
+1,246,-1525
+2,-445,751
+1,-224,-129
+1,365,73
+1,-643,-149
+2,565,-454
+2,-210,205
+2,28,-141
+1,1,-212
+2,647,666
+17,-271,-1345
+9,519,-698
+1,-517,509
+3,-196,-415
+1,-339,740
+1,1138,-280
+1,105,-588
+1,-1060,1309
+1,672,-1229
+1,-872,-18
+1,709,595
+1,-864,-488
+1,1503,-419
+1,-1421,1194
+1,455,-1137
+2,-299,1437
+1,148,-509
+1,358,-872
+2,-887,714
+2,407,-160
+1,73,131
+1,1206,-31
+1,-637,-491
+1,-764,441
+3,1263,-182
+1,-367,133
+1,395,413
+1,-1283,-609
+1,473,732
+1,639,-638
+1,-292,-477
+1,-216,166
+1,479,-191
+1,-520,433
+1,426,-431
+1,-955,1289
+1,666,-780
+1,-556,-384
+1,457,502
+2,777,236
+1,-359,44
+3,-469,-899
+2,30,-35
+1,2,15
+2,-818,440
+1,1197,710
+1,-696,231
+1,985,-1409
+1,-457,956
+1,-160,460
+1,-484,-176
+1,171,-541
+1,5,542
+1,589,-1164
+1,-157,1271
+1,-566,-305
+2,465,99
+1,-477,-698
+1,272,-265
+1,726,-158
+2,-1459,355
+1,1221,170
+1,-136,-9
+1,-770,415
+1,319,-26
+1,-428,360
+1,1003,-231
+1,-1184,-425
+1,1073,296
+1,431,-151
+2,-983,-637
+7,962,1824
+20,-113,-593
+2,1199,813
+3,-1220,452
+1,817,101
+1,-492,514
+1,810,-631
+1,-773,-345
+3,-420,9
+1,362,-897
+2,-291,1549
+1,228,5
+2,301,308
+2,-717,-724
+3,576,-1253
+2,5,-120
+1,-93,1014
+2,843,1456
+1,-535,-1394
+1,-544,-1060
+1,254,389
+1,575,1653
+1,148,-390
+1,-1450,-266
+2,592,594
+1,539,-296
+1,-561,-116
+1,442,-144
+1,-158,68
+1,-973,272
+1,644,-590
+3,527,-378
+1,-311,-148
+1,893,1624
+1,-244,135
+1,-542,-1655
+1,114,-474
+1,-870,1337
+1,1701,-1148
+3,-1252,-51
+2,-86,86
+2,223,1160
+1,-105,-309
+2,182,-487
+1,134,-948
+1,369,1168
+1,545,-381
+2,-979,1072
+13,315,-2360
+9,98,-798
+1,766,1939
+2,-633,-1755
+1,437,809
+1,-982,56
+1,-63,-606
+4,820,-350
+1,-592,-45
+1,14,299
+1,-180,-155
+1,640,1071
+1,-301,23
+1,581,-505
+1,-378,828
+1,437,-1588
+1,-115,383
+2,244,-479
+1,-329,606
+1,54,-429
+1,132,292
+1,140,-31
+1,-1204,423
+1,701,203
+1,-60,-328
+4,-416,509
+2,302,-1289
+4,-312,1110
+2,-35,-290
+1,925,540
+3,-828,-430
+1,987,-931
+1,-69,1558
+1,-423,-1338
+1,-8,357
+1,81,460
+1,-311,-365
+1,369,749
+1,-440,-1044
+1,638,1400
+238,-5803,-1316
+1,1284,-21
+1,-542,-77
+1,-670,-37
+1,518,205
+1,722,-207
+1,3,10
+3,-1507,-32
+2,782,-462
+1,-311,653
+1,-171,-331
+1,313,-18
+1,453,16
+1,155,139
+1,-235,-162
+2,-117,161
+1,-406,-161
+1,581,244
+2,129,55
+1,-1270,-13
+1,1533,199
+1,-1056,-24
+1,870,-80
+1,-727,-871
+1,401,927
+1,-860,-642
+1,548,508
+1,189,-280
+1,-493,420
+1,526,-542
+1,-379,-66
+1,-163,-103
+1,-526,672
+1,760,-298
+1,-277,-712
+1,661,703
+1,249,-260
+1,-548,-166
+2,-218,-218
+1,-247,221
+1,560,92
+1,224,15
+1,-1219,690
+1,1634,-510
+1,60,-331
+1,-925,-357
+1,118,571
+1,707,-123
+1,-450,516
+2,435,-215
+1,-358,-443
+1,-625,-362
+2,1125,720
+1,-1398,-901
+1,84,260
+1,526,810
+1,444,269
+1,-911,-1261
+1,57,398
+1,527,970
+1,-728,-487
+1,337,-184
+1,1090,207
+1,-1283,-242
+1,17,150
+2,990,88
+1,-24,-393
+1,-663,608
+1,-393,-695
+25,622,755
+1,65,-12
+1,-83,-32
+1,-9,-99
+1,88,18
+1,-122,112
+2,68,67
+7,-14,-117
+80,-6,16
+4,1412,-354
+11,-558,-46
+1,191,602
+1,-90,-658
+2,823,665
+1,-216,-1135
+1,-435,1073
+1,639,-1204
+1,-831,879
+1,149,-524
+2,103,447
+1,1100,-161
+1,-928,-573
+1,-96,997
+1,588,3
+4,-1000,-854
+1,1247,182
+1,-1113,1
+1,100,505
+1,462,-426
+1,-86,-266
+1,-188,1086
+1,75,-361
+1,638,-452
+2,-815,97
+1,78,-142
+1,139,-84
+2,-19,524
+1,161,251
+1,657,-796
+1,-1128,275
+1,-201,-183
+2,894,436
+1,-77,322
+3,651,-335
+1,-601,-249
+1,247,166
+1,-614,-896
+1,119,1364
+1,840,-157
+1,-296,-780
+1,123,426
+1,-528,66
+1,-33,197
+1,-116,29
+1,298,-311
+2,-722,404
+1,656,-111
+1,625,-531
+1,-1091,-207
+1,350,54
+1,225,209
+1,-23,-281
+2,-874,938
+2,213,-1063
+1,767,812
+22,-1705,-1171
+10,-60,275
+1,542,-619
+1,-888,29
+1,741,374
+1,-1058,-59
+2,156,-926
+2,389,1486
+2,338,-60
+1,767,-422
+1,-473,242
+1,136,-325
+1,-466,-1267
+3,-397,873
+1,-457,293
+1,284,-12
+1,209,113
+1,77,388
+2,-16,-339
+1,-470,-748
+2,937,963
+2,125,-1683
+1,-334,1612
+1,302,-1266
+1,-850,417
+2,204,82
+1,1129,-825
+1,-329,-13
+2,377,1085
+1,-596,791
+1,362,-621
+3,-23,367
+1,-1175,-9
+1,590,-1087
+1,-639,418
+2,930,91
+1,-173,268
+2,-907,-281
+1,1474,-636
+1,-789,815
+1,-246,-362
+1,377,-798
+1,-419,1469
+1,-326,-556
+1,684,31
+1,-329,-481
+1,396,-215
+1,620,-53
+2,94,343
+1,-778,1279
+1,-197,-881
+1,-336,535
+3,1050,-584
+1,-1239,230
+1,1357,-432
+1,-332,51
+1,-339,-33
+1,700,228
+1,-370,184
+1,460,304
+15,975,-536
+19,-200,-1610
+1,473,2236
+1,-330,-21
+2,-405,-595
+2,715,29
+1,-254,175
+1,-28,-1359
+1,-292,1377
+1,674,581
+2,-152,-311
+1,-45,-290
+1,-471,249
+1,-13,-842
+1,-318,837
+1,953,-1548
+1,-724,471
+1,270,1054
+1,-482,-157
+1,973,-256
+1,-764,-1645
+3,404,2043
+1,405,-38
+2,-259,-1280
+1,115,1257
+1,-517,-1651
+1,228,890
+1,91,-926
+2,83,2102
+1,-605,-1922
+1,714,683
+1,156,-154
+3,-597,483
+1,-115,229
+4,-14,-225
+1,46,-791
+1,-360,278
+1,658,1437
+1,-638,-829
+1,27,-322
+1,521,-424
+1,23,-792
+1,-437,639
+1,301,1192
+1,-68,-1346
+1,-518,1010
+1,328,471
+2,270,-294
+2,359,-245
+20,-1135,-1626
+19,325,115
+1,-1067,-974
+1,725,1204
+1,-1263,726
+5,-71,-522
+1,54,196
+2,743,-922
+1,391,-80
+1,-1015,1146
+1,211,-232
+2,856,-122
+1,161,-1293
+1,-1457,1910
+2,1340,-451
+1,-867,-304
+2,154,-1609
+1,135,1677
+3,-393,-1580
+1,678,1836
+3,-976,-2120
+1,1070,491
+1,213,-429
+2,-1189,979
+4,645,-56
+1,-494,-487
+2,461,252
+1,-548,537
+1,1390,406
+2,-1431,-1074
+1,825,-619
+1,-258,1612
+1,-17,542
+1,-607,-1331
+1,-211,1795
+1,96,-2010
+2,-11,-286
+2,780,1094
+1,-382,-1364
+2,52,867
+1,-287,699
+4,201,28
+1,68,-323
+16,1781,20
+19,38,-2175
+1,396,1459
+1,-1090,-486
+1,333,-86
+2,-37,628
+1,18,-1149
+4,337,1330
+1,255,548
+1,244,252
+1,-391,-1488
+1,331,-334
+2,-741,428
+2,838,-794
+1,-191,1425
+1,90,-1898
+1,127,1394
+1,-105,596
+2,-313,-1379
+1,429,378
+1,-227,1658
+2,250,-262
+1,-441,-2529
+1,342,-186
+1,-354,1
+1,-341,2351
+4,287,-424
+1,96,315
+1,150,230
+1,222,-532
+1,-59,-437
+1,-565,553
+40,-1145,-2223
+1,-90,-214
+1,-27,372
+3,154,-59
+8,-830,1187
+2,-238,-281
+1,1843,-1700
+1,-763,527
+1,60,375
+1,1306,-592
+2,-2094,599
+2,2131,-1014
+1,-1642,1209
+5,-205,-857
+2,602,-40
+3,-1041,-165
+2,1267,1337
+1,-870,-642
+3,725,-314
+3,-617,439
+1,220,-752
+2,-639,267
+1,1211,1508
+2,-992,66
+1,276,-1482
+1,-440,1226
+2,826,-1687
+1,1613,541
+1,-2631,872
+2,1758,-262
+1,-767,-820
+1,667,222
+1,-668,550
+1,526,-835
+1,-1629,369
+1,134,480
+2,98,-407
+1,781,607
+2,108,-718
+1,-1161,635
+2,393,126
+1,117,-1064
+2,499,1590
+1,1143,-1506
+3,-667,-253
+1,-801,1281
+2,-519,-701
+1,1207,-744
+2,-54,736
+2,266,531
+1,-51,-547
+2,-513,1004
+1,143,-257
+1,351,90
+1,-73,-1211
+1,-1404,1172
+5,1377,-1466
+202,1950,7132
+1,523,-656
+2,55,126
+1,27,320
+1,44,-253
+1,-72,-253
+1,-717,455
+1,1019,-242
+2,-399,-300
+1,14,376
+1,-884,-185
+2,534,538
+1,774,-648
+1,-1323,-388
+1,392,962
+3,301,-193
+6,-103,-549
+2,486,237
+1,-1089,726
+1,738,-1003
+1,-692,16
+1,359,-265
+2,818,489
+1,-98,468
+2,90,-32
+2,-1056,-690
+1,-152,779
+1,934,-50
+1,-1001,-582
+2,1419,522
+1,-67,-712
+1,-608,855
+1,485,-351
+1,-528,-767
+2,-34,969
+1,-2,-258
+1,-582,99
+1,364,-488
+2,820,-260
+1,-812,661
+1,-244,296
+1,651,-172
+1,-564,-283
+1,7,533
+1,363,-946
+1,321,42
+1,181,166
+1,60,-134
+2,-1127,267
+1,478,82
+1,-308,-423
+2,698,157
+1,-14,-325
+2,-709,1132
+1,58,146
+1,-2,123
+1,251,-369
+1,342,34
+1,1,-425
+2,-554,223
+21,613,309
+1,-71,13
+1,-63,-16
+1,103,34
+96,971,-337
+1,54,66
+1,49,-90
+1,-10,-206
+1,-5,-24
+5,451,-717
+2,-711,115
+2,232,500
+2,952,54
+2,-1287,384
+1,-116,181
+1,1322,-864
+2,-179,60
+1,-1099,666
+1,648,-927
+1,443,720
+2,-62,-670
+1,-681,548
+1,646,-898
+1,-1021,421
+1,709,-7
+2,0,283
+2,-112,63
+1,628,-22
+1,-303,104
+1,365,3
+1,140,-1287
+1,-1284,1200
+1,1073,-214
+2,-195,19
+1,-404,22
+5,713,-669
+1,-549,305
+1,-320,322
+3,-180,-450
+1,1223,-204
+1,-913,1154
+1,-594,-85
+1,521,-53
+1,9,-783
+1,617,72
+1,-395,730
+1,439,-559
+3,275,288
+1,-955,-260
+1,-246,221
+2,943,-529
+1,-303,367
+1,518,501
+1,-905,-695
+1,289,322
+1,-805,174
+1,198,384
+1,934,-351
+1,-1016,-367
+1,173,702
+3,1075,-1495
+1,42,674
+19,-756,-951
+9,425,-660
+1,78,996
+2,-479,-1480
+3,679,234
+1,-219,399
+1,232,-993
+3,-656,2083
+2,639,-609
+1,-362,-298
+1,-190,103
+2,-185,550
+2,758,-1504
+1,-428,1593
+1,205,-611
+1,-595,-683
+3,-74,756
+3,556,390
+1,447,-698
+2,-1205,-552
+2,528,148
+1,-279,1386
+1,290,-32
+1,-17,-1053
+2,-337,-93
+3,145,206
+1,598,457
+1,-56,-732
+2,-62,1194
+1,-907,-676
+1,269,-145
+4,-188,841
+1,479,-684
+1,538,-406
+2,72,234
+1,-187,-642
+1,228,318
+1,-643,-475
+1,720,217
+1,-974,948
+2,957,-146
+2,-1117,-83
+3,647,222
+2,-575,51
+1,-72,320
+1,1,-247
+1,492,-50
+2,278,-1467
+1,-123,620
+1,-154,47
+15,-1435,832
+1,-2,79
+3,33,-9
+8,-930,-635
+2,377,847
+1,1189,124
+2,-130,-1278
+2,-360,781
+1,379,-219
+1,154,-329
+1,-166,-425
+1,-549,737
+1,575,976
+1,-236,-461
+2,-410,-1170
+1,397,1575
+1,304,-2083
+1,-1001,1753
+2,-142,-218
+3,-290,142
+2,1591,-988
+1,-1699,737
+1,310,-331
+1,-103,794
+1,379,-812
+1,910,499
+1,20,-1460
+1,73,1358
+3,-251,578
+3,144,-1767
+1,90,1743
+2,-956,-723
+1,719,223
+1,-1051,-224
+2,116,659
+2,-58,-1028
+1,340,1130
+2,842,-2281
+1,121,1864
+2,-1004,240
+1,266,-961
+5,-236,680
+2,-536,508
+1,1044,-1392
+1,47,529
+1,27,-1516
+1,-59,776
+1,-73,1542
+1,-144,-56
+1,-10,-165
+1,-66,-1477
+1,-201,468
+1,701,969
+2,27,-926
+1,-539,-216
+1,322,-420
+2,-795,1960
+2,778,-359
+2,23,-1837
+1,-913,661
+1,869,292
+1,-373,800
+4,47,-2189
+2,91,-54
+1,-163,73
+1,77,-102
+15,-146,-787
+1,354,894
+2,237,-1108
+1,-643,1708
+4,-298,-521
+1,-19,-986
+1,827,417
+1,447,-71
+1,-732,1126
+1,-452,-1688
+2,87,548
+3,-401,590
+2,1541,-1067
+1,-282,-318
+1,-1295,2050
+2,468,-378
+1,837,-1228
+4,-887,1663
+3,-219,-350
+2,512,-662
+4,64,423
+1,652,-169
+1,-817,382
+1,-163,650
+1,-131,-2346
+1,538,570
+1,-633,95
+1,1230,-27
+1,-918,464
+2,-480,-92
+1,170,-200
+1,108,327
+1,916,-535
+1,-424,1067
+1,-744,138
+2,1428,-692
+1,-115,-320
+1,-119,162
+2,-139,314
+1,89,-1205
+1,-1218,2137
+20,858,-3021
+19,-402,-511
+1,615,-607
+1,-241,693
+1,-719,-172
+2,1119,1238
+1,98,-416
+1,-144,-671
+3,-307,703
+1,-128,733
+1,-126,-2128
+2,772,601
+2,-51,1018
+2,-476,308
+1,-851,-613
+1,1387,-254
+1,-787,419
+1,534,-348
+1,-984,-1126
+1,915,1611
+1,-181,-1201
+1,-558,1262
+1,126,-648
+2,-379,34
+1,297,282
+1,-178,-1121
+1,647,1497
+1,-816,-886
+1,694,-694
+1,-13,793
+1,185,566
+45,1189,1139
+2,176,21
+1,93,-13
+1,2,-34
+2,-168,51
+3,-380,1070
+1,1062,-1036
+1,-959,714
+1,553,-61
+3,-720,-454
+2,487,-736
+3,531,-450
+1,-572,753
+1,-504,905
+2,735,-1084
+2,377,-1124
+3,2,-504
+1,-411,2325
+2,-274,-605
+1,338,-369
+1,-629,481
+1,47,1080
+1,977,-2005
+3,-442,1179
+1,-189,391
+3,-157,240
+2,593,-1503
+2,-51,1458
+2,-51,-762
+2,210,-1201
+3,-195,-352
+1,-655,1136
+1,-285,-741
+1,82,2466
+1,77,-1160
+1,852,114
+1,89,-388
+1,-113,584
+1,-689,-1643
+2,889,-460
+3,-621,2019
+1,54,-1211
+1,-437,74
+1,219,185
+1,872,-658
+1,-377,-24
+2,-873,797
+1,538,-762
+2,-462,1710
+1,69,-841
+2,175,620
+1,914,-571
+1,-64,945
+1,-520,-1664
+1,-53,1322
+2,449,-712
+1,-431,1336
+1,228,-331
+1,-523,-139
+2,-59,201
+1,898,-304
+1,-600,-1740
+1,371,-366
+6,-402,-613
+29,359,309
+1,-743,-191
+2,1033,132
+2,-1150,71
+3,33,-452
+5,464,524
+1,654,-373
+1,-247,-168
+2,-752,1012
+2,419,-257
+3,74,231
+1,-321,-795
+1,-233,574
+2,767,-580
+145,-3065,-5807
+1,493,874
+1,-531,2465
+3,429,-1888
+1,-750,-1106
+1,-91,119
+2,885,1777
+1,-40,-2650
+1,-601,3322
+1,137,-2454
+1,-306,413
+1,930,-161
+1,-627,1881
+2,392,-3676
+1,-221,1383
+1,-521,-860
+2,462,2839
+2,708,-545
+1,-1192,1103
+1,399,-2080
+1,-226,-2120
+1,43,1190
+1,95,911
+1,-310,-1793
+1,411,3221
+1,1527,-1328
+1,-1301,-1032
+1,-24,1952
+1,-395,-166
+1,1155,-1934
+1,-595,1672
+1,357,1003
+1,465,-83
+2,-1186,-1677
+2,50,2292
+1,93,-2056
+2,717,-218
+1,-784,-1600
+3,-318,3074
+2,207,-2670
+1,976,-286
+1,227,2660
+1,-560,-2038
+2,-255,856
+1,1134,1194
+1,-477,-314
+2,-1086,-1783
+1,-274,3639
+1,501,-2748
+1,227,1095
+1,-608,-2802
+1,65,2163
+1,634,-714
+1,-883,-334
+1,640,-25
+1,-362,401
+1,-119,-448
+1,1280,1076
+2,-162,-745
+1,-958,1451
+1,877,780
+1,962,-525
+1,-822,-1896
+1,-361,1126
+2,-1042,-1620
+1,829,-307
+1,714,2731
+2,-240,-2629
+1,-262,-475
+1,1081,2436
+1,-1012,172
+1,-1038,740
+12,515,-1027
+1,168,-239
+3,118,83
+1,-79,-212
+95,2328,3083
+10,557,1277
+1,-477,207
+1,-33,-744
+1,-889,-1152
+1,217,270
+2,62,1530
+1,497,-253
+1,495,334
+2,-671,-6
+1,801,-995
+1,-788,-1048
+2,357,239
+1,78,1438
+4,-217,-2268
+1,273,254
+9,438,303
+1,-384,-810
+1,-47,2608
+1,-653,-236
+1,862,-1625
+3,-104,1780
+1,-271,-1725
+2,600,-375
+2,102,1786
+1,-211,-1020
+1,16,1217
+1,-516,-518
+1,672,606
+1,-154,-389
+1,-170,287
+1,-903,-445
+1,1176,-1020
+1,-328,-1302
+1,-1039,2925
+1,1301,-1017
+7,-1182,1428
+3,698,-2857
+1,-461,1524
+1,1031,1263
+1,89,-1058
+25,-2606,-653
+10,-1197,1318
+1,1875,-1715
+1,-780,2038
+1,-1190,-1208
+1,2384,566
+1,-2105,-204
+1,-9,-447
+1,2163,-1995
+1,-2089,3349
+3,1639,-2524
+1,-1134,-33
+1,-148,2153
+2,1001,-290
+1,-533,-1823
+3,884,1918
+2,-1731,65
+1,887,-1496
+3,72,1241
+1,1058,-1863
+1,-767,1177
+1,585,369
+4,-1563,-155
+1,695,829
+1,-497,-615
+2,561,-1154
+2,391,862
+2,-1053,-207
+2,1204,1436
+1,-786,-146
+47,1334,-6856
+3,121,-52
+1,-343,29
+5,215,-1347
+1,1388,-751
+1,-1589,2534
+2,225,-396
+2,510,-267
+1,514,-1475
+1,-1748,3146
+1,1162,-2461
+1,-88,1313
+1,-803,-684
+1,759,-801
+2,-481,2381
+1,834,-1791
+2,554,-767
+3,-1310,2886
+2,725,-2766
+1,-272,854
+1,814,-1815
+1,-121,1468
+1,-961,-81
+4,100,961
+1,-888,2090
+1,1101,-1583
+1,-365,-1177
+1,1087,449
+2,-1000,1228
+1,-365,-298
+1,977,-2399
+2,-711,2106
+1,-162,1353
+1,-497,-671
+1,-244,380
+1,2120,-2304
+2,-499,623
+1,-1130,2051
+3,934,-1196
+1,397,-704
+1,-1366,1318
+1,-56,-974
+1,-209,1250
+1,98,-1091
+1,1780,-1067
+1,-648,-627
+1,-342,768
+1,-537,950
+2,236,1912
+1,-88,-2435
+2,1190,-484
+3,-1086,-283
+2,-410,1669
+1,181,-770
+2,1650,-777
+1,-1399,119
+1,1495,194
+1,-1528,-30
+1,908,-808
+1,-753,738
+2,38,2409
+12,1065,-551
+19,-652,-151
+1,267,-19
+1,252,-1026
+1,-31,1778
+1,-387,797
+1,503,-1860
+1,-189,1561
+1,-411,-91
+1,575,-1642
+1,180,1755
+1,-196,-2017
+1,176,-99
+1,-183,714
+3,-653,828
+2,902,1265
+1,-817,148
+2,579,-2724
+2,217,2228
+2,-19,781
+1,136,-3665
+1,-1040,2681
+1,804,-447
+54,-2172,-3213
+1,196,291
+21,-137,-133
+2,11,2
+6,-310,-350
+1,-122,385
+1,650,-339
+1,-374,312
+1,110,217
+1,61,-300
+2,-258,86
+1,834,-719
+1,-424,379
+2,-503,1611
+1,-130,-823
+1,282,137
+1,271,388
+2,-225,-599
+1,614,-542
+53,-1044,-268
+9,-979,383
+1,1041,-1061
+2,564,523
+1,-686,1485
+1,-279,228
+1,-407,-483
+2,352,218
+2,-700,-418
+1,913,-274
+1,501,-890
+2,-1692,-52
+1,413,-30
+2,725,4
+1,710,396
+1,-1184,784
+1,-117,522
+1,1371,-1632
+1,-1079,69
+1,1045,-266
+2,-895,1108
+1,-306,-1493
+3,-684,1143
+1,844,386
+1,266,446
+2,-169,-1397
+2,-6,1150
+1,-210,-1444
+1,312,1097
+1,349,-734
+1,-592,624
+1,463,-613
+1,-227,387
+1,226,772
+2,-397,-831
+1,-248,413
+1,903,-891
+2,-1374,1645
+1,1045,-976
+1,-89,574
+1,-180,-1964
+1,373,222
+39,906,-676
+1,49,91
+1,-120,-27
+1,95,-319
+4,83,173
+4,-101,107
+8,36,-624
+1,312,587
+2,-241,417
+1,445,-602
+1,-795,556
+1,845,-53
+1,-1570,-384
+1,434,129
+1,-577,-219
+1,1685,-1279
+1,-175,1089
+1,-571,1115
+1,-41,-821
+1,432,-148
+3,-545,939
+3,-368,-822
+1,167,-118
+1,996,-1215
+1,-476,2424
+1,1146,-2925
+1,-310,1384
+1,-538,42
+1,-436,143
+1,994,-320
+3,-838,813
+2,1170,-1914
+1,-766,2557
+1,324,-884
+1,-220,-619
+2,-1094,1270
+1,1234,-1328
+1,196,609
+3,-416,3
+1,232,63
+1,-200,122
+1,11,-1122
+1,48,-443
+1,-170,2023
+2,-705,-523
+1,-624,246
+1,1213,-1092
+1,558,-364
+1,144,-327
+1,-1387,1284
+26,1811,-87
+9,-410,167
+1,43,351
+1,573,-284
+1,-3,210
+1,-558,-344
+1,-56,-108
+1,487,754
+1,628,-1220
+1,-154,118
+1,-404,703
+1,-374,-552
+2,0,386
+1,268,-1091
+2,-227,480
+1,308,837
+1,208,-717
+1,237,421
+1,-881,-113
+1,951,-728
+1,-945,878
+1,130,12
+1,667,-525
+1,-82,-164
+1,13,-903
+1,-460,2361
+1,247,-1025
+65,-5970,26405
+2,-354,114
+1,-49,-7
+2,-40,-13
+1,46,-22
+2,76,-143
+2,127,-147
+1,-49,76
+1,6,-94
+1,-56,452
+1,-121,-14
+2,-74,-2
+2,416,-280
+1,-200,-43
+1,-59,457
+3,-61,-52
+1,17,-26
+3,-33,53
+1,277,-262
+1,37,107
+2,50,-670
+1,36,183
+1,-273,621
+5,21,-7
+1,163,-341
+1,-92,-41
+1,-189,481
+1,199,-146
+1,-52,-5
+1,180,-200
+1,-214,19
+1,91,101
+2,37,-348
+1,20,72
+2,-308,432
+3,23,-146
+4,205,-104
+1,-37,80
+1,-107,114
+2,198,-17
+3,-216,-202
+1,-94,219
+1,182,-78
+1,-92,-6
+1,364,-387
+1,-62,10
+1,-52,204
+1,-223,76
+1,362,117
+1,-459,180
+1,2,-27
+4,413,-471
+2,-12,277
+1,-168,-189
+1,86,278
+2,49,7
+1,-94,10
+1,-143,-120
+1,-41,52
+1,-48,191
+2,26,-33
+3,377,-76
+1,-84,-542
+1,-72,-84
+1,135,591
+2,-528,-146
+1,233,-298
+1,-188,103
+1,-94,330
+2,81,-68
+1,57,-234
+1,-71,83
+1,104,-446
+1,59,249
+1,-103,-544
+1,-86,146
+1,7,-274
+2,-30,202
+3,205,458
+1,-254,-172
+1,181,236
+3,8,-71
+1,-21,-90
+2,-123,460
+3,111,-1034
+1,-141,1157
+1,71,-65
+2,40,-260
+1,-100,-199
+1,235,-329
+1,-8,291
+1,-240,317
+2,54,-15
+1,160,-435
+1,-221,675
+1,316,-607
+1,-200,424
+1,-139,-499
+1,250,-254
+1,15,-100
+2,-224,855
+2,38,-877
+1,4,319
+1,321,-50
+1,-359,783
+1,-31,-46
+1,9,34
+1,345,-464
+1,-228,264
+3,-72,194
+2,-35,-40
+1,20,-7
+1,29,8
+1,-14,20
+4,148,-236
+2,-126,279
+1,55,-251
+1,72,33
+1,-121,-243
+1,17,-90
+1,10,519
+1,30,-440
+1,20,-351
+2,215,141
+1,-346,544
+2,63,-433
+1,12,156
+1,-59,38
+2,-20,103
+1,43,-17
+1,-75,7
+1,33,-34
+1,91,175
+1,98,-223
+1,-54,107
+1,24,-17
+1,32,27
+6,-10,395
+1,-26,7
+1,20,-32
+5,5,47
+93,-165,-127
+1,6,7
+2,-23,1
+1,23,-30
+96,-548,205
+1,486,-176
+1,-265,-329
+1,-55,-105
+2,142,542
+1,-420,-579
+1,31,42
+1,348,667
+1,-186,-661
+1,79,623
+4,196,-190
+1,-409,-503
+1,134,697
+1,218,-154
+1,-19,142
+1,-539,-823
+1,326,338
+1,125,399
+1,-65,-157
+1,-310,-487
+1,379,717
+1,67,-42
+2,-10,-38
+1,-26,7
+1,-16,21
+1,-48,-527
+1,32,156
+1,-45,-8
+2,52,-87
+1,-59,5
+1,-333,-432
+1,409,1006
+1,111,-427
+1,24,-98
+1,-108,23
+1,-201,91
+1,111,211
+1,-260,-653
+1,385,668
+1,5,-364
+1,-146,-223
+1,51,429
+1,-120,114
+1,-48,-655
+1,138,473
+1,101,207
+1,105,1
+2,27,-54
+1,-10,76
+1,-7,-99
+1,29,3
+1,-9,58
+1,-745,-768
+1,522,850
+1,106,-154
+1,35,51
+1,7,-74
+1,32,39
+1,-222,140
+1,119,-201
+1,-263,76
+1,294,124
+1,-463,-953
+1,313,910
+1,164,21
+1,-46,107
+1,-411,-674
+1,286,647
+1,97,26
+1,5,-185
+1,-20,51
+1,-322,-790
+1,488,645
+1,-434,-230
+1,402,318
+2,-245,83
+3,121,-120
+3,112,-311
+1,-73,178
+10,176,140
+1,9,-437
+1,-80,2
+1,37,17
+1,20,-55
+1,-6,-76
+4,84,61
+1,-84,-241
+1,-58,112
+1,124,592
+1,-29,-114
+1,15,-63
+1,-50,12
+1,-22,-30
+1,-140,-877
+1,179,677
+1,9,-425
+1,14,740
+2,35,-25
+2,-52,87
+1,47,-18
+1,-88,-45
+3,54,-1023
+1,-178,165
+1,170,703
+2,23,264
+2,-213,-732
+1,-39,-52
+1,168,267
+1,97,1
+1,-60,192
+1,-252,-388
+1,296,184
+1,-141,25
+1,-54,104
+1,66,-317
+1,158,714
+2,-189,-813
+1,-146,-105
+1,279,-141
+1,-257,193
+1,142,-19
+1,159,-333
+1,-49,583
+1,46,268
+1,-60,-582
+1,-317,3
+1,356,867
+1,-8,-72
+1,-186,-459
+1,138,451
+2,44,-225
+1,-84,11
+1,23,69
+20,-72,-99
+1,-79,-9
+15,307,612
+1,-2,-7
+1,-3,2
+1,-2,-2
+1,-10,12
+1,13,-20
+1,-6,-18
+1,-28,-16
+1,-34,14
+1,92,21
+1,-10,21
+1,-14,-73
+1,75,35
+1,-33,6
+1,-120,49
+1,42,-26
+1,-131,68
+1,234,-147
+1,-205,98
+1,-3,-48
+1,36,13
+1,126,-43
+1,-55,-35
+1,34,-6
+1,92,24
+1,36,33
+2,-318,48
+1,84,-92
+1,197,-46
+1,23,-56
+1,-185,100
+1,-146,152
+1,282,-245
+2,-170,137
+1,7,66
+1,-1,-168
+1,139,15
+1,52,93
+1,-26,-84
+1,-45,88
+1,-202,-4
+1,180,-93
+1,129,61
+1,-15,-66
+1,-73,59
+2,-162,145
+2,143,-184
+1,-155,27
+1,73,108
+1,72,-30
+1,-197,-68
+1,279,-123
+1,-35,176
+2,51,-56
+1,1,44
+1,-108,19
+45,81,-173
+1,-42,10
+5,83,74
+2,23,-78
+89,-354,75
+1,166,-24
+1,-118,58
+22,-73,68
+74,-540,-269
+9,-43,103
+1,-186,-177
+1,94,374
+1,174,-459
+1,35,201
+1,-37,0
+2,-99,-336
+1,-452,171
+1,393,-212
+1,42,-66
+1,-298,7
+1,279,378
+2,-450,33
+2,8,74
+1,369,-161
+1,-192,122
+1,130,-441
+1,-44,286
+1,57,418
+1,-424,-212
+1,-2,-474
+1,494,-71
+1,213,169
+1,-705,-187
+2,307,379
+1,-205,207
+1,683,134
+1,-211,-443
+1,-572,424
+3,368,65
+1,78,-604
+2,-389,124
+1,-146,-28
+1,875,221
+1,-334,143
+1,-356,-509
+1,66,560
+1,519,67
+1,-440,-360
+1,260,267
+1,-525,-420
+1,622,544
+1,-276,-591
+1,-350,292
+1,671,-331
+1,-484,35
+1,-258,536
+1,660,-91
+2,-277,159
+1,-127,2
+1,51,-539
+1,436,-30
+1,-317,409
+3,-257,78
+1,181,-73
+27,1748,-2374
+5,-604,908
+1,337,-389
+1,47,751
+2,-111,-433
+1,257,376
+1,9,132
+1,-26,-871
+1,-400,-250
+1,22,689
+1,200,249
+2,219,-608
+1,23,146
+1,-329,312
+1,-280,-379
+3,606,180
+1,35,-1259
+2,-138,800
+1,-35,-420
+2,-178,584
+1,-290,271
+1,489,-316
+4,95,-739
+1,-626,616
+1,478,1022
+1,-58,-731
+2,65,-842
+1,-579,752
+1,373,454
+1,256,-805
+2,-219,97
+1,49,417
+1,230,-445
+1,-333,832
+1,389,-723
+1,-456,-30
+1,128,762
+1,10,-983
+1,-65,538
+3,-222,61
+2,621,-557
+1,24,323
+1,-481,276
+1,253,-494
+1,68,495
+1,-330,-246
+1,412,750
+2,-96,-635
+1,-355,406
+2,466,-406
+1,-691,-227
+1,717,561
+1,-18,144
+1,-300,-1128
+1,341,-142
+2,-225,916
+1,-73,-383
+1,286,516
+1,28,231
+1,-631,-755
+3,274,549
+1,219,-841
+2,138,38
+1,-213,730
+1,206,-560
+2,-566,271
+10,438,406
+1,-117,-17
+1,111,76
+1,-88,7
+3,33,78
+1,-30,0
+1,-64,-54
+2,145,53
+1,-94,28
+2,65,-16
+1,56,-33
+86,-885,-1552
+29,256,363
+1,-523,-505
+1,221,-9
+1,-137,436
+1,123,377
+1,-17,-110
+1,113,-332
+1,-172,-506
+1,-60,690
+1,213,-218
+1,-72,-47
+1,64,117
+1,221,35
+1,-90,607
+1,-95,-713
+6,133,279
+1,73,39
+1,108,-52
+2,-370,-25
+2,94,-251
+1,32,179
+1,-71,308
+1,-136,-1010
+1,-148,37
+1,498,977
+1,-460,-438
+1,-10,-248
+1,137,0
+1,78,109
+5,346,524
+2,-576,-1048
+1,113,612
+1,6,122
+1,236,-30
+1,-289,-269
+1,297,645
+1,-35,-403
+1,-253,-395
+2,-26,209
+1,197,108
+1,94,623
+1,-196,-961
+1,599,668
+16,-597,998
+9,305,-271
+1,-662,493
+1,394,-363
+1,-362,555
+1,228,-1007
+1,-15,310
+1,-27,239
+1,174,-80
+1,279,130
+1,-696,338
+1,340,-430
+1,-387,194
+1,344,-331
+1,123,-89
+1,335,-18
+1,-535,604
+1,11,-420
+1,-16,-69
+1,279,-160
+1,-132,251
+1,158,-69
+1,213,-1
+1,-559,293
+1,-201,96
+1,159,-210
+1,12,-135
+1,-48,22
+1,340,-86
+1,19,-367
+2,-206,414
+1,88,558
+1,192,-391
+2,-132,-750
+1,-136,49
+1,231,65
+2,-221,685
+1,263,-402
+1,-177,572
+3,332,-126
+1,-370,-151
+2,55,-298
+2,-407,397
+1,380,-228
+1,-29,671
+1,79,-1174
+1,-61,550
+1,-97,42
+1,-126,332
+3,493,-409
+1,-359,-258
+1,-279,363
+1,228,115
+1,288,19
+1,-33,-62
+1,-59,86
+1,140,-362
+1,-512,115
+1,503,-359
+1,-473,560
+1,658,-113
+1,-343,-451
+22,-435,-781
+1,-5,-19
+8,-145,-16
+1,-394,-80
+1,677,-78
+1,109,210
+1,-61,215
+1,-476,-264
+1,-154,-144
+1,276,19
+1,75,-325
+1,353,751
+1,-651,-749
+1,639,1219
+1,-637,-885
+1,334,31
+1,192,867
+1,-318,-1405
+1,361,1334
+1,-622,-488
+1,435,80
+2,11,-198
+1,-344,23
+1,48,136
+1,-94,-16
+1,619,133
+1,-177,-533
+1,-136,346
+1,-13,-769
+1,-262,343
+1,444,299
+1,-713,-243
+1,14,311
+1,773,-642
+1,161,979
+4,-394,-818
+1,64,519
+1,161,269
+1,-523,-1009
+1,367,1045
+1,-701,-721
+1,775,-103
+1,-331,-277
+1,-242,402
+3,342,455
+1,-272,-237
+1,212,-408
+2,188,176
+3,301,172
+1,-100,-2
+1,-42,240
+1,188,-145
+1,-301,-521
+1,-350,402
+1,90,-319
+1,407,442
+1,-394,-267
+1,33,256
+1,-145,-359
+1,493,-76
+1,-594,518
+1,260,-449
+1,246,1121
+1,-275,-1274
+2,-337,509
+1,691,531
+1,-783,-570
+1,724,372
+1,173,-505
+2,-165,255
+1,-99,288
+1,255,-226
+1,-132,538
+10,-826,-591
+15,628,1180
+1,-37,-715
+2,-354,-246
+1,79,68
+3,368,487
+1,-421,-497
+1,357,365
+1,75,50
+2,-146,-98
+1,5,-220
+1,-73,673
+1,-26,-772
+1,-335,230
+1,238,-35
+1,-171,177
+1,164,148
+1,112,-273
+1,428,319
+2,-563,-292
+1,459,396
+1,-35,132
+1,-603,-897
+1,41,154
+1,283,-256
+1,167,882
+1,-420,-458
+1,122,88
+1,244,302
+2,-203,-16
+2,210,-129
+1,-200,-462
+1,-77,406
+5,375,-158
+1,268,359
+1,-381,213
+1,75,-294
+1,-388,-550
+1,6,395
+1,540,151
+2,-666,-396
+1,137,420
+1,173,-420
+1,231,578
+1,-209,-102
+1,92,-615
+30,-118,434
+1,31,31
+1,-5,-78
+1,-28,20
+1,23,21
+1,-73,-73
+3,15,85
+1,71,64
+3,46,-68
+1,-10,-68
+1,-2,100
+9,-49,-43
+76,-222,622
+3,-6,51
+1,53,-130
+15,27,570
+1,-199,-822
+1,72,698
+1,-158,-651
+1,69,752
+1,283,-597
+1,116,414
+1,-586,-245
+1,434,331
+1,48,-599
+1,-96,487
+1,80,250
+1,-83,-724
+1,94,-122
+1,-248,-196
+1,-171,720
+1,197,-34
+1,54,107
+1,289,-297
+1,-17,509
+1,164,-342
+1,-129,466
+1,-128,-871
+1,243,487
+1,-134,-100
+1,-423,-86
+2,95,-468
+1,206,438
+1,-529,-119
+1,30,260
+1,92,-443
+1,122,537
+1,293,-26
+1,-302,-373
+1,198,-181
+1,-493,378
+3,404,-372
+1,449,304
+1,-358,84
+3,355,322
+5,2,227
+1,-445,-112
+1,273,-637
+1,-327,84
+1,180,690
+1,-133,-822
+1,221,820
+1,-82,-494
+1,-328,-76
+1,-18,-145
+23,-116,880
+1,14,58
+8,-214,235
+1,385,296
+1,-85,-305
+1,-299,-639
+1,321,996
+1,-121,-798
+1,-187,364
+1,111,288
+1,-148,-1000
+2,225,472
+1,-1,-32
+1,23,-27
+8,-123,-427
+1,215,933
+1,-94,165
+1,-33,-15
+1,54,-26
+5,-21,-964
+1,167,337
+1,-265,482
+1,205,-847
+1,78,291
+1,-174,505
+1,231,-528
+1,-397,789
+1,329,-402
+1,1,309
+1,-293,-266
+1,-84,224
+1,35,-692
+1,-66,362
+1,331,-348
+1,-30,-108
+1,-276,-132
+1,105,77
+1,90,741
+1,15,81
+1,16,-201
+3,156,4
+1,-401,-323
+1,70,129
+1,328,351
+1,9,-356
+4,-409,542
+1,288,-363
+1,-261,-398
+1,204,338
+1,-80,-228
+1,49,-149
+1,-202,580
+1,92,-240
+1,250,-69
+2,-269,-104
+2,132,-506
+1,-71,1115
+1,56,-851
+26,-420,194
+1,30,-172
+1,-179,428
+1,305,-431
+1,-197,-290
+3,87,868
+2,67,-244
+1,-272,-16
+4,274,491
+1,-67,-1178
+3,-263,343
+1,369,-128
+1,-146,497
+1,-93,-239
+1,214,493
+1,-252,-21
+3,255,-831
+1,-69,70
+1,-254,281
+2,324,564
+1,1,-263
+1,9,72
+1,-152,-21
+1,-62,322
+5,58,-156
+2,-62,-732
+2,202,299
+2,-216,703
+1,276,-547
+1,-416,-477
+44,-561,-1133
+1,58,-390
+4,125,-544
+3,30,881
+1,-175,-250
+1,210,830
+1,-84,-930
+1,-89,-426
+1,87,624
+1,169,406
+1,85,-872
+1,-232,1047
+1,-151,-713
+1,105,641
+2,-35,-536
+1,19,-349
+1,106,547
+1,-226,-311
+1,-53,159
+1,-41,-72
+1,454,-554
+1,-285,202
+2,197,191
+1,-44,-373
+1,5,1249
+1,21,-552
+1,-382,-132
+1,204,-271
+1,-41,-347
+1,93,125
+3,-296,366
+4,651,-103
+1,-102,-488
+1,-372,851
+1,231,-788
+1,-350,490
+1,368,657
+1,301,-1093
+1,-239,1170
+1,-90,-917
+1,206,-345
+1,-112,314
+2,-31,677
+2,-208,-91
+1,-315,-408
+1,29,31
+1,109,366
+1,-65,-187
+1,473,-187
+4,-270,167
+2,160,244
+5,-134,49
+1,347,394
+1,40,62
+1,-310,-278
+1,448,-975
+1,-372,355
+1,34,1029
+1,123,-1122
+1,225,-93
+1,-139,1120
+1,-510,-865
+1,241,258
+1,-92,215
+1,-175,-481
+1,200,272
+1,103,312
+1,-451,-680
+1,389,556
+1,363,-820
+1,-354,589
+1,174,492
+1,-376,-724
+2,74,221
+1,447,-446
+103,-749,158
+2,-33,65
+1,27,-20
+1,-26,-23
+1,-35,-50
+1,15,44
+1,12,120
+6,-219,401
+1,132,3
+1,124,-1
+1,-458,-237
+1,348,365
+1,82,37
+1,-126,-561
+1,34,96
+2,24,-157
+2,7,207
+1,-6,-148
+4,98,469
+1,18,204
+1,-21,-678
+1,-690,216
+1,740,-192
+2,-248,-231
+1,-236,643
+1,-145,25
+1,472,-613
+1,-23,-20
+1,-491,283
+1,88,-44
+1,320,49
+1,-223,-310
+1,335,624
+1,359,147
+2,-584,-565
+1,449,326
+1,-215,403
+3,238,-36
+1,-169,-523
+1,-296,40
+1,-87,-448
+1,59,502
+1,176,-53
+2,0,-317
+1,-454,102
+1,932,733
+1,-620,-137
+1,-3,-499
+1,190,219
+1,-21,24
+2,-209,117
+1,324,-375
+2,-160,395
+1,-444,-96
+1,791,32
+1,-696,184
+1,724,-147
+2,-718,-565
+1,107,121
+1,-70,-145
+1,-287,488
+1,860,-131
+1,-351,66
+2,508,403
+1,-472,-698
+1,-275,290
+2,-124,28
+1,605,-61
+3,-385,69
+1,403,-13
+1,87,-172
+1,-431,-444
+2,-220,505
+1,257,-343
+3,1622,-1240
+4,-3,45
+6,295,409
+1,-516,-89
+1,611,-204
+1,-550,336
+2,467,-161
+3,-82,323
+1,-123,-353
+1,380,-12
+2,-610,421
+1,198,-292
+1,48,-196
+1,377,348
+4,148,-312
+4,-175,-123
+2,72,76
+2,-469,-64
+1,130,199
+1,-394,310
+1,698,-573
+2,-736,56
+1,483,420
+1,-483,-288
+1,443,177
+1,-270,-153
+1,318,-282
+1,-17,179
+2,-57,-77
+1,-546,614
+1,405,-103
+1,544,-584
+1,-1105,563
+1,177,-301
+1,97,213
+1,902,-396
+1,-551,51
+1,-220,-49
+1,-325,639
+1,284,-142
+1,-186,-6
+2,206,-395
+1,-324,263
+1,828,37
+3,-783,-142
+3,726,-358
+1,165,454
+1,-406,54
+1,112,-551
+2,-208,773
+1,363,-768
+1,-31,212
+21,-1119,2629
+9,-580,829
+1,532,-1001
+2,68,896
+1,35,-988
+3,-471,1060
+1,319,-1208
+1,-395,994
+1,660,-19
+1,-535,56
+1,481,-946
+1,230,1309
+1,-475,-849
+1,-151,330
+1,55,-565
+1,-19,1014
+1,390,-487
+3,-38,-860
+1,-91,855
+1,-27,426
+1,-265,-606
+2,340,66
+2,144,-614
+1,-582,1230
+1,650,-623
+1,0,564
+1,-90,-155
+1,-348,-777
+1,323,-104
+1,-114,405
+1,-675,123
+1,823,-238
+1,-345,266
+1,36,268
+1,-291,-178
+1,258,478
+1,-381,-404
+2,402,250
+4,34,-1090
+1,-96,827
+1,-328,301
+1,592,-957
+1,45,215
+1,42,-122
+1,-283,767
+1,348,-814
+1,-618,785
+1,400,-582
+1,149,165
+1,74,-64
+2,-392,-796
+2,62,562
+1,436,532
+1,-575,-13
+1,-350,34
+1,702,372
+1,-54,-101
+1,-143,-563
+1,-40,307
+1,130,-23
+20,800,-791
+9,-396,-215
+2,612,-182
+1,-422,61
+1,46,105
+1,93,-321
+2,-266,-67
+1,457,230
+1,-122,-192
+1,-104,-61
+1,-15,528
+1,18,-120
+1,16,95
+3,58,-36
+4,-342,-668
+1,114,279
+1,102,400
+1,-330,-652
+1,84,829
+1,396,-165
+1,-297,-686
+1,224,559
+1,-497,-427
+1,511,271
+1,-282,-171
+1,372,49
+2,14,219
+1,-262,178
+1,59,-411
+1,-337,-61
+1,339,204
+1,211,-42
+1,-210,417
+1,-153,-123
+1,236,-166
+2,-582,51
+1,672,223
+1,-481,-328
+1,12,-165
+1,-73,269
+1,185,-444
+2,-288,-53
+1,572,96
+2,-152,11
+2,-302,692
+2,230,-387
+1,-87,-96
+2,19,-165
+1,-198,492
+1,-22,-738
+1,587,625
+28,-196,-966
+9,-211,-407
+1,345,48
+1,12,335
+1,87,398
+2,-397,-89
+2,571,-416
+1,-149,-227
+3,-281,-124
+1,251,178
+2,181,-4
+1,-258,645
+1,-616,-182
+1,774,-227
+1,-280,-291
+1,-102,685
+1,-406,-369
+1,556,-268
+2,397,483
+1,-210,419
+1,283,-14
+3,-688,-615
+1,429,-405
+1,-610,681
+2,666,80
+1,148,267
+1,43,-604
+5,-927,2
+1,380,-160
+5,432,233
+1,-30,621
+5,-472,-461
+2,-127,-500
+1,672,603
+1,-396,-806
+1,265,990
+1,-594,-452
+1,78,-248
+2,177,341
+1,429,350
+1,-774,-255
+1,699,-165
+1,-656,-54
+1,585,156
+2,-173,-12
+4,283,-664
+1,163,912
+2,-390,44
+1,-769,-405
+3,805,68
+1,-411,158
+1,-28,0
+1,452,-463
+1,-374,290
+1,374,423
+1,-335,-961
+1,-4,253
+6,182,575
+1,23,6
+1,-61,12
+1,10,-53
+2,25,29
+1,58,5
+4,-90,-83
+1,-18,151
+89,-1237,442
+2,-58,-155
+3,-66,1208
+1,365,-842
+1,-446,-260
+1,-27,851
+1,-73,-405
+1,181,839
+1,-381,-1019
+2,372,191
+1,80,766
+1,-268,-957
+1,-236,447
+1,424,508
+1,-404,-1037
+1,275,770
+1,-178,105
+1,-97,-924
+1,544,617
+1,151,95
+1,-671,-717
+2,173,1011
+1,24,-554
+1,-192,111
+1,440,-477
+1,-208,-255
+1,-226,-30
+1,331,1085
+2,-234,-154
+1,-11,-483
+1,270,447
+1,499,-387
+1,-203,251
+2,-802,-502
+1,609,607
+1,-86,190
+1,-131,150
+2,-100,-806
+2,283,-311
+1,151,392
+1,-90,179
+1,-67,-65
+1,-78,793
+1,166,-1045
+1,249,88
+2,-813,-14
+2,860,345
+1,-746,-47
+1,-25,-192
+1,-6,687
+1,184,-254
+1,197,439
+1,-85,-1042
+1,-356,-180
+2,-63,983
+1,766,-129
+1,-721,-50
+1,678,-775
+1,-753,784
+1,390,-532
+2,-354,-177
+1,837,-143
+1,-478,-74
+1,115,-5
+1,183,703
+1,190,138
+1,103,-527
+1,-229,-41
+1,-3,-192
+1,-468,14
+1,-83,63
+1,775,-23
+1,-481,530
+1,-193,166
+1,-59,-860
+1,330,405
+1,-551,86
+1,110,-303
+1,793,-35
+1,-343,46
+1,-256,-10
+1,96,485
+1,-413,-357
+1,201,0
+1,256,-148
+1,269,418
+2,-878,-567
+1,-67,97
+1,0,-164
+2,-116,-91
+1,-95,189
+1,400,-318
+1,-553,631
+2,-157,331
+2,323,-498
+2,-436,-172
+1,744,82
+1,159,-457
+1,-250,927
+1,93,-434
+1,-262,948
+1,30,-1094
+1,245,149
+1,-178,268
+1,-279,-220
+1,473,-161
+2,-448,65
+1,577,-121
+1,-469,685
+2,372,125
+1,-323,167
+1,369,-939
+1,-121,194
+1,-65,661
+1,138,-280
+3,-461,93
+1,162,-431
+1,186,-484
+1,-487,491
+1,391,-504
+1,-280,728
+3,345,226
+1,-172,66
+1,291,-572
+1,8,-119
+1,-82,-416
+1,80,634
+1,-409,-416
+1,-208,496
+1,487,574
+2,-416,-658
+1,32,-495
+1,299,284
+1,100,227
+1,-477,191
+1,107,-529
+1,-266,-83
+1,20,166
+1,35,-57
+1,637,709
+1,4,-835
+1,-187,617
+2,-444,-598
+1,81,225
+2,320,293
+2,238,19
+1,-138,-574
+1,-421,158
+1,633,671
+2,-42,308
+3,-386,-131
+1,474,-740
+1,-145,959
+1,-286,-540
+2,151,26
+1,-393,-635
+2,3,-104
+2,47,257
+2,630,-205
+1,-487,467
+1,-244,-276
+1,809,-435
+1,-472,133
+1,358,402
+6,774,-1595
+5,-214,259
+1,175,-166
+1,-258,104
+1,58,-699
+1,247,-160
+1,-256,561
+1,-39,101
+1,299,109
+2,-425,167
+1,-124,-197
+1,463,26
+2,-301,-153
+2,222,83
+1,12,158
+2,-360,66
+2,0,-360
+1,669,398
+2,-14,80
+1,47,-14
+2,-869,-84
+1,446,-948
+1,155,652
+1,-85,-176
+1,82,210
+1,-288,-140
+1,495,395
+1,-52,-76
+1,44,25
+1,-3,-34
+2,-574,-23
+1,64,95
+1,218,-137
+1,-220,-51
+1,120,3
+1,15,144
+1,-27,69
+2,164,-471
+1,-130,-380
+4,-139,339
+1,12,66
+7,293,-434
+1,-87,544
+1,-191,279
+1,-138,-400
+1,219,3
+1,216,49
+1,141,380
+3,-397,-595
+2,-63,-116
+1,-52,22
+4,208,59
+3,-417,555
+1,544,-38
+1,-88,-377
+1,74,-170
+1,-172,-338
+10,268,1194
+1,3,7
+1,-4,-31
+1,-19,3
+1,33,-114
+1,0,120
+1,20,-4
+1,-19,-41
+1,-60,-41
+1,40,28
+1,-67,16
+1,102,-33
+1,-2,35
+1,44,-116
+1,-20,124
+1,-102,-25
+1,51,-65
+1,-39,105
+1,-2,-125
+1,101,88
+1,17,-39
+1,-129,-120
+1,-32,93
+1,90,-47
+1,-118,82
+1,31,-86
+1,-16,-38
+1,-42,30
+1,-34,68
+1,207,-6
+1,-48,-115
+1,59,63
+1,6,70
+1,58,-39
+1,11,46
+1,-6,40
+1,5,47
+1,51,21
+1,-191,-100
+1,129,-32
+1,-81,-131
+2,-46,134
+1,7,-27
+2,82,-132
+1,-7,265
+8,-66,10
+146,230,-258
+2,-118,-81
+1,-34,-142
+26,554,-104
+2,-663,-104
+1,438,-426
+1,273,128
+2,24,258
+3,-2,-421
+2,-669,548
+2,494,-21
+1,74,-181
+1,48,-564
+2,-212,804
+1,-280,-176
+1,199,-206
+1,-80,-200
+1,-46,40
+1,390,-348
+1,206,546
+4,-806,9
+2,512,-240
+2,-204,-216
+1,-20,664
+1,-51,-569
+2,-175,592
+1,147,148
+1,-83,-70
+1,-22,67
+1,186,-48
+4,-8,391
+3,-129,-227
+1,306,-484
+2,-106,100
+1,-188,-126
+1,173,-131
+1,325,-237
+1,-507,296
+1,289,-360
+1,-296,697
+1,73,637
+1,314,-797
+1,-309,-740
+1,126,984
+1,-198,-267
+11,887,-426
+29,698,-63
+1,-641,-783
+1,750,318
+1,-986,877
+1,399,-830
+1,289,363
+1,-698,44
+1,223,-697
+1,245,549
+1,-165,-172
+1,165,119
+1,-486,420
+2,178,-548
+2,734,146
+1,-255,-279
+1,-46,93
+1,-78,367
+2,-347,-608
+1,248,-56
+1,176,425
+1,401,-83
+1,-571,214
+2,-269,-77
+1,512,15
+1,-174,-308
+1,-408,638
+1,421,-827
+1,-203,653
+1,-383,-145
+1,432,-80
+2,677,101
+1,-262,61
+1,-618,352
+1,32,-752
+1,146,-22
+2,100,544
+1,479,-80
+1,-153,-192
+1,98,-125
+27,-184,-697
+29,-260,147
+1,394,203
+1,-533,-331
+1,433,180
+1,-463,-256
+1,844,-27
+1,-96,319
+1,-341,199
+1,-190,-523
+1,-28,-89
+1,172,371
+1,406,-229
+2,-152,613
+1,-109,-836
+1,22,-118
+1,73,465
+1,-202,205
+1,400,-191
+1,-519,-2
+2,482,-252
+1,-746,293
+3,733,257
+1,-310,-919
+1,-193,234
+1,-234,127
+1,494,-16
+1,124,-348
+1,44,580
+2,-106,462
+2,176,-874
+1,-451,-5
+1,383,247
+34,-2592,2161
+19,-439,-108
+1,93,86
+1,316,-341
+1,-112,1
+1,77,272
+1,-193,-364
+1,510,288
+1,-35,458
+1,-103,-282
+1,-554,-705
+1,647,520
+1,-273,-69
+2,-312,-232
+3,-149,444
+1,418,58
+1,-497,-501
+2,540,650
+5,-212,43
+3,272,-375
+2,-204,70
+3,250,43
+1,-374,-270
+1,-98,671
+1,208,-606
+4,319,87
+2,-378,656
+1,87,-598
+1,292,-266
+1,-624,70
+5,611,679
+3,-62,174
+1,195,-668
+1,-723,-36
+26,18,1109
+2,-57,46
+27,-182,-382
+2,501,346
+3,-615,-209
+1,105,265
+2,6,-437
+1,269,157
+1,-184,119
+2,-15,234
+1,359,-376
+1,-326,105
+1,63,59
+1,452,-36
+1,-152,-122
+1,106,207
+2,-512,-553
+1,126,35
+4,163,487
+3,-247,90
+2,65,-348
+3,-193,-274
+1,265,203
+2,113,120
+1,-398,240
+2,484,-143
+1,67,53
+1,-519,-15
+3,18,-60
+1,617,-102
+5,-535,381
+1,352,-430
+1,-406,-109
+1,487,353
+1,-614,-14
+1,272,-126
+2,-146,-311
+14,-216,515
+19,-81,292
+1,-775,-913
+1,611,240
+1,226,554
+1,119,-81
+1,-74,-420
+1,-744,97
+1,74,-47
+1,489,204
+1,-714,-617
+1,99,619
+3,515,-41
+1,264,457
+3,-464,-712
+2,-402,176
+1,144,-74
+1,579,-100
+4,-59,669
+1,114,-484
+1,-383,-236
+1,-6,147
+1,-297,-103
+1,682,209
+1,-563,65
+1,108,-298
+1,-309,148
+2,11,-190
+2,155,11
+3,454,454
+2,-88,-86
+1,-27,-299
+3,-34,371
+1,221,54
+1,96,-138
+1,-238,195
+1,13,-349
+3,-190,182
+1,131,-152
+2,-430,-351
+1,-53,316
+1,424,27
+1,-143,9
+1,-30,-213
+2,586,806
+19,-145,-1232
+31,-84,207
+1,-168,133
+1,680,-257
+1,-524,-552
+1,134,792
+1,145,-624
+2,-270,64
+1,84,461
+1,113,-949
+1,-327,103
+1,281,273
+1,278,442
+1,-474,-190
+5,624,134
+1,-148,157
+1,-105,-385
+1,-423,5
+1,-20,168
+1,35,-209
+1,612,157
+1,-72,-170
+3,-185,561
+1,-390,-146
+1,277,-5
+2,396,-121
+1,-275,-618
+1,6,759
+1,-30,-223
+34,2160,-3052
+10,-141,-531
+1,-172,-484
+2,221,295
+1,12,-45
+1,92,87
+1,87,182
+1,255,-688
+1,-677,856
+1,189,265
+1,146,-26
+1,89,-46
+2,125,-555
+4,-42,-605
+1,-279,616
+1,-125,-307
+4,-22,225
+1,432,486
+1,-90,-123
+1,-154,201
+3,-328,-254
+8,719,-376
+2,-322,-47
+2,-42,-40
+1,34,-14
+1,10,24
+1,-67,43
+1,62,83
+1,-41,-4
+1,102,5
+2,197,-55
+1,-584,285
+1,669,-94
+1,-544,-175
+1,71,10
+1,-31,-61
+1,188,265
+1,14,303
+1,104,-554
+2,-371,241
+1,141,317
+1,213,-468
+2,-157,229
+1,-84,-74
+1,-17,197
+1,242,-191
+1,-517,-333
+1,656,-321
+1,-600,533
+1,147,-151
+1,-49,3
+1,-60,-41
+1,584,380
+1,-43,114
+1,-444,-317
+2,268,89
+1,223,-382
+1,-630,401
+2,458,-647
+1,-425,1080
+3,404,173
+1,-83,-432
+1,354,-901
+3,-365,290
+1,-9,-2
+3,12,12
+1,-1,21
+2,-20,-16
+1,-19,18
+1,-32,-5
+1,23,-21
+1,-21,-1
+1,-22,0
+1,-56,-4
+2,191,24
+1,15,52
+1,49,-51
+1,-3,59
+1,-75,0
+3,-21,-7
+1,-7,-17
+1,-1,45
+1,-15,-2
+1,-2,-42
+1,-24,3
+1,-16,38
+1,-14,-45
+1,-75,-30
+1,20,30
+1,34,84
+1,-83,-29
+2,82,81
+1,-81,-137
+1,35,72
+1,0,66
+6,-89,-191
+1,5,24
+1,-31,17
+2,13,83
+1,307,-160
+1,43,2
+1,4,-95
+1,56,-2
+1,6,100
+1,0,59
+1,-7,50
+1,3,47
+1,-43,-12
+3,-75,32
+2,185,-237
+1,-15,61
+1,-8,49
+1,1,55
+1,-3,41
+234,314,-233
+1,619,392
+18,234,34
+1,-578,-639
+1,-13,434
+1,298,-358
+1,72,820
+2,252,171
+1,-408,-985
+1,314,-242
+1,-686,862
+1,102,-340
+1,689,-430
+1,-264,335
+1,-25,-20
+1,19,-55
+2,-406,45
+1,288,-672
+1,19,949
+1,-635,-339
+1,61,-157
+1,808,639
+1,104,265
+1,-754,-647
+1,-258,5
+1,1055,-501
+1,-216,-250
+2,-720,572
+1,437,-151
+2,-47,-235
+2,351,744
+1,-737,-125
+1,573,-411
+1,312,614
+1,-330,-291
+1,352,537
+1,-586,-500
+2,585,-162
+2,-451,324
+2,-513,195
+1,616,-818
+1,226,929
+1,-49,-704
+1,-410,524
+1,240,-870
+1,93,1033
+2,-287,-882
+1,-225,696
+1,682,-249
+1,17,-202
+1,-878,378
+2,763,-218
+1,-284,-34
+1,300,817
+1,93,-1668
+1,-408,717
+1,-478,-178
+1,393,201
+1,583,203
+1,-236,-483
+2,-67,548
+1,-492,33
+1,704,-843
+1,-964,814
+1,149,240
+1,360,-306
+2,507,-1012
+1,-568,1402
+1,610,-1092
+1,-143,897
+2,-631,-429
+2,-17,-2
+1,-58,-60
+1,156,82
+1,-57,21
+1,-53,63
+94,68,1161
+19,90,-511
+2,-402,547
+1,-23,210
+1,106,-450
+1,168,-20
+3,50,755
+2,244,-109
+1,-201,274
+1,632,-884
+1,-1109,285
+2,593,48
+1,175,-549
+1,-552,66
+1,42,297
+1,-218,404
+1,498,-720
+1,266,534
+1,7,-434
+1,-558,467
+1,126,-602
+1,561,649
+1,-201,13
+1,-73,-658
+1,-37,177
+1,-216,-296
+1,-135,32
+1,139,872
+1,245,-236
+1,-127,224
+1,-46,-582
+1,598,519
+1,-770,-436
+1,455,-515
+1,-469,1291
+1,119,-373
+1,-205,193
+1,959,-420
+3,-786,-134
+3,650,306
+1,-1045,-359
+2,698,-436
+1,-521,89
+1,1007,801
+1,-165,-337
+1,-406,430
+2,-322,127
+3,591,-551
+2,-588,368
+1,-100,-282
+1,525,-109
+3,-325,-20
+2,63,255
+1,63,-782
+12,-1250,-178
+19,-221,-7
+2,-128,-218
+1,86,-6
+1,-209,553
+1,338,-366
+1,36,451
+2,-828,-596
+2,557,234
+3,329,457
+1,70,-732
+1,-283,832
+3,-470,75
+1,609,-445
+1,-283,394
+1,-410,-859
+1,690,21
+1,156,327
+1,-816,235
+1,303,-529
+1,451,11
+1,-25,326
+1,-1212,69
+2,556,-11
+2,144,-450
+3,-728,254
+1,282,294
+3,-97,-252
+2,1086,591
+1,-1061,-825
+1,597,790
+2,-147,-732
+2,-260,242
+2,-244,-347
+1,788,558
+1,-508,-473
+1,52,130
+4,217,658
+2,-123,-804
+1,173,83
+1,-33,349
+1,-82,230
+2,23,-288
+1,-335,-129
+4,759,214
+2,-505,-202
+11,-812,-276
+3,-87,-13
+26,211,100
+1,-572,-46
+1,681,-117
+1,-146,444
+1,-8,-443
+1,-38,135
+1,41,159
+4,-169,-64
+1,59,-68
+1,-290,305
+1,-56,-347
+1,178,213
+3,-319,-199
+1,593,444
+1,69,-450
+1,-393,43
+4,-311,-36
+1,787,-75
+1,-788,261
+1,697,-187
+1,-345,-92
+1,263,418
+2,-469,-41
+1,406,34
+1,-542,-463
+2,284,2
+1,27,425
+1,-146,-79
+1,-36,-378
+2,495,135
+3,-172,424
+1,-259,1
+127,1526,2048
+9,510,-237
+1,-386,-468
+2,-132,958
+1,53,127
+2,238,-294
+1,-469,-576
+1,528,-69
+2,-614,-217
+3,648,385
+1,-24,621
+1,37,-924
+1,-343,134
+6,24,182
+2,212,-435
+1,-196,871
+2,-121,-902
+2,468,552
+1,-363,12
+1,285,795
+2,-10,-612
+3,153,-376
+1,-625,-100
+1,222,537
+1,-173,-634
+1,322,-11
+1,-59,888
+1,-387,-907
+1,465,335
+1,-57,423
+4,-214,-184
+1,431,243
+2,-107,253
+1,-93,-25
+1,225,-428
+1,-323,-383
+1,-271,-199
+1,213,1180
+1,400,-238
+1,84,-870
+1,-71,990
+3,-491,-1121
+2,217,261
+1,-247,217
+1,142,57
+1,391,375
+1,-389,-1217
+1,-225,284
+1,480,773
+1,-2,-801
+1,-415,359
+1,-71,-23
+1,290,-411
+1,-32,771
+16,91,-49
+8,76,-144
+92,328,39
+1,116,-60
+1,-121,-98
+12,56,76
+1,6,-6
+14,333,-355
+1,-273,773
+1,143,152
+1,-250,-968
+3,537,-365
+1,-680,294
+2,765,374
+1,-313,290
+3,55,-220
+1,210,-308
+2,-115,-335
+1,265,523
+1,-496,-189
+2,-109,-180
+1,-180,861
+3,362,-867
+1,-110,628
+1,20,-238
+1,165,-78
+1,239,396
+1,-51,-426
+1,118,163
+1,-131,-515
+1,-502,961
+1,488,-263
+1,-360,532
+1,115,-199
+5,211,-510
+4,-399,-291
+1,438,691
+1,-600,-963
+2,489,546
+1,-348,-133
+1,240,790
+1,232,-1033
+1,-84,948
+1,127,12
+1,-322,-476
+1,85,304
+1,236,-1220
+1,-624,698
+14,-185,-699
+4,34,-332
+15,333,607
+1,9,-502
+1,-105,482
+1,-516,-650
+1,-357,606
+1,343,-179
+1,-274,50
+1,811,-345
+2,-375,527
+1,621,6
+2,-603,-463
+1,281,94
+1,-63,74
+1,-324,-77
+1,271,-234
+1,9,126
+1,-437,125
+1,832,-66
+1,-101,196
+4,231,-28
+1,-781,77
+2,443,81
+1,-269,56
+1,522,-64
+1,-579,-49
+1,340,-278
+3,-351,495
+1,-424,-481
+5,300,-148
+41,-621,1746
+8,52,-11
+27,-327,-184
+2,-693,463
+1,734,407
+1,-66,-97
+1,497,32
+2,36,-936
+1,-754,41
+2,433,784
+3,41,-225
+3,115,-771
+1,140,839
+3,-322,237
+1,39,-861
+2,206,-46
+2,-343,73
+1,-2,159
+1,163,-918
+1,-661,883
+2,24,514
+2,43,-412
+2,293,-604
+3,163,254
+6,-368,512
+4,-43,-319
+1,57,-272
+2,747,-80
+15,-648,765
+28,474,-447
+5,-228,-271
+1,369,986
+1,-378,-1374
+5,-48,889
+1,-148,-125
+1,-42,-406
+5,-448,578
+2,838,-232
+2,-346,-228
+3,-136,394
+1,473,-626
+1,-318,259
+2,500,531
+1,-420,110
+4,-364,-452
+1,663,717
+1,-87,78
+1,40,-1379
+3,-396,445
+1,-266,450
+9,930,-145
+2,87,-136
+1,-376,-332
+1,1,127
+2,36,698
+2,-899,139
+1,271,-533
+1,400,-1148
+1,342,384
+10,-449,-995
+2,3,-271
+1,-263,259
+1,-280,-142
+1,-293,2381
+2,205,-1308
+1,-375,490
+1,515,-1348
+1,-492,153
+1,664,-167
+1,427,152
+1,-907,490
+2,-63,-352
+1,767,-86
+1,-678,968
+1,362,-1020
+1,-105,431
+2,618,-154
+1,-886,-797
+1,-17,346
+1,-58,-255
+1,-86,1703
+1,-21,-920
+2,325,32
+1,-54,-225
+1,163,-198
+1,498,608
+1,-600,-720
+1,1116,341
+1,-483,-522
+2,-756,1526
+1,57,-139
+2,865,-1237
+1,-1154,-204
+3,967,733
+2,-178,-665
+1,-640,-304
+1,716,840
+1,208,-456
+1,197,181
+2,-681,492
+1,-292,-190
+1,181,-758
+1,-419,1478
+1,191,-1048
+1,45,450
+1,-292,-620
+2,777,1367
+1,132,-1558
+1,-37,1257
+1,211,-674
+1,-432,-369
+2,-623,1255
+1,733,-154
+1,623,-774
+1,-1015,-8
+3,-356,77
+2,1231,-389
+1,-860,116
+1,-353,893
+3,-4,-496
+1,68,113
+1,-96,-487
+1,870,-511
+3,338,829
+1,-1127,-293
+2,22,1751
+1,487,-398
+1,-544,827
+2,29,-386
+10,432,-835
+2,75,-101
+1,-36,-1037
+1,231,724
+1,-89,-944
+1,-323,-66
+2,575,488
+1,-310,1145
+1,-65,-1530
+1,295,1067
+1,-365,-582
+1,-310,747
+2,329,158
+3,-112,-547
+1,33,-246
+1,608,401
+1,-636,-1240
+1,887,732
+1,-410,52
+1,-810,21
+1,1146,-52
+1,-889,-40
+1,-338,771
+1,85,-1661
+1,29,1099
+1,1282,-51
+1,-1402,326
+1,264,-1103
+1,1243,467
+2,-1328,136
+1,425,-139
+1,-626,216
+1,201,111
+1,84,759
+1,329,-685
+2,-501,196
+1,-101,-1091
+1,620,1196
+1,-542,-792
+5,731,-258
+1,-337,782
+1,-157,-226
+1,-36,649
+1,294,-1327
+1,187,861
+2,-515,51
+1,-152,771
+1,-75,-445
+1,140,59
+2,1134,-286
+2,-1279,680
+1,1316,-887
+1,-933,886
+1,0,-1529
+1,504,251
+1,-648,344
+1,-177,-821
+1,153,1508
+1,1179,-972
+1,-1229,1633
+2,-184,-125
+1,13,710
+1,1452,-2114
+2,-626,-33
+2,355,515
+1,-981,606
+1,978,-1528
+1,259,862
+1,101,64
+1,-1261,1204
+1,50,-195
+1,-154,-220
+1,-124,613
+2,413,-483
+8,222,-1315
+1,-3,-57
+1,72,62
+1,-135,38
+2,58,-47
+1,-38,-26
+2,5,135
+1,-53,-120
+87,80,29
+105,2352,-1859
+4,-763,-98
+1,347,293
+1,582,-231
+2,-1626,180
+2,975,75
+1,-336,225
+1,-502,-291
+1,-153,-413
+1,1391,177
+1,237,-51
+1,-740,300
+2,375,-137
+1,-582,106
+2,755,-387
+1,250,502
+1,-870,-193
+1,-496,217
+1,965,-51
+3,-546,-23
+1,17,50
+1,-555,-387
+1,82,149
+2,1512,-126
+4,-1767,89
+1,253,427
+1,1243,-570
+1,-1177,228
+1,825,174
+1,-215,-303
+1,-79,-53
+1,-49,52
+1,-12,-136
+1,380,366
+1,-294,-366
+1,47,-84
+2,-18,384
+1,-427,378
+1,625,-530
+2,-1055,354
+2,1390,-676
+2,-122,188
+1,-525,452
+1,-56,96
+2,-357,-205
+2,722,-342
+1,-583,47
+3,591,-169
+1,-637,586
+1,-256,-108
+1,774,-406
+2,-891,697
+1,431,-759
+2,-147,185
+1,57,134
+1,-129,-131
+3,319,425
+2,74,185
+1,309,-436
+1,694,-59
+1,-468,-316
+2,447,483
+1,-1616,-355
+1,517,222
+1,-481,-388
+1,1751,152
+1,-1518,-97
+2,888,193
+4,-210,620
+1,-10,-67
+1,-49,66
+1,90,-63
+1,-64,53
+1,-17,-66
+3,96,-126
+2,-81,39
+1,31,20
+3,33,165
+3,-47,-8
+42,-45,3
+42,-33,-59
+1,-3,-37
+1,-30,28
+1,41,47
+1,-72,12
+1,-3,-24
+1,42,15
+1,-97,-6
+1,26,-71
+1,-2,69
+1,31,-44
+1,-57,-24
+1,65,-10
+1,-8,-29
+1,58,1
+1,0,-33
+1,-1,-43
+1,-60,40
+1,7,-41
+1,-113,105
+2,15,45
+1,0,45
+2,169,-237
+1,-58,-14
+24,-56,216
+150,15,-1651
+1,-18,467
+1,977,-427
+1,-27,97
+2,30,-248
+1,-666,235
+1,722,211
+1,-1031,420
+2,723,-1089
+1,266,-133
+1,-1139,896
+1,62,196
+1,858,-453
+1,-163,275
+1,131,-174
+1,-378,103
+1,82,335
+3,-27,-485
+1,-480,-38
+1,821,718
+1,132,-317
+2,-146,-718
+1,15,508
+1,-582,397
+2,-288,-469
+1,685,-75
+2,372,523
+2,-395,-149
+2,367,-807
+1,-179,971
+1,-388,-137
+1,-294,-1126
+1,118,13
+7,298,-66
+2,-787,1183
+50,450,-564
+1,87,-292
+1,125,-166
+3,-69,114
+1,-145,550
+1,808,-613
+1,-534,859
+1,-825,175
+2,708,69
+2,-82,-1335
+1,810,1172
+1,-319,-17
+1,-506,-981
+1,855,151
+2,-554,-60
+1,59,382
+1,395,291
+1,-1250,104
+1,175,328
+2,274,-657
+1,682,482
+1,-1144,143
+3,709,-1300
+1,509,1460
+1,-658,-569
+1,714,110
+1,-610,-597
+1,-52,365
+1,-464,349
+1,1100,-325
+1,-709,205
+1,343,-130
+1,494,-374
+1,-968,799
+1,-371,-54
+1,1049,-674
+2,-795,543
+1,338,-566
+1,439,-467
+1,-250,327
+1,234,615
+2,-67,191
+2,-93,-1161
+49,-437,1116
+1,-19,-51
+1,-28,87
+1,50,-81
+1,-20,85
+1,40,-29
+1,-103,3
+1,-1,-184
+1,42,149
+1,21,16
+2,-30,-158
+1,41,-60
+1,19,275
+1,65,0
+1,5,-125
+1,-193,58
+2,86,-12
+1,-7,-20
+79,-1196,963
+9,-278,-865
+1,85,939
+1,-72,-30
+1,-525,-70
+1,597,-914
+2,302,661
+1,-240,-643
+3,-51,224
+4,-301,600
+1,-190,-38
+7,647,-298
+1,-214,-62
+1,24,435
+1,-96,105
+1,33,-1146
+2,463,1138
+1,-888,68
+1,340,-716
+1,254,707
+1,200,-685
+1,-411,469
+3,159,-73
+2,132,-483
+1,134,21
+2,-4,125
+2,-566,274
+1,641,130
+1,-93,-283
+1,-364,528
+1,-134,-1057
+1,602,111
+2,-668,963
+1,563,-946
+1,-517,860
+1,69,12
+4,616,-12
+2,-222,-180
+1,-776,175
+1,414,-431
+1,245,-42
+1,-481,383
+2,443,-344
+1,-234,-349
+1,319,-478
+1,-787,1137
+1,829,-127
+1,-219,-90
+1,-321,323
+1,-4,-193
+1,592,-807
+18,535,-491
+29,184,133
+3,100,-104
+1,166,-260
+1,-335,189
+3,28,-535
+1,-338,1053
+1,-140,-1129
+2,-52,220
+1,197,-83
+2,77,232
+1,341,34
+3,238,-129
+1,-470,-110
+1,-190,-206
+1,-146,1024
+1,-70,-340
+1,250,247
+2,146,176
+1,-295,179
+1,370,-1289
+1,84,-43
+1,-430,799
+1,237,-840
+1,-209,450
+1,-321,480
+1,521,95
+1,-146,-294
+1,-35,-828
+2,371,1124
+1,-76,-536
+1,-536,539
+1,430,366
+1,436,-1154
+1,-186,98
+28,947,-973
+29,145,148
+2,74,-1440
+1,-104,2059
+2,151,-763
+1,93,-667
+1,-319,1037
+1,-10,-179
+1,263,-460
+1,-51,451
+1,29,-995
+1,-40,450
+1,-119,1032
+1,168,-327
+1,47,415
+1,81,-121
+2,-370,-853
+1,47,-353
+2,219,-833
+1,-28,433
+1,-156,1487
+2,300,-203
+1,-183,-895
+2,92,1039
+1,34,-353
+1,13,108
+1,-243,-354
+1,-94,662
+1,43,-900
+1,292,220
+2,-150,32
+1,36,-1032
+1,15,1731
+2,115,-954
+31,-2193,382
+1,-56,528
+1,-596,-950
+1,177,294
+1,-213,767
+3,420,243
+1,-264,-1516
+1,430,1293
+2,3,417
+1,-276,-709
+3,507,-250
+1,-61,406
+1,-757,-742
+1,243,1070
+1,694,-892
+1,-232,-1235
+1,-699,1284
+1,269,1035
+1,-233,100
+1,529,-1293
+1,-131,293
+2,-35,-1488
+1,-305,-300
+1,615,1733
+1,-376,-88
+4,238,-760
+1,-358,512
+1,282,666
+1,-452,537
+1,408,-294
+2,526,-154
+1,-197,347
+3,-2,459
+2,-215,272
+2,-469,-1796
+1,504,169
+1,-586,480
+1,569,-377
+1,589,228
+1,-672,-1970
+1,208,2113
+1,236,-320
+1,-948,-1257
+1,247,719
+1,341,-1036
+1,-116,1733
+1,-461,-1013
+1,1061,944
+1,198,199
+2,-863,-1295
+1,296,-229
+1,21,1492
+1,-173,-854
+2,-550,-433
+1,137,-337
+1,326,2262
+1,854,-692
+1,-719,584
+27,115,-728
+1,-758,664
+1,239,-755
+1,-1,-1109
+1,-45,981
+1,243,-75
+1,737,215
+1,-384,-148
+1,-255,-1795
+1,-91,2262
+1,145,-714
+1,-162,-481
+2,615,1127
+3,6,-54
+1,-592,-508
+1,-243,677
+1,229,-197
+2,151,946
+1,329,-568
+1,-314,-1778
+3,-469,-713
+4,260,2540
+1,426,362
+1,-273,-522
+1,-101,-1565
+1,437,1218
+2,-282,1226
+1,-372,-2192
+2,-180,1063
+2,373,-757
+1,-134,-861
+1,500,1972
+2,-435,-102
+1,481,-200
+2,-325,-321
+1,-512,-572
+1,1114,941
+1,-879,-154
+2,701,289
+1,-689,-2016
+1,-27,2175
+3,180,-1346
+43,259,974
+1,12,-30
+1,63,6
+1,-13,-65
+1,-45,199
+1,-38,-5
+1,38,-49
+1,-53,-149
+1,-8,218
+1,24,-107
+1,35,-122
+1,-35,75
+1,40,46
+1,-91,-117
+1,-5,122
+1,7,-49
+1,51,82
+1,100,-36
+1,-18,38
+1,-116,20
+2,107,-238
+3,27,276
+1,-142,-281
+1,151,320
+2,-97,13
+2,-37,6
+3,45,-338
+25,30,207
+41,-511,1537
+29,-50,447
+2,-115,72
+1,1,-629
+1,-20,-311
+1,251,650
+1,-206,458
+1,-15,-529
+3,6,-114
+1,284,284
+1,-284,73
+2,227,-599
+1,83,-246
+1,-49,-248
+1,-167,496
+2,342,-328
+2,-352,711
+1,189,-522
+1,-25,-226
+1,-102,905
+1,-174,-594
+1,144,860
+1,162,-107
+3,-300,-854
+1,100,-111
+2,195,498
+1,-294,-104
+37,1793,-1831
+9,124,436
+6,-285,-346
+1,763,19
+1,-249,-506
+2,216,-33
+2,-369,486
+1,-66,-376
+2,-184,67
+2,-284,-491
+1,-118,982
+2,1196,-1025
+1,-625,1430
+1,380,-169
+4,-50,-549
+1,226,-827
+1,-1005,1285
+1,258,-949
+2,119,1118
+1,-233,-673
+1,-265,250
+1,170,-592
+1,820,294
+1,90,-501
+1,14,1356
+1,-811,-434
+1,19,506
+1,-57,-1560
+1,75,1325
+1,540,-1236
+2,-542,256
+1,330,-51
+1,-433,483
+1,-211,-308
+1,783,677
+1,-564,-1035
+1,-221,647
+4,176,-198
+2,769,425
+1,-186,-224
+1,317,439
+2,-536,-251
+3,456,-1233
+1,217,39
+1,-1006,1647
+1,-46,-381
+2,842,-514
+2,-420,549
+1,47,-988
+1,14,1129
+1,-469,62
+1,438,-652
+1,320,-647
+2,-143,1433
+3,-370,-1381
+1,-420,543
+1,437,942
+9,-843,-966
+1,150,-4
+3,-96,-16
+5,-39,-261
+1,442,-844
+1,-195,716
+1,206,-1203
+1,-583,1336
+1,737,-1863
+1,-206,378
+2,11,-486
+1,-468,1070
+1,654,-85
+1,38,-525
+1,-506,1965
+1,71,-1818
+1,191,1188
+1,189,-185
+1,-276,19
+3,-221,-710
+1,277,456
+13,-463,996
+1,680,-949
+1,-389,103
+1,44,831
+1,-287,-1655
+1,653,138
+2,-411,207
+2,-319,-109
+1,793,-84
+1,-283,1135
+2,234,-1335
+1,-685,562
+2,452,-501
+1,27,-480
+1,-290,1842
+2,-261,-1458
+1,681,619
+1,72,-108
+1,-652,949
+1,316,-877
+1,-244,655
+2,-234,353
+2,902,-1953
+1,-424,1505
+1,-39,-985
+1,176,141
+1,-366,461
+2,-67,208
+1,220,351
+2,-197,-172
+2,-193,-67
+1,883,-1689
+17,192,823
+20,954,212
+1,76,-598
+1,-460,773
+2,-55,-732
+1,-507,969
+1,40,-496
+1,705,211
+1,73,-1197
+2,-691,118
+1,321,500
+2,-507,977
+1,777,-1847
+2,-660,861
+1,693,743
+1,-8,-471
+1,-728,272
+2,472,-785
+1,274,-458
+1,-2,1142
+1,-39,-747
+1,16,300
+1,319,68
+1,-850,946
+1,54,-109
+1,232,-1414
+1,-167,1063
+2,701,-1168
+1,-72,254
+2,-854,199
+1,232,145
+1,-98,676
+1,208,-1071
+1,-605,857
+1,1102,-190
+2,-608,3
+1,606,-248
+1,-969,700
+2,-136,-449
+2,745,-12
+2,-583,203
+1,119,-764
+1,176,1091
+1,-281,-282
+1,521,7
+26,-16,-1961
+29,415,-61
+1,-43,-426
+1,-392,185
+1,-44,-154
+1,213,617
+1,-197,-885
+1,-500,1325
+1,243,-44
+1,-90,-158
+1,879,-162
+1,-522,449
+1,31,-1641
+2,1,764
+1,473,300
+1,-53,-404
+2,-766,284
+1,28,201
+1,765,297
+2,-718,207
+1,-122,123
+1,438,-515
+3,364,-1089
+1,-244,1220
+1,-655,-1162
+3,53,253
+1,-110,-475
+2,29,843
+37,-1140,1098
+30,-544,264
+3,349,176
+1,452,-689
+1,53,-1686
+1,-485,1320
+1,503,-459
+1,413,692
+1,-1419,490
+1,576,-274
+1,-80,461
+1,182,-172
+1,-353,-260
+2,649,-582
+3,134,1050
+1,471,-910
+1,-542,-377
+2,-203,488
+1,215,527
+1,-560,-1698
+2,453,151
+2,-759,778
+1,787,-530
+1,452,-90
+1,-986,-563
+1,1077,745
+1,-1388,891
+1,259,349
+2,130,-488
+1,254,-254
+1,-570,147
+1,279,-459
+1,963,105
+5,-629,1174
+1,-308,-1101
+1,450,-966
+1,466,15
+1,-873,473
+2,206,1442
+19,-706,-1015
+49,-35,-973
+1,98,539
+1,132,207
+1,-71,-733
+1,-44,236
+47,4156,4664
+1,165,617
+1,-429,-43
+1,940,-242
+1,-869,729
+2,232,-290
+1,168,14
+2,-284,36
+4,26,-829
+1,104,313
+1,-365,548
+1,36,-560
+1,244,47
+1,479,240
+1,190,111
+2,-694,18
+1,193,224
+2,-32,-469
+3,-331,229
+1,550,-12
+1,663,-188
+1,-680,-71
+2,-511,8
+1,323,297
+2,-65,-724
+1,-403,822
+1,965,-305
+1,165,95
+1,-827,-400
+1,-46,247
+1,-147,57
+2,454,-12
+1,278,-44
+1,-704,439
+1,989,-680
+1,-1127,791
+2,316,-900
+5,754,370
+1,-913,568
+1,521,-820
+1,-658,480
+1,60,85
+2,743,-60
+1,392,-459
+1,-476,181
+1,-378,143
+1,-267,-492
+1,107,227
+1,972,131
+1,-759,281
+1,-157,-109
+1,-44,-485
+1,1041,326
+1,-628,-30
+1,-371,89
+29,23,483
+2,33,-69
+1,-54,37
+1,-2,-37
+1,-30,50
+1,29,21
+2,64,38
+1,-7,-72
+1,89,-1
+1,-266,59
+1,145,-145
+2,35,-114
+1,-91,163
+1,56,-175
+4,100,126
+1,-261,104
+1,133,-104
+3,-29,-2
+1,-28,-17
+2,55,-127
+1,31,233
+1,1,-38
+1,-153,5
+1,184,-53
+1,-90,-142
+1,-38,8
+1,37,66
+1,-48,-12
+4,212,29
+2,-134,-16
+3,-58,161
+5,190,-40
+2,-101,-118
+3,-87,121
+7,118,-112
+14,-32,161
+4,-7,-66
+1,-1,71
+118,-787,-585
+2,-208,-890
+1,631,1035
+1,-523,515
+2,422,-284
+2,-743,-424
+1,201,-176
+3,534,-522
+1,232,249
+1,-773,-515
+1,770,-77
+1,-340,1109
+1,-508,-144
+1,773,-1111
+1,-458,1813
+1,-80,250
+1,-70,-1851
+1,-202,1175
+1,426,83
+1,-543,-1465
+1,273,71
+1,-271,62
+1,461,781
+1,24,672
+1,209,-1172
+1,-234,626
+1,-145,305
+1,293,-540
+2,-324,-860
+1,669,1119
+1,-868,859
+1,216,-1414
+1,418,376
+1,-606,-869
+1,261,818
+1,-283,-26
+1,514,-185
+1,-51,732
+1,-531,381
+1,625,-30
+1,145,-368
+1,-507,301
+1,533,-181
+1,-802,-798
+1,621,-340
+1,-499,209
+2,487,-354
+1,-515,2012
+2,189,-980
+1,219,-61
+1,99,-676
+1,320,329
+1,-450,-647
+1,-347,182
+2,683,191
+1,-218,-505
+1,363,1300
+1,58,-962
+1,-486,584
+2,-410,-743
+1,620,-227
+1,-161,1183
+3,-566,-893
+1,133,1555
+1,47,-1081
+1,181,998
+1,131,151
+1,-286,-536
+1,-166,-75
+1,520,457
+19,154,-1559
+1,157,726
+1,13,690
+1,-299,-588
+1,140,-318
+1,-259,-309
+1,420,1118
+2,-15,310
+1,-272,70
+3,210,-142
+1,-528,328
+1,-256,-1123
+1,348,-639
+1,323,1366
+1,-39,-285
+1,-91,-132
+1,-524,322
+1,415,445
+1,-105,-951
+1,418,-262
+1,-508,-59
+4,667,211
+1,-904,-568
+1,618,705
+1,-612,1230
+2,-15,-300
+1,857,-1379
+2,-476,-627
+1,-181,2106
+1,374,-1107
+1,369,-462
+1,-942,194
+1,171,763
+1,14,477
+1,216,-588
+1,-44,-1224
+1,-10,498
+1,246,920
+1,-452,94
+1,350,35
+2,-190,-188
+2,47,-1627
+1,0,513
+1,285,1053
+1,133,390
+1,89,-1405
+1,-751,1590
+1,68,-780
+2,670,-936
+1,-134,917
+1,190,-9
+1,-76,391
+1,-463,-1061
+1,80,169
+1,-426,378
+1,798,-955
+35,-81,898
+1,40,26
+1,30,14
+1,-30,44
+1,-40,-24
+1,75,28
+1,-41,-94
+2,-11,58
+2,-70,-58
+2,197,55
+2,-199,8
+1,197,40
+3,-126,30
+1,56,-142
+1,-71,-47
+1,-59,7
+1,175,-32
+2,-177,205
+1,115,71
+1,-20,-314
+3,83,115
+1,-113,-133
+56,30,147
+13,629,-703
+19,263,-652
+1,-225,1412
+1,431,-1882
+1,-487,419
+1,-90,873
+2,-177,237
+1,379,-1174
+1,-332,322
+1,491,713
+2,-17,-225
+1,-447,222
+1,463,238
+1,-315,-611
+1,-306,484
+1,924,-1130
+1,-194,-491
+1,-437,637
+2,81,241
+1,277,751
+1,-47,-499
+1,17,251
+1,-2,-407
+3,-185,42
+1,-118,848
+1,104,-5
+2,-277,-785
+1,633,-520
+1,-298,594
+1,-496,-283
+1,581,-482
+3,-448,968
+1,346,358
+1,28,-933
+1,-81,779
+1,-282,-329
+1,100,-283
+1,394,914
+1,9,-1632
+1,-603,808
+1,4,304
+2,-36,70
+32,941,-206
+9,428,594
+1,-253,-2190
+2,345,66
+1,-171,-530
+1,-398,1897
+1,-44,783
+1,456,-399
+1,287,-470
+1,299,-868
+1,-624,545
+2,585,-854
+1,-644,1650
+1,342,-666
+1,-431,-893
+1,-12,568
+1,330,1008
+1,-128,272
+1,90,-977
+1,290,372
+1,-359,1043
+1,81,-480
+1,-206,250
+1,146,-2076
+1,-282,351
+1,598,1076
+3,-117,109
+1,-481,-40
+1,218,707
+1,-15,-1905
+1,122,1875
+2,-16,-459
+1,354,-1353
+1,-419,941
+1,-554,21
+1,623,0
+2,230,494
+1,-670,-731
+1,834,-1773
+2,73,355
+1,-743,1150
+1,469,1052
+1,-875,-855
+1,974,-1563
+1,-43,1471
+1,-687,-81
+2,494,-633
+1,-111,357
+1,-63,618
+1,86,-795
+1,-231,872
+1,-197,467
+1,309,-755
+1,253,1060
+1,-166,-595
+2,-34,-759
+1,450,844
+2,-355,824
+1,404,-2237
+1,19,-1119
+1,-927,2598
+1,680,-1919
+1,-605,1288
+2,608,-299
+1,-379,1248
+1,171,169
+1,74,-835
+1,-288,526
+1,-379,306
+1,700,-1259
+1,-367,798
+1,-170,246
+1,730,-160
+9,-1778,-1197
+2,6,-118
+7,-93,-52
+2,46,-813
+1,790,-577
+1,-390,447
+1,120,254
+1,-254,1022
+1,92,-660
+1,-445,788
+2,291,-695
+1,894,-1062
+1,-619,132
+1,569,475
+1,-950,538
+1,257,-1350
+1,-100,1952
+1,-121,-165
+1,515,-1068
+3,-451,705
+1,-337,177
+1,1016,-1710
+1,-771,419
+1,317,1041
+1,-627,-760
+1,965,304
+1,-458,411
+2,-452,-216
+1,2,720
+1,819,-376
+1,-675,655
+1,148,-1184
+1,-336,-108
+1,345,1287
+1,-324,-1137
+2,-38,-80
+1,125,-639
+2,342,596
+1,120,163
+1,-278,979
+1,159,-1323
+1,334,-493
+2,-537,440
+1,493,556
+1,-325,-974
+1,-435,532
+1,905,326
+1,-838,-594
+1,489,1294
+1,-358,59
+1,72,-950
+3,27,245
+1,-151,-274
+1,296,305
+1,-48,521
+1,147,-122
+1,394,-975
+1,-111,744
+1,-698,-65
+2,156,-757
+1,922,-3
+2,-468,150
+1,1,969
+1,-615,-187
+18,-230,212
+19,-436,-974
+2,181,-560
+1,32,427
+1,128,348
+1,-67,695
+1,-323,-1410
+1,394,206
+1,-216,1027
+1,-130,-487
+1,131,678
+2,19,-324
+1,214,699
+1,-176,-110
+1,36,189
+1,-63,-1813
+1,254,-84
+1,-153,1742
+1,-306,-845
+1,428,-290
+1,-69,984
+1,-372,-53
+1,-66,434
+1,607,-207
+1,-77,-679
+1,-454,-1217
+1,194,938
+1,41,-976
+1,91,635
+1,23,729
+2,-374,-15
+2,533,445
+1,-23,-306
+1,40,-148
+1,-358,442
+1,256,-1261
+1,-44,584
+1,-402,-216
+1,125,1095
+3,26,141
+2,-75,-1564
+1,94,-165
+3,-146,1102
+1,16,-720
+1,-22,447
+1,343,240
+1,-319,695
+1,493,-81
+1,-17,-1760
+1,-535,78
+1,0,1534
+1,531,243
+1,79,-397
+1,-391,-641
+1,45,-303
+19,-80,-1466
+19,-97,399
+1,-12,-1278
+1,200,1353
+1,140,-1712
+1,-241,1035
+1,380,355
+1,-596,98
+1,478,-1113
+1,133,1470
+1,42,-189
+1,-495,-1673
+2,396,853
+1,-27,-631
+1,-301,1260
+2,-223,136
+1,157,-1108
+1,426,667
+1,95,351
+1,-351,-732
+1,-178,-600
+1,298,1341
+1,-346,-876
+1,1,239
+1,335,-353
+1,-397,1265
+55,1082,-701
+19,282,563
+1,112,-1532
+1,-444,-313
+1,-56,1716
+2,549,-2485
+2,-487,937
+1,124,-1989
+1,-95,1528
+1,-238,2418
+1,520,-3035
+1,-602,1990
+1,405,-2465
+1,-413,2103
+1,1338,1103
+3,-1149,89
+2,-156,-1596
+1,464,-1163
+1,610,2631
+1,-721,-714
+1,149,-602
+1,-90,-2062
+1,96,1814
+1,226,-226
+1,115,-516
+1,-467,-66
+1,-400,1136
+1,268,1046
+1,975,-655
+1,-989,-520
+1,385,-683
+1,-273,964
+1,89,-1957
+1,690,3188
+4,190,-623
+1,-1028,-2235
+1,441,2474
+2,-417,-629
+1,878,553
+1,-435,-388
+1,-848,-975
+1,73,801
+1,-25,436
+1,95,676
+30,1801,-547
+9,-302,758
+1,446,-1459
+1,144,513
+2,-532,703
+2,504,-908
+1,-686,1292
+1,509,-1897
+1,-61,588
+1,205,856
+1,-277,-141
+80,-515,-2580
+30,-229,-101
+2,153,1024
+1,-229,-1323
+1,199,1147
+1,-392,-1024
+1,1247,184
+2,-293,-460
+1,-433,1246
+1,-411,-1482
+2,927,1768
+2,-1072,-1799
+1,1031,-83
+1,-30,1109
+1,-264,-524
+2,-370,1443
+1,154,-648
+1,-311,-1561
+1,-57,555
+1,634,37
+1,-599,-135
+1,109,66
+1,220,-317
+1,-34,-212
+2,662,1493
+1,-637,-1079
+4,845,1105
+1,-879,880
+1,746,-1736
+634,-12831,13148
+1,27,6
+1,-9,-47
+2,-2,76
+1,15,-57
+24,-195,-249
+1,124,144
+1,7,300
+4,-265,-136
+1,31,97
+1,-385,634
+1,546,-976
+1,-137,454
+1,-406,455
+2,622,-496
+4,16,-390
+2,58,-208
+1,-647,966
+1,691,-1047
+1,-4,-44
+1,-153,635
+3,-30,25
+1,75,-437
+1,-93,399
+4,123,-193
+3,35,5
+2,-316,156
+1,445,-340
+2,-326,126
+1,222,-392
+1,-243,565
+3,118,219
+1,127,-731
+3,-52,238
+1,-131,-10
+2,-299,669
+1,-60,-91
+1,561,-729
+1,-255,814
+1,218,-1106
+1,-42,544
+3,-25,-380
+1,-802,1485
+1,732,-680
+2,17,-312
+18,40,131
+1,-14,-7
+1,-5,52
+1,-13,-70
+1,43,37
+1,1,35
+1,-23,-96
+1,31,38
+2,-14,-71
+1,47,94
+1,-59,-141
+1,57,102
+1,-55,1
+1,67,85
+1,9,44
+1,17,23
+1,36,138
+1,-145,-257
+1,-30,112
+8,44,-113
+9,77,3
+15,-77,-7
+138,-142,-675
+9,-17,-53
+29,114,-382
+1,-235,81
+1,356,21
+1,-333,-155
+1,-145,681
+1,-147,-76
+1,101,395
+1,604,-780
+6,-422,78
+1,-326,240
+1,72,357
+1,257,-92
+1,-55,-536
+1,-374,779
+1,-43,164
+1,475,-750
+1,-111,-27
+3,-72,104
+1,129,21
+8,146,-309
+1,-184,678
+1,7,-191
+1,91,-30
+2,-237,0
+3,293,-572
+10,138,72
+1,105,-28
+1,-296,-258
+1,297,319
+1,-303,383
+1,4,-246
+2,-309,31
+4,1146,376
+1,-17,-14
+1,-31,-19
+17,13,544
+2,237,-548
+4,190,633
+1,-182,-53
+4,-127,-55
+2,-154,-174
+2,94,34
+1,278,-426
+1,-216,324
+1,225,108
+3,16,-648
+1,-157,416
+1,-72,-210
+1,266,54
+1,-525,597
+1,263,-466
+1,-212,152
+1,-61,167
+1,-88,-631
+1,669,408
+1,-393,-219
+1,-133,726
+1,269,-1027
+1,-323,423
+1,167,35
+1,257,-181
+1,-260,392
+1,-265,319
+2,38,-42
+1,-66,126
+1,142,-871
+1,282,677
+1,-117,13
+1,335,-623
+1,-307,13
+5,-165,440
+30,-165,-1930
+2,-68,-64
+3,25,-26
+1,82,53
+1,-123,0
+2,-260,-165
+2,521,273
+1,-516,17
+1,-55,345
+1,607,-1020
+1,-81,274
+1,-80,518
+1,-156,-141
+1,-53,20
+1,248,-126
+2,-582,597
+1,124,-94
+1,685,-789
+1,-149,102
+1,-197,-162
+2,-327,419
+1,318,-202
+2,29,-339
+1,240,-196
+1,-570,666
+1,265,-424
+1,305,35
+2,-219,-150
+1,-445,1082
+3,614,-555
+1,-411,-542
+1,325,84
+1,-430,845
+2,361,-1018
+2,-475,253
+1,256,-412
+1,469,643
+1,-54,207
+1,-420,323
+2,587,-831
+1,-542,348
+1,104,-441
+2,-90,508
+1,38,-432
+1,-202,643
+3,92,133
+7,503,-375
+5,-583,-51
+1,832,-260
+1,-231,499
+1,-320,-345
+2,445,-164
+1,-417,-309
+1,-94,962
+1,97,-349
+1,127,11
+1,490,-295
+1,-151,52
+3,-42,312
+2,-427,-789
+1,-181,815
+9,150,-1197
+4,-98,-59
+2,-91,84
+2,141,-25
+2,169,11
+4,-94,86
+14,-23,-101
+1,-200,160
+1,-178,-509
+1,30,691
+1,543,-514
+1,374,148
+3,-92,269
+1,135,202
+1,140,-726
+1,-617,581
+3,-629,138
+1,1055,-167
+1,-864,-528
+1,177,541
+1,142,-82
+1,258,126
+2,-271,-32
+1,338,-40
+1,42,-286
+1,54,-312
+1,24,685
+1,-67,157
+1,289,-210
+1,-414,-213
+1,22,104
+1,400,-248
+1,-349,-177
+1,-219,-193
+1,444,648
+1,-520,-400
+2,-156,-45
+3,53,-155
+1,67,334
+37,365,2365
+4,-249,-362
+1,167,677
+1,445,-1005
+2,-383,469
+1,228,-529
+4,-452,357
+2,-140,220
+1,632,134
+1,-795,106
+2,73,-136
+1,300,74
+3,155,-443
+1,222,250
+2,-174,-490
+1,-346,785
+1,-83,-197
+2,427,-341
+1,-408,413
+2,375,-40
+1,-291,-475
+3,-284,670
+1,533,103
+3,315,-1005
+1,-59,466
+1,-185,-245
+1,-166,-337
+2,132,371
+1,43,-267
+1,-232,934
+1,188,-780
+1,-71,-120
+1,-155,119
+2,343,-55
+1,-12,103
+1,275,445
+1,-397,-427
+1,-529,728
+1,186,-571
+3,246,-23
+2,-174,390
+1,344,-52
+2,-214,-472
+1,160,92
+1,-382,611
+1,643,-607
+1,-598,278
+1,480,14
+1,-578,259
+2,137,-367
+2,653,-327
+1,-283,95
+2,-112,598
+1,25,-135
+1,380,-487
+1,-830,257
+1,809,101
+2,-291,-75
+10,-200,-28
+1,-5,11
+1,-35,1
+2,79,16
+1,-40,33
+1,107,-83
+1,-152,69
+1,-10,68
+1,-49,-23
+1,193,-41
+1,-38,25
+1,28,-88
+1,-43,136
+1,-30,-4
+1,-28,38
+1,-52,48
+1,167,-70
+1,-70,42
+1,-107,-195
+5,87,15
+11,-64,104
+165,2204,-1827
+1,-472,-202
+1,510,82
+1,111,-829
+2,-12,204
+1,-366,-351
+1,-16,1038
+1,231,-923
+7,-354,776
+2,597,-317
+1,-783,126
+2,930,-140
+2,-503,42
+1,24,185
+3,-242,-467
+1,239,611
+1,350,-758
+1,-652,40
+1,-176,897
+1,87,-898
+1,345,-209
+1,-256,700
+3,291,-184
+1,468,415
+1,-513,-217
+1,354,292
+3,102,-890
+1,68,6
+1,-618,719
+1,-164,-772
+1,130,30
+1,534,1054
+1,-822,-1120
+2,305,493
+1,-304,-178
+3,662,363
+5,-36,-696
+1,113,13
+2,-842,461
+1,999,-173
+1,-1108,185
+1,72,305
+1,736,-266
+1,-334,161
+1,694,-685
+1,-886,1000
+1,833,-462
+1,20,138
+1,-424,1
+2,477,-169
+3,-713,-318
+1,679,990
+3,-115,-1170
+19,-337,229
+2,-13,-23
+1,-8,40
+1,-29,22
+1,-69,-27
+1,203,-125
+1,-146,74
+1,25,-26
+1,32,183
+1,72,-65
+1,-123,51
+3,-185,82
+3,130,-241
+1,97,-121
+10,-98,-2
+72,147,1820
+1,-140,50
+1,182,38
+6,-51,-52
+3,-5,-3
+6,-175,287
+1,-25,94
+1,539,-216
+2,-36,-751
+1,62,981
+2,-384,-671
+1,-256,-88
+1,279,-36
+2,102,577
+1,-392,304
+2,174,96
+1,-89,565
+1,320,-1399
+1,45,-343
+2,-102,1193
+1,-225,-894
+3,416,23
+1,13,939
+1,-840,-403
+2,575,-900
+2,-256,-4
+3,687,1147
+1,-737,-1104
+2,775,1361
+1,-188,81
+2,140,-1474
+3,-689,860
+1,649,-386
+1,-130,541
+2,94,268
+1,-271,-347
+2,110,296
+2,-365,-1260
+1,95,943
+1,49,-850
+2,39,-8
+3,-17,-165
+1,70,1657
+1,361,-1391
+2,-456,694
+1,231,-244
+2,-371,869
+4,300,-1
+5,-82,-940
+1,-168,-42
+3,-252,506
+6,-871,-758
+1,-77,97
+1,84,-177
+13,8,792
+4,-175,-21
+2,-243,-400
+1,396,-34
+2,-250,-126
+1,755,750
+1,-795,-449
+1,381,-154
+2,-248,-52
+1,142,175
+2,-342,-6
+1,759,490
+2,358,-10
+3,-1021,-344
+1,754,128
+1,-704,-356
+1,538,26
+1,-73,239
+2,-793,-76
+1,390,-400
+4,-51,315
+1,117,99
+2,-571,194
+1,791,17
+1,-346,-91
+1,-223,-187
+1,1284,729
+1,-1402,-549
+1,608,-578
+1,-1,72
+2,-425,393
+4,1051,609
+1,-1074,-936
+1,1004,606
+1,-943,-172
+2,737,-396
+2,-298,665
+2,466,117
+3,100,-241
+23,-147,-236
+2,-585,-1500
+1,542,699
+1,-342,344
+1,324,-1103
+1,-217,1019
+2,-206,-203
+1,653,-82
+1,-59,-320
+3,-79,66
+1,199,883
+1,-485,-755
+1,-32,247
+1,629,602
+1,-339,-1681
+3,279,1071
+1,-474,105
+1,-423,-144
+1,705,826
+1,-393,-1591
+1,-107,571
+1,224,-198
+1,-209,-337
+1,-332,898
+2,682,60
+1,-749,-171
+1,441,-304
+1,584,791
+3,-924,-728
+1,238,-488
+2,612,1215
+5,-795,-1021
+1,255,363
+2,110,-729
+1,257,141
+2,-196,454
+2,108,87
+1,-288,-131
+1,216,28
+1,120,-130
+2,-662,-129
+2,44,-78
+1,548,-438
+1,-860,1089
+2,1063,443
+1,-656,-545
+1,347,362
+1,-87,-751
+1,218,-133
+3,-525,484
+1,900,357
+1,-792,-584
+1,-76,-111
+4,657,772
+1,12,74
+3,22,-379
+2,-718,138
+1,454,-1139
+11,121,561
+104,2430,1206
+1,96,-240
+1,-154,44
+27,-509,854
+1,-30,-1030
+4,-450,260
+3,389,519
+1,366,-52
+1,-766,290
+2,268,-629
+1,628,300
+1,83,-139
+2,-893,-61
+1,157,-338
+4,-37,-182
+1,566,-27
+1,-521,1039
+1,249,-87
+1,7,-360
+3,-303,158
+1,810,-208
+1,-374,-417
+1,-615,686
+1,666,0
+1,-586,83
+2,707,-706
+1,-188,874
+1,191,-583
+3,-191,443
+1,-143,-695
+3,224,915
+1,-220,-761
+1,-554,387
+1,710,64
+1,263,-336
+23,-446,-990
+19,196,179
+1,116,-568
+1,-169,31
+2,-387,640
+1,705,0
+1,-358,-456
+2,327,-114
+2,-808,471
+10,-124,-533
+2,751,714
+1,61,-645
+1,-392,618
+1,3,85
+2,-447,169
+1,850,-207
+1,-831,-386
+2,335,48
+1,-16,-421
+1,-165,7
+5,83,270
+1,6,255
+3,28,-108
+1,562,-36
+1,-473,-245
+1,-290,717
+1,592,-164
+4,-343,-814
+2,443,184
+29,-211,-486
+19,163,-630
+2,-116,94
+1,159,25
+2,49,567
+1,-785,-167
+1,297,313
+4,382,-441
+1,269,-506
+1,94,334
+1,-1020,65
+1,560,507
+1,38,-943
+1,-458,549
+1,399,52
+1,-362,50
+2,870,-597
+1,-269,47
+3,-577,649
+1,608,-480
+1,-2,494
+4,-65,-313
+1,129,90
+1,-392,-85
+1,-149,43
+1,418,155
+2,-62,402
+1,-216,74
+1,137,-659
+1,-413,431
+1,-208,-8
+1,679,-228
+2,-272,438
+1,234,-856
+1,126,-234
+35,658,1406
+8,116,-16
+4,-196,-107
+8,-195,-308
+1,-228,-8
+1,66,357
+6,215,-104
+4,110,-196
+2,-19,-395
+2,4,-631
+3,-386,879
+1,236,548
+1,-28,-39
+1,111,-592
+1,-92,-736
+1,260,-63
+4,187,1172
+1,-431,-505
+2,21,-103
+1,339,-390
+3,-6,1078
+1,-46,-463
+1,-452,-60
+1,138,-273
+1,223,236
+1,127,-145
+1,-551,476
+2,375,121
+1,231,-496
+3,-131,447
+1,145,-339
+1,0,140
+1,-365,-545
+1,85,-208
+1,-104,-61
+25,-159,1250
+1,1,-6
+2,931,173
+1,-392,346
+1,-286,1135
+1,14,-457
+1,1143,792
+1,-293,-290
+1,-245,-619
+3,314,455
+1,-812,-942
+1,598,536
+1,356,-438
+1,-25,1256
+1,-944,-1473
+1,497,-47
+1,-96,1244
+2,-253,-1311
+1,838,1230
+1,-616,253
+1,-250,-1278
+1,358,430
+1,-212,320
+1,300,-1255
+1,-535,1681
+1,853,-1261
+1,173,148
+1,-833,1153
+1,717,-1398
+1,177,155
+1,-538,158
+2,-12,-116
+1,25,21
+1,-68,1185
+2,-558,35
+1,903,-1159
+1,-386,864
+1,-236,62
+1,-459,148
+2,1418,-847
+1,-600,93
+1,-534,136
+1,669,-270
+1,-1003,1099
+3,1570,-1203
+1,-653,536
+1,-441,-449
+2,-602,874
+2,32,-972
+1,1115,-48
+1,-91,1032
+1,-78,-228
+1,247,-720
+2,-6,-500
+1,-521,1172
+1,-262,-668
+1,443,569
+1,584,-449
+1,-418,445
+1,-612,583
+1,483,-1563
+2,-498,936
+1,-149,111
+1,698,549
+1,575,-206
+1,-729,-827
+3,-523,-56
+1,1038,-650
+1,-45,1174
+1,-143,1
+1,-633,-343
+1,-469,-677
+1,1230,861
+1,-560,-80
+1,-210,-918
+1,1005,565
+11,-701,107
+2,327,1003
+1,-86,-678
+1,-551,-552
+1,-245,-434
+2,628,289
+1,168,-10
+1,-414,1432
+2,427,-1668
+1,84,641
+1,342,901
+1,-721,-1168
+1,-95,138
+2,35,15
+1,-19,105
+1,59,-186
+1,-3,31
+1,65,54
+1,554,456
+1,-686,-995
+1,488,1543
+2,-192,-1554
+1,-123,-118
+1,230,303
+1,-860,-29
+1,-1,81
+1,1349,498
+1,-257,-135
+1,-965,3
+1,-343,705
+1,522,132
+1,262,-1238
+1,360,559
+1,96,-12
+2,26,532
+1,-981,324
+1,1141,-1509
+1,-848,621
+1,553,337
+7,-917,-660
+2,46,418
+1,1300,-343
+3,-369,-361
+1,-13,117
+3,-831,1036
+5,1134,64
+1,-1508,244
+1,356,-1429
+1,10,685
+1,960,739
+1,-821,-195
+3,526,-789
+2,-763,454
+1,656,-95
+2,211,239
+1,294,-253
+1,-967,-348
+1,631,-231
+1,-731,353
+1,171,-100
+16,226,-98
+2,-81,9
+1,-9,34
+2,-20,-111
+1,31,7
+1,-116,98
+1,143,-90
+2,-93,1
+1,31,-166
+1,32,91
+1,40,2
+11,5,-80
+4,-14,122
+74,357,2194
+10,-413,-718
+2,810,758
+2,368,240
+5,-1088,-643
+2,258,-266
+2,321,21
+1,-59,533
+1,-215,-654
+1,127,574
+1,-1230,-775
+1,1611,1137
+1,-33,-230
+1,-310,-264
+1,-180,164
+1,-814,-579
+2,707,135
+3,438,604
+1,-16,-123
+1,-457,-774
+1,-81,270
+1,-430,94
+4,634,191
+1,300,-509
+1,-440,575
+2,558,289
+1,176,31
+1,-1020,-636
+1,-333,-262
+1,1319,683
+1,-1177,-539
+3,1327,960
+1,-773,-826
+1,-269,-63
+4,464,591
+1,349,-230
+1,-1037,-532
+1,-341,-63
+1,625,-8
+1,-355,233
+1,1218,732
+2,-705,-893
+1,318,344
+1,-723,-231
+2,525,530
+1,587,-32
+2,-1606,-709
+4,422,9
+1,885,821
+2,86,-150
+1,-146,-404
+2,-944,-111
+1,179,205
+1,1126,409
+1,-711,-831
+2,93,492
+1,533,584
+1,-362,-807
+5,601,254
+3,-56,-207
+1,128,135
+5,44,-448
+1,-202,514
+1,381,-108
+1,178,-123
+1,-469,445
+1,292,-805
+1,-166,392
+1,-45,251
+2,-179,179
+2,42,-626
+1,646,460
+2,-33,-210
+1,-163,-16
+1,-373,703
+1,13,-907
+1,-128,732
+1,-248,-725
+1,843,768
+1,-703,-905
+1,-80,353
+1,472,-312
+1,193,-118
+1,95,603
+1,-73,73
+1,-410,24
+1,112,229
+2,50,-1038
+1,444,876
+1,-610,202
+1,354,-216
+1,249,-450
+1,-451,-174
+2,-69,699
+2,258,-489
+1,-87,301
+3,226,-151
+1,101,464
+1,-86,-846
+1,128,724
+1,-364,-743
+1,-17,-88
+1,203,-141
+1,76,143
+1,-81,880
+1,123,-485
+2,64,613
+2,-411,-1184
+1,-200,652
+2,110,-611
+1,523,597
+1,-650,-429
+1,-231,573
+1,144,-623
+3,308,254
+2,419,-137
+1,-833,155
+3,637,-460
+19,-478,-294
+11,431,-98
+1,9,103
+2,45,-408
+2,-130,102
+2,-12,-226
+1,264,455
+1,-448,184
+1,-145,74
+1,-177,-378
+1,212,534
+2,38,-455
+1,-138,83
+1,498,-432
+1,51,547
+1,-673,-399
+1,698,-181
+1,-228,559
+1,-108,-656
+1,-388,508
+2,554,-31
+1,305,-466
+1,-3,134
+1,-116,377
+1,-411,-187
+2,381,444
+1,-840,-532
+1,944,-192
+2,-827,245
+4,133,161
+3,-9,302
+1,743,-73
+1,-675,-317
+1,245,-98
+4,-173,-109
+1,91,266
+1,-201,419
+2,-124,-53
+1,612,-461
+1,-11,-157
+1,-391,145
+1,-250,299
+1,514,163
+2,-439,-93
+1,256,259
+1,178,-505
+3,273,-59
+1,-316,144
+1,441,-147
+1,-631,414
+2,-296,-522
+2,868,-27
+1,-267,147
+1,31,-168
+2,41,198
+14,18,-1269
+10,9,-231
+4,68,305
+1,33,-539
+1,-328,1164
+2,354,-205
+4,85,299
+1,-377,-1071
+2,240,812
+2,-482,-730
+1,-101,715
+1,722,-354
+1,8,-807
+1,-96,-16
+1,-232,873
+1,92,319
+1,84,68
+1,-326,-232
+2,337,-686
+1,-306,905
+1,-19,-562
+1,-6,-153
+1,374,668
+2,44,-424
+1,-611,393
+3,284,-587
+2,-225,471
+1,525,216
+2,-46,90
+2,-432,-651
+3,240,715
+2,329,-1057
+1,-49,781
+1,-4,-588
+1,-487,852
+3,10,-954
+2,469,515
+1,-353,-102
+1,-84,-497
+2,307,527
+3,-288,44
+2,264,99
+2,-529,-100
+1,146,470
+2,255,-401
+1,-204,-383
+2,132,129
+1,-465,24
+1,686,308
+14,-293,-1432
+2,126,42
+1,-12,-252
+8,292,74
+1,-100,-61
+1,169,61
+1,0,-83
+2,-632,-103
+1,430,187
+1,102,-74
+2,-586,516
+1,563,-691
+5,-431,536
+2,-125,-539
+1,242,204
+2,402,310
+2,-162,-492
+2,144,-14
+2,-252,578
+1,265,-442
+1,-322,674
+2,-109,140
+2,-33,-921
+1,284,333
+2,123,-478
+2,-502,143
+2,595,318
+1,-628,563
+1,99,-774
+3,387,341
+2,-22,-151
+2,-458,439
+1,324,-754
+1,16,231
+2,-5,165
+4,296,-430
+1,-436,-10
+4,-14,664
+1,-91,-309
+2,-18,478
+25,-632,525
+1,38,60
+19,139,-632
+2,-205,819
+1,-127,-520
+2,4,-295
+1,-258,84
+1,59,91
+1,173,360
+1,414,-335
+2,-90,-159
+1,-413,168
+1,156,299
+1,102,-146
+2,252,244
+1,-637,-576
+1,742,436
+1,-172,-371
+1,-593,-162
+1,225,192
+1,489,683
+2,-217,-476
+1,122,51
+1,-113,60
+4,-116,-171
+1,414,-116
+1,-656,325
+1,684,-200
+1,-452,-239
+1,524,611
+1,-907,-267
+1,351,280
+2,-247,-402
+3,403,-65
+2,-63,-40
+36,59,-864
+2,-10,54
+1,60,-22
+1,-152,141
+3,46,-165
+8,-37,35
+5,191,181
+2,-154,-98
+3,-599,264
+1,370,85
+1,211,9
+2,144,-196
+2,170,-250
+1,-276,364
+1,358,-271
+1,-193,151
+1,-304,-85
+1,-55,-173
+1,-131,13
+2,118,119
+1,226,94
+2,-168,378
+1,-138,-451
+1,57,-125
+1,553,227
+1,-99,99
+1,150,-356
+1,-140,586
+1,-770,-96
+1,508,14
+1,268,-412
+3,46,-137
+1,-146,90
+2,-563,197
+1,873,89
+42,-553,-4355
+1,-262,676
+1,705,244
+1,-499,-300
+1,-119,-443
+1,-145,-160
+1,779,1073
+1,-174,-316
+1,-225,-730
+1,-185,700
+1,-253,-74
+1,826,155
+1,-57,91
+1,-29,-644
+1,-517,-451
+1,724,907
+1,-870,-406
+1,123,156
+1,158,496
+1,256,180
+1,-138,-1407
+1,293,678
+2,-246,-817
+1,359,1239
+1,-490,294
+1,728,33
+1,10,-389
+1,-1072,-576
+1,-433,1019
+1,561,-442
+1,-634,580
+1,907,-1504
+1,396,1121
+2,-197,-525
+2,-381,-492
+2,521,76
+1,-618,-501
+1,195,629
+1,511,-157
+1,134,970
+1,-356,292
+2,-55,-1173
+1,40,-231
+1,85,1257
+1,356,33
+1,-906,10
+1,-199,-350
+1,523,-816
+1,319,1208
+1,-1030,-719
+1,1524,310
+1,-1338,184
+1,989,203
+1,-491,-825
+2,1022,1029
+1,-1329,-1713
+1,1039,1309
+1,-686,-328
+1,-120,144
+1,247,282
+1,-591,-579
+1,228,625
+1,114,-182
+1,-25,37
+1,9,19
+1,-25,-93
+1,950,106
+1,-1329,121
+1,-84,42
+2,1554,-36
+1,-628,-486
+1,-464,-258
+1,-195,562
+2,-240,-452
+2,750,556
+2,-1041,374
+3,784,-827
+1,129,-163
+2,-267,-112
+1,-23,568
+2,-200,221
+1,605,-1437
+1,-114,1077
+1,-772,480
+1,891,-601
+3,-47,247
+1,18,0
+1,-14,15
+1,45,1
+1,-38,-34
+1,0,-37
+1,-32,6
+1,-17,43
+1,15,130
+1,71,-82
+1,-1,-96
+2,60,55
+1,-136,76
+1,105,-123
+1,-72,102
+1,43,-68
+1,-97,-38
+1,160,-5
+1,-61,129
+1,0,-168
+5,-42,-36
+1,-36,-14
+1,-10,179
+1,27,138
+1,117,-123
+1,-32,-170
+2,71,70
+1,-215,136
+4,-14,-93
+2,134,132
+1,90,-253
+3,-186,233
+4,-35,-75
+1,12,159
+1,171,-87
+8,-184,-162
+1,-52,104
+2,246,-166
+3,-223,268
+4,22,-275
+1,-56,96
+3,16,-75
+6,84,-22
+222,-1217,542
+24,254,-463
+5,-564,209
+2,354,938
+1,389,-997
+1,-23,-159
+1,-260,84
+1,-72,454
+1,82,-371
+1,-86,-91
+1,-344,759
+1,24,-145
+1,-95,-551
+1,456,-249
+1,-161,391
+1,313,-91
+2,-386,611
+1,158,-75
+1,-299,-253
+1,43,562
+1,276,5
+3,-236,-732
+2,199,511
+1,-120,-863
+2,240,309
+1,-577,175
+1,524,471
+1,59,235
+2,-232,-1002
+18,303,-92
+6,43,85
+1,23,-113
+3,-25,-105
+10,90,-631
+2,125,-201
+2,-110,4
+2,155,13
+13,-459,498
+1,365,-1338
+2,21,30
+3,138,19
+1,-215,644
+1,-179,-31
+1,-61,700
+1,-83,-1098
+1,-60,523
+1,435,-1061
+1,-125,1722
+4,-37,-1812
+1,308,1295
+1,-319,-897
+1,10,720
+1,322,380
+1,-391,-755
+1,73,544
+1,189,-1362
+2,-437,1031
+1,751,-682
+1,-763,1273
+1,434,-1021
+1,58,-748
+1,-395,1020
+1,321,121
+1,-299,59
+1,512,-907
+1,-340,642
+1,224,-421
+1,5,886
+2,-1,-439
+1,-183,-508
+2,-356,1051
+2,657,-603
+1,-828,1106
+1,596,-1037
+1,131,760
+1,-484,-48
+1,-327,437
+1,579,-1333
+1,399,-813
+1,-542,1601
+1,-228,365
+28,1343,-989
+19,135,-74
+2,-222,27
+2,-40,-174
+1,332,-18
+1,-253,-95
+1,-242,-168
+1,433,-247
+4,-361,785
+6,580,-881
+1,-110,835
+2,-469,-236
+1,553,-713
+2,-418,483
+1,-233,-442
+1,647,1246
+1,-383,-528
+3,209,-271
+1,-620,352
+3,834,-304
+1,-879,125
+3,968,530
+1,-71,-221
+1,-245,-974
+1,-457,893
+1,143,-640
+1,785,766
+1,-928,-341
+2,240,-684
+1,591,880
+1,-781,-936
+1,525,1233
+4,-698,-895
+28,1375,1846
+2,14,-175
+2,-102,65
+11,146,-649
+1,354,-233
+1,-629,617
+1,754,-97
+1,-769,394
+2,717,-480
+2,-882,-341
+2,557,183
+1,-105,465
+1,247,-361
+1,-336,-50
+1,-81,913
+1,333,-1062
+2,-390,915
+1,-272,-164
+1,297,-211
+1,65,382
+1,-49,-896
+1,143,1019
+1,76,-577
+2,39,-135
+1,-458,348
+1,467,-71
+1,-613,-298
+2,738,-371
+1,-454,322
+2,469,185
+1,-850,211
+3,702,80
+1,-172,-233
+1,-239,-501
+1,-165,486
+1,301,665
+1,655,-639
+1,-73,380
+1,-479,-461
+1,302,136
+1,-971,56
+1,389,-350
+1,-248,123
+2,790,365
+2,-276,-438
+2,-315,-223
+1,822,540
+1,-1011,-463
+1,388,501
+28,232,-1493
+31,-436,-276
+2,803,118
+1,-883,352
+3,270,343
+2,163,-767
+1,146,24
+1,274,403
+1,-423,-614
+1,500,-330
+4,-265,120
+3,-60,258
+1,-95,662
+1,-240,-40
+2,636,-693
+2,-604,520
+1,-103,-594
+1,-31,641
+1,406,443
+41,212,-2232
+30,-168,274
+1,103,287
+1,51,-2066
+4,-174,-180
+1,365,2181
+1,-155,-1211
+3,-33,294
+2,-162,393
+1,245,-130
+1,108,-1571
+1,-93,637
+2,-245,179
+1,258,1093
+1,88,-159
+9,-451,-739
+41,-3,5731
+1,72,-82
+1,167,76
+3,-15,173
+2,-789,17
+2,-116,-484
+1,174,553
+1,69,3
+2,2,142
+1,129,-55
+1,363,268
+1,-154,-137
+2,-106,-15
+1,-39,-818
+1,133,575
+1,546,-132
+1,-968,-774
+3,-240,-28
+1,1096,1173
+1,-1019,-913
+1,1029,630
+1,-838,-675
+2,222,-334
+1,-260,893
+1,286,-557
+1,171,185
+1,-246,871
+1,-159,-473
+1,158,-579
+1,-255,322
+2,36,178
+1,943,508
+2,-798,-830
+1,138,-319
+1,-468,127
+1,98,546
+1,841,376
+2,-620,-416
+1,542,111
+1,-547,-614
+1,363,838
+1,-150,-597
+1,-3,510
+1,518,-512
+2,-432,-428
+1,-391,-309
+1,285,817
+1,276,358
+1,-495,-1008
+1,113,701
+3,-157,30
+2,-87,-408
+2,494,490
+1,-622,-177
+1,1181,649
+1,-661,-394
+1,-220,-1054
+1,90,-19
+2,-45,14
+1,1,-11
+1,-382,424
+1,799,907
+1,-360,-711
+1,267,579
+1,430,128
+1,-351,-581
+1,-417,-389
+18,45,727
+1,-10,42
+1,-49,-7
+1,95,-24
+1,-77,-47
+1,25,242
+2,48,-163
+2,-41,51
+2,-20,-45
+1,72,38
+1,-10,66
+1,57,-59
+2,-104,-87
+1,9,12
+6,86,-41
+1,-64,-28
+1,-26,196
+1,-21,-22
+1,115,-85
+1,-190,-116
+1,-2,56
+1,-10,140
+1,71,80
+1,-13,-126
+1,-35,-18
+1,-40,10
+8,75,41
+1,2,34
+25,-48,-97
+130,627,710
+29,-233,-19
+1,203,310
+1,-100,-364
+1,246,234
+4,-653,-255
+1,115,624
+1,678,-167
+1,-460,-138
+2,-47,73
+1,309,124
+1,-141,80
+2,-156,-13
+1,-240,-34
+2,314,-240
+1,-47,-20
+2,-331,-146
+2,754,313
+4,29,0
+1,-750,29
+1,812,16
+1,-672,-471
+2,652,596
+1,-764,-238
+1,92,-110
+1,90,30
+1,38,-84
+1,-209,265
+1,718,-354
+1,-175,522
+31,-1026,-778
+2,-42,151
+18,81,-735
+1,-120,352
+1,-1,470
+2,-471,-403
+1,274,94
+1,232,642
+1,-128,-761
+1,400,15
+1,-820,-13
+1,329,-293
+1,-176,288
+2,501,456
+1,-190,100
+1,213,-610
+1,-369,-222
+1,76,165
+3,464,617
+1,-853,-672
+3,507,-12
+1,220,507
+1,-201,-690
+3,-50,539
+1,124,462
+1,397,-57
+2,-278,-441
+1,-481,240
+1,349,-724
+1,295,1152
+1,-124,-747
+1,-363,96
+1,-14,-472
+2,-225,817
+1,490,-404
+1,174,577
+3,23,-419
+1,-350,-206
+1,-105,278
+1,-35,154
+1,357,295
+1,-584,-388
+5,754,-7
+24,-1020,-520
+20,-322,688
+1,221,-578
+1,-631,75
+2,81,-454
+3,369,328
+2,-272,-809
+1,451,309
+2,-673,31
+1,416,-164
+1,-140,-84
+1,99,1022
+2,-14,-826
+2,2,541
+3,-212,327
+3,493,-199
+1,-42,-19
+2,-248,705
+3,551,-355
+1,-400,-676
+1,213,205
+1,-677,-245
+1,209,-236
+1,-71,503
+1,118,532
+2,144,-594
+1,481,345
+1,-823,102
+1,663,240
+2,-150,-750
+2,-370,487
+2,27,-589
+1,386,-176
+1,-143,1052
+1,-94,-1382
+2,51,1169
+2,-9,-781
+1,65,1181
+1,173,-480
+23,1796,-1807
+3,0,167
+26,-203,-453
+1,300,131
+1,142,-37
+1,-231,564
+3,113,-745
+1,-220,878
+3,-32,-1005
+1,236,788
+2,-152,-714
+1,-95,479
+2,262,-346
+1,96,447
+3,-438,275
+1,-9,-444
+1,388,520
+1,-210,-697
+48,-2639,964
+19,-179,5
+1,49,210
+1,500,1264
+1,-387,-1119
+1,349,1155
+2,-401,-1312
+1,78,315
+1,138,1039
+1,-10,-1434
+1,-235,-177
+1,-42,-146
+2,-48,95
+1,269,1944
+1,6,-724
+1,-183,269
+1,117,90
+1,-135,-540
+2,-129,846
+1,28,-1691
+2,212,777
+2,-148,695
+2,-101,-1499
+1,373,-178
+2,-146,1481
+3,-77,-1522
+1,284,1414
+1,-73,-22
+1,-34,-232
+3,-29,-346
+1,107,364
+1,-158,155
+3,86,144
+2,-5,83
+35,1229,-1996
+3,76,49
+16,-587,206
+4,1085,-156
+1,-1066,479
+1,198,-495
+1,-81,544
+2,565,-123
+1,-360,-199
+1,-251,-369
+1,935,27
+1,-246,593
+1,114,-465
+2,-1255,249
+1,901,174
+2,-102,410
+1,68,-724
+2,-690,155
+1,38,-114
+1,219,140
+1,377,709
+3,-173,-464
+1,-102,-392
+1,132,629
+1,316,-975
+1,-302,73
+2,-13,243
+1,403,-140
+1,-1117,90
+1,943,-385
+2,116,879
+1,76,-248
+4,-33,-137
+1,-886,-111
+1,453,-29
+1,-101,309
+1,314,-107
+1,311,-106
+2,-993,199
+1,175,-436
+1,461,11
+2,640,18
+3,-868,-111
+2,375,949
+1,334,-959
+2,-494,827
+1,-35,-262
+17,114,2014
+1,-47,33
+28,-67,-307
+1,501,-12
+1,-540,252
+3,-184,-376
+1,433,183
+1,-577,141
+2,-88,-45
+1,219,0
+1,319,-244
+1,-373,-102
+1,205,-121
+1,31,93
+1,453,189
+1,-188,365
+1,-405,-64
+1,477,-53
+1,-784,-203
+2,488,108
+2,-134,93
+1,375,80
+1,88,-267
+1,-405,-16
+1,-572,119
+2,747,32
+1,539,-28
+2,-266,-290
+1,-1132,378
+1,1700,-96
+1,-115,28
+1,-1103,-240
+35,-1934,-1966
+1,130,228
+4,-128,-290
+1,43,2
+2,334,144
+1,-298,-122
+3,73,181
+6,-153,-292
+1,812,379
+1,-45,129
+1,-704,-642
+1,33,389
+1,21,-80
+1,12,71
+3,-57,-325
+4,-176,634
+1,328,-413
+1,-64,5
+1,45,63
+1,-33,-139
+2,-261,-64
+1,13,42
+1,44,317
+1,-49,-32
+1,34,-23
+1,-58,97
+1,109,-72
+4,4,70
+2,-196,-425
+1,-47,13
+1,-61,-37
+2,-51,4
+2,462,117
+1,-25,-67
+1,398,238
+2,-651,-216
+1,28,-14
+1,21,9
+1,64,-42
+2,199,-5
+2,-94,6
+1,161,47
+1,-13,357
+1,-9,-102
+1,91,66
+1,-58,-69
+2,-155,27
+1,-12,-69
+1,780,16
+1,-720,-335
+1,160,249
+2,-265,70
+1,-26,35
+1,45,40
+5,-46,225
+1,-57,-100
+1,46,-2
+1,666,-6
+2,48,-150
+1,-618,-112
+1,-14,199
+4,-6,78
+3,-744,-167
+1,-183,66
+1,430,752
+1,68,-1088
+1,-318,604
+4,-224,24
+1,37,-176
+4,537,77
+1,-18,-421
+1,62,-48
+1,50,1054
+2,-387,-732
+5,-5,620
+1,218,-652
+1,206,169
+1,-44,662
+5,240,-589
+2,-316,-400
+1,445,556
+2,-433,-689
+3,0,1227
+1,5,-1007
+1,-72,443
+1,-203,5
+1,-257,37
+2,458,-541
+1,-140,684
+1,-301,39
+1,648,-593
+1,41,-12
+2,-374,-47
+1,-273,319
+1,357,-450
+1,-295,333
+1,49,371
+1,185,-344
+1,2,48
+1,139,-140
+1,160,248
+1,-25,129
+2,-572,45
+1,909,-184
+1,-704,-500
+1,643,354
+1,-654,-467
+2,342,921
+3,-98,-679
+1,457,278
+7,-343,-223
+1,5,63
+1,77,8
+7,141,236
+12,-154,-488
+1,-10,-4
+1,-34,2
+1,58,13
+1,35,-8
+1,-6,26
+1,-43,-50
+1,-33,-19
+1,93,15
+1,-77,78
+1,-34,-161
+1,45,29
+2,47,136
+1,-76,-18
+1,-42,-20
+1,2,99
+1,127,-22
+1,-29,-109
+1,58,-63
+3,-76,130
+1,-82,-93
+1,154,49
+1,-82,13
+1,-16,90
+1,58,8
+1,69,-188
+1,9,74
+1,-30,45
+1,-214,-92
+1,45,-32
+1,221,-16
+1,-92,39
+1,-144,-87
+1,-24,64
+1,214,164
+2,51,-85
+1,-263,34
+2,246,22
+1,12,-99
+2,-133,63
+1,22,-105
+1,156,81
+1,-334,-168
+2,283,190
+1,78,-13
+1,-323,179
+1,270,-191
+7,-41,-253
+9,-122,251
+17,218,-40
+103,-185,-1
+11,375,734
+1,-121,21
+5,88,-392
+2,200,-36
+1,-564,879
+1,1076,-1
+1,-67,503
+1,-365,-1030
+1,188,-263
+1,-168,704
+1,142,396
+1,-158,188
+1,132,-1031
+2,-507,453
+1,596,-13
+1,-522,-193
+1,153,-276
+1,13,-189
+2,343,1377
+2,-373,-906
+1,4,26
+2,-265,431
+1,372,-212
+1,-288,-130
+1,318,459
+1,85,54
+1,241,34
+1,-485,-209
+1,359,-607
+1,-62,-211
+1,-681,529
+1,555,111
+1,-252,-703
+4,439,446
+1,157,-224
+1,-456,335
+1,107,-160
+1,-25,487
+1,-439,337
+1,443,-1114
+1,-392,306
+1,273,-628
+1,-66,1578
+2,-41,-227
+2,353,-1472
+1,133,1077
+2,-38,113
+6,-117,88
+1,-107,-419
+1,187,21
+1,-530,428
+1,-173,-496
+1,932,382
+1,-892,-621
+1,562,-149
+1,222,17
+1,-178,503
+1,-357,389
+1,457,-981
+1,-615,1134
+1,305,-178
+1,-152,-234
+4,577,-136
+1,-406,584
+1,440,-837
+1,-259,-488
+1,-82,177
+1,48,-88
+1,111,404
+1,-455,878
+1,-225,-146
+1,522,-1287
+1,-75,482
+1,-442,489
+4,450,1436
+2,146,3
+47,-20,-754
+1,-379,671
+3,460,-560
+1,-640,638
+1,216,80
+2,101,-788
+1,248,200
+1,-302,284
+1,315,84
+1,-581,29
+1,92,-140
+1,-140,143
+1,62,176
+1,203,-416
+1,163,169
+1,-123,-266
+1,248,464
+1,23,-314
+1,-257,-337
+1,19,646
+1,122,-101
+1,-23,-322
+27,-816,-173
+1,-72,81
+1,-34,-68
+1,111,-117
+1,71,118
+25,268,137
+1,-591,123
+2,-124,176
+5,882,-456
+1,-741,561
+1,429,-514
+1,-323,107
+1,-27,398
+1,-352,-184
+1,785,-638
+1,-112,120
+2,-162,-83
+3,-4,414
+1,156,25
+1,-430,-204
+2,-148,-106
+2,920,262
+1,-216,262
+1,-623,-589
+1,335,807
+2,131,-61
+1,-258,-721
+5,-392,30
+1,919,165
+1,-875,124
+1,527,133
+1,-70,107
+1,-21,16
+8,-458,-419
+1,-56,34
+1,308,-270
+1,565,217
+1,-550,-200
+2,690,-7
+1,-861,-19
+2,81,1
+2,125,410
+1,159,434
+1,63,-743
+1,104,517
+7,-315,-952
+1,41,-16
+1,-129,-9
+1,167,-128
+1,-27,372
+1,97,-217
+1,-168,125
+1,109,-40
+1,-101,-177
+2,25,102
+39,-69,206
+1,-198,-843
+1,182,121
+2,161,151
+1,229,573
+1,-349,-503
+1,-183,231
+1,161,-173
+1,-235,105
+1,-226,553
+2,408,-550
+1,-175,-110
+1,-148,379
+1,747,-91
+1,-696,-17
+4,213,-392
+1,374,217
+2,148,-21
+5,-380,-262
+1,-438,225
+1,126,394
+2,80,-497
+1,747,163
+1,-944,459
+1,-114,-210
+3,65,260
+1,287,-178
+1,417,-549
+1,-305,422
+1,247,115
+9,-727,-445
+2,140,-128
+28,-408,-330
+2,-205,165
+2,16,353
+3,194,-739
+1,139,671
+1,165,-535
+4,-258,671
+1,-437,346
+1,259,-1102
+1,-5,1059
+1,431,-1214
+1,-376,858
+1,-261,-459
+1,-44,435
+1,-92,-200
+1,947,-114
+2,-390,-50
+1,-356,610
+2,180,117
+1,507,-1117
+1,-265,9
+1,229,357
+1,-887,562
+3,93,364
+19,731,-931
+2,-11,-23
+15,-476,1275
+2,72,-107
+1,-47,-92
+21,288,-222
+1,-371,103
+2,-573,1248
+1,556,-481
+1,113,157
+1,-244,40
+1,-40,379
+1,-502,-197
+1,341,-946
+1,825,560
+1,-769,-390
+1,531,193
+1,-541,42
+1,76,-447
+2,170,42
+1,-361,343
+1,832,-478
+1,-304,506
+2,460,-127
+2,-539,793
+1,-45,-787
+2,-296,449
+3,970,12
+2,-1228,65
+3,836,144
+1,-601,-1016
+1,647,350
+1,62,-143
+2,10,-129
+1,99,150
+1,-901,913
+2,424,-240
+1,194,-934
+3,56,766
+1,209,179
+1,247,-297
+1,-67,-179
+1,-372,-531
+1,-454,1163
+2,-316,-602
+1,345,39
+21,1537,-2806
+1,-9,62
+3,179,18
+1,-14,-27
+2,-105,-524
+1,-266,425
+1,307,121
+1,29,-2
+1,3,-56
+1,-36,-16
+1,-27,68
+1,0,-49
+1,-3,-53
+1,-26,25
+1,-1,74
+2,238,-471
+1,-47,431
+1,-22,-15
+1,211,-452
+5,-509,290
+3,-187,-21
+2,-54,-189
+1,599,367
+1,-325,-496
+1,5,225
+3,289,335
+1,-40,-17
+1,-582,261
+2,-40,-919
+1,228,221
+4,-18,-261
+1,52,94
+1,-192,552
+1,674,75
+1,37,-291
+1,-163,190
+1,41,2
+1,-697,31
+3,312,-279
+1,-78,96
+1,246,114
+1,-137,19
+2,68,53
+1,-262,108
+1,160,46
+1,227,-1008
+1,106,-144
+3,-585,484
+1,794,185
+2,85,-247
+4,-814,7
+1,811,251
+4,-123,-271
+2,-544,644
+1,435,-602
+1,-109,-97
+1,-84,-2
+1,183,-112
+4,103,754
+1,-744,-257
+9,548,77
+1,-9,56
+1,-21,-45
+1,-5,48
+1,94,-90
+1,-75,-22
+1,46,-141
+1,-87,136
+1,7,49
+1,72,37
+1,-33,83
+2,28,-189
+1,-96,76
+1,42,-116
+1,82,180
+1,-9,73
+1,-103,-68
+1,76,81
+3,-144,-222
+3,26,-112
+1,128,84
+2,-68,68
+2,173,17
+1,-214,-70
+1,-15,36
+1,-9,50
+1,192,-140
+2,24,178
+3,-240,14
+8,248,26
+7,-44,203
+9,-43,-305
+13,186,50
+2,-57,-130
+1,-69,210
+2,45,16
+19,335,62
+2,-9,-6
+2,-19,23
+2,29,-47
+1,-13,121
+1,23,-55
+1,-83,14
+15,225,-572
+1,-269,490
+1,168,188
+1,345,-1073
+2,-94,131
+3,19,1037
+1,-267,-619
+4,203,162
+1,33,-225
+1,150,401
+1,-17,0
+3,-717,-101
+1,896,414
+2,-723,-484
+1,-172,121
+1,350,-76
+1,351,60
+1,29,-443
+1,12,307
+1,-46,64
+2,186,-405
+3,-440,787
+1,-172,-380
+2,594,-652
+1,-783,744
+1,494,-217
+1,245,600
+1,-29,-704
+1,-347,328
+1,-4,-184
+1,259,632
+2,-167,-994
+1,8,845
+1,-13,-213
+1,288,191
+28,161,-1544
+1,-39,-5
+3,140,97
+1,-56,-139
+2,-95,-10
+1,41,-7
+1,-91,16
+1,168,20
+40,-415,-187
+3,532,70
+3,-11,440
+3,-196,-698
+3,-370,-641
+1,630,513
+1,-386,803
+1,-42,-567
+1,256,60
+3,-515,-181
+1,27,-759
+1,-247,722
+1,923,-195
+1,-815,365
+3,664,504
+2,-340,-230
+1,-65,-725
+4,538,-105
+4,-818,-323
+1,190,1161
+12,-1242,275
+1,-54,-10
+22,584,-671
+2,359,1047
+1,-29,-556
+2,-372,-270
+1,45,-557
+1,499,1355
+1,-1466,-916
+1,469,774
+2,-81,-846
+1,-357,638
+1,514,-806
+2,236,1097
+3,-727,-686
+1,222,-598
+1,11,634
+1,181,35
+1,-230,182
+2,318,-431
+1,509,475
+1,158,-337
+2,-1300,256
+1,824,61
+1,-357,-364
+1,-406,333
+2,124,339
+1,1271,-164
+1,59,-198
+1,31,-110
+2,-785,470
+1,-66,-388
+1,124,-738
+2,-150,423
+3,-93,-469
+1,167,527
+1,-396,-308
+1,501,803
+2,-649,-595
+1,714,289
+1,-310,562
+5,633,-774
+2,164,-585
+1,-420,981
+2,275,249
+1,-43,148
+3,-10,-139
+1,95,-995
+10,-1982,1787
+1,29,-160
+2,38,37
+7,-344,-44
+2,259,-84
+5,-205,365
+1,143,105
+1,-122,116
+2,346,-1051
+1,-416,696
+1,466,70
+1,205,-980
+2,-638,386
+1,605,21
+2,-729,350
+1,975,-762
+3,-803,809
+3,-67,-225
+1,812,-319
+1,-538,-74
+2,23,267
+1,-125,26
+1,136,59
+1,205,-46
+4,-275,48
+1,-38,-191
+1,85,-427
+4,-134,883
+2,-271,532
+1,597,-555
+2,-211,-214
+2,346,71
+4,216,-806
+1,-131,349
+1,-883,972
+2,308,-189
+1,143,263
+1,-133,-650
+2,-130,102
+1,-240,113
+3,34,205
+1,-78,-53
+1,662,-5
+17,279,-485
+1,8,17
+1,-9,-25
+1,-11,-3
+22,410,651
+1,-58,-156
+1,411,443
+1,-566,-155
+2,462,232
+1,-21,-666
+1,-64,419
+1,-888,318
+1,200,-571
+1,637,257
+1,-680,-100
+1,388,-263
+1,110,-242
+1,-89,910
+1,454,-629
+1,-395,-466
+1,-217,311
+1,309,789
+1,-170,-418
+1,348,287
+1,-547,262
+1,-49,-673
+2,563,71
+3,-163,320
+1,153,-1076
+1,-22,1019
+1,205,-4
+1,-67,-708
+1,-823,969
+1,426,-409
+1,-329,-158
+1,-214,110
+1,260,-336
+3,498,507
+1,-629,53
+3,254,37
+1,364,-912
+1,115,820
+1,-383,430
+3,479,-524
+1,-148,-542
+2,-237,639
+3,125,-67
+2,-225,210
+1,304,172
+1,-764,-224
+1,725,365
+1,-463,-477
+3,-114,-95
+1,404,468
+1,-374,54
+2,293,-1020
+1,442,-289
+1,-334,697
+1,190,-232
+1,-148,886
+8,-260,-694
+3,23,14
+1,52,40
+1,-171,0
+1,98,-75
+1,73,-57
+2,-87,21
+1,-26,42
+1,13,-108
+86,19,140
+3,198,-1935
+1,-28,161
+18,-932,-146
+1,954,-910
+2,-51,783
+1,-750,701
+1,162,-927
+2,428,257
+1,479,-155
+3,-1248,334
+1,205,211
+2,919,-733
+2,-460,-108
+1,-215,-305
+4,-353,-244
+1,69,1035
+2,528,600
+1,87,-986
+3,-699,-76
+1,-367,-258
+3,886,365
+1,-90,1085
+1,-712,-1156
+2,135,255
+1,1240,346
+1,-724,-688
+1,-322,-244
+2,711,-343
+1,-181,497
+2,143,956
+1,292,-1405
+1,-410,226
+3,-530,952
+1,694,446
+1,-334,-456
+1,66,-162
+1,170,-222
+1,-1029,-753
+1,1124,107
+2,-444,1252
+1,501,-529
+2,-213,978
+2,355,-1396
+2,-109,142
+1,-832,708
+2,173,-297
+1,578,-482
+2,84,874
+11,-185,-1883
+1,35,-76
+1,-62,287
+1,-195,14
+1,213,108
+3,-68,-87
+1,9,-63
+21,-330,-654
+2,81,-444
+1,689,1280
+1,-266,-393
+1,-543,252
+1,-180,-230
+1,499,505
+2,-122,-440
+1,168,463
+1,-192,-734
+2,-775,-461
+2,1403,717
+5,-1437,40
+1,1367,-491
+2,-75,736
+2,-429,181
+2,73,-166
+1,273,-450
+44,-1888,5389
+1,-6,20
+1,-27,-18
+1,-6,-60
+1,23,33
+1,31,-18
+1,26,-8
+1,-3,49
+1,-41,8
+1,-11,53
+1,-24,33
+1,76,40
+1,191,-231
+1,-221,294
+1,97,-127
+1,-170,48
+1,135,-176
+1,-74,13
+1,15,104
+1,-70,-48
+1,134,-23
+1,-110,62
+1,45,-188
+1,-81,71
+1,114,106
+1,-61,-117
+1,86,160
+1,-66,29
+1,-53,-145
+1,-54,-144
+1,334,200
+1,-318,7
+1,-53,146
+1,41,-278
+1,43,-66
+1,192,146
+1,28,-50
+1,-11,91
+1,-31,-182
+1,-19,-54
+1,-117,26
+1,70,-25
+1,95,404
+1,-259,-250
+1,87,-2
+1,-123,46
+1,12,59
+1,210,179
+1,70,-120
+1,-247,-110
+2,-70,-82
+1,94,56
+1,117,-88
+1,-49,24
+1,-4,-20
+1,-182,389
+1,52,-19
+1,322,-279
+1,-289,122
+1,-71,142
+1,160,-388
+1,188,-20
+1,2,-62
+1,31,101
+1,-4,56
+1,54,-41
+1,-19,-35
+1,-9,-50
+1,-327,53
+1,48,-65
+1,300,185
+1,-312,-116
+1,-67,247
+1,239,-113
+1,-106,-260
+1,100,397
+1,-76,-358
+1,40,81
+1,-105,43
+1,11,-161
+1,-30,-8
+1,133,-12
+1,-206,175
+1,298,-7
+1,-232,188
+1,194,-149
+1,-294,227
+1,422,-214
+1,-156,4
+1,-21,-39
+1,31,133
+1,-92,-357
+1,139,40
+1,-235,180
+2,60,63
+1,-64,-170
+105,50,242
+97,589,-87
+1,-88,86
+1,156,-32
+1,-48,-135
+2,-44,200
+10,20,-374
+2,139,134
+2,363,-6
+6,-304,740
+1,-156,-113
+1,57,-261
+3,213,8
+3,164,-189
+1,-190,452
+1,-522,-186
+2,-56,-176
+1,33,62
+1,610,-310
+1,41,-28
+1,41,0
+3,-686,401
+1,-61,-19
+4,816,265
+1,-90,95
+3,-510,-826
+1,-52,-106
+1,310,19
+1,-309,549
+1,386,-262
+1,231,143
+1,72,182
+2,-689,-553
+1,159,-179
+1,457,635
+1,-660,-60
+2,735,-115
+1,-397,549
+1,-29,106
+2,72,-246
+1,-226,-220
+1,-206,-183
+1,330,740
+1,-297,-942
+1,349,911
+1,-384,-997
+1,418,287
+1,-439,-149
+1,98,66
+1,40,-34
+1,18,-46
+2,39,52
+1,-47,67
+1,-87,73
+2,-38,-110
+1,61,-51
+7,-180,255
+5,-239,-199
+5,-58,-334
+1,24,87
+5,-109,-750
+2,-656,570
+1,32,181
+2,524,-249
+1,526,-297
+1,-1115,1
+1,361,333
+2,-263,337
+1,863,-405
+3,289,-271
+2,-1449,101
+1,1323,492
+1,-736,-3
+1,-127,-151
+1,-97,-409
+1,909,487
+1,-421,-577
+1,-8,197
+1,-151,-132
+1,-161,-20
+3,-314,128
+1,807,235
+1,-259,-585
+1,-79,314
+1,-73,403
+1,811,-286
+1,-10,74
+1,-32,165
+1,-639,-260
+1,422,351
+1,-90,-2
+1,-285,-289
+2,-231,6
+1,313,-220
+1,-413,-206
+1,-205,355
+1,-227,145
+1,263,-305
+1,563,716
+1,-129,-851
+1,-4,610
+3,228,-164
+1,-909,-287
+1,1081,214
+1,-559,-170
+1,-97,331
+1,354,149
+1,43,-831
+1,15,671
+2,246,-242
+1,-21,-86
+1,-263,-483
+1,166,700
+1,-53,405
+1,-6,-40
+1,-53,-27
+1,-474,-135
+1,380,199
+1,-378,-332
+1,-312,31
+1,1305,-55
+1,-445,-136
+1,-481,371
+2,136,-403
+1,304,579
+4,253,-315
+1,-108,15
+4,-104,160
+4,39,456
+1,11,43
+1,-43,-33
+1,0,49
+1,70,-50
+1,-94,128
+3,-275,-29
+1,32,-153
+3,307,619
+1,-515,-826
+2,187,311
+1,145,154
+1,713,412
+1,-481,-426
+1,75,38
+2,-46,97
+7,23,-248
+1,-750,-288
+1,894,345
+1,154,457
+1,-872,-711
+1,840,389
+1,-363,-195
+2,282,594
+1,-521,-505
+2,-437,-298
+4,521,-147
+1,-26,280
+1,229,-46
+3,-432,470
+1,-29,-65
+3,-44,-90
+1,76,148
+5,556,189
+1,268,-149
+1,-305,-319
+1,-526,23
+1,928,376
+1,-694,-377
+1,-485,-441
+2,313,486
+3,322,-69
+2,-184,-30
+2,577,334
+2,-821,-512
+1,225,-97
+2,373,488
+1,-296,-406
+1,452,618
+1,-640,-792
+1,171,103
+1,786,817
+1,-749,-505
+1,79,-189
+3,-282,311
+1,20,-82
+6,429,303
+1,-289,-439
+13,475,1307
+1,388,-107
+1,-374,-424
+1,278,611
+1,51,-318
+1,210,-143
+1,-1036,-261
+2,415,553
+3,-84,-369
+1,-301,-128
+1,1118,143
+1,-311,-120
+2,-378,384
+2,-13,-426
+1,89,563
+2,136,65
+8,-321,-136
+2,77,49
+8,-519,-772
+1,542,716
+4,-270,10
+1,713,-231
+1,-197,-20
+2,-56,-243
+1,474,292
+1,-865,-229
+1,398,351
+1,335,-389
+1,72,11
+1,-795,-10
+36,283,301
+1,13,-23
+1,28,19
+2,-206,-66
+1,192,8
+1,-47,1
+1,97,13
+5,-81,-107
+88,570,-2102
+1,22,40
+1,17,-65
+4,0,-97
+1,120,172
+22,-266,314
+1,200,91
+2,-526,-503
+2,-12,-178
+1,348,-88
+1,472,-2
+3,-402,355
+3,3,-17
+2,-54,65
+7,-133,-483
+1,-73,-83
+2,800,738
+1,-63,-309
+1,-301,-343
+2,89,239
+2,-158,407
+2,-331,-450
+1,569,665
+1,252,-309
+1,-717,-12
+1,248,-356
+1,-377,525
+3,691,-65
+1,-172,21
+1,-302,289
+2,-4,-141
+1,19,85
+2,-107,-577
+1,-74,-32
+1,-130,277
+2,624,-190
+19,-2105,-607
+3,112,-26
+1,-181,-48
+45,-491,163
+1,390,-14
+3,460,-385
+3,-60,580
+3,-382,-536
+1,192,875
+1,185,-126
+1,-379,-903
+1,727,571
+4,-463,-19
+1,-133,200
+1,63,220
+1,-13,-88
+2,-301,-442
+1,366,-325
+1,678,207
+1,-635,-52
+1,-260,332
+1,9,224
+1,-80,-41
+3,-165,127
+1,-69,-205
+1,1090,-497
+2,11,398
+1,-131,-284
+1,-509,195
+2,-352,-40
+1,300,329
+2,71,-824
+1,322,-52
+1,22,380
+6,-968,-2130
+1,1052,484
+1,424,-366
+1,150,566
+1,-922,-295
+1,923,130
+1,-1383,295
+1,252,148
+1,640,-630
+1,543,-157
+1,-1098,321
+1,-41,272
+1,1205,-451
+1,-1582,-209
+1,1348,463
+1,-562,-301
+1,-439,-256
+2,-718,-63
+2,413,440
+1,-199,662
+1,1384,-587
+1,373,-730
+1,83,201
+1,-1331,726
+1,1234,30
+1,56,-634
+1,-137,-24
+10,-588,352
+1,-1799,-667
+1,47,39
+2,10,159
+1,163,74
+1,101,-451
+1,-448,292
+4,1703,887
+2,121,-273
+3,620,-556
+1,-289,388
+1,-498,-73
+1,1063,-585
+1,-917,760
+2,-287,-286
+1,-153,924
+1,941,-708
+1,-765,482
+1,155,-213
+1,413,-250
+1,-2389,-471
+2,2084,691
+1,704,264
+1,-1418,209
+1,-149,-387
+1,919,-36
+1,698,-170
+1,-1352,521
+1,-1656,-860
+25,2420,893
+1,-939,524
+2,109,-48
+3,44,183
+1,1002,-639
+1,-92,-75
+2,-443,556
+1,152,-656
+1,-242,261
+1,182,-66
+2,-25,454
+1,-164,-180
+1,-63,-13
+1,-154,23
+2,630,-175
+1,106,381
+1,148,-331
+1,-48,-108
+1,-1025,180
+5,1162,-102
+2,65,-122
+1,125,-61
+7,-577,489
+1,-399,144
+1,-372,-194
+1,723,-38
+1,-308,-42
+1,-306,-99
+1,-41,152
+1,469,-240
+1,470,-216
+2,-5,14
+1,-668,569
+1,559,-492
+2,118,-58
+1,-4,325
+4,-317,353
+1,19,-324
+1,41,-141
+1,-708,256
+1,1191,-647
+1,-789,920
+37,488,-1008
+1,-40,68
+1,-13,2
+1,-11,-46
+1,20,19
+2,-2,-40
+1,18,68
+1,49,2
+1,-93,-8
+1,-53,-106
+1,122,76
+1,51,-29
+1,-166,46
+1,90,-3
+1,99,-11
+1,1,71
+1,-45,23
+1,-55,13
+1,-28,-14
+1,-113,-85
+1,57,97
+1,-46,-2
+1,0,-158
+1,78,20
+1,-4,-44
+1,6,-69
+1,71,68
+1,45,-6
+1,41,20
+1,34,14
+1,9,67
+1,-35,112
+1,-94,-74
+1,-117,-1
+1,42,-184
+1,35,57
+1,51,-52
+1,44,256
+1,9,-242
+2,-175,-3
+1,21,14
+1,107,242
+1,-85,-390
+2,188,332
+1,9,-116
+1,-22,-89
+1,-65,-51
+1,-41,-12
+1,-126,-14
+1,134,-97
+1,61,61
+1,118,61
+1,-27,40
+1,25,45
+1,-13,91
+1,-9,68
+1,74,-71
+1,-9,91
+2,-361,89
+1,-128,-196
+2,449,171
+64,-1894,412
+2,-32,-208
+4,204,963
+2,-1072,-561
+1,944,-64
+1,321,599
+1,-546,-1274
+1,85,395
+1,-34,310
+1,-66,-1089
+3,13,1369
+2,-200,-799
+2,295,532
+1,314,63
+1,-1099,-551
+2,306,35
+2,745,-361
+1,134,1525
+1,-138,-259
+1,-1069,-1531
+1,192,84
+1,801,1552
+1,-417,-658
+5,677,52
+1,-685,-1284
+1,506,1480
+1,-422,-1468
+1,497,975
+1,-234,969
+1,109,-170
+1,-489,-871
+1,-29,-312
+1,955,1321
+2,-1015,-618
+1,469,38
+2,337,696
+1,-40,-898
+1,-338,-528
+1,-613,636
+2,959,287
+2,165,-102
+1,-238,301
+1,172,-358
+2,5,354
+8,-388,-45
+1,55,-40
+2,-84,40
+1,6,-40
+1,-2,-76
+1,36,67
+1,-8,4
+1,28,-66
+1,10,-83
+1,-109,208
+1,-25,40
+1,-18,-61
+1,-24,34
+1,-3,-123
+1,90,57
+1,-11,-30
+1,-349,139
+1,308,60
+82,-1481,-971
+2,-54,-9
+1,121,12
+12,-138,116
+4,-184,572
+1,-17,231
+5,52,-133
+9,254,-280
+1,393,-713
+1,-470,386
+1,194,84
+1,-86,-209
+1,268,191
+1,-97,-285
+1,-19,187
+1,-132,85
+2,285,-1130
+2,-282,439
+1,-27,41
+1,212,625
+1,-233,367
+2,-62,-88
+5,-85,-502
+1,184,229
+1,-147,198
+1,119,-660
+1,204,570
+1,-185,25
+1,388,-364
+1,-1,-876
+1,-427,570
+1,-107,1172
+1,-93,-349
+2,335,-9
+1,-207,-164
+2,29,-446
+1,95,57
+1,15,-73
+1,-278,823
+1,284,-914
+1,-154,270
+1,-119,887
+1,45,-639
+1,412,198
+2,30,-992
+1,-245,1268
+1,284,-1520
+1,-86,-89
+1,-374,1436
+2,630,-754
+1,-589,240
+1,351,524
+1,137,-917
+1,-577,705
+1,214,23
+1,70,18
+1,-31,-734
+1,-218,540
+1,176,724
+1,269,-144
+1,-325,-568
+3,3916,658
+3,640,-715
+1,-687,-413
+1,733,-30
+1,112,551
+1,-184,-514
+1,-668,610
+1,722,-442
+1,-707,788
+1,413,-324
+1,-1097,232
+1,1053,194
+1,-536,-161
+1,220,-47
+1,341,-1573
+1,-376,1143
+1,114,-105
+1,111,776
+1,-554,-419
+1,172,-438
+1,337,-654
+2,366,1253
+2,7,-161
+1,-1188,330
+2,863,-1858
+1,-654,1836
+1,1049,-284
+1,-175,211
+1,-358,-998
+1,115,117
+2,-657,640
+1,996,-671
+1,-661,635
+1,563,-93
+1,138,-26
+1,-16,-775
+1,-807,1041
+1,577,-298
+3,-756,334
+2,610,419
+2,-169,-642
+1,203,340
+1,234,-689
+1,-756,375
+1,89,28
+1,628,-571
+1,-937,755
+1,611,498
+1,233,-470
+1,-718,-164
+1,223,315
+1,471,-868
+1,89,665
+1,44,11
+1,-667,-349
+3,560,-138
+1,-677,274
+1,454,-781
+1,663,141
+2,-211,891
+1,-236,-1109
+1,-396,547
+1,-691,570
+4,1194,-127
+20,-271,-26
+1,-8,29
+1,30,-52
+1,-50,1
+1,52,26
+7,-11,6
+5,206,-21
+2,-350,81
+2,131,-10
+1,19,-32
+1,14,29
+1,-11,68
+1,-63,9
+1,201,-231
+1,-2,122
+1,24,29
+1,4,-67
+1,-93,-84
+1,-16,72
+1,32,-124
+1,-59,7
+1,59,-63
+1,-111,79
+1,-21,-81
+1,-71,-7
+1,130,-32
+1,-131,98
+2,54,177
+1,12,55
+2,-64,-66
+1,29,-73
+1,90,-12
+1,-172,69
+1,35,-82
+1,56,-33
+1,225,69
+1,-130,64
+1,20,19
+1,53,31
+1,-27,34
+2,-35,-101
+1,30,7
+1,36,26
+1,15,-54
+42,-1040,-2137
+1,-217,-23
+25,-715,197
+1,1413,-285
+1,-953,425
+1,-372,107
+2,891,-914
+1,285,419
+1,-1150,104
+2,-229,234
+1,1615,-1651
+1,-396,1578
+1,-821,-33
+1,1016,-1186
+1,113,-548
+1,-203,469
+1,-296,216
+7,-59,1460
+1,931,-2596
+1,-1272,1698
+8,-543,-4
+1,1014,1075
+9,-141,-452
+1,627,-2012
+1,-994,1739
+1,908,154
+4,-862,-880
+2,694,896
+1,304,-565
+1,-569,780
+2,292,179
+1,-37,-190
+1,198,-51
+1,-680,372
+45,883,2745
+1,126,-277
+1,-363,350
+1,-98,-199
+1,-8,143
+3,119,-284
+2,126,49
+1,-212,-499
+1,427,220
+1,-456,342
+1,302,109
+1,-84,-402
+1,271,110
+1,255,-285
+1,-122,87
+1,-473,-103
+1,57,597
+1,-284,-354
+2,223,-521
+1,199,659
+2,-357,-235
+1,328,-248
+2,-313,-119
+3,-27,567
+1,243,-295
+38,5374,-5776
+1,-87,2035
+1,436,687
+2,746,-433
+2,-718,-896
+1,30,-12
+1,-1169,-1459
+1,923,742
+1,183,1934
+1,-518,-1900
+1,924,111
+1,-117,1663
+1,-977,-1568
+1,36,-14
+2,723,-429
+1,-726,955
+2,-996,-604
+1,2114,-614
+2,342,2238
+1,-1491,-1832
+2,-451,-137
+2,1404,312
+2,-1658,-424
+1,44,555
+1,2019,918
+1,73,812
+1,-1698,-2617
+1,911,1238
+3,-354,411
+1,1057,-454
+1,-2253,-345
+1,698,38
+1,-373,-241
+1,1495,-232
+1,-963,-148
+1,1239,2408
+5,305,-2117
+1,-2086,459
+1,50,-814
+1,1022,1795
+2,787,563
+1,-1019,-400
+1,397,-1330
+1,204,1217
+2,-275,282
+1,465,-1078
+1,-1472,-585
+1,-336,-4
+1,1336,1219
+1,-18,-134
+2,-170,-410
+2,908,657
+2,-2065,-958
+1,-216,-204
+5,1743,399
+1,-492,1301
+1,495,-964
+1,517,8
+1,-2000,-1081
+1,1651,774
+1,390,-515
+1,-1520,-482
+1,1385,725
+1,196,-1133
+1,-1746,1225
+3,296,-408
+1,443,-410
+1,952,1480
+1,-1426,-480
+1,44,1314
+1,574,-4
+1,-27,-974
+1,-279,-1042
+3,54,377
+1,-5,-10
+1,-19,49
+1,19,10
+2,2,-102
+1,29,98
+1,69,118
+1,-135,-210
+1,-15,16
+1,69,162
+7,-114,-32
+1,3,-278
+2,65,89
+3,85,-118
+77,-854,1706
+19,-638,-423
+3,465,283
+2,18,974
+1,668,-1490
+1,-1046,1250
+2,-205,-997
+1,1043,690
+1,-768,-1012
+2,556,572
+1,-281,-432
+1,-275,-337
+1,-339,963
+1,1255,-373
+2,-202,-91
+1,228,3
+1,-704,-627
+2,-412,363
+1,290,232
+1,623,317
+2,-284,1095
+1,-454,-843
+2,-49,-1375
+1,1049,1147
+1,-636,655
+3,43,-1254
+1,-468,220
+1,565,-468
+1,-204,3
+1,115,842
+2,92,-419
+50,-592,-1009
+1,165,-425
+1,-210,146
+1,-183,-869
+2,-496,725
+6,527,1096
+1,-728,-1696
+1,955,170
+1,526,-199
+1,-315,720
+3,-383,522
+1,-698,430
+1,-347,-711
+5,929,-427
+3,287,45
+3,-984,23
+1,743,779
+1,211,-1461
+1,-519,683
+1,307,-495
+1,541,28
+3,-455,972
+1,-793,49
+2,846,-814
+2,-618,-304
+1,119,1553
+1,361,-64
+1,-224,-785
+1,-498,-353
+1,-234,-180
+3,1018,679
+1,-263,413
+2,85,-53
+1,59,-483
+2,354,9
+1,-498,1229
+1,535,-1767
+1,-555,196
+1,-266,662
+3,89,-798
+1,-318,503
+1,98,-313
+1,467,-206
+1,244,325
+1,-426,557
+1,156,-247
+1,-145,110
+18,263,56
+1,-6,10
+1,63,84
+1,-116,-36
+2,58,-84
+1,-25,-208
+3,9,195
+1,0,33
+1,-24,1
+1,0,-33
+1,2,-30
+1,153,23
+1,-101,-86
+7,-160,128
+1,25,-80
+77,-724,2045
+1,441,-374
+1,-295,568
+1,-577,342
+1,1250,-490
+1,-1443,-486
+2,153,500
+2,-4,311
+1,168,-1750
+1,-111,337
+5,557,-315
+1,428,501
+1,-1264,1046
+1,833,-428
+1,243,496
+4,-460,-195
+1,-10,-929
+1,-55,-343
+1,570,521
+1,270,749
+1,-1331,49
+2,304,-934
+1,441,1167
+1,-96,-678
+1,-530,-255
+1,251,455
+1,-198,-195
+1,-300,518
+1,1384,-187
+1,-209,-182
+1,-1003,261
+2,573,-570
+1,572,522
+1,-878,-716
+1,465,86
+1,318,583
+1,-127,-8
+1,-172,-1019
+4,42,1081
+3,-456,-541
+4,180,179
+1,-152,36
+1,-277,311
+1,180,-40
+2,-37,-1197
+1,-222,991
+1,-168,135
+34,584,335
+1,-237,-25
+1,-2,-261
+2,101,146
+1,-72,-35
+1,60,-22
+92,39,124
+2,-470,-2366
+2,-12,-51
+2,124,72
+1,-257,91
+1,196,-236
+6,453,457
+1,-184,-892
+4,-1318,-1095
+1,467,331
+1,738,1899
+1,26,-22
+9,-1032,-1525
+1,243,470
+2,674,1215
+1,-1428,-2614
+1,104,1130
+3,1966,1376
+1,-983,-31
+2,239,-1142
+1,-648,-205
+1,-123,64
+1,-346,876
+1,942,-1142
+3,557,1391
+1,-135,-170
+3,-1142,-357
+2,707,-1297
+1,-295,1490
+1,10,-879
+2,478,550
+1,-214,-306
+2,57,285
+1,69,-10
+1,-112,-97
+1,64,-18
+1,20,210
+1,-181,-113
+3,-33,-249
+1,172,-1287
+2,-455,328
+4,375,1028
+1,-290,-605
+1,-226,1187
+2,-220,-1684
+1,-424,1892
+1,1574,-117
+1,143,-167
+2,-1011,-1890
+3,282,956
+1,172,-286
+32,202,-3329
+9,-1765,2972
+2,151,-22
+2,-1180,387
+1,2753,-3334
+1,-366,384
+1,525,1050
+1,-609,-999
+1,-65,519
+3,-1408,2614
+1,-143,-1384
+2,-217,15
+1,-265,407
+1,2359,-1185
+1,-1627,2777
+1,1447,-3860
+2,-287,1000
+1,-1915,1643
+1,2069,-2448
+1,-809,1453
+1,306,-251
+46,828,-1619
+1,26,-17
+1,1,55
+1,63,-23
+1,-83,39
+1,43,6
+1,-102,93
+1,126,-38
+3,103,-171
+1,-87,2
+3,-103,163
+1,121,-16
+2,-20,18
+2,-24,-91
+2,-13,-96
+2,92,142
+1,-97,45
+2,-160,94
+1,34,160
+2,131,-354
+2,65,-139
+2,76,174
+1,-183,104
+1,6,35
+2,72,275
+64,7948,912
+1,31,44
+1,-11,-58
+1,38,-9
+2,15,-67
+3,-128,336
+1,5,72
+1,-44,-48
+1,-39,72
+1,3,-72
+1,-36,45
+1,-35,71
+1,106,-53
+1,3,88
+1,77,2
+1,152,-389
+1,-40,-40
+1,-30,325
+1,115,-220
+1,-132,91
+1,82,-381
+1,86,199
+1,-60,-58
+3,-121,121
+1,43,-2
+2,-101,-66
+12,-26,268
+56,-340,893
+1,327,-495
+1,57,345
+1,-489,-726
+1,335,854
+1,-451,-550
+1,226,-56
+1,32,-281
+1,-72,-59
+1,274,-99
+1,-34,128
+1,-39,18
+1,71,-100
+3,-324,255
+1,76,320
+1,-206,-492
+2,404,-129
+1,16,57
+1,-30,-1
+1,36,-114
+1,-83,178
+1,-48,-172
+1,57,100
+1,-11,-201
+1,30,84
+1,-14,68
+1,-19,88
+1,-52,-85
+1,-389,151
+1,26,-42
+1,370,120
+1,-228,-377
+1,537,877
+1,-80,-314
+1,-194,-77
+64,234,-327
+1,-21,15
+1,4,-38
+1,24,56
+1,-29,12
+1,31,36
+2,-54,-49
+1,-30,4
+1,90,-58
+1,5,-28
+2,-29,-21
+1,2,-47
+1,43,155
+2,-57,-10
+1,-36,-65
+1,39,120
+1,82,-96
+1,-145,84
+1,25,-76
+1,-8,92
+2,22,-180
+1,-45,-10
+1,30,-71
+1,159,215
+1,-134,69
+1,-49,1
+1,17,-201
+1,210,145
+1,12,-59
+1,-262,-86
+1,4,49
+1,-12,138
+1,137,22
+1,12,46
+2,140,-120
+5,-224,23
+1,-7,52
+2,157,183
+11,12,-305
+4,-125,16
+2,48,85
+24,-46,-87
+3,2,-3
+1,4,0
+7,296,-211
+1,-21,-148
+1,-52,140
+1,72,-79
+1,-68,39
+5,27,-12
+91,-285,26
+2,110,-82
+16,-101,115
+1,-404,-914
+1,137,615
+1,401,-39
+1,-16,-1015
+1,-373,551
+1,-123,798
+1,525,-1785
+1,-81,1467
+1,1050,-1401
+2,-325,509
+2,-1289,578
+1,268,535
+1,1405,-982
+1,-1329,350
+1,207,295
+2,-37,-156
+1,-110,356
+1,-502,-615
+2,793,167
+1,-422,-286
+1,129,439
+2,532,-200
+1,132,113
+1,-819,-12
+1,-547,44
+2,1110,-255
+1,-328,448
+1,-47,354
+1,-35,-4
+1,465,-151
+1,-785,-291
+1,341,389
+2,504,-1114
+2,-913,126
+2,740,-470
+2,-373,1552
+1,379,-338
+1,220,-1282
+1,-293,715
+1,299,-857
+1,-834,1644
+1,555,-97
+2,514,-739
+1,-526,591
+1,-512,-39
+1,260,-226
+2,351,-23
+1,-29,-990
+1,680,505
+1,-572,765
+1,-199,-209
+1,190,-1150
+4,489,50
+11,-834,615
+3,418,1169
+2,4,-108
+1,-3,181
+6,47,-578
+2,418,33
+1,-332,455
+1,-228,164
+1,391,-427
+1,-409,361
+1,345,-594
+3,-284,682
+1,479,-194
+3,54,97
+1,-120,-11
+1,-5,-88
+2,-23,124
+2,-397,82
+2,382,-543
+2,-152,529
+1,404,-254
+1,143,-190
+1,-496,181
+1,162,-45
+2,-320,-155
+2,9,401
+1,116,142
+1,-247,-314
+1,739,-532
+1,-315,853
+1,0,-115
+2,331,-79
+1,-369,144
+51,-527,92
+1,4,-101
+1,-15,249
+7,723,69
+1,-49,342
+1,254,-575
+3,-333,178
+5,-170,-68
+1,-269,-87
+1,432,359
+1,-254,-341
+1,150,360
+7,10,-257
+3,-44,-112
+6,-513,-89
+2,163,269
+1,62,123
+1,222,59
+1,-52,-219
+1,192,-49
+2,288,-32
+1,-362,544
+1,248,-595
+1,-407,-28
+1,-103,534
+1,307,297
+1,-310,-104
+47,-11,264
+4,146,-16
+15,-198,647
+1,615,1034
+1,-212,-1047
+1,-282,-343
+3,729,766
+1,-899,266
+1,616,-362
+1,236,-1354
+2,-288,1629
+1,400,-1707
+1,-631,830
+1,163,1183
+1,-810,48
+1,1102,-783
+1,83,828
+3,-1151,-1186
+1,823,-92
+1,189,-358
+1,-541,879
+1,659,564
+1,21,-1021
+1,-288,956
+1,327,-724
+2,-67,634
+1,-452,-1058
+1,237,364
+3,13,-395
+1,-768,1290
+2,-106,-1237
+1,348,1390
+1,-28,-498
+42,-379,-410
+1,-904,951
+2,519,-1098
+1,-50,811
+2,25,214
+1,-314,-2081
+1,-156,-705
+1,-30,2580
+2,811,-402
+1,-879,-2289
+1,191,-70
+1,444,2091
+1,-531,-2217
+1,-270,638
+1,834,1213
+1,-475,-1533
+1,-170,-569
+1,223,2120
+1,678,768
+1,-1015,-740
+1,1009,919
+1,-839,-328
+1,386,-863
+1,-163,-1776
+1,208,1762
+1,-435,-1228
+1,285,1020
+1,-133,-587
+1,-84,733
+1,-134,-198
+1,534,1084
+1,-78,-1142
+1,84,1441
+4,-303,-2282
+20,-300,-233
+1,624,2326
+1,-402,-287
+1,111,-1996
+1,-334,866
+38,-15,-634
+1,149,8
+1,30,-56
+1,-44,32
+1,-66,-40
+1,126,57
+1,169,130
+1,-195,-83
+1,-41,-1
+1,-59,55
+2,-66,-29
+1,137,44
+1,26,-12
+1,-48,8
+1,85,-31
+1,23,-40
+1,20,-99
+1,26,107
+1,105,-47
+1,-171,118
+1,37,-13
+1,40,-9
+1,-197,79
+1,-135,-259
+1,293,244
+1,-298,257
+1,195,-206
+1,-20,102
+8,102,-151
+1,-34,-19
+12,6,18
+50,-584,121
+2,-17,-119
+1,-234,-58
+1,168,-118
+1,28,354
+1,146,-318
+1,20,217
+11,-464,-257
+1,-477,226
+1,954,1234
+1,-394,-1059
+1,41,-491
+1,-837,214
+1,1226,357
+2,-1208,632
+2,-164,1214
+1,1022,-1002
+3,91,-345
+3,219,1063
+3,-476,-1292
+1,-156,-1142
+1,69,2829
+2,268,175
+1,-260,-725
+1,705,-206
+1,-1269,-1215
+1,714,2178
+2,-706,-1199
+1,552,-82
+2,118,833
+2,-62,-551
+1,-482,-1914
+2,693,2202
+1,-14,-985
+1,-546,-114
+3,734,37
+1,134,193
+1,-1206,772
+3,791,-726
+2,-124,-1164
+2,541,2628
+2,-1008,-444
+3,918,-897
+1,-324,-11
+4,-954,-543
+1,120,-258
+2,379,1986
+3,-172,15
+2,238,-2262
+1,-264,2445
+1,-217,-2735
+1,1066,2057
+9,-746,-2945
+19,-274,-496
+1,-178,-1071
+1,285,-117
+1,109,1971
+1,-126,-541
+1,534,37
+1,-658,723
+2,-81,-1274
+1,25,599
+1,597,-1075
+1,163,1418
+1,-151,-737
+1,-264,1088
+3,270,-485
+1,-668,-1801
+1,-29,1987
+2,276,-534
+1,-138,267
+2,997,44
+1,-604,-289
+2,92,471
+1,-359,-1417
+1,-115,1100
+1,928,-361
+2,-861,634
+1,-104,316
+2,499,-1272
+1,652,602
+46,269,-41
+9,254,-571
+1,164,297
+1,-431,958
+8,-244,-2055
+1,64,2336
+1,-7,-674
+1,10,203
+1,515,-1320
+1,82,-83
+1,-624,1927
+1,211,-1201
+1,483,13
+2,-637,-677
+2,-120,1345
+1,217,-205
+2,-527,-1591
+1,711,1141
+1,-60,-357
+2,-79,13
+1,-37,1574
+1,138,-1457
+1,-166,418
+1,-206,-1119
+1,98,2027
+4,55,-1335
+3,724,62
+1,-1032,1010
+1,58,362
+48,-640,-2756
+2,-396,-22
+17,587,-891
+1,-407,0
+2,390,608
+1,-61,-883
+1,277,297
+1,-773,596
+1,371,-539
+1,-246,326
+2,-36,-148
+1,211,-429
+1,254,916
+2,-554,-622
+1,398,-107
+66,971,954
+2,-200,-162
+7,495,-48
+1,-558,-1003
+2,724,1080
+2,-350,271
+1,14,-627
+2,259,197
+1,-16,310
+3,-563,-960
+1,-311,281
+1,336,-75
+1,113,383
+1,-592,298
+1,160,211
+1,937,10
+1,-550,-1402
+1,-359,935
+1,90,-447
+1,-14,769
+1,-408,166
+1,1260,148
+1,-1113,-494
+66,1203,-621
+2,-38,59
+1,86,-2
+1,94,-99
+1,-89,29
+1,-115,-93
+13,101,218
+1,46,-445
+1,-472,-42
+1,240,32
+1,366,156
+1,-31,-234
+1,-177,621
+1,-285,-124
+74,790,1131
+9,701,-1504
+1,-1131,2174
+1,-107,-176
+3,162,-98
+5,400,440
+1,-235,-373
+2,-132,-287
+1,-87,-582
+1,1546,9
+5,-1247,-828
+1,168,1793
+1,-3,164
+1,764,-1862
+2,-852,402
+2,243,961
+1,522,-537
+1,265,396
+1,103,-1267
+1,-559,696
+1,-796,1250
+1,-189,-1581
+2,332,1691
+1,-352,-1547
+1,475,472
+1,325,-1259
+1,-420,2500
+1,267,-1822
+2,-285,441
+1,1430,431
+1,-1690,196
+1,547,360
+1,-474,-101
+1,370,461
+344,1451,1401
+4,46,57
+2,-66,176
+2,303,-161
+41,64,587
+1,156,-1383
+1,-483,302
+1,121,1007
+1,-177,-21
+1,307,-1895
+3,782,647
+1,-1100,430
+1,235,681
+1,204,-645
+2,-722,-828
+7,450,127
+2,207,294
+1,-252,112
+8,359,957
+1,-269,391
+1,460,-1901
+1,-674,475
+106,3469,-5133
+11,-2518,5519
+9,-290,372
+2,549,222
+1,234,-468
+1,-231,253
+1,203,50
+2,-707,561
+1,176,0
+1,542,-343
+2,-840,155
+1,1530,-319
+1,-1044,257
+1,692,-530
+1,145,601
+2,-243,-412
+2,160,-255
+11,-719,854
+2,488,-4
+1,-655,-274
+1,-94,-29
+57,85,-3040
+9,463,-399
+11,-1353,224
+1,1153,106
+1,-1216,27
+1,631,1091
+1,-509,-355
+2,990,155
+2,-99,524
+2,-643,-713
+1,-336,-483
+2,890,325
+1,-192,151
+1,-64,-1382
+65,2313,38
+9,341,15
+1,98,-322
+1,340,-76
+2,-386,-1054
+6,515,1142
+1,-32,-137
+1,-389,223
+1,489,-209
+3,-470,552
+2,-218,446
+2,-495,-589
+1,1068,21
+1,-657,310
+1,-153,-1257
+1,284,810
+1,474,-756
+5,-102,183
+1,-166,1257
+1,-638,278
+1,-197,-1142
+7,787,-959
+51,-1476,1196
+9,-29,-371
+2,31,-636
+1,598,-384
+1,-561,606
+1,-170,456
+1,316,-261
+4,-552,190
+3,750,-216
+78,-341,2512
+3,-155,-365
+5,-143,521
+11,-233,-879
+10,791,-242
+3,-308,1915
+2,400,-826
+1,-593,60
+1,-69,301
+1,299,-1397
+1,679,558
+1,-173,567
+2,-286,-1532
+1,143,1382
+1,-579,-95
+2,135,-394
+2,120,-148
+1,181,-1097
+52,415,3554
+9,999,152
+1,18,-174
+1,-185,357
+2,26,-556
+2,-17,-963
+2,-613,34
+2,874,938
+1,-340,-227
+2,-464,467
+2,885,-1272
+2,-542,502
+2,36,841
+1,-326,-354
+1,756,-510
+1,-1077,-359
+69,1108,-1313
+30,-163,854
+1,-63,-722
+1,-1,-399
+1,-344,432
+1,495,372
+1,67,-1250
+1,-96,1331
+1,191,-1185
+1,43,292
+3,-390,231
+2,235,-256
+1,-48,465
+56,-3379,-2247
+21,1763,-1479
+1,-527,1050
+2,553,-377
+4,-1619,-101
+1,-591,-722
+2,1166,1222
+1,-855,-1113
+1,343,502
+1,66,336
+1,-624,-520
+1,293,-85
+1,-253,368
+1,125,-449
+2,1715,655
+1,-1234,926
+1,2,-419
+1,-572,-1312
+1,590,1557
+56,1675,-1691
+10,195,98
+1,126,-275
+1,333,381
+1,-600,-541
+11,143,141
+76,-1616,279
+9,750,-302
+1,93,-162
+1,56,162
+1,-321,581
+1,-454,-692
+1,812,721
+1,-1153,-310
+2,1289,-379
+1,-404,-60
+1,465,-151
+1,-1259,599
+1,972,-418
+1,-585,690
+1,-478,-48
+2,822,-588
+1,338,-94
+1,121,276
+73,-134,-1652
+1,62,9
+1,57,-63
+1,-220,-96
+5,53,98
+1,162,-443
+1,-365,-207
+1,-149,528
+1,938,-816
+1,-904,1056
+1,903,-504
+2,-674,885
+1,549,-238
+2,-973,782
+1,950,-1130
+2,-1112,1109
+3,2189,-2605
+1,-213,-487
+1,-1925,2436
+4,-99,89
+1,0,733
+1,288,-863
+1,2195,-1952
+1,-1427,2181
+1,-1164,93
+1,354,679
+1,149,-258
+2,-15,-407
+2,-282,-900
+1,1669,-286
+1,-1029,766
+1,-267,154
+4,87,-182
+1,1252,-1732
+1,-1771,1538
+1,2362,-1348
+1,-2181,2515
+1,1357,-2219
+6,-1492,2054
+1,997,-1439
+1,-1036,1091
+8,261,-1160
+1,-347,1531
+2,1254,-716
+2,-594,662
+1,320,-1245
+1,1261,-2133
+3,-2027,2855
+2,49,291
+2,714,365
+1,-1009,-713
+1,-41,559
+14,379,-3068
+1,-337,-209
+9,344,1173
+1,-295,-75
+1,1235,-563
+1,-376,-750
+2,-346,66
+2,-186,1067
+2,964,-73
+1,-1058,-958
+1,971,-120
+1,-842,1518
+1,397,-813
+1,-282,26
+2,913,-536
+1,-933,156
+2,372,-78
+2,-144,-235
+1,774,688
+1,-1151,-52
+1,162,219
+1,-18,249
+1,659,-1327
+1,-495,720
+2,1007,-150
+1,-1300,207
+1,-291,1130
+2,266,-888
+2,-215,230
+1,459,109
+1,626,-327
+1,-170,-75
+1,-400,594
+2,340,-811
+1,640,81
+1,-21,10
+1,-913,-400
+46,785,2844
+1,-16,-304
+2,-99,166
+2,12,82
+8,422,998
+6,198,-389
+1,-57,-222
+1,-313,246
+1,595,-1001
+1,-382,1104
+1,30,-1027
+2,-574,471
+1,35,634
+1,1089,-255
+2,-794,-658
+2,805,715
+1,-737,-689
+1,223,-579
+1,-112,1131
+2,93,-304
+2,-151,-50
+2,-180,-25
+1,-98,288
+1,188,-756
+1,319,557
+1,327,-468
+2,-515,501
+1,-424,355
+1,419,-1039
+1,22,763
+1,-97,304
+2,-175,-628
+1,10,822
+5,211,-648
+2,1485,-2035
+1,269,-157
+1,-1089,776
+1,312,-473
+1,625,-364
+1,-375,179
+1,-121,265
+1,148,-816
+32,1182,-2517
+19,292,599
+2,-631,-148
+1,314,6
+1,125,-174
+1,-612,1249
+1,408,-1019
+4,-230,390
+3,198,-219
+2,419,-495
+1,-322,713
+1,420,-506
+2,-376,1682
+1,88,-1936
+1,151,282
+1,-935,176
+1,712,92
+1,218,82
+1,-65,-271
+1,147,630
+1,-1265,-553
+1,1029,-163
+1,-975,241
+3,622,344
+1,409,26
+1,-705,-372
+1,389,-447
+47,-1986,570
+2,-1344,465
+1,917,-971
+2,46,-86
+3,1033,-36
+1,601,1722
+1,-494,-1482
+3,-144,492
+1,-930,-353
+1,161,-110
+2,32,-407
+3,132,1027
+1,-1059,485
+1,-117,-749
+2,743,-676
+1,-754,1288
+1,664,-1428
+1,334,835
+2,-27,353
+1,642,-631
+1,-1482,1209
+1,401,-1129
+2,461,-332
+1,197,1505
+1,1020,-560
+1,-1724,-1184
+2,-50,263
+1,224,235
+1,1055,-55
+1,-882,-128
+1,591,8
+1,-688,144
+1,-249,909
+1,-352,-343
+2,-153,-798
+1,690,37
+3,1648,382
+1,-1283,-543
+1,-226,-7
+1,511,493
+3,-434,-626
+1,304,223
+5,-144,731
+3,-237,-515
+1,294,176
+2,355,-644
+4,-718,49
+1,1384,1650
+9,-1541,-1346
+1,111,75
+15,55,385
+1,-1,-97
+1,-37,-47
+1,-72,67
+1,36,27
+3,-43,-91
+3,69,192
+1,22,-244
+1,68,60
+2,169,1117
+4,-258,-1040
+5,-13,-6
+76,4354,-440
+1,-681,1027
+1,743,-754
+1,24,-598
+1,788,472
+1,-1955,125
+2,443,310
+1,741,-517
+1,-520,130
+1,569,292
+1,-1092,-125
+1,1096,-392
+1,-424,21
+1,35,-135
+6,797,-57
+1,-352,-153
+1,-1350,459
+1,288,-402
+1,1139,335
+1,736,456
+1,-2206,-22
+3,301,-179
+2,-527,-557
+1,973,166
+1,-516,17
+1,788,67
+1,447,468
+1,-715,101
+2,94,-90
+1,690,-334
+1,-113,-255
+1,-755,223
+1,-723,-393
+1,7,-80
+1,2014,924
+1,-1258,361
+1,1094,-695
+1,144,-485
+1,-1185,923
+1,-94,-215
+1,-148,-693
+1,1022,366
+2,-592,-442
+1,-731,88
+1,1337,-11
+1,-1445,88
+1,968,-93
+2,326,368
+1,-932,-51
+3,1186,83
+2,-1292,64
+1,363,493
+1,10,-236
+1,466,-709
+1,-843,38
+1,-397,111
+1,110,-230
+1,731,1129
+1,60,39
+2,-187,-1144
+125,-7111,6676
+1,86,-15
+1,41,-1393
+1,17,-47
+1,-166,-271
+1,274,-125
+1,-252,1921
+1,-312,1009
+1,520,-2824
+1,320,183
+3,-577,-259
+1,641,261
+1,183,-228
+2,-164,847
+1,266,-234
+2,-724,-418
+1,-390,1332
+1,242,-2106
+1,553,3423
+1,105,-2230
+1,-32,-452
+1,-682,2054
+1,-139,-933
+1,1782,-612
+1,-1364,-1563
+2,77,2296
+1,-281,-530
+1,611,-304
+1,-988,-2388
+1,417,4587
+1,290,-1728
+1,323,-929
+1,870,685
+1,-1452,1451
+1,652,-2084
+1,-22,-84
+1,-729,256
+1,71,-149
+1,324,-247
+1,-444,192
+1,661,2133
+1,-338,-2096
+2,-111,379
+1,520,-151
+1,-635,1237
+1,-222,429
+1,268,11
+1,404,-1931
+1,-94,769
+1,384,-843
+1,-815,283
+1,-39,-6
+1,29,-34
+1,340,242
+1,120,188
+1,-380,-363
+1,-172,1988
+1,1471,-1418
+1,-1189,-832
+1,-148,1877
+1,825,-1981
+2,-806,-437
+1,212,596
+1,-223,-379
+1,10,1635
+1,-18,217
+1,236,-1888
+1,475,234
+1,-610,2230
+2,19,329
+2,-433,-2941
+1,570,414
+1,-263,676
+1,478,-2378
+1,-197,1774
+1,-42,2041
+1,839,-1276
+1,-529,-727
+1,-294,-33
+4,-43,246
+1,43,-114
+1,-23,-33
+1,-13,-80
+1,-72,-158
+1,-182,427
+1,442,140
+3,9,-367
+1,4,36
+1,43,17
+1,-54,-135
+1,-11,122
+1,-31,4
+1,-49,-29
+1,151,157
+1,-103,23
+2,50,-179
+1,9,43
+1,-2,8
+1,15,-55
+1,-63,-5
+1,151,-146
+1,-204,203
+1,-6,-202
+1,44,92
+1,-3,-56
+1,-80,315
+2,41,-235
+1,20,124
+4,27,-245
+1,-51,81
+9,113,75
+12,5,-4
+30,-2,-10
+121,844,-226
+1,-29,75
+2,237,73
+1,122,-85
+1,-159,10
+1,-305,-483
+1,486,569
+1,-252,-131
+1,-379,252
+1,485,-264
+1,-43,-45
+1,-409,-1526
+1,281,1589
+1,-481,-45
+1,611,-310
+1,-471,828
+1,494,-184
+1,-209,144
+1,360,-192
+1,-178,139
+1,-17,-100
+2,-264,-128
+1,243,-57
+1,-65,180
+1,194,-179
+1,-327,153
+1,265,-1632
+1,102,1306
+1,38,-189
+1,-241,547
+1,207,14
+1,-120,-354
+1,34,269
+1,53,-975
+1,-186,575
+1,223,347
+1,-289,-3
+1,-222,-240
+1,368,367
+60,-552,-221
+2,-4,143
+1,55,-228
+1,-120,161
+3,43,18
+6,134,-26
+87,-1796,1154
+10,-2004,1399
+1,-357,-154
+1,2088,-1442
+2,-347,1656
+1,217,-1715
+2,261,190
+2,142,459
+1,-114,-344
+1,-557,-461
+1,198,3
+2,15,997
+1,609,-742
+2,-280,-111
+1,310,303
+1,-1468,1369
+1,-1184,-429
+1,1458,448
+1,-1113,-1152
+1,-189,1271
+1,634,-30
+1,-720,-923
+1,2170,-954
+2,276,772
+1,-359,881
+2,526,-968
+59,484,-1208
+1,27,46
+2,65,73
+2,-104,-49
+14,-1293,-298
+1,129,89
+1,47,21
+1,356,226
+1,-71,-1006
+2,553,609
+1,-581,399
+1,581,-548
+1,-170,681
+1,-455,-381
+1,-313,-563
+1,647,750
+1,295,-244
+1,-762,57
+1,213,-888
+1,-251,383
+1,-418,-148
+1,780,229
+1,5,358
+1,-42,-492
+2,-208,840
+1,-128,-133
+1,-280,-647
+1,1012,492
+1,-320,231
+1,-14,202
+1,160,-461
+1,-340,-462
+2,611,636
+1,-941,-182
+1,1031,208
+1,-1184,-11
+1,1107,-128
+1,-736,-302
+1,-416,170
+3,1222,520
+2,-601,-67
+1,753,-3
+1,-67,-88
+1,-934,-39
+2,308,-49
+34,-909,-135
+9,-1122,-711
+1,1257,462
+1,-590,73
+1,197,-541
+1,-495,-1249
+1,494,2163
+1,-388,161
+2,-365,-641
+1,82,-698
+1,-68,-511
+1,176,158
+1,-284,-422
+1,690,1306
+1,499,100
+1,-1134,-1630
+1,213,2200
+2,1580,-2332
+1,-1950,1252
+1,1353,641
+1,-550,-744
+1,259,859
+1,-1148,-1902
+1,1066,3229
+1,-718,-1873
+1,18,662
+1,-634,-1458
+1,187,-453
+1,1426,1476
+1,-358,-41
+1,-1096,15
+1,330,-910
+1,690,973
+1,418,267
+1,-1418,-1344
+1,31,-88
+1,1207,1713
+2,-92,139
+1,85,-693
+1,-69,-729
+1,-119,34
+1,-286,-971
+1,646,1741
+1,-1384,-668
+1,515,-763
+1,-277,279
+1,-138,488
+1,599,391
+1,24,-272
+1,-98,-204
+1,-355,129
+1,-350,-333
+1,638,1138
+1,-447,-2086
+1,1261,1672
+1,-1398,-640
+3,-63,-644
+2,655,682
+1,458,1478
+1,-1008,-1811
+1,1047,2248
+1,-660,-1049
+3,-295,-1040
+1,-202,-352
+1,264,-1
+1,-17,-193
+1,-116,-15
+1,-245,714
+6,27,-588
+213,-3595,1479
+1,1,8
+2,13,21
+1,-18,-41
+1,17,102
+1,-19,-141
+3,63,58
+1,3,-14
+1,-4,27
+1,2,-44
+1,1,70
+1,-1,-91
+1,11,129
+1,-8,-149
+1,54,87
+1,-5,-39
+1,66,46
+1,7,-44
+1,56,48
+2,-241,71
+1,228,-128
+1,-95,94
+1,13,-102
+2,-101,-57
+1,132,164
+1,-132,-211
+1,-64,199
+1,42,-180
+2,15,-73
+3,-81,243
+1,-19,-85
+1,-31,58
+1,77,-145
+1,-93,191
+1,-41,-100
+3,3,77
+2,385,30
+1,-128,-133
+2,71,0
+1,51,187
+29,64,-230
+2,8,85
+1,70,-40
+1,102,-19
+31,-568,786
+1,30,-145
+1,0,-54
+1,-250,-352
+1,-220,166
+1,-204,70
+5,250,168
+3,-309,-67
+1,273,363
+3,68,434
+2,141,-243
+1,-118,-968
+1,-94,-216
+1,324,718
+1,-606,54
+1,550,-231
+1,-36,146
+2,-615,129
+2,557,-334
+25,-193,-230
+1,363,819
+18,-283,-311
+1,-22,768
+1,-150,-1161
+1,88,212
+7,533,-222
+1,-54,-25
+1,70,72
+1,-54,16
+1,37,73
+1,-36,-2
+1,56,79
+1,-51,5
+1,-24,-2
+1,12,-210
+2,-69,213
+1,127,-135
+2,64,187
+9,-188,-297
+1,-6,45
+1,-43,-94
+7,77,112
+1,14,73
+2,-43,20
+12,-108,-146
+1,12,66
+1,300,-89
+1,-33,-32
+2,50,-38
+1,71,9
+1,53,127
+1,-167,-12
+1,-38,-79
+1,95,21
+1,43,84
+1,7,-80
+2,250,84
+1,75,245
+1,-245,73
+2,74,-432
+2,-155,182
+13,-180,-197
+1,-33,1
+1,-29,1
+1,-27,-2
+2,-66,100
+9,33,98
+1,27,-14
+1,-51,16
+1,-41,6
+3,294,-451
+1,34,1
+1,-34,-43
+1,61,41
+1,-65,-76
+1,94,81
+1,-94,-135
+1,130,125
+1,-124,-191
+1,165,218
+10,135,-1074
+1,-1474,647
+1,797,-287
+1,260,545
+1,703,289
+1,-159,-1831
+1,-734,1286
+2,24,-2037
+1,179,2324
+2,452,356
+1,323,-981
+1,-1231,-389
+1,618,-1053
+1,-9,2036
+1,-1076,-2417
+1,467,1878
+1,397,455
+1,-132,268
+1,275,-281
+1,-1543,-296
+1,1972,269
+1,-607,-240
+1,573,-1566
+1,-339,2009
+1,38,-1910
+1,-824,351
+1,913,143
+1,-1223,-1020
+1,88,-21
+1,1042,2421
+1,-915,-1612
+1,727,1619
+1,-9,-793
+1,166,617
+1,-886,-1732
+1,1332,734
+3,528,-123
+1,-797,945
+1,533,-214
+1,-700,538
+1,-880,-2351
+1,313,545
+2,-357,-283
+4,1306,4
+2,-298,2090
+1,-24,-95
+1,26,38
+2,152,444
+1,-178,-407
+1,-43,-54
+2,7,144
+1,47,-18
+1,142,-57
+4,-89,-142
+1,-105,15
+2,300,-444
+2,-427,567
+3,8,-97
+1,52,-296
+105,22,1933
+29,-473,502
+1,-215,486
+1,539,-1061
+1,-123,1462
+1,-565,227
+1,264,-760
+1,162,-76
+3,188,-941
+1,-333,1548
+1,1220,-1965
+1,-898,1036
+1,-371,412
+1,1430,-1578
+1,-819,337
+1,-865,1551
+4,848,-920
+1,-810,947
+1,81,-224
+1,975,-1437
+1,202,224
+47,-2412,-332
+1,583,919
+1,-734,493
+2,875,448
+1,-303,-459
+1,-515,593
+1,-33,-244
+1,612,-516
+1,-328,425
+1,-97,-840
+2,-108,98
+1,275,-517
+1,-413,720
+1,304,-112
+1,-125,604
+1,1199,-975
+1,-380,-43
+1,-1058,792
+1,50,-955
+1,415,-191
+1,851,307
+1,-1134,61
+1,356,1059
+1,-517,96
+1,649,-668
+2,-48,-873
+1,-73,929
+1,694,-383
+1,-523,1379
+1,-451,-2346
+1,405,-491
+1,-459,1850
+2,166,-520
+1,-53,631
+1,106,-1622
+1,-203,637
+1,452,399
+2,440,646
+2,-763,-1143
+1,-77,93
+2,-125,49
+2,3,800
+3,900,-1185
+1,16,231
+4,101,2
+43,-299,182
+3,122,-14
+1,-68,-7
+1,-123,57
+1,32,45
+1,-4,30
+1,-35,-130
+1,73,166
+1,1,-59
+1,38,-4
+1,-58,-128
+1,-25,68
+1,77,111
+1,-5,-88
+2,71,2
+1,-67,-27
+2,-15,-1
+2,-49,-15
+1,59,19
+2,-37,1
+4,-14,225
+4,-122,-147
+1,36,-468
+1,-233,-32
+1,544,420
+2,197,-62
+2,-277,-33
+1,51,-13
+1,-84,-127
+2,-53,121
+1,-179,-29
+1,23,318
+1,126,20
+1,63,20
+1,16,-113
+5,170,-137
+1,-398,76
+1,58,-216
+144,2187,1098
+1,-159,-135
+9,-64,-261
+1,323,510
+8,-556,732
+2,-348,49
+1,812,-1211
+1,244,668
+1,-548,320
+1,-250,-627
+1,222,500
+1,527,-1078
+1,-347,592
+1,-136,194
+1,335,-1145
+1,-401,1735
+1,388,-1328
+1,-55,265
+1,-143,317
+1,433,637
+1,-22,-724
+1,-407,600
+1,268,-671
+1,-178,383
+1,-361,-361
+1,882,29
+59,584,-1737
+2,-115,569
+1,138,-171
+1,-293,-246
+6,102,-36
+4,33,-159
+1,529,173
+1,-811,-40
+1,298,-289
+2,754,472
+1,947,-1648
+1,-169,588
+1,-721,545
+1,-1379,822
+1,221,1125
+3,140,250
+1,-61,-197
+1,883,-786
+1,-491,732
+1,-283,-217
+1,1597,28
+1,-906,118
+1,-366,-886
+1,1384,-791
+2,-1878,326
+1,1061,920
+1,688,-817
+2,-798,1002
+1,-52,-149
+1,926,-270
+1,-594,-321
+1,-705,-1052
+1,-256,1555
+5,1106,-1522
+1,471,1087
+1,-83,438
+247,-2077,-1802
+2,-101,-13
+2,273,-324
+8,-216,304
+1,44,122
+1,76,42
+5,701,-335
+1,-821,-465
+1,-82,1281
+1,294,-596
+1,54,296
+1,-87,209
+1,-34,-115
+1,-142,-97
+2,-71,-166
+2,274,160
+1,-456,-501
+1,19,536
+1,625,-458
+1,-300,877
+1,231,-195
+1,362,-1193
+1,-668,293
+5,-380,438
+8,585,535
+50,336,-1953
+2,-637,-606
+1,113,36
+2,-208,227
+3,1079,63
+2,-13,274
+2,-278,-513
+13,-157,-293
+3,270,72
+2,142,231
+1,1374,523
+1,-1870,-635
+1,727,766
+1,349,648
+1,-1266,-1472
+1,656,819
+1,-712,-390
+2,207,-554
+1,675,242
+1,-475,-261
+1,859,116
+1,-44,384
+1,-218,-495
+57,-544,4947
+1,1074,-73
+1,-357,543
+1,-236,-568
+1,-270,448
+1,1070,-24
+1,-1072,196
+2,875,-1185
+1,-487,903
+1,-645,126
+2,1811,-83
+1,-1199,342
+5,337,-987
+15,779,105
+3,-402,232
+2,-480,190
+4,603,302
+1,174,-399
+2,-169,67
+9,-321,254
+445,-814,2837
+1,-778,-446
+2,733,232
+1,-103,-1406
+1,-782,1160
+1,481,-587
+1,184,1028
+2,251,263
+1,-1318,167
+1,2045,-680
+1,-233,-684
+1,-721,-71
+1,-97,1224
+1,-321,167
+1,1555,-718
+1,-202,-797
+2,-1094,-394
+1,178,46
+1,-282,1184
+1,-310,-72
+1,1074,18
+1,160,132
+1,-853,-591
+1,1146,261
+1,-1773,164
+1,2065,-260
+2,-1640,317
+1,89,684
+2,54,-1592
+1,30,1725
+1,-580,-330
+1,1816,-1541
+1,-1100,368
+2,50,-1
+1,464,1092
+1,-774,-365
+1,451,255
+1,433,-226
+1,-315,-1358
+1,889,1100
+1,-1035,626
+1,-11,-338
+1,-108,-1002
+2,-96,-224
+1,492,1482
+1,47,-512
+3,-413,998
+3,-165,-416
+1,-258,-436
+1,-34,356
+1,-243,-316
+1,93,806
+1,1629,-648
+4,-1292,-107
+2,131,906
+2,585,-655
+11,37,31
+18,-548,-279
+1,-15,-4
+2,21,-27
+1,-109,-11
+1,13,75
+1,131,-33
+1,-66,65
+1,80,3
+1,-44,-3
+1,33,63
+1,-40,-1
+1,95,-57
+1,1,-109
+2,-148,121
+1,-51,40
+3,143,-240
+1,-124,-127
+1,172,394
+1,-128,23
+1,209,-325
+20,60,86
+7,-322,-150
+150,514,-1905
+4,-119,34
+5,344,135
+1,-140,96
+1,-178,155
+1,369,124
+2,-1135,-330
+1,826,25
+1,91,-226
+2,-103,-188
+1,331,69
+1,-743,466
+1,420,-257
+1,-28,476
+2,527,-386
+1,-707,-311
+1,-205,94
+1,958,-243
+19,-645,574
+10,-556,49
+7,1305,-303
+1,-598,574
+10,135,-651
+26,1067,606
+1,59,31
+8,61,257
+2,-213,348
+1,-184,-417
+2,366,-133
+1,-242,-355
+1,165,100
+1,201,202
+1,-32,510
+1,-56,-1296
+1,-86,409
+34,-504,-187
+6,179,-211
+38,-136,681
+2,-608,2393
+4,-88,-16
+1,205,-88
+1,-203,-154
+1,-101,163
+2,841,-530
+1,-273,501
+1,834,631
+1,-339,-357
+1,-54,100
+1,27,-776
+1,-379,-89
+1,212,673
+1,130,-754
+1,245,912
+1,110,-992
+1,-857,1015
+1,-54,-231
+1,47,-20
+1,959,326
+1,-372,39
+2,-447,-340
+1,634,-1041
+1,-339,1213
+1,-105,-536
+1,-113,300
+1,-238,-224
+3,-423,379
+2,575,-513
+1,-649,722
+1,893,-442
+1,-979,107
+3,697,215
+1,-337,-637
+3,44,87
+1,365,23
+1,117,220
+2,406,-696
+1,-1029,1047
+1,550,-120
+1,329,-336
+2,263,513
+1,-516,-78
+1,378,179
+2,-1437,-70
+2,170,-129
+2,1209,37
+1,-1100,145
+1,552,-604
+1,-74,58
+2,-644,714
+2,1002,-132
+2,-580,-270
+2,871,-888
+2,-3,592
+1,-593,233
+1,39,238
+1,474,-43
+1,-55,-578
+1,-326,159
+1,-897,642
+118,260,419
+9,840,-297
+1,-1144,91
+1,645,-27
+1,288,-195
+1,293,302
+1,-453,-364
+3,587,183
+4,-452,-36
+1,-87,-100
+1,-887,391
+4,1432,390
+1,-301,-223
+1,-194,586
+1,-408,-1167
+1,275,-67
+1,-223,1611
+1,416,-1236
+1,-120,-29
+1,-71,-61
+4,789,817
+2,-895,-1080
+1,102,1424
+2,-183,-1247
+1,-136,1156
+1,699,-325
+2,224,-691
+1,-753,200
+2,169,270
+1,-131,-297
+48,-1930,-2120
+19,5,-1513
+1,12,515
+2,233,1113
+1,-354,-2023
+1,120,1327
+2,413,-482
+1,-156,1216
+1,31,-1737
+1,-529,-75
+1,575,1846
+1,-441,52
+69,-681,-182
+29,-334,-335
+1,97,8
+2,-133,65
+2,464,50
+1,-502,-31
+1,-162,65
+2,782,-142
+1,-731,330
+1,65,-208
+1,354,-134
+1,389,-342
+58,-1160,938
+1,92,296
+1,-103,-289
+1,-29,-203
+1,-27,-39
+2,166,13
+1,-570,218
+1,94,-1779
+2,464,1960
+1,212,-195
+8,-808,-2056
+1,207,2023
+1,815,-1384
+1,-80,100
+1,-658,1470
+1,1044,-2108
+1,-357,563
+1,-716,1482
+1,931,-1990
+1,-1122,976
+1,328,-32
+4,419,-238
+4,534,-393
+1,167,-217
+1,-1696,220
+1,1213,473
+1,2,316
+1,-209,-550
+1,-622,1015
+1,350,-1599
+1,-63,1903
+1,-54,81
+1,-69,61
+1,906,-1400
+2,-51,-865
+1,-550,2318
+1,446,-1612
+2,-168,-527
+1,-887,-262
+5,788,597
+2,-830,1856
+2,915,-1752
+7,-576,1686
+9,81,322
+20,2280,3036
+2,-117,-59
+9,541,183
+1,-1119,45
+1,-316,-328
+1,444,72
+1,-37,-474
+2,334,160
+1,130,-710
+1,540,944
+1,-219,-552
+3,-144,325
+1,-830,427
+1,105,-147
+4,321,45
+2,-225,160
+2,465,-850
+1,188,939
+1,-316,-1738
+65,-575,319
+2,-378,430
+7,-516,-157
+10,-460,-196
+10,904,22
+1,-795,1137
+1,634,-885
+8,-383,699
+2,138,285
+2,-49,-63
+6,-62,-1731
+2,-547,1578
+1,829,-1173
+1,-356,146
+1,183,406
+1,-618,110
+4,800,506
+2,133,-21
+1,-1019,-693
+1,756,387
+1,-279,364
+2,713,-46
+1,-1121,-987
+33,1573,-1473
+9,-1014,-188
+1,77,49
+1,620,347
+2,-322,-223
+2,661,496
+1,-910,-350
+1,1368,208
+3,551,67
+2,-1295,-119
+1,-62,38
+1,-567,-326
+5,11,-244
+6,464,821
+1,-335,-608
+1,541,499
+1,-579,62
+1,218,-260
+1,297,-263
+1,-1084,-263
+1,846,1041
+1,-726,-150
+1,843,-453
+1,-4,130
+1,-593,-136
+1,660,275
+1,-614,-408
+1,-187,157
+1,858,555
+1,-306,-896
+1,1333,891
+1,-1760,-392
+1,624,-174
+46,1712,1889
+9,821,464
+1,-649,140
+3,1533,-850
+1,-417,683
+1,-886,-866
+1,-546,-35
+1,1820,602
+1,148,100
+2,-1572,-955
+1,1018,506
+2,95,327
+2,-922,216
+1,-736,-316
+3,888,555
+1,-458,-1128
+3,-92,1001
+1,-234,-1489
+1,1273,1666
+3,-665,-1219
+562,1844,-10924
+1,-1340,340
+1,948,-1802
+1,-904,1351
+1,-42,561
+2,667,625
+1,619,-286
+2,539,-3566
+1,-1740,3116
+1,-73,-80
+1,1357,-2219
+1,-1307,2204
+1,-23,130
+2,1663,-406
+1,-1131,-334
+1,-802,152
+1,794,-904
+1,77,1949
+1,1878,-2544
+3,-1835,2225
+1,-934,-495
+1,1066,1192
+2,-1685,-563
+1,1082,-467
+1,46,-48
+1,-36,-3
+2,587,1024
+5,-1543,-722
+1,1083,350
+2,1449,163
+1,479,-48
+1,-2337,-649
+1,2933,-2042
+1,-3359,2287
+1,2244,-2828
+1,-1594,1652
+1,2227,-412
+3,-2411,1291
+2,-59,-83
+6,471,-867
+1,-322,152
+9,431,266
+4,-465,559
+7,222,-26
+3,39,-50
+1,13,-41
+1,-26,88
+15,-111,-12
+1,-28,-65
+1,-33,-25
+1,39,103
+2,31,-53
+1,-11,-47
+1,34,-15
+1,-73,54
+1,42,115
+3,-114,-207
+2,194,219
+2,-113,-238
+1,-63,68
+1,7,67
+1,-4,50
+1,40,5
+1,-17,53
+1,-69,-111
+1,357,-534
+4,-195,419
+1,36,-26
+1,20,63
+1,53,-16
+3,-103,-65
+1,-108,-64
+3,107,7
+1,-168,154
+2,-46,4
+1,160,176
+1,174,-262
+1,-145,-26
+1,-10,43
+1,-24,49
+1,-30,-53
+1,-50,-17
+1,208,2
+7,-112,313
+2,-54,-195
+3,-68,-331
+5,300,39
+3,-213,327
+9,-136,-153
+1,-96,-33
+4,104,170
+8,251,154
+110,3284,237
+9,-57,-2373
+1,-238,2999
+3,-373,-1501
+1,322,797
+1,486,-1169
+1,-766,998
+1,534,199
+1,-160,-170
+83,-49,-5015
+1,-3,528
+1,2615,595
+1,-1392,-590
+1,-1091,1522
+2,312,-1059
+1,-944,1056
+1,56,-1609
+1,235,-294
+1,2103,148
+1,-2048,-218
+1,1988,2702
+1,-2544,-1568
+3,2057,748
+1,-231,-247
+1,-1835,107
+1,3537,234
+1,-3615,-234
+1,567,-1554
+1,1111,287
+1,1550,1566
+1,-180,265
+1,-2578,-1029
+1,357,-985
+1,100,361
+1,-561,-48
+1,742,-432
+2,60,-28
+1,-57,234
+2,76,-160
+1,-116,235
+1,1303,2342
+1,-1281,-2863
+1,-227,328
+1,385,-26
+1,12,343
+2,-953,-38
+1,2381,1374
+1,-242,56
+1,-2049,-1162
+1,168,-800
+1,-43,4
+1,286,-27
+1,28,-8
+9,-367,154
+36,297,1221
+5,327,-1242
+1,-32,71
+1,47,-98
+3,158,14
+2,82,-88
+1,-284,87
+1,429,116
+1,-501,-161
+1,126,71
+7,-72,-56
+2,-107,181
+2,155,-240
+34,15,100
+144,-413,91
+2,8,-145
+1,138,83
+1,-185,-50
+1,133,135
+95,1942,3945
+14,-600,160
+5,-136,-1364
+1,127,545
+1,-64,227
+1,458,1028
+2,954,451
+1,27,-701
+2,-1196,68
+2,587,1166
+1,394,-1921
+1,263,-94
+1,-1496,860
+1,925,-896
+1,-132,1354
+48,-427,716
+118,-6875,-4091
+1,-25,2
+1,15,-26
+1,112,-38
+1,-17,2
+1,-11,15
+1,-20,9
+1,-17,-58
+2,50,43
+1,-54,41
+1,59,20
+1,-21,-1
+1,-2,-12
+1,-4,-14
+1,-11,-88
+1,25,89
+1,-24,-52
+1,21,-21
+1,16,28
+1,-37,72
+1,-5,82
+1,-1,-44
+1,43,-235
+1,-21,-11
+1,34,182
+1,49,-32
+1,-28,-31
+1,-10,32
+2,-6,86
+1,-6,23
+1,-28,-26
+1,-19,-188
+1,20,14
+1,19,37
+1,-67,61
+1,85,-39
+1,24,66
+1,-117,111
+1,142,-58
+1,-22,16
+1,-126,-144
+1,-36,44
+1,-11,-124
+1,166,54
+1,-153,52
+1,118,-63
+1,20,-118
+3,-115,232
+4,16,-110
+1,68,92
+1,-59,61
+1,-76,-33
+2,-6,-25
+1,82,-35
+1,42,123
+1,-10,-240
+1,75,197
+1,-108,-202
+1,54,17
+1,68,87
+1,-30,-55
+2,-42,127
+2,5,-205
+4,51,3
+2,-67,202
+10,-19,-31
+5,-47,-133
+1,96,-24
+106,-101,272
+9,131,-244
+1,-36,32
+1,-3,-19
+8,-182,172
+1,6,24
+1,26,-32
+8,86,-156
+2,21,2
+8,-63,274
+1,-15,-11
+1,-19,-12
+3,-5,-261
+2,-25,105
+1,-14,13
+1,23,-32
+1,13,-35
+4,-50,-48
+1,115,182
+5,-90,-133
+2,35,149
+1,115,-507
+2,31,-143
+1,-178,448
+4,97,215
+2,104,-346
+2,-313,162
+1,-27,4
+2,77,-19
+1,44,17
+2,70,177
+10,164,-423
+1,-115,151
+1,-17,13
+1,-29,12
+8,9,81
+1,19,3
+1,-39,23
+1,1,-26
+1,21,28
+96,58,-161
+1,19,-12
+1,-4,12
+1,-4,18
+1,-16,2
+96,-177,158
+1,-1,22
+1,6,-62
+1,28,22
+1,-59,-16
+1,77,18
+95,123,300
+1,-34,8
+1,-29,30
+1,-17,-22
+1,24,-7
+1,25,-45
+14,-132,51
+1,29,22
+2,-23,-47
+7,-33,2
+1,125,86
+7,-41,-57
+1,4,-6
+1,109,-96
+10,-107,29
+10,82,-7
+10,-56,26
+10,-133,68
+21,67,-86
+2,0,12
+1,-469,-366
+2,489,308
+4,-89,-173
+2,50,152
+1,-1,35
+2,-7,34
+1,-11,6
+1,-37,-244
+3,2,254
+3,104,-104
+8,-167,-111
+1,5,-35
+8,17,240
+2,-33,-3
+1,9,-14
+1,47,-170
+1,43,-4
+1,39,12
+1,5,1
+8,-61,84
+47,-52,-40
+1,3,75
+1,28,-16
+1,83,-33
+1,-56,3
+1,21,-3
+1,-6,70
+2,-4,-111
+3,-38,25
+1,-10,54
+1,23,27
+7,-17,-3
+9,-10,-82
+9,17,80
+161,409,-17
+5,-59,111
+1,-7,-21
+1,25,79
+2,-12,10
+1,77,-243
+5,-65,202
+4,58,-231
+4,-36,185
+6,-66,-111
+10,149,-181
+2,58,73
+4,-104,24
+55,-65,102
+2,20,-25
+1,-2,40
+1,-26,-43
+1,0,38
+1,20,42
+1,-37,-27
+17,16,-11
+76,33,-164
+1,12,25
+1,-30,1
+1,-17,2
+1,1,15
+1,23,32
+1,8,-30
+1,18,5
+2,-41,-19
+4,91,11
+87,-113,-512
+1,0,89
+1,75,68
+1,30,-43
+2,-18,67
+1,-10,-87
+4,92,63
+5,-133,85
+4,14,-431
+1,191,461
+3,-126,-63
+1,0,32
+1,44,-38
+4,-37,29
+1,10,107
+4,-55,-121
+5,87,106
+2,40,53
+1,-88,-100
+1,50,-23
+1,-23,48
+5,165,-46
+1,3,45
+1,-203,92
+2,227,-188
+1,-56,-16
+1,-247,22
+4,58,-326
+1,-76,-8
+1,55,63
+2,-37,224
+3,22,-21
+4,8,40
+6,0,-191
+4,188,159
+3,147,-60
+3,-117,305
+3,174,-130
+11,-399,61
+1,45,-13
+1,-75,-20
+2,54,17
+1,-5,-41
+5,-18,29
+12,-30,28
+13,1,-58
+65,44,196
+1,-17,-15
+2,36,-9
+1,-37,-30
+1,-6,24
+95,-2,-48
+1,-17,4
+2,-11,-27
+1,67,-6
+1,-21,13
+1,-20,-12
+1,-27,49
+93,-1,751
+1,144,-200
+4,-185,-168
+2,-145,328
+1,-9,-86
+1,62,44
+1,123,-33
+11,-31,-192
+1,-12,20
+1,-6,33
+6,21,273
+1,-21,-462
+1,-7,28
+1,-26,-39
+4,109,476
+2,1,61
+1,-37,-338
+1,44,21
+3,-132,-103
+1,-32,-35
+1,44,-15
+2,-65,85
+2,170,135
+2,-152,236
+2,57,-612
+1,-2,29
+4,213,414
+2,-228,108
+1,23,-77
+1,13,-29
+1,2,92
+1,-89,-206
+1,57,56
+1,41,18
+1,-19,-53
+2,1,-292
+3,42,274
+2,8,-279
+1,-26,-6
+4,13,38
+4,39,400
+2,-36,-6
+3,-87,-193
+1,49,-82
+1,-5,45
+1,-39,-10
+9,68,-226
+2,-16,-18
+98,-1261,1419
+1,-141,-279
+3,6,699
+1,-21,-169
+4,-21,-586
+1,-30,12
+2,16,63
+1,43,33
+1,-42,4
+1,287,318
+1,-269,-122
+14,196,174
+1,-273,-535
+2,84,962
+1,45,-623
+6,65,-221
+1,18,-24
+3,-44,-13
+3,132,561
+2,-196,-620
+12,178,573
+1,-199,-76
+14,78,-398
+1,-27,63
+2,-114,298
+23,700,-565
+1,-87,1031
+3,-175,-1109
+1,119,-37
+1,-47,67
+1,70,-35
+1,-58,-15
+3,-144,46
+5,-184,379
+1,17,-99
+1,40,95
+3,221,-383
+1,21,225
+1,133,-92
+1,-79,148
+1,254,-248
+1,-300,101
+7,-54,859
+1,-177,-987
+3,54,360
+14,284,-468
+1,218,-73
+1,-211,134
+1,55,16
+1,9,-62
+1,119,293
+1,-33,188
+1,-50,-67
+3,-316,-83
+1,56,184
+1,175,294
+1,-194,-654
+2,154,32
+1,14,415
+1,-338,-252
+4,146,-266
+3,120,80
+3,48,-60
+1,87,238
+1,-54,-245
+1,29,48
+2,87,570
+5,-262,-553
+1,-176,-53
+1,6,-1
+3,246,81
+5,-410,-16
+1,-2,55
+1,32,-50
+1,-6,39
+1,-2,38
+1,-30,-148
+1,29,-7
+1,35,102
+1,13,-91
+1,-22,34
+1,41,31
+2,-111,49
+1,13,65
+1,54,-17
+1,3,-51
+1,60,-77
+1,-126,-9
+1,119,177
+1,-24,-42
+1,103,-128
+1,-40,-8
+1,-47,76
+1,18,49
+2,84,-58
+1,107,19
+1,-22,51
+1,-33,-53
+1,-16,-80
+1,-48,159
+1,-186,-125
+2,11,27
+1,-30,-49
+1,-12,71
+3,-3,74
+1,61,-149
+5,127,55
+2,-143,-76
+7,-146,252
+1,79,-190
+6,216,-75
+12,-318,181
+6,28,118
+3,191,-141
+19,934,837
+2,43,-4
+7,-49,-85
+1,62,-8
+9,175,-505
+2,-1157,2289
+1,1155,-2431
+2,-221,2321
+2,-727,-677
+3,919,-1432
+1,-1221,1205
+2,459,64
+1,667,-966
+2,-111,394
+3,65,855
+1,184,-1303
+1,-106,237
+1,343,1977
+1,-1419,-1293
+6,-44,117
+1,51,354
+1,92,-586
+1,1279,-570
+1,-491,-8
+1,-113,294
+2,528,-620
+1,-736,1092
+1,586,-1034
+1,-1187,614
+1,962,-460
+2,166,-151
+2,-150,60
+2,-514,1582
+1,1098,708
+1,-136,-2343
+2,-397,120
+3,-961,732
+1,667,-416
+1,-262,233
+1,624,-505
+1,296,696
+1,107,-368
+2,-106,1073
+1,-1079,-628
+1,912,-1045
+1,-1070,1885
+1,1268,-1652
+1,178,-89
+16,314,-1012
+3,-103,1835
+1,-405,-1177
+2,427,-265
+1,-151,-23
+1,829,1000
+1,85,-607
+1,-368,-239
+2,-935,-313
+1,223,519
+1,-37,-146
+1,-160,-449
+1,188,182
+3,-258,159
+1,263,-97
+1,4,-176
+2,-228,34
+1,221,13
+2,621,440
+1,1504,-144
+4,-1465,1616
+1,-646,-1618
+2,-174,-483
+1,50,5
+1,-87,-11
+1,738,1220
+1,-704,-586
+2,153,-226
+1,523,-273
+2,-368,-71
+1,-31,94
+1,-237,135
+1,826,-80
+3,-897,-4
+2,215,75
+2,-217,-63
+2,445,357
+2,-250,-675
+1,-161,492
+4,626,2494
+1,649,-857
+1,-463,-1121
+3,-233,-755
+1,-525,95
+2,299,-323
+1,11,-92
+1,-437,475
+1,57,-15
+2,42,-205
+1,41,-24
+1,80,179
+4,-26,113
+2,1837,993
+1,-1830,-1112
+1,24,406
+3,1588,550
+2,-1585,-962
+1,239,-172
+2,84,55
+1,-58,55
+2,-151,-455
+1,629,902
+1,-951,-159
+2,74,-281
+3,73,53
+1,-33,-63
+2,79,-86
+1,-141,120
+2,28,4
+1,11,-62
+4,-18,39
+86,-108,-87
+2,-114,-78
+1,25,51
+1,19,-92
+1,8,126
+1,56,60
+1,-101,-21
+1,113,-114
+9,-107,165
+3,71,-49
+9,-334,-44
+2,58,68
+4,-199,485
+3,36,169
+4,171,-331
+1,-53,97
+1,85,-154
+3,33,-73
+1,40,430
+2,79,-546
+2,40,-20
+2,-12,131
+2,62,-144
+4,-343,676
+1,-99,-762
+1,49,197
+4,246,63
+3,-46,-239
+1,62,128
+11,-34,180
+1,-11,84
+1,-136,-251
+1,81,15
+1,-34,-33
+1,-14,-51
+3,-211,25
+1,51,117
+1,-23,87
+3,105,-238
+1,53,213
+6,67,-688
+1,-107,-59
+1,62,5
+2,2,-42
+4,-10,177
+2,-23,-170
+2,18,-11
+3,-36,-6
+1,25,107
+2,40,-23
+4,-250,90
+1,145,-197
+1,78,-45
+1,-32,-12
+2,-173,215
+1,170,22
+7,-37,-42
+9,53,-242
+1,62,-41
+1,-44,-4
+1,41,-32
+2,-149,272
+2,23,72
+2,152,-287
+1,-171,258
+1,20,-99
+3,40,-46
+1,-31,-38
+1,1,21
+1,20,-37
+9,-252,408
+1,94,-93
+2,33,-40
+1,249,38
+1,-220,-85
+1,123,194
+1,-3,-54
+4,103,-433
+5,-133,383
+3,-7,-55
+1,0,26
+2,-97,59
+3,135,-268
+4,99,-10
+2,0,-47
+1,-28,1
+1,45,118
+1,0,-95
+1,-56,12
+1,1,-81
+72,26,131
+2,-9,23
+19,117,-155
+1,-37,28
+2,10,-51
+1,12,69
+1,8,36
+1,11,82
+1,7,48
+13,76,-115
+2,-3,59
+8,-49,-100
+1,-11,-33
+1,12,-32
+2,20,46
+5,-114,-17
+1,0,-50
+2,-23,50
+1,2,-38
+1,17,-56
+15,143,478
+1,-108,-263
+4,8,-40
+1,-41,6
+1,31,46
+1,-28,-77
+1,7,111
+1,86,-90
+9,2,327
+1,42,-79
+1,-101,37
+1,39,-30
+1,-105,120
+3,137,-321
+1,-8,67
+114,475,-1617
+2,-78,128
+1,-6,58
+6,-50,85
+2,-25,89
+1,237,-512
+2,-31,633
+6,-104,-14
+1,98,-414
+1,106,46
+7,-304,77
+3,-45,39
+2,26,-93
+1,62,76
+4,354,133
+1,-439,-167
+1,-907,-317
+1,914,301
+17,202,106
+3,-64,410
+1,-63,-13
+1,17,-72
+1,36,-243
+1,125,-581
+34,-4,-112
+2,18,29
+2,92,-89
+1,-112,-83
+2,32,246
+1,-43,-122
+1,34,-41
+1,9,-37
+6,30,-279
+84,1378,576
+1,462,-200
+1,-1199,862
+1,793,-1236
+1,-340,1596
+1,-129,-993
+1,451,883
+1,235,-44
+2,37,-1799
+2,-153,876
+3,-235,371
+3,78,147
+1,31,-250
+1,-509,513
+1,917,-248
+1,-1410,-190
+1,1415,12
+1,-1046,-417
+1,-468,595
+1,949,292
+1,608,-681
+3,-52,-204
+4,-96,-462
+1,189,862
+2,89,319
+1,-623,406
+1,182,-1488
+1,-415,1534
+1,-373,-453
+1,1196,-825
+1,-1601,915
+1,1546,-175
+1,-100,-844
+1,32,-93
+1,-116,844
+2,-580,-805
+1,47,686
+1,-298,-495
+1,-568,338
+2,143,-444
+1,731,1702
+1,295,-1213
+1,9,425
+1,77,-263
+2,-239,491
+1,-8,-456
+1,626,445
+1,-950,-606
+2,731,584
+1,-46,-1162
+1,-28,782
+1,-976,-336
+2,774,352
+1,498,178
+1,-393,-464
+2,131,-36
+2,-860,-29
+1,983,36
+3,-649,-73
+3,-60,1148
+2,157,-195
+1,714,-600
+1,-739,172
+4,668,-452
+1,-26,161
+9,-982,191
+3,-45,-3
+1,51,39
+1,78,205
+1,-223,-161
+1,302,-6
+1,-204,-118
+2,-189,-103
+1,238,48
+1,-227,76
+1,229,-201
+87,-158,-1371
+1,59,-219
+3,5,100
+2,7,66
+1,14,-50
+1,3,22
+1,-20,40
+10,-128,180
+2,289,-212
+2,-266,-97
+2,641,-189
+1,-1197,736
+1,942,-802
+1,-717,501
+1,617,-404
+2,-6,463
+1,-358,-139
+1,-181,0
+2,-340,243
+1,161,-132
+3,8,251
+1,-36,163
+1,668,-705
+2,-365,297
+1,8,-118
+1,615,-97
+3,-498,65
+1,924,-166
+1,-152,258
+1,-187,-662
+1,-505,1004
+1,-318,-40
+1,-75,-224
+3,105,-9
+2,-280,748
+1,960,-524
+2,-1027,133
+2,937,-599
+36,-477,2512
+4,43,266
+5,-658,-272
+2,3441,-327
+1,-856,219
+1,456,-54
+2,-2484,747
+1,3270,-1632
+1,-2893,784
+1,-71,530
+3,1002,369
+1,-1321,-292
+1,-87,56
+2,1949,-430
+1,-934,179
+1,-551,437
+1,2406,-1546
+1,-1284,1298
+1,-1262,-723
+1,-542,79
+2,28,382
+1,-20,262
+1,40,-497
+5,3281,-673
+2,-3544,1090
+1,13,213
+1,2123,-269
+1,938,-814
+3,-1256,975
+1,-1883,-195
+1,180,-167
+1,-6,200
+1,-139,132
+1,924,136
+1,213,75
+3,-243,99
+2,-460,-733
+1,220,-199
+1,602,1209
+1,-1330,-505
+18,742,-758
+10,-515,755
+10,2793,-1916
+1,-324,343
+1,-578,391
+1,859,-532
+1,-172,280
+1,-377,-766
+2,-294,-323
+1,21,475
+1,561,-425
+1,-260,608
+1,-12,-31
+2,403,-19
+1,-714,447
+1,151,-310
+2,-133,207
+1,392,-207
+1,129,-1027
+1,-296,1520
+1,39,-1524
+1,691,951
+1,-1098,-456
+1,245,458
+1,419,-19
+1,-532,-415
+1,260,1258
+2,-54,-1279
+1,-237,610
+2,249,561
+1,495,-45
+1,-204,-1881
+1,-35,1004
+1,-67,-308
+1,125,152
+2,-370,-406
+1,32,1400
+2,500,-478
+1,213,-75
+1,-266,-27
+1,-520,331
+1,-31,114
+1,20,-346
+2,219,-279
+1,162,285
+1,-407,-390
+1,661,-4
+1,-597,508
+2,-208,-536
+1,366,478
+3,-208,-706
+2,-72,526
+2,513,448
+1,-87,-1459
+1,-417,1314
+1,420,19
+1,-308,-976
+1,633,745
+1,-805,294
+3,-34,-228
+2,273,289
+26,25,-595
+1,-11,34
+1,30,-8
+1,31,-39
+1,-13,-26
+1,-131,-93
+4,168,157
+1,13,-71
+9,25,73
+1,-129,-23
+1,67,-94
+1,-10,-75
+2,-163,221
+1,167,-28
+1,-42,65
+1,5,-123
+2,147,71
+7,-150,101
+3,62,-100
+1,-49,-50
+160,-119,-1834
+4,37,24
+1,38,-28
+1,44,-33
+1,-141,65
+12,-574,88
+1,502,-408
+2,-148,126
+1,10,158
+1,172,239
+1,-62,2
+1,-250,5
+1,-193,-79
+2,117,389
+2,-210,18
+1,687,-717
+7,-115,-25
+3,36,-67
+1,3,-46
+6,18,-6
+3,-32,-20
+1,-414,1042
+1,442,-885
+5,-209,465
+2,219,-323
+40,888,-651
+3,176,-112
+5,-117,34
+4,119,-73
+1,-10,-33
+3,-175,8
+1,-50,65
+1,-187,186
+1,-19,-28
+1,105,105
+2,-5,46
+1,101,-83
+2,6,-19
+1,-82,-12
+2,225,-190
+7,-47,-93
+1,-23,11
+2,-150,400
+1,8,10
+2,24,6
+1,195,-408
+16,-360,204
+1,214,36
+1,-38,-49
+1,70,90
+2,40,-54
+1,92,-182
+4,-129,159
+4,-164,-68
+6,323,-77
+5,-266,400
+1,-17,-5
+1,-20,-14
+2,60,21
+13,368,-403
+1,-7,8
+1,18,9
+1,1,8
+2,-33,-6
+1,33,-9
+1,2,-13
+1,-44,7
+1,48,16
+1,-77,-44
+2,37,7
+1,28,-1
+1,-41,-49
+1,25,42
+1,10,-18
+3,-1,-34
+1,-19,12
+1,42,50
+1,-73,53
+3,7,-76
+1,-114,73
+1,175,-80
+1,23,95
+1,-74,-72
+1,-24,-43
+1,80,73
+1,-83,0
+24,54,23
+30,-32,7
+113,-297,231
+2,14,35
+1,-61,-52
+1,21,-4
+1,-2,40
+95,159,-189
+1,-35,-10
+1,-2,25
+1,18,37
+97,219,-10
+1,-37,37
+1,450,17
+2,-317,627
+1,-65,-305
+1,48,-105
+1,732,-437
+1,-594,631
+1,121,-307
+1,-85,490
+1,103,-192
+1,-206,135
+1,-99,53
+1,809,-981
+1,-808,449
+1,64,273
+1,60,-129
+1,38,9
+1,4,-22
+1,-40,65
+2,1,-106
+2,94,-153
+1,-233,244
+2,26,27
+2,80,-343
+1,36,523
+2,324,-228
+1,-39,-112
+1,29,181
+1,-700,-44
+2,-70,24
+1,15,45
+2,158,-176
+1,-19,62
+2,-21,-31
+1,-3,-68
+1,114,22
+1,262,-154
+1,-33,606
+1,-73,-468
+1,-381,543
+1,231,-173
+1,-45,-259
+1,272,-149
+2,-430,59
+1,284,-8
+2,557,-82
+1,-138,-108
+1,-747,264
+1,489,341
+1,438,-718
+1,-557,204
+1,117,-67
+1,18,344
+1,-360,80
+1,1018,-559
+1,-951,506
+1,328,-291
+2,108,432
+1,-128,-473
+1,435,-196
+1,83,9
+1,-701,310
+1,708,-366
+1,-832,307
+1,-10,43
+1,-20,-31
+1,-9,24
+2,87,218
+1,7,-75
+2,420,52
+1,-625,86
+1,23,-223
+1,203,212
+1,348,-384
+1,-45,-3
+1,31,53
+1,-36,-88
+3,-219,216
+1,17,32
+1,29,-35
+1,-1,57
+1,482,-365
+2,-622,162
+1,28,14
+1,-66,28
+2,22,26
+1,30,-95
+1,18,-60
+1,28,16
+1,-2,25
+1,-23,24
+1,20,24
+1,-24,-51
+1,-27,84
+5,64,-56
+1,-52,79
+2,-42,-50
+81,115,-76
+1,-2,10
+1,2,15
+1,-1,23
+1,25,-58
+1,8,17
+1,5,17
+1,-25,-4
+1,-14,-40
+10,8,54
+81,77,-145
+2,8,115
+1,-42,-56
+1,27,14
+1,36,-12
+95,3,-165
+2,41,-58
+1,-75,7
+16,-60,89
+2,470,-488
+1,-18,-84
+1,-372,296
+1,-35,231
+3,414,-186
+1,-91,-268
+1,-285,347
+1,355,-102
+2,-307,29
+4,98,-242
+1,-86,200
+1,-92,194
+1,266,-355
+1,-279,291
+4,198,47
+1,-48,-142
+1,31,70
+2,-46,119
+1,-39,-256
+1,302,117
+1,-88,-115
+2,0,203
+2,-214,-261
+1,-58,256
+3,34,-16
+3,11,-87
+1,-67,174
+1,-104,-36
+5,89,-133
+1,307,-237
+1,104,-42
+1,-324,300
+29,-574,627
+1,-432,134
+1,-132,247
+1,223,-458
+1,73,-61
+1,-61,36
+1,169,158
+2,-303,1
+2,-187,220
+1,426,-5
+1,93,-342
+3,-213,-155
+1,-11,177
+1,-148,276
+1,80,225
+3,-96,237
+7,302,-661
+2,-42,81
+1,-22,-72
+2,282,99
+2,-308,194
+2,-304,-84
+2,223,-293
+2,-533,1075
+2,308,-536
+1,273,-80
+4,251,-353
+1,-2,-32
+2,0,47
+1,45,-28
+6,-400,-133
+2,-19,108
+2,18,-69
+1,40,75
+1,35,-31
+4,188,-37
+3,-214,120
+2,-247,740
+1,152,-564
+34,401,-154
+1,-63,83
+1,61,-56
+1,-11,-7
+3,16,37
+1,-40,-109
+1,-55,70
+1,-28,103
+1,-41,-54
+1,119,33
+1,24,-25
+1,-85,3
+1,13,-91
+1,39,29
+1,31,-23
+1,45,130
+1,-56,-149
+1,-10,-65
+1,-28,15
+1,109,88
+1,31,110
+1,-46,-73
+1,58,-84
+1,-207,419
+1,48,-327
+2,-25,104
+1,-21,-15
+1,126,123
+8,-18,-141
+54,627,494
+1,-6,-41
+1,20,10
+1,-9,59
+1,-57,-135
+1,94,70
+2,45,-28
+1,-15,55
+1,-52,-13
+1,70,78
+3,-101,76
+4,88,-355
+1,163,277
+1,-128,687
+1,-21,-42
+1,395,777
+1,-215,-510
+1,-28,-541
+1,34,-2
+1,-27,-185
+1,-303,363
+2,91,-207
+1,-124,-395
+1,487,713
+1,-175,208
+3,-142,-670
+1,110,-108
+3,-30,-12
+2,13,-226
+3,166,776
+1,-53,120
+1,-114,45
+1,182,-17
+1,-128,-159
+2,-110,166
+1,79,-389
+1,-12,-352
+1,53,231
+1,220,484
+2,-40,12
+1,-208,-841
+43,-866,653
+2,164,-15
+1,211,-711
+1,135,1021
+1,-453,242
+1,193,-835
+2,315,522
+1,215,53
+1,-380,288
+1,-285,-562
+1,-3,-398
+2,5,277
+1,117,105
+1,-413,163
+1,539,698
+1,-37,-1077
+1,190,-122
+1,113,1171
+1,-750,-1184
+1,423,336
+1,-212,-215
+1,88,654
+1,108,-610
+1,259,368
+1,-290,-422
+1,120,491
+1,135,-899
+3,-568,1074
+1,105,-508
+1,775,658
+1,-295,-1108
+1,-87,-37
+1,-236,1254
+2,-167,-422
+1,-109,-95
+4,360,538
+1,479,-210
+2,-649,-327
+2,251,-507
+1,-48,10
+3,15,32
+1,34,18
+1,46,-85
+1,-48,146
+1,-59,-222
+2,-286,70
+1,466,252
+2,-418,-465
+1,851,1491
+1,-924,-571
+1,462,-794
+1,-33,178
+1,-17,-138
+1,-188,681
+1,459,56
+2,7,85
+2,-674,-593
+1,909,896
+1,-489,-1474
+1,-63,-83
+2,292,1304
+1,-492,-662
+2,54,24
+1,565,618
+2,-483,-1015
+1,57,626
+1,-113,-623
+1,-133,645
+1,363,1172
+2,-3,-2170
+10,668,-1196
+2,55,40
+1,22,64
+1,-88,21
+2,-43,-77
+2,74,164
+1,766,-1118
+2,-522,386
+3,308,-54
+2,667,-283
+2,-1265,693
+1,936,-808
+1,-775,583
+1,402,540
+1,81,13
+2,-244,-434
+1,10,330
+1,420,-835
+1,572,389
+1,-69,-179
+1,-1295,312
+1,-112,531
+1,759,-1129
+3,-105,770
+1,-516,-31
+1,957,-780
+2,-953,910
+2,231,-271
+1,-344,531
+1,672,-224
+1,-617,-129
+1,400,-604
+1,-314,462
+2,104,122
+1,313,-230
+1,-426,-89
+1,412,418
+1,-492,254
+1,616,-405
+1,738,-555
+2,-525,-263
+1,-335,1210
+1,185,-229
+1,-132,-827
+1,328,-144
+1,-551,1197
+1,-281,-470
+1,717,-559
+1,-64,734
+1,-709,-199
+1,640,-460
+1,-244,958
+1,106,-1058
+1,480,531
+1,-100,-164
+1,-767,265
+1,-133,112
+4,-143,401
+4,429,-907
+2,452,107
+3,71,335
+1,-734,-98
+2,1253,-765
+2,-248,441
+2,-949,536
+1,692,-173
+1,-326,-358
+3,-171,-115
+4,2077,-687
+2,-64,37
+8,-572,524
+3,121,-78
+5,676,-391
+2,-120,8
+3,-22,-5
+1,133,226
+1,-492,148
+1,489,255
+1,-454,-510
+3,1366,-200
+5,-1362,-79
+1,226,-9
+1,1141,65
+2,-1301,28
+2,-474,366
+1,1796,-43
+2,-1627,-283
+1,924,355
+1,-617,-347
+1,1021,17
+1,-923,153
+1,114,72
+1,-106,-395
+1,-331,814
+1,-113,-452
+1,65,92
+1,1007,-201
+1,5,391
+2,-970,-674
+1,-148,513
+1,-47,-91
+2,298,-261
+1,453,536
+1,-103,-641
+1,-336,190
+2,1496,-82
+1,-466,606
+1,-1124,-371
+1,753,-221
+1,-748,139
+2,549,275
+12,-1056,3
+2,111,-89
+2,91,-225
+6,27,827
+6,-1663,2323
+1,566,-274
+1,-80,18
+1,328,1015
+1,-645,-1469
+1,162,-654
+1,75,68
+1,-204,795
+2,68,59
+2,-310,-307
+1,428,687
+1,73,-88
+1,-575,-562
+1,243,-257
+2,-11,108
+1,138,877
+1,-276,-940
+1,290,445
+2,-62,465
+1,-199,-462
+1,-77,-603
+1,377,420
+1,1,-536
+1,-83,771
+1,-139,566
+1,150,-452
+1,392,386
+1,-781,-505
+1,575,437
+1,52,115
+1,10,-202
+1,-299,422
+1,241,-1786
+1,-510,1203
+1,66,-425
+1,-67,555
+1,-186,-665
+1,188,841
+3,550,-1033
+1,-262,1782
+2,291,-1297
+2,-114,141
+1,12,236
+1,-158,-466
+1,34,-577
+2,-148,699
+3,332,110
+1,-22,-421
+1,-180,210
+1,62,131
+1,-52,31
+1,168,35
+1,-56,145
+1,-406,385
+1,146,324
+1,192,-462
+1,95,-704
+1,-338,603
+1,114,-388
+1,90,126
+1,28,161
+1,-31,-473
+1,263,-16
+1,-409,739
+1,329,-971
+1,-81,482
+1,-28,-56
+1,152,-997
+1,-676,707
+1,757,224
+1,-399,391
+1,-87,-133
+1,54,595
+1,-132,-261
+1,-276,-758
+1,175,-400
+1,88,-110
+1,50,1414
+1,-268,-1010
+1,425,33
+1,415,183
+1,-644,190
+1,173,-845
+1,122,212
+2,39,46
+1,83,-104
+1,-379,1053
+2,790,91
+2,-238,-221
+6,-240,297
+4,332,-241
+1,120,95
+1,76,193
+2,-134,-199
+3,-292,592
+1,-35,155
+1,194,-939
+4,-248,622
+2,533,12
+7,-455,251
+1,199,-827
+6,-477,-228
+4,185,39
+1,31,-203
+10,-446,-68
+1,98,-8
+4,254,380
+3,136,-213
+11,-121,-421
+35,-106,216
+3,-12,-13
+1,25,51
+1,-31,-20
+1,-24,8
+1,3,-40
+1,13,59
+1,-32,-6
+1,91,59
+1,-113,-109
+1,-38,51
+1,42,2
+1,75,33
+1,-48,30
+1,4,51
+1,-59,-69
+1,1,73
+1,1,39
+1,5,-246
+1,-49,34
+1,172,-22
+1,16,-1
+1,33,-7
+2,26,-73
+1,-48,154
+3,14,97
+1,27,-1
+1,28,-15
+21,-131,-12
+37,640,-118
+2,-103,123
+7,342,541
+2,-463,-1244
+1,629,-118
+1,-221,813
+1,583,148
+1,-340,-151
+1,-215,-382
+1,-135,426
+1,133,72
+1,16,-670
+2,17,864
+1,717,-65
+2,-700,-56
+1,262,-651
+2,-65,7
+1,45,-13
+1,-177,690
+2,-302,-852
+2,813,1104
+1,-681,-284
+1,202,418
+1,-697,-1224
+1,721,203
+1,-43,-817
+2,-45,1338
+1,399,-393
+1,-341,-368
+1,-35,1184
+1,-347,-129
+1,16,-234
+1,950,370
+1,-820,-927
+1,-236,637
+1,-60,-784
+1,680,-86
+2,-463,228
+1,594,198
+1,-559,-624
+1,589,1086
+1,-832,-709
+1,512,27
+1,-212,927
+1,89,-146
+1,-400,-546
+1,282,290
+1,425,-1030
+2,-154,722
+1,-119,167
+2,-40,-138
+1,286,-87
+1,-311,-413
+1,519,1128
+1,-506,-414
+1,454,-522
+1,-380,104
+1,-273,602
+2,-47,-138
+1,731,-238
+1,-618,-946
+2,363,1436
+1,-480,-766
+1,885,1067
+1,-75,-389
+2,-621,363
+1,-258,-1482
+1,393,-41
+3,-481,677
+2,66,-69
+8,1495,-775
+1,-49,136
+1,139,-1
+3,467,1477
+1,-677,-1465
+1,266,198
+1,333,1089
+1,-106,-2214
+1,106,1343
+2,-82,200
+1,414,-1089
+1,124,1903
+1,-618,-631
+1,212,-804
+2,-419,-86
+1,-380,1137
+1,-384,-1008
+1,413,-178
+1,1573,471
+1,-1362,-904
+1,653,562
+2,190,-912
+1,-383,1774
+1,-1068,-1032
+2,1237,-709
+1,409,218
+1,-844,387
+1,703,-12
+1,-1402,420
+2,1503,-736
+1,62,375
+1,62,-830
+1,-879,1901
+1,-277,-1721
+3,1420,521
+2,-1323,-754
+1,-131,737
+1,351,-331
+2,1023,72
+1,-937,640
+1,-233,-475
+2,578,1667
+1,-1162,-879
+1,968,680
+1,205,-602
+1,455,13
+1,-1293,78
+2,-86,341
+1,208,-603
+1,-186,485
+1,1385,-760
+1,-865,409
+2,432,-364
+1,-219,1123
+1,-418,-818
+2,9,559
+2,-95,-738
+1,-737,-396
+1,500,715
+1,30,-1062
+2,-310,762
+2,83,-266
+4,631,573
+1,945,-1208
+1,183,-184
+1,-1291,674
+1,-122,711
+2,-504,-243
+1,1037,-682
+1,-1073,831
+1,794,-971
+1,750,590
+2,-879,475
+1,1120,-783
+4,-300,2148
+2,-1676,-160
+1,1680,541
+1,-1771,-14
+1,46,-400
+1,-1327,996
+1,3379,-854
+1,-1793,300
+1,1248,-23
+1,-1827,108
+1,2477,-155
+1,-1704,26
+1,105,-343
+1,1398,410
+1,-434,-367
+1,-724,211
+1,-893,-12
+1,1400,-307
+1,-2298,685
+1,1422,-511
+1,-343,-96
+1,1025,154
+1,-1207,-146
+1,-25,-134
+1,-64,198
+2,799,-2
+1,-514,46
+1,714,-274
+2,351,120
+1,-2279,1009
+1,3214,-1940
+1,-2022,1236
+1,533,128
+1,123,-1149
+3,-1237,1134
+1,-133,-109
+1,-100,101
+1,262,78
+2,-80,-125
+1,35,-94
+2,34,187
+2,-377,-10
+5,-110,-19
+6,585,-138
+540,-17942,-37660
+2,730,-1487
+1,-2842,3531
+1,2606,-3728
+1,-555,1547
+1,18,-60
+1,-480,1850
+2,-1041,984
+2,1810,-2735
+1,-918,1876
+1,1397,-3414
+2,-221,-80
+1,-352,1696
+2,-1318,2072
+1,-580,601
+2,2528,-4229
+3,-2591,3560
+1,-176,90
+1,685,325
+1,-244,357
+1,1316,-1991
+1,360,-724
+1,140,-125
+1,-801,1509
+2,518,-1298
+3,-2288,1977
+1,765,-21
+2,-115,-118
+1,2199,-3595
+1,-779,2549
+1,-1150,1182
+1,1421,-2045
+2,645,-1524
+1,-176,-279
+1,-786,2797
+1,-1510,1845
+1,-98,-927
+1,2584,-3388
+1,10,-376
+1,-1390,3240
+1,1462,-2962
+1,-1998,3630
+1,1714,-3680
+1,-751,2476
+2,306,-1083
+1,-1908,3005
+1,1368,-1562
+1,699,-1327
+1,-783,1017
+1,-842,1679
+1,1932,-4251
+1,85,94
+2,-1182,3108
+1,1130,-3321
+1,-825,2407
+1,-1608,2067
+1,-460,-524
+1,846,391
+1,57,-38
+2,33,-60
+1,-774,-92
+1,200,378
+1,1482,-1295
+1,-944,1159
+1,-160,25
+1,1645,-2716
+1,-1608,2810
+2,-365,-124
+1,2060,-2792
+3,-54,88
+1,-772,1640
+1,852,-1891
+1,-95,18
+1,-573,1637
+2,439,-1181
+1,627,-1957
+1,-554,1650
+2,-35731,-12734
+14,35640,12907
+1,-26,1
+1,-19,22
+1,19,31
+1,65,-31
+1,-13,-118
+1,4,63
+1,-11,-44
+1,-25,171
+1,9,-60
+3,-27,118
+1,-1,-135
+22,9,13
+2,3,-49
+3,31,-77
+4,153,-113
+1,-143,170
+1,15,-7
+1,-3,-57
+3,80,202
+47,-7984,302492
+3,25,68
+2,-104,-107
+1,-108,-19
+1,16,54
+11,74,-86
+1,211,221
+21,1620,876
+1,-1035,-541
+1,858,408
+49,29980,-266225
+1,250,-2190
+1,264,-71
+1,-249,416
+1,236,-355
+1,35,-52
+1,-83,-15
+1,17,69
+1,-37,469
+2,-36,296
+2,-166,-631
+1,422,879
+1,-226,-744
+1,635,-730
+1,-879,894
+1,725,-443
+1,-416,621
+1,-259,-648
+1,162,1718
+1,-38,-1199
+1,-143,119
+1,340,-239
+2,-439,-498
+1,281,345
+1,-98,786
+1,12,994
+1,210,-1620
+1,101,832
+1,-432,-1185
+1,21,2202
+1,209,-2102
+1,5,-39
+2,-347,1697
+1,28,-1531
+1,376,1940
+1,146,-769
+1,-197,-208
+1,-212,-941
+3,112,1
+3,694,-439
+1,-643,1102
+1,303,1091
+1,215,-2139
+2,-61,38
+1,133,-44
+1,-600,769
+1,439,-811
+1,-796,2217
+1,548,-400
+2,-21,-1217
+2,-166,-393
+1,-140,1461
+1,634,-1935
+1,-251,2591
+2,-284,-1345
+1,28,-679
+2,-44,-102
+1,-174,-55
+7,342,-65
+2,2,500
+6,-33,-137
+3,-19,85
+12,-336,-786
+1,699,-713
+1,344,243
+3,-479,563
+1,-94,-751
+1,-286,212
+1,464,480
+1,154,-756
+1,-607,756
+1,-10,-681
+1,233,833
+1,-320,-34
+1,89,50
+1,304,-139
+1,51,-170
+1,-74,-579
+1,-86,694
+2,732,-760
+1,-1043,155
+1,283,850
+1,125,29
+1,94,-270
+2,-417,105
+1,-34,-170
+2,495,-657
+1,4,115
+1,-387,837
+1,365,-26
+1,-227,-958
+1,-263,9
+1,432,41
+1,-411,973
+1,685,-761
+2,-552,843
+1,155,-871
+3,235,434
+1,101,-649
+1,281,41
+1,-439,25
+1,-325,626
+1,-248,-679
+52,396,1251
+1,-27,44
+1,122,-94
+1,-86,64
+1,2,-28
+1,-38,104
+2,47,-81
+1,2,-5
+1,14,-53
+1,41,100
+1,-42,-6
+1,-6,43
+1,-24,-44
+1,1,47
+1,-1,38
+1,83,-136
+1,-21,94
+1,-122,-98
+1,97,139
+1,-54,-170
+1,-57,114
+1,0,-161
+1,-34,-19
+1,97,26
+2,41,93
+2,5,-133
+1,9,305
+1,130,-319
+1,-159,180
+1,-14,142
+3,-32,-10
+3,7,-178
+19,23,15
+8,-30,117
+1,-75,-55
+34,-456,-393
+1,-49,-58
+1,127,40
+1,-23,-88
+1,9,183
+1,-173,-166
+4,33,120
+7,26,69
+4,-249,-234
+1,-25,122
+2,-289,-610
+1,495,776
+1,-196,-814
+1,-262,718
+2,-5,658
+1,277,-970
+1,-85,-21
+2,-95,-13
+2,170,414
+1,-281,29
+2,578,-488
+3,-116,-704
+1,-80,2164
+1,-164,-1872
+1,294,285
+1,-457,887
+1,357,200
+1,309,-1280
+1,-695,537
+2,275,1134
+1,157,-1141
+1,-66,101
+3,-217,207
+2,221,-1005
+1,59,1426
+2,-62,-82
+1,29,-844
+1,283,569
+2,-63,-1230
+1,-328,-44
+1,-90,-17
+1,334,74
+1,110,71
+1,-265,-154
+1,-195,581
+1,426,285
+2,67,415
+1,-365,1
+1,294,177
+1,-489,-1377
+1,-33,872
+1,620,-320
+2,-299,-507
+1,153,1209
+2,-140,-2
+1,-8,103
+1,75,-104
+1,-507,-3
+2,521,-1291
+1,-347,928
+1,-177,-773
+1,229,-21
+1,211,954
+2,-397,-1086
+2,706,467
+5,-1037,469
+1,-20,-151
+1,-13,179
+1,70,-81
+1,-151,-23
+1,-1338,-865
+2,1527,963
+2,-1341,-61
+1,257,-1228
+1,1146,799
+1,-151,1602
+1,-1086,-2210
+1,-830,23
+1,899,438
+1,-97,480
+2,1241,-198
+1,-834,-693
+3,-161,-68
+1,561,1121
+2,152,23
+3,-931,-24
+1,1187,-658
+1,-285,871
+1,-766,-588
+2,517,726
+1,69,-625
+1,-47,-259
+1,456,200
+1,-155,705
+1,130,-1345
+2,-322,-139
+1,-972,741
+1,470,421
+1,-810,-1323
+2,1821,1272
+1,-983,555
+1,933,-779
+1,-648,-762
+1,-654,-334
+1,944,1068
+1,21,557
+1,106,-1100
+1,238,1031
+1,-249,-101
+1,374,-435
+1,-1278,126
+1,-16,-780
+1,435,-174
+2,614,677
+1,-611,88
+1,254,1031
+2,-977,-1958
+1,85,260
+1,890,177
+2,-816,490
+1,328,176
+1,-32,-246
+2,475,-427
+3,-852,-488
+1,1216,1391
+1,31,170
+1,-685,-354
+1,724,-637
+1,-1013,267
+3,-181,720
+2,418,-682
+1,637,141
+1,140,970
+1,-18,-190
+1,-103,-998
+2,-205,1089
+1,102,-1507
+1,-574,695
+1,-50,14
+1,-215,-159
+1,-400,48
+1,1607,-584
+1,-681,772
+2,-1306,340
+1,123,-49
+1,196,22
+1,-277,127
+16,-158,285
+2,464,78
+1,-530,-1211
+1,363,997
+1,-36,-412
+1,105,-278
+1,-155,-49
+3,-241,275
+1,70,-533
+1,308,-11
+2,-499,-43
+1,249,887
+1,514,317
+1,-229,-651
+1,-239,-522
+1,262,882
+1,-383,-31
+1,583,72
+2,-399,-815
+1,-170,260
+57,236,1226
+2,-310,409
+1,845,-542
+16,-702,2303
+1,231,-1381
+1,-116,278
+1,-192,-306
+1,349,-537
+1,-233,266
+1,410,-430
+1,-655,-58
+3,236,1684
+2,-270,-1017
+1,-2,-158
+1,100,-239
+1,-204,1508
+1,728,-284
+1,-185,618
+1,677,-1060
+1,-721,-472
+1,557,956
+1,302,4
+60,710,-502
+1,-15,-176
+1,193,-173
+4,-350,-109
+2,72,-367
+1,-1755,3320
+1,2563,-2129
+1,-928,262
+8,-191,1510
+1,-1061,450
+1,481,-281
+8,1516,-2918
+1,-1433,-210
+1,395,3531
+1,-65,-3602
+1,1111,591
+1,-1141,343
+1,-716,2090
+1,826,-2859
+1,-16,2605
+1,188,-2332
+2,986,449
+9,176,749
+1,-702,510
+1,-1,-421
+1,67,-785
+1,-69,471
+2,152,-677
+2,-829,1421
+1,1038,-2007
+1,-105,532
+1,476,-49
+40,810,2471
+9,1,428
+2,-97,-1854
+1,278,1722
+1,-1057,745
+3,-67,-823
+1,1035,-1170
+1,-1278,2013
+1,-342,-1432
+3,1107,-1002
+1,103,2441
+1,-969,-1740
+1,1279,264
+1,-48,1374
+1,-81,711
+2,-568,-3036
+3,-33,2110
+1,96,841
+1,869,-1540
+1,-578,-703
+1,-801,1413
+1,1331,-1226
+1,-278,-319
+1,-717,2666
+1,612,-999
+1,143,1140
+1,-106,-3081
+1,379,332
+1,-1470,645
+1,864,1789
+2,-556,-2466
+2,587,1425
+6,-532,-962
+1,582,1595
+2,166,-909
+3,397,116
+2,-1117,-1155
+1,-344,291
+2,617,1187
+1,331,-861
+1,-1011,220
+1,390,1447
+3,-660,-1808
+1,630,-853
+1,1057,699
+1,-293,1121
+1,-711,-368
+3,278,-487
+2,818,-467
+1,-778,1698
+1,-674,-570
+1,1195,712
+1,152,-762
+15,-2213,1174
+1,-676,-396
+1,1359,-104
+1,-378,-892
+1,688,1025
+1,-1117,-347
+1,955,466
+1,-180,-585
+1,-29,552
+1,-1356,-130
+1,1021,-546
+2,-242,777
+1,478,198
+3,-563,-1044
+1,414,734
+2,103,-360
+81,3244,-4514
+1,-2,49
+1,-3,-99
+1,313,109
+1,-5,37
+1,-60,16
+1,61,8
+1,-7,33
+2,-291,112
+1,441,-200
+1,84,0
+2,-141,354
+5,37,-89
+1,64,-440
+1,-8,166
+1,-624,523
+1,142,-678
+1,262,464
+1,-139,-53
+1,404,-382
+1,-324,341
+1,236,-254
+1,-192,235
+1,-191,-186
+1,39,6
+1,-14,-65
+1,284,63
+1,40,-20
+2,94,-66
+1,29,-5
+1,-420,327
+1,216,-282
+1,-71,9
+2,-200,114
+1,430,-186
+2,-317,620
+2,-217,-564
+3,287,307
+1,-201,59
+1,336,-239
+1,-13,105
+2,-222,-185
+1,66,11
+1,-41,-30
+1,-31,93
+1,53,-4
+6,103,350
+3,-165,406
+2,-25,-1099
+2,354,342
+2,-138,87
+1,-37,7
+2,166,-23
+10,108,-207
+5,-570,141
+9,321,-210
+1,23,12
+1,49,-14
+1,-83,6
+1,60,47
+1,-116,-65
+1,124,-28
+1,-133,72
+1,96,-40
+1,16,-189
+2,-9,247
+3,48,4
+1,-110,-113
+1,112,11
+1,-146,117
+1,95,-101
+2,-22,19
+1,-5,55
+3,107,-5
+1,-168,-73
+7,191,31
+1,-159,5
+2,-44,-54
+8,49,100
+2,-86,-69
+2,-55,35
+6,161,-8
+1,148,34
+3,-304,-8
+6,156,-24
+2,-154,-21
+2,38,53
+6,115,-35
+3,137,-36
+1,-243,126
+10,-52,-27
+7,207,-36
+3,-263,-7
+1,260,-91
+2,343,220
+2,-52,-48
+1,-39,-22
+3,84,32
+1,-87,37
+12,785,-8
+1,-231,-409
+1,117,-213
+1,-354,863
+1,-488,390
+1,1029,-942
+1,39,74
+3,-91,34
+1,247,-307
+2,-389,295
+1,-63,64
+2,-38,115
+1,-515,-182
+1,586,702
+1,-198,-634
+1,-138,-309
+1,750,33
+1,-744,1481
+2,410,-1867
+1,159,1097
+1,-104,-1002
+2,228,598
+1,-31,-309
+1,-852,80
+1,540,-543
+1,-642,1480
+1,150,-108
+1,22,-858
+2,440,580
+1,-702,585
+1,584,-1105
+1,-372,431
+2,2,-372
+1,446,-431
+1,215,203
+1,-173,615
+1,426,-389
+2,24,420
+1,-584,769
+3,-333,-881
+1,33,-91
+1,-232,353
+1,545,-491
+1,-54,231
+1,-436,-157
+1,1015,-19
+1,-606,-306
+1,19,-47
+1,295,-144
+1,-40,-60
+1,389,-181
+1,-772,560
+1,588,1195
+1,-254,-831
+2,22,-823
+2,-948,1632
+2,334,-653
+2,271,-326
+2,-388,539
+1,1145,-429
+1,-1142,94
+1,861,-926
+6,-1552,345
+1,-265,945
+1,1139,-2499
+5,-434,1619
+1,37,-25
+1,-61,-120
+2,-4,123
+1,163,-77
+5,-29,-340
+1,-543,984
+2,-173,87
+2,987,-775
+1,192,-1741
+1,-1053,1839
+1,-248,498
+1,503,-580
+1,-604,591
+1,989,-2028
+1,-374,1585
+1,-114,-51
+2,39,23
+1,-699,546
+1,963,-561
+1,-527,362
+1,994,-469
+1,-118,175
+2,-155,60
+3,-55,-113
+1,126,97
+3,-556,-231
+1,636,-1864
+1,-706,1848
+2,339,281
+1,-287,176
+1,-548,277
+1,-122,-231
+1,1752,-2364
+1,-289,1948
+1,-614,112
+1,-380,422
+1,-513,648
+1,1492,-1824
+1,-26,-494
+1,-150,1237
+1,31,-115
+1,-344,124
+1,-79,-89
+1,579,-161
+2,-287,201
+1,-555,306
+1,8,57
+1,-59,-61
+1,-19,60
+1,-25,-63
+1,743,-525
+1,-1338,1033
+3,1093,-1060
+1,687,-1578
+1,-266,1351
+1,-360,387
+2,-525,624
+2,-77,-294
+1,148,-295
+2,2,453
+1,-34,65
+1,555,-400
+2,-412,-224
+2,-210,790
+6,144,-444
+1,12,-15
+1,-57,47
+1,37,-60
+1,18,-41
+1,28,-5
+1,-95,71
+1,16,-28
+7,50,-7
+2,-40,36
+3,38,46
+1,29,8
+2,-55,38
+6,-118,-215
+3,-25,-39
+5,43,116
+1,-4,-10
+4,74,129
+1,-53,-76
+1,-15,44
+1,-5,29
+1,13,-68
+18,106,-93
+1,-22,-1
+1,-26,-30
+31,-43,10
+1,6,52
+2,-187,-370
+1,102,-149
+1,-58,231
+2,50,-180
+1,35,103
+6,-155,-177
+1,40,315
+3,106,-52
+4,-110,-1044
+4,378,993
+2,107,-1158
+1,-878,82
+1,851,1016
+2,-637,21
+1,-67,-27
+1,-117,-151
+1,35,657
+2,443,-1721
+1,91,13
+1,-388,523
+1,-324,435
+1,155,-127
+2,423,-117
+1,-528,665
+2,206,-302
+2,582,113
+1,-537,-1124
+1,757,864
+2,-428,-749
+2,203,-24
+3,217,884
+1,-647,-78
+1,157,-129
+1,-107,710
+1,23,-767
+1,351,-96
+2,-72,-777
+1,-27,590
+1,-762,1190
+1,129,-487
+1,829,-1063
+2,-544,669
+1,128,-842
+1,-360,1492
+1,571,-1547
+1,-661,870
+3,913,-473
+1,-607,1153
+1,-205,-962
+2,146,485
+1,199,615
+1,-628,-559
+1,165,443
+1,477,-861
+1,239,335
+1,-667,707
+1,-28,-1395
+1,778,-313
+1,124,1120
+1,-614,238
+1,-122,-1201
+1,-269,1249
+1,892,-329
+1,-931,66
+2,494,-1098
+1,-405,1155
+1,352,460
+4,-906,55
+1,-69,1158
+1,187,-1135
+1,-250,-96
+1,-29,847
+1,-48,-792
+1,-87,76
+2,430,-486
+1,-297,847
+1,530,-882
+1,-55,-386
+1,-496,2315
+1,529,-2948
+2,-208,1737
+1,-435,1049
+2,332,-134
+1,-102,489
+1,530,-2765
+2,-600,2051
+1,538,-2472
+1,-226,1395
+1,60,-204
+2,-323,1707
+1,28,-1552
+2,511,-1403
+1,-183,959
+3,-455,1877
+3,644,-2576
+1,-754,1796
+1,992,-2077
+1,-61,1
+1,-768,1340
+1,489,-952
+1,27,-399
+1,13,1293
+2,-17,-641
+1,-609,1455
+1,610,-586
+1,-369,1000
+1,-207,-52
+9,-79,-1135
+1,-21,94
+1,49,48
+1,-34,-85
+1,-35,85
+1,62,-76
+5,182,1507
+1,-254,-1129
+1,210,803
+1,-139,520
+1,270,-1714
+1,-77,344
+7,-201,-161
+1,-70,-27
+1,28,-5
+1,84,-178
+1,8,71
+115,1709,2277
+1,60,181
+9,242,-210
+1,397,568
+1,-125,189
+1,189,-678
+1,-666,-185
+1,526,148
+1,-263,338
+2,792,168
+2,-1032,-738
+1,427,-59
+1,-641,988
+1,-269,-232
+2,714,-976
+1,1073,1091
+1,-1546,-426
+1,987,372
+1,-416,272
+1,56,-602
+1,-606,1108
+1,1438,-1479
+1,-649,441
+2,-648,-372
+1,-325,1122
+3,1145,-198
+1,88,225
+2,-640,-798
+1,1187,859
+1,-1488,-707
+1,576,-36
+1,-591,-647
+1,-255,775
+1,1372,433
+1,-1136,-629
+1,9,607
+1,951,-1238
+1,-899,1388
+2,1209,29
+1,-332,-1011
+1,-1353,1239
+1,688,-864
+1,1120,934
+1,-1334,-160
+2,1135,-1107
+39,-1934,-117
+1,-67,-196
+1,-68,-406
+5,110,159
+13,-209,465
+1,795,-548
+1,-560,148
+2,617,-561
+1,-295,923
+4,-719,463
+2,64,-264
+1,70,-482
+1,578,219
+1,-849,345
+1,401,-91
+1,260,-1061
+1,-405,1129
+1,113,-374
+1,861,-568
+1,-137,39
+1,-424,335
+1,383,-300
+1,-677,1293
+2,561,-1084
+1,-380,-53
+1,-450,440
+2,577,398
+1,-359,-543
+1,-106,-303
+1,92,584
+48,1197,2647
+2,278,311
+1,-498,-325
+1,425,237
+1,107,-143
+2,-448,-427
+1,523,681
+2,-407,-396
+1,-238,457
+1,500,-644
+1,-320,238
+2,36,476
+1,-413,-766
+1,108,735
+1,345,77
+1,-74,-422
+1,287,310
+1,-250,-522
+1,-35,564
+2,229,70
+1,7,-559
+1,-91,506
+2,-3,-702
+1,-229,717
+1,-64,-217
+1,-87,-704
+1,-96,936
+1,655,-664
+2,-366,490
+1,117,72
+2,-299,-31
+1,560,-773
+61,418,67
+1,-1524,687
+1,944,-1674
+2,-779,851
+4,1335,374
+1,-284,118
+1,-1152,130
+2,-272,255
+1,2071,-540
+1,-981,-1642
+1,341,442
+1,-366,366
+1,1248,-68
+1,-388,1323
+2,427,-1154
+1,-1248,262
+1,198,-848
+1,115,101
+1,-1040,1207
+1,1769,-225
+2,-1632,891
+1,913,-1076
+1,-1012,971
+1,1299,-909
+2,-288,-1041
+1,-559,839
+1,210,-794
+1,-986,1142
+1,1473,-167
+1,83,-275
+1,486,1138
+1,-606,-1393
+1,606,478
+2,-1951,320
+1,602,-642
+2,1589,192
+1,-1098,-164
+1,248,891
+1,-882,103
+1,1581,-1143
+1,-142,550
+1,173,661
+1,74,234
+1,-1520,-1190
+1,920,-650
+1,-150,1816
+1,757,-606
+1,-1785,556
+1,194,-1526
+1,1542,465
+1,-1965,1153
+2,-174,-70
+3,1879,-1449
+1,-197,533
+2,-1292,-244
+1,133,981
+1,-155,-257
+2,943,-204
+1,-1034,501
+2,85,-55
+3,-597,286
+1,1810,-180
+1,-160,-460
+4,-418,-945
+16,-65,1274
+1,-5,58
+1,-27,-24
+1,17,-24
+1,50,-18
+1,-69,190
+1,61,-134
+1,97,-63
+4,-121,145
+4,21,90
+1,55,-44
+1,18,-148
+5,-162,91
+1,51,-217
+27,106,117
+7,-88,16
+43,-1288,-1550
+19,-53,-554
+1,534,-387
+1,-912,-263
+1,243,1284
+1,-146,487
+2,625,-457
+2,-393,971
+1,-137,-276
+1,356,-883
+3,202,891
+2,-50,-301
+1,-433,-736
+1,-162,78
+1,122,-176
+3,733,632
+2,-310,-523
+1,225,-7
+1,-888,-483
+1,97,352
+1,396,1724
+1,-24,-856
+1,328,-1266
+1,-589,-36
+2,104,446
+1,68,-97
+1,18,89
+2,-503,-1061
+1,1062,698
+2,-378,1500
+1,-422,-506
+1,146,525
+1,-136,-171
+1,-55,-571
+8,739,553
+30,-698,1082
+1,134,-101
+1,155,61
+98,14844,-32568
+1,-56,-139
+1,880,-8177
+1,-853,8567
+1,94,-47
+1,-13,-153
+1,-157,191
+1,86,-202
+5,14,-68
+2,-99,-4
+1,-37,180
+1,111,-229
+1,-30,54
+1,8857,55
+11,-8832,-154
+10,-175,666
+6,-9154,-27351
+1,367,2466
+1,4049,15414
+1,693,203
+1,902,5730
+1,3054,-8546
+1,-14,181
+1,-6790,-4610
+1,8594,1181
+1,-3422,5986
+1,545,7088
+1,1635,-3639
+1,1163,-5000
+1,-1859,-1656
+2,-621,-2381
+2,1398,-1104
+1,-5255,6963
+1,9,-107
+1,4967,15894
+1,28,-6415
+1,-1027,-1584
+1,-1467,-7924
+2,-3539,-4276
+1,5264,12852
+1,1039,4283
+1,-451,-1937
+1,679,-10474
+1,-2436,-742
+1,1813,9539
+1,-958,-12758
+1,-1991,4585
+1,1121,-30
+1,3476,-7221
+2,-7934,1300
+2,6984,1347
+1,819,17823
+1,-1725,-4639
+1,1742,2158
+1,-3471,-14860
+1,3659,1466
+1,-6295,-9568
+11,5584,9822
+1,-2646,8672
+1,1970,-14924
+1,-640,16639
+1,-1132,-5430
+1,1803,-5447
+1,-3949,5986
+1,3273,-8174
+1,-583,11264
+1,554,549
+1,-5750,-11593
+1,3986,6939
+1,866,-8684
+1,-2254,10683
+5,5346,-10158
+1,-2236,2106
+1,-915,-1746
+1,1561,13254
+1,-3950,-3930
+1,1579,-3048
+1,2449,-3454
+1,2032,5779
+1,-4809,-4339
+2,1630,-7353
+1,226,16630
+1,1516,-14027
+1,-3327,6779
+1,1894,-5129
+1,390,9012
+1,-1584,-4306
+1,1045,-7798
+1,-7522,-3612
+1,6977,17211
+1,734,-4064
+1,163,-6893
+2,-3663,9135
+1,691,948
+1,3714,3400
+2,-1745,-5089
+1,-3945,-5085
+1,1571,1870
+1,4438,-5599
+1,-2990,1138
+1,2563,11771
+1,-1359,-4364
+1,1448,4917
+1,-1863,-12464
+1,2123,4530
+1,-137,-4321
+1,364,-1571
+1,1366,1115
+1,-6279,-8189
+1,-1917,9614
+1,6580,-4874
+1,-2441,13958
+1,733,2124
+1,2533,-10034
+1,-226,-5611
+1,-743,13006
+1,-44,-4963
+1,-1294,6085
+1,-1684,-5976
+1,4797,-5266
+1,-2903,11499
+2,1021,2699
+1,1392,-8022
+1,-412,6478
+1,-1677,2937
+1,-1631,-13804
+1,1841,-464
+1,-759,-1727
+1,262,-2464
+1,584,13944
+1,1224,776
+1,1658,-9798
+1,-10200,-6278
+1,7170,20332
+2,844,-3468
+1,-2402,10201
+1,977,-25416
+1,2267,11252
+1,-8845,-12962
+1,6967,18511
+1,769,-1793
+1,-5702,-9666
+6,11457,9765
+1,-2724,2676
+1,184,-571
+1,-547,-1579
+1,486,1934
+1,-764,2586
+1,1145,-1571
+2,-278,-1896
+3,182,2223
+2,-678,-605
+6,2183,-6237
+1,1586,1071
+1,15,6296
+1,3089,-11397
+1,-4936,10003
+1,-1457,-1229
+1,1894,-3391
+1,-778,-9724
+2,-2733,13161
+1,2405,2363
+2,-1570,3643
+1,1760,-2203
+1,4584,-5125
+2,-4354,-13465
+1,-2625,17469
+1,1706,2642
+1,-182,-20173
+1,2669,18147
+1,-2896,-12193
+1,-988,-14815
+1,174,21700
+1,404,935
+1,1721,-5180
+1,-346,-2078
+1,4412,12624
+1,-5804,-15092
+1,2665,-1653
+1,764,-4098
+1,-820,7626
+1,364,-4281
+1,-2346,40
+1,-39,3451
+1,-1147,8483
+1,946,-2001
+1,-911,-1250
+1,1362,3090
+1,4585,-13462
+1,-5320,13684
+1,3204,-13908
+1,-2882,-1597
+1,2089,3620
+1,-4143,19212
+1,2046,-16308
+1,3546,-7855
+1,-2778,15833
+1,-239,-3414
+1,-1580,-16916
+1,2931,10385
+1,-2255,-1098
+1,1485,-4705
+1,1040,8751
+1,-857,8070
+1,-1167,1245
+1,-1528,4348
+1,1855,-8568
+1,68,-14297
+2,-1613,24841
+1,3830,-4554
+1,3179,-13874
+1,-5036,-8139
+1,-929,4672
+1,660,-3103
+1,1748,8622
+2,-444,14098
+1,3566,-7201
+1,-4754,2883
+1,5022,-9218
+10,-12108,23147
+19,-995,-101
+4,887,-121
+1,-177,-1888
+1,324,479
+1,409,-402
+2,-796,903
+1,-1254,1218
+2,1195,-1981
+1,-1126,2884
+2,120,-1850
+1,-712,385
+4,3312,-686
+1,-1604,-179
+9,532,33
+51,-2832,4152
+2,78,-773
+15,183,-591
+1,-271,200
+2,-131,-206
+1,-207,-345
+1,693,3010
+2,-451,-2909
+1,-412,1476
+1,1194,-2136
+2,-111,1682
+`;
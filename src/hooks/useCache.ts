@@ -1,5 +1,5 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import type { CacheStatus, CacheEntry, PropertiesCacheData, BuyersCacheData, MatchesCacheData, CacheKey } from '@/types/cache';
+import type { CacheStatus, CacheEntry, PropertiesCacheData, BuyersCacheData, MatchesCacheData, CacheKey, CacheSyncResult } from '@/types/cache';
 
 const CACHE_API_BASE = '/api/cache';
 
@@ -71,7 +71,7 @@ export const useSyncCache = () => {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (cacheKey: CacheKey | 'all' = 'all') => {
+    mutationFn: async (cacheKey: CacheKey | 'all' = 'all'): Promise<CacheSyncResult> => {
       const response = await fetch(`${CACHE_API_BASE}?action=sync&cacheKey=${cacheKey}`, {
         method: 'POST',
       });
@@ -127,6 +127,7 @@ export const useMatchingData = () => {
     isStale: status.data?.isStale || false,
     newPropertiesAvailable: status.data?.newPropertiesAvailable || 0,
     newBuyersAvailable: status.data?.newBuyersAvailable || 0,
+    changes: status.data?.changes,
 
     // Data
     properties: properties.data?.data?.records || [],
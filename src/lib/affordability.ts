@@ -1,54 +1,294 @@
 /**
  * Affordability Calculation Utility
- * Calculates maximum affordable property price based on buyer's down payment
+ * Calculates the most a buyer can pay for a property, from their cash on hand,
+ * income and debts, under the terms of the deal type they're buying with
  *
- * Formula:
- * - Fixed costs: $8,310 (other) + $1,990 (fees) = $10,300
- * - Entry factor: 20% down + 1% closing + 1.6% points (80% of 2%) = 22.6%
- * - Max price = ((downPayment - fixed) / entry factor) + $15,000 buffer
- * - Round to nearest $1,000
+ * Three constraints cap the price; the lowest one binds:
+ * - Down payment: cash must cover fixed costs plus the deal type's entry factor
+ *   (down payment + closing + points as a share of price), plus a $15,000 buffer
+ * - Front-end DTI: the housing payment (principal, interest, taxes, insurance)
+ *   must fit within a share of gross monthly income
+ * - Back-end DTI: the housing payment plus existing monthly debts must fit
+ *   within a larger share of gross monthly income
+ *
+ * Max price is rounded to the nearest $1,000. Without income on file, only the
+ * down payment constraint applies.
+ */
+
+// ============ DEAL TYPE TERMS ============
+
+/**
+ * Financing terms a buyer is assumed to get for a deal type
+ */
+export interface DealTypeTerms {
+  label: string;
+  fixedCosts: number;        // Flat costs due at closing (fees, title, etc.)
+  downPaymentPct: number;    // Minimum down payment (or option fee) as a share of price
+  closingPct: number;        // Closing costs as a share of price
+  pointsPct: number;         // Points paid by the buyer as a share of price
+  interestRate: number;      // Annual rate, percent
+  termYears: number;
+  frontEndDti: number;       // Max housing payment / gross income
+  backEndDti: number;        // Max (housing payment + debts) / gross income
+}
+
+/**
+ * Default terms - a conventional purchase, matching the original down payment
+ * formula ($8,310 costs + $1,990 fees, 20% down, 1% closing, 80% of 2% points)
+ */
+export const DEFAULT_DEAL_TYPE_TERMS: DealTypeTerms = {
+  label: 'Traditional',
+  fixedCosts: 10300,
+  downPaymentPct: 0.20,
+  closingPct: 0.01,
+  pointsPct: 0.016,
+  interestRate: 7.5,
+  termYears: 30,
+  frontEndDti: 0.31,
+  backEndDti: 0.43,
+};
+
+/**
+ * Terms for creative deal types, keyed by the buyer's Deal Type
+ * Seller financing takes less down and allows higher ratios than a bank,
+ * at a higher rate. Deal types not listed use DEFAULT_DEAL_TYPE_TERMS.
+ */
+export const DEAL_TYPE_TERMS: Record<string, DealTypeTerms> = {
+  'Lease Option': {
+    label: 'Lease Option',
+    fixedCosts: 1500,
+    downPaymentPct: 0.05,    // Option fee
+    closingPct: 0,
+    pointsPct: 0,
+    interestRate: 8.5,       // Rent is set to cover a note at roughly this rate
+    termYears: 30,
+    frontEndDti: 0.35,
+    backEndDti: 0.50,
+  },
+  'Wrap': {
+    label: 'Wrap',
+    fixedCosts: 10300,
+    downPaymentPct: 0.10,
+    closingPct: 0.01,
+    pointsPct: 0,
+    interestRate: 9,
+    termYears: 30,
+    frontEndDti: 0.35,
+    backEndDti: 0.50,
+  },
+  'Bond for Deed': {
+    label: 'Bond for Deed',
+    fixedCosts: 3000,
+    downPaymentPct: 0.10,
+    closingPct: 0.01,
+    pointsPct: 0,
+    interestRate: 9.5,
+    termYears: 30,
+    frontEndDti: 0.35,
+    backEndDti: 0.50,
+  },
+};
+
+/**
+ * Terms for a buyer's Deal Type (case-insensitive), falling back to the defaults
  */
+export function getDealTypeTerms(dealType?: string | null): DealTypeTerms {
+  if (!dealType) return DEFAULT_DEAL_TYPE_TERMS;
+  const key = Object.keys(DEAL_TYPE_TERMS).find((k) => k.toLowerCase() === dealType.trim().toLowerCase());
+  return key ? DEAL_TYPE_TERMS[key] : DEFAULT_DEAL_TYPE_TERMS;
+}
+
+// ============ AFFORDABILITY MODEL ============
+
+/** Extra room above the down payment cap, for seller concessions and negotiation */
+const PRICE_BUFFER = 15000;
+
+/** Estimated annual property tax, percent of price */
+export const DEFAULT_TAX_RATE = 1.8;
+
+/** Estimated annual homeowner's insurance, percent of price */
+export const DEFAULT_INSURANCE_RATE = 0.6;
+
+export interface AffordabilityInputs {
+  downPayment?: number | null;         // Cash available, including closing costs
+  monthlyIncome?: number | null;       // Gross monthly income
+  monthlyLiabilities?: number | null;  // Existing monthly debt payments
+  dealType?: string | null;
+  taxRate?: number;                    // Annual, percent of price
+  insuranceRate?: number;              // Annual, percent of price
+}
+
+export type AffordabilityConstraint = 'down-payment' | 'front-end-dti' | 'back-end-dti';
+
+export interface AffordabilityResult {
+  terms: DealTypeTerms;
+  maxPrice: number | null;               // Null when the buyer can't afford any price
+  maxMonthlyPayment: number | null;      // Housing payment (PITI) the buyer can carry
+  bindingConstraint: AffordabilityConstraint;
+  explanation: string;
+  priceLimits: Record<AffordabilityConstraint, number | null>; // Price cap from each constraint, null if not applied
+}
 
 /**
- * Calculate maximum affordable price based on down payment
+ * Monthly principal and interest per dollar borrowed
+ */
+function amortizationFactor(annualRate: number, termYears: number): number {
+  const monthlyRate = annualRate / 100 / 12;
+  const payments = termYears * 12;
+  if (monthlyRate === 0) return 1 / payments;
+  return (monthlyRate * Math.pow(1 + monthlyRate, payments)) / (Math.pow(1 + monthlyRate, payments) - 1);
+}
+
+function roundToThousand(value: number): number {
+  return Math.round(value / 1000) * 1000;
+}
+
+function formatDollars(value: number): string {
+  return `$${Math.round(value).toLocaleString('en-US')}`;
+}
+
+/**
+ * Estimate the monthly housing payment (PITI) for a property
+ * The buyer puts the deal type's minimum down, or all of their cash after
+ * closing costs if that's more.
  *
- * @param downPayment - Buyer's available down payment
- * @returns Maximum affordable property price (rounded to nearest $1,000)
+ * @param price - Property price
+ * @param inputs - Buyer's cash and deal type (income is not used)
+ * @returns Principal, interest, taxes and insurance per month
  *
  * @example
- * calculateMaxAffordablePrice(50000)  // Returns ~$175,000
- * calculateMaxAffordablePrice(100000) // Returns ~$397,000
+ * estimateMonthlyPayment(200000, { dealType: 'Wrap' }) // ~$1,848
  */
-export function calculateMaxAffordablePrice(downPayment: number): number {
-  // Fixed costs
-  const fixedOther = 8310;  // Red-box costs (no closing)
-  const feesFixed = 1990;   // Loan fees
+export function estimateMonthlyPayment(price: number, inputs: AffordabilityInputs = {}): number {
+  const terms = getDealTypeTerms(inputs.dealType);
+  const taxRate = inputs.taxRate ?? DEFAULT_TAX_RATE;
+  const insuranceRate = inputs.insuranceRate ?? DEFAULT_INSURANCE_RATE;
+
+  const upfrontCosts = terms.fixedCosts + price * (terms.closingPct + terms.pointsPct);
+  const downPayment = Math.max(price * terms.downPaymentPct, (inputs.downPayment || 0) - upfrontCosts);
+  const loanAmount = Math.max(0, price - downPayment);
+
+  const principalAndInterest = loanAmount * amortizationFactor(terms.interestRate, terms.termYears);
+  const taxesAndInsurance = (price * (taxRate + insuranceRate)) / 100 / 12;
+  return Math.round(principalAndInterest + taxesAndInsurance);
+}
+
+/**
+ * Calculate the most a buyer can afford and what limits it
+ *
+ * @param inputs - Buyer's cash, income, debts and deal type
+ * @returns Max price and payment, the binding constraint, and a plain-English explanation
+ *
+ * @example
+ * calculateAffordability({ downPayment: 50000, monthlyIncome: 6000, monthlyLiabilities: 800 })
+ * // { maxPrice: 191000, bindingConstraint: 'down-payment', ... }
+ */
+export function calculateAffordability(inputs: AffordabilityInputs): AffordabilityResult {
+  const terms = getDealTypeTerms(inputs.dealType);
+  const cash = inputs.downPayment || 0;
+  const income = inputs.monthlyIncome || 0;
+  const liabilities = inputs.monthlyLiabilities || 0;
+  const taxesAndInsuranceFactor = ((inputs.taxRate ?? DEFAULT_TAX_RATE) + (inputs.insuranceRate ?? DEFAULT_INSURANCE_RATE)) / 100 / 12;
+  const amortization = amortizationFactor(terms.interestRate, terms.termYears);
 
-  // Percentage costs
-  const dpPct = 0.20;       // 20% down payment
-  const closingPct = 0.01;  // 1% closing costs
-  const pointsPct = 0.02;   // 2% points
+  const noPrice = (
+    bindingConstraint: AffordabilityConstraint,
+    explanation: string,
+    maxMonthlyPayment: number | null = null
+  ): AffordabilityResult => ({
+    terms,
+    maxPrice: null,
+    maxMonthlyPayment,
+    bindingConstraint,
+    explanation,
+    priceLimits: { 'down-payment': null, 'front-end-dti': null, 'back-end-dti': null },
+  });
 
-  // Calculate entry factor (total percentage of price needed upfront)
-  const entryFactor = dpPct + closingPct + (pointsPct * 0.80); // = 0.226
+  // Down payment: cash after fixed costs covers the entry factor
+  const cashAfterFixed = cash - terms.fixedCosts;
+  if (cashAfterFixed <= 0) {
+    return noPrice(
+      'down-payment',
+      `Down payment of ${formatDollars(cash)} doesn't cover the ${formatDollars(terms.fixedCosts)} in fixed costs for a ${terms.label} deal`
+    );
+  }
+  const entryFactor = terms.downPaymentPct + terms.closingPct + terms.pointsPct;
+  const downPaymentLimit = cashAfterFixed / entryFactor + PRICE_BUFFER;
 
-  // Calculate total fixed costs
-  const fixedTotal = fixedOther + feesFixed; // = 10300
+  // DTI: the payment the buyer can carry, solved for price. Cash beyond the
+  // minimum down goes toward the loan, which is exact up to the down payment cap.
+  const frontEndPayment = income > 0 ? income * terms.frontEndDti : null;
+  const backEndPayment = income > 0 ? income * terms.backEndDti - liabilities : null;
+  const priceForPayment = (payment: number) =>
+    (payment + cashAfterFixed * amortization) /
+    (amortization * (1 + terms.closingPct + terms.pointsPct) + taxesAndInsuranceFactor);
 
-  // Calculate max price: (available funds after fixed costs) / entry factor + buffer
-  const maxPrice = ((downPayment - fixedTotal) / entryFactor) + 15000;
+  if (backEndPayment !== null && backEndPayment <= 0) {
+    return noPrice(
+      'back-end-dti',
+      `Monthly debts of ${formatDollars(liabilities)} already reach the ${Math.round(terms.backEndDti * 100)}% debt-to-income limit on ${formatDollars(income)}/mo income`,
+      0
+    );
+  }
 
-  // Round to nearest thousand
-  return Math.round(maxPrice / 1000) * 1000;
+  const priceLimits: Record<AffordabilityConstraint, number | null> = {
+    'down-payment': roundToThousand(downPaymentLimit),
+    'front-end-dti': frontEndPayment !== null ? roundToThousand(priceForPayment(frontEndPayment)) : null,
+    'back-end-dti': backEndPayment !== null ? roundToThousand(priceForPayment(backEndPayment)) : null,
+  };
+
+  let bindingConstraint: AffordabilityConstraint = 'down-payment';
+  for (const constraint of ['front-end-dti', 'back-end-dti'] as const) {
+    const limit = priceLimits[constraint];
+    if (limit !== null && limit < priceLimits[bindingConstraint]!) {
+      bindingConstraint = constraint;
+    }
+  }
+  const maxPrice = priceLimits[bindingConstraint]!;
+
+  // With income on file, the payment limit is the DTI room; otherwise it's
+  // the estimated payment at the max price
+  const maxMonthlyPayment = frontEndPayment !== null && backEndPayment !== null
+    ? Math.round(Math.min(frontEndPayment, backEndPayment))
+    : estimateMonthlyPayment(maxPrice, inputs);
+
+  let explanation: string;
+  if (bindingConstraint === 'down-payment') {
+    explanation = `Limited by down payment: ${formatDollars(cash)} covers ${Math.round(terms.downPaymentPct * 100)}% down plus costs on a ${terms.label} deal up to ${formatDollars(maxPrice)}`;
+    if (frontEndPayment === null) {
+      explanation += ' (no income on file, so payment limits weren\'t checked)';
+    }
+  } else if (bindingConstraint === 'front-end-dti') {
+    explanation = `Limited by income: a ${formatDollars(maxMonthlyPayment)}/mo housing payment is ${Math.round(terms.frontEndDti * 100)}% of ${formatDollars(income)}/mo income`;
+  } else {
+    explanation = `Limited by debts: ${formatDollars(liabilities)}/mo in debts leaves ${formatDollars(maxMonthlyPayment)}/mo for housing under a ${Math.round(terms.backEndDti * 100)}% debt-to-income limit`;
+  }
+
+  return { terms, maxPrice, maxMonthlyPayment, bindingConstraint, explanation, priceLimits };
+}
+
+/**
+ * Calculate maximum affordable price based on down payment alone
+ *
+ * @param downPayment - Buyer's available down payment
+ * @returns Maximum affordable property price (rounded to nearest $1,000)
+ *
+ * @example
+ * calculateMaxAffordablePrice(50000)  // Returns ~$191,000
+ * calculateMaxAffordablePrice(100000) // Returns ~$412,000
+ */
+export function calculateMaxAffordablePrice(downPayment: number): number {
+  return calculateAffordability({ downPayment }).maxPrice ?? 0;
 }
 
 /**
  * Validate if buyer has sufficient down payment for affordability calculation
- * Must cover at least the fixed costs ($10,300)
+ * Must cover at least the deal type's fixed costs ($10,300 by default)
  *
  * @param downPayment - Buyer's down payment amount
+ * @param dealType - Buyer's Deal Type
  * @returns True if down payment is sufficient
  */
-export function hasValidDownPayment(downPayment: number | undefined): boolean {
-  return !!downPayment && downPayment > 10300;
+export function hasValidDownPayment(downPayment: number | undefined, dealType?: string | null): boolean {
+  return !!downPayment && downPayment > getDealTypeTerms(dealType).fixedCosts;
 }
@@ -0,0 +1,52 @@
+/**
+ * Session token transport for /api/* requests
+ *
+ * Patches window.fetch once at startup so every same-origin API call carries
+ * `Authorization: Bearer <token>` from useAuthStore, without touching each
+ * service hook. A 401 from the API ends the local session.
+ */
+
+import { useAuthStore } from '@/store/useAuthStore';
+
+function isApiRequest(input: RequestInfo | URL): boolean {
+  const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+
+  if (url.startsWith('/api/')) return true;
+  try {
+    const parsed = new URL(url, window.location.origin);
+    return parsed.origin === window.location.origin && parsed.pathname.startsWith('/api/');
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Install the fetch wrapper (call once before rendering the app)
+ */
+export function installAuthFetch(): void {
+  if (typeof window === 'undefined') return;
+
+  const originalFetch = window.fetch.bind(window);
+
+  window.fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    if (!isApiRequest(input)) {
+      return originalFetch(input, init);
+    }
+
+    const { token } = useAuthStore.getState();
+    const headers = new Headers(init?.headers || (input instanceof Request ? input.headers : undefined));
+    if (token && !headers.has('Authorization')) {
+      headers.set('Authorization', `Bearer ${token}`);
+    }
+
+    const response = await originalFetch(input, { ...init, headers });
+
+    // Token expired or revoked - drop the local session so ProtectedRoute redirects to /auth
+    if (response.status === 401 && token) {
+      console.warn('[Auth] API rejected session token, logging out');
+      useAuthStore.getState().logout();
+    }
+
+    return response;
+  };
+}
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_BUY_BOXES, type BuyBoxes, type CalculatorInputs } from '@/types/calculator';
+import { calculateAll, calculateIRR, createDefaultInputs, normalizeBuyBoxes } from './calculatorEngine';
+
+function dealInputs(overrides: (inputs: CalculatorInputs) => void = () => {}): CalculatorInputs {
+  const inputs = createDefaultInputs({ address: '123 Main St', price: 150000 });
+  inputs.propertyBasics.arv = 220000;
+  inputs.propertyBasics.repairs = 20000;
+  inputs.income.monthlyRent = 1800;
+  overrides(inputs);
+  return inputs;
+}
+
+describe('calculateDealChecklist', () => {
+  it('derives the strategy from the inputs', () => {
+    expect(calculateAll(dealInputs()).dealChecklist.strategy).toBe('hold');
+    expect(calculateAll(dealInputs((i) => { i.wrapLoan.useWrap = true; })).dealChecklist.strategy).toBe('wrap');
+    expect(calculateAll(dealInputs((i) => { i.income.monthlyRent = 0; })).dealChecklist.strategy).toBe('flip');
+  });
+
+  it('takes the headline decision from the picked strategy', () => {
+    const { dealChecklist } = calculateAll(dealInputs((i) => { i.strategy = 'flip'; }));
+
+    expect(dealChecklist.strategy).toBe('flip');
+    expect(dealChecklist.dealDecision).toBe(dealChecklist.buyBoxes.flip.dealDecision);
+  });
+
+  it('scores partially saved buy-boxes against the default cutoffs', () => {
+    const saved = { hold: { rules: DEFAULT_BUY_BOXES.hold.rules } } as unknown as BuyBoxes;
+    const { dealChecklist } = calculateAll(dealInputs(), { buyBoxes: saved });
+
+    expect(Number.isNaN(dealChecklist.buyBoxes.hold.score)).toBe(false);
+    expect(['DEAL', 'NEEDS REVIEW', 'NO DEAL']).toContain(dealChecklist.dealDecision);
+  });
+});
+
+describe('normalizeBuyBoxes', () => {
+  it('fills missing fields and drops malformed rules', () => {
+    const boxes = normalizeBuyBoxes({
+      flip: {
+        rules: [
+          { id: 'ok', metric: 'flipProfit', comparator: '>=', threshold: 30000 } as never,
+          { id: 'bad-metric', metric: 'nope', comparator: '>=', threshold: 1, weight: 1 } as never,
+          { id: 'bad-threshold', metric: 'equity', comparator: '>=', threshold: '5' } as never,
+        ],
+        dealScore: 80,
+      },
+    });
+
+    expect(boxes.hold).toEqual(DEFAULT_BUY_BOXES.hold);
+    expect(boxes.flip.rules.map((rule) => [rule.id, rule.weight])).toEqual([['ok', 1]]);
+    expect(boxes.flip.dealScore).toBe(80);
+    expect(boxes.flip.reviewScore).toBe(DEFAULT_BUY_BOXES.flip.reviewScore);
+  });
+});
+
+/** All-cash deal with no costs or growth, so every cashflow is round */
+function cashDealInputs(overrides: (inputs: CalculatorInputs) => void = () => {}): CalculatorInputs {
+  return dealInputs((i) => {
+    i.propertyBasics.arv = 100000;
+    i.propertyBasics.repairs = 0;
+    i.purchaseCosts.purchasePrice = 100000;
+    i.purchaseCosts.closingCosts = 0;
+    i.purchaseCosts.appraisalCost = 0;
+    i.purchaseCosts.llcCost = 0;
+    i.purchaseCosts.servicingFee = 0;
+    i.operating.maintenancePercent = 0;
+    i.operating.propertyMgmtPercent = 0;
+    i.income.monthlyRent = 1000;
+    i.projection = { holdYears: 2, rentGrowth: 0, expenseInflation: 0, appreciation: 0, sellingCosts: 0 };
+    overrides(i);
+  });
+}
+
+describe('calculateIRR', () => {
+  it('returns the rate that zeroes the cashflows', () => {
+    expect(calculateIRR([-1000, 1100])).toBeCloseTo(10, 2);
+    expect(calculateIRR([-1000, 0, 1210])).toBeCloseTo(10, 2);
+    expect(calculateIRR([-1000, 500, 500])).toBeCloseTo(0, 2);
+  });
+
+  it('returns null when the cashflows never change sign', () => {
+    expect(calculateIRR([1000, 500])).toBeNull();
+    expect(calculateIRR([-1000, -500])).toBeNull();
+  });
+});
+
+describe('calculateProjection', () => {
+  it('holds for rent and sells at the end of the hold', () => {
+    const { projection } = calculateAll(cashDealInputs());
+
+    expect(projection.strategy).toBe('hold');
+    expect(projection.initialInvestment).toBe(100000);
+    expect(projection.years.map((y) => y.netCashflow)).toEqual([12000, 112000]);
+    expect(projection.totalProfit).toBe(24000);
+    expect(projection.equityMultiple).toBeCloseTo(1.24, 6);
+    expect(projection.irr).toBeCloseTo(12, 2);
+  });
+
+  it('projects a flip as one resale period with an annualized IRR', () => {
+    const { projection, quickStats } = calculateAll(cashDealInputs((i) => {
+      i.income.monthlyRent = 0;
+      i.propertyBasics.arv = 130000;
+      i.flip.contingency = 5000;
+    }));
+
+    expect(projection.strategy).toBe('flip');
+    expect(projection.years).toHaveLength(1);
+    expect(projection.years[0].netCashflow).toBe(125000);
+    expect(projection.totalProfit).toBe(quickStats.flipProfit);
+    expect(projection.irr).toBeCloseTo(56.25, 2);
+  });
+
+  it('collects the wrap note and exits on its balloon', () => {
+    const { projection } = calculateAll(cashDealInputs((i) => {
+      i.wrapLoan = { ...i.wrapLoan, useWrap: true, wrapLoanType: 'Interest Only', wrapInterestRate: 12, wrapBalloonYears: 1, wrapServiceFee: 0 };
+      i.wrapSales = { wrapSalesPrice: 110000, buyerDownPayment: 10000, buyerClosingCosts: 2000 };
+    }));
+
+    expect(projection.strategy).toBe('wrap');
+    expect(projection.initialInvestment).toBe(92000);
+    expect(projection.years.map((y) => y.netCashflow)).toEqual([112000]);
+    expect(projection.irr).toBeCloseTo((112000 / 92000 - 1) * 100, 2);
+  });
+
+  it('follows the picked strategy over the wrap setup', () => {
+    const { projection } = calculateAll(cashDealInputs((i) => {
+      i.strategy = 'hold';
+      i.wrapLoan.useWrap = true;
+    }));
+
+    expect(projection.strategy).toBe('hold');
+    expect(projection.years).toHaveLength(2);
+  });
+});
@@ -10,6 +10,16 @@ import type {
   LoanCalcsOutputs,
   TotalsOutputs,
   DealChecklistOutputs,
+  DealDecision,
+  DealStrategy,
+  BuyBox,
+  BuyBoxes,
+  BuyBoxResult,
+  ChecklistComparator,
+  ChecklistMetric,
+  ChecklistRule,
+  ProjectionOutputs,
+  ProjectionYear,
   CalculatorDefaults,
   PropertyBasicsInputs,
   IncomeInputs,
@@ -22,8 +32,9 @@ import type {
   WrapLoanInputs,
   WrapSalesInputs,
   FlipInputs,
+  ProjectionInputs,
 } from '@/types/calculator';
-import { DEFAULT_CALCULATOR_VALUES } from '@/types/calculator';
+import { CHECKLIST_COMPARATORS, CHECKLIST_METRICS, DEFAULT_BUY_BOXES, DEFAULT_CALCULATOR_VALUES } from '@/types/calculator';
 
 // ============ CORE FINANCIAL FUNCTIONS ============
 
@@ -136,6 +147,36 @@ export function calculateCurrentBalance(
   return calculateBalloonBalance(originalPrincipal, annualRate, termYears, yearsElapsed);
 }
 
+/**
+ * Calculate internal rate of return by bisection on NPV
+ *
+ * @param cashflows - Cashflow per period, starting with the (negative) investment at period 0
+ * @returns IRR per period as percentage, or null when no rate zeroes NPV
+ */
+export function calculateIRR(cashflows: number[]): number | null {
+  const npv = (rate: number) =>
+    cashflows.reduce((sum, cashflow, period) => sum + cashflow / Math.pow(1 + rate, period), 0);
+
+  let low = -0.9999;
+  let high = 10;
+  let npvLow = npv(low);
+  if (!isFinite(npvLow) || npvLow * npv(high) > 0) return null;
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    const npvMid = npv(mid);
+    if (Math.abs(npvMid) < 0.01 || high - low < 1e-9) return mid * 100;
+    if (npvLow * npvMid < 0) {
+      high = mid;
+    } else {
+      low = mid;
+      npvLow = npvMid;
+    }
+  }
+
+  return ((low + high) / 2) * 100;
+}
+
 // ============ DEAL CALCULATION FUNCTIONS ============
 
 /**
@@ -371,51 +412,408 @@ export function calculateQuickStats(
 }
 
 /**
- * Calculate deal checklist (pass/fail criteria)
+ * Calculate the value of every checklist metric for a deal
+ * Metrics that don't apply (IRR or equity multiple with no cash in) are null.
  */
-export function calculateDealChecklist(
+export function calculateChecklistMetrics(
   inputs: CalculatorInputs,
   quickStats: QuickStatsOutputs,
-  loanCalcs: LoanCalcsOutputs
-): DealChecklistOutputs {
+  loanCalcs: LoanCalcsOutputs,
+  projection: ProjectionOutputs
+): Record<ChecklistMetric, number | null> {
   const { propertyBasics, purchaseCosts } = inputs;
 
-  // Entry Fee < $25k
-  const entryFeeUnder25k = quickStats.totalEntryFee < 25000;
-
-  // Monthly Cashflow > $400
-  const cashflowOver400 = quickStats.monthlyCashflow >= 400;
-
-  // LTV < 75% (total loans / ARV)
+  // LTV (total loans / ARV)
   const totalLoanAmount =
     loanCalcs.dscrLoanAmount +
     loanCalcs.subToCurrentBalance +
     (inputs.secondLoan.useLoan2 ? inputs.secondLoan.loan2Principal : 0);
   const ltv = propertyBasics.arv > 0 ? (totalLoanAmount / propertyBasics.arv) * 100 : 0;
-  const ltvUnder75 = ltv <= 75;
 
-  // Equity > $15k
-  const equity = propertyBasics.arv - purchaseCosts.purchasePrice - propertyBasics.repairs;
-  const equityOver15k = equity >= 15000;
+  return {
+    entryFee: quickStats.totalEntryFee,
+    fundingGap: quickStats.fundingGap,
+    monthlyCashflow: quickStats.monthlyCashflow,
+    cashOnCashHold: quickStats.cashOnCashHold,
+    wrapCashflow: quickStats.wrapCashflow,
+    cashOnCashWrap: quickStats.cashOnCashWrap,
+    flipProfit: quickStats.flipProfit,
+    cashOnCashFlip: quickStats.cashOnCashFlip,
+    ltv,
+    equity: propertyBasics.arv - purchaseCosts.purchasePrice - propertyBasics.repairs,
+    irr: projection.irr,
+    equityMultiple: projection.equityMultiple,
+  };
+}
 
-  // Deal Decision Logic
-  const passCount = [entryFeeUnder25k, cashflowOver400, ltvUnder75, equityOver15k].filter(Boolean).length;
+function compareToThreshold(value: number, comparator: ChecklistComparator, threshold: number): boolean {
+  switch (comparator) {
+    case '<':
+      return value < threshold;
+    case '<=':
+      return value <= threshold;
+    case '>':
+      return value > threshold;
+    case '>=':
+      return value >= threshold;
+    default:
+      return false;
+  }
+}
 
-  let dealDecision: DealChecklistOutputs['dealDecision'];
-  if (passCount === 4) {
+/**
+ * Check a deal against one strategy's buy-box
+ * A buy-box with no rules can't pass anything, so it needs review.
+ */
+export function evaluateBuyBox(
+  strategy: DealStrategy,
+  buyBox: BuyBox,
+  metrics: Record<ChecklistMetric, number | null>
+): BuyBoxResult {
+  const results = buyBox.rules
+    .filter((rule) => rule.metric in CHECKLIST_METRICS)
+    .map((rule) => {
+      const value = metrics[rule.metric];
+      return {
+        rule,
+        value,
+        passed: value !== null && compareToThreshold(value, rule.comparator, rule.threshold),
+      };
+    });
+
+  const totalWeight = results.reduce((sum, result) => sum + Math.max(0, result.rule.weight), 0);
+  const passedWeight = results
+    .filter((result) => result.passed)
+    .reduce((sum, result) => sum + Math.max(0, result.rule.weight), 0);
+  const score = totalWeight > 0 ? (passedWeight / totalWeight) * 100 : 0;
+
+  let dealDecision: DealDecision;
+  if (totalWeight === 0) {
+    dealDecision = 'NEEDS REVIEW';
+  } else if (score >= buyBox.dealScore) {
     dealDecision = 'DEAL';
-  } else if (passCount >= 2) {
+  } else if (score >= buyBox.reviewScore) {
     dealDecision = 'NEEDS REVIEW';
   } else {
     dealDecision = 'NO DEAL';
   }
 
+  return { strategy, results, score, dealDecision };
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * Fill in saved buy-boxes field by field from the system defaults
+ * A saved box may predate a field or hold a malformed rule; anything missing
+ * or invalid falls back so scores never compare against NaN.
+ */
+export function normalizeBuyBoxes(buyBoxes?: Partial<Record<DealStrategy, Partial<BuyBox>>>): BuyBoxes {
+  const normalize = (strategy: DealStrategy): BuyBox => {
+    const fallback = DEFAULT_BUY_BOXES[strategy];
+    const saved = buyBoxes?.[strategy];
+    if (!saved) return fallback;
+
+    const rules = Array.isArray(saved.rules)
+      ? saved.rules
+          .filter((rule) =>
+            rule?.metric in CHECKLIST_METRICS &&
+            rule.comparator in CHECKLIST_COMPARATORS &&
+            isFiniteNumber(rule.threshold)
+          )
+          .map((rule) => ({ ...rule, weight: isFiniteNumber(rule.weight) ? rule.weight : 1 }))
+      : fallback.rules;
+
+    return {
+      rules,
+      dealScore: isFiniteNumber(saved.dealScore) ? saved.dealScore : fallback.dealScore,
+      reviewScore: isFiniteNumber(saved.reviewScore) ? saved.reviewScore : fallback.reviewScore,
+    };
+  };
+
+  return { hold: normalize('hold'), wrap: normalize('wrap'), flip: normalize('flip') };
+}
+
+/**
+ * Strategy the headline decision uses: the one picked for the deal, else
+ * wrap when a wrap is set up, flip when there's no rental income to hold
+ * for, otherwise hold
+ */
+export function resolveDealStrategy(inputs: CalculatorInputs): DealStrategy {
+  if (inputs.strategy) return inputs.strategy;
+  if (inputs.wrapLoan.useWrap) return 'wrap';
+  if (inputs.income.monthlyRent + inputs.income.otherIncome <= 0) return 'flip';
+  return 'hold';
+}
+
+/**
+ * Calculate deal checklist (pass/fail criteria) for every strategy's buy-box
+ * Buy-boxes come from calculator defaults, falling back to the system ones.
+ */
+export function calculateDealChecklist(
+  inputs: CalculatorInputs,
+  quickStats: QuickStatsOutputs,
+  loanCalcs: LoanCalcsOutputs,
+  projection: ProjectionOutputs,
+  buyBoxes?: Partial<BuyBoxes>
+): DealChecklistOutputs {
+  const metrics = calculateChecklistMetrics(inputs, quickStats, loanCalcs, projection);
+  const boxes = normalizeBuyBoxes(buyBoxes);
+
+  const results = {
+    hold: evaluateBuyBox('hold', boxes.hold, metrics),
+    wrap: evaluateBuyBox('wrap', boxes.wrap, metrics),
+    flip: evaluateBuyBox('flip', boxes.flip, metrics),
+  };
+  const strategy = resolveDealStrategy(inputs);
+
+  return {
+    strategy,
+    dealDecision: results[strategy].dealDecision,
+    buyBoxes: results,
+  };
+}
+
+/**
+ * Loan being stepped through the projection, month by month
+ */
+interface ProjectedLoan {
+  balance: number;
+  monthlyRate: number;
+  monthlyPayment: number;
+  balloonMonth: number; // Months after purchase the balance comes due, 0 = none
+}
+
+function createProjectedLoan(
+  balance: number,
+  annualRate: number,
+  monthlyPayment: number,
+  balloonYears: number,
+  termYears: number
+): ProjectedLoan {
+  return {
+    balance,
+    monthlyRate: annualRate / 100 / 12,
+    monthlyPayment,
+    balloonMonth: balloonYears > 0 && balloonYears < termYears ? balloonYears * 12 : 0,
+  };
+}
+
+/**
+ * Run a span of monthly payments on a loan, paying off any balloon that comes due
+ * Updates the loan balance in place
+ */
+function amortizeLoanMonths(
+  loan: ProjectedLoan,
+  firstMonth: number,
+  lastMonth: number
+): { payments: number; balloon: number } {
+  let payments = 0;
+  let balloon = 0;
+
+  for (let month = firstMonth; month <= lastMonth && loan.balance > 0; month++) {
+    const interest = loan.balance * loan.monthlyRate;
+    const payment = Math.min(loan.monthlyPayment, loan.balance + interest);
+    loan.balance = loan.balance + interest - payment;
+    if (loan.balance < 0.01) loan.balance = 0;
+    payments += payment;
+
+    if (month === loan.balloonMonth && loan.balance > 0) {
+      balloon = loan.balance;
+      loan.balance = 0;
+    }
+  }
+
+  return { payments, balloon };
+}
+
+function amortizeLoanYear(loan: ProjectedLoan, year: number): { payments: number; balloon: number } {
+  return amortizeLoanMonths(loan, (year - 1) * 12 + 1, year * 12);
+}
+
+/**
+ * Project a flip as a single period: carry the loans and taxes/insurance
+ * through the project, then sell at the ARV and pay everything off
+ * IRR is annualized from the project length.
+ */
+function calculateFlipProjection(
+  inputs: CalculatorInputs,
+  loans: ProjectedLoan[],
+  totals: TotalsOutputs,
+  initialInvestment: number
+): ProjectionOutputs {
+  const { propertyBasics, flip } = inputs;
+  const months = Math.max(1, Math.round(flip.projectMonths));
+
+  let debtService = 0;
+  let balloonPayments = 0;
+  for (const loan of loans) {
+    const { payments, balloon } = amortizeLoanMonths(loan, 1, months);
+    debtService += payments;
+    balloonPayments += balloon;
+  }
+
+  const operatingExpenses = totals.totalMonthlyTI * months + flip.contingency;
+  const loanBalance = loans.reduce((sum, loan) => sum + loan.balance, 0);
+  const saleProceeds = propertyBasics.arv - flip.resaleClosingCosts - flip.resaleMarketing - loanBalance;
+  const cashflow = -operatingExpenses - debtService;
+  const netCashflow = cashflow - balloonPayments + saleProceeds;
+
+  const periodIrr = calculateIRR([-initialInvestment, netCashflow]);
+
   return {
-    entryFeeUnder25k,
-    cashflowOver400,
-    ltvUnder75,
-    equityOver15k,
-    dealDecision,
+    strategy: 'flip',
+    years: [{
+      year: Math.ceil(months / 12),
+      grossIncome: 0,
+      operatingExpenses,
+      debtService,
+      cashflow,
+      balloonPayments,
+      saleProceeds,
+      netCashflow,
+      cumulativeCashflow: netCashflow - initialInvestment,
+      loanBalance: 0,
+      propertyValue: 0,
+      equity: 0,
+    }],
+    initialInvestment,
+    totalCashflow: cashflow,
+    totalProfit: netCashflow - initialInvestment,
+    equityMultiple: initialInvestment > 0 ? netCashflow / initialInvestment : null,
+    irr: periodIrr !== null ? (Math.pow(1 + periodIrr / 100, 12 / months) - 1) * 100 : null,
+  };
+}
+
+/**
+ * Calculate the year-by-year pro forma for the deal's resolved strategy
+ *
+ * Flips are a single period ending in the resale. Hold deals grow rent and expenses each year, amortize every loan and sell
+ * at the appreciated ARV in the final year. Wrap deals collect the buyer's
+ * note payments and exit when the wrap balloons (or at the end of the hold)
+ * by collecting the note balance and paying off the underlying loans.
+ * DSCR and loan 2 balloons are assumed to be paid off in cash.
+ */
+export function calculateProjection(
+  inputs: CalculatorInputs,
+  loanCalcs: LoanCalcsOutputs,
+  totals: TotalsOutputs,
+  quickStats: QuickStatsOutputs
+): ProjectionOutputs {
+  const { propertyBasics, purchaseCosts, operating, subjectTo, dscrLoan, secondLoan, wrapLoan, wrapSales } = inputs;
+  const projection = { ...createDefaultProjectionInputs(), ...inputs.projection };
+  const holdYears = Math.max(1, Math.round(projection.holdYears));
+  const strategy = resolveDealStrategy(inputs);
+
+  // Loans we owe, in payoff order
+  const loans: ProjectedLoan[] = [];
+  if (subjectTo.useSubjectTo) {
+    loans.push(createProjectedLoan(loanCalcs.subToCurrentBalance, subjectTo.subToInterestRate, loanCalcs.subToMonthlyPayment, 0, subjectTo.subToTermYears));
+  }
+  if (dscrLoan.useDSCRLoan) {
+    loans.push(createProjectedLoan(loanCalcs.dscrLoanAmount, dscrLoan.dscrInterestRate, loanCalcs.dscrMonthlyPayment, dscrLoan.dscrBalloonYears, dscrLoan.dscrTermYears));
+  }
+  if (secondLoan.useLoan2) {
+    loans.push(createProjectedLoan(secondLoan.loan2Principal, secondLoan.loan2InterestRate, loanCalcs.loan2MonthlyPayment, secondLoan.loan2BalloonYears, secondLoan.loan2TermYears));
+  }
+
+  // The wrap note the buyer owes us
+  const wrapNote = strategy === 'wrap'
+    ? createProjectedLoan(
+        loanCalcs.wrapPrincipal,
+        wrapLoan.wrapInterestRate,
+        loanCalcs.wrapMonthlyPayment,
+        wrapLoan.wrapBalloonYears,
+        wrapLoan.wrapLoanType === 'Interest Only' ? Infinity : wrapLoan.wrapTermYears
+      )
+    : null;
+
+  if (strategy === 'flip') {
+    return calculateFlipProjection(inputs, loans, totals, quickStats.fundingGap);
+  }
+
+  // The wrap buyer's closing costs come out of the down payment we collect,
+  // the same "net cash at close" the quick stats and wrap sales inputs show
+  const initialInvestment = strategy === 'wrap'
+    ? quickStats.fundingGap - wrapSales.buyerDownPayment + wrapSales.buyerClosingCosts
+    : quickStats.fundingGap;
+  const startingValue = propertyBasics.arv || purchaseCosts.purchasePrice;
+  const fixedMonthlyExpenses = totals.totalMonthlyTI + operating.hoa + operating.utilities;
+  const rentBasedMonthlyExpenses = totals.totalMonthlyMaintenance + totals.totalMonthlyPropertyMgmt;
+
+  const years: ProjectionYear[] = [];
+  let cumulativeCashflow = -initialInvestment;
+
+  for (let year = 1; year <= holdYears; year++) {
+    const rentFactor = Math.pow(1 + projection.rentGrowth / 100, year - 1);
+    const expenseFactor = Math.pow(1 + projection.expenseInflation / 100, year - 1);
+
+    let debtService = 0;
+    let balloonPayments = 0;
+    for (const loan of loans) {
+      const { payments, balloon } = amortizeLoanYear(loan, year);
+      debtService += payments;
+      balloonPayments += balloon;
+    }
+
+    let grossIncome: number;
+    let operatingExpenses: number;
+    let propertyValue: number;
+    let isExit = year === holdYears;
+    let saleProceeds = 0;
+
+    if (wrapNote) {
+      const { payments, balloon } = amortizeLoanYear(wrapNote, year);
+      grossIncome = payments;
+      operatingExpenses = wrapLoan.wrapServiceFee * 12;
+      propertyValue = wrapNote.balance;
+      isExit = isExit || balloon > 0;
+      if (isExit) saleProceeds = balloon + wrapNote.balance;
+    } else {
+      grossIncome = totals.totalMonthlyIncome * 12 * rentFactor;
+      operatingExpenses = (fixedMonthlyExpenses * expenseFactor + rentBasedMonthlyExpenses * rentFactor) * 12;
+      propertyValue = startingValue * Math.pow(1 + projection.appreciation / 100, year);
+      if (isExit) saleProceeds = propertyValue * (1 - projection.sellingCosts / 100);
+    }
+
+    const loanBalance = loans.reduce((sum, loan) => sum + loan.balance, 0);
+    const equity = propertyValue - loanBalance;
+    if (isExit) saleProceeds -= loanBalance;
+
+    const cashflow = grossIncome - operatingExpenses - debtService;
+    const netCashflow = cashflow - balloonPayments + saleProceeds;
+    cumulativeCashflow += netCashflow;
+
+    years.push({
+      year,
+      grossIncome,
+      operatingExpenses,
+      debtService,
+      cashflow,
+      balloonPayments,
+      saleProceeds,
+      netCashflow,
+      cumulativeCashflow,
+      loanBalance: isExit ? 0 : loanBalance,
+      propertyValue: isExit && wrapNote ? 0 : propertyValue,
+      equity: isExit && wrapNote ? 0 : equity,
+    });
+
+    if (isExit) break;
+  }
+
+  const totalNetCashflow = years.reduce((sum, y) => sum + y.netCashflow, 0);
+
+  return {
+    strategy,
+    years,
+    initialInvestment,
+    totalCashflow: years.reduce((sum, y) => sum + y.cashflow, 0),
+    totalProfit: totalNetCashflow - initialInvestment,
+    equityMultiple: initialInvestment > 0 ? totalNetCashflow / initialInvestment : null,
+    irr: calculateIRR([-initialInvestment, ...years.map((y) => y.netCashflow)]),
   };
 }
 
@@ -425,17 +823,22 @@ export function calculateDealChecklist(
  * Main calculation function - computes all outputs from inputs
  * This is the primary entry point for real-time calculations
  */
-export function calculateAll(inputs: CalculatorInputs): CalculatorOutputs {
+export function calculateAll(
+  inputs: CalculatorInputs,
+  defaults?: Partial<CalculatorDefaults>
+): CalculatorOutputs {
   const loanCalcs = calculateLoanCalcs(inputs);
   const totals = calculateTotals(inputs, loanCalcs);
   const quickStats = calculateQuickStats(inputs, loanCalcs, totals);
-  const dealChecklist = calculateDealChecklist(inputs, quickStats, loanCalcs);
+  const projection = calculateProjection(inputs, loanCalcs, totals, quickStats);
+  const dealChecklist = calculateDealChecklist(inputs, quickStats, loanCalcs, projection, defaults?.buyBoxes);
 
   return {
     quickStats,
     loanCalcs,
     totals,
     dealChecklist,
+    projection,
   };
 }
 
@@ -604,6 +1007,19 @@ export function createDefaultFlipInputs(): FlipInputs {
   };
 }
 
+/**
+ * Create default projection inputs
+ */
+export function createDefaultProjectionInputs(): ProjectionInputs {
+  return {
+    holdYears: 5,
+    rentGrowth: 3,
+    expenseInflation: 3,
+    appreciation: 3,
+    sellingCosts: 8,
+  };
+}
+
 /**
  * Create complete default inputs
  * Auto-populates from property data if provided
@@ -635,6 +1051,17 @@ export function createDefaultInputs(
     wrapLoan: createDefaultWrapLoanInputs(defaults),
     wrapSales: createDefaultWrapSalesInputs(),
     flip: createDefaultFlipInputs(),
+    projection: createDefaultProjectionInputs(),
+  };
+}
+
+/**
+ * Fill in input sections added since a calculation was saved
+ */
+export function normalizeInputs(inputs: CalculatorInputs): CalculatorInputs {
+  return {
+    ...inputs,
+    projection: { ...createDefaultProjectionInputs(), ...inputs.projection },
   };
 }
 
@@ -659,6 +1086,30 @@ export function formatPercentage(value: number, decimals: number = 1): string {
   return `${value.toFixed(decimals)}%`;
 }
 
+/**
+ * Format a checklist metric value for display
+ */
+export function formatChecklistValue(metric: ChecklistMetric, value: number | null): string {
+  if (value === null) return 'N/A';
+
+  switch (CHECKLIST_METRICS[metric]?.format) {
+    case 'percentage':
+      return formatPercentage(value);
+    case 'multiple':
+      return `${value.toFixed(2)}x`;
+    default:
+      return formatCurrency(value);
+  }
+}
+
+/**
+ * Describe a checklist rule, e.g. "Entry Fee < $25,000"
+ */
+export function describeChecklistRule(rule: ChecklistRule): string {
+  const metric = CHECKLIST_METRICS[rule.metric];
+  return `${metric?.label || rule.metric} ${CHECKLIST_COMPARATORS[rule.comparator] || rule.comparator} ${formatChecklistValue(rule.metric, rule.threshold)}`;
+}
+
 /**
  * Parse currency string to number
  */
@@ -0,0 +1,653 @@
+/**
+ * Deal Calculator Investor Report
+ * The downloadable / emailable PDF for a calculator calculation. Kept apart
+ * from ./pdfGenerator.ts so the property PDFs don't pull in the calculator.
+ */
+
+import { jsPDF } from 'jspdf';
+import {
+  CHECKLIST_METRICS,
+  SLIDER_CONFIGS,
+  type CalculatorInputs,
+  type CalculatorOutputs,
+  type ChecklistComparator,
+  type DealDecision,
+  type DealStrategy,
+} from '@/types/calculator';
+import { formatChecklistValue, formatCurrency, formatPercentage } from './calculatorEngine';
+import { blobToDataUrl } from './pdfGenerator';
+
+/**
+ * A calculator scenario as printed in the investor report
+ */
+export interface CalculatorReportScenario {
+  name: string;
+  inputs: CalculatorInputs;
+  outputs: CalculatorOutputs;
+}
+
+/**
+ * Options for generating a deal calculator investor report
+ */
+export interface CalculatorReportOptions {
+  calculationName: string;
+  scenarios: CalculatorReportScenario[]; // The first scenario is the headline deal
+  property?: {
+    address?: string;
+    propertyCode?: string;
+    beds?: number;
+    baths?: number;
+    sqft?: number;
+    images?: string[];
+  };
+  preparedFor?: string;
+  agentName?: string;
+  agentPhone?: string;
+  agentEmail?: string;
+  companyName?: string;
+}
+
+type ReportInputSectionKey = Exclude<
+  keyof CalculatorInputs,
+  'name' | 'propertyRecordId' | 'buyerRecordId' | 'propertyCode' | 'contactId'
+>;
+
+interface ReportInputSection {
+  title: string;
+  section: ReportInputSectionKey;
+  fields: Array<[field: string, label: string]>;
+  when?: (inputs: CalculatorInputs) => boolean;
+}
+
+/**
+ * Input assumptions printed in the report, labelled as in the calculator
+ * Loan sections only print when that loan is switched on.
+ */
+const REPORT_INPUT_SECTIONS: ReportInputSection[] = [
+  {
+    title: 'Property Basics',
+    section: 'propertyBasics',
+    fields: [
+      ['askingPrice', 'Asking Price'],
+      ['arv', 'After Repair Value (ARV)'],
+      ['repairs', 'Repairs Needed'],
+      ['yourFee', 'Your Fee / Assignment'],
+      ['creditToBuyer', 'Credit to Buyer'],
+      ['wholesaleDiscount', 'Wholesale Discount'],
+    ],
+  },
+  {
+    title: 'Income',
+    section: 'income',
+    fields: [
+      ['monthlyRent', 'Monthly Rent'],
+      ['otherIncome', 'Other Income'],
+    ],
+  },
+  {
+    title: 'Purchase Costs',
+    section: 'purchaseCosts',
+    fields: [
+      ['purchasePrice', 'Purchase Price'],
+      ['closingCosts', 'Closing Costs'],
+      ['appraisalCost', 'Appraisal Cost'],
+      ['llcCost', 'LLC Setup Cost'],
+      ['servicingFee', 'Loan Servicing Setup'],
+      ['sellerAllowance', 'Seller Allowance'],
+    ],
+  },
+  {
+    title: 'Taxes & Insurance',
+    section: 'taxInsurance',
+    fields: [
+      ['annualTaxes', 'Annual Property Taxes'],
+      ['annualInsurance', 'Annual Insurance'],
+    ],
+  },
+  {
+    title: 'Operating Expenses',
+    section: 'operating',
+    fields: [
+      ['maintenancePercent', 'Maintenance Reserve'],
+      ['propertyMgmtPercent', 'Property Management'],
+      ['hoa', 'HOA Fees'],
+      ['utilities', 'Utilities (if owner-paid)'],
+    ],
+  },
+  {
+    title: 'Subject-To Loan',
+    section: 'subjectTo',
+    when: (inputs) => inputs.subjectTo.useSubjectTo,
+    fields: [
+      ['subToLoanType', 'Loan Type'],
+      ['subToPrincipal', 'Original Principal'],
+      ['subToInterestRate', 'Interest Rate'],
+      ['subToTermYears', 'Loan Term'],
+      ['subToStartDate', 'Start Date'],
+      ['subToBalloonYears', 'Balloon'],
+    ],
+  },
+  {
+    title: 'DSCR Loan',
+    section: 'dscrLoan',
+    when: (inputs) => inputs.dscrLoan.useDSCRLoan,
+    fields: [
+      ['dscrInterestRate', 'Interest Rate'],
+      ['dscrTermYears', 'Loan Term'],
+      ['dscrStartDate', 'Start Date'],
+      ['dscrBalloonYears', 'Balloon'],
+      ['dscrPoints', 'Points'],
+      ['dscrFees', 'Lender Fees'],
+    ],
+  },
+  {
+    title: 'Second Loan',
+    section: 'secondLoan',
+    when: (inputs) => inputs.secondLoan.useLoan2,
+    fields: [
+      ['loan2Principal', 'Loan Amount'],
+      ['loan2InterestRate', 'Interest Rate'],
+      ['loan2TermYears', 'Loan Term'],
+      ['loan2StartDate', 'Start Date'],
+      ['loan2BalloonYears', 'Balloon'],
+      ['loan2Points', 'Points'],
+      ['loan2Fees', 'Lender Fees'],
+    ],
+  },
+  {
+    title: 'Wrap Loan',
+    section: 'wrapLoan',
+    when: (inputs) => inputs.wrapLoan.useWrap,
+    fields: [
+      ['wrapLoanType', 'Loan Type'],
+      ['wrapInterestRate', 'Interest Rate to Buyer'],
+      ['wrapTermYears', 'Loan Term'],
+      ['wrapStartDate', 'Start Date'],
+      ['wrapBalloonYears', 'Balloon Due'],
+      ['wrapServiceFee', 'Monthly Service Fee'],
+      ['wrapPoints', 'Points'],
+      ['wrapFees', 'Setup Fees'],
+    ],
+  },
+  {
+    title: 'Wrap Sales Terms',
+    section: 'wrapSales',
+    when: (inputs) => inputs.wrapLoan.useWrap,
+    fields: [
+      ['wrapSalesPrice', 'Sales Price to Buyer'],
+      ['buyerDownPayment', 'Buyer Down Payment'],
+      ['buyerClosingCosts', 'Buyer Closing Costs'],
+    ],
+  },
+  {
+    title: 'Flip',
+    section: 'flip',
+    fields: [
+      ['projectMonths', 'Project Duration'],
+      ['resaleClosingCosts', 'Resale Closing Costs'],
+      ['resaleMarketing', 'Marketing & Staging'],
+      ['contingency', 'Contingency Reserve'],
+    ],
+  },
+  {
+    title: 'Projection',
+    section: 'projection',
+    fields: [
+      ['holdYears', 'Hold Period'],
+      ['rentGrowth', 'Rent Growth'],
+      ['expenseInflation', 'Expense Inflation'],
+      ['appreciation', 'Appreciation'],
+      ['sellingCosts', 'Selling Costs'],
+    ],
+  },
+];
+
+const STRATEGY_LABELS: Record<DealStrategy, string> = {
+  hold: 'Hold',
+  wrap: 'Wrap',
+  flip: 'Flip',
+};
+
+const DECISION_COLORS: Record<DealDecision, [number, number, number]> = {
+  DEAL: [22, 163, 74], // green-600
+  'NEEDS REVIEW': [202, 138, 4], // yellow-600
+  'NO DEAL': [220, 38, 38], // red-600
+};
+
+// The standard PDF fonts have no ≤ / ≥ glyphs
+const PDF_COMPARATORS: Record<ChecklistComparator, string> = {
+  '<': '<',
+  '<=': '<=',
+  '>': '>',
+  '>=': '>=',
+};
+
+const MAX_REPORT_PHOTOS = 4;
+
+function formatInputValue(field: string, value: unknown): string {
+  if (typeof value !== 'number') return value ? String(value) : '-';
+
+  switch (SLIDER_CONFIGS[field]?.format) {
+    case 'currency':
+      return formatCurrency(value);
+    case 'percentage':
+      return `${value}%`;
+    case 'years':
+      return `${value} yr${value !== 1 ? 's' : ''}`;
+    case 'months':
+      return `${value} mo`;
+    default:
+      return value.toLocaleString();
+  }
+}
+
+/**
+ * Fetch an image as a data URL for jsPDF
+ * Returns null if the image can't be loaded (e.g. blocked by CORS), so one
+ * bad photo doesn't stop the report.
+ */
+async function loadImageDataUrl(url: string): Promise<string | null> {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    const blob = await response.blob();
+    if (!blob.type.startsWith('image/')) return null;
+    return await blobToDataUrl(blob);
+  } catch {
+    return null;
+  }
+}
+
+function imageFormat(dataUrl: string): string {
+  if (dataUrl.startsWith('data:image/png')) return 'PNG';
+  if (dataUrl.startsWith('data:image/webp')) return 'WEBP';
+  return 'JPEG';
+}
+
+/**
+ * Generate an investor report for a deal calculator calculation
+ * Covers photos, the verdict from the buy-box, key returns, every input
+ * assumption, loan calculations, monthly totals and - with more than one
+ * scenario - a side-by-side comparison.
+ */
+export async function generateCalculatorReportPDF(options: CalculatorReportOptions): Promise<Blob> {
+  const {
+    calculationName,
+    scenarios,
+    property,
+    preparedFor,
+    agentName = 'Purple Homes',
+    agentPhone = '(555) 123-4567',
+    agentEmail = 'info@purplehomes.com',
+    companyName = 'Purple Homes',
+  } = options;
+
+  const [headline] = scenarios;
+  if (!headline) {
+    throw new Error('At least one scenario is required for the report');
+  }
+  const { inputs, outputs } = headline;
+  const { quickStats, loanCalcs, totals, dealChecklist, projection } = outputs;
+
+  const pdf = new jsPDF('p', 'mm', 'a4');
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const margin = 20;
+  const contentWidth = pageWidth - 2 * margin;
+  let yPos = margin;
+
+  // Helper function to add new page if needed
+  const checkPageBreak = (requiredSpace: number) => {
+    if (yPos + requiredSpace > pageHeight - margin) {
+      pdf.addPage();
+      yPos = margin;
+      return true;
+    }
+    return false;
+  };
+
+  const sectionTitle = (title: string) => {
+    checkPageBreak(20);
+    yPos += 4;
+    pdf.setFontSize(13);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setTextColor(147, 51, 234);
+    pdf.text(title, margin, yPos);
+    yPos += 2;
+    pdf.setDrawColor(147, 51, 234);
+    pdf.line(margin, yPos, pageWidth - margin, yPos);
+    yPos += 6;
+  };
+
+  // Label/value pairs, two per line
+  const keyValueGrid = (rows: Array<[string, string]>) => {
+    const columnWidth = contentWidth / 2;
+    for (let i = 0; i < rows.length; i += 2) {
+      checkPageBreak(6);
+      rows.slice(i, i + 2).forEach(([label, value], column) => {
+        const x = margin + column * columnWidth;
+        pdf.setFontSize(9);
+        pdf.setFont('helvetica', 'normal');
+        pdf.setTextColor(100, 100, 100);
+        pdf.text(label, x, yPos);
+        pdf.setFont('helvetica', 'bold');
+        pdf.setTextColor(0, 0, 0);
+        pdf.text(value, x + columnWidth - 6, yPos, { align: 'right' });
+      });
+      yPos += 6;
+    }
+  };
+
+  // Header with Purple Homes branding
+  pdf.setFillColor(147, 51, 234); // purple-600
+  pdf.rect(0, 0, pageWidth, 40, 'F');
+
+  pdf.setTextColor(255, 255, 255);
+  pdf.setFontSize(24);
+  pdf.setFont('helvetica', 'bold');
+  pdf.text(companyName, margin, 25);
+
+  pdf.setFontSize(10);
+  pdf.setFont('helvetica', 'normal');
+  pdf.text('Investor Deal Report', margin, 33);
+
+  yPos = 55;
+
+  // Deal title
+  pdf.setTextColor(0, 0, 0);
+  pdf.setFontSize(18);
+  pdf.setFont('helvetica', 'bold');
+  pdf.text(property?.address || calculationName, margin, yPos);
+  yPos += 7;
+
+  pdf.setFontSize(10);
+  pdf.setFont('helvetica', 'normal');
+  pdf.setTextColor(100, 100, 100);
+  const subtitle = [
+    property?.address && calculationName !== property.address ? calculationName : null,
+    property?.propertyCode,
+    property?.beds ? `${property.beds} beds` : null,
+    property?.baths ? `${property.baths} baths` : null,
+    property?.sqft ? `${property.sqft.toLocaleString()} sqft` : null,
+  ].filter(Boolean).join('  |  ');
+  if (subtitle) {
+    pdf.text(subtitle, margin, yPos);
+    yPos += 5;
+  }
+  pdf.text(
+    `${preparedFor ? `Prepared for ${preparedFor} - ` : ''}${new Date().toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}`,
+    margin,
+    yPos
+  );
+  yPos += 10;
+
+  // Property photos - the first large, the rest as thumbnails
+  const photos = (
+    await Promise.all((property?.images || []).slice(0, MAX_REPORT_PHOTOS).map(loadImageDataUrl))
+  ).filter((photo): photo is string => !!photo);
+
+  const drawPhoto = (dataUrl: string, x: number, y: number, maxWidth: number, maxHeight: number) => {
+    try {
+      const { width, height } = pdf.getImageProperties(dataUrl);
+      const scale = Math.min(maxWidth / width, maxHeight / height);
+      const drawWidth = width * scale;
+      const drawHeight = height * scale;
+      pdf.addImage(dataUrl, imageFormat(dataUrl), x + (maxWidth - drawWidth) / 2, y, drawWidth, drawHeight);
+      return drawHeight;
+    } catch {
+      return 0; // Unsupported image format
+    }
+  };
+
+  if (photos.length > 0) {
+    const heroHeight = drawPhoto(photos[0], margin, yPos, contentWidth, 85);
+    yPos += heroHeight > 0 ? heroHeight + 4 : 0;
+
+    const thumbnails = photos.slice(1);
+    if (thumbnails.length > 0) {
+      const gap = 4;
+      const thumbWidth = (contentWidth - gap * (MAX_REPORT_PHOTOS - 2)) / (MAX_REPORT_PHOTOS - 1);
+      const thumbHeights = thumbnails.map((photo, index) =>
+        drawPhoto(photo, margin + index * (thumbWidth + gap), yPos, thumbWidth, 35)
+      );
+      yPos += Math.max(...thumbHeights) + 4;
+    }
+    yPos += 4;
+  }
+
+  // Verdict from the headline buy-box
+  const buyBox = dealChecklist.buyBoxes[dealChecklist.strategy];
+  checkPageBreak(30);
+  pdf.setFillColor(...DECISION_COLORS[dealChecklist.dealDecision]);
+  pdf.roundedRect(margin, yPos, contentWidth, 20, 3, 3, 'F');
+  pdf.setTextColor(255, 255, 255);
+  pdf.setFontSize(8);
+  pdf.setFont('helvetica', 'normal');
+  pdf.text('VERDICT', margin + 6, yPos + 7);
+  pdf.setFontSize(16);
+  pdf.setFont('helvetica', 'bold');
+  pdf.text(dealChecklist.dealDecision, margin + 6, yPos + 15);
+  pdf.setFontSize(10);
+  pdf.setFont('helvetica', 'normal');
+  pdf.text(
+    `${STRATEGY_LABELS[dealChecklist.strategy]} buy-box: ${Math.round(buyBox.score)}% of criteria met`,
+    pageWidth - margin - 6,
+    yPos + 12,
+    { align: 'right' }
+  );
+  yPos += 28;
+
+  // Buy-box criteria
+  buyBox.results.forEach(({ rule, value, passed }) => {
+    checkPageBreak(6);
+    pdf.setFontSize(9);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setTextColor(...(passed ? DECISION_COLORS.DEAL : DECISION_COLORS['NO DEAL']));
+    pdf.text(passed ? 'PASS' : 'FAIL', margin, yPos);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setTextColor(0, 0, 0);
+    pdf.text(
+      `${CHECKLIST_METRICS[rule.metric]?.label || rule.metric} ${PDF_COMPARATORS[rule.comparator]} ${formatChecklistValue(rule.metric, rule.threshold)}`,
+      margin + 14,
+      yPos
+    );
+    pdf.setTextColor(100, 100, 100);
+    pdf.text(`Actual: ${formatChecklistValue(rule.metric, value)}`, pageWidth - margin, yPos, { align: 'right' });
+    yPos += 6;
+  });
+
+  // The other strategies' verdicts, for context
+  const otherStrategies = (Object.keys(dealChecklist.buyBoxes) as DealStrategy[])
+    .filter((strategy) => strategy !== dealChecklist.strategy)
+    .map((strategy) => `${STRATEGY_LABELS[strategy]}: ${dealChecklist.buyBoxes[strategy].dealDecision}`);
+  if (otherStrategies.length > 0) {
+    checkPageBreak(6);
+    pdf.setFontSize(8);
+    pdf.setTextColor(100, 100, 100);
+    pdf.text(`Other strategies - ${otherStrategies.join(', ')}`, margin, yPos);
+    yPos += 6;
+  }
+
+  // Key returns
+  sectionTitle('Key Metrics');
+  keyValueGrid([
+    ['Maximum Allowable Offer', formatCurrency(quickStats.mao)],
+    ['Total Entry Fee', formatCurrency(quickStats.totalEntryFee)],
+    ['Funding Gap', formatCurrency(quickStats.fundingGap)],
+    ['Hold Cashflow', `${formatCurrency(quickStats.monthlyCashflow)}/mo`],
+    ['Hold Cash on Cash', formatPercentage(quickStats.cashOnCashHold)],
+    ['Wrap Cashflow', `${formatCurrency(quickStats.wrapCashflow)}/mo`],
+    ['Wrap Cash on Cash', formatPercentage(quickStats.cashOnCashWrap)],
+    ['Flip Profit', formatCurrency(quickStats.flipProfit)],
+    ['Flip Cash on Cash', formatPercentage(quickStats.cashOnCashFlip)],
+    [`IRR (${projection.years.length} yr ${STRATEGY_LABELS[projection.strategy].toLowerCase()})`, projection.irr !== null ? formatPercentage(projection.irr) : 'N/A'],
+    ['Equity Multiple', projection.equityMultiple !== null ? `${projection.equityMultiple.toFixed(2)}x` : 'N/A'],
+    ['Total Profit', formatCurrency(projection.totalProfit)],
+  ]);
+
+  // Input assumptions
+  sectionTitle('Assumptions');
+  REPORT_INPUT_SECTIONS.filter((section) => !section.when || section.when(inputs)).forEach((section) => {
+    checkPageBreak(14);
+    pdf.setFontSize(10);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setTextColor(60, 60, 60);
+    pdf.text(section.title, margin, yPos);
+    yPos += 5;
+
+    const values = inputs[section.section] as unknown as Record<string, unknown>;
+    keyValueGrid(section.fields.map(([field, label]) => [label, formatInputValue(field, values[field])]));
+    yPos += 2;
+  });
+
+  // Loan calculations, for the loans in use
+  const loanRows: Array<[string, string]> = [];
+  if (inputs.dscrLoan.useDSCRLoan) {
+    loanRows.push(
+      ['DSCR Loan Amount', formatCurrency(loanCalcs.dscrLoanAmount)],
+      ['DSCR Down Payment', formatCurrency(loanCalcs.dscrDownPayment)],
+      ['DSCR Monthly Payment', formatCurrency(loanCalcs.dscrMonthlyPayment)]
+    );
+    if (loanCalcs.dscrBalloonAmount > 0) {
+      loanRows.push([`DSCR Balloon (${inputs.dscrLoan.dscrBalloonYears} yr)`, formatCurrency(loanCalcs.dscrBalloonAmount)]);
+    }
+  }
+  if (inputs.subjectTo.useSubjectTo) {
+    loanRows.push(
+      ['Subject-To Current Balance', formatCurrency(loanCalcs.subToCurrentBalance)],
+      ['Subject-To Monthly Payment', formatCurrency(loanCalcs.subToMonthlyPayment)]
+    );
+  }
+  if (inputs.secondLoan.useLoan2) {
+    loanRows.push(['Second Loan Monthly Payment', formatCurrency(loanCalcs.loan2MonthlyPayment)]);
+    if (loanCalcs.loan2BalloonAmount > 0) {
+      loanRows.push([`Second Loan Balloon (${inputs.secondLoan.loan2BalloonYears} yr)`, formatCurrency(loanCalcs.loan2BalloonAmount)]);
+    }
+  }
+  if (inputs.wrapLoan.useWrap) {
+    loanRows.push(
+      ['Wrap Principal', formatCurrency(loanCalcs.wrapPrincipal)],
+      ['Payment from Buyer', formatCurrency(loanCalcs.wrapMonthlyPayment)],
+      ['Buyer PITI', formatCurrency(loanCalcs.buyerMonthlyPITI)]
+    );
+    if (loanCalcs.wrapBalloonAmount > 0) {
+      loanRows.push([`Wrap Balloon (${inputs.wrapLoan.wrapBalloonYears} yr)`, formatCurrency(loanCalcs.wrapBalloonAmount)]);
+    }
+  }
+
+  sectionTitle('Loan Calculations');
+  if (loanRows.length > 0) {
+    keyValueGrid(loanRows);
+  } else {
+    pdf.setFontSize(9);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setTextColor(100, 100, 100);
+    pdf.text('No loans configured - all-cash purchase', margin, yPos);
+    yPos += 6;
+  }
+
+  // Monthly totals
+  sectionTitle('Monthly Summary');
+  keyValueGrid([
+    ['Total Income', formatCurrency(totals.totalMonthlyIncome)],
+    ['Total P&I', formatCurrency(totals.totalMonthlyPI)],
+    ['Total T&I', formatCurrency(totals.totalMonthlyTI)],
+    ['Maintenance', formatCurrency(totals.totalMonthlyMaintenance)],
+    ['Property Management', formatCurrency(totals.totalMonthlyPropertyMgmt)],
+    ['Total Expenses', formatCurrency(totals.totalMonthlyExpenses)],
+  ]);
+
+  // Scenario comparison
+  if (scenarios.length > 1) {
+    sectionTitle('Scenario Comparison');
+
+    const comparisonRows: Array<[string, (scenario: CalculatorReportScenario) => string]> = [
+      ['Verdict', (s) => s.outputs.dealChecklist.dealDecision],
+      ['Purchase Price', (s) => formatCurrency(s.inputs.purchaseCosts.purchasePrice)],
+      ['Monthly Rent', (s) => formatCurrency(s.inputs.income.monthlyRent)],
+      ['MAO', (s) => formatCurrency(s.outputs.quickStats.mao)],
+      ['Entry Fee', (s) => formatCurrency(s.outputs.quickStats.totalEntryFee)],
+      ['Funding Gap', (s) => formatCurrency(s.outputs.quickStats.fundingGap)],
+      ['Hold Cashflow', (s) => formatCurrency(s.outputs.quickStats.monthlyCashflow)],
+      ['Hold Cash on Cash', (s) => formatPercentage(s.outputs.quickStats.cashOnCashHold)],
+      ['Wrap Cashflow', (s) => formatCurrency(s.outputs.quickStats.wrapCashflow)],
+      ['Wrap Cash on Cash', (s) => formatPercentage(s.outputs.quickStats.cashOnCashWrap)],
+      ['Flip Profit', (s) => formatCurrency(s.outputs.quickStats.flipProfit)],
+      ['IRR', (s) => (s.outputs.projection.irr !== null ? formatPercentage(s.outputs.projection.irr) : 'N/A')],
+      ['Equity Multiple', (s) => (s.outputs.projection.equityMultiple !== null ? `${s.outputs.projection.equityMultiple.toFixed(2)}x` : 'N/A')],
+    ];
+
+    const labelWidth = 50;
+    const columnWidth = (contentWidth - labelWidth) / scenarios.length;
+
+    checkPageBreak(14);
+    pdf.setFillColor(249, 250, 251); // gray-50
+    pdf.rect(margin, yPos - 5, contentWidth, 8, 'F');
+    pdf.setFontSize(9);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setTextColor(0, 0, 0);
+    pdf.text('Metric', margin + 2, yPos);
+    scenarios.forEach((scenario, index) => {
+      const name = pdf.splitTextToSize(scenario.name, columnWidth - 4)[0];
+      pdf.text(name, margin + labelWidth + columnWidth * (index + 1) - 2, yPos, { align: 'right' });
+    });
+    yPos += 8;
+
+    comparisonRows.forEach(([label, getValue]) => {
+      checkPageBreak(6);
+      pdf.setFont('helvetica', 'normal');
+      pdf.setTextColor(100, 100, 100);
+      pdf.text(label, margin + 2, yPos);
+      scenarios.forEach((scenario, index) => {
+        const value = getValue(scenario);
+        const decisionColor = label === 'Verdict' ? DECISION_COLORS[value as DealDecision] : null;
+        pdf.setFont('helvetica', decisionColor ? 'bold' : 'normal');
+        pdf.setTextColor(...(decisionColor || [0, 0, 0]));
+        pdf.text(value, margin + labelWidth + columnWidth * (index + 1) - 2, yPos, { align: 'right' });
+      });
+      yPos += 6;
+    });
+  }
+
+  // Contact footer
+  checkPageBreak(40);
+  yPos += 6;
+  pdf.setDrawColor(200, 200, 200);
+  pdf.line(margin, yPos, pageWidth - margin, yPos);
+  yPos += 8;
+
+  pdf.setFontSize(10);
+  pdf.setTextColor(0, 0, 0);
+  pdf.setFont('helvetica', 'bold');
+  pdf.text('Contact Information', margin, yPos);
+  yPos += 6;
+
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(9);
+  pdf.setTextColor(60, 60, 60);
+  pdf.text(`${agentName}`, margin, yPos);
+  yPos += 5;
+  pdf.text(`Phone: ${agentPhone}`, margin, yPos);
+  yPos += 5;
+  pdf.text(`Email: ${agentEmail}`, margin, yPos);
+  yPos += 10;
+
+  pdf.setFontSize(8);
+  pdf.setTextColor(150, 150, 150);
+  const disclaimer = pdf.splitTextToSize(
+    'Projections are estimates based on the assumptions above and are not a guarantee of future results. Verify all figures independently before investing.',
+    contentWidth
+  );
+  pdf.text(disclaimer, margin, yPos);
+
+  // Page numbers
+  const pageCount = pdf.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    pdf.setPage(page);
+    pdf.setFontSize(8);
+    pdf.setTextColor(150, 150, 150);
+    pdf.text(`Page ${page} of ${pageCount}`, pageWidth - margin, pageHeight - 10, { align: 'right' });
+  }
+
+  return pdf.output('blob');
+}
@@ -0,0 +1,212 @@
+/**
+ * Deal Calculator Sensitivity Analysis
+ * Grids and goal-seek built on calculateAll, so they run client-side like
+ * the rest of the calculator
+ */
+
+import type {
+  CalculatorDefaults,
+  CalculatorInputs,
+  CalculatorOutputs,
+  GoalSeekResult,
+  GoalSeekTarget,
+  SensitivityCell,
+  SensitivityGrid,
+  SensitivityVariableId,
+} from '@/types/calculator';
+import { SENSITIVITY_VARIABLES, SLIDER_CONFIGS } from '@/types/calculator';
+import { calculateAll } from './calculatorEngine';
+
+const GOAL_SEEK_ITERATIONS = 50;
+
+// ============ INPUT HELPERS ============
+
+/**
+ * Current value of a sensitivity variable in a scenario's inputs
+ */
+export function getVariableValue(inputs: CalculatorInputs, variableId: SensitivityVariableId): number {
+  const { section, field } = SENSITIVITY_VARIABLES[variableId];
+  const value = (inputs[section] as unknown as Record<string, unknown>)[field];
+  return typeof value === 'number' ? value : 0;
+}
+
+/**
+ * Copy of the inputs with one sensitivity variable changed
+ */
+export function setVariableValue(
+  inputs: CalculatorInputs,
+  variableId: SensitivityVariableId,
+  value: number
+): CalculatorInputs {
+  const { section, field } = SENSITIVITY_VARIABLES[variableId];
+  return {
+    ...inputs,
+    [section]: { ...inputs[section], [field]: value },
+  };
+}
+
+function roundToStep(value: number, step: number, mode: 'round' | 'floor' | 'ceil' = 'round'): number {
+  const rounded = Math[mode](value / step) * step;
+  // Clear float noise from steps like 0.125
+  return Number(rounded.toFixed(4));
+}
+
+/**
+ * Values to try for a variable, spread evenly around its current value
+ * A zero value (e.g. no repairs yet) spreads up from zero instead.
+ */
+export function buildSensitivityValues(
+  inputs: CalculatorInputs,
+  variableId: SensitivityVariableId,
+  steps: number = 5
+): number[] {
+  const variable = SENSITIVITY_VARIABLES[variableId];
+  const config = SLIDER_CONFIGS[variable.field];
+  const step = config?.step || 1;
+  const base = getVariableValue(inputs, variableId);
+
+  let low: number;
+  let high: number;
+  if (variable.spreadMode === 'absolute') {
+    low = Math.max(0, base - variable.spread);
+    high = base + variable.spread;
+  } else if (base > 0) {
+    low = base * (1 - variable.spread);
+    high = base * (1 + variable.spread);
+  } else {
+    low = 0;
+    high = (config?.max || 10000) * variable.spread;
+  }
+
+  const count = Math.max(2, steps);
+  const values = Array.from({ length: count }, (_, i) => roundToStep(low + ((high - low) * i) / (count - 1), step));
+
+  // Keep the scenario's own value in the grid so the base case is visible
+  if (base > 0 && !values.includes(base)) {
+    values.push(base);
+    values.sort((a, b) => a - b);
+  }
+
+  return [...new Set(values)];
+}
+
+// ============ SENSITIVITY GRID ============
+
+function summarizeOutputs(outputs: CalculatorOutputs): Pick<SensitivityCell, 'metrics' | 'dealDecision'> {
+  const { quickStats, projection, dealChecklist } = outputs;
+  return {
+    metrics: {
+      monthlyCashflow: quickStats.monthlyCashflow,
+      wrapCashflow: quickStats.wrapCashflow,
+      flipProfit: quickStats.flipProfit,
+      cashOnCashHold: quickStats.cashOnCashHold,
+      irr: projection.irr,
+      checklistScore: dealChecklist.buyBoxes[dealChecklist.strategy].score,
+    },
+    dealDecision: dealChecklist.dealDecision,
+  };
+}
+
+/**
+ * Calculate outputs across one or two varied inputs
+ *
+ * @param rowValues - Values for the row variable (defaults to buildSensitivityValues)
+ * @param columnValues - Values for the column variable
+ */
+export function calculateSensitivityGrid(
+  inputs: CalculatorInputs,
+  rowVariable: SensitivityVariableId,
+  columnVariable: SensitivityVariableId | null,
+  defaults?: Partial<CalculatorDefaults>,
+  rowValues: number[] = buildSensitivityValues(inputs, rowVariable),
+  columnValues: (number | null)[] = columnVariable ? buildSensitivityValues(inputs, columnVariable) : [null]
+): SensitivityGrid {
+  const cells = rowValues.map((rowValue) => {
+    const rowInputs = setVariableValue(inputs, rowVariable, rowValue);
+
+    return columnValues.map((columnValue) => {
+      const cellInputs = columnVariable && columnValue !== null
+        ? setVariableValue(rowInputs, columnVariable, columnValue)
+        : rowInputs;
+      return {
+        rowValue,
+        columnValue,
+        ...summarizeOutputs(calculateAll(cellInputs, defaults)),
+      };
+    });
+  });
+
+  return { rowVariable, columnVariable, rowValues, columnValues, cells };
+}
+
+// ============ GOAL SEEK ============
+
+/**
+ * Whether a deal hits a goal-seek target
+ * 'deal' is a DEAL decision from the headline buy-box; 'breakEven' is
+ * non-negative monthly cashflow for the headline strategy.
+ */
+export function meetsGoalSeekTarget(outputs: CalculatorOutputs, target: GoalSeekTarget): boolean {
+  if (target === 'deal') {
+    return outputs.dealChecklist.dealDecision === 'DEAL';
+  }
+  const cashflow = outputs.dealChecklist.strategy === 'wrap'
+    ? outputs.quickStats.wrapCashflow
+    : outputs.quickStats.monthlyCashflow;
+  return cashflow >= 0;
+}
+
+/**
+ * Solve for the limit of one input that still hits the target
+ * Inputs where lower is better (purchase price) solve for the maximum;
+ * inputs where higher is better (rent) solve for the minimum. Uses
+ * bisection, so it assumes the target flips only once across the range.
+ */
+export function goalSeek(
+  inputs: CalculatorInputs,
+  variableId: SensitivityVariableId,
+  target: GoalSeekTarget,
+  defaults?: Partial<CalculatorDefaults>
+): GoalSeekResult {
+  const variable = SENSITIVITY_VARIABLES[variableId];
+  const config = SLIDER_CONFIGS[variable.field];
+  const step = config?.step || 1;
+  const base = getVariableValue(inputs, variableId);
+
+  const evaluate = (value: number) => calculateAll(setVariableValue(inputs, variableId, value), defaults);
+  const meets = (value: number) => meetsGoalSeekTarget(evaluate(value), target);
+  const result = (status: GoalSeekResult['status'], value: number): GoalSeekResult => ({
+    variable: variableId,
+    target,
+    status,
+    value,
+    outputs: evaluate(value),
+  });
+
+  // Search from zero to the slider max (or twice the current value, if higher)
+  const rangeLow = 0;
+  const rangeHigh = Math.max(config?.max || 0, base * 2);
+
+  // The end of the range that favors the deal, and the end that hurts it
+  const bestEnd = variable.higherIsBetter ? rangeHigh : rangeLow;
+  const worstEnd = variable.higherIsBetter ? rangeLow : rangeHigh;
+
+  if (!meets(bestEnd)) return result('never', bestEnd);
+  if (meets(worstEnd)) return result('always', worstEnd);
+
+  // Invariant: passing end meets the target, failing end doesn't
+  let passing = bestEnd;
+  let failing = worstEnd;
+  for (let i = 0; i < GOAL_SEEK_ITERATIONS && Math.abs(passing - failing) > step; i++) {
+    const mid = (passing + failing) / 2;
+    if (meets(mid)) {
+      passing = mid;
+    } else {
+      failing = mid;
+    }
+  }
+
+  // Round toward the passing side so the reported value still hits the target
+  const value = roundToStep(passing, step, variable.higherIsBetter ? 'ceil' : 'floor');
+  return result('found', meets(value) ? value : passing);
+}
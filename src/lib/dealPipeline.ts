@@ -0,0 +1,128 @@
+/**
+ * Deal Pipeline Views
+ * Stats and groupings for the Deal Pipeline page, derived in the browser from
+ * the one deals query (services/dealsApi.ts) so each view doesn't make the
+ * server reload the whole pipeline. Deals are built server-side by
+ * lib/deals/pipeline.ts.
+ */
+
+import type { Deal, DealsByBuyer, DealsByProperty, PipelineStats } from '@/types/deals';
+import { MATCH_DEAL_STAGES, MATCH_EXIT_STAGES, type MatchDealStage } from '@/types/associations';
+
+const EXIT_STAGE = MATCH_EXIT_STAGES[0];
+
+const ALL_STAGES: MatchDealStage[] = [...MATCH_DEAL_STAGES, ...MATCH_EXIT_STAGES];
+
+function isOpen(deal: Deal): boolean {
+  return deal.status !== 'Closed Deal / Won' && deal.status !== EXIT_STAGE;
+}
+
+// Higher is further along; Not Interested ranks below every open stage
+function stageRank(stage: MatchDealStage): number {
+  return stage === EXIT_STAGE ? 0 : MATCH_DEAL_STAGES.indexOf(stage) + 1;
+}
+
+export function computePipelineStats(deals: Deal[], now: Date = new Date()): PipelineStats {
+  const byStage = Object.fromEntries(ALL_STAGES.map((stage) => [stage, 0])) as Record<MatchDealStage, number>;
+  const weekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000).toISOString();
+
+  let pipelineValue = 0;
+  let needsAttention = 0;
+  let newThisWeek = 0;
+
+  for (const deal of deals) {
+    byStage[deal.status]++;
+    if (isOpen(deal)) {
+      pipelineValue += deal.property.price || 0;
+      if (deal.isStale) needsAttention++;
+    }
+    if (deal.createdAt && deal.createdAt >= weekAgo) newThisWeek++;
+  }
+
+  return {
+    totalDeals: deals.length,
+    pipelineValue,
+    closingSoon: byStage['Contracts'],
+    needsAttention,
+    newThisWeek,
+    byStage,
+  };
+}
+
+/**
+ * Deals per stage (every stage present), highest score first within a stage
+ */
+export function groupDealsByStage(deals: Deal[]): Record<MatchDealStage, Deal[]> {
+  const groups = Object.fromEntries(ALL_STAGES.map((stage) => [stage, [] as Deal[]])) as Record<MatchDealStage, Deal[]>;
+  for (const deal of deals) groups[deal.status].push(deal);
+  for (const stage of ALL_STAGES) groups[stage].sort((a, b) => b.score - a.score);
+  return groups;
+}
+
+/**
+ * Deals per buyer, buyers with the most deals first
+ */
+export function groupDealsByBuyer(deals: Deal[]): DealsByBuyer[] {
+  const groups = new Map<string, DealsByBuyer>();
+
+  for (const deal of deals) {
+    const key = deal.buyer.recordId || deal.buyer.contactId;
+    let group = groups.get(key);
+    if (!group) {
+      group = { buyer: deal.buyer, deals: [], totalDeals: 0, totalValue: 0, activeStages: [] };
+      groups.set(key, group);
+    }
+    group.deals.push(deal);
+    group.totalDeals++;
+    group.totalValue += deal.property.price || 0;
+    if (!group.activeStages.includes(deal.status)) group.activeStages.push(deal.status);
+  }
+
+  return Array.from(groups.values()).sort((a, b) => b.totalDeals - a.totalDeals);
+}
+
+/**
+ * Deals per property, properties with the most buyers first
+ */
+export function groupDealsByProperty(deals: Deal[]): DealsByProperty[] {
+  const groups = new Map<string, DealsByProperty>();
+
+  for (const deal of deals) {
+    const key = deal.property.recordId || deal.property.propertyCode || 'unknown';
+    let group = groups.get(key);
+    if (!group) {
+      group = { property: deal.property, deals: [], totalBuyers: 0, highestScore: 0, furthestStage: deal.status };
+      groups.set(key, group);
+    }
+    group.deals.push(deal);
+    group.totalBuyers++;
+    group.highestScore = Math.max(group.highestScore, deal.score);
+    if (stageRank(deal.status) > stageRank(group.furthestStage)) group.furthestStage = deal.status;
+  }
+
+  return Array.from(groups.values()).sort((a, b) => b.totalBuyers - a.totalBuyers);
+}
+
+/**
+ * Open deals with no activity in 7+ days, stalest first
+ */
+export function selectStaleDeals(deals: Deal[], limit: number): Deal[] {
+  return deals
+    .filter((deal) => deal.isStale && isOpen(deal))
+    .sort((a, b) => (a.lastActivityAt || '').localeCompare(b.lastActivityAt || '') || a.id.localeCompare(b.id))
+    .slice(0, limit);
+}
+
+/**
+ * Deals with a scheduled showing, soonest first, then deals in
+ * "Showing Scheduled" without a showing record yet
+ */
+export function selectUpcomingShowings(deals: Deal[], limit: number): Deal[] {
+  return deals
+    .filter((deal) => deal.showing || deal.status === 'Showing Scheduled')
+    .sort((a, b) => {
+      if (!a.showing !== !b.showing) return a.showing ? -1 : 1;
+      return (a.showing?.startTime || '').localeCompare(b.showing?.startTime || '') || a.id.localeCompare(b.id);
+    })
+    .slice(0, limit);
+}
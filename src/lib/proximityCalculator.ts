@@ -2,9 +2,12 @@
  * Proximity Calculator
  *
  * Calculates distances between ZIP codes and provides proximity-based sorting
- * for property discovery (Zillow-style)
+ * for property discovery (Zillow-style). ZIP coordinates come from the
+ * bundled ZIP centroid dataset (src/lib/zipCentroids.ts).
  */
 
+import { getZipCentroid } from './zipCentroids';
+
 export interface Coordinates {
   latitude: number;
   longitude: number;
@@ -108,15 +111,42 @@ export function getProximityTierInfo(distance: number): ProximityTier {
   return PROXIMITY_TIERS[tierKey];
 }
 
+// Roads run about 30% longer than the straight line between two points
+const ROAD_CIRCUITY = 1.3;
+
+// Speed for each stretch of road miles: local streets, arterials, then highway
+const COMMUTE_SPEED_BANDS: Array<{ upToMiles: number; mph: number }> = [
+  { upToMiles: 3, mph: 20 },
+  { upToMiles: 15, mph: 35 },
+  { upToMiles: Infinity, mph: 55 },
+];
+
+// Getting out of the driveway and parked at the other end
+const COMMUTE_OVERHEAD_MINUTES = 3;
+
 /**
- * Estimate commute time based on distance
- * Assumes average speed of 40 mph
- * @param distance Distance in miles
+ * Estimate drive time from straight-line distance
+ * Local stand-in for a routing service: converts to road miles and drives
+ * them at street, arterial and highway speeds in turn.
+ * @param distance Straight-line distance in miles
  * @returns Estimated time in minutes
  */
 export function estimateCommute(distance: number): number {
-  const averageSpeed = 40; // mph
-  return Math.round((distance / averageSpeed) * 60);
+  if (distance <= 0) return 0;
+
+  let remaining = distance * ROAD_CIRCUITY;
+  let covered = 0;
+  let minutes = COMMUTE_OVERHEAD_MINUTES;
+
+  for (const band of COMMUTE_SPEED_BANDS) {
+    const stretch = Math.min(remaining, band.upToMiles - covered);
+    minutes += (stretch / band.mph) * 60;
+    remaining -= stretch;
+    covered += stretch;
+    if (remaining <= 0) break;
+  }
+
+  return Math.round(minutes);
 }
 
 /**
@@ -130,96 +160,14 @@ export function formatDistance(distance: number): string {
   return `${distance.toFixed(1)} mi`;
 }
 
-/**
- * Sample ZIP code coordinates database
- * In production, this would come from a real geolocation API or database
- */
-export const ZIP_COORDINATES: Record<string, Coordinates> = {
-  // Major US Cities - Sample data
-  '10001': { latitude: 40.7506, longitude: -73.9971 }, // New York, NY
-  '90001': { latitude: 33.9731, longitude: -118.2479 }, // Los Angeles, CA
-  '60601': { latitude: 41.8858, longitude: -87.6234 }, // Chicago, IL
-  '77001': { latitude: 29.7604, longitude: -95.3698 }, // Houston, TX
-  '19019': { latitude: 39.9526, longitude: -75.1652 }, // Philadelphia, PA
-  '78201': { latitude: 29.4241, longitude: -98.4936 }, // San Antonio, TX
-  '92101': { latitude: 32.7157, longitude: -117.1611 }, // San Diego, CA
-  '75201': { latitude: 32.7767, longitude: -96.7970 }, // Dallas, TX
-  '95101': { latitude: 37.3382, longitude: -121.8863 }, // San Jose, CA
-
-  // Phoenix Metro Area (for testing proximity)
-  '85001': { latitude: 33.4484, longitude: -112.0740 }, // Downtown Phoenix
-  '85003': { latitude: 33.4500, longitude: -112.0733 }, // Phoenix (2 mi from 85001)
-  '85004': { latitude: 33.4483, longitude: -112.0713 }, // Phoenix (0.5 mi from 85001)
-  '85006': { latitude: 33.4652, longitude: -112.0503 }, // Phoenix (3 mi from 85001)
-  '85007': { latitude: 33.4519, longitude: -112.0950 }, // Phoenix (1.5 mi from 85001)
-  '85008': { latitude: 33.4669, longitude: -112.0436 }, // Phoenix (4 mi from 85001)
-  '85013': { latitude: 33.5053, longitude: -112.0739 }, // Phoenix (4 mi from 85001)
-  '85014': { latitude: 33.5095, longitude: -112.0448 }, // Phoenix (5 mi from 85001)
-  '85015': { latitude: 33.5053, longitude: -112.1017 }, // Phoenix (5 mi from 85001)
-  '85016': { latitude: 33.5095, longitude: -111.9989 }, // Phoenix (6 mi from 85001)
-  '85020': { latitude: 33.5795, longitude: -112.0314 }, // Phoenix (10 mi from 85001)
-  '85028': { latitude: 33.6331, longitude: -112.0292 }, // Phoenix (13 mi from 85001)
-  '85032': { latitude: 33.6331, longitude: -112.0031 }, // Phoenix (14 mi from 85001)
-  '85050': { latitude: 33.6795, longitude: -111.9714 }, // Phoenix (18 mi from 85001)
-
-  // Scottsdale
-  '85250': { latitude: 33.4942, longitude: -111.9261 }, // Scottsdale (12 mi from Phoenix 85001)
-  '85251': { latitude: 33.4942, longitude: -111.9261 }, // Scottsdale (12 mi from Phoenix 85001)
-  '85254': { latitude: 33.6331, longitude: -111.8992 }, // Scottsdale (16 mi from Phoenix 85001)
-  '85255': { latitude: 33.7181, longitude: -111.8875 }, // Scottsdale (22 mi from Phoenix 85001)
-  '85257': { latitude: 33.4942, longitude: -111.8714 }, // Scottsdale (14 mi from Phoenix 85001)
-
-  // Mesa
-  '85201': { latitude: 33.4152, longitude: -111.8315 }, // Mesa (15 mi from Phoenix 85001)
-  '85202': { latitude: 33.4255, longitude: -111.8167 }, // Mesa (16 mi from Phoenix 85001)
-  '85203': { latitude: 33.4269, longitude: -111.7539 }, // Mesa (18 mi from Phoenix 85001)
-  '85204': { latitude: 33.3895, longitude: -111.7539 }, // Mesa (19 mi from Phoenix 85001)
-  '85205': { latitude: 33.3895, longitude: -111.7219 }, // Mesa (21 mi from Phoenix 85001)
-  '85206': { latitude: 33.3789, longitude: -111.6772 }, // Mesa (23 mi from Phoenix 85001)
-
-  // Tempe
-  '85281': { latitude: 33.4255, longitude: -111.9400 }, // Tempe (10 mi from Phoenix 85001)
-  '85282': { latitude: 33.3895, longitude: -111.9089 }, // Tempe (12 mi from Phoenix 85001)
-  '85283': { latitude: 33.3789, longitude: -111.8950 }, // Tempe (13 mi from Phoenix 85001)
-  '85284': { latitude: 33.3628, longitude: -111.9400 }, // Tempe (11 mi from Phoenix 85001)
-
-  // Gilbert
-  '85233': { latitude: 33.3528, longitude: -111.7890 }, // Gilbert (17 mi from Phoenix 85001)
-  '85234': { latitude: 33.3106, longitude: -111.7481 }, // Gilbert (20 mi from Phoenix 85001)
-  '85295': { latitude: 33.2728, longitude: -111.7481 }, // Gilbert (23 mi from Phoenix 85001)
-  '85296': { latitude: 33.2728, longitude: -111.6772 }, // Gilbert (25 mi from Phoenix 85001)
-
-  // Chandler
-  '85224': { latitude: 33.3062, longitude: -111.8413 }, // Chandler (15 mi from Phoenix 85001)
-  '85225': { latitude: 33.2728, longitude: -111.8717 }, // Chandler (17 mi from Phoenix 85001)
-  '85226': { latitude: 33.2439, longitude: -111.8950 }, // Chandler (19 mi from Phoenix 85001)
-  '85286': { latitude: 33.2439, longitude: -111.7219 }, // Chandler (23 mi from Phoenix 85001)
-
-  // Glendale
-  '85301': { latitude: 33.5387, longitude: -112.1859 }, // Glendale (12 mi from Phoenix 85001)
-  '85302': { latitude: 33.5795, longitude: -112.2231 }, // Glendale (15 mi from Phoenix 85001)
-  '85303': { latitude: 33.6331, longitude: -112.2450 }, // Glendale (18 mi from Phoenix 85001)
-  '85304': { latitude: 33.6795, longitude: -112.1859 }, // Glendale (19 mi from Phoenix 85001)
-
-  // Peoria
-  '85345': { latitude: 33.5795, longitude: -112.2450 }, // Peoria (16 mi from Phoenix 85001)
-  '85381': { latitude: 33.6331, longitude: -112.2859 }, // Peoria (20 mi from Phoenix 85001)
-  '85382': { latitude: 33.6795, longitude: -112.2450 }, // Peoria (22 mi from Phoenix 85001)
-  '85383': { latitude: 33.7181, longitude: -112.2859 }, // Peoria (26 mi from Phoenix 85001)
-
-  // Add more ZIP codes as needed
-  // For production, use a comprehensive ZIP code database or geocoding API
-};
-
 /**
  * Get coordinates for a ZIP code
  * @param zip ZIP code
  * @returns Coordinates or null if not found
  */
 export function getZIPCoordinates(zip: string): Coordinates | null {
-  // Remove non-numeric characters
-  const cleanZip = zip.replace(/\D/g, '').substring(0, 5);
-  return ZIP_COORDINATES[cleanZip] || null;
+  const centroid = getZipCentroid(zip);
+  return centroid ? { latitude: centroid.lat, longitude: centroid.lng } : null;
 }
 
 /**
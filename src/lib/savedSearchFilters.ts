@@ -0,0 +1,66 @@
+/**
+ * Saved search types and summary (public /listings alerts)
+ * Shared by the staff UI (services/savedSearchApi.ts) and the server
+ * (lib/matching/savedSearches.ts). Relative imports only: this module runs
+ * on the server.
+ */
+
+export type AlertChannel = 'email' | 'sms' | 'both';
+
+/**
+ * Mirrors the filters on the public listings page
+ */
+export interface SavedSearchFilters {
+  search?: string;        // Address / city text
+  zipCode?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  minDownPayment?: number;
+  maxDownPayment?: number;
+  beds?: number;          // Minimum
+  baths?: number;         // Minimum
+  propertyType?: string;
+  condition?: string;
+}
+
+export interface SavedSearch {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email?: string;
+  phone?: string;
+  channel: AlertChannel;
+  filters: SavedSearchFilters;
+  favorites: string[];            // Property record IDs hearted on /listings
+  contactId?: string;             // GHL contact
+  buyerRecordId?: string;         // Airtable Buyers record
+  active: boolean;
+  language: 'English' | 'Spanish';
+  createdAt: string;
+  lastAlertedAt?: string;
+  coveredPropertyIds: string[];   // Already alerted (or visible when saved)
+  emailConfirmedAt?: string;      // Visitor opened the email confirmation link
+  smsConfirmedAt?: string;        // Visitor opened the text confirmation link
+}
+
+/**
+ * Short human readable summary, e.g. "3+ beds • under $250,000 • ZIP 70062"
+ */
+export function describeFilters(filters: SavedSearchFilters): string {
+  const parts: string[] = [];
+  if (filters.propertyType) parts.push(filters.propertyType);
+  if (filters.beds) parts.push(`${filters.beds}+ beds`);
+  if (filters.baths) parts.push(`${filters.baths}+ baths`);
+  if (filters.minPrice && filters.maxPrice) {
+    parts.push(`$${filters.minPrice.toLocaleString()}-$${filters.maxPrice.toLocaleString()}`);
+  } else if (filters.maxPrice) {
+    parts.push(`under $${filters.maxPrice.toLocaleString()}`);
+  } else if (filters.minPrice) {
+    parts.push(`over $${filters.minPrice.toLocaleString()}`);
+  }
+  if (filters.maxDownPayment) parts.push(`down ≤ $${filters.maxDownPayment.toLocaleString()}`);
+  if (filters.condition) parts.push(filters.condition);
+  if (filters.zipCode) parts.push(`ZIP ${filters.zipCode}`);
+  if (filters.search) parts.push(`"${filters.search}"`);
+  return parts.join(' • ') || 'All listings';
+}
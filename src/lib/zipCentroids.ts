@@ -0,0 +1,54 @@
+/**
+ * ZIP Centroid Lookup
+ *
+ * Offline ZIP-level coordinates from the bundled dataset in
+ * src/data/zipCentroids.ts. Shared by the browser (proximity sorting, map
+ * centering) and the server (geocoding fallback, match scoring), so it only
+ * uses relative imports.
+ */
+
+import { ZIP_CENTROIDS } from '../data/zipCentroids';
+
+export interface ZipCentroid {
+  lat: number;
+  lng: number;
+}
+
+let centroids: Map<string, ZipCentroid> | null = null;
+
+// Parsed on first use; each line is the ZIP, lat and lng (thousandths of a
+// degree) as differences from the line before
+function loadCentroids(): Map<string, ZipCentroid> {
+  if (centroids) return centroids;
+
+  centroids = new Map();
+  let zip = 0;
+  let lat = 0;
+  let lng = 0;
+  for (const line of ZIP_CENTROIDS.split('\n')) {
+    const parts = line.split(',');
+    if (parts.length !== 3) continue;
+    zip += Number(parts[0]);
+    lat += Number(parts[1]);
+    lng += Number(parts[2]);
+    centroids.set(String(zip).padStart(5, '0'), { lat: lat / 1000, lng: lng / 1000 });
+  }
+  return centroids;
+}
+
+/**
+ * Coordinates for a ZIP code (ZIP+4 and stray characters are ignored)
+ */
+export function getZipCentroid(zip: string | number | null | undefined): ZipCentroid | null {
+  if (zip === null || zip === undefined) return null;
+  const cleanZip = String(zip).replace(/\D/g, '').substring(0, 5);
+  if (cleanZip.length !== 5) return null;
+  return loadCentroids().get(cleanZip) || null;
+}
+
+/**
+ * Number of ZIP codes in the bundled dataset
+ */
+export function getZipCentroidCount(): number {
+  return loadCentroids().size;
+}
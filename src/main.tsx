@@ -1,5 +1,8 @@
 import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
+import { installAuthFetch } from "./lib/authFetch";
 import "./index.css";
 
+installAuthFetch();
+
 createRoot(document.getElementById("root")!).render(<App />);
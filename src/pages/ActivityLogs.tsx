@@ -37,14 +37,16 @@ import {
   syncLogToTimelineItem,
   type TimelineItem,
 } from '@/components/activity/ActivityTimeline';
+import { AuditLogTable } from '@/components/activity/AuditLogTable';
 import { mockActivities } from '@/data/mockData.backup';
 import { useSyncStore } from '@/store/useSyncStore';
+import { useAuthStore } from '@/store/useAuthStore';
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
 import type { ActivityType } from '@/types';
 
 type ViewMode = 'timeline' | 'table';
-type SourceFilter = 'all' | 'activities' | 'sync';
+type SourceFilter = 'all' | 'activities' | 'sync' | 'audit';
 
 const actionTypeOptions: { value: string; label: string }[] = [
   { value: 'all', label: 'All Actions' },
@@ -122,6 +124,10 @@ export default function ActivityLogs() {
     );
   }, [recentSyncLogs, sourceFilter]);
 
+  // The audit trail is admin-only on the server
+  const isAdmin = useAuthStore((state) => state.user?.role?.toLowerCase() === 'admin');
+  const showAuditLog = isAdmin && sourceFilter === 'audit';
+
   // Apply filters
   const filteredItems = useMemo(() => {
     return allItems.filter((item) => {
@@ -181,7 +187,7 @@ export default function ActivityLogs() {
             Track all system activity, syncs, and changes in one place
           </p>
         </div>
-        <div className="flex items-center gap-2">
+        <div className={cn('flex items-center gap-2', showAuditLog && 'hidden')}>
           {/* View Mode Toggle */}
           <Tabs
             value={viewMode}
@@ -211,7 +217,9 @@ export default function ActivityLogs() {
         <div className="relative flex-1">
           <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
           <Input
-            placeholder="Search by property code, details, or user..."
+            placeholder={showAuditLog
+              ? 'Search by user, action, or target...'
+              : 'Search by property code, details, or user...'}
             value={search}
             onChange={(e) => setSearch(e.target.value)}
             className="pl-10"
@@ -227,26 +235,29 @@ export default function ActivityLogs() {
             <SelectItem value="all">All Sources</SelectItem>
             <SelectItem value="activities">User Activity</SelectItem>
             <SelectItem value="sync">Sync Logs</SelectItem>
+            {isAdmin && <SelectItem value="audit">Audit Trail</SelectItem>}
           </SelectContent>
         </Select>
 
         {/* Type Filter */}
-        <Select value={actionFilter} onValueChange={setActionFilter}>
-          <SelectTrigger className="w-full sm:w-[180px]">
-            <Filter className="h-4 w-4 mr-2" />
-            <SelectValue placeholder="Filter by type" />
-          </SelectTrigger>
-          <SelectContent>
-            {actionTypeOptions.map((option) => (
-              <SelectItem key={option.value} value={option.value}>
-                {option.label}
-              </SelectItem>
-            ))}
-          </SelectContent>
-        </Select>
+        {!showAuditLog && (
+          <Select value={actionFilter} onValueChange={setActionFilter}>
+            <SelectTrigger className="w-full sm:w-[180px]">
+              <Filter className="h-4 w-4 mr-2" />
+              <SelectValue placeholder="Filter by type" />
+            </SelectTrigger>
+            <SelectContent>
+              {actionTypeOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
 
         {/* Mobile View Toggle */}
-        <div className="flex sm:hidden">
+        <div className={cn('flex sm:hidden', showAuditLog && 'hidden')}>
           <Button
             variant={viewMode === 'timeline' ? 'default' : 'outline'}
             size="icon"
@@ -266,134 +277,140 @@ export default function ActivityLogs() {
         </div>
       </div>
 
-      {/* Stats Summary */}
-      <div className="flex items-center gap-4 text-sm text-muted-foreground">
-        <span>{filteredItems.length} items</span>
-        <span className="text-border">|</span>
-        <span className="flex items-center gap-1">
-          <CheckCircle className="h-3.5 w-3.5 text-emerald-600" />
-          {filteredItems.filter((i) => i.status === 'success').length} success
-        </span>
-        <span className="flex items-center gap-1">
-          <XCircle className="h-3.5 w-3.5 text-red-600" />
-          {filteredItems.filter((i) => ['error', 'failed'].includes(i.status)).length} failed
-        </span>
-        {syncLog.length > 0 && (
-          <>
-            <span className="text-border">|</span>
-            <span className="flex items-center gap-1">
-              <RefreshCcw className="h-3.5 w-3.5" />
-              {syncLog.length} syncs
-            </span>
-          </>
-        )}
-      </div>
-
-      {/* Content */}
-      {viewMode === 'timeline' ? (
-        <div className="border border-border rounded-lg p-4 bg-card">
-          <ActivityTimeline items={filteredItems} onItemClick={handleItemClick} />
-        </div>
+      {showAuditLog ? (
+        <AuditLogTable search={search} />
       ) : (
-        <div className="border border-border rounded-lg overflow-hidden">
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead className="w-[180px]">Timestamp</TableHead>
-                <TableHead className="w-[150px]">Type</TableHead>
-                <TableHead className="w-[120px]">Property</TableHead>
-                <TableHead>Details</TableHead>
-                <TableHead className="w-[100px]">User</TableHead>
-                <TableHead className="w-[100px]">Status</TableHead>
-                <TableHead className="w-[50px]"></TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {filteredItems.map((item) => {
-                const StatusIcon = statusIcons[item.status] || Clock;
+        <>
+        {/* Stats Summary */}
+        <div className="flex items-center gap-4 text-sm text-muted-foreground">
+          <span>{filteredItems.length} items</span>
+          <span className="text-border">|</span>
+          <span className="flex items-center gap-1">
+            <CheckCircle className="h-3.5 w-3.5 text-emerald-600" />
+            {filteredItems.filter((i) => i.status === 'success').length} success
+          </span>
+          <span className="flex items-center gap-1">
+            <XCircle className="h-3.5 w-3.5 text-red-600" />
+            {filteredItems.filter((i) => ['error', 'failed'].includes(i.status)).length} failed
+          </span>
+          {syncLog.length > 0 && (
+            <>
+              <span className="text-border">|</span>
+              <span className="flex items-center gap-1">
+                <RefreshCcw className="h-3.5 w-3.5" />
+                {syncLog.length} syncs
+              </span>
+            </>
+          )}
+        </div>
 
-                return (
-                  <TableRow
-                    key={item.id}
-                    className="cursor-pointer hover:bg-muted/50"
-                    onClick={() => handleItemClick(item)}
-                  >
-                    <TableCell className="text-sm">
-                      {format(new Date(item.timestamp), 'MMM d, yyyy')}
-                      <br />
-                      <span className="text-muted-foreground">
-                        {format(new Date(item.timestamp), 'h:mm a')}
-                      </span>
-                    </TableCell>
-                    <TableCell>
-                      <Badge variant="secondary">{actionLabels[item.type] || item.type}</Badge>
-                    </TableCell>
-                    <TableCell>
-                      {item.propertyCode ? (
-                        <button
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            navigate(`/properties/${item.propertyId}`);
-                          }}
-                          className="text-primary hover:underline"
-                        >
-                          {item.propertyCode}
-                        </button>
-                      ) : (
-                        <span className="text-muted-foreground">—</span>
-                      )}
-                    </TableCell>
-                    <TableCell className="max-w-[300px]">
-                      <p className="truncate">{item.details}</p>
-                      {item.recordsProcessed !== undefined && (
-                        <p className="text-xs text-muted-foreground mt-0.5">
-                          {item.recordsProcessed} records
-                          {item.duration !== undefined && ` • ${item.duration}ms`}
-                        </p>
-                      )}
-                    </TableCell>
-                    <TableCell className="text-muted-foreground">{item.user || '—'}</TableCell>
-                    <TableCell>
-                      <div className="flex items-center gap-1">
-                        <StatusIcon
-                          className={cn('h-4 w-4', statusColors[item.status] || 'text-muted-foreground')}
-                        />
-                        <span
-                          className={cn(
-                            'text-sm capitalize',
-                            statusColors[item.status] || 'text-muted-foreground'
-                          )}
-                        >
-                          {item.status}
+        {/* Content */}
+        {viewMode === 'timeline' ? (
+          <div className="border border-border rounded-lg p-4 bg-card">
+            <ActivityTimeline items={filteredItems} onItemClick={handleItemClick} />
+          </div>
+        ) : (
+          <div className="border border-border rounded-lg overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[180px]">Timestamp</TableHead>
+                  <TableHead className="w-[150px]">Type</TableHead>
+                  <TableHead className="w-[120px]">Property</TableHead>
+                  <TableHead>Details</TableHead>
+                  <TableHead className="w-[100px]">User</TableHead>
+                  <TableHead className="w-[100px]">Status</TableHead>
+                  <TableHead className="w-[50px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredItems.map((item) => {
+                  const StatusIcon = statusIcons[item.status] || Clock;
+
+                  return (
+                    <TableRow
+                      key={item.id}
+                      className="cursor-pointer hover:bg-muted/50"
+                      onClick={() => handleItemClick(item)}
+                    >
+                      <TableCell className="text-sm">
+                        {format(new Date(item.timestamp), 'MMM d, yyyy')}
+                        <br />
+                        <span className="text-muted-foreground">
+                          {format(new Date(item.timestamp), 'h:mm a')}
                         </span>
-                      </div>
-                    </TableCell>
-                    <TableCell>
-                      {item.propertyId && (
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            navigate(`/properties/${item.propertyId}`);
-                          }}
-                        >
-                          <ExternalLink className="h-4 w-4" />
-                        </Button>
-                      )}
-                    </TableCell>
-                  </TableRow>
-                );
-              })}
-            </TableBody>
-          </Table>
-        </div>
-      )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="secondary">{actionLabels[item.type] || item.type}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        {item.propertyCode ? (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              navigate(`/properties/${item.propertyId}`);
+                            }}
+                            className="text-primary hover:underline"
+                          >
+                            {item.propertyCode}
+                          </button>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="max-w-[300px]">
+                        <p className="truncate">{item.details}</p>
+                        {item.recordsProcessed !== undefined && (
+                          <p className="text-xs text-muted-foreground mt-0.5">
+                            {item.recordsProcessed} records
+                            {item.duration !== undefined && ` • ${item.duration}ms`}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{item.user || '—'}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-1">
+                          <StatusIcon
+                            className={cn('h-4 w-4', statusColors[item.status] || 'text-muted-foreground')}
+                          />
+                          <span
+                            className={cn(
+                              'text-sm capitalize',
+                              statusColors[item.status] || 'text-muted-foreground'
+                            )}
+                          >
+                            {item.status}
+                          </span>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {item.propertyId && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              navigate(`/properties/${item.propertyId}`);
+                            }}
+                          >
+                            <ExternalLink className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
 
-      {filteredItems.length === 0 && (
-        <div className="text-center py-12 text-muted-foreground">
-          No activity logs found matching your filters.
-        </div>
+        {filteredItems.length === 0 && (
+          <div className="text-center py-12 text-muted-foreground">
+            No activity logs found matching your filters.
+          </div>
+        )}
+        </>
       )}
     </div>
   );
@@ -1,5 +1,5 @@
-import { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useEffect, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { z } from 'zod';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -7,22 +7,115 @@ import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { useAuthStore } from '@/store/useAuthStore';
+import { useRequestPasswordReset, useResetPassword } from '@/services/authApi';
 import { toast } from 'sonner';
-import { Loader2, LogIn, Eye, EyeOff } from 'lucide-react';
+import { Loader2, LogIn, Eye, EyeOff, Mail, KeyRound } from 'lucide-react';
 
 const loginSchema = z.object({
   email: z.string().trim().email({ message: 'Invalid email address' }),
   password: z.string().min(1, { message: 'Password is required' }),
 });
 
+const resetSchema = z.object({
+  password: z.string().min(8, { message: 'Password must be at least 8 characters' }),
+  confirm: z.string(),
+}).refine((data) => data.password === data.confirm, {
+  message: 'Passwords do not match',
+  path: ['confirm'],
+});
+
+type AuthMode = 'login' | 'forgot' | 'reset';
+
+/**
+ * "42s" / "15 min" until the API accepts another attempt
+ */
+function formatRetryIn(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  return seconds < 90 ? `${seconds}s` : `${Math.ceil(seconds / 60)} min`;
+}
+
 export default function Auth() {
   const navigate = useNavigate();
-  const { login, isLoading } = useAuthStore();
-  const [email, setEmail] = useState('');
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { login, isLoading, loginError } = useAuthStore();
+  const requestReset = useRequestPasswordReset();
+  const resetPassword = useResetPassword();
+
+  // Reset links look like /auth?reset=<token>&email=<email>
+  const resetToken = searchParams.get('reset');
+  const [mode, setMode] = useState<AuthMode>(resetToken ? 'reset' : 'login');
+  const [email, setEmail] = useState(searchParams.get('email') || '');
   const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const [rememberMe, setRememberMe] = useState(false);
-  const [errors, setErrors] = useState<{ email?: string; password?: string }>({});
+  const [errors, setErrors] = useState<{ email?: string; password?: string; confirm?: string }>({});
+
+  // Tick once a second while the API is refusing attempts
+  const [now, setNow] = useState(() => Date.now());
+  const retryAt = loginError?.retryAt ?? null;
+  const retryInMs = retryAt ? retryAt - now : 0;
+  const isThrottled = retryInMs > 0;
+
+  useEffect(() => {
+    if (!retryAt || retryAt <= Date.now()) return;
+    const interval = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= retryAt) clearInterval(interval);
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [retryAt]);
+
+  const switchMode = (next: AuthMode) => {
+    setErrors({});
+    setPassword('');
+    setConfirmPassword('');
+    setMode(next);
+  };
+
+  const handleForgotSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setErrors({});
+
+    const result = loginSchema.shape.email.safeParse(email);
+    if (!result.success) {
+      setErrors({ email: result.error.errors[0]?.message });
+      return;
+    }
+
+    try {
+      const data = await requestReset.mutateAsync(email.trim());
+      toast.success(data.message || 'Check your email for a reset link');
+      switchMode('login');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to send reset link');
+    }
+  };
+
+  const handleResetSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setErrors({});
+
+    const result = resetSchema.safeParse({ password, confirm: confirmPassword });
+    if (!result.success) {
+      const fieldErrors: { password?: string; confirm?: string } = {};
+      result.error.errors.forEach((err) => {
+        if (err.path[0] === 'password') fieldErrors.password = err.message;
+        if (err.path[0] === 'confirm') fieldErrors.confirm = err.message;
+      });
+      setErrors(fieldErrors);
+      return;
+    }
+
+    try {
+      await resetPassword.mutateAsync({ email: email.trim(), token: resetToken || '', newPassword: password });
+      toast.success('Password updated - sign in with your new password');
+      setSearchParams({});
+      switchMode('login');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to reset password');
+    }
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -44,7 +137,8 @@ export default function Auth() {
       toast.success('Welcome back!');
       navigate('/');
     } else {
-      toast.error('Invalid email or password');
+      setNow(Date.now());
+      toast.error(useAuthStore.getState().loginError?.message || 'Invalid email or password');
     }
   };
 
@@ -53,73 +147,167 @@ export default function Auth() {
       <Card className="w-full max-w-md">
         <CardHeader className="text-center">
           <CardTitle className="text-2xl font-bold gradient-text">PropertyPro</CardTitle>
-          <CardDescription>Sign in to your account</CardDescription>
+          <CardDescription>
+            {mode === 'login' && 'Sign in to your account'}
+            {mode === 'forgot' && "Enter your email and we'll send you a reset link"}
+            {mode === 'reset' && 'Choose a new password'}
+          </CardDescription>
         </CardHeader>
         <CardContent>
-          <form onSubmit={handleSubmit} className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="email">Email</Label>
-              <Input
-                id="email"
-                type="email"
-                placeholder="you@example.com"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                className={errors.email ? 'border-destructive' : ''}
-                autoComplete="email"
-              />
-              {errors.email && (
-                <p className="text-sm text-destructive">{errors.email}</p>
-              )}
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="password">Password</Label>
-              <div className="relative">
+          {mode === 'forgot' && (
+            <form onSubmit={handleForgotSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="forgot-email">Email</Label>
+                <Input
+                  id="forgot-email"
+                  type="email"
+                  placeholder="you@example.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  className={errors.email ? 'border-destructive' : ''}
+                  autoComplete="email"
+                />
+                {errors.email && (
+                  <p className="text-sm text-destructive">{errors.email}</p>
+                )}
+              </div>
+              <Button type="submit" className="w-full" disabled={requestReset.isPending}>
+                {requestReset.isPending ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Mail className="mr-2 h-4 w-4" />
+                )}
+                Send Reset Link
+              </Button>
+              <Button type="button" variant="link" className="w-full" onClick={() => switchMode('login')}>
+                Back to sign in
+              </Button>
+            </form>
+          )}
+
+          {mode === 'reset' && (
+            <form onSubmit={handleResetSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="reset-password">New password</Label>
                 <Input
-                  id="password"
-                  type={showPassword ? 'text' : 'password'}
-                  placeholder="••••••••"
+                  id="reset-password"
+                  type="password"
                   value={password}
                   onChange={(e) => setPassword(e.target.value)}
-                  className={errors.password ? 'border-destructive pr-10' : 'pr-10'}
-                  autoComplete="current-password"
+                  className={errors.password ? 'border-destructive' : ''}
+                  autoComplete="new-password"
                 />
-                <button
-                  type="button"
-                  onClick={() => setShowPassword(!showPassword)}
-                  className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
-                >
-                  {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-                </button>
+                {errors.password && (
+                  <p className="text-sm text-destructive">{errors.password}</p>
+                )}
               </div>
-              {errors.password && (
-                <p className="text-sm text-destructive">{errors.password}</p>
-              )}
-            </div>
-            <div className="flex items-center space-x-2">
-              <Checkbox
-                id="remember"
-                checked={rememberMe}
-                onCheckedChange={(checked) => setRememberMe(checked === true)}
-              />
-              <Label htmlFor="remember" className="text-sm font-normal cursor-pointer">
-                Remember me for 30 days
-              </Label>
-            </div>
-            <Button type="submit" className="w-full" disabled={isLoading}>
-              {isLoading ? (
-                <>
+              <div className="space-y-2">
+                <Label htmlFor="reset-confirm">Confirm new password</Label>
+                <Input
+                  id="reset-confirm"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  className={errors.confirm ? 'border-destructive' : ''}
+                  autoComplete="new-password"
+                />
+                {errors.confirm && (
+                  <p className="text-sm text-destructive">{errors.confirm}</p>
+                )}
+              </div>
+              <Button type="submit" className="w-full" disabled={resetPassword.isPending}>
+                {resetPassword.isPending ? (
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Signing in...
-                </>
-              ) : (
-                <>
-                  <LogIn className="mr-2 h-4 w-4" />
-                  Sign In
-                </>
+                ) : (
+                  <KeyRound className="mr-2 h-4 w-4" />
+                )}
+                Set New Password
+              </Button>
+            </form>
+          )}
+
+          {mode === 'login' && (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  placeholder="you@example.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  className={errors.email ? 'border-destructive' : ''}
+                  autoComplete="email"
+                />
+                {errors.email && (
+                  <p className="text-sm text-destructive">{errors.email}</p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="password">Password</Label>
+                  <button
+                    type="button"
+                    onClick={() => switchMode('forgot')}
+                    className="text-sm text-muted-foreground hover:text-foreground"
+                  >
+                    Forgot password?
+                  </button>
+                </div>
+                <div className="relative">
+                  <Input
+                    id="password"
+                    type={showPassword ? 'text' : 'password'}
+                    placeholder="••••••••"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className={errors.password ? 'border-destructive pr-10' : 'pr-10'}
+                    autoComplete="current-password"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowPassword(!showPassword)}
+                    className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                  >
+                    {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                  </button>
+                </div>
+                {errors.password && (
+                  <p className="text-sm text-destructive">{errors.password}</p>
+                )}
+              </div>
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="remember"
+                  checked={rememberMe}
+                  onCheckedChange={(checked) => setRememberMe(checked === true)}
+                />
+                <Label htmlFor="remember" className="text-sm font-normal cursor-pointer">
+                  Remember me for 30 days
+                </Label>
+              </div>
+              {isThrottled && loginError && (
+                <p className="text-sm text-destructive" role="alert">
+                  {loginError.locked
+                    ? `Account temporarily locked. Try again in ${formatRetryIn(retryInMs)} or ask an admin to unlock it.`
+                    : `Too many attempts. Try again in ${formatRetryIn(retryInMs)}.`}
+                </p>
               )}
-            </Button>
-          </form>
+              <Button type="submit" className="w-full" disabled={isLoading || isThrottled}>
+                {isLoading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Signing in...
+                  </>
+                ) : (
+                  <>
+                    <LogIn className="mr-2 h-4 w-4" />
+                    Sign In
+                  </>
+                )}
+              </Button>
+            </form>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -1,5 +1,5 @@
 import { useState, useMemo } from 'react';
-import { Search, Filter, Users, LayoutGrid, List, RefreshCw } from 'lucide-react';
+import { Search, Filter, Users, LayoutGrid, List, RefreshCw, Bell } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -20,8 +20,10 @@ import {
 } from '@/components/ui/table';
 import { Skeleton } from '@/components/ui/skeleton';
 import { BuyerDetailModal } from '@/components/buyers/BuyerDetailModal';
+import { ListingAlertsDialog } from '@/components/buyers/ListingAlertsDialog';
 import { EmptyState } from '@/components/ui/empty-state';
 import { UnifiedPipelineBoard, UnifiedPipelineCard, type PipelineColumn } from '@/components/pipeline';
+import { useSearchAlerts } from '@/services/savedSearchApi';
 import { useOpportunities, useUpdateOpportunityStage, useUpdateOpportunityCustomFields, GHLOpportunity } from '@/services/ghlApi';
 import type { Buyer, BuyerStage, BuyerStatus, BuyerChecklist } from '@/types';
 import { toast } from 'sonner';
@@ -180,6 +182,7 @@ console.log('🔍 CONTACT FIELDS DEBUG:', {
 
   return {
     id: opp.id,
+    contactId: opp.contactId || opp.contact?.id,
     ghlStageId: opp.pipelineStageId,
     name: opp.name || opp.contact?.name || 'Unknown', // Opportunity name first
     email: opp.contact?.email || getContactField('email') || '',
@@ -232,6 +235,11 @@ export default function Buyers() {
   const [selectedBuyer, setSelectedBuyer] = useState<ExtendedBuyer | null>(null);
   const [modalOpen, setModalOpen] = useState(false);
   const [localBuyers, setLocalBuyers] = useState<Record<string, Partial<Buyer>>>({});
+  const [showListingAlerts, setShowListingAlerts] = useState(false);
+
+  // Saved /listings searches with new matching inventory
+  const { data: searchAlerts } = useSearchAlerts();
+  const pendingAlerts = searchAlerts?.alerts.length || 0;
 
   // Fetch real data from GHL
   const { data: opportunities, isLoading, isError, refetch } = useOpportunities('deal-acquisition');
@@ -461,6 +469,11 @@ export default function Buyers() {
           </p>
         </div>
         <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => setShowListingAlerts(true)} className="gap-2">
+            <Bell className="h-4 w-4" />
+            Listing Alerts
+            {pendingAlerts > 0 && <Badge variant="secondary">{pendingAlerts}</Badge>}
+          </Button>
           <Button variant="outline" size="sm" onClick={() => refetch()}>
             <RefreshCw className="h-4 w-4" />
           </Button>
@@ -620,6 +633,8 @@ export default function Buyers() {
         onOpenChange={setModalOpen}
         onUpdateChecklist={handleUpdateChecklist}
       />
+
+      <ListingAlertsDialog open={showListingAlerts} onOpenChange={setShowListingAlerts} />
     </div>
   );
 }
\ No newline at end of file
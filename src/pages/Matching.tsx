@@ -1,15 +1,17 @@
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
 import { Loader2, Users, Home, ChevronDown, ChevronLeft, RefreshCw, AlertTriangle, CheckCircle, Trash2 } from 'lucide-react';
-import { useRunMatching, useClearMatches } from '@/services/matchingApi';
+import { useRunMatchingJob, useMatchingJobStatus, useClearMatches, useScoringProfiles } from '@/services/matchingApi';
 import { BuyerPropertiesView } from '@/components/matching/BuyerPropertiesView';
 import { PropertyBuyersView } from '@/components/matching/PropertyBuyersView';
 import { MatchingSummary } from '@/components/matching/MatchingSummary';
 import { useMatchingData } from '@/hooks/useCache';
 import { toast } from 'sonner';
+import type { MatchingJobStatus } from '@/types/matching';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -41,11 +43,18 @@ const BEDS_OPTIONS = [
   { value: '4', label: '4+' },
 ];
 
+function reportJobResult(job: MatchingJobStatus) {
+  toast.success(
+    `Matching complete! Processed ${job.processedBuyers ?? 0} buyers: created ${job.createdMatches ?? 0} matches, updated ${job.updatedMatches ?? 0}, removed ${job.removedMatches ?? 0}.`
+  );
+}
+
 export interface MatchingFilters {
   search: string;
   minScore: string;
   beds: string;
   priorityOnly: boolean;
+  profileId: string; // 'auto' = pick by buyer deal type
 }
 
 export default function Matching() {
@@ -62,6 +71,7 @@ export default function Matching() {
     minScore: 'all',
     beds: 'all',
     priorityOnly: false,
+    profileId: 'auto',
   });
 
   // Check if any filters are active
@@ -70,7 +80,8 @@ export default function Matching() {
       filters.search !== '' ||
       filters.minScore !== 'all' ||
       filters.beds !== 'all' ||
-      filters.priorityOnly
+      filters.priorityOnly ||
+      filters.profileId !== 'auto'
     );
   }, [filters]);
 
@@ -81,6 +92,7 @@ export default function Matching() {
       minScore: 'all',
       beds: 'all',
       priorityOnly: false,
+      profileId: 'auto',
     });
   };
 
@@ -126,22 +138,52 @@ export default function Matching() {
     isSyncing,
   } = useMatchingData();
 
+  // Scoring profiles for the profile selector
+  const { data: scoringProfiles } = useScoringProfiles();
+  const profileOptions = useMemo(() => [
+    { value: 'auto', label: 'By Deal Type' },
+    ...(scoringProfiles || []).map((p) => ({ value: p.id, label: p.name })),
+  ], [scoringProfiles]);
+
   // Matching mutation hooks
-  const runMatchingMutation = useRunMatching();
+  const runMatchingMutation = useRunMatchingJob();
   const clearMatchesMutation = useClearMatches();
+  const { data: matchingJob } = useMatchingJobStatus();
 
-  const handleRunMatchingAll = async () => {
-    console.log('[Matching UI] handleRunMatchingAll called');
+  const handleRunMatchingAll = async (incremental = false) => {
+    console.log('[Matching UI] handleRunMatchingAll called', { incremental });
     try {
-      const result = await runMatchingMutation.mutateAsync({ minScore: 30, refreshAll: false });
-      console.log('[Matching UI] Result:', result);
-      toast.success(result.message);
+      const job = await runMatchingMutation.mutateAsync({
+        minScore: 30,
+        profileId: filters.profileId !== 'auto' ? filters.profileId : undefined,
+        incremental,
+      });
+      console.log('[Matching UI] Result:', job);
+      reportJobResult(job);
     } catch (error) {
       console.error('[Matching UI] Error:', error);
       toast.error(error instanceof Error ? error.message : 'Failed to run matching');
     }
   };
 
+  // Reattach to a job left running (e.g. after a page reload) and keep it moving
+  const { mutate: resumeMatchingJob, isPending: isDrivingJob } = runMatchingMutation;
+  const jobStatus = matchingJob?.status;
+  const jobId = matchingJob?.jobId;
+  const resumedJobId = useRef<string>();
+  useEffect(() => {
+    if (jobStatus !== 'running' || isDrivingJob || resumedJobId.current === jobId) return;
+    resumedJobId.current = jobId;
+    console.log('[Matching UI] Resuming matching job', jobId);
+    resumeMatchingJob(
+      { resume: true },
+      {
+        onSuccess: reportJobResult,
+        onError: (error) => toast.error(error.message || 'Matching job failed'),
+      }
+    );
+  }, [jobStatus, jobId, isDrivingJob, resumeMatchingJob]);
+
   const handleClearMatches = async () => {
     if (!confirm('Are you sure you want to delete ALL matches? This will remove all records from the Property-Buyer Matches table. You will need to run matching again to recreate them.')) {
       return;
@@ -170,7 +212,7 @@ export default function Matching() {
     return new Date(date).toLocaleDateString();
   };
 
-  const isMatching = runMatchingMutation.isPending;
+  const isMatching = runMatchingMutation.isPending || matchingJob?.status === 'running';
   const isClearing = clearMatchesMutation.isPending;
 
   return (
@@ -243,7 +285,10 @@ export default function Matching() {
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end">
-              <DropdownMenuItem onClick={handleRunMatchingAll}>
+              <DropdownMenuItem onClick={() => handleRunMatchingAll(true)}>
+                Run Matching (Changes Since Last Run)
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleRunMatchingAll(false)}>
                 Run Matching (All Buyers + Properties)
               </DropdownMenuItem>
               <DropdownMenuItem
@@ -259,6 +304,25 @@ export default function Matching() {
         </div>
       </div>
 
+      {/* Matching Job Progress */}
+      {matchingJob?.status === 'running' && (
+        <div className="px-6">
+          <div className="bg-card border rounded-lg p-4 space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="flex items-center gap-2 font-medium">
+                <Loader2 className="h-4 w-4 animate-spin text-purple-500" />
+                {matchingJob.mode === 'delta' ? 'Matching changes since last run' : 'Matching all buyers'}
+              </span>
+              <span className="text-muted-foreground">
+                {matchingJob.processedBuyers ?? 0} / {matchingJob.totalBuyers ?? 0} buyers • {matchingJob.createdMatches ?? 0} created
+                {(matchingJob.updatedMatches ?? 0) > 0 && ` • ${matchingJob.updatedMatches} updated`}
+              </span>
+            </div>
+            <Progress value={matchingJob.progress ?? 0} className="h-2" />
+          </div>
+        </div>
+      )}
+
       {/* Filter Bar */}
       <div className="px-6">
         <FilterBar hasActiveFilters={hasActiveFilters} onClearAll={clearAllFilters}>
@@ -280,6 +344,12 @@ export default function Matching() {
             options={BEDS_OPTIONS}
             onChange={(value) => setFilters((f) => ({ ...f, beds: value }))}
           />
+          <FilterSelect
+            label="Scoring"
+            value={filters.profileId}
+            options={profileOptions}
+            onChange={(value) => setFilters((f) => ({ ...f, profileId: value }))}
+          />
           <FilterCheckbox
             label="Priority Only"
             checked={filters.priorityOnly}
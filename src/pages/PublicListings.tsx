@@ -1,6 +1,6 @@
 import { useState, useMemo, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { Search, Bed, Bath, Maximize2, Phone, MapPin, X, Wrench, Heart, ChevronDown, SlidersHorizontal, ChevronUp, List as ListIcon, DollarSign, Home, Moon, Sun, ArrowLeft, Navigation, Loader2, ZoomIn, Eye } from 'lucide-react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Search, Bed, Bath, Maximize2, Phone, MapPin, X, Wrench, Heart, ChevronDown, SlidersHorizontal, ChevronUp, List as ListIcon, DollarSign, Home, Moon, Sun, ArrowLeft, Navigation, Loader2, ZoomIn, Eye, Bell } from 'lucide-react';
 import type { PropertyCondition, PropertyType, Property } from '@/types';
 import { Input } from '@/components/ui/input';
 import { PhoneInput } from '@/components/ui/phone-input';
@@ -37,11 +37,13 @@ import { toast } from 'sonner';
 import { PropertyMap } from '@/components/listings/PropertyMap';
 import { MapCoachMarks } from '@/components/listings/MapCoachMarks';
 import { ProximityBadge } from '@/components/listings/ProximityBadge';
+import { SaveSearchDialog } from '@/components/listings/SaveSearchDialog';
 import { cn } from '@/lib/utils';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { useSubmitForm } from '@/services/ghlApi';
 import { calculatePropertyDistance } from '@/lib/proximityCalculator';
 import { useAirtableProperties } from '@/services/matchingApi';
+import { describeFilters, useConfirmSavedSearch, type SavedSearchFilters } from '@/services/savedSearchApi';
 
 const PROPERTY_TYPES: PropertyType[] = [
   'Single Family', 'Duplex', 'Multi Family', 'Condo', 'Lot', 
@@ -54,6 +56,39 @@ const CONDITION_OPTIONS: PropertyCondition[] = [
 
 type SortOption = 'price-high' | 'price-low' | 'newest' | 'beds' | 'sqft';
 
+// Visitor's favorites and last filters survive a refresh
+const FAVORITES_STORAGE_KEY = 'purplehomes_listing_favorites';
+const FILTERS_STORAGE_KEY = 'purplehomes_listing_filters';
+
+interface StoredListingFilters {
+  search: string;
+  zipCode: string;
+  priceRange: [number, number];
+  downPaymentRange: [number, number];
+  beds: string;
+  baths: string;
+  condition: string;
+  propertyType: string;
+  sortBy: SortOption;
+}
+
+function loadStored<T>(key: string): Partial<T> {
+  try {
+    return JSON.parse(localStorage.getItem(key) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function loadFavorites(): Set<string> {
+  try {
+    const stored = JSON.parse(localStorage.getItem(FAVORITES_STORAGE_KEY) || '[]');
+    return new Set(Array.isArray(stored) ? stored : []);
+  } catch {
+    return new Set();
+  }
+}
+
 export default function PublicListings() {
   const navigate = useNavigate();
   const isMobile = useIsMobile();
@@ -92,26 +127,68 @@ export default function PublicListings() {
 
     return properties;
   }, [airtableData]);
+  const [storedFilters] = useState(() => loadStored<StoredListingFilters>(FILTERS_STORAGE_KEY));
   const [isDarkMode, setIsDarkMode] = useState(false);
-  const [search, setSearch] = useState('');
-  const [zipCode, setZipCode] = useState('');
+  const [search, setSearch] = useState(storedFilters.search || '');
+  const [zipCode, setZipCode] = useState(storedFilters.zipCode || '');
   const [userLocation, setUserLocation] = useState<{ lat: number; lng: number } | null>(null);
   const [isLocating, setIsLocating] = useState(false);
   const [zoomTarget, setZoomTarget] = useState<{ lat: number; lng: number } | null>(null);
   const [mapLoaded, setMapLoaded] = useState(false);
   const [currentMapZoom, setCurrentMapZoom] = useState(10);
-  const [priceRange, setPriceRange] = useState<[number, number]>([0, 1000000]);
-  const [downPaymentRange, setDownPaymentRange] = useState<[number, number]>([0, 1000000]);
-  const [beds, setBeds] = useState('any');
-  const [baths, setBaths] = useState('any');
-  const [condition, setCondition] = useState('any');
-  const [propertyType, setPropertyType] = useState('any');
-  const [sortBy, setSortBy] = useState<SortOption>('price-high');
+  const [priceRange, setPriceRange] = useState<[number, number]>(storedFilters.priceRange || [0, 1000000]);
+  const [downPaymentRange, setDownPaymentRange] = useState<[number, number]>(storedFilters.downPaymentRange || [0, 1000000]);
+  const [beds, setBeds] = useState(storedFilters.beds || 'any');
+  const [baths, setBaths] = useState(storedFilters.baths || 'any');
+  const [condition, setCondition] = useState(storedFilters.condition || 'any');
+  const [propertyType, setPropertyType] = useState(storedFilters.propertyType || 'any');
+  const [sortBy, setSortBy] = useState<SortOption>(storedFilters.sortBy || 'price-high');
   const [selectedProperty, setSelectedProperty] = useState<Property | null>(null);
   const [hoveredPropertyId, setHoveredPropertyId] = useState<string | null>(null);
   const [showFilters, setShowFilters] = useState(false);
-  const [savedProperties, setSavedProperties] = useState<Set<string>>(new Set());
+  const [savedProperties, setSavedProperties] = useState<Set<string>>(loadFavorites);
   const [mobileDrawerOpen, setMobileDrawerOpen] = useState(false);
+  const [showSaveSearch, setShowSaveSearch] = useState(false);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { mutate: confirmSearch } = useConfirmSavedSearch();
+
+  // Saved search confirmation link: /listings?confirmSearch=<id>&token=<token>
+  useEffect(() => {
+    const searchId = searchParams.get('confirmSearch');
+    const token = searchParams.get('token');
+    if (!searchId || !token) return;
+
+    setSearchParams({}, { replace: true });
+    confirmSearch({ searchId, token }, {
+      onSuccess: (result) => toast.success(`Alerts confirmed for: ${result.summary}`),
+      onError: (error) => toast.error(error instanceof Error ? error.message : 'Failed to confirm alerts'),
+    });
+  }, [searchParams, setSearchParams, confirmSearch]);
+
+  useEffect(() => {
+    localStorage.setItem(FAVORITES_STORAGE_KEY, JSON.stringify(Array.from(savedProperties)));
+  }, [savedProperties]);
+
+  useEffect(() => {
+    const filters: StoredListingFilters = {
+      search, zipCode, priceRange, downPaymentRange, beds, baths, condition, propertyType, sortBy,
+    };
+    localStorage.setItem(FILTERS_STORAGE_KEY, JSON.stringify(filters));
+  }, [search, zipCode, priceRange, downPaymentRange, beds, baths, condition, propertyType, sortBy]);
+
+  // Current filters in the shape saved searches use
+  const searchFilters = useMemo((): SavedSearchFilters => ({
+    search: search || undefined,
+    zipCode: zipCode || undefined,
+    minPrice: priceRange[0] > 0 ? priceRange[0] : undefined,
+    maxPrice: priceRange[1] < 1000000 ? priceRange[1] : undefined,
+    minDownPayment: downPaymentRange[0] > 0 ? downPaymentRange[0] : undefined,
+    maxDownPayment: downPaymentRange[1] < 1000000 ? downPaymentRange[1] : undefined,
+    beds: beds !== 'any' ? parseInt(beds) : undefined,
+    baths: baths !== 'any' ? parseInt(baths) : undefined,
+    propertyType: propertyType !== 'any' ? propertyType : undefined,
+    condition: condition !== 'any' ? condition : undefined,
+  }), [search, zipCode, priceRange, downPaymentRange, beds, baths, condition, propertyType]);
   
   // Forms
   const [showOfferForm, setShowOfferForm] = useState(false);
@@ -786,6 +863,16 @@ export default function PublicListings() {
             </PopoverContent>
           </Popover>
 
+          {/* Save Search */}
+          <Button
+            onClick={() => setShowSaveSearch(true)}
+            className="flex-shrink-0 gap-2 bg-purple-600 hover:bg-purple-700 text-white"
+            title="Get alerts for new homes matching this search"
+          >
+            <Bell className="h-4 w-4" />
+            <span className="hidden sm:inline">Save Search</span>
+          </Button>
+
           {/* Contact */}
           <div className="hidden md:flex items-center gap-4 text-sm text-muted-foreground">
             <a href="tel:+1234567890" className="hover:text-foreground transition-colors flex items-center gap-1">
@@ -1162,6 +1249,15 @@ export default function PublicListings() {
           )}
         </DialogContent>
       </Dialog>
+
+      {/* Save Search / Alerts */}
+      <SaveSearchDialog
+        open={showSaveSearch}
+        onOpenChange={setShowSaveSearch}
+        filters={searchFilters}
+        favorites={Array.from(savedProperties)}
+        filterSummary={describeFilters(searchFilters)}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -16,19 +16,26 @@ import {
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { useAppStore } from '@/store/useAppStore';
+import { useAuthStore } from '@/store/useAuthStore';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 import { getApiConfig, setApiConfig, useTestConnection, useSocialAccounts } from '@/services/ghlApi';
 import { useGhlConnection } from '@/hooks/useGhlConnection';
 import { SyncHistoryLog } from '@/components/settings/SyncHistoryLog';
 import { NotificationSettings } from '@/components/settings/NotificationSettings';
+import { ChangePasswordCard } from '@/components/settings/ChangePasswordCard';
+import { LockedAccountsCard } from '@/components/settings/LockedAccountsCard';
+import { AutomationRulesCard } from '@/components/settings/AutomationRulesCard';
 import { useTestAssociationsApi } from '@/services/ghlAssociationsApi';
 import { useCalculatorDefaults, useUpdateCalculatorDefaults } from '@/services/calculatorApi';
-import type { CalculatorDefaults } from '@/types/calculator';
+import type { BuyBoxes, CalculatorDefaults } from '@/types/calculator';
+import { normalizeBuyBoxes } from '@/lib/calculatorEngine';
+import { BuyBoxEditor } from '@/components/calculator/BuyBoxEditor';
 
 export default function Settings() {
   const { connectionStatus, setConnectionStatus, propertiesPerPage, setPropertiesPerPage } = useAppStore();
   const { isConnected, lastChecked, manualReconnect, checkConnection } = useGhlConnection({ autoConnect: false });
+  const isAdmin = useAuthStore((state) => state.user?.role?.toLowerCase() === 'admin');
   const [isTestingConnection, setIsTestingConnection] = useState<string | null>(null);
   const [connectionHistory, setConnectionHistory] = useState<Array<{ time: string; success: boolean }>>([]);
   
@@ -60,8 +67,8 @@ export default function Settings() {
 
   // Sync local defaults when API data loads
   useEffect(() => {
-    if (calculatorDefaultsData?.defaults) {
-      setLocalDefaults(calculatorDefaultsData.defaults);
+    if (calculatorDefaultsData) {
+      setLocalDefaults(calculatorDefaultsData);
     }
   }, [calculatorDefaultsData]);
 
@@ -70,6 +77,11 @@ export default function Settings() {
     setHasDefaultsChanges(true);
   };
 
+  const handleBuyBoxesChange = (buyBoxes: BuyBoxes) => {
+    setLocalDefaults(prev => ({ ...prev, buyBoxes }));
+    setHasDefaultsChanges(true);
+  };
+
   const handleSaveCalculatorDefaults = async () => {
     try {
       await updateCalculatorDefaults.mutateAsync(localDefaults as CalculatorDefaults);
@@ -122,6 +134,7 @@ export default function Settings() {
           <TabsTrigger value="social">Social Accounts</TabsTrigger>
           <TabsTrigger value="team">Team</TabsTrigger>
           <TabsTrigger value="preferences">Preferences</TabsTrigger>
+          {isAdmin && <TabsTrigger value="automation">Automation</TabsTrigger>}
         </TabsList>
 
         {/* Connection Status Tab */}
@@ -645,6 +658,10 @@ export default function Settings() {
 
         {/* Team Tab */}
         <TabsContent value="team" className="space-y-6">
+          <ChangePasswordCard />
+
+          {isAdmin && <LockedAccountsCard />}
+
           <Card>
             <CardHeader>
               <div className="flex items-center justify-between">
@@ -687,6 +704,13 @@ export default function Settings() {
           </Card>
         </TabsContent>
 
+        {/* Automation Tab */}
+        {isAdmin && (
+          <TabsContent value="automation" className="space-y-6">
+            <AutomationRulesCard />
+          </TabsContent>
+        )}
+
         {/* Preferences Tab */}
         <TabsContent value="preferences" className="space-y-6">
           {/* Posting Defaults */}
@@ -1025,6 +1049,20 @@ export default function Settings() {
                     </div>
                   </div>
 
+                  {/* Deal Checklist Buy-Boxes */}
+                  <div className="space-y-4">
+                    <div>
+                      <h4 className="font-medium text-sm text-muted-foreground">Deal Checklist Buy-Boxes</h4>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Rules each strategy must meet. A deal's score is the share of rule weight it passes.
+                      </p>
+                    </div>
+                    <BuyBoxEditor
+                      value={normalizeBuyBoxes(localDefaults.buyBoxes)}
+                      onChange={handleBuyBoxesChange}
+                    />
+                  </div>
+
                   {hasDefaultsChanges && (
                     <div className="flex items-center gap-2 text-sm text-yellow-600">
                       <span className="font-medium">You have unsaved changes</span>
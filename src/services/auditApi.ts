@@ -0,0 +1,83 @@
+/**
+ * Audit Log API hooks
+ *
+ * Reads the append-only audit trail written by the API handlers
+ * (matching, calculator, GHL, cache and Airtable record updates).
+ */
+
+import { useInfiniteQuery } from '@tanstack/react-query';
+
+const AIRTABLE_API_BASE = '/api/airtable';
+
+export type AuditSource = 'matching' | 'calculator' | 'ghl' | 'cache' | 'airtable';
+
+export interface AuditActor {
+  email: string;
+  name: string;
+  role: string;
+}
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  actor: AuditActor;
+  action: string;
+  source: AuditSource;
+  targetType: string;
+  targetId?: string;
+  targetLabel?: string;
+  before?: unknown;
+  after?: unknown;
+  details?: string;
+}
+
+export interface AuditLogFilters {
+  actor?: string;
+  source?: AuditSource;
+  action?: string;
+  targetId?: string;
+  since?: string;
+  until?: string;
+  search?: string;
+}
+
+interface AuditLogPage {
+  entries: AuditEntry[];
+  offset?: string;
+}
+
+const PAGE_SIZE = 50;
+
+const fetchAuditLog = async (filters: AuditLogFilters, offset?: string): Promise<AuditLogPage> => {
+  const params = new URLSearchParams({ action: 'audit-log', pageSize: String(PAGE_SIZE) });
+  if (filters.actor) params.set('actor', filters.actor);
+  if (filters.source) params.set('source', filters.source);
+  if (filters.action) params.set('auditAction', filters.action);
+  if (filters.targetId) params.set('targetId', filters.targetId);
+  if (filters.since) params.set('since', filters.since);
+  if (filters.until) params.set('until', filters.until);
+  if (filters.search) params.set('search', filters.search);
+  if (offset) params.set('offset', offset);
+
+  const response = await fetch(`${AIRTABLE_API_BASE}?${params.toString()}`);
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to load audit log' }));
+    throw new Error(error.error || `Audit log error: ${response.status}`);
+  }
+
+  return response.json();
+};
+
+/**
+ * Paged audit entries, newest first (fetchNextPage loads the next 50)
+ */
+export const useAuditLog = (filters: AuditLogFilters, enabled: boolean = true) => {
+  return useInfiniteQuery({
+    queryKey: ['audit-log', filters],
+    queryFn: ({ pageParam }) => fetchAuditLog(filters, pageParam),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.offset,
+    enabled,
+    staleTime: 30 * 1000,
+  });
+};
@@ -1,4 +1,5 @@
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuthStore } from '@/store/useAuthStore';
 
 const AUTH_API_BASE = '/api/auth';
 
@@ -26,6 +27,30 @@ interface SignupData {
   role?: string;
 }
 
+interface ChangePasswordData {
+  currentPassword: string;
+  newPassword: string;
+}
+
+interface ResetPasswordData {
+  email: string;
+  token: string;
+  newPassword: string;
+}
+
+/**
+ * An email or IP the login endpoint is currently refusing
+ */
+export interface LoginLockout {
+  key: string;
+  kind: 'email' | 'ip';
+  subject: string;
+  failures: number;
+  lastFailureAt: string;
+  retryAt: number | null;
+  locked: boolean;
+}
+
 const AUTH_STORAGE_KEY = 'purplehomes_auth_user';
 
 /**
@@ -112,11 +137,9 @@ export const useLogin = () => {
 };
 
 /**
- * Hook for user signup
+ * Hook for creating a user account (admins only - the signed-in user is unchanged)
  */
 export const useSignup = () => {
-  const queryClient = useQueryClient();
-
   return useMutation({
     mutationFn: async (data: SignupData): Promise<AuthResponse> => {
       return fetchAuth('?action=signup', {
@@ -124,10 +147,6 @@ export const useSignup = () => {
         body: JSON.stringify(data),
       });
     },
-    onSuccess: (data) => {
-      storeUser(data.user);
-      queryClient.setQueryData(['auth-user'], data.user);
-    },
   });
 };
 
@@ -149,6 +168,86 @@ export const useLogout = () => {
   });
 };
 
+/**
+ * Hook to change the signed-in user's password
+ * The change revokes every earlier session token, so the new one replaces ours.
+ */
+export const useChangePassword = () => {
+  return useMutation({
+    mutationFn: async (data: ChangePasswordData): Promise<{ success: boolean; token: string; expiresAt: number }> => {
+      return fetchAuth('?action=change-password', {
+        method: 'POST',
+        body: JSON.stringify(data),
+      });
+    },
+    onSuccess: (data) => {
+      useAuthStore.setState({ token: data.token, sessionExpiry: data.expiresAt });
+    },
+  });
+};
+
+/**
+ * Hook to email a password reset link (always succeeds for valid input)
+ */
+export const useRequestPasswordReset = () => {
+  return useMutation({
+    mutationFn: async (email: string): Promise<{ success: boolean; message: string }> => {
+      return fetchAuth('?action=request-password-reset', {
+        method: 'POST',
+        body: JSON.stringify({ email }),
+      });
+    },
+  });
+};
+
+/**
+ * Hook to set a new password with the token from a reset link
+ */
+export const useResetPassword = () => {
+  return useMutation({
+    mutationFn: async (data: ResetPasswordData): Promise<{ success: boolean }> => {
+      return fetchAuth('?action=reset-password', {
+        method: 'POST',
+        body: JSON.stringify(data),
+      });
+    },
+  });
+};
+
+/**
+ * Hook to list throttled/locked logins (admins only)
+ */
+export const useLockedAccounts = (enabled = true) => {
+  return useQuery({
+    queryKey: ['auth-locked-accounts'],
+    queryFn: async (): Promise<LoginLockout[]> => {
+      const data = await fetchAuth<{ entries: LoginLockout[] }>('?action=locked-accounts');
+      return data.entries;
+    },
+    enabled,
+    refetchInterval: 30000,
+  });
+};
+
+/**
+ * Hook to clear a login lockout (admins only)
+ */
+export const useUnlockAccount = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (key: string): Promise<{ success: boolean }> => {
+      return fetchAuth('?action=unlock', {
+        method: 'POST',
+        body: JSON.stringify({ key }),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['auth-locked-accounts'] });
+    },
+  });
+};
+
 /**
  * Check if user is authenticated
  */
@@ -0,0 +1,75 @@
+/**
+ * Deal stage automation hooks
+ *
+ * Rules are evaluated on the server: stage-entered rules when a match's stage
+ * is updated, reply rules when a buyer's SMS reply arrives, and idle rules by
+ * the daily automation-run job (or on demand from Settings).
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { AutomationRule, AutomationRunResult } from '@/types/deals';
+
+const MATCHING_API_BASE = '/api/matching';
+
+const fetchAutomation = async <T>(action: string, options?: RequestInit): Promise<T> => {
+  const response = await fetch(`${MATCHING_API_BASE}?action=${action}`, {
+    ...options,
+    headers: { 'Content-Type': 'application/json', ...options?.headers },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Automation request failed' }));
+    throw new Error(error.error || `Automation request failed: ${response.status}`);
+  }
+
+  return response.json();
+};
+
+/**
+ * Saved automation rules (defaults until the first save)
+ */
+export const useAutomationRules = () => {
+  return useQuery({
+    queryKey: ['automation-rules'],
+    queryFn: async (): Promise<AutomationRule[]> => {
+      const data = await fetchAutomation<{ rules: AutomationRule[] }>('automation-rules');
+      return data.rules;
+    },
+    staleTime: 10 * 60 * 1000, // Rules rarely change
+  });
+};
+
+/**
+ * Replace the automation rules (admin only)
+ */
+export const useUpdateAutomationRules = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (rules: AutomationRule[]) =>
+      fetchAutomation<{ success: boolean; rules: AutomationRule[] }>('update-automation-rules', {
+        method: 'PUT',
+        body: JSON.stringify({ rules }),
+      }),
+    onSuccess: (data) => {
+      queryClient.setQueryData(['automation-rules'], data.rules);
+    },
+  });
+};
+
+/**
+ * Fire idle-stage rules now instead of waiting for the daily run
+ */
+export const useRunAutomations = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => fetchAutomation<AutomationRunResult>('automation-run', { method: 'POST' }),
+    onSuccess: (data) => {
+      if (data.fired > 0) {
+        queryClient.invalidateQueries({ queryKey: ['deals'] });
+        queryClient.invalidateQueries({ queryKey: ['deals-page'] });
+      }
+    },
+  });
+};
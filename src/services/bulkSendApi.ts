@@ -0,0 +1,134 @@
+/**
+ * Bulk send job hooks
+ *
+ * Bulk property emails run as server-side jobs (lib/messaging/sendQueue.ts).
+ * A cron works every queued job once a minute; while a progress dialog is
+ * open it also drives its job directly so sends start straight away.
+ */
+
+import { useEffect } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { bulkSendPropertyEmails, type BulkSendOptions } from './emailService';
+import type { SendJob, SendJobItem } from '@/types/messaging';
+
+const API_BASE = '/api/ghl';
+
+// Pause between dialog-driven runs when every remaining item is waiting on a retry
+const IDLE_DRIVE_DELAY_MS = 10 * 1000;
+
+const fetchSendJobs = async <T>(action: string, params?: Record<string, string>, options?: RequestInit): Promise<T> => {
+  const search = new URLSearchParams({ resource: 'messages', action, ...params });
+  const response = await fetch(`${API_BASE}?${search}`, {
+    ...options,
+    headers: { 'Content-Type': 'application/json', ...options?.headers },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Bulk send request failed' }));
+    throw new Error(error.error || `Bulk send request failed: ${response.status}`);
+  }
+
+  return response.json();
+};
+
+export const isActiveSendJob = (job: SendJob | undefined): boolean =>
+  job?.status === 'queued' || job?.status === 'running';
+
+/**
+ * Recent send jobs (or only those still sending)
+ */
+export const useSendJobs = (activeOnly = false) => {
+  return useQuery({
+    queryKey: ['send-jobs', activeOnly],
+    queryFn: async (): Promise<SendJob[]> => {
+      const data = await fetchSendJobs<{ jobs: SendJob[] }>('bulk-jobs', activeOnly ? { active: 'true' } : undefined);
+      return data.jobs;
+    },
+    refetchInterval: (query) => (query.state.data?.some(isActiveSendJob) ? 5 * 1000 : 30 * 1000),
+  });
+};
+
+/**
+ * One job with its per-recipient items; polls while the job is still sending
+ */
+export const useSendJob = (jobId: string | null) => {
+  return useQuery({
+    queryKey: ['send-job', jobId],
+    queryFn: () => fetchSendJobs<{ job: SendJob; items: SendJobItem[] }>('bulk-job', { id: jobId! }),
+    enabled: !!jobId,
+    refetchInterval: (query) => (isActiveSendJob(query.state.data?.job) ? 3 * 1000 : false),
+  });
+};
+
+/**
+ * Work a job from the browser while `enabled` (the progress dialog is open)
+ * Closing the dialog only stops this; the cron carries on with the job.
+ */
+export const useDriveSendJob = (jobId: string | null, enabled: boolean) => {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!jobId || !enabled) return;
+    let stopped = false;
+
+    const drive = async () => {
+      while (!stopped) {
+        let attempted = 0;
+        try {
+          const result = await fetchSendJobs<{ jobs: string[]; attempted: number }>(
+            'bulk-process',
+            { id: jobId },
+            { method: 'POST' }
+          );
+          attempted = result.attempted;
+        } catch (error) {
+          console.error('[BulkSend] Failed to process job:', error);
+        }
+        if (stopped) return;
+
+        queryClient.invalidateQueries({ queryKey: ['send-job', jobId] });
+        queryClient.invalidateQueries({ queryKey: ['send-jobs'] });
+
+        const data = queryClient.getQueryData<{ job: SendJob }>(['send-job', jobId]);
+        if (data && !isActiveSendJob(data.job)) return;
+        if (attempted === 0) {
+          await new Promise((resolve) => setTimeout(resolve, IDLE_DRIVE_DELAY_MS));
+        }
+      }
+    };
+
+    drive();
+    return () => {
+      stopped = true;
+    };
+  }, [jobId, enabled, queryClient]);
+};
+
+/**
+ * Queue a bulk property email
+ */
+export const useStartBulkSend = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (options: BulkSendOptions) => bulkSendPropertyEmails(options),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['send-jobs'] });
+    },
+  });
+};
+
+/**
+ * Stop a job; recipients not yet emailed are skipped
+ */
+export const useCancelSendJob = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (jobId: string) => fetchSendJobs<{ job: SendJob }>('bulk-cancel', { id: jobId }, { method: 'POST' }),
+    onSuccess: (_data, jobId) => {
+      queryClient.invalidateQueries({ queryKey: ['send-job', jobId] });
+      queryClient.invalidateQueries({ queryKey: ['send-jobs'] });
+    },
+  });
+};
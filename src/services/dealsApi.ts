@@ -4,675 +4,198 @@
  * These hooks provide deal-centric views of the matching data,
  * with computed properties for the pipeline UI.
  *
- * Uses the matching API's aggregated endpoint which already joins
- * property and buyer details, then transforms for pipeline views.
+ * Deals are built server-side by the matching API's `deals` action
+ * (lib/deals/pipeline.ts). The pipeline views share one query for the full
+ * list and derive their stats and groupings from it (src/lib/dealPipeline.ts);
+ * only the paginated list view asks the server to filter and sort.
  */
 
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useCallback } from 'react';
+import { keepPreviousData, useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import type {
   Deal,
   DealFilters,
+  DealSort,
+  DealsPage,
   PipelineStats,
   DealsByBuyer,
   DealsByProperty,
   StageChangeRequest,
-  NoteEntry,
+  AutomationResult,
 } from '@/types/deals';
 import type { MatchDealStage } from '@/types/associations';
-import { MATCH_DEAL_STAGES, STAGE_ASSOCIATION_IDS } from '@/types/associations';
-import type { PropertyDetails, BuyerCriteria, MatchActivity, BuyerWithMatches } from '@/types/matching';
+import { STAGE_ASSOCIATION_IDS } from '@/types/associations';
+import type { MatchActivity } from '@/types/matching';
+import { useAuthStore } from '@/store/useAuthStore';
+import {
+  computePipelineStats,
+  groupDealsByBuyer,
+  groupDealsByProperty,
+  groupDealsByStage,
+  selectStaleDeals,
+  selectUpcomingShowings,
+} from '@/lib/dealPipeline';
 
 const MATCHING_API_BASE = '/api/matching';
 const AIRTABLE_API_BASE = '/api/airtable';
 
-// Constants
-const STALE_THRESHOLD_DAYS = 7;
-
-/**
- * Compute isStale and daysSinceActivity for a deal
- */
-function computeDealMetadata(
-  activities: MatchActivity[],
-  createdAt?: string
-): { isStale: boolean; daysSinceActivity: number; lastActivityAt?: string } {
-  const sortedActivities = [...(activities || [])].sort(
-    (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-  );
-  const lastActivity = sortedActivities[0];
-  const lastActivityAt = lastActivity?.timestamp;
-
-  const lastDate = lastActivityAt
-    ? new Date(lastActivityAt)
-    : createdAt
-    ? new Date(createdAt)
-    : new Date();
-
-  const daysSinceActivity = Math.floor(
-    (Date.now() - lastDate.getTime()) / (1000 * 60 * 60 * 24)
-  );
-
-  return {
-    isStale: daysSinceActivity >= STALE_THRESHOLD_DAYS,
-    daysSinceActivity,
-    lastActivityAt,
-  };
+interface DealsPageParams {
+  offset: number;
+  limit: number; // 0 = all
 }
 
 /**
- * Transform a match from the aggregated API into a Deal object
+ * Query string for the server-side deal actions
  */
-function transformMatchToDeal(
-  match: any,
-  buyer: BuyerCriteria
-): Deal | null {
-  if (!match || !match.property) {
-    return null;
+function dealParams(
+  action: string,
+  filters?: DealFilters,
+  sort?: DealSort,
+  page?: DealsPageParams
+): URLSearchParams {
+  const params = new URLSearchParams({ action });
+
+  if (filters?.stage && filters.stage !== 'all') params.set('stage', filters.stage);
+  if (filters?.stages && filters.stages.length > 0) params.set('stages', filters.stages.join(','));
+  if (filters?.buyerId) params.set('buyerId', filters.buyerId);
+  if (filters?.propertyId) params.set('propertyId', filters.propertyId);
+  if (filters?.search) params.set('search', filters.search);
+  if (filters?.minScore) params.set('minScore', String(filters.minScore));
+  if (filters?.onlyStale) params.set('onlyStale', 'true');
+  if (filters?.onlyUpcoming) params.set('onlyUpcoming', 'true');
+
+  if (sort) {
+    params.set('sortField', sort.field);
+    params.set('sortDirection', sort.direction);
   }
-
-  // Only include matches that have an explicit Match Stage set
-  // Matches without a stage are just "Active" matches, not deals in the pipeline
-  if (!match.stage) {
-    return null;
+  if (page) {
+    params.set('offset', String(page.offset));
+    params.set('limit', String(page.limit));
   }
 
-  // Parse activities if stored as JSON string
-  let activities: MatchActivity[] = [];
-  if (match.activities) {
-    if (typeof match.activities === 'string') {
-      try {
-        activities = JSON.parse(match.activities);
-      } catch {
-        activities = [];
-      }
-    } else if (Array.isArray(match.activities)) {
-      activities = match.activities;
-    }
-  }
+  return params;
+}
 
-  // Parse notes if stored as JSON string
-  let notes: NoteEntry[] = [];
-  if (match.notes) {
-    if (typeof match.notes === 'string') {
-      try {
-        notes = JSON.parse(match.notes);
-      } catch {
-        notes = [];
-      }
-    } else if (Array.isArray(match.notes)) {
-      notes = match.notes;
-    }
+const fetchDealsApi = async <T>(params: URLSearchParams): Promise<T> => {
+  const response = await fetch(`${MATCHING_API_BASE}?${params}`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch deals' }));
+    throw new Error(error.error || `Failed to fetch deals: ${response.status}`);
   }
 
-  const metadata = computeDealMetadata(activities, match.createdAt);
-
-  // Map stage from the match - use 'Match Stage' field (not 'Match Status')
-  // The aggregated API returns this as 'stage' after transformation
-  const rawStage = match.stage || 'Sent to Buyer';
-  // 'Active' is from 'Match Status' field (not a deal stage), default to 'Sent to Buyer'
-  const status: MatchDealStage = rawStage === 'Active' ? 'Sent to Buyer' : rawStage as MatchDealStage;
-
-  const deal: Deal = {
-    id: match.id,
-    buyerRecordId: match.buyerRecordId || buyer.recordId || '',
-    propertyRecordId: match.propertyRecordId || match.property?.recordId || '',
-    contactId: match.contactId || buyer.contactId || '',
-    propertyCode: match.propertyCode || match.property?.propertyCode || '',
-    score: match.score || 0,
-    distance: match.distance,
-    reasoning: match.reasoning || '',
-    highlights: match.highlights || [],
-    concerns: match.concerns || [],
-    isPriority: match.isPriority || false,
-    status,
-    activities,
-    notes,
-    ghlRelationId: match.ghlRelationId,
-    createdAt: match.createdAt,
-    updatedAt: match.updatedAt || match.createdAt,
-    property: match.property as PropertyDetails,
-    buyer: buyer,
-    isStale: metadata.isStale,
-    daysSinceActivity: metadata.daysSinceActivity,
-    lastActivityAt: metadata.lastActivityAt,
-  };
-
-  return deal;
-}
+  return response.json();
+};
 
 /**
- * Fetch all deals by getting all buyers with matches from the aggregated endpoint
- * and flattening into a single list of deals
+ * Fetch one page of deals, filtered and sorted on the server
  */
-export const useDeals = (filters?: DealFilters) => {
-  return useQuery({
-    queryKey: ['deals', filters],
-    queryFn: async (): Promise<Deal[]> => {
-      console.log('[Deals API] Fetching deals with filters:', filters);
-
-      // Fetch all buyers with their matches from the aggregated endpoint
-      const response = await fetch(`${MATCHING_API_BASE}?action=aggregated-buyers&limit=100`);
-
-      if (!response.ok) {
-        throw new Error('Failed to fetch deals');
-      }
-
-      const data = await response.json();
-      const buyersWithMatches: BuyerWithMatches[] = data.data || [];
-
-      // Flatten all matches into deals
-      const deals: Deal[] = [];
-
-      for (const buyerData of buyersWithMatches) {
-        const buyer: BuyerCriteria = {
-          contactId: buyerData.contactId || '',
-          recordId: buyerData.recordId || '',
-          firstName: buyerData.firstName || '',
-          lastName: buyerData.lastName || '',
-          email: buyerData.email || '',
-          qualified: buyerData.qualified || false,
-        };
-
-        for (const match of buyerData.matches || []) {
-          const deal = transformMatchToDeal(match, buyer);
-          if (deal) {
-            deals.push(deal);
-          }
-        }
-      }
-
-      console.log('[Deals API] Total deals fetched:', deals.length);
-
-      // Apply client-side filters
-      let filtered = deals;
-
-      if (filters?.stage && filters.stage !== 'all') {
-        filtered = filtered.filter((d) => d.status === filters.stage);
-      } else if (filters?.stages && filters.stages.length > 0) {
-        filtered = filtered.filter((d) => filters.stages!.includes(d.status));
-      }
-
-      if (filters?.search) {
-        const search = filters.search.toLowerCase();
-        filtered = filtered.filter(
-          (d) =>
-            d.property.address.toLowerCase().includes(search) ||
-            d.buyer.firstName.toLowerCase().includes(search) ||
-            d.buyer.lastName.toLowerCase().includes(search)
-        );
-      }
-
-      if (filters?.minScore) {
-        filtered = filtered.filter((d) => d.score >= (filters.minScore || 0));
-      }
-
-      if (filters?.onlyStale) {
-        filtered = filtered.filter((d) => d.isStale);
-      }
-
-      if (filters?.onlyUpcoming) {
-        filtered = filtered.filter((d) => d.status === 'Showing Scheduled');
-      }
+export const fetchDealsPage = (
+  filters?: DealFilters,
+  sort?: DealSort,
+  page: DealsPageParams = { offset: 0, limit: 0 }
+): Promise<DealsPage> => fetchDealsApi<DealsPage>(dealParams('deals', filters, sort, page));
+
+// Every pipeline view reads this one query; each hook derives its view with `select`
+const PIPELINE_QUERY_KEY = ['deals'];
+
+const pipelineQueryOptions = {
+  queryKey: PIPELINE_QUERY_KEY,
+  queryFn: async (): Promise<Deal[]> => {
+    const page = await fetchDealsPage();
+    console.log('[Deals API] Total deals fetched:', page.total);
+    return page.deals;
+  },
+  staleTime: 2 * 60 * 1000,
+  refetchInterval: 60 * 1000, // Poll every 60 seconds
+  refetchIntervalInBackground: false, // Don't poll when tab is inactive
+};
 
-      console.log('[Deals API] Filtered deals:', filtered.length);
+/**
+ * Fetch all deals in the pipeline
+ */
+export const useDeals = () => {
+  return useQuery(pipelineQueryOptions);
+};
 
-      return filtered;
-    },
+/**
+ * Fetch a page of deals (keeps showing the previous page while the next loads)
+ */
+export const useDealsPage = (
+  filters: DealFilters | undefined,
+  sort: DealSort,
+  page: number,
+  pageSize: number = 25
+) => {
+  return useQuery({
+    queryKey: ['deals-page', filters, sort, page, pageSize],
+    queryFn: () => fetchDealsPage(filters, sort, { offset: page * pageSize, limit: pageSize }),
+    placeholderData: keepPreviousData,
     staleTime: 2 * 60 * 1000,
-    refetchInterval: 60 * 1000, // Poll every 60 seconds
-    refetchIntervalInBackground: false, // Don't poll when tab is inactive
+    refetchInterval: 60 * 1000,
+    refetchIntervalInBackground: false,
   });
 };
 
 /**
- * Fetch pipeline statistics for the Overview tab
+ * Pipeline statistics for the Overview tab
  */
 export const usePipelineStats = () => {
   return useQuery({
-    queryKey: ['pipeline-stats'],
-    queryFn: async (): Promise<PipelineStats> => {
-      console.log('[Deals API] Computing pipeline stats');
-
-      // Fetch all buyers with matches
-      const response = await fetch(`${MATCHING_API_BASE}?action=aggregated-buyers&limit=100`);
-
-      if (!response.ok) {
-        throw new Error('Failed to fetch deals for stats');
-      }
-
-      const data = await response.json();
-      const buyersWithMatches: BuyerWithMatches[] = data.data || [];
-
-      // Flatten all matches into deals
-      const deals: Deal[] = [];
-
-      for (const buyerData of buyersWithMatches) {
-        const buyer: BuyerCriteria = {
-          contactId: buyerData.contactId || '',
-          recordId: buyerData.recordId || '',
-          firstName: buyerData.firstName || '',
-          lastName: buyerData.lastName || '',
-          email: buyerData.email || '',
-          qualified: buyerData.qualified || false,
-        };
-
-        for (const match of buyerData.matches || []) {
-          const deal = transformMatchToDeal(match, buyer);
-          if (deal) {
-            deals.push(deal);
-          }
-        }
-      }
-
-      // Initialize stage counts
-      const byStage: Record<string, number> = {};
-      MATCH_DEAL_STAGES.forEach((stage) => {
-        byStage[stage] = 0;
-      });
-      byStage['Not Interested'] = 0;
-
-      let needsAttention = 0;
-      let pipelineValue = 0;
-      let newThisWeek = 0;
-
-      const weekAgo = new Date();
-      weekAgo.setDate(weekAgo.getDate() - 7);
-
-      deals.forEach((deal) => {
-        // Count by stage
-        if (byStage[deal.status] !== undefined) {
-          byStage[deal.status]++;
-        } else {
-          // Handle unknown statuses as 'Sent to Buyer'
-          byStage['Sent to Buyer']++;
-        }
-
-        // Needs attention (stale deals, excluding closed/lost)
-        if (
-          deal.isStale &&
-          deal.status !== 'Closed Deal / Won' &&
-          deal.status !== 'Not Interested'
-        ) {
-          needsAttention++;
-        }
-
-        // Pipeline value (sum of property prices for active deals)
-        if (deal.status !== 'Closed Deal / Won' && deal.status !== 'Not Interested') {
-          pipelineValue += deal.property.price || 0;
-        }
-
-        // New this week
-        if (deal.createdAt && new Date(deal.createdAt) >= weekAgo) {
-          newThisWeek++;
-        }
-      });
-
-      const stats: PipelineStats = {
-        totalDeals: deals.length,
-        pipelineValue,
-        closingSoon: byStage['Contracts'] || 0,
-        needsAttention,
-        newThisWeek,
-        byStage: byStage as Record<MatchDealStage, number>,
-      };
-
-      console.log('[Deals API] Pipeline stats computed:', stats);
-
-      return stats;
-    },
-    staleTime: 2 * 60 * 1000,
-    refetchInterval: 60 * 1000, // Poll every 60 seconds
-    refetchIntervalInBackground: false,
+    ...pipelineQueryOptions,
+    select: (deals: Deal[]): PipelineStats => computePipelineStats(deals),
   });
 };
 
 /**
- * Fetch deals grouped by stage for Kanban view
+ * Deals grouped by stage for Kanban view (highest score first)
  */
 export const useDealsByStage = () => {
   return useQuery({
-    queryKey: ['deals-by-stage'],
-    queryFn: async (): Promise<Record<MatchDealStage, Deal[]>> => {
-      console.log('[Deals API] Fetching deals by stage');
-
-      // Fetch all buyers with matches
-      const response = await fetch(`${MATCHING_API_BASE}?action=aggregated-buyers&limit=100`);
-
-      if (!response.ok) {
-        throw new Error('Failed to fetch deals');
-      }
-
-      const data = await response.json();
-      const buyersWithMatches: BuyerWithMatches[] = data.data || [];
-
-      // Flatten all matches into deals
-      const deals: Deal[] = [];
-
-      for (const buyerData of buyersWithMatches) {
-        const buyer: BuyerCriteria = {
-          contactId: buyerData.contactId || '',
-          recordId: buyerData.recordId || '',
-          firstName: buyerData.firstName || '',
-          lastName: buyerData.lastName || '',
-          email: buyerData.email || '',
-          qualified: buyerData.qualified || false,
-        };
-
-        for (const match of buyerData.matches || []) {
-          const deal = transformMatchToDeal(match, buyer);
-          if (deal) {
-            deals.push(deal);
-          }
-        }
-      }
-
-      // Initialize all stages
-      const byStage: Record<string, Deal[]> = {};
-      MATCH_DEAL_STAGES.forEach((stage) => {
-        byStage[stage] = [];
-      });
-      byStage['Not Interested'] = [];
-
-      // Group deals by stage
-      deals.forEach((deal) => {
-        const stage = deal.status;
-        if (byStage[stage]) {
-          byStage[stage].push(deal);
-        } else {
-          // Default unknown statuses to 'Sent to Buyer'
-          byStage['Sent to Buyer'].push(deal);
-        }
-      });
-
-      // Sort each stage by score descending
-      Object.keys(byStage).forEach((stage) => {
-        byStage[stage].sort((a, b) => b.score - a.score);
-      });
-
-      console.log('[Deals API] Deals by stage:', Object.keys(byStage).map(s => `${s}: ${byStage[s].length}`).join(', '));
-
-      return byStage as Record<MatchDealStage, Deal[]>;
-    },
-    staleTime: 2 * 60 * 1000,
-    refetchInterval: 60 * 1000, // Poll every 60 seconds
-    refetchIntervalInBackground: false,
+    ...pipelineQueryOptions,
+    select: (deals: Deal[]): Record<MatchDealStage, Deal[]> => groupDealsByStage(deals),
   });
 };
 
 /**
- * Fetch deals grouped by buyer
+ * Deals grouped by buyer (most deals first)
  */
 export const useDealsByBuyer = () => {
   return useQuery({
-    queryKey: ['deals-by-buyer'],
-    queryFn: async (): Promise<DealsByBuyer[]> => {
-      console.log('[Deals API] Fetching deals by buyer');
-
-      // Fetch all buyers with matches
-      const response = await fetch(`${MATCHING_API_BASE}?action=aggregated-buyers&limit=100`);
-
-      if (!response.ok) {
-        throw new Error('Failed to fetch deals');
-      }
-
-      const data = await response.json();
-      const buyersWithMatches: BuyerWithMatches[] = data.data || [];
-
-      // Transform into DealsByBuyer format
-      const result: DealsByBuyer[] = [];
-
-      for (const buyerData of buyersWithMatches) {
-        const buyer: BuyerCriteria = {
-          contactId: buyerData.contactId || '',
-          recordId: buyerData.recordId || '',
-          firstName: buyerData.firstName || '',
-          lastName: buyerData.lastName || '',
-          email: buyerData.email || '',
-          qualified: buyerData.qualified || false,
-        };
-
-        const deals: Deal[] = [];
-        const activeStages: MatchDealStage[] = [];
-        let totalValue = 0;
-
-        for (const match of buyerData.matches || []) {
-          const deal = transformMatchToDeal(match, buyer);
-          if (deal) {
-            deals.push(deal);
-            totalValue += deal.property.price || 0;
-            if (!activeStages.includes(deal.status)) {
-              activeStages.push(deal.status);
-            }
-          }
-        }
-
-        if (deals.length > 0) {
-          result.push({
-            buyer,
-            deals,
-            totalDeals: deals.length,
-            totalValue,
-            activeStages,
-          });
-        }
-      }
-
-      // Sort by total deals descending
-      result.sort((a, b) => b.totalDeals - a.totalDeals);
-
-      console.log('[Deals API] Deals by buyer:', result.length, 'buyers');
-
-      return result;
-    },
-    staleTime: 2 * 60 * 1000,
-    refetchInterval: 60 * 1000,
-    refetchIntervalInBackground: false,
+    ...pipelineQueryOptions,
+    select: (deals: Deal[]): DealsByBuyer[] => groupDealsByBuyer(deals),
   });
 };
 
 /**
- * Fetch deals grouped by property
+ * Deals grouped by property (most buyers first)
  */
 export const useDealsByProperty = () => {
   return useQuery({
-    queryKey: ['deals-by-property'],
-    queryFn: async (): Promise<DealsByProperty[]> => {
-      console.log('[Deals API] Fetching deals by property');
-
-      // Fetch all buyers with matches
-      const response = await fetch(`${MATCHING_API_BASE}?action=aggregated-buyers&limit=100`);
-
-      if (!response.ok) {
-        throw new Error('Failed to fetch deals');
-      }
-
-      const data = await response.json();
-      const buyersWithMatches: BuyerWithMatches[] = data.data || [];
-
-      // Group by property
-      const propertyMap = new Map<string, DealsByProperty>();
-
-      // Define stage order for determining "furthest" stage
-      const stageOrder: Record<string, number> = {
-        'Sent to Buyer': 1,
-        'Buyer Responded': 2,
-        'Showing Scheduled': 3,
-        'Property Viewed': 4,
-        'Underwriting': 5,
-        'Contracts': 6,
-        'Qualified': 7,
-        'Closed Deal / Won': 8,
-        'Not Interested': 0,
-      };
-
-      for (const buyerData of buyersWithMatches) {
-        const buyer: BuyerCriteria = {
-          contactId: buyerData.contactId || '',
-          recordId: buyerData.recordId || '',
-          firstName: buyerData.firstName || '',
-          lastName: buyerData.lastName || '',
-          email: buyerData.email || '',
-          qualified: buyerData.qualified || false,
-        };
-
-        for (const match of buyerData.matches || []) {
-          const deal = transformMatchToDeal(match, buyer);
-          if (!deal) continue;
-
-          const propertyId = deal.property.recordId || deal.property.propertyCode || 'unknown';
-
-          if (!propertyMap.has(propertyId)) {
-            propertyMap.set(propertyId, {
-              property: deal.property,
-              deals: [],
-              totalBuyers: 0,
-              highestScore: 0,
-              furthestStage: 'Sent to Buyer',
-            });
-          }
-
-          const group = propertyMap.get(propertyId)!;
-          group.deals.push(deal);
-          group.totalBuyers++;
-
-          if (deal.score > group.highestScore) {
-            group.highestScore = deal.score;
-          }
-
-          if (stageOrder[deal.status] > stageOrder[group.furthestStage]) {
-            group.furthestStage = deal.status;
-          }
-        }
-      }
-
-      // Sort by total buyers descending
-      const result = Array.from(propertyMap.values()).sort(
-        (a, b) => b.totalBuyers - a.totalBuyers
-      );
-
-      console.log('[Deals API] Deals by property:', result.length, 'properties');
-
-      return result;
-    },
-    staleTime: 2 * 60 * 1000,
-    refetchInterval: 60 * 1000,
-    refetchIntervalInBackground: false,
+    ...pipelineQueryOptions,
+    select: (deals: Deal[]): DealsByProperty[] => groupDealsByProperty(deals),
   });
 };
 
 /**
- * Fetch stale deals (no activity in 7+ days)
+ * Open deals with no activity in 7+ days, stalest first
  */
 export const useStaleDeals = (limit: number = 5) => {
-  return useQuery({
-    queryKey: ['stale-deals', limit],
-    queryFn: async (): Promise<Deal[]> => {
-      console.log('[Deals API] Fetching stale deals, limit:', limit);
-
-      // Fetch all buyers with matches
-      const response = await fetch(`${MATCHING_API_BASE}?action=aggregated-buyers&limit=100`);
-
-      if (!response.ok) {
-        throw new Error('Failed to fetch deals');
-      }
-
-      const data = await response.json();
-      const buyersWithMatches: BuyerWithMatches[] = data.data || [];
-
-      // Flatten all matches into deals
-      const deals: Deal[] = [];
-
-      for (const buyerData of buyersWithMatches) {
-        const buyer: BuyerCriteria = {
-          contactId: buyerData.contactId || '',
-          recordId: buyerData.recordId || '',
-          firstName: buyerData.firstName || '',
-          lastName: buyerData.lastName || '',
-          email: buyerData.email || '',
-          qualified: buyerData.qualified || false,
-        };
-
-        for (const match of buyerData.matches || []) {
-          const deal = transformMatchToDeal(match, buyer);
-          if (deal) {
-            deals.push(deal);
-          }
-        }
-      }
-
-      // Filter to stale deals (excluding closed/lost), sort by stalest first
-      const staleDeals = deals
-        .filter(
-          (d) =>
-            d.isStale &&
-            d.status !== 'Closed Deal / Won' &&
-            d.status !== 'Not Interested'
-        )
-        .sort((a, b) => (b.daysSinceActivity || 0) - (a.daysSinceActivity || 0))
-        .slice(0, limit);
-
-      console.log('[Deals API] Stale deals found:', staleDeals.length);
-
-      return staleDeals;
-    },
-    staleTime: 2 * 60 * 1000,
-    refetchInterval: 60 * 1000,
-    refetchIntervalInBackground: false,
-  });
+  const select = useCallback((deals: Deal[]) => selectStaleDeals(deals, limit), [limit]);
+  return useQuery({ ...pipelineQueryOptions, select });
 };
 
 /**
- * Fetch upcoming showings (deals in "Showing Scheduled" stage)
+ * Upcoming showings, soonest first
+ *
+ * Deals with a scheduled showing are ordered by the showing's real time,
+ * so showings that have already passed without being completed come first
+ * and are flagged isShowingOverdue. Deals in "Showing Scheduled" without a
+ * showing record yet follow with no date.
  */
 export const useUpcomingShowings = (limit: number = 5) => {
-  return useQuery({
-    queryKey: ['upcoming-showings', limit],
-    queryFn: async (): Promise<Deal[]> => {
-      console.log('[Deals API] Fetching upcoming showings, limit:', limit);
-
-      // Fetch all buyers with matches
-      const response = await fetch(`${MATCHING_API_BASE}?action=aggregated-buyers&limit=100`);
-
-      if (!response.ok) {
-        throw new Error('Failed to fetch deals');
-      }
-
-      const data = await response.json();
-      const buyersWithMatches: BuyerWithMatches[] = data.data || [];
-
-      // Flatten all matches into deals
-      const deals: Deal[] = [];
-
-      for (const buyerData of buyersWithMatches) {
-        const buyer: BuyerCriteria = {
-          contactId: buyerData.contactId || '',
-          recordId: buyerData.recordId || '',
-          firstName: buyerData.firstName || '',
-          lastName: buyerData.lastName || '',
-          email: buyerData.email || '',
-          qualified: buyerData.qualified || false,
-        };
-
-        for (const match of buyerData.matches || []) {
-          const deal = transformMatchToDeal(match, buyer);
-          if (deal) {
-            deals.push(deal);
-          }
-        }
-      }
-
-      // Filter to "Showing Scheduled" deals
-      const showingDeals = deals
-        .filter((d) => d.status === 'Showing Scheduled')
-        .slice(0, limit);
-
-      console.log('[Deals API] Upcoming showings found:', showingDeals.length);
-
-      return showingDeals;
-    },
-    staleTime: 2 * 60 * 1000,
-    refetchInterval: 60 * 1000,
-    refetchIntervalInBackground: false,
-  });
+  const select = useCallback((deals: Deal[]) => selectUpcomingShowings(deals, limit), [limit]);
+  return useQuery({ ...pipelineQueryOptions, select });
 };
 
 /**
@@ -691,7 +214,7 @@ export const useUpdateDealStage = () => {
       opportunityId,
       syncToGhl = true,
       ghlRelationId,
-    }: StageChangeRequest): Promise<{ success: boolean; ghlRelationId?: string }> => {
+    }: StageChangeRequest): Promise<{ success: boolean; ghlRelationId?: string; stage: MatchDealStage }> => {
       console.log('[Deals API] Updating deal stage:', { dealId, fromStage, toStage, previousRelationId: ghlRelationId });
 
       // 1. Update Airtable - use 'Match Stage' field (the deal pipeline stage)
@@ -713,6 +236,10 @@ export const useUpdateDealStage = () => {
         throw new Error(error.error || 'Failed to update deal stage');
       }
 
+      // Stage-entered automation rules may have moved the deal on again
+      const { automation = [] }: { automation?: AutomationResult[] } = await updateResponse.json();
+      const finalStage = automation.map((r) => r.movedTo).filter(Boolean).pop() || toStage;
+
       // 2. Add activity to track the change
       const getResponse = await fetch(
         `${AIRTABLE_API_BASE}?action=get-record&table=${encodeURIComponent('Property-Buyer Matches')}&recordId=${dealId}`
@@ -733,6 +260,7 @@ export const useUpdateDealStage = () => {
           type: 'stage-change',
           timestamp: new Date().toISOString(),
           details: `Stage changed from "${fromStage}" to "${toStage}"`,
+          user: useAuthStore.getState().user?.name,
           metadata: { fromStage, toStage },
         };
 
@@ -758,7 +286,7 @@ export const useUpdateDealStage = () => {
           const { syncMatchStageToGhl } = await import('./ghlAssociationsApi');
 
           const relationId = await syncMatchStageToGhl({
-            stage: toStage,
+            stage: finalStage,
             contactId,
             propertyAddress,
             opportunityId,
@@ -797,20 +325,21 @@ export const useUpdateDealStage = () => {
         }
       }
 
-      return { success: true, ghlRelationId: newGhlRelationId };
+      return { success: true, ghlRelationId: newGhlRelationId, stage: finalStage };
     },
     onSuccess: (data, variables) => {
       // Update the deal in the cache with the new ghlRelationId AND new stage
+      // (stats and groupings are derived from it, so they update too)
       // IMPORTANT: Do NOT invalidate 'deals' query - that would trigger a refetch
       // which returns stale server data and overwrites the ghlRelationId we just set
-      queryClient.setQueryData(['deals'], (oldData: Deal[] | undefined) => {
+      queryClient.setQueryData<Deal[]>(PIPELINE_QUERY_KEY, (oldData) => {
         if (!oldData) return oldData;
         return oldData.map(deal =>
           deal.id === variables.dealId
             ? {
                 ...deal,
                 ghlRelationId: data.ghlRelationId,
-                status: variables.toStage, // Also update the stage
+                status: data.stage, // Also update the stage
               }
             : deal
         );
@@ -821,12 +350,7 @@ export const useUpdateDealStage = () => {
       }
 
       // Invalidate other queries (but NOT 'deals' - we updated it manually above)
-      queryClient.invalidateQueries({ queryKey: ['pipeline-stats'] });
-      queryClient.invalidateQueries({ queryKey: ['deals-by-stage'] });
-      queryClient.invalidateQueries({ queryKey: ['deals-by-buyer'] });
-      queryClient.invalidateQueries({ queryKey: ['deals-by-property'] });
-      queryClient.invalidateQueries({ queryKey: ['stale-deals'] });
-      queryClient.invalidateQueries({ queryKey: ['upcoming-showings'] });
+      queryClient.invalidateQueries({ queryKey: ['deals-page'] });
       // Also invalidate matching queries
       queryClient.invalidateQueries({ queryKey: ['buyers-with-matches'] });
       queryClient.invalidateQueries({ queryKey: ['properties-with-matches'] });
@@ -247,3 +247,68 @@ export function generatePropertyEmailHtml(params: {
 </html>
   `.trim();
 }
+
+/**
+ * Generate the email HTML that accompanies a deal calculator investor report
+ */
+export function generateCalculatorReportEmailHtml(params: {
+  recipientName: string;
+  dealName: string;
+  dealDecision: string;
+  personalNote?: string;
+}): string {
+  const { recipientName, dealName, dealDecision, personalNote } = params;
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Investor Deal Report</title>
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+
+  <div style="background: linear-gradient(135deg, #9333EA 0%, #7C3AED 100%); color: white; padding: 30px 20px; border-radius: 8px 8px 0 0; text-align: center;">
+    <h1 style="margin: 0; font-size: 28px;">Purple Homes</h1>
+    <p style="margin: 10px 0 0; font-size: 16px; opacity: 0.9;">Investor Deal Report</p>
+  </div>
+
+  <div style="background: #f9fafb; padding: 30px 20px; border-radius: 0 0 8px 8px; border: 1px solid #e5e7eb; border-top: none;">
+
+    <p style="font-size: 18px; margin: 0 0 20px;">Hi ${recipientName},</p>
+
+    <p style="font-size: 16px; margin: 0 0 20px;">
+      Here are the numbers on <strong style="color: #9333EA;">${dealName}</strong>. Our analysis rates it <strong>${dealDecision}</strong>.
+    </p>
+
+    ${personalNote ? `
+    <div style="background: #F3F4F6; padding: 15px; border-left: 4px solid #9333EA; margin: 20px 0;">
+      <p style="color: #374151; margin: 0; line-height: 1.6;">${personalNote}</p>
+    </div>
+    ` : ''}
+
+    <p style="font-size: 16px; margin: 20px 0;">
+      📎 <strong>Attached:</strong> Full report with photos, assumptions, loan calculations and returns
+    </p>
+
+    <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 30px 0;">
+
+    <p style="font-size: 14px; color: #6b7280; margin: 0;">
+      Have questions about the deal? Reply to this email or give us a call.
+    </p>
+
+    <p style="font-size: 14px; color: #6b7280; margin: 15px 0 0;">
+      Best regards,<br>
+      <strong>Purple Homes Team</strong>
+    </p>
+  </div>
+
+  <div style="text-align: center; padding: 20px; font-size: 12px; color: #9ca3af;">
+    <p style="margin: 0;">© ${new Date().getFullYear()} Purple Homes. All rights reserved.</p>
+  </div>
+
+</body>
+</html>
+  `.trim();
+}
@@ -1,6 +1,7 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Contact, Property, PropertyStatus, PropertyCondition, PropertyType, SyncType } from '@/types';
 import { useSyncStore } from '@/store/useSyncStore';
+import type { ConsentDecision, MessageChannel } from '@/types/messaging';
 
 // API Base URL - uses Vercel API routes in production
 const API_BASE = '/api/ghl';
@@ -1028,6 +1029,23 @@ export const useSendDocument = () => {
 
 // ============ MESSAGES ============
 
+/**
+ * Whether a contact can be messaged right now (opt-outs, quiet hours, daily cap)
+ * The send endpoint enforces the same checks; this lets dialogs warn up front.
+ */
+export const useMessageConsent = (contactId: string | undefined, enabled = true) => {
+  return useQuery({
+    queryKey: ['ghl-message-consent', contactId],
+    queryFn: () =>
+      fetchGHL<{ contactId: string; consent: Record<MessageChannel, ConsentDecision> }>('messages/consent', {
+        params: { contactId: contactId! },
+      }),
+    enabled: !!contactId && enabled,
+    staleTime: 60 * 1000,
+    retry: 1,
+  });
+};
+
 export const useSendEmail = () => {
   return useMutation({
     mutationFn: (email: {
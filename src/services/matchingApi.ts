@@ -3,8 +3,9 @@
  */
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import type { BuyerWithMatches, PropertyWithMatches, PropertyDetails, RunMatchingResponse, MatchFilters, MatchActivity, PropertyMatch, BuyerPropertiesResponse, PropertyBuyersResponse } from '@/types/matching';
+import type { BuyerWithMatches, PropertyWithMatches, PropertyDetails, RunMatchingResponse, MatchFilters, MatchActivity, PropertyMatch, BuyerPropertiesResponse, PropertyBuyersResponse, ScoringProfile, ExclusionRule, AnchorPoint, MatchingJobStatus } from '@/types/matching';
 import type { MatchDealStage } from '@/types/associations';
+import { useAuthStore } from '@/store/useAuthStore';
 
 const MATCHING_API_BASE = '/api/matching';
 const AIRTABLE_API_BASE = '/api/airtable';
@@ -128,7 +129,7 @@ export const useRunMatching = () => {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (params?: { minScore?: number; refreshAll?: boolean }): Promise<RunMatchingResponse> => {
+    mutationFn: async (params?: { minScore?: number; refreshAll?: boolean; profileId?: string; incremental?: boolean }): Promise<RunMatchingResponse> => {
       console.log('[Matching API] Calling run matching with params:', params);
       const response = await fetch(`${MATCHING_API_BASE}?action=run`, {
         method: 'POST',
@@ -156,6 +157,85 @@ export const useRunMatching = () => {
   });
 };
 
+/**
+ * Poll the background matching job (refetches every 2s while it is running)
+ */
+export const useMatchingJobStatus = () => {
+  return useQuery({
+    queryKey: ['matching-job'],
+    queryFn: async (): Promise<MatchingJobStatus> => {
+      const response = await fetch(`${MATCHING_API_BASE}?action=job-status`);
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch matching job status');
+      }
+
+      return response.json();
+    },
+    refetchInterval: (query) => (query.state.data?.status === 'running' ? 2000 : false),
+  });
+};
+
+/**
+ * Run full matching as a chunked background job
+ * Starts a job (or resumes the running one) and keeps requesting the next
+ * chunk until it finishes. Progress is read from useMatchingJobStatus.
+ */
+export const useRunMatchingJob = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params?: { minScore?: number; profileId?: string; incremental?: boolean; resume?: boolean }): Promise<MatchingJobStatus> => {
+      const { resume, ...body } = params || {};
+
+      if (!resume) {
+        const startResponse = await fetch(`${MATCHING_API_BASE}?action=start-job`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        });
+
+        // 409 = a job is already running, attach to it instead
+        if (!startResponse.ok && startResponse.status !== 409) {
+          const error = await startResponse.json().catch(() => ({ error: 'Failed to start matching' }));
+          throw new Error(error.error || 'Failed to start matching job');
+        }
+      }
+      queryClient.invalidateQueries({ queryKey: ['matching-job'] });
+
+      let job: MatchingJobStatus = { status: 'running' };
+      while (job.status === 'running') {
+        const response = await fetch(`${MATCHING_API_BASE}?action=continue-job`, { method: 'POST' });
+        const result = await response.json().catch(() => ({ error: 'Matching job failed' }));
+
+        if (response.status === 409) {
+          // Another tab or request holds the job lease - wait and try again
+          job = result.job || job;
+          await new Promise((resolve) => setTimeout(resolve, 5000));
+          continue;
+        }
+        if (!response.ok) {
+          if (result.job) queryClient.setQueryData(['matching-job'], result.job);
+          throw new Error(result.details || result.error || 'Matching job failed');
+        }
+
+        job = result.job;
+        queryClient.setQueryData(['matching-job'], job);
+      }
+
+      if (job.status === 'error') {
+        throw new Error(job.error || 'Matching job failed');
+      }
+      return job;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['matching-job'] });
+      queryClient.refetchQueries({ queryKey: ['buyers-with-matches'] });
+      queryClient.refetchQueries({ queryKey: ['properties-with-matches'] });
+    },
+  });
+};
+
 /**
  * Run matching for a single buyer
  */
@@ -163,7 +243,7 @@ export const useRunBuyerMatching = () => {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (params: { contactId: string; minScore?: number }): Promise<RunMatchingResponse> => {
+    mutationFn: async (params: { contactId: string; minScore?: number; profileId?: string }): Promise<RunMatchingResponse> => {
       const { contactId, ...body } = params;
       const response = await fetch(`${MATCHING_API_BASE}?action=run-buyer&contactId=${contactId}`, {
         method: 'POST',
@@ -192,7 +272,7 @@ export const useRunPropertyMatching = () => {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (params: { propertyCode: string; minScore?: number }): Promise<RunMatchingResponse> => {
+    mutationFn: async (params: { propertyCode: string; minScore?: number; profileId?: string }): Promise<RunMatchingResponse> => {
       const { propertyCode, ...body } = params;
       const response = await fetch(`${MATCHING_API_BASE}?action=run-property&propertyCode=${propertyCode}`, {
         method: 'POST',
@@ -409,8 +489,10 @@ export const useAddMatchActivity = () => {
         : [];
 
       // Create new activity with ID and timestamp
+      // Attribute to the signed-in user unless the caller names one (e.g. 'automation')
       const newActivity: MatchActivity = {
         ...activity,
+        user: activity.user || useAuthStore.getState().user?.name,
         id: `act_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
         timestamp: new Date().toISOString(),
       };
@@ -433,7 +515,7 @@ export const useAddMatchActivity = () => {
           id: newActivity.id,
           text: activity.details,
           timestamp: newActivity.timestamp,
-          user: activity.user,
+          user: newActivity.user,
         };
 
         const updatedNotes = [...currentNotes, newNote];
@@ -468,7 +550,6 @@ export const useAddMatchActivity = () => {
       queryClient.refetchQueries({ queryKey: ['properties-with-matches'] });
       // Also refresh deals queries so the modal updates immediately
       queryClient.refetchQueries({ queryKey: ['deals'] });
-      queryClient.refetchQueries({ queryKey: ['deals-by-stage'] });
     },
   });
 };
@@ -548,7 +629,6 @@ export const useEditMatchNote = () => {
       queryClient.refetchQueries({ queryKey: ['properties-with-matches'] });
       // Also refresh deals queries so the modal updates
       queryClient.invalidateQueries({ queryKey: ['deals'] });
-      queryClient.invalidateQueries({ queryKey: ['deals-by-stage'] });
     },
   });
 };
@@ -620,7 +700,6 @@ export const useDeleteMatchNote = () => {
       queryClient.refetchQueries({ queryKey: ['properties-with-matches'] });
       // Also refresh deals queries so the modal updates
       queryClient.invalidateQueries({ queryKey: ['deals'] });
-      queryClient.invalidateQueries({ queryKey: ['deals-by-stage'] });
     },
   });
 };
@@ -687,11 +766,12 @@ export const useUpdateMatchStageWithActivity = () => {
 /**
  * Fetch all properties for a specific buyer (Zillow-style)
  * Returns ALL properties scored and sorted by relevance,
- * split into priority (within 50mi/ZIP) and explore (beyond 50mi) sections.
+ * split into priority (within radius/ZIP) and explore (beyond radius) sections.
+ * Without a profileId the server picks the profile from the buyer's deal type.
  */
-export const useBuyerProperties = (buyerId: string | null) => {
+export const useBuyerProperties = (buyerId: string | null, profileId?: string) => {
   return useQuery({
-    queryKey: ['buyer-properties', buyerId],
+    queryKey: ['buyer-properties', buyerId, profileId],
     queryFn: async (): Promise<BuyerPropertiesResponse> => {
       if (!buyerId) {
         throw new Error('Buyer ID is required');
@@ -699,7 +779,10 @@ export const useBuyerProperties = (buyerId: string | null) => {
 
       console.log('[Matching API] Fetching all properties for buyer:', buyerId);
 
-      const response = await fetch(`${MATCHING_API_BASE}?action=buyer-properties&buyerId=${buyerId}`);
+      const params = new URLSearchParams({ action: 'buyer-properties', buyerId });
+      if (profileId) params.set('profileId', profileId);
+
+      const response = await fetch(`${MATCHING_API_BASE}?${params}`);
 
       if (!response.ok) {
         const error = await response.json().catch(() => ({ error: 'Failed to fetch properties' }));
@@ -727,9 +810,9 @@ export const useBuyerProperties = (buyerId: string | null) => {
  * Fetch all buyers scored for a specific property
  * Returns buyers sorted by match score (property-centric view)
  */
-export const usePropertyBuyers = (propertyCode: string | null) => {
+export const usePropertyBuyers = (propertyCode: string | null, profileId?: string) => {
   return useQuery({
-    queryKey: ['property-buyers', propertyCode],
+    queryKey: ['property-buyers', propertyCode, profileId],
     queryFn: async (): Promise<PropertyBuyersResponse> => {
       if (!propertyCode) {
         throw new Error('Property code is required');
@@ -737,7 +820,10 @@ export const usePropertyBuyers = (propertyCode: string | null) => {
 
       console.log('[Matching API] Fetching all buyers for property:', propertyCode);
 
-      const response = await fetch(`${MATCHING_API_BASE}?action=property-buyers&propertyCode=${propertyCode}`);
+      const params = new URLSearchParams({ action: 'property-buyers', propertyCode });
+      if (profileId) params.set('profileId', profileId);
+
+      const response = await fetch(`${MATCHING_API_BASE}?${params}`);
 
       if (!response.ok) {
         const error = await response.json().catch(() => ({ error: 'Failed to fetch property buyers' }));
@@ -760,6 +846,118 @@ export const usePropertyBuyers = (propertyCode: string | null) => {
   });
 };
 
+/**
+ * Fetch scoring profiles (system profiles merged with saved overrides)
+ */
+export const useScoringProfiles = () => {
+  return useQuery({
+    queryKey: ['scoring-profiles'],
+    queryFn: async (): Promise<ScoringProfile[]> => {
+      const response = await fetch(`${MATCHING_API_BASE}?action=get-profiles`);
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Failed to fetch profiles' }));
+        throw new Error(error.error || 'Failed to fetch scoring profiles');
+      }
+
+      const result = await response.json();
+      return result.profiles || [];
+    },
+    staleTime: 10 * 60 * 1000, // 10 minutes - profiles rarely change
+  });
+};
+
+/**
+ * Save custom scoring profiles
+ */
+export const useUpdateScoringProfiles = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (profiles: ScoringProfile[]): Promise<{ success: boolean; profiles: ScoringProfile[] }> => {
+      const response = await fetch(`${MATCHING_API_BASE}?action=update-profiles`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ profiles }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Failed to save profiles' }));
+        throw new Error(error.error || 'Failed to save scoring profiles');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['scoring-profiles'] });
+      queryClient.invalidateQueries({ queryKey: ['buyer-properties'] });
+      queryClient.invalidateQueries({ queryKey: ['property-buyers'] });
+    },
+  });
+};
+
+/**
+ * Save a buyer's exclusion rules (deal-breakers)
+ * The server also deletes existing matches the new rules exclude
+ */
+export const useUpdateBuyerExclusions = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: { buyerId: string; rules: ExclusionRule[] }): Promise<{ success: boolean; rules: ExclusionRule[]; matchesRemoved: number }> => {
+      const response = await fetch(`${MATCHING_API_BASE}?action=update-exclusions&buyerId=${params.buyerId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rules: params.rules }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Failed to save rules' }));
+        throw new Error(error.error || 'Failed to save exclusion rules');
+      }
+
+      return response.json();
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['buyer-properties', variables.buyerId] });
+      queryClient.invalidateQueries({ queryKey: ['property-buyers'] });
+      queryClient.refetchQueries({ queryKey: ['buyers-with-matches'] });
+      queryClient.invalidateQueries({ queryKey: ['cache', 'matches'] });
+      queryClient.invalidateQueries({ queryKey: ['deals'] });
+    },
+  });
+};
+
+/**
+ * Save a buyer's anchor points (work, school, family)
+ * The server geocodes new addresses; matches pick up the new drive times on
+ * the next matching run
+ */
+export const useUpdateBuyerAnchors = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: { buyerId: string; anchors: AnchorPoint[] }): Promise<{ success: boolean; anchors: AnchorPoint[] }> => {
+      const response = await fetch(`${MATCHING_API_BASE}?action=update-anchors&buyerId=${params.buyerId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ anchors: params.anchors }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Failed to save anchor points' }));
+        throw new Error(error.error || 'Failed to save anchor points');
+      }
+
+      return response.json();
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['buyer-properties', variables.buyerId] });
+      queryClient.invalidateQueries({ queryKey: ['property-buyers'] });
+    },
+  });
+};
+
 /**
  * Fetch list of all buyers for buyer selector dropdown
  */
@@ -805,8 +1003,9 @@ export const useAirtableProperties = (pageSize: number = 100) => {
     queryFn: async (): Promise<{ properties: PropertyDetails[], total: number }> => {
       console.log('[Matching API] Fetching properties from Airtable...');
 
+      // Property fields only, so the public /listings page can use it without a session
       const params = new URLSearchParams({
-        action: 'aggregated-properties',
+        action: 'listing-properties',
         limit: pageSize.toString(),
       });
 
@@ -820,7 +1019,7 @@ export const useAirtableProperties = (pageSize: number = 100) => {
       const result = await response.json();
 
       // Extract properties from the result
-      const properties = (result.data || []).map((item: PropertyWithMatches) => ({
+      const properties = (result.data || []).map((item: PropertyDetails) => ({
         recordId: item.recordId,
         propertyCode: item.propertyCode,
         opportunityId: item.opportunityId,
@@ -0,0 +1,172 @@
+/**
+ * Saved Search API hooks
+ *
+ * Visitors on /listings save their filters for alerts. The server sends
+ * alerts for new matching inventory daily; staff can review them and send
+ * them early. Mirrors lib/matching/savedSearches.ts on the server.
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  describeFilters,
+  type AlertChannel,
+  type SavedSearch as StoredSavedSearch,
+  type SavedSearchFilters,
+} from '@/lib/savedSearchFilters';
+import type { PropertyDetails } from '@/types/matching';
+
+const MATCHING_API_BASE = '/api/matching';
+
+export { describeFilters, type AlertChannel, type SavedSearchFilters };
+
+export interface SavedSearch extends StoredSavedSearch {
+  summary: string;
+}
+
+export interface SearchAlert {
+  search: SavedSearch;
+  properties: PropertyDetails[];
+}
+
+export interface SaveSearchRequest {
+  firstName: string;
+  lastName?: string;
+  email?: string;
+  phone?: string;
+  channel: AlertChannel;
+  filters: SavedSearchFilters;
+  favorites?: string[];
+}
+
+export type ConfirmChannel = 'email' | 'sms';
+
+interface SaveSearchResponse {
+  success: boolean;
+  searchId: string;
+  summary: string;
+  matchingNow: number;
+  confirmed: boolean;                 // A channel was already confirmed (re-saved search)
+  confirmationSentTo: ConfirmChannel[];
+}
+
+interface ConfirmSearchResponse {
+  success: boolean;
+  channel: ConfirmChannel;
+  summary: string;
+}
+
+export interface SendAlertsResult {
+  sent: number;     // Sent or queued on at least one channel
+  skipped: number;  // Every channel blocked by the contact's consent
+  failed: number;   // Left pending for the next run
+  jobIds: string[]; // Bulk send jobs the alert emails were queued on
+  errors: Array<{ searchId: string; name: string; error: string }>;
+}
+
+const fetchMatching = async <T>(params: Record<string, string>, options?: RequestInit): Promise<T> => {
+  const response = await fetch(`${MATCHING_API_BASE}?${new URLSearchParams(params)}`, {
+    ...options,
+    headers: { 'Content-Type': 'application/json', ...options?.headers },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Saved search request failed' }));
+    throw new Error(error.error || `Saved search request failed: ${response.status}`);
+  }
+
+  return response.json();
+};
+
+/**
+ * Save the current /listings search (public - no session needed)
+ * Alerts start once the visitor opens the confirmation link sent on each channel.
+ */
+export const useSaveSearch = () => {
+  return useMutation({
+    mutationFn: (request: SaveSearchRequest) =>
+      fetchMatching<SaveSearchResponse>({ action: 'save-search' }, {
+        method: 'POST',
+        body: JSON.stringify(request),
+      }),
+  });
+};
+
+/**
+ * Confirm a saved search from its confirmation link (public)
+ */
+export const useConfirmSavedSearch = () => {
+  return useMutation({
+    mutationFn: ({ searchId, token }: { searchId: string; token: string }) =>
+      fetchMatching<ConfirmSearchResponse>({ action: 'confirm-search' }, {
+        method: 'POST',
+        body: JSON.stringify({ searchId, token }),
+      }),
+  });
+};
+
+/**
+ * All saved searches (staff)
+ */
+export const useSavedSearches = (enabled: boolean = true) => {
+  return useQuery({
+    queryKey: ['saved-searches'],
+    queryFn: async () => {
+      const data = await fetchMatching<{ searches: SavedSearch[] }>({ action: 'saved-searches' });
+      return data.searches;
+    },
+    enabled,
+    staleTime: 60 * 1000,
+  });
+};
+
+/**
+ * Active saved searches with new matching inventory
+ */
+export const useSearchAlerts = (enabled: boolean = true) => {
+  return useQuery({
+    queryKey: ['search-alerts'],
+    queryFn: () => fetchMatching<{ alerts: SearchAlert[]; activeSearches: number }>({ action: 'search-alerts' }),
+    enabled,
+    staleTime: 60 * 1000,
+  });
+};
+
+/**
+ * Pause or resume a saved search's alerts
+ */
+export const useUpdateSavedSearch = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ searchId, active }: { searchId: string; active: boolean }) =>
+      fetchMatching<{ success: boolean }>({ action: 'update-saved-search' }, {
+        method: 'POST',
+        body: JSON.stringify({ searchId, active }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['saved-searches'] });
+      queryClient.invalidateQueries({ queryKey: ['search-alerts'] });
+    },
+  });
+};
+
+/**
+ * Send alerts now instead of waiting for the daily run
+ * Emails are queued on the bulk send queue; a search whose send fails is
+ * left pending so the next run retries it.
+ */
+export const useSendSearchAlerts = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (alerts: SearchAlert[]) =>
+      fetchMatching<SendAlertsResult>({ action: 'send-search-alerts' }, {
+        method: 'POST',
+        body: JSON.stringify({ searchIds: alerts.map((alert) => alert.search.id) }),
+      }),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['search-alerts'] });
+      queryClient.invalidateQueries({ queryKey: ['saved-searches'] });
+    },
+  });
+};
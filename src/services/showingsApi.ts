@@ -0,0 +1,147 @@
+/**
+ * Showing API hooks
+ *
+ * Showings are stored per deal and mirrored as GHL calendar appointments
+ * through /api/ghl?resource=calendars. Buyer reminders are sent by the
+ * scheduled showing-reminders run; staff can also trigger it on demand.
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { Showing, ShowingStatus } from '@/types/deals';
+
+const CALENDARS_API_BASE = '/api/ghl?resource=calendars';
+
+export interface ScheduleShowingRequest {
+  dealId: string;
+  contactId: string;
+  buyerName: string;
+  propertyCode?: string;
+  propertyAddress: string;
+  startTime: string;
+  durationMinutes?: number;
+  agentName?: string;
+  agentUserId?: string;
+  accessNotes?: string;
+}
+
+export interface UpdateShowingRequest {
+  showingId: string;
+  startTime?: string;
+  durationMinutes?: number;
+  agentName?: string;
+  agentUserId?: string;
+  accessNotes?: string;
+  status?: ShowingStatus;
+}
+
+export interface ShowingSyncResult {
+  showing: Showing;
+  calendarSynced: boolean;
+  calendarError?: string;
+}
+
+export interface ShowingRemindersResult {
+  checked: number;
+  sent: number;
+  skipped: number; // Every channel blocked by the buyer's messaging consent
+  failed: number;
+  results: Array<{ showingId: string; reminder: string; channels?: string[]; skipped?: string[]; error?: string }>;
+}
+
+const fetchCalendars = async <T>(params: Record<string, string>, options?: RequestInit): Promise<T> => {
+  const response = await fetch(`${CALENDARS_API_BASE}&${new URLSearchParams(params)}`, {
+    ...options,
+    headers: { 'Content-Type': 'application/json', ...options?.headers },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Showing request failed' }));
+    throw new Error(error.error || `Showing request failed: ${response.status}`);
+  }
+
+  return response.json();
+};
+
+/**
+ * Fetch showings, soonest first
+ */
+export const fetchShowings = async (
+  filters: { dealId?: string; status?: ShowingStatus; from?: string } = {}
+): Promise<Showing[]> => {
+  const params: Record<string, string> = { action: 'showings' };
+  if (filters.dealId) params.dealId = filters.dealId;
+  if (filters.status) params.status = filters.status;
+  if (filters.from) params.from = filters.from;
+
+  const data = await fetchCalendars<{ showings: Showing[] }>(params);
+  return data.showings;
+};
+
+/**
+ * A scheduled showing whose time has passed without being marked completed
+ */
+export function isShowingOverdue(showing: Showing, now: Date = new Date()): boolean {
+  return showing.status === 'scheduled' && new Date(showing.endTime).getTime() < now.getTime();
+}
+
+/**
+ * All showings for a deal
+ */
+export const useDealShowings = (dealId: string | undefined) => {
+  return useQuery({
+    queryKey: ['showings', dealId],
+    queryFn: () => fetchShowings({ dealId }),
+    enabled: !!dealId,
+    staleTime: 60 * 1000,
+  });
+};
+
+const invalidateShowingQueries = (queryClient: ReturnType<typeof useQueryClient>) => {
+  queryClient.invalidateQueries({ queryKey: ['showings'] });
+  queryClient.invalidateQueries({ queryKey: ['deals'] });
+};
+
+/**
+ * Schedule a showing and create its GHL calendar appointment
+ */
+export const useScheduleShowing = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (request: ScheduleShowingRequest) =>
+      fetchCalendars<ShowingSyncResult>({ action: 'showings' }, {
+        method: 'POST',
+        body: JSON.stringify(request),
+      }),
+    onSuccess: () => invalidateShowingQueries(queryClient),
+  });
+};
+
+/**
+ * Reschedule, reassign, cancel or complete a showing
+ */
+export const useUpdateShowing = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ showingId, ...changes }: UpdateShowingRequest) =>
+      fetchCalendars<ShowingSyncResult>({ action: 'showings', id: showingId }, {
+        method: 'PUT',
+        body: JSON.stringify(changes),
+      }),
+    onSuccess: () => invalidateShowingQueries(queryClient),
+  });
+};
+
+/**
+ * Send any buyer reminders that are due now
+ */
+export const useSendShowingReminders = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () =>
+      fetchCalendars<ShowingRemindersResult>({ action: 'showing-reminders' }, { method: 'POST' }),
+    onSuccess: () => invalidateShowingQueries(queryClient),
+  });
+};
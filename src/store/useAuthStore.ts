@@ -7,11 +7,19 @@ interface User {
   role: string;
 }
 
+export interface LoginError {
+  message: string;
+  retryAt: number | null; // Epoch ms - the API refuses attempts before this (backoff/lockout)
+  locked: boolean;
+}
+
 interface AuthState {
   user: User | null;
+  token: string | null; // Signed session token sent to /api/* (see lib/authFetch)
   isLoading: boolean;
   isAuthenticated: boolean;
   sessionExpiry: number | null;
+  loginError: LoginError | null;
   login: (email: string, password: string, rememberMe?: boolean) => Promise<boolean>;
   logout: () => void;
   checkSession: () => boolean;
@@ -30,12 +38,14 @@ export const useAuthStore = create<AuthState>()(
   persist(
     (set, get) => ({
       user: null,
+      token: null,
       isLoading: false,
       isAuthenticated: false,
       sessionExpiry: null,
+      loginError: null,
 
       login: async (email: string, password: string, rememberMe: boolean = false) => {
-        set({ isLoading: true });
+        set({ isLoading: true, loginError: null });
 
         // Dev bypass - accept any credentials in development
         if (DEV_AUTH_BYPASS) {
@@ -60,21 +70,30 @@ export const useAuthStore = create<AuthState>()(
           const response = await fetch(`${API_BASE}?action=login`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ email, password }),
+            body: JSON.stringify({ email, password, rememberMe }),
           });
 
           if (!response.ok) {
-            set({ isLoading: false });
+            const error = await response.json().catch(() => ({}));
+            set({
+              isLoading: false,
+              loginError: {
+                message: error.error || 'Invalid email or password',
+                retryAt: typeof error.retryAt === 'number' ? error.retryAt : null,
+                locked: error.locked === true,
+              },
+            });
             return false;
           }
 
           const data = await response.json();
           if (data.success && data.user) {
             const sessionDuration = rememberMe ? SESSION_DURATION_LONG : SESSION_DURATION_SHORT;
-            const expiry = Date.now() + sessionDuration;
+            const expiry = data.expiresAt || Date.now() + sessionDuration;
 
             set({
               user: data.user,
+              token: data.token || null,
               isAuthenticated: true,
               isLoading: false,
               sessionExpiry: expiry,
@@ -92,7 +111,7 @@ export const useAuthStore = create<AuthState>()(
       },
 
       logout: () => {
-        set({ user: null, isAuthenticated: false, sessionExpiry: null });
+        set({ user: null, token: null, isAuthenticated: false, sessionExpiry: null });
       },
 
       checkSession: () => {
@@ -103,7 +122,7 @@ export const useAuthStore = create<AuthState>()(
         
         if (Date.now() > sessionExpiry) {
           // Session expired
-          set({ user: null, isAuthenticated: false, sessionExpiry: null });
+          set({ user: null, token: null, isAuthenticated: false, sessionExpiry: null });
           return false;
         }
         
@@ -115,6 +134,7 @@ export const useAuthStore = create<AuthState>()(
       storage: createJSONStorage(() => localStorage),
       partialize: (state) => ({
         user: state.user,
+        token: state.token,
         isAuthenticated: state.isAuthenticated,
         sessionExpiry: state.sessionExpiry,
       }),
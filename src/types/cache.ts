@@ -57,14 +57,38 @@ export interface MatchesCacheData {
   propertyIndex: Record<string, string[]>; // propertyId -> matchIds[]
 }
 
+/**
+ * Records that differ between a cache and its table since the last sync,
+ * as of the last check (CacheStatus.lastChecked)
+ */
+export interface CacheChanges {
+  added: number;
+  changed: number; // Modified in Airtable after the last sync
+  removed: number;
+  isStale: boolean;
+}
+
 export interface CacheStatus {
   properties: CacheMetadata;
   buyers: CacheMetadata;
   matches: CacheMetadata;
+  changes: Record<CacheKey, CacheChanges>;
   newPropertiesAvailable: number;
   newBuyersAvailable: number;
   isStale: boolean;
-  lastChecked: string;
+  lastChecked: string | null; // Oldest table check, null before the first
 }
 
 export type CacheKey = 'properties' | 'buyers' | 'matches';
+
+export interface CacheSyncResult {
+  success: boolean;
+  syncedAt: string;
+  results: Partial<Record<CacheKey, {
+    recordCount: number;
+    mode: 'full' | 'incremental' | 'unchanged';
+    added: number;
+    changed: number;
+    removed: number;
+  }>>;
+}
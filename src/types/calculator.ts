@@ -129,6 +129,17 @@ export interface FlipInputs {
   contingency: number;
 }
 
+/**
+ * Projection - Multi-year hold assumptions for the pro forma
+ */
+export interface ProjectionInputs {
+  holdYears: number;
+  rentGrowth: number; // Annual percentage
+  expenseInflation: number; // Annual percentage
+  appreciation: number; // Annual percentage
+  sellingCosts: number; // Percentage of sale price
+}
+
 /**
  * Complete Calculator Inputs - All sections combined
  */
@@ -139,6 +150,7 @@ export interface CalculatorInputs {
   buyerRecordId?: string; // Link to Airtable buyer
   propertyCode?: string;
   contactId?: string;
+  strategy?: DealStrategy; // Exit strategy picked for the headline decision; derived when unset
 
   // All input sections
   propertyBasics: PropertyBasicsInputs;
@@ -152,6 +164,7 @@ export interface CalculatorInputs {
   wrapLoan: WrapLoanInputs;
   wrapSales: WrapSalesInputs;
   flip: FlipInputs;
+  projection: ProjectionInputs;
 }
 
 // ============ OUTPUT TYPES ============
@@ -201,15 +214,70 @@ export interface TotalsOutputs {
   totalMonthlyExpenses: number;
 }
 
+export type DealDecision = 'DEAL' | 'NO DEAL' | 'NEEDS REVIEW';
+
+/**
+ * Checklist Rule Result - One buy-box rule checked against the deal
+ */
+export interface ChecklistRuleResult {
+  rule: ChecklistRule;
+  value: number | null; // Null when the metric doesn't apply (e.g. IRR with no cash in)
+  passed: boolean;
+}
+
 /**
- * Deal Checklist - Pass/fail criteria
+ * Buy-Box Result - A strategy's rules checked against the deal
+ */
+export interface BuyBoxResult {
+  strategy: DealStrategy;
+  results: ChecklistRuleResult[];
+  score: number; // Percentage of rule weight passed
+  dealDecision: DealDecision;
+}
+
+/**
+ * Deal Checklist - Pass/fail criteria from every strategy's buy-box
+ * The headline decision comes from the strategy picked for the deal, or
+ * without one: wrap when a wrap is set up, flip when there's no rental
+ * income to hold for, otherwise hold.
  */
 export interface DealChecklistOutputs {
-  entryFeeUnder25k: boolean;
-  cashflowOver400: boolean;
-  ltvUnder75: boolean;
-  equityOver15k: boolean;
-  dealDecision: 'DEAL' | 'NO DEAL' | 'NEEDS REVIEW';
+  strategy: DealStrategy;
+  dealDecision: DealDecision;
+  buyBoxes: Record<DealStrategy, BuyBoxResult>;
+}
+
+/**
+ * Projection Year - One row of the pro forma
+ * For wrap deals income is the buyer's note payments and property value is
+ * the note balance still owed to us.
+ */
+export interface ProjectionYear {
+  year: number;
+  grossIncome: number;
+  operatingExpenses: number;
+  debtService: number;
+  cashflow: number; // Income - expenses - debt service
+  balloonPayments: number; // Balloons paid off in cash this year
+  saleProceeds: number; // Net of selling costs and payoffs, exit year only
+  netCashflow: number; // Cashflow - balloons + sale proceeds
+  cumulativeCashflow: number; // Running net cashflow, starting from -initial investment
+  loanBalance: number; // Our loans at year end
+  propertyValue: number;
+  equity: number;
+}
+
+/**
+ * Projection - Multi-year pro forma and return metrics
+ */
+export interface ProjectionOutputs {
+  strategy: DealStrategy;
+  years: ProjectionYear[];
+  initialInvestment: number;
+  totalCashflow: number; // Operating cashflow over the hold
+  totalProfit: number; // All net cashflow less the initial investment
+  equityMultiple: number | null; // Null when nothing is invested
+  irr: number | null; // Percentage; null when the cashflows never change sign
 }
 
 /**
@@ -220,6 +288,7 @@ export interface CalculatorOutputs {
   loanCalcs: LoanCalcsOutputs;
   totals: TotalsOutputs;
   dealChecklist: DealChecklistOutputs;
+  projection: ProjectionOutputs;
 }
 
 // ============ SCENARIO & RECORD TYPES ============
@@ -251,6 +320,49 @@ export interface SavedCalculation {
   updatedAt: string;
 }
 
+// ============ BUY-BOX TYPES ============
+
+export type DealStrategy = 'hold' | 'wrap' | 'flip';
+
+export type ChecklistMetric =
+  | 'entryFee'
+  | 'fundingGap'
+  | 'monthlyCashflow'
+  | 'cashOnCashHold'
+  | 'wrapCashflow'
+  | 'cashOnCashWrap'
+  | 'flipProfit'
+  | 'cashOnCashFlip'
+  | 'ltv'
+  | 'equity'
+  | 'irr'
+  | 'equityMultiple';
+
+export type ChecklistComparator = '<' | '<=' | '>' | '>=';
+
+/**
+ * Checklist Rule - A metric compared against a threshold
+ * Weight sets how much the rule counts toward the buy-box score.
+ */
+export interface ChecklistRule {
+  id: string;
+  metric: ChecklistMetric;
+  comparator: ChecklistComparator;
+  threshold: number;
+  weight: number;
+}
+
+/**
+ * Buy-Box - A strategy's checklist rules and decision cutoffs
+ */
+export interface BuyBox {
+  rules: ChecklistRule[];
+  dealScore: number; // Percentage of rule weight needed for DEAL
+  reviewScore: number; // Percentage of rule weight needed for NEEDS REVIEW
+}
+
+export type BuyBoxes = Record<DealStrategy, BuyBox>;
+
 /**
  * Calculator Defaults - User-configurable default values
  */
@@ -274,9 +386,81 @@ export interface CalculatorDefaults {
   appraisalCost: number;
   llcCost: number;
   servicingFee: number;
+  buyBoxes?: BuyBoxes; // Missing on defaults saved before buy-boxes existed
   updatedAt?: string;
 }
 
+// ============ SENSITIVITY TYPES ============
+
+export type SensitivityVariableId =
+  | 'purchasePrice'
+  | 'arv'
+  | 'repairs'
+  | 'monthlyRent'
+  | 'annualTaxes'
+  | 'dscrInterestRate'
+  | 'wrapInterestRate'
+  | 'wrapSalesPrice';
+
+/**
+ * Sensitivity Variable - An input the sensitivity grid and goal-seek can vary
+ * Values are spread around the scenario's current value, by a share of it
+ * ('relative') or by points ('absolute').
+ */
+export interface SensitivityVariable {
+  label: string;
+  section: 'purchaseCosts' | 'propertyBasics' | 'income' | 'taxInsurance' | 'dscrLoan' | 'wrapLoan' | 'wrapSales';
+  field: string;
+  spread: number;
+  spreadMode: 'relative' | 'absolute';
+  higherIsBetter: boolean; // Direction that improves the deal, used by goal-seek
+}
+
+export type SensitivityMetric =
+  | 'monthlyCashflow'
+  | 'wrapCashflow'
+  | 'flipProfit'
+  | 'cashOnCashHold'
+  | 'irr'
+  | 'checklistScore';
+
+/**
+ * Sensitivity Cell - Key outputs for one combination of input values
+ */
+export interface SensitivityCell {
+  rowValue: number;
+  columnValue: number | null;
+  metrics: Record<SensitivityMetric, number | null>;
+  dealDecision: DealDecision;
+}
+
+/**
+ * Sensitivity Grid - Outputs across one or two varied inputs
+ * One-variable grids have a single column with a null value.
+ */
+export interface SensitivityGrid {
+  rowVariable: SensitivityVariableId;
+  columnVariable: SensitivityVariableId | null;
+  rowValues: number[];
+  columnValues: (number | null)[];
+  cells: SensitivityCell[][]; // [row][column]
+}
+
+export type GoalSeekTarget = 'deal' | 'breakEven';
+
+/**
+ * Goal-Seek Result - The furthest an input can move and still hit the target
+ * 'always' and 'never' mean the target holds (or fails) across the whole
+ * search range, in which case value is the range end that was checked.
+ */
+export interface GoalSeekResult {
+  variable: SensitivityVariableId;
+  target: GoalSeekTarget;
+  status: 'found' | 'always' | 'never';
+  value: number;
+  outputs: CalculatorOutputs;
+}
+
 // ============ API RESPONSE TYPES ============
 
 /**
@@ -394,6 +578,102 @@ export const SLIDER_CONFIGS: Record<string, SliderFieldConfig> = {
   resaleClosingCosts: { min: 0, max: 50000, step: 1000, format: 'currency' },
   resaleMarketing: { min: 0, max: 25000, step: 500, format: 'currency' },
   contingency: { min: 0, max: 50000, step: 1000, format: 'currency' },
+
+  // Projection
+  holdYears: { min: 1, max: 30, step: 1, format: 'years' },
+  rentGrowth: { min: 0, max: 10, step: 0.5, format: 'percentage' },
+  expenseInflation: { min: 0, max: 10, step: 0.5, format: 'percentage' },
+  appreciation: { min: -5, max: 10, step: 0.5, format: 'percentage' },
+  sellingCosts: { min: 0, max: 12, step: 0.5, format: 'percentage' },
+};
+
+// ============ SENSITIVITY CONFIGURATION ============
+
+/**
+ * Inputs available to sensitivity analysis and goal-seek
+ */
+export const SENSITIVITY_VARIABLES: Record<SensitivityVariableId, SensitivityVariable> = {
+  purchasePrice: { label: 'Purchase Price', section: 'purchaseCosts', field: 'purchasePrice', spread: 0.2, spreadMode: 'relative', higherIsBetter: false },
+  arv: { label: 'ARV', section: 'propertyBasics', field: 'arv', spread: 0.2, spreadMode: 'relative', higherIsBetter: true },
+  repairs: { label: 'Repairs', section: 'propertyBasics', field: 'repairs', spread: 0.5, spreadMode: 'relative', higherIsBetter: false },
+  monthlyRent: { label: 'Monthly Rent', section: 'income', field: 'monthlyRent', spread: 0.2, spreadMode: 'relative', higherIsBetter: true },
+  annualTaxes: { label: 'Annual Taxes', section: 'taxInsurance', field: 'annualTaxes', spread: 0.3, spreadMode: 'relative', higherIsBetter: false },
+  dscrInterestRate: { label: 'DSCR Rate', section: 'dscrLoan', field: 'dscrInterestRate', spread: 2, spreadMode: 'absolute', higherIsBetter: false },
+  wrapInterestRate: { label: 'Wrap Rate', section: 'wrapLoan', field: 'wrapInterestRate', spread: 2, spreadMode: 'absolute', higherIsBetter: true },
+  wrapSalesPrice: { label: 'Wrap Sales Price', section: 'wrapSales', field: 'wrapSalesPrice', spread: 0.15, spreadMode: 'relative', higherIsBetter: true },
+};
+
+export const SENSITIVITY_METRICS: Record<SensitivityMetric, { label: string; format: 'currency' | 'percentage' }> = {
+  monthlyCashflow: { label: 'Monthly Cashflow', format: 'currency' },
+  wrapCashflow: { label: 'Wrap Cashflow', format: 'currency' },
+  flipProfit: { label: 'Flip Profit', format: 'currency' },
+  cashOnCashHold: { label: 'Hold Cash on Cash', format: 'percentage' },
+  irr: { label: 'IRR', format: 'percentage' },
+  checklistScore: { label: 'Checklist Score', format: 'percentage' },
+};
+
+// ============ BUY-BOX CONFIGURATION ============
+
+/**
+ * Display settings for each checklist metric
+ */
+export const CHECKLIST_METRICS: Record<ChecklistMetric, { label: string; description: string; format: 'currency' | 'percentage' | 'multiple' }> = {
+  entryFee: { label: 'Entry Fee', description: 'Total upfront costs including closing, appraisal, LLC, and loan fees', format: 'currency' },
+  fundingGap: { label: 'Funding Gap', description: 'Cash needed at closing after financing', format: 'currency' },
+  monthlyCashflow: { label: 'Monthly Cashflow', description: 'Net monthly income after all expenses and debt service', format: 'currency' },
+  cashOnCashHold: { label: 'Hold Cash on Cash', description: 'Annual hold cashflow over cash invested', format: 'percentage' },
+  wrapCashflow: { label: 'Wrap Cashflow', description: 'Wrap payment less underlying payments and servicing', format: 'currency' },
+  cashOnCashWrap: { label: 'Wrap Cash on Cash', description: 'Annual wrap cashflow over cash left in the deal', format: 'percentage' },
+  flipProfit: { label: 'Flip Profit', description: 'ARV less purchase, repairs, carrying and resale costs', format: 'currency' },
+  cashOnCashFlip: { label: 'Flip Cash on Cash', description: 'Annualized flip profit over cash invested', format: 'percentage' },
+  ltv: { label: 'Loan to Value', description: 'Total loan amount divided by ARV', format: 'percentage' },
+  equity: { label: 'Equity', description: 'ARV minus purchase price and repairs', format: 'currency' },
+  irr: { label: 'IRR', description: 'Internal rate of return over the pro forma hold', format: 'percentage' },
+  equityMultiple: { label: 'Equity Multiple', description: 'Total cash returned over cash invested', format: 'multiple' },
+};
+
+export const CHECKLIST_COMPARATORS: Record<ChecklistComparator, string> = {
+  '<': '<',
+  '<=': '≤',
+  '>': '>',
+  '>=': '≥',
+};
+
+/**
+ * System default buy-boxes
+ * Hold matches the original fixed checklist: all four rules for DEAL,
+ * two of four for NEEDS REVIEW.
+ */
+export const DEFAULT_BUY_BOXES: BuyBoxes = {
+  hold: {
+    rules: [
+      { id: 'hold-entry-fee', metric: 'entryFee', comparator: '<', threshold: 25000, weight: 1 },
+      { id: 'hold-cashflow', metric: 'monthlyCashflow', comparator: '>=', threshold: 400, weight: 1 },
+      { id: 'hold-ltv', metric: 'ltv', comparator: '<=', threshold: 75, weight: 1 },
+      { id: 'hold-equity', metric: 'equity', comparator: '>=', threshold: 15000, weight: 1 },
+    ],
+    dealScore: 100,
+    reviewScore: 50,
+  },
+  wrap: {
+    rules: [
+      { id: 'wrap-entry-fee', metric: 'entryFee', comparator: '<', threshold: 25000, weight: 1 },
+      { id: 'wrap-cashflow', metric: 'wrapCashflow', comparator: '>=', threshold: 300, weight: 1 },
+      { id: 'wrap-ltv', metric: 'ltv', comparator: '<=', threshold: 75, weight: 1 },
+      { id: 'wrap-equity', metric: 'equity', comparator: '>=', threshold: 15000, weight: 1 },
+    ],
+    dealScore: 100,
+    reviewScore: 50,
+  },
+  flip: {
+    rules: [
+      { id: 'flip-profit', metric: 'flipProfit', comparator: '>=', threshold: 25000, weight: 2 },
+      { id: 'flip-coc', metric: 'cashOnCashFlip', comparator: '>=', threshold: 25, weight: 1 },
+      { id: 'flip-equity', metric: 'equity', comparator: '>=', threshold: 15000, weight: 1 },
+    ],
+    dealScore: 100,
+    reviewScore: 50,
+  },
 };
 
 // ============ DEFAULT VALUES ============
@@ -403,6 +683,8 @@ export const SLIDER_CONFIGS: Record<string, SliderFieldConfig> = {
  */
 export const DEFAULT_CALCULATOR_VALUES: CalculatorDefaults = {
   wholesaleDiscount: 70,
+  yourFee: 5000,
+  creditToBuyer: 5000,
   maintenancePercent: 5,
   propertyMgmtPercent: 10,
   dscrInterestRate: 8,
@@ -418,4 +700,5 @@ export const DEFAULT_CALCULATOR_VALUES: CalculatorDefaults = {
   appraisalCost: 500,
   llcCost: 200,
   servicingFee: 100,
+  buyBoxes: DEFAULT_BUY_BOXES,
 };
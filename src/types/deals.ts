@@ -6,7 +6,7 @@
  */
 
 import { MatchDealStage } from './associations';
-import { PropertyMatch, PropertyDetails, BuyerCriteria, MatchActivity } from './matching';
+import { PropertyMatch, PropertyDetails, BuyerCriteria, MatchActivity, ReplyIntent } from './matching';
 
 /**
  * Note entry stored in the Notes JSON field
@@ -28,12 +28,40 @@ export interface Deal extends PropertyMatch {
   activities: MatchActivity[];
   notes?: NoteEntry[];
 
+  showing?: Showing;           // Next scheduled showing, when loaded
+
   // Computed UI properties
   isStale?: boolean;           // No activity in 7+ days
+  isShowingOverdue?: boolean;  // Showing time passed without being completed
   daysSinceActivity?: number;  // Days since last activity
   lastActivityAt?: string;     // ISO timestamp of last activity
 }
 
+/**
+ * Scheduled property showing for a deal
+ * Mirrors lib/deals/showings.ts on the server
+ */
+export type ShowingStatus = 'scheduled' | 'completed' | 'cancelled' | 'no-show';
+
+export interface Showing {
+  id: string;
+  dealId: string;
+  contactId: string;
+  buyerName: string;
+  propertyCode?: string;
+  propertyAddress: string;
+  startTime: string;           // ISO
+  endTime: string;             // ISO
+  agentName?: string;
+  agentUserId?: string;        // GHL user assigned to the appointment
+  accessNotes?: string;        // Lockbox/gate codes - staff only
+  status: ShowingStatus;
+  appointmentId?: string;      // GHL calendar appointment
+  remindersSent: Array<'day-before' | 'two-hours'>;
+  createdAt: string;
+  createdBy?: string;
+}
+
 /**
  * Pipeline statistics for the Overview tab
  */
@@ -78,8 +106,8 @@ export interface DealFilters {
   propertyId?: string;
   search?: string;             // Search in property address or buyer name
   minScore?: number;
-  onlyStale?: boolean;         // Only deals needing attention
-  onlyUpcoming?: boolean;      // Only "Showing Scheduled" deals
+  onlyStale?: boolean;         // Only open deals needing attention
+  onlyUpcoming?: boolean;      // Deals with a scheduled showing or in "Showing Scheduled"
 }
 
 /**
@@ -92,7 +120,8 @@ export type DealSortField =
   | 'createdAt'
   | 'buyerName'
   | 'propertyAddress'
-  | 'price';
+  | 'price'
+  | 'showingTime';
 
 export type DealSortDirection = 'asc' | 'desc';
 
@@ -101,6 +130,17 @@ export interface DealSort {
   direction: DealSortDirection;
 }
 
+/**
+ * One page of deals from /api/matching?action=deals
+ */
+export interface DealsPage {
+  deals: Deal[];
+  total: number;
+  offset: number;
+  limit: number;
+  nextOffset: number | null;
+}
+
 /**
  * Stage change request for updating deal stage
  */
@@ -114,3 +154,48 @@ export interface StageChangeRequest {
   syncToGhl?: boolean;
   ghlRelationId?: string; // Previous GHL relation ID to delete when changing stages
 }
+
+/**
+ * Deal stage automation rule: trigger → conditions → actions
+ * Mirrors lib/deals/automation.ts on the server
+ */
+export type AutomationTrigger =
+  | { type: 'reply-received'; intents: ReplyIntent[] }
+  | { type: 'stage-entered'; stage: MatchDealStage }
+  | { type: 'stage-idle'; stage: MatchDealStage; days: number };
+
+export interface AutomationConditions {
+  stages?: MatchDealStage[];  // Deal must currently be in one of these stages
+  minScore?: number;
+  dealTypes?: string[];       // Buyer's Deal Type
+}
+
+export type AutomationAction =
+  | { type: 'move-stage'; stage: MatchDealStage }
+  | { type: 'send-message'; channel: 'sms' | 'email'; subject?: string; message: string }
+  | { type: 'send-document'; templateId: string; templateName?: string };
+
+export interface AutomationRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  trigger: AutomationTrigger;
+  conditions: AutomationConditions;
+  actions: AutomationAction[];
+}
+
+export interface AutomationResult {
+  ruleId: string;
+  ruleName: string;
+  dealId: string;
+  trigger: AutomationTrigger['type'];
+  actions: Array<{ type: AutomationAction['type']; ok: boolean; skipped?: boolean; error?: string }>;
+  movedTo?: MatchDealStage;
+}
+
+export interface AutomationRunResult {
+  checked: number;
+  fired: number;
+  failed: number;
+  results: AutomationResult[];
+}
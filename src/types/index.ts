@@ -107,6 +107,7 @@ export interface BuyerMatches {
 
 export interface Buyer {
   id: string;
+  contactId?: string; // GHL contact (messages are sent to the contact, not the opportunity)
   name: string;
   email: string;
   phone: string;
@@ -22,6 +22,7 @@ export interface BuyerCriteria {
   city?: string;
   state?: string;
   buyerType?: string;
+  dealType?: string; // Lease Option, Wrap, Bond for Deed, etc. - sets affordability terms
   qualified?: boolean;
   language?: 'English' | 'Spanish'; // Buyer's preferred language
   lat?: number;
@@ -31,6 +32,58 @@ export interface BuyerCriteria {
   locationSource?: 'city' | 'zip' | 'address'; // Source of geocoded location
   preferredLocation?: string;
   preferredZipCodes?: string[];
+  exclusionRules?: ExclusionRule[]; // Deal-breakers - excluded properties are never matched
+  anchorPoints?: AnchorPoint[]; // Places the buyer drives to - location is scored on drive time
+}
+
+/**
+ * Buyer deal-breaker rule - mirrors lib/matching/exclusions.ts on the server
+ */
+export type ExclusionRuleType =
+  | 'property-type'        // value: property type to exclude (e.g. "Mobile Home")
+  | 'max-price'            // value: highest acceptable total price
+  | 'max-monthly-payment'  // value: highest acceptable monthly payment
+  | 'zip-code'             // value: ZIP code to exclude
+  | 'min-beds'             // value: fewest acceptable bedrooms
+  | 'min-condition';       // value: worst acceptable condition
+
+export interface ExclusionRule {
+  id: string;
+  type: ExclusionRuleType;
+  value: string | number;
+  createdAt?: string;
+}
+
+/**
+ * Place a buyer travels to regularly - mirrors lib/matching/anchors.ts on the server
+ */
+export type AnchorPointType = 'work' | 'school' | 'family' | 'other';
+
+export interface AnchorPoint {
+  id: string;
+  type: AnchorPointType;
+  label: string;
+  address: string;
+  lat?: number;       // Set by the server when the anchor is saved
+  lng?: number;
+  maxMinutes?: number; // Longest acceptable drive
+  createdAt?: string;
+}
+
+export interface AnchorTravelTime {
+  anchorId: string;
+  label: string;
+  minutes: number;
+}
+
+/**
+ * Property hidden from a buyer by one of their exclusion rules
+ */
+export interface ExcludedProperty {
+  propertyId: string;
+  address: string;
+  ruleId: string;
+  reason: string;
 }
 
 export interface PropertyDetails {
@@ -75,15 +128,45 @@ export interface MatchScore {
   score: number; // 0-100
   distance?: number; // Distance in miles (legacy, use distanceMiles)
   distanceMiles: number | null; // Distance in miles (null if no coordinates)
-  locationScore: number; // 0-40 points
-  bedsScore: number; // 0-25 points
-  bathsScore: number; // 0-15 points
-  budgetScore: number; // 0-20 points
+  locationScore: number; // 0-weights.location points (35 in the default profile)
+  bedsScore: number; // 0-weights.beds points (20)
+  bathsScore: number; // 0-weights.baths points (10)
+  budgetScore: number; // 0-weights.budget points (15)
+  propertyTypeScore?: number; // 0-weights.propertyType points (10)
+  conditionScore?: number; // 0-weights.condition points (5)
+  sqftScore?: number; // 0-weights.sqft points (5)
   reasoning: string;
-  locationReason: string; // Human-readable location explanation
+  locationReason: string; // Human-readable location explanation (e.g. "22 min to work")
+  travelTimes?: AnchorTravelTime[]; // Drive time to each of the buyer's anchor points
   highlights: string[];
   concerns: string[];
-  isPriority: boolean; // Within 50 miles OR in preferred ZIP
+  isPriority: boolean; // Within the profile's priority radius OR in preferred ZIP
+  profileId?: string; // Scoring profile used (see ScoringProfile)
+}
+
+/**
+ * Named scoring profile - weights, distance breakpoints and priority radius
+ * Mirrors lib/matching/profiles.ts on the server
+ */
+export interface ScoringProfile {
+  id: string;
+  name: string;
+  description?: string;
+  dealTypes: string[]; // Buyer deal types that select this profile automatically
+  weights: {
+    location: number;
+    beds: number;
+    baths: number;
+    budget: number;
+    propertyType: number;
+    condition: number;
+    sqft: number;
+  };
+  distanceTiers: Array<{
+    maxMiles: number;
+    ratio: number; // Share of location weight awarded (0-1)
+  }>;
+  priorityRadiusMiles: number;
 }
 
 /**
@@ -98,8 +181,24 @@ export type MatchActivityType =
   | 'showing-completed'
   | 'note-added'
   | 'offer-submitted'
+  | 'document-sent'
   | 'match-created';
 
+/**
+ * Intent parsed from a buyer's SMS reply (mirrors lib/deals/replies.ts)
+ */
+export type ReplyIntent = 'yes' | 'no' | 'stop' | 'question' | 'other';
+
+/**
+ * Buyer reply attached to the SMS activity it answers
+ */
+export interface MatchReply {
+  message: string;
+  intent: ReplyIntent;
+  receivedAt: string;
+  messageId?: string;
+}
+
 /**
  * Activity entry for match history
  */
@@ -116,6 +215,11 @@ export interface MatchActivity {
     emailSubject?: string;
     offerAmount?: number;
     note?: string;
+    recipientEmail?: string;
+    recipientPhone?: string;
+    propertyCount?: number;
+    customMessage?: string;
+    replies?: MatchReply[]; // Buyer replies to this SMS (inbound webhook)
   };
 }
 
@@ -149,12 +253,21 @@ export interface PropertyWithMatches extends PropertyDetails {
 }
 
 export interface MatchingJobStatus {
+  jobId?: string;
   status: 'idle' | 'running' | 'completed' | 'error';
-  progress?: number;
+  mode?: 'full' | 'delta';
+  progress?: number; // 0-100, by buyers processed
   totalBuyers?: number;
   totalProperties?: number;
   processedBuyers?: number;
   createdMatches?: number;
+  updatedMatches?: number;
+  removedMatches?: number;
+  excludedByRule?: number;
+  pairsRescored?: number;
+  pairsSkipped?: number;
+  startedAt?: string;
+  updatedAt?: string;
   error?: string;
 }
 
@@ -163,6 +276,8 @@ export interface RunMatchingRequest {
   propertyCode?: string; // For single property
   minScore?: number; // Minimum score threshold (default: 60)
   refreshAll?: boolean; // Re-match everything
+  profileId?: string; // Scoring profile (default: by buyer deal type)
+  incremental?: boolean; // Only re-score buyers/properties changed since the last run
 }
 
 export interface RunMatchingResponse {
@@ -175,6 +290,14 @@ export interface RunMatchingResponse {
     matchesUpdated: number;
     duplicatesSkipped?: number;
     withinRadius?: number; // Priority matches count
+    excludedByRule?: number; // Pairs dropped by buyer exclusion rules
+    matchesRemoved?: number; // Existing matches deleted because a rule now excludes them
+    mode?: 'full' | 'delta';
+    pairsRescored?: number; // Buyer×property pairs scored this run
+    pairsSkipped?: number; // Pairs skipped in delta mode because neither side changed
+    changedBuyers?: number; // Delta mode only
+    changedProperties?: number; // Delta mode only
+    watermark?: string | null; // Previous run the delta was computed against
   };
 }
 
@@ -201,12 +324,15 @@ export interface ScoredProperty {
  */
 export interface BuyerPropertiesResponse {
   buyer: BuyerCriteria;
+  profile?: Pick<ScoringProfile, 'id' | 'name'>; // Profile used for scoring
   priorityMatches: ScoredProperty[]; // Within 50mi or ZIP match
   exploreMatches: ScoredProperty[];  // Beyond 50mi
+  excluded?: ExcludedProperty[];     // Hidden by the buyer's exclusion rules
   totalCount: number;
   stats: {
     priorityCount: number;
     exploreCount: number;
+    excludedCount?: number;
     timeMs: number;
   };
 }
@@ -229,6 +355,7 @@ export interface PropertyBuyersResponse {
   buyers: ScoredBuyer[]; // All buyers sorted by score
   totalCount: number;
   stats: {
+    excludedCount?: number; // Buyers whose exclusion rules rule this property out
     timeMs: number;
   };
 }
@@ -0,0 +1,79 @@
+/**
+ * Messaging consent types
+ * Mirrors lib/messaging/consent.ts on the server
+ */
+
+export type MessageChannel = 'sms' | 'email';
+
+export type ConsentBlockReason = 'opted-out' | 'quiet-hours' | 'daily-cap';
+
+export interface ConsentDecision {
+  channel: MessageChannel;
+  allowed: boolean;
+  reason?: ConsentBlockReason;
+  message?: string;
+  retryAfter?: string; // ISO - when the send would next be allowed
+  timezone: string;
+  sentToday: number;
+}
+
+/**
+ * A send the server refused (409 from ?resource=messages&action=send)
+ */
+export interface MessageBlock {
+  channel: MessageChannel;
+  reason: ConsentBlockReason;
+  message: string;
+  retryAfter?: string;
+}
+
+/**
+ * Server-side bulk email job
+ * Mirrors lib/messaging/sendQueue.ts on the server
+ */
+export type SendJobStatus = 'queued' | 'running' | 'completed' | 'cancelled';
+
+export type SendItemStatus = 'queued' | 'sending' | 'sent' | 'failed' | 'skipped';
+
+export interface SendJobCounts {
+  total: number;
+  queued: number;
+  sent: number;
+  failed: number;
+  skipped: number;
+}
+
+export interface SendJobOptions {
+  subject?: string;
+  customMessage?: string;
+  agentName?: string;
+  agentPhone?: string;
+  agentEmail?: string;
+  language?: 'English' | 'Spanish';
+}
+
+export interface SendJob {
+  id: string;
+  name: string;
+  status: SendJobStatus;
+  options: SendJobOptions;
+  counts: SendJobCounts;
+  createdBy: string;
+  createdAt: string;
+  completedAt?: string;
+}
+
+export interface SendJobItem {
+  id: string;
+  jobId: string;
+  contactId: string;
+  contactName: string;
+  contactEmail: string;
+  propertyCount: number;
+  status: SendItemStatus;
+  attempts: number;
+  nextAttemptAt?: string; // Waiting to retry after a GHL 429/5xx
+  error?: string;
+  messageId?: string;
+  sentAt?: string;
+}